@@ -0,0 +1,36 @@
+/**
+ * SoftOne Design System - Auth Middleware
+ * 작성: SoftOne Frontend Team
+ *
+ * Authorization: Bearer <accessToken> 헤더를 검증하는 Express 미들웨어입니다.
+ *   검증에 성공하면 res.locals.auth에 Access Token claims를 저장합니다.
+ *   실패 시 401과 함께 code(TOKEN_MISSING | TOKEN_INVALID | TOKEN_EXPIRED)를 반환하므로
+ *   프론트엔드 httpClient가 토큰 갱신 여부를 판단할 수 있습니다.
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { TokenError, verifyJwt, type AccessTokenClaims } from "./tokenService";
+
+/**
+ * Access Token 검증 미들웨어
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization ?? "";
+  const [scheme, token] = header.split(" ");
+
+  if (scheme !== "Bearer" || !token) {
+    return res
+      .status(401)
+      .json({ error: "인증 토큰이 없습니다.", code: "TOKEN_MISSING" });
+  }
+
+  try {
+    res.locals.auth = verifyJwt<AccessTokenClaims>(token, "access");
+    next();
+  } catch (error) {
+    if (error instanceof TokenError) {
+      return res.status(401).json({ error: error.message, code: error.code });
+    }
+    next(error);
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * SoftOne Design System - Password Hasher
+ * 작성: SoftOne Frontend Team
+ *
+ * scrypt 기반 비밀번호 해시/검증.
+ *   저장 형식: scrypt$<salt(hex)>$<hash(hex)>
+ */
+
+import crypto from "crypto";
+
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+/**
+ * 비밀번호 해시 생성
+ */
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(SALT_BYTES).toString("hex");
+  const hash = crypto.scryptSync(password, salt, KEY_LENGTH).toString("hex");
+  return `scrypt$${salt}$${hash}`;
+}
+
+/**
+ * 비밀번호 검증 (timing-safe 비교)
+ */
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+}
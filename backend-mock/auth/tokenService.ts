@@ -0,0 +1,272 @@
+/**
+ * SoftOne Design System - Token Service
+ * 작성: SoftOne Frontend Team
+ *
+ * HS256 서명 JWT 기반 Access/Refresh Token 발급 및 회전(rotation)을 담당합니다.
+ *   - Access Token: 짧은 수명, 요청 인증용 (Authorization: Bearer)
+ *   - Refresh Token: 긴 수명, /api/auth/refresh에서 1회만 사용 가능
+ *     사용 시 새 토큰 쌍을 발급하고 기존 토큰은 폐기합니다.
+ *     폐기된 토큰이 다시 사용되면 같은 family의 토큰을 모두 폐기합니다.
+ *
+ * 환경변수:
+ *   JWT_SECRET             서명 키 (기본: 개발용 고정 키)
+ *   ACCESS_TOKEN_TTL_SEC   Access Token 수명 (기본 900초)
+ *   REFRESH_TOKEN_TTL_SEC  Refresh Token 수명 (기본 7일)
+ */
+
+import crypto from "crypto";
+import { getDb } from "../db/sqliteClient";
+import {
+  findRefreshToken,
+  markRefreshTokenRotated,
+  revokeTokenFamily,
+  saveRefreshToken,
+} from "../repositories/RefreshTokenRepository";
+
+// ========================================
+// Configuration
+// ========================================
+
+const JWT_SECRET = process.env.JWT_SECRET || "softone-backend-mock-secret";
+
+export const ACCESS_TOKEN_TTL_SEC = Number(
+  process.env.ACCESS_TOKEN_TTL_SEC || 15 * 60
+);
+
+export const REFRESH_TOKEN_TTL_SEC = Number(
+  process.env.REFRESH_TOKEN_TTL_SEC || 7 * 24 * 60 * 60
+);
+
+// ========================================
+// Types
+// ========================================
+
+/** 토큰에 담을 사용자 정보 */
+export interface TokenSubject {
+  id: string;
+  name: string;
+  role: string;
+  grade: string;
+}
+
+export interface AccessTokenClaims {
+  typ: "access";
+  sub: string;
+  name: string;
+  role: string;
+  grade: string;
+  iat: number;
+  exp: number;
+}
+
+export interface RefreshTokenClaims {
+  typ: "refresh";
+  sub: string;
+  /** 토큰 ID */
+  jti: string;
+  /** 토큰 family ID (로그인 세션 단위) */
+  fid: string;
+  iat: number;
+  exp: number;
+}
+
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+  /** Access Token 수명 (초) */
+  expiresIn: number;
+}
+
+export type TokenErrorCode =
+  | "TOKEN_MISSING"
+  | "TOKEN_INVALID"
+  | "TOKEN_EXPIRED"
+  | "TOKEN_REUSED";
+
+/** 토큰 검증/회전 실패 시 throw 되는 에러 */
+export class TokenError extends Error {
+  constructor(public readonly code: TokenErrorCode, message: string) {
+    super(message);
+    this.name = "TokenError";
+  }
+}
+
+// ========================================
+// JWT (HS256)
+// ========================================
+
+const JWT_HEADER = { alg: "HS256", typ: "JWT" };
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function base64UrlJson(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function createSignature(content: string): string {
+  return crypto
+    .createHmac("sha256", JWT_SECRET)
+    .update(content)
+    .digest("base64url");
+}
+
+/**
+ * JWT 서명
+ */
+export function signJwt(payload: object): string {
+  const content = `${base64UrlJson(JWT_HEADER)}.${base64UrlJson(payload)}`;
+  return `${content}.${createSignature(content)}`;
+}
+
+/**
+ * JWT 검증 (서명, 만료, 토큰 종류)
+ */
+export function verifyJwt<T extends AccessTokenClaims | RefreshTokenClaims>(
+  token: string,
+  expectedType: T["typ"]
+): T {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw new TokenError("TOKEN_INVALID", "토큰 형식이 올바르지 않습니다.");
+  }
+
+  const [header, payload, signature] = parts;
+  const expected = Buffer.from(createSignature(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    throw new TokenError("TOKEN_INVALID", "토큰 서명이 올바르지 않습니다.");
+  }
+
+  let claims: T;
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    throw new TokenError("TOKEN_INVALID", "토큰 형식이 올바르지 않습니다.");
+  }
+
+  if (claims.typ !== expectedType) {
+    throw new TokenError("TOKEN_INVALID", "토큰 종류가 올바르지 않습니다.");
+  }
+
+  if (typeof claims.exp !== "number" || claims.exp <= nowSeconds()) {
+    throw new TokenError("TOKEN_EXPIRED", "토큰이 만료되었습니다.");
+  }
+
+  return claims;
+}
+
+// ========================================
+// Token Lifecycle
+// ========================================
+
+/**
+ * Access/Refresh 토큰 쌍 발급
+ * @param familyId 회전 시 기존 family 유지 (신규 로그인이면 생략)
+ */
+export function issueTokenPair(
+  subject: TokenSubject,
+  familyId: string = crypto.randomUUID()
+): TokenPair & { jti: string } {
+  const iat = nowSeconds();
+  const jti = crypto.randomUUID();
+
+  const accessClaims: AccessTokenClaims = {
+    typ: "access",
+    sub: subject.id,
+    name: subject.name,
+    role: subject.role,
+    grade: subject.grade,
+    iat,
+    exp: iat + ACCESS_TOKEN_TTL_SEC,
+  };
+
+  const refreshClaims: RefreshTokenClaims = {
+    typ: "refresh",
+    sub: subject.id,
+    jti,
+    fid: familyId,
+    iat,
+    exp: iat + REFRESH_TOKEN_TTL_SEC,
+  };
+
+  saveRefreshToken({
+    jti,
+    familyId,
+    userId: subject.id,
+    expiresAt: refreshClaims.exp,
+  });
+
+  return {
+    accessToken: signJwt(accessClaims),
+    refreshToken: signJwt(refreshClaims),
+    expiresIn: ACCESS_TOKEN_TTL_SEC,
+    jti,
+  };
+}
+
+/**
+ * Refresh Token 회전
+ *
+ * 유효한 토큰이면 새 토큰 쌍을 발급하고 기존 토큰을 폐기합니다.
+ * 이미 폐기된 토큰이면 탈취로 간주하여 family 전체를 폐기합니다.
+ *
+ * @param loadSubject 사용자 ID로 현재 사용자 정보 조회 (삭제된 사용자면 null)
+ */
+export function rotateRefreshToken(
+  refreshToken: string,
+  loadSubject: (userId: string) => TokenSubject | null
+): TokenPair {
+  const claims = verifyJwt<RefreshTokenClaims>(refreshToken, "refresh");
+  const db = getDb();
+
+  // 재사용 감지 시 family 폐기는 커밋되어야 하므로 에러는 트랜잭션 밖에서 throw
+  const rotate = db.transaction((): TokenPair | TokenError => {
+    const record = findRefreshToken(claims.jti);
+    const now = nowSeconds();
+
+    if (!record) {
+      return new TokenError("TOKEN_INVALID", "등록되지 않은 토큰입니다.");
+    }
+
+    if (record.revokedAt !== null) {
+      revokeTokenFamily(record.familyId, now);
+      return new TokenError(
+        "TOKEN_REUSED",
+        "이미 사용된 토큰입니다. 다시 로그인해주세요."
+      );
+    }
+
+    const subject = loadSubject(record.userId);
+    if (!subject) {
+      revokeTokenFamily(record.familyId, now);
+      return new TokenError("TOKEN_INVALID", "사용자를 찾을 수 없습니다.");
+    }
+
+    const { jti, ...pair } = issueTokenPair(subject, record.familyId);
+    markRefreshTokenRotated(record.jti, jti, now);
+    return pair;
+  });
+
+  const result = rotate();
+  if (result instanceof TokenError) throw result;
+  return result;
+}
+
+/**
+ * Refresh Token 폐기 (로그아웃)
+ * 유효하지 않은 토큰은 무시합니다.
+ */
+export function revokeRefreshToken(refreshToken: string): void {
+  try {
+    const claims = verifyJwt<RefreshTokenClaims>(refreshToken, "refresh");
+    revokeTokenFamily(claims.fid, nowSeconds());
+  } catch {
+    // 이미 만료/위조된 토큰은 폐기할 필요 없음
+  }
+}
@@ -9,6 +9,7 @@
 
 import Database from "better-sqlite3";
 import path from "path";
+import { hashPassword } from "../auth/passwordHasher";
 
 // 데이터베이스 인스턴스
 let db: Database.Database | null = null;
@@ -26,6 +27,8 @@ export function getDb(): Database.Database {
     // 테이블 생성 및 시딩
     initializeTables(db);
     seedData(db);
+    seedAccounts(db);
+    seedMenus(db);
 
     console.log("[SQLite] Database initialized");
   }
@@ -82,6 +85,88 @@ function initializeTables(db: Database.Database): void {
     )
   `);
 
+  // 로그인 계정 테이블 (비밀번호는 scrypt 해시로 저장)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS accounts (
+      id TEXT PRIMARY KEY,
+      username TEXT NOT NULL UNIQUE,
+      password_hash TEXT NOT NULL,
+      name TEXT NOT NULL,
+      email TEXT NOT NULL,
+      roles TEXT NOT NULL DEFAULT '[]',
+      role TEXT NOT NULL,
+      grade TEXT NOT NULL,
+      status TEXT DEFAULT 'ACTIVE',
+      created_at TEXT DEFAULT (datetime('now'))
+    )
+  `);
+
+  // Refresh Token 테이블 (회전/재사용 감지용)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS refresh_tokens (
+      jti TEXT PRIMARY KEY,
+      family_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      expires_at INTEGER NOT NULL,
+      revoked_at INTEGER,
+      replaced_by TEXT,
+      created_at TEXT DEFAULT (datetime('now'))
+    )
+  `);
+
+  // 권한 매트릭스 버전 테이블 (저장할 때마다 새 버전 행 추가)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS permission_matrix_versions (
+      version INTEGER PRIMARY KEY,
+      roles TEXT NOT NULL,
+      role_permissions TEXT NOT NULL,
+      grade_permission_boost TEXT NOT NULL,
+      updated_by TEXT,
+      created_at TEXT DEFAULT (datetime('now'))
+    )
+  `);
+
+  // 메뉴 그룹 테이블 (사이드바 섹션)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS menu_groups (
+      id TEXT PRIMARY KEY,
+      label TEXT NOT NULL,
+      sort_order INTEGER NOT NULL DEFAULT 0
+    )
+  `);
+
+  // 동적 메뉴 테이블 (version: 낙관적 잠금용, 수정할 때마다 + 1)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS menus (
+      id TEXT PRIMARY KEY,
+      parent_id TEXT,
+      label TEXT NOT NULL,
+      route_key TEXT,
+      path TEXT,
+      icon TEXT,
+      roles TEXT NOT NULL DEFAULT '[]',
+      sort_order INTEGER NOT NULL DEFAULT 0,
+      menu_group TEXT,
+      hide_in_menu INTEGER NOT NULL DEFAULT 0,
+      badge TEXT,
+      badge_color TEXT,
+      is_active INTEGER NOT NULL DEFAULT 1,
+      version INTEGER NOT NULL DEFAULT 1,
+      updated_by TEXT,
+      updated_at TEXT DEFAULT (datetime('now'))
+    )
+  `);
+
+  // 사용자별 사이드바 즐겨찾기/최근 방문 (routeKey 목록은 JSON 문자열)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS menu_preferences (
+      user_id TEXT PRIMARY KEY,
+      favorite_route_keys TEXT NOT NULL DEFAULT '[]',
+      recent_route_keys TEXT NOT NULL DEFAULT '[]',
+      updated_at TEXT NOT NULL
+    )
+  `);
+
   console.log("[SQLite] Tables created");
 }
 
@@ -224,6 +309,236 @@ function seedData(db: Database.Database): void {
   console.log("[SQLite] Data seeded: 200 users, 300 orders, 500 sales");
 }
 
+/**
+ * 로그인 계정 시딩
+ * 테스트 계정은 프론트엔드 authApi의 getTestAccounts()와 동일합니다.
+ */
+function seedAccounts(db: Database.Database): void {
+  const accountCount = db
+    .prepare("SELECT COUNT(*) as count FROM accounts")
+    .get() as { count: number };
+  if (accountCount.count > 0) return;
+
+  const accounts = [
+    {
+      id: "1",
+      username: "admin",
+      password: "admin123",
+      name: "시스템 관리자",
+      roles: ["ADMIN"],
+      role: "SYSTEM_ADMIN",
+      grade: "EXECUTIVE",
+    },
+    {
+      id: "2",
+      username: "orgadmin",
+      password: "orgadmin123",
+      name: "조직 관리자",
+      roles: ["ADMIN"],
+      role: "ORG_ADMIN",
+      grade: "TEAM_LEAD",
+    },
+    {
+      id: "3",
+      username: "manager",
+      password: "manager123",
+      name: "김매니저",
+      roles: ["MANAGER"],
+      role: "MANAGER",
+      grade: "SENIOR",
+    },
+    {
+      id: "4",
+      username: "user",
+      password: "user123",
+      name: "일반 직원",
+      roles: ["USER"],
+      role: "STAFF",
+      grade: "JUNIOR",
+    },
+    {
+      id: "5",
+      username: "intern",
+      password: "intern123",
+      name: "인턴",
+      roles: ["USER"],
+      role: "STAFF",
+      grade: "INTERN",
+    },
+    {
+      id: "6",
+      username: "guest",
+      password: "guest123",
+      name: "게스트 사용자",
+      roles: ["GUEST"],
+      role: "GUEST",
+      grade: "INTERN",
+    },
+  ];
+
+  const insertAccount = db.prepare(`
+    INSERT INTO accounts (id, username, password_hash, name, email, roles, role, grade)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  for (const account of accounts) {
+    insertAccount.run(
+      account.id,
+      account.username,
+      hashPassword(account.password),
+      account.name,
+      `${account.username}@softone.co.kr`,
+      JSON.stringify(account.roles),
+      account.role,
+      account.grade
+    );
+  }
+
+  console.log(`[SQLite] Accounts seeded: ${accounts.length} accounts`);
+}
+
+/**
+ * 동적 메뉴 시딩
+ * routeKey는 프론트엔드 라우트 레지스트리(ROUTE_REGISTRY)의 키와 동일합니다.
+ */
+function seedMenus(db: Database.Database): void {
+  const menuCount = db
+    .prepare("SELECT COUNT(*) as count FROM menus")
+    .get() as { count: number };
+  if (menuCount.count > 0) return;
+
+  const groups = [
+    { id: "main", label: "", order: 0 },
+    { id: "management", label: "관리", order: 10 },
+    { id: "data", label: "데이터", order: 20 },
+    { id: "tools", label: "개발자 도구", order: 50 },
+    { id: "system", label: "시스템", order: 100 },
+  ];
+
+  const menus = [
+    {
+      id: "dashboard",
+      routeKey: "dashboard.main",
+      label: "대시보드",
+      icon: "LayoutDashboard",
+      group: "main",
+      order: 1,
+    },
+    {
+      id: "users",
+      routeKey: "users.list",
+      label: "사용자 관리",
+      icon: "Users",
+      group: "management",
+      order: 10,
+      roles: ["ADMIN", "MANAGER"],
+    },
+    {
+      id: "users-dialog-sample",
+      parentId: "users",
+      routeKey: "users.dialog",
+      label: "사용자 CRUD (Dialog)",
+      order: 1,
+      roles: ["ADMIN", "MANAGER"],
+    },
+    {
+      id: "products",
+      routeKey: "products.crud",
+      label: "상품 관리",
+      icon: "Package",
+      group: "management",
+      order: 15,
+    },
+    {
+      id: "schedules",
+      routeKey: "schedules.main",
+      label: "일정 관리",
+      icon: "Calendar",
+      group: "management",
+      order: 20,
+    },
+    {
+      id: "grid-samples",
+      path: "/grid-samples",
+      label: "그리드 샘플",
+      icon: "Table",
+      group: "data",
+      order: 30,
+      badge: "Lab",
+      badgeColor: "primary",
+    },
+    {
+      id: "grid-ag-basic",
+      parentId: "grid-samples",
+      routeKey: "grid.samples.ag.basic",
+      label: "AG Grid 기본",
+      order: 1,
+    },
+    {
+      id: "grid-tanstack-basic",
+      parentId: "grid-samples",
+      routeKey: "grid.samples.tanstack.basic",
+      label: "TanStack Table 기본",
+      order: 2,
+    },
+    {
+      id: "swagger-playground",
+      routeKey: "tools.swagger",
+      label: "Swagger Playground",
+      icon: "Globe",
+      group: "tools",
+      order: 1,
+      roles: ["ADMIN", "DEV"],
+    },
+    {
+      id: "menu-management",
+      routeKey: "system.menu.management",
+      label: "메뉴 관리",
+      icon: "Settings",
+      group: "system",
+      order: 100,
+      roles: ["ADMIN"],
+    },
+    {
+      id: "help",
+      routeKey: "help.main",
+      label: "도움말",
+      icon: "HelpCircle",
+      group: "system",
+      order: 110,
+    },
+  ];
+
+  const insertGroup = db.prepare(
+    "INSERT INTO menu_groups (id, label, sort_order) VALUES (?, ?, ?)"
+  );
+  const insertMenu = db.prepare(`
+    INSERT INTO menus (id, parent_id, label, route_key, path, icon, roles, sort_order, menu_group, badge, badge_color)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  for (const group of groups) {
+    insertGroup.run(group.id, group.label, group.order);
+  }
+  for (const menu of menus) {
+    insertMenu.run(
+      menu.id,
+      menu.parentId ?? null,
+      menu.label,
+      menu.routeKey ?? null,
+      menu.path ?? null,
+      menu.icon ?? null,
+      JSON.stringify(menu.roles ?? []),
+      menu.order,
+      menu.group ?? null,
+      menu.badge ?? null,
+      menu.badgeColor ?? null
+    );
+  }
+
+  console.log(`[SQLite] Menus seeded: ${menus.length} menus`);
+}
+
 /**
  * 데이터베이스 종료
  */
@@ -0,0 +1,106 @@
+/**
+ * SoftOne Design System - Account Repository
+ * 작성: SoftOne Frontend Team
+ *
+ * 로그인 계정(accounts 테이블) 조회 및 인증을 담당합니다.
+ *   비밀번호는 scrypt 해시로 저장되며, 응답에는 포함하지 않습니다.
+ */
+
+import { getDb } from "../db/sqliteClient";
+import { verifyPassword } from "../auth/passwordHasher";
+
+// ========================================
+// Types
+// ========================================
+
+export interface Account {
+  id: string;
+  username: string;
+  name: string;
+  email: string;
+  /** 기존 호환용 역할 목록 (ADMIN, USER 등) */
+  roles: string[];
+  /** RBAC Role */
+  role: string;
+  /** 직급 */
+  grade: string;
+  status: string;
+}
+
+interface AccountRow {
+  id: string;
+  username: string;
+  password_hash: string;
+  name: string;
+  email: string;
+  roles: string;
+  role: string;
+  grade: string;
+  status: string;
+}
+
+// ========================================
+// Helpers
+// ========================================
+
+function toAccount(row: AccountRow): Account {
+  return {
+    id: row.id,
+    username: row.username,
+    name: row.name,
+    email: row.email,
+    roles: JSON.parse(row.roles),
+    role: row.role,
+    grade: row.grade,
+    status: row.status,
+  };
+}
+
+// ========================================
+// Repository Functions
+// ========================================
+
+/**
+ * ID로 활성 계정 조회
+ */
+export function findAccountById(id: string): Account | null {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT * FROM accounts WHERE id = ? AND status = 'ACTIVE'")
+    .get(id) as AccountRow | undefined;
+
+  return row ? toAccount(row) : null;
+}
+
+/**
+ * 아이디/비밀번호로 계정 인증
+ * @returns 인증 성공 시 계정, 실패 시 null
+ */
+export function authenticateAccount(
+  username: string,
+  password: string
+): Account | null {
+  const db = getDb();
+  const row = db
+    .prepare(
+      "SELECT * FROM accounts WHERE username = ? COLLATE NOCASE AND status = 'ACTIVE'"
+    )
+    .get(username) as AccountRow | undefined;
+
+  if (!row || !verifyPassword(password, row.password_hash)) return null;
+
+  return toAccount(row);
+}
+
+/**
+ * 계정에 할당된 RBAC Role 목록 (중복 제거)
+ */
+export function listAssignedRoles(): string[] {
+  const db = getDb();
+  const rows = db.prepare("SELECT DISTINCT role FROM accounts").all() as Pick<
+    AccountRow,
+    "role"
+  >[];
+
+  return rows.map((row) => row.role);
+}
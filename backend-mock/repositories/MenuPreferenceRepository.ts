@@ -0,0 +1,112 @@
+/**
+ * SoftOne Design System - Menu Preference Repository
+ * 작성: SoftOne Frontend Team
+ *
+ * 사용자별 사이드바 즐겨찾기/최근 방문 routeKey 목록을 저장합니다.
+ *   - 사용자당 한 행이며, 저장할 때마다 전체 목록을 교체합니다.
+ *   - updatedAt은 클라이언트가 변경한 시각을 그대로 저장합니다. (로컬 우선 동기화 비교용)
+ */
+
+import { getDb } from "../db/sqliteClient";
+
+// ========================================
+// Types
+// ========================================
+
+export interface MenuPreferenceRecord {
+  favoriteRouteKeys: string[];
+  recentRouteKeys: string[];
+  /** 저장된 적 없으면 null */
+  updatedAt: string | null;
+}
+
+interface MenuPreferenceRow {
+  favorite_route_keys: string;
+  recent_route_keys: string;
+  updated_at: string;
+}
+
+/** 목록당 최대 개수 (클라이언트 제한보다 넉넉하게) */
+const MAX_ROUTE_KEYS = 50;
+
+// ========================================
+// Validation
+// ========================================
+
+const isRouteKeyList = (value: unknown): value is string[] =>
+  Array.isArray(value) &&
+  value.length <= MAX_ROUTE_KEYS &&
+  value.every((key) => typeof key === "string" && key.length > 0);
+
+/**
+ * 저장 요청 본문 검증
+ */
+export function isMenuPreferenceInput(
+  value: unknown
+): value is MenuPreferenceRecord {
+  if (!value || typeof value !== "object") return false;
+  const input = value as Record<string, unknown>;
+  return (
+    isRouteKeyList(input.favoriteRouteKeys) &&
+    isRouteKeyList(input.recentRouteKeys) &&
+    (input.updatedAt === undefined ||
+      input.updatedAt === null ||
+      (typeof input.updatedAt === "string" &&
+        !Number.isNaN(Date.parse(input.updatedAt))))
+  );
+}
+
+// ========================================
+// Queries
+// ========================================
+
+/**
+ * 사용자의 즐겨찾기/최근 방문 조회
+ */
+export function findMenuPreferences(userId: string): MenuPreferenceRecord {
+  const row = getDb()
+    .prepare(
+      `SELECT favorite_route_keys, recent_route_keys, updated_at
+       FROM menu_preferences WHERE user_id = ?`
+    )
+    .get(userId) as MenuPreferenceRow | undefined;
+
+  if (!row) {
+    return { favoriteRouteKeys: [], recentRouteKeys: [], updatedAt: null };
+  }
+
+  return {
+    favoriteRouteKeys: JSON.parse(row.favorite_route_keys),
+    recentRouteKeys: JSON.parse(row.recent_route_keys),
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * 사용자의 즐겨찾기/최근 방문 저장 (updatedAt이 없으면 현재 시각)
+ */
+export function saveMenuPreferences(
+  userId: string,
+  input: MenuPreferenceRecord
+): MenuPreferenceRecord {
+  const updatedAt = input.updatedAt ?? new Date().toISOString();
+
+  getDb()
+    .prepare(
+      `INSERT INTO menu_preferences
+         (user_id, favorite_route_keys, recent_route_keys, updated_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(user_id) DO UPDATE SET
+         favorite_route_keys = excluded.favorite_route_keys,
+         recent_route_keys = excluded.recent_route_keys,
+         updated_at = excluded.updated_at`
+    )
+    .run(
+      userId,
+      JSON.stringify(input.favoriteRouteKeys),
+      JSON.stringify(input.recentRouteKeys),
+      updatedAt
+    );
+
+  return findMenuPreferences(userId);
+}
@@ -0,0 +1,578 @@
+/**
+ * SoftOne Design System - Menu Repository
+ * 작성: SoftOne Frontend Team
+ *
+ * 사이드바 동적 메뉴(menus)와 메뉴 그룹(menu_groups)을 저장합니다.
+ *   - 메뉴는 parentId로 계층을 구성하며, 같은 부모 안에서 order로 정렬합니다.
+ *   - 수정/삭제/순서 변경 요청의 version이 저장된 version과 다르면 MenuVersionConflictError를 던집니다.
+ *   - 자기 자신이나 하위 메뉴를 부모로 지정하면 MenuValidationError를 던집니다.
+ *   - 가져오기(importMenus)는 전체 메뉴/그룹을 하나의 트랜잭션으로 교체합니다.
+ */
+
+import { getDb } from "../db/sqliteClient";
+
+// ========================================
+// Types
+// ========================================
+
+export type MenuBadgeColor =
+  | "primary"
+  | "success"
+  | "warning"
+  | "danger"
+  | "info";
+
+export interface MenuRecord {
+  id: string;
+  parentId: string | null;
+  label: string;
+  /** 프론트엔드 라우트 레지스트리의 routeKey (메뉴 그룹은 null 가능) */
+  routeKey: string | null;
+  /** routeKey가 없는 메뉴의 경로 */
+  path: string | null;
+  icon: string | null;
+  roles: string[];
+  order: number;
+  group: string | null;
+  hideInMenu: boolean;
+  badge: string | null;
+  badgeColor: MenuBadgeColor | null;
+  isActive: boolean;
+  version: number;
+  updatedAt: string | null;
+  updatedBy: string | null;
+}
+
+export interface MenuGroupRecord {
+  id: string;
+  label: string;
+  order: number;
+}
+
+/** 생성/수정 요청 본문 */
+export interface MenuInput {
+  parentId: string | null;
+  label: string;
+  routeKey: string | null;
+  path: string | null;
+  icon: string | null;
+  roles: string[];
+  order: number;
+  group: string | null;
+  hideInMenu: boolean;
+  badge: string | null;
+  badgeColor: MenuBadgeColor | null;
+  isActive: boolean;
+}
+
+/** 순서 변경 항목 (group을 생략하면 기존 그룹 유지) */
+export interface MenuOrderInput {
+  id: string;
+  parentId: string | null;
+  order: number;
+  group?: string | null;
+  version: number;
+}
+
+/** 가져오기 항목 (id 포함) */
+export type MenuImportItem = MenuInput & { id: string };
+
+interface MenuRow {
+  id: string;
+  parent_id: string | null;
+  label: string;
+  route_key: string | null;
+  path: string | null;
+  icon: string | null;
+  roles: string;
+  sort_order: number;
+  menu_group: string | null;
+  hide_in_menu: number;
+  badge: string | null;
+  badge_color: MenuBadgeColor | null;
+  is_active: number;
+  version: number;
+  updated_by: string | null;
+  updated_at: string | null;
+}
+
+/** version이 저장된 값과 다를 때 throw 되는 에러 */
+export class MenuVersionConflictError extends Error {
+  constructor(
+    public readonly menuId: string,
+    public readonly currentVersion: number
+  ) {
+    super(
+      "다른 관리자가 메뉴를 먼저 변경했습니다. 메뉴를 새로고침한 후 다시 시도해주세요."
+    );
+    this.name = "MenuVersionConflictError";
+  }
+}
+
+/** 부모 지정이 잘못되었을 때 throw 되는 에러 */
+export class MenuValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MenuValidationError";
+  }
+}
+
+// ========================================
+// Helpers
+// ========================================
+
+const BADGE_COLORS: MenuBadgeColor[] = [
+  "primary",
+  "success",
+  "warning",
+  "danger",
+  "info",
+];
+
+function toRecord(row: MenuRow): MenuRecord {
+  return {
+    id: row.id,
+    parentId: row.parent_id,
+    label: row.label,
+    routeKey: row.route_key,
+    path: row.path,
+    icon: row.icon,
+    roles: JSON.parse(row.roles),
+    order: row.sort_order,
+    group: row.menu_group,
+    hideInMenu: row.hide_in_menu === 1,
+    badge: row.badge,
+    badgeColor: row.badge_color,
+    isActive: row.is_active === 1,
+    version: row.version,
+    updatedAt: row.updated_at,
+    updatedBy: row.updated_by,
+  };
+}
+
+const isOptionalString = (value: unknown) =>
+  value == null || typeof value === "string";
+
+/**
+ * 메뉴 생성/수정 요청 본문 검증
+ * routeKey 또는 path 중 하나는 있어야 합니다.
+ */
+export function isMenuInput(value: unknown): value is MenuInput {
+  if (!value || typeof value !== "object") return false;
+  const input = value as Partial<MenuInput>;
+
+  return (
+    typeof input.label === "string" &&
+    input.label.trim().length > 0 &&
+    isOptionalString(input.parentId) &&
+    isOptionalString(input.routeKey) &&
+    isOptionalString(input.path) &&
+    Boolean(input.routeKey || input.path) &&
+    isOptionalString(input.icon) &&
+    isOptionalString(input.group) &&
+    isOptionalString(input.badge) &&
+    (input.badgeColor == null || BADGE_COLORS.includes(input.badgeColor)) &&
+    Array.isArray(input.roles) &&
+    input.roles.every((role) => typeof role === "string") &&
+    Number.isInteger(input.order) &&
+    typeof input.hideInMenu === "boolean" &&
+    typeof input.isActive === "boolean"
+  );
+}
+
+/**
+ * 순서 변경 요청 본문 검증
+ */
+export function isMenuOrderInputList(
+  value: unknown
+): value is MenuOrderInput[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(
+      (item) =>
+        item &&
+        typeof item.id === "string" &&
+        isOptionalString(item.parentId) &&
+        isOptionalString(item.group) &&
+        Number.isInteger(item.order) &&
+        Number.isInteger(item.version)
+    )
+  );
+}
+
+/**
+ * 가져오기 요청 본문 검증
+ * Body: { groups, menus, baseVersions }
+ */
+export function isMenuImportPayload(value: unknown): value is {
+  groups: MenuGroupRecord[];
+  menus: MenuImportItem[];
+  baseVersions: Record<string, number>;
+} {
+  if (!value || typeof value !== "object") return false;
+  const payload = value as Record<string, unknown>;
+
+  return (
+    Array.isArray(payload.groups) &&
+    payload.groups.every(
+      (group) =>
+        group &&
+        typeof group.id === "string" &&
+        typeof group.label === "string" &&
+        Number.isInteger(group.order)
+    ) &&
+    Array.isArray(payload.menus) &&
+    payload.menus.every(
+      (menu) => menu && typeof menu.id === "string" && isMenuInput(menu)
+    ) &&
+    !!payload.baseVersions &&
+    typeof payload.baseVersions === "object" &&
+    Object.values(payload.baseVersions).every(Number.isInteger)
+  );
+}
+
+function findRow(id: string): MenuRow | undefined {
+  return getDb().prepare("SELECT * FROM menus WHERE id = ?").get(id) as
+    | MenuRow
+    | undefined;
+}
+
+/**
+ * 메뉴와 모든 하위 메뉴 id
+ */
+function collectSubtreeIds(id: string): string[] {
+  const rows = getDb().prepare("SELECT id, parent_id FROM menus").all() as {
+    id: string;
+    parent_id: string | null;
+  }[];
+
+  const ids = [id];
+  for (let i = 0; i < ids.length; i++) {
+    rows
+      .filter((row) => row.parent_id === ids[i])
+      .forEach((row) => ids.push(row.id));
+  }
+  return ids;
+}
+
+/**
+ * 부모 메뉴 검증 (존재 여부, 자기 자신/하위 메뉴 지정 금지)
+ */
+function assertValidParent(id: string | null, parentId: string | null): void {
+  if (!parentId) return;
+  if (!findRow(parentId)) {
+    throw new MenuValidationError(
+      `부모 메뉴 ${parentId}을(를) 찾을 수 없습니다.`
+    );
+  }
+  if (id && collectSubtreeIds(id).includes(parentId)) {
+    throw new MenuValidationError(
+      "메뉴를 자기 자신이나 하위 메뉴 아래로 옮길 수 없습니다."
+    );
+  }
+}
+
+function assertVersion(row: MenuRow, version: number): void {
+  if (row.version !== version) {
+    throw new MenuVersionConflictError(row.id, row.version);
+  }
+}
+
+// ========================================
+// Repository Functions
+// ========================================
+
+/**
+ * 전체 메뉴 조회 (평면 목록, 부모/순서 정렬)
+ */
+export function listMenus(): MenuRecord[] {
+  const rows = getDb()
+    .prepare("SELECT * FROM menus ORDER BY parent_id, sort_order, id")
+    .all() as MenuRow[];
+  return rows.map(toRecord);
+}
+
+/**
+ * 메뉴 그룹 조회
+ */
+export function listMenuGroups(): MenuGroupRecord[] {
+  const rows = getDb()
+    .prepare("SELECT * FROM menu_groups ORDER BY sort_order")
+    .all() as { id: string; label: string; sort_order: number }[];
+  return rows.map((row) => ({
+    id: row.id,
+    label: row.label,
+    order: row.sort_order,
+  }));
+}
+
+/**
+ * 메뉴 단건 조회
+ */
+export function findMenuById(id: string): MenuRecord | null {
+  const row = findRow(id);
+  return row ? toRecord(row) : null;
+}
+
+/**
+ * 메뉴 생성 (version 1)
+ *
+ * @throws MenuValidationError 부모 메뉴가 없는 경우
+ */
+export function createMenu(
+  input: MenuInput,
+  updatedBy: string | null
+): MenuRecord {
+  assertValidParent(null, input.parentId);
+
+  const id = `menu-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  getDb()
+    .prepare(
+      `INSERT INTO menus
+         (id, parent_id, label, route_key, path, icon, roles, sort_order, menu_group,
+          hide_in_menu, badge, badge_color, is_active, version, updated_by, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?)`
+    )
+    .run(
+      id,
+      input.parentId,
+      input.label.trim(),
+      input.routeKey,
+      input.path,
+      input.icon,
+      JSON.stringify(input.roles),
+      input.order,
+      input.group,
+      input.hideInMenu ? 1 : 0,
+      input.badge,
+      input.badgeColor,
+      input.isActive ? 1 : 0,
+      updatedBy,
+      new Date().toISOString()
+    );
+
+  return findMenuById(id)!;
+}
+
+/**
+ * 메뉴 수정
+ *
+ * @returns 메뉴가 없으면 null
+ * @throws MenuVersionConflictError version이 다른 경우
+ * @throws MenuValidationError 부모 지정이 잘못된 경우
+ */
+export function updateMenu(
+  id: string,
+  input: MenuInput,
+  version: number,
+  updatedBy: string | null
+): MenuRecord | null {
+  const db = getDb();
+
+  const update = db.transaction((): MenuRecord | null => {
+    const row = findRow(id);
+    if (!row) return null;
+    assertVersion(row, version);
+    assertValidParent(id, input.parentId);
+
+    db.prepare(
+      `UPDATE menus SET
+         parent_id = ?, label = ?, route_key = ?, path = ?, icon = ?, roles = ?,
+         sort_order = ?, menu_group = ?, hide_in_menu = ?, badge = ?, badge_color = ?,
+         is_active = ?, version = version + 1, updated_by = ?, updated_at = ?
+       WHERE id = ?`
+    ).run(
+      input.parentId,
+      input.label.trim(),
+      input.routeKey,
+      input.path,
+      input.icon,
+      JSON.stringify(input.roles),
+      input.order,
+      input.group,
+      input.hideInMenu ? 1 : 0,
+      input.badge,
+      input.badgeColor,
+      input.isActive ? 1 : 0,
+      updatedBy,
+      new Date().toISOString(),
+      id
+    );
+
+    return findMenuById(id);
+  });
+
+  return update();
+}
+
+/**
+ * 메뉴 삭제 (하위 메뉴 포함)
+ *
+ * @returns 삭제된 메뉴 id 목록 (메뉴가 없으면 null)
+ * @throws MenuVersionConflictError version이 다른 경우
+ */
+export function deleteMenu(id: string, version: number): string[] | null {
+  const db = getDb();
+
+  const remove = db.transaction((): string[] | null => {
+    const row = findRow(id);
+    if (!row) return null;
+    assertVersion(row, version);
+
+    const ids = collectSubtreeIds(id);
+    const statement = db.prepare("DELETE FROM menus WHERE id = ?");
+    ids.forEach((menuId) => statement.run(menuId));
+    return ids;
+  });
+
+  return remove();
+}
+
+/**
+ * 메뉴 순서/부모 일괄 변경 (하나라도 실패하면 전체 롤백)
+ *
+ * @returns 변경된 메뉴 목록
+ * @throws MenuVersionConflictError version이 다른 항목이 있는 경우
+ * @throws MenuValidationError 메뉴가 없거나 부모 지정이 잘못된 경우
+ */
+export function reorderMenus(
+  items: MenuOrderInput[],
+  updatedBy: string | null
+): MenuRecord[] {
+  const db = getDb();
+
+  const reorder = db.transaction((): MenuRecord[] => {
+    const statement = db.prepare(
+      `UPDATE menus SET parent_id = ?, sort_order = ?, menu_group = COALESCE(?, menu_group),
+         version = version + 1, updated_by = ?, updated_at = ?
+       WHERE id = ?`
+    );
+
+    for (const item of items) {
+      const row = findRow(item.id);
+      if (!row) {
+        throw new MenuValidationError(
+          `메뉴 ${item.id}을(를) 찾을 수 없습니다.`
+        );
+      }
+      assertVersion(row, item.version);
+      assertValidParent(item.id, item.parentId);
+      statement.run(
+        item.parentId,
+        item.order,
+        item.group ?? null,
+        updatedBy,
+        new Date().toISOString(),
+        item.id
+      );
+    }
+
+    return items.map((item) => findMenuById(item.id)!);
+  });
+
+  return reorder();
+}
+
+/**
+ * 전체 메뉴/그룹 교체 (메뉴 가져오기, 하나라도 실패하면 전체 롤백)
+ *   - baseVersions: 가져오기 화면에서 비교한 시점의 메뉴별 version
+ *     그 사이 메뉴가 추가/수정/삭제되었으면 MenuVersionConflictError
+ *   - 가져온 목록에 없는 메뉴는 삭제, 있는 메뉴는 수정(version + 1), 새 메뉴는 version 1
+ *
+ * @throws MenuVersionConflictError 비교 이후 다른 관리자가 메뉴를 변경한 경우
+ * @throws MenuValidationError id 중복, 부모 누락, 순환 참조
+ */
+export function importMenus(
+  groups: MenuGroupRecord[],
+  menus: MenuImportItem[],
+  baseVersions: Record<string, number>,
+  updatedBy: string | null
+): { menus: MenuRecord[]; groups: MenuGroupRecord[] } {
+  const db = getDb();
+
+  const ids = new Set(menus.map((menu) => menu.id));
+  if (ids.size !== menus.length) {
+    throw new MenuValidationError("가져온 메뉴에 중복된 id가 있습니다.");
+  }
+  const parentOf = new Map(menus.map((menu) => [menu.id, menu.parentId]));
+  for (const menu of menus) {
+    if (menu.parentId && !ids.has(menu.parentId)) {
+      throw new MenuValidationError(
+        `메뉴 ${menu.id}의 부모 메뉴 ${menu.parentId}을(를) 찾을 수 없습니다.`
+      );
+    }
+    // 부모를 따라 올라가다 자기 자신을 만나면 순환
+    let parentId = menu.parentId;
+    for (let step = 0; parentId && step <= menus.length; step++) {
+      if (parentId === menu.id) {
+        throw new MenuValidationError(
+          `메뉴 ${menu.id}의 부모 관계가 순환합니다.`
+        );
+      }
+      parentId = parentOf.get(parentId) ?? null;
+    }
+  }
+
+  const replace = db.transaction(() => {
+    const rows = db.prepare("SELECT * FROM menus").all() as MenuRow[];
+    for (const row of rows) {
+      assertVersion(row, baseVersions[row.id] ?? 0);
+    }
+    const rowIds = new Set(rows.map((row) => row.id));
+    for (const id of Object.keys(baseVersions)) {
+      if (!rowIds.has(id)) throw new MenuVersionConflictError(id, 0);
+    }
+
+    db.prepare("DELETE FROM menu_groups").run();
+    const insertGroup = db.prepare(
+      "INSERT INTO menu_groups (id, label, sort_order) VALUES (?, ?, ?)"
+    );
+    groups.forEach((group) =>
+      insertGroup.run(group.id, group.label, group.order)
+    );
+
+    const deleteMenu = db.prepare("DELETE FROM menus WHERE id = ?");
+    rows
+      .filter((row) => !ids.has(row.id))
+      .forEach((row) => deleteMenu.run(row.id));
+
+    const upsert = db.prepare(
+      `INSERT INTO menus
+         (id, parent_id, label, route_key, path, icon, roles, sort_order, menu_group,
+          hide_in_menu, badge, badge_color, is_active, version, updated_by, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         parent_id = excluded.parent_id, label = excluded.label,
+         route_key = excluded.route_key, path = excluded.path, icon = excluded.icon,
+         roles = excluded.roles, sort_order = excluded.sort_order,
+         menu_group = excluded.menu_group, hide_in_menu = excluded.hide_in_menu,
+         badge = excluded.badge, badge_color = excluded.badge_color,
+         is_active = excluded.is_active, version = menus.version + 1,
+         updated_by = excluded.updated_by, updated_at = excluded.updated_at`
+    );
+    const now = new Date().toISOString();
+    menus.forEach((menu) =>
+      upsert.run(
+        menu.id,
+        menu.parentId,
+        menu.label.trim(),
+        menu.routeKey,
+        menu.path,
+        menu.icon,
+        JSON.stringify(menu.roles),
+        menu.order,
+        menu.group,
+        menu.hideInMenu ? 1 : 0,
+        menu.badge,
+        menu.badgeColor,
+        menu.isActive ? 1 : 0,
+        updatedBy,
+        now
+      )
+    );
+  });
+
+  replace();
+  return { menus: listMenus(), groups: listMenuGroups() };
+}
@@ -0,0 +1,255 @@
+/**
+ * SoftOne Design System - Permission Matrix Repository
+ * 작성: SoftOne Frontend Team
+ *
+ * Role/Grade 권한 매트릭스를 버전 단위로 저장합니다.
+ *   - 저장할 때마다 permission_matrix_versions에 새 행(version + 1)을 추가합니다.
+ *   - 저장 요청의 baseVersion이 최신 버전과 다르면 PermissionMatrixConflictError를 던집니다.
+ *   - 저장된 버전이 없으면 version 0 (프론트엔드 기본 매트릭스 사용)으로 응답합니다.
+ *   - 역할 레지스트리(roles)는 상위 역할(parentRole) 상속을 지원하며 순환 상속을 거부합니다.
+ */
+
+import { getDb } from "../db/sqliteClient";
+
+// ========================================
+// Types
+// ========================================
+
+/** 키(Role/Grade) → 권한 키 목록 */
+export type PermissionRecord = Record<string, string[]>;
+
+/** 역할 정의 (프론트엔드 RoleDefinition과 동일한 형식) */
+export interface RoleDefinition {
+  key: string;
+  label: string;
+  description?: string;
+  parentRole?: string | null;
+  builtIn?: boolean;
+}
+
+export interface PermissionMatrixRecord {
+  version: number;
+  /** 저장된 버전이 없으면 null */
+  roles: RoleDefinition[] | null;
+  rolePermissions: PermissionRecord | null;
+  gradePermissionBoost: PermissionRecord | null;
+  updatedAt: string | null;
+  updatedBy: string | null;
+}
+
+export interface PermissionMatrixVersionSummary {
+  version: number;
+  updatedAt: string;
+  updatedBy: string | null;
+}
+
+export interface SavePermissionMatrixInput {
+  baseVersion: number;
+  roles: RoleDefinition[];
+  rolePermissions: PermissionRecord;
+  gradePermissionBoost: PermissionRecord;
+}
+
+interface PermissionMatrixRow {
+  version: number;
+  roles: string;
+  role_permissions: string;
+  grade_permission_boost: string;
+  updated_by: string | null;
+  created_at: string;
+}
+
+/** baseVersion이 최신 버전과 다를 때 throw 되는 에러 */
+export class PermissionMatrixConflictError extends Error {
+  constructor(public readonly currentVersion: number) {
+    super(
+      "다른 관리자가 권한 매트릭스를 먼저 변경했습니다. 최신 버전을 불러온 후 다시 저장해주세요."
+    );
+    this.name = "PermissionMatrixConflictError";
+  }
+}
+
+// ========================================
+// Helpers
+// ========================================
+
+const EMPTY_MATRIX: PermissionMatrixRecord = {
+  version: 0,
+  roles: null,
+  rolePermissions: null,
+  gradePermissionBoost: null,
+  updatedAt: null,
+  updatedBy: null,
+};
+
+function toRecord(row: PermissionMatrixRow): PermissionMatrixRecord {
+  return {
+    version: row.version,
+    roles: JSON.parse(row.roles),
+    rolePermissions: JSON.parse(row.role_permissions),
+    gradePermissionBoost: JSON.parse(row.grade_permission_boost),
+    updatedAt: row.created_at,
+    updatedBy: row.updated_by,
+  };
+}
+
+/**
+ * { [key]: string[] } 형식인지 검증
+ */
+export function isPermissionRecord(value: unknown): value is PermissionRecord {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return false;
+  }
+  return Object.values(value).every(
+    (permissions) =>
+      Array.isArray(permissions) &&
+      permissions.every((permission) => typeof permission === "string")
+  );
+}
+
+/**
+ * 역할 정의 목록 형식 검증 (key/label 필수, 키 중복 불가)
+ */
+export function isRoleDefinitionList(
+  value: unknown
+): value is RoleDefinition[] {
+  if (!Array.isArray(value)) return false;
+
+  const keys = new Set<string>();
+  return value.every((def) => {
+    if (!def || typeof def !== "object") return false;
+    const { key, label, parentRole } = def as RoleDefinition;
+    if (typeof key !== "string" || !key || keys.has(key)) return false;
+    if (typeof label !== "string" || !label) return false;
+    if (parentRole != null && typeof parentRole !== "string") return false;
+    keys.add(key);
+    return true;
+  });
+}
+
+/**
+ * 역할의 상속 체인 (자기 자신 → 부모 → ...)
+ *
+ * @returns 순환 상속이면 null
+ */
+export function resolveRoleChain(
+  role: string,
+  roles: RoleDefinition[]
+): string[] | null {
+  const parentOf = new Map(roles.map((def) => [def.key, def.parentRole]));
+  const chain: string[] = [];
+  let current: string | null | undefined = role;
+
+  while (current) {
+    if (chain.includes(current)) return null;
+    chain.push(current);
+    current = parentOf.get(current);
+  }
+
+  return chain;
+}
+
+/**
+ * 순환 상속이 있는 역할 키 (없으면 null)
+ */
+export function findCyclicRole(roles: RoleDefinition[]): string | null {
+  const cyclic = roles.find((def) => resolveRoleChain(def.key, roles) === null);
+  return cyclic?.key ?? null;
+}
+
+/**
+ * 저장된 매트릭스 기준 권한 보유 여부 (상위 역할에서 상속한 권한 포함)
+ *
+ * @returns 저장된 매트릭스가 없으면 null (호출 측에서 기본 정책 적용)
+ */
+export function hasMatrixPermission(
+  matrix: PermissionMatrixRecord,
+  role: string,
+  grade: string,
+  permission: string
+): boolean | null {
+  if (!matrix.rolePermissions) return null;
+
+  const roleChain = resolveRoleChain(role, matrix.roles ?? []) ?? [role];
+  const permissions = [
+    ...roleChain.flatMap((key) => matrix.rolePermissions?.[key] ?? []),
+    ...(matrix.gradePermissionBoost?.[grade] ?? []),
+  ];
+  return permissions.includes(permission);
+}
+
+// ========================================
+// Repository Functions
+// ========================================
+
+/**
+ * 최신 권한 매트릭스 조회
+ */
+export function findLatestPermissionMatrix(): PermissionMatrixRecord {
+  const db = getDb();
+  const row = db
+    .prepare(
+      "SELECT * FROM permission_matrix_versions ORDER BY version DESC LIMIT 1"
+    )
+    .get() as PermissionMatrixRow | undefined;
+
+  return row ? toRecord(row) : EMPTY_MATRIX;
+}
+
+/**
+ * 버전 이력 조회 (최신순)
+ */
+export function listPermissionMatrixVersions(): PermissionMatrixVersionSummary[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      "SELECT version, updated_by, created_at FROM permission_matrix_versions ORDER BY version DESC"
+    )
+    .all() as Pick<
+    PermissionMatrixRow,
+    "version" | "updated_by" | "created_at"
+  >[];
+
+  return rows.map((row) => ({
+    version: row.version,
+    updatedAt: row.created_at,
+    updatedBy: row.updated_by,
+  }));
+}
+
+/**
+ * 새 버전으로 권한 매트릭스 저장
+ *
+ * @throws PermissionMatrixConflictError baseVersion이 최신 버전과 다른 경우
+ */
+export function savePermissionMatrix(
+  input: SavePermissionMatrixInput,
+  updatedBy: string | null
+): PermissionMatrixRecord {
+  const db = getDb();
+
+  const save = db.transaction((): PermissionMatrixRecord => {
+    const current = findLatestPermissionMatrix();
+    if (input.baseVersion !== current.version) {
+      throw new PermissionMatrixConflictError(current.version);
+    }
+
+    const version = current.version + 1;
+    db.prepare(
+      `INSERT INTO permission_matrix_versions
+         (version, roles, role_permissions, grade_permission_boost, updated_by, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    ).run(
+      version,
+      JSON.stringify(input.roles),
+      JSON.stringify(input.rolePermissions),
+      JSON.stringify(input.gradePermissionBoost),
+      updatedBy,
+      new Date().toISOString()
+    );
+
+    return findLatestPermissionMatrix();
+  });
+
+  return save();
+}
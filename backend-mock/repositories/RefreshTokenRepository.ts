@@ -0,0 +1,103 @@
+/**
+ * SoftOne Design System - Refresh Token Repository
+ * 작성: SoftOne Frontend Team
+ *
+ * 발급된 Refresh Token의 상태(회전/폐기)를 SQLite에 저장합니다.
+ *   - 같은 로그인 세션에서 회전된 토큰들은 하나의 family_id를 공유합니다.
+ *   - 이미 회전(폐기)된 토큰이 다시 사용되면 family 전체를 폐기합니다 (재사용 감지).
+ */
+
+import { getDb } from "../db/sqliteClient";
+
+// ========================================
+// Types
+// ========================================
+
+export interface RefreshTokenRecord {
+  jti: string;
+  familyId: string;
+  userId: string;
+  /** 만료 시각 (epoch seconds) */
+  expiresAt: number;
+  /** 폐기 시각 (epoch seconds, 유효하면 null) */
+  revokedAt: number | null;
+  /** 회전으로 대체된 새 토큰의 jti */
+  replacedBy: string | null;
+}
+
+interface RefreshTokenRow {
+  jti: string;
+  family_id: string;
+  user_id: string;
+  expires_at: number;
+  revoked_at: number | null;
+  replaced_by: string | null;
+}
+
+// ========================================
+// Repository Functions
+// ========================================
+
+/**
+ * Refresh Token 저장
+ */
+export function saveRefreshToken(
+  record: Pick<RefreshTokenRecord, "jti" | "familyId" | "userId" | "expiresAt">
+): void {
+  const db = getDb();
+  db.prepare(
+    `INSERT INTO refresh_tokens (jti, family_id, user_id, expires_at)
+     VALUES (?, ?, ?, ?)`
+  ).run(record.jti, record.familyId, record.userId, record.expiresAt);
+}
+
+/**
+ * jti로 Refresh Token 조회
+ */
+export function findRefreshToken(jti: string): RefreshTokenRecord | null {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT * FROM refresh_tokens WHERE jti = ?")
+    .get(jti) as RefreshTokenRow | undefined;
+
+  if (!row) return null;
+
+  return {
+    jti: row.jti,
+    familyId: row.family_id,
+    userId: row.user_id,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+    replacedBy: row.replaced_by,
+  };
+}
+
+/**
+ * 회전 처리: 기존 토큰을 폐기하고 대체 토큰 jti를 기록
+ */
+export function markRefreshTokenRotated(
+  jti: string,
+  replacedBy: string,
+  now: number
+): void {
+  const db = getDb();
+  db.prepare(
+    `UPDATE refresh_tokens SET revoked_at = ?, replaced_by = ?
+     WHERE jti = ? AND revoked_at IS NULL`
+  ).run(now, replacedBy, jti);
+}
+
+/**
+ * family 전체 폐기 (로그아웃 / 재사용 감지)
+ * @returns 폐기된 토큰 수
+ */
+export function revokeTokenFamily(familyId: string, now: number): number {
+  const db = getDb();
+  const result = db
+    .prepare(
+      `UPDATE refresh_tokens SET revoked_at = ?
+       WHERE family_id = ? AND revoked_at IS NULL`
+    )
+    .run(now, familyId);
+  return result.changes;
+}
@@ -0,0 +1,296 @@
+/**
+ * SoftOne Design System - Grid Repository 테스트
+ * 작성: SoftOne Frontend Team
+ * 설명: 일괄 저장(applyGridBatch)의 커밋 경로와 전체 롤백, 값 검증(422), NULL 값을
+ *       포함한 커서 페이지네이션을 인메모리 SQLite로 검증합니다.
+ */
+
+import { describe, it, expect } from "vitest";
+import { getDb } from "../db/sqliteClient";
+import {
+  applyGridBatch,
+  findGridRow,
+  findUsers,
+  updateGridRow,
+  GridValidationError,
+  type GridRecord,
+} from "./UserGridRepository";
+import type { GridSort } from "./gridQueryBuilder";
+
+const countRows = (table: string) =>
+  (
+    getDb().prepare(`SELECT COUNT(*) as count FROM ${table}`).get() as {
+      count: number;
+    }
+  ).count;
+
+describe("UserGridRepository - applyGridBatch", () => {
+  it("추가/수정/삭제를 한 트랜잭션으로 커밋하고 새 ID를 발급합니다", () => {
+    const before = countRows("sales");
+    const original = findGridRow("sales", "SALE-000001")!;
+
+    const result = applyGridBatch("sales", {
+      added: [
+        {
+          rowId: "tmp-1",
+          data: { productName: "신규 A", quantity: 2, unitPrice: 1000 },
+        },
+        {
+          rowId: "tmp-2",
+          data: { productName: "신규 B", quantity: 1, unitPrice: 500 },
+        },
+      ],
+      updated: [
+        {
+          rowId: "SALE-000001",
+          changes: { quantity: 3 },
+          original: { quantity: original.quantity },
+        },
+      ],
+      deleted: ["SALE-000002"],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.summary).toEqual({
+      added: 2,
+      updated: 1,
+      deleted: 1,
+      failed: 0,
+    });
+
+    // 새 ID는 기존 최대 순번 다음부터 (SALE-000500 → 000501, 000502)
+    const added = result.results.filter((row) => row.operation === "add");
+    expect(added.map((row) => [row.rowId, row.id])).toEqual([
+      ["tmp-1", "SALE-000501"],
+      ["tmp-2", "SALE-000502"],
+    ]);
+    // 파생 필드 계산 (quantity × unitPrice)
+    expect(findGridRow("sales", "SALE-000501")).toMatchObject({
+      productName: "신규 A",
+      totalAmount: 2000,
+    });
+
+    expect(findGridRow("sales", "SALE-000001")?.quantity).toBe(3);
+    expect(findGridRow("sales", "SALE-000002")).toBeNull();
+    expect(countRows("sales")).toBe(before + 1);
+  });
+
+  it("한 행이라도 실패하면 전체를 롤백하고 행 단위 오류를 반환합니다", () => {
+    const before = countRows("users");
+    const target = findGridRow("users", "USER-0001")!;
+
+    const result = applyGridBatch("users", {
+      added: [
+        { rowId: "tmp-1", data: { name: "홍길동", email: "hong@softone.com" } },
+      ],
+      updated: [
+        { rowId: "USER-0001", changes: { name: "변경됨" } },
+        { rowId: "USER-0002", changes: { email: "not-an-email" } },
+        { rowId: "USER-9999", changes: { name: "없음" } },
+      ],
+      deleted: ["USER-0003"],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.summary).toEqual({
+      added: 0,
+      updated: 0,
+      deleted: 0,
+      failed: 2,
+    });
+
+    // 성공했던 행은 롤백되어 id/data 없이 success만 남음
+    expect(result.results.find((row) => row.rowId === "tmp-1")).toEqual({
+      rowId: "tmp-1",
+      operation: "add",
+      status: "success",
+    });
+    expect(
+      result.results.find((row) => row.rowId === "USER-0002")?.errors
+    ).toEqual([expect.objectContaining({ field: "email", code: "INVALID" })]);
+    expect(
+      result.results.find((row) => row.rowId === "USER-9999")?.errors
+    ).toEqual([expect.objectContaining({ code: "NOT_FOUND" })]);
+
+    // DB는 요청 전 상태 그대로
+    expect(countRows("users")).toBe(before);
+    expect(findGridRow("users", "USER-0001")?.name).toBe(target.name);
+    expect(findGridRow("users", "USER-0003")).not.toBeNull();
+    expect(
+      getDb()
+        .prepare("SELECT id FROM users WHERE email = ?")
+        .get("hong@softone.com")
+    ).toBeUndefined();
+  });
+
+  it("original 값이 현재 DB 값과 다르면 CONFLICT로 롤백합니다", () => {
+    const current = findGridRow("orders", "ORD-00001")!;
+
+    const result = applyGridBatch("orders", {
+      updated: [
+        {
+          rowId: "ORD-00001",
+          changes: { customerName: "변경 고객" },
+          original: { customerName: `${current.customerName} (이전 값)` },
+        },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.results[0].errors).toEqual([
+      expect.objectContaining({ field: "customerName", code: "CONFLICT" }),
+    ]);
+    expect(findGridRow("orders", "ORD-00001")?.customerName).toBe(
+      current.customerName
+    );
+  });
+});
+
+describe("UserGridRepository - 값 검증", () => {
+  const validationErrorsOf = (run: () => unknown) => {
+    try {
+      run();
+    } catch (error) {
+      if (error instanceof GridValidationError) return error.errors;
+      throw error;
+    }
+    throw new Error("GridValidationError가 발생하지 않았습니다.");
+  };
+
+  it("부분 수정에서도 필수 필드의 null과 바인딩할 수 없는 값을 거부합니다", () => {
+    expect(
+      validationErrorsOf(() =>
+        updateGridRow("users", "USER-0010", { name: null })
+      )
+    ).toEqual([expect.objectContaining({ field: "name", code: "REQUIRED" })]);
+
+    expect(
+      validationErrorsOf(() =>
+        updateGridRow("sales", "SALE-000010", {
+          region: { name: "서울" },
+          quantity: [1],
+        })
+      )
+    ).toEqual([
+      expect.objectContaining({ field: "region", code: "INVALID" }),
+      expect.objectContaining({ field: "quantity", code: "INVALID" }),
+    ]);
+
+    expect(
+      validationErrorsOf(() =>
+        updateGridRow("users", "USER-0010", null as unknown as GridRecord)
+      )
+    ).toEqual([expect.objectContaining({ code: "INVALID" })]);
+
+    // nullable 컬럼은 null 허용
+    expect(
+      updateGridRow("users", "USER-0010", { department: null }).department
+    ).toBeNull();
+  });
+
+  it("일괄 저장에서 잘못된 값은 행 단위 오류로 반환합니다", () => {
+    const result = applyGridBatch("orders", {
+      added: [{ rowId: "tmp-1", data: { orderNo: "N-1", customerName: {} } }],
+      updated: [
+        {
+          rowId: "ORD-00001",
+          changes: { customerName: null },
+          original: { customerName: "이전 고객" },
+        },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.results.map((row) => [row.rowId, row.errors])).toEqual([
+      [
+        "tmp-1",
+        [
+          expect.objectContaining({ field: "productName", code: "REQUIRED" }),
+          expect.objectContaining({ field: "customerName", code: "INVALID" }),
+        ],
+      ],
+      [
+        "ORD-00001",
+        [expect.objectContaining({ field: "customerName", code: "CONFLICT" })],
+      ],
+    ]);
+  });
+});
+
+describe("UserGridRepository - 커서 페이지네이션", () => {
+  const PAGE_SIZE = 17;
+
+  /** 커서를 따라 마지막 페이지까지 조회 (앞 → 뒤) */
+  const collectForward = (sorts: GridSort[]) => {
+    const pages: string[][] = [];
+    let cursor: string | undefined;
+    let prevCursor: string | null | undefined;
+    do {
+      const result = findUsers({
+        page: 1,
+        pageSize: PAGE_SIZE,
+        sorts,
+        cursorMode: true,
+        cursor,
+      });
+      pages.push(result.data.map((row) => row.id));
+      cursor = result.nextCursor ?? undefined;
+      prevCursor = result.prevCursor;
+    } while (cursor);
+    return { ids: pages.flat(), lastPrevCursor: prevCursor };
+  };
+
+  /** prevCursor를 따라 첫 페이지까지 조회 (뒤 → 앞) */
+  const collectBackward = (
+    sorts: GridSort[],
+    lastPage: string[],
+    before: string | null | undefined
+  ) => {
+    const pages: string[][] = [lastPage];
+    while (before) {
+      const result = findUsers({ page: 1, pageSize: PAGE_SIZE, sorts, before });
+      pages.unshift(result.data.map((row) => row.id));
+      before = result.prevCursor;
+    }
+    return pages.flat();
+  };
+
+  it("nullable 정렬 컬럼의 NULL 행을 빠짐없이 한 번씩 조회합니다", () => {
+    // department/position 일부를 NULL로 (정렬 구간 앞/뒤/중간에 NULL 섞기)
+    getDb()
+      .prepare(
+        "UPDATE users SET department = NULL WHERE CAST(substr(id, 6) AS INTEGER) % 3 = 0"
+      )
+      .run();
+    getDb()
+      .prepare(
+        "UPDATE users SET position = NULL WHERE CAST(substr(id, 6) AS INTEGER) % 4 = 0"
+      )
+      .run();
+
+    const cases: GridSort[][] = [
+      [{ field: "department", direction: "asc" }],
+      [{ field: "department", direction: "desc" }],
+      [
+        { field: "department", direction: "desc" },
+        { field: "position", direction: "asc" },
+      ],
+    ];
+
+    cases.forEach((sorts) => {
+      const expected = findUsers({ page: 1, pageSize: 1000, sorts }).data.map(
+        (row) => row.id
+      );
+      expect(expected).toHaveLength(countRows("users"));
+
+      const { ids, lastPrevCursor } = collectForward(sorts);
+      expect(ids).toEqual(expected);
+
+      const lastPageSize = expected.length % PAGE_SIZE || PAGE_SIZE;
+      const lastPage = expected.slice(-lastPageSize);
+      expect(collectBackward(sorts, lastPage, lastPrevCursor)).toEqual(
+        expected
+      );
+    });
+  });
+});
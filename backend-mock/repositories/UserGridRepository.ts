@@ -4,9 +4,22 @@
  *
  * Grid Samples Lab – Store Isolation 및 백엔드 Mock 연동을 통한 실제 운영 패턴 검증:
  *   페이징/정렬/필터를 SQL로 처리하는 Repository 계층입니다.
+ *   필터/다중 정렬 SQL은 gridQueryBuilder의 화이트리스트 기반 빌더를 공유합니다.
  */
 
 import { getDb } from "../db/sqliteClient";
+import {
+  buildFilterConditions,
+  buildKeysetCondition,
+  buildOrderClause,
+  decodeCursor,
+  encodeCursor,
+  resolveSorts,
+  toWhereClause,
+  type FieldWhitelist,
+  type GridFilter,
+  type GridSort,
+} from "./gridQueryBuilder";
 
 // ========================================
 // Types
@@ -15,10 +28,20 @@ import { getDb } from "../db/sqliteClient";
 interface GridQueryParams {
   page: number;
   pageSize: number;
+  /** 다중 필터 (filter[i][field|operator|value]) */
+  filters?: GridFilter[];
+  /** 다중 정렬 (sortField / sortDirection) */
+  sorts?: GridSort[];
+  /** 간편 검색 (리소스별 검색 대상 컬럼에 LIKE) */
   keyword?: string;
+  /** 간편 상태 필터 (status eq) */
   status?: string;
-  sortField?: string;
-  sortDir?: "asc" | "desc";
+  /** 커서 모드 사용 여부 (cursor/before 없이 첫 페이지를 커서 모드로 조회할 때) */
+  cursorMode?: boolean;
+  /** 이 커서 다음 행부터 조회 (keyset) */
+  cursor?: string;
+  /** 이 커서 이전 행까지 조회 (keyset, 역방향) */
+  before?: string;
 }
 
 interface GridResponse<T> {
@@ -27,6 +50,10 @@ interface GridResponse<T> {
   page: number;
   pageSize: number;
   totalPages: number;
+  /** 커서 모드: 다음 페이지 커서 (없으면 null) */
+  nextCursor?: string | null;
+  /** 커서 모드: 이전 페이지 커서 (없으면 null) */
+  prevCursor?: string | null;
 }
 
 interface UserRow {
@@ -66,20 +93,84 @@ interface SalesRow {
 }
 
 // ========================================
-// User Repository
+// Field Whitelists (필터/정렬 허용 필드)
 // ========================================
 
-export function findUsers(params: GridQueryParams): GridResponse<UserRow> {
+export const USER_FIELDS: FieldWhitelist = {
+  id: { column: "id", type: "text" },
+  name: { column: "name", type: "text" },
+  email: { column: "email", type: "text" },
+  department: { column: "department", type: "text" },
+  position: { column: "position", type: "text" },
+  status: { column: "status", type: "text" },
+  createdAt: { column: "created_at", type: "date" },
+};
+
+export const ORDER_FIELDS: FieldWhitelist = {
+  id: { column: "id", type: "text" },
+  orderNo: { column: "order_no", type: "text" },
+  customerName: { column: "customer_name", type: "text" },
+  productName: { column: "product_name", type: "text" },
+  quantity: { column: "quantity", type: "number" },
+  totalAmount: { column: "total_amount", type: "number" },
+  status: { column: "status", type: "text" },
+  orderDate: { column: "order_date", type: "date" },
+};
+
+export const SALES_FIELDS: FieldWhitelist = {
+  id: { column: "id", type: "text" },
+  productName: { column: "product_name", type: "text" },
+  category: { column: "category", type: "text" },
+  region: { column: "region", type: "text" },
+  quantity: { column: "quantity", type: "number" },
+  unitPrice: { column: "unit_price", type: "number" },
+  totalAmount: { column: "total_amount", type: "number" },
+  cost: { column: "cost", type: "number" },
+  margin: { column: "margin", type: "number" },
+  marginRate: { column: "margin_rate", type: "number" },
+  status: { column: "status", type: "text" },
+  salesDate: { column: "sales_date", type: "date" },
+};
+
+// ========================================
+// Shared Paged Query
+// ========================================
+
+interface PagedQueryOptions {
+  table: string;
+  columns: string[];
+  whitelist: FieldWhitelist;
+  /** keyword 검색 대상 컬럼 */
+  keywordColumns: string[];
+  /** 정렬 미지정 시 기본 정렬 */
+  defaultSorts: GridSort[];
+  /** 리소스 전용 추가 조건 (예: sales.category) */
+  extraConditions?: { conditions: string[]; values: unknown[] };
+}
+
+/**
+ * 페이지 조회
+ *
+ * - 기본(offset) 모드: LIMIT ? OFFSET ?
+ * - 커서(keyset) 모드: cursor/before가 있으면 정렬 컬럼 값 비교로 조회하여
+ *   대용량 데이터에서도 OFFSET 스캔 비용이 들지 않습니다.
+ *   커서 없이 cursorMode만 지정하면 page 위치를 offset으로 조회한 뒤 커서를 함께 반환합니다.
+ */
+function findPaged<T>(
+  params: GridQueryParams,
+  options: PagedQueryOptions
+): GridResponse<T> {
   const db = getDb();
-  const { page, pageSize, keyword, status, sortField, sortDir } = params;
+  const { page, pageSize, keyword, status, filters = [], sorts = [] } = params;
 
-  // WHERE 절 구성
+  // WHERE 절 구성 (간편 검색 + 공통 필터)
   const conditions: string[] = [];
   const values: unknown[] = [];
 
   if (keyword) {
-    conditions.push("(name LIKE ? OR email LIKE ?)");
-    values.push(`%${keyword}%`, `%${keyword}%`);
+    const likes = options.keywordColumns.map((column) => `${column} LIKE ?`);
+    conditions.push(`(${likes.join(" OR ")})`);
+    values.push(...options.keywordColumns.map(() => `%${keyword}%`));
   }
 
   if (status) {
@@ -87,183 +178,729 @@ export function findUsers(params: GridQueryParams): GridResponse<UserRow> {
     values.push(status);
   }
 
-  const whereClause =
-    conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
-
-  // 정렬
-  const validSortFields = [
-    "id",
-    "name",
-    "email",
-    "department",
-    "position",
-    "status",
-    "created_at",
-  ];
-  const orderClause =
-    sortField && validSortFields.includes(sortField)
-      ? `ORDER BY ${sortField} ${sortDir === "desc" ? "DESC" : "ASC"}`
-      : "ORDER BY created_at DESC";
-
-  // 전체 개수
-  const countQuery = `SELECT COUNT(*) as count FROM users ${whereClause}`;
-  const countResult = db.prepare(countQuery).get(...values) as { count: number };
+  if (options.extraConditions) {
+    conditions.push(...options.extraConditions.conditions);
+    values.push(...options.extraConditions.values);
+  }
+
+  const filterSql = buildFilterConditions(filters, options.whitelist);
+  conditions.push(...filterSql.conditions);
+  values.push(...filterSql.values);
+
+  const resolvedSorts = resolveSorts(
+    sorts,
+    options.whitelist,
+    options.defaultSorts
+  );
+
+  // 전체 개수 (커서 조건 적용 전)
+  const whereClause = toWhereClause(conditions);
+  const countQuery = `SELECT COUNT(*) as count FROM ${options.table} ${whereClause}`;
+  const countResult = db.prepare(countQuery).get(...values) as {
+    count: number;
+  };
   const total = countResult.count;
 
-  // 데이터 조회
-  const offset = (page - 1) * pageSize;
+  const isCursorMode =
+    params.cursorMode || params.cursor !== undefined || !!params.before;
+
+  if (!isCursorMode) {
+    // 데이터 조회 (offset)
+    const offset = (page - 1) * pageSize;
+    const dataQuery = `
+      SELECT ${options.columns.join(", ")}
+      FROM ${options.table}
+      ${whereClause}
+      ${buildOrderClause(resolvedSorts)}
+      LIMIT ? OFFSET ?
+    `;
+    const data = db.prepare(dataQuery).all(...values, pageSize, offset) as T[];
+
+    return {
+      data,
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    };
+  }
+
+  // 커서 조건 (before가 있으면 역방향으로 조회 후 뒤집음)
+  const reverse = !!params.before;
+  const cursor = params.before || params.cursor;
+  const keysetConditions = [...conditions];
+  const keysetValues = [...values];
+
+  if (cursor) {
+    const keyset = buildKeysetCondition(
+      resolvedSorts,
+      decodeCursor(resolvedSorts, cursor),
+      reverse
+    );
+    keysetConditions.push(keyset.condition);
+    keysetValues.push(...keyset.values);
+  }
+
+  // 다음 페이지 존재 여부 확인을 위해 1건 더 조회
+  const offset = cursor ? 0 : (page - 1) * pageSize;
   const dataQuery = `
-    SELECT id, name, email, department, position, status, created_at
-    FROM users
-    ${whereClause}
-    ${orderClause}
+    SELECT ${options.columns.join(", ")}
+    FROM ${options.table}
+    ${toWhereClause(keysetConditions)}
+    ${buildOrderClause(resolvedSorts, reverse)}
     LIMIT ? OFFSET ?
   `;
-  const data = db.prepare(dataQuery).all(...values, pageSize, offset) as UserRow[];
+  const rows = db
+    .prepare(dataQuery)
+    .all(...keysetValues, pageSize + 1, offset) as Record<string, unknown>[];
+
+  const hasMore = rows.length > pageSize;
+  const pageRows = rows.slice(0, pageSize);
+  if (reverse) {
+    pageRows.reverse();
+  }
+
+  const first = pageRows[0];
+  const last = pageRows[pageRows.length - 1];
+  const hasNext = reverse ? true : hasMore;
+  const hasPrev = reverse ? hasMore : !!cursor || offset > 0;
 
   return {
-    data,
+    data: pageRows as T[],
     total,
     page,
     pageSize,
     totalPages: Math.ceil(total / pageSize),
+    nextCursor: hasNext && last ? encodeCursor(resolvedSorts, last) : null,
+    prevCursor: hasPrev && first ? encodeCursor(resolvedSorts, first) : null,
   };
 }
 
+function columnsOf(whitelist: FieldWhitelist): string[] {
+  return Object.values(whitelist).map((spec) => spec.column);
+}
+
+// ========================================
+// User Repository
+// ========================================
+
+export function findUsers(params: GridQueryParams): GridResponse<UserRow> {
+  return findPaged<UserRow>(params, {
+    table: "users",
+    columns: columnsOf(USER_FIELDS),
+    whitelist: USER_FIELDS,
+    keywordColumns: ["name", "email"],
+    defaultSorts: [{ field: "createdAt", direction: "desc" }],
+  });
+}
+
 // ========================================
 // Order Repository
 // ========================================
 
 export function findOrders(params: GridQueryParams): GridResponse<OrderRow> {
-  const db = getDb();
-  const { page, pageSize, keyword, status, sortField, sortDir } = params;
+  return findPaged<OrderRow>(params, {
+    table: "orders",
+    columns: columnsOf(ORDER_FIELDS),
+    whitelist: ORDER_FIELDS,
+    keywordColumns: ["order_no", "customer_name", "product_name"],
+    defaultSorts: [{ field: "orderDate", direction: "desc" }],
+  });
+}
 
-  const conditions: string[] = [];
-  const values: unknown[] = [];
+// ========================================
+// Sales Repository
+// ========================================
 
-  if (keyword) {
-    conditions.push(
-      "(order_no LIKE ? OR customer_name LIKE ? OR product_name LIKE ?)"
-    );
-    values.push(`%${keyword}%`, `%${keyword}%`, `%${keyword}%`);
+export function findSales(
+  params: GridQueryParams & { category?: string }
+): GridResponse<SalesRow> {
+  const { category } = params;
+
+  return findPaged<SalesRow>(params, {
+    table: "sales",
+    columns: columnsOf(SALES_FIELDS),
+    whitelist: SALES_FIELDS,
+    keywordColumns: ["product_name", "id"],
+    defaultSorts: [{ field: "salesDate", direction: "desc" }],
+    extraConditions: category
+      ? { conditions: ["category = ?"], values: [category] }
+      : undefined,
+  });
+}
+
+// ========================================
+// Write Operations - Types
+// ========================================
+
+export type GridResource = "users" | "orders" | "sales";
+
+export const GRID_RESOURCES: GridResource[] = ["users", "orders", "sales"];
+
+/** API 레벨(camelCase) 행 데이터 */
+export type GridRecord = Record<string, unknown>;
+
+/** 필드 단위 검증 오류 */
+export interface GridFieldError {
+  field?: string;
+  code: "REQUIRED" | "INVALID" | "CONFLICT" | "NOT_FOUND";
+  message: string;
+}
+
+/** 일괄 저장 요청 (프론트엔드 RowChanges 형식) */
+export interface GridBatchRequest {
+  added?: Array<{ rowId: string; data: GridRecord }>;
+  updated?: Array<{
+    rowId: string;
+    changes: GridRecord;
+    original?: GridRecord;
+  }>;
+  deleted?: string[];
+}
+
+/** 행 단위 처리 결과 */
+export interface GridRowResult {
+  rowId: string;
+  operation: "add" | "update" | "delete";
+  status: "success" | "error";
+  id?: string;
+  data?: GridRecord;
+  errors?: GridFieldError[];
+}
+
+export interface GridBatchResult {
+  success: boolean;
+  results: GridRowResult[];
+  summary: { added: number; updated: number; deleted: number; failed: number };
+}
+
+/** 검증 실패 시 throw 되는 에러 */
+export class GridValidationError extends Error {
+  constructor(public readonly errors: GridFieldError[]) {
+    super("Validation failed");
+    this.name = "GridValidationError";
   }
+}
 
-  if (status) {
-    conditions.push("status = ?");
-    values.push(status);
+/** 대상 행이 없을 때 throw 되는 에러 */
+export class GridNotFoundError extends Error {
+  constructor(public readonly id: string) {
+    super(`Row not found: ${id}`);
+    this.name = "GridNotFoundError";
   }
+}
+
+// ========================================
+// Write Operations - Resource Definitions
+// ========================================
+
+interface ResourceDefinition {
+  table: string;
+  /** ID 접두사 및 자릿수 (예: USER-0001) */
+  idPrefix: string;
+  idDigits: number;
+  /** camelCase 필드 → snake_case 컬럼 (id 제외) */
+  columns: Record<string, string>;
+  /** 생성/전체 수정 시 필수 필드 */
+  required: string[];
+  /** 필드 단위 검증 */
+  validate: (record: GridRecord) => GridFieldError[];
+  /** 저장 전 파생 필드 계산 (선택) */
+  derive?: (record: GridRecord) => GridRecord;
+}
+
+/** 화이트리스트에서 쓰기 가능한 필드 맵 생성 (id 제외) */
+function toColumnMap(whitelist: FieldWhitelist): Record<string, string> {
+  const columns: Record<string, string> = {};
+  Object.entries(whitelist).forEach(([field, spec]) => {
+    if (field !== "id") {
+      columns[field] = spec.column;
+    }
+  });
+  return columns;
+}
 
-  const whereClause =
-    conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
-
-  const validSortFields = [
-    "id",
-    "order_no",
-    "customer_name",
-    "product_name",
-    "quantity",
-    "total_amount",
-    "status",
-    "order_date",
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function checkEnum(
+  record: GridRecord,
+  field: string,
+  allowed: string[]
+): GridFieldError[] {
+  const value = record[field];
+  if (value === undefined || allowed.includes(String(value))) return [];
+  return [
+    {
+      field,
+      code: "INVALID",
+      message: `${field}는 ${allowed.join(", ")} 중 하나여야 합니다.`,
+    },
   ];
-  const orderClause =
-    sortField && validSortFields.includes(sortField)
-      ? `ORDER BY ${sortField} ${sortDir === "desc" ? "DESC" : "ASC"}`
-      : "ORDER BY order_date DESC";
+}
 
-  const countQuery = `SELECT COUNT(*) as count FROM orders ${whereClause}`;
-  const countResult = db.prepare(countQuery).get(...values) as { count: number };
-  const total = countResult.count;
+function checkNumber(
+  record: GridRecord,
+  field: string,
+  options: { min?: number; integer?: boolean } = {}
+): GridFieldError[] {
+  const value = record[field];
+  if (value === undefined) return [];
+  if (typeof value !== "number" || Number.isNaN(value)) {
+    return [{ field, code: "INVALID", message: `${field}는 숫자여야 합니다.` }];
+  }
+  if (options.integer && !Number.isInteger(value)) {
+    return [{ field, code: "INVALID", message: `${field}는 정수여야 합니다.` }];
+  }
+  if (options.min !== undefined && value < options.min) {
+    return [
+      {
+        field,
+        code: "INVALID",
+        message: `${field}의 최소값은 ${options.min}입니다.`,
+      },
+    ];
+  }
+  return [];
+}
 
-  const offset = (page - 1) * pageSize;
-  const dataQuery = `
-    SELECT id, order_no, customer_name, product_name, quantity, total_amount, status, order_date
-    FROM orders
-    ${whereClause}
-    ${orderClause}
-    LIMIT ? OFFSET ?
-  `;
-  const data = db.prepare(dataQuery).all(...values, pageSize, offset) as OrderRow[];
+const RESOURCE_DEFINITIONS: Record<GridResource, ResourceDefinition> = {
+  users: {
+    table: "users",
+    idPrefix: "USER",
+    idDigits: 4,
+    columns: toColumnMap(USER_FIELDS),
+    required: ["name", "email"],
+    validate: (record) => {
+      const errors: GridFieldError[] = [];
+      if (
+        record.email !== undefined &&
+        !EMAIL_PATTERN.test(String(record.email))
+      ) {
+        errors.push({
+          field: "email",
+          code: "INVALID",
+          message: "이메일 형식이 올바르지 않습니다.",
+        });
+      }
+      errors.push(
+        ...checkEnum(record, "status", ["ACTIVE", "INACTIVE", "PENDING"])
+      );
+      return errors;
+    },
+  },
+  orders: {
+    table: "orders",
+    idPrefix: "ORD",
+    idDigits: 5,
+    columns: toColumnMap(ORDER_FIELDS),
+    required: ["orderNo", "customerName", "productName"],
+    validate: (record) => [
+      ...checkNumber(record, "quantity", { min: 1, integer: true }),
+      ...checkNumber(record, "totalAmount", { min: 0 }),
+      ...checkEnum(record, "status", [
+        "PENDING",
+        "PROCESSING",
+        "SHIPPED",
+        "DELIVERED",
+        "CANCELLED",
+      ]),
+    ],
+  },
+  sales: {
+    table: "sales",
+    idPrefix: "SALE",
+    idDigits: 6,
+    columns: toColumnMap(SALES_FIELDS),
+    required: ["productName"],
+    validate: (record) => [
+      ...checkNumber(record, "quantity", { min: 1, integer: true }),
+      ...checkNumber(record, "unitPrice", { min: 0 }),
+      ...checkNumber(record, "cost", { min: 0 }),
+      ...checkEnum(record, "status", ["COMPLETED", "PENDING", "CANCELLED"]),
+    ],
+    // 수량/단가/원가 변경 시 금액·마진 재계산
+    derive: (record) => {
+      const quantity = Number(record.quantity ?? 0);
+      const unitPrice = Number(record.unitPrice ?? 0);
+      const cost = Number(record.cost ?? 0);
+      const totalAmount = quantity * unitPrice;
+      const margin = totalAmount - cost;
+      return {
+        ...record,
+        totalAmount,
+        margin,
+        marginRate:
+          totalAmount > 0
+            ? parseFloat(((margin / totalAmount) * 100).toFixed(2))
+            : 0,
+      };
+    },
+  },
+};
 
-  return {
-    data,
-    total,
-    page,
-    pageSize,
-    totalPages: Math.ceil(total / pageSize),
+// ========================================
+// Write Operations - Helpers
+// ========================================
+
+function getDefinition(resource: GridResource): ResourceDefinition {
+  return RESOURCE_DEFINITIONS[resource];
+}
+
+/** snake_case DB 행 → camelCase 레코드 */
+function toRecord(def: ResourceDefinition, row: Record<string, unknown>) {
+  const record: GridRecord = { id: row.id };
+  Object.entries(def.columns).forEach(([field, column]) => {
+    record[field] = row[column];
+  });
+  return record;
+}
+
+/**
+ * 알 수 없는 필드는 버리고 정의된 필드만 남김
+ * @throws GridValidationError 입력이 객체가 아님
+ */
+function pickKnownFields(def: ResourceDefinition, input: GridRecord) {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new GridValidationError([
+      { code: "INVALID", message: "행 데이터는 객체여야 합니다." },
+    ]);
+  }
+
+  const record: GridRecord = {};
+  Object.keys(def.columns).forEach((field) => {
+    if (input[field] !== undefined) {
+      record[field] = input[field];
+    }
+  });
+  return record;
+}
+
+/** SQLite에 바인딩할 수 있는 값인지 (문자열/유한한 숫자/null) */
+function isBindableValue(value: unknown): boolean {
+  return (
+    value === null ||
+    typeof value === "string" ||
+    (typeof value === "number" && Number.isFinite(value))
+  );
+}
+
+/**
+ * 레코드 검증
+ * @param checkRequired true면 모든 필수 필드를 검사 (생성/전체 수정),
+ *                      false면 전달된 필수 필드만 검사 (부분 수정에서 null/"" 방지)
+ */
+function validateRecord(
+  def: ResourceDefinition,
+  record: GridRecord,
+  checkRequired: boolean
+): GridFieldError[] {
+  const errors: GridFieldError[] = [];
+
+  def.required
+    .filter((field) => checkRequired || field in record)
+    .forEach((field) => {
+      const value = record[field];
+      if (value === undefined || value === null || value === "") {
+        errors.push({
+          field,
+          code: "REQUIRED",
+          message: `${field}는 필수 입력 항목입니다.`,
+        });
+      }
+    });
+
+  const typeErrors: GridFieldError[] = Object.entries(record)
+    .filter(([, value]) => !isBindableValue(value))
+    .map(([field]) => ({
+      field,
+      code: "INVALID",
+      message: `${field}는 문자열 또는 숫자여야 합니다.`,
+    }));
+  if (typeErrors.length > 0) {
+    return [...errors, ...typeErrors];
+  }
+
+  return [...errors, ...def.validate(record)];
+}
+
+function findRowById(def: ResourceDefinition, id: string) {
+  return getDb().prepare(`SELECT * FROM ${def.table} WHERE id = ?`).get(id) as
+    | Record<string, unknown>
+    | undefined;
+}
+
+function generateId(def: ResourceDefinition): string {
+  const db = getDb();
+  const row = db
+    .prepare(
+      `SELECT MAX(CAST(SUBSTR(id, ?) AS INTEGER)) as maxSeq FROM ${def.table} WHERE id LIKE ?`
+    )
+    .get(def.idPrefix.length + 2, `${def.idPrefix}-%`) as {
+    maxSeq: number | null;
   };
+  const nextSeq = (row.maxSeq ?? 0) + 1;
+  return `${def.idPrefix}-${String(nextSeq).padStart(def.idDigits, "0")}`;
 }
 
 // ========================================
-// Sales Repository
+// Write Operations - Single Row
 // ========================================
 
-export function findSales(
-  params: GridQueryParams & { category?: string }
-): GridResponse<SalesRow> {
-  const db = getDb();
-  const { page, pageSize, keyword, status, category, sortField, sortDir } =
-    params;
+export function findGridRow(
+  resource: GridResource,
+  id: string
+): GridRecord | null {
+  const def = getDefinition(resource);
+  const row = findRowById(def, id);
+  return row ? toRecord(def, row) : null;
+}
 
-  const conditions: string[] = [];
-  const values: unknown[] = [];
+/**
+ * 행 생성
+ * @throws GridValidationError 필수값 누락/형식 오류
+ */
+export function createGridRow(
+  resource: GridResource,
+  input: GridRecord
+): GridRecord {
+  const def = getDefinition(resource);
+  let record = pickKnownFields(def, input);
+
+  const errors = validateRecord(def, record, true);
+  if (errors.length > 0) {
+    throw new GridValidationError(errors);
+  }
 
-  if (keyword) {
-    conditions.push("(product_name LIKE ? OR id LIKE ?)");
-    values.push(`%${keyword}%`, `%${keyword}%`);
+  if (def.derive) {
+    record = def.derive(record);
   }
 
-  if (status) {
-    conditions.push("status = ?");
-    values.push(status);
+  const id = generateId(def);
+  const fields = Object.keys(record);
+  const columns = ["id", ...fields.map((field) => def.columns[field])];
+  const placeholders = columns.map(() => "?").join(", ");
+
+  getDb()
+    .prepare(
+      `INSERT INTO ${def.table} (${columns.join(
+        ", "
+      )}) VALUES (${placeholders})`
+    )
+    .run(id, ...fields.map((field) => record[field]));
+
+  return findGridRow(resource, id) as GridRecord;
+}
+
+/**
+ * 행 수정
+ * @param mode "replace"(PUT)는 필수값을 다시 검증, "merge"(PATCH)는 전달된 필드만 반영
+ * @throws GridNotFoundError 대상 행 없음
+ * @throws GridValidationError 검증 실패
+ */
+export function updateGridRow(
+  resource: GridResource,
+  id: string,
+  input: GridRecord,
+  mode: "replace" | "merge" = "merge"
+): GridRecord {
+  const def = getDefinition(resource);
+  const existingRow = findRowById(def, id);
+  if (!existingRow) {
+    throw new GridNotFoundError(id);
   }
 
-  if (category) {
-    conditions.push("category = ?");
-    values.push(category);
+  const changes = pickKnownFields(def, input);
+  const errors = validateRecord(def, changes, mode === "replace");
+  if (errors.length > 0) {
+    throw new GridValidationError(errors);
   }
 
-  const whereClause =
-    conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
-
-  const validSortFields = [
-    "id",
-    "product_name",
-    "category",
-    "region",
-    "quantity",
-    "unit_price",
-    "total_amount",
-    "margin_rate",
-    "status",
-    "sales_date",
-  ];
-  const orderClause =
-    sortField && validSortFields.includes(sortField)
-      ? `ORDER BY ${sortField} ${sortDir === "desc" ? "DESC" : "ASC"}`
-      : "ORDER BY sales_date DESC";
+  let record = { ...toRecord(def, existingRow), ...changes };
+  if (def.derive) {
+    record = def.derive(record);
+  }
 
-  const countQuery = `SELECT COUNT(*) as count FROM sales ${whereClause}`;
-  const countResult = db.prepare(countQuery).get(...values) as { count: number };
-  const total = countResult.count;
+  const fields = Object.keys(def.columns).filter(
+    (field) => record[field] !== undefined
+  );
+  const assignments = fields
+    .map((field) => `${def.columns[field]} = ?`)
+    .join(", ");
 
-  const offset = (page - 1) * pageSize;
-  const dataQuery = `
-    SELECT id, product_name, category, region, quantity, unit_price, 
-           total_amount, cost, margin, margin_rate, status, sales_date
-    FROM sales
-    ${whereClause}
-    ${orderClause}
-    LIMIT ? OFFSET ?
-  `;
-  const data = db.prepare(dataQuery).all(...values, pageSize, offset) as SalesRow[];
+  getDb()
+    .prepare(`UPDATE ${def.table} SET ${assignments} WHERE id = ?`)
+    .run(...fields.map((field) => record[field]), id);
+
+  return findGridRow(resource, id) as GridRecord;
+}
+
+/**
+ * 행 삭제
+ * @throws GridNotFoundError 대상 행 없음
+ */
+export function deleteGridRow(resource: GridResource, id: string): void {
+  const def = getDefinition(resource);
+  const result = getDb()
+    .prepare(`DELETE FROM ${def.table} WHERE id = ?`)
+    .run(id);
+
+  if (result.changes === 0) {
+    throw new GridNotFoundError(id);
+  }
+}
+
+// ========================================
+// Write Operations - Batch (Transaction)
+// ========================================
+
+/**
+ * 변경 전 값(original)과 현재 DB 값을 비교하여 동시 수정 충돌을 검출
+ */
+function detectConflicts(
+  current: GridRecord,
+  changes: GridRecord,
+  original?: GridRecord
+): GridFieldError[] {
+  if (!original || typeof original !== "object") return [];
+  // 객체가 아닌 changes는 updateGridRow 검증에서 GridValidationError로 처리
+  if (!changes || typeof changes !== "object") return [];
+
+  return Object.keys(changes)
+    .filter(
+      (field) =>
+        field in original && String(original[field]) !== String(current[field])
+    )
+    .map((field) => ({
+      field,
+      code: "CONFLICT" as const,
+      message: `${field} 값이 다른 사용자에 의해 변경되었습니다.`,
+    }));
+}
+
+function toErrorResult(
+  rowId: string,
+  operation: GridRowResult["operation"],
+  error: unknown
+): GridRowResult {
+  if (error instanceof GridValidationError) {
+    return { rowId, operation, status: "error", errors: error.errors };
+  }
+  if (error instanceof GridNotFoundError) {
+    return {
+      rowId,
+      operation,
+      status: "error",
+      errors: [{ code: "NOT_FOUND", message: error.message }],
+    };
+  }
+  throw error;
+}
+
+/**
+ * 추가/수정/삭제를 하나의 트랜잭션으로 적용합니다.
+ * 한 행이라도 실패하면 전체를 롤백하고, 행 단위 결과에 오류를 담아 반환합니다.
+ */
+export function applyGridBatch(
+  resource: GridResource,
+  request: GridBatchRequest
+): GridBatchResult {
+  const db = getDb();
+  const results: GridRowResult[] = [];
+
+  const run = db.transaction(() => {
+    (request.added ?? []).forEach(({ rowId, data }) => {
+      try {
+        const saved = createGridRow(resource, data);
+        results.push({
+          rowId,
+          operation: "add",
+          status: "success",
+          id: String(saved.id),
+          data: saved,
+        });
+      } catch (error) {
+        results.push(toErrorResult(rowId, "add", error));
+      }
+    });
+
+    (request.updated ?? []).forEach(({ rowId, changes, original }) => {
+      try {
+        const current = findGridRow(resource, rowId);
+        if (!current) {
+          throw new GridNotFoundError(rowId);
+        }
+        const conflicts = detectConflicts(current, changes, original);
+        if (conflicts.length > 0) {
+          throw new GridValidationError(conflicts);
+        }
+        const saved = updateGridRow(resource, rowId, changes, "merge");
+        results.push({
+          rowId,
+          operation: "update",
+          status: "success",
+          id: rowId,
+          data: saved,
+        });
+      } catch (error) {
+        results.push(toErrorResult(rowId, "update", error));
+      }
+    });
+
+    (request.deleted ?? []).forEach((rowId) => {
+      try {
+        deleteGridRow(resource, rowId);
+        results.push({
+          rowId,
+          operation: "delete",
+          status: "success",
+          id: rowId,
+        });
+      } catch (error) {
+        results.push(toErrorResult(rowId, "delete", error));
+      }
+    });
+
+    // 실패가 있으면 throw 하여 트랜잭션 롤백
+    if (results.some((result) => result.status === "error")) {
+      throw new GridValidationError([]);
+    }
+  });
+
+  try {
+    run();
+  } catch (error) {
+    if (!(error instanceof GridValidationError)) {
+      throw error;
+    }
+  }
+
+  const failed = results.filter((result) => result.status === "error").length;
+  const count = (operation: GridRowResult["operation"]) =>
+    failed > 0
+      ? 0
+      : results.filter((result) => result.operation === operation).length;
 
   return {
-    data,
-    total,
-    page,
-    pageSize,
-    totalPages: Math.ceil(total / pageSize),
+    success: failed === 0,
+    // 롤백된 경우 성공 행의 data/id는 의미가 없으므로 제거
+    results:
+      failed > 0
+        ? results.map(
+            (result): GridRowResult =>
+              result.status === "success"
+                ? {
+                    rowId: result.rowId,
+                    operation: result.operation,
+                    status: "success",
+                  }
+                : result
+          )
+        : results,
+    summary: {
+      added: count("add"),
+      updated: count("update"),
+      deleted: count("delete"),
+      failed,
+    },
   };
 }
-
@@ -0,0 +1,259 @@
+/**
+ * SoftOne Design System - Grid Query Builder 테스트
+ * 작성: SoftOne Frontend Team
+ * 설명: 필터/정렬 파라미터 해석, 화이트리스트 기반 SQL 생성, 400 응답 변환을 검증합니다.
+ */
+
+import { describe, it, expect, afterAll, beforeAll } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+import express from "express";
+import gridRoutes from "../routes/gridRoutes";
+import {
+  GridQueryError,
+  buildFilterConditions,
+  parseFilterParams,
+  parseSortParams,
+  resolveSorts,
+  type FieldWhitelist,
+} from "./gridQueryBuilder";
+import { findUsers } from "./UserGridRepository";
+
+const WHITELIST: FieldWhitelist = {
+  id: { column: "id", type: "text" },
+  name: { column: "name", type: "text" },
+  quantity: { column: "quantity", type: "number" },
+  createdAt: { column: "created_at", type: "date" },
+};
+
+describe("gridQueryBuilder - parseFilterParams", () => {
+  it("중첩/평탄화 형태를 인덱스 순서대로 해석하고 in/between 값을 분리합니다", () => {
+    const filters = parseFilterParams({
+      // qs가 파싱한 중첩 형태
+      filter: [{ field: "name", operator: "contains", value: "kim" }],
+      // 원시 키 형태
+      "filter[2][field]": "quantity",
+      "filter[2][operator]": "between",
+      "filter[2][value]": "1, 10",
+      "filter[1][field]": "id",
+      "filter[1][operator]": "in",
+      "filter[1][value]": "A,B",
+    });
+
+    expect(filters).toEqual([
+      { field: "name", operator: "contains", value: "kim" },
+      { field: "id", operator: "in", value: ["A", "B"] },
+      { field: "quantity", operator: "between", value: ["1", "10"] },
+    ]);
+  });
+
+  it("JSON 배열 값은 콤마가 들어 있어도 항목 단위로 해석합니다", () => {
+    expect(
+      parseFilterParams({
+        "filter[0][field]": "name",
+        "filter[0][operator]": "in",
+        "filter[0][value]": '["Kim, Minsu","Lee"]',
+        "filter[1][field]": "quantity",
+        "filter[1][operator]": "between",
+        "filter[1][value]": '["1","10"]',
+        "filter[2][field]": "id",
+        "filter[2][operator]": "in",
+        "filter[2][value]": ["A", "B"],
+      })
+    ).toEqual([
+      { field: "name", operator: "in", value: ["Kim, Minsu", "Lee"] },
+      { field: "quantity", operator: "between", value: ["1", "10"] },
+      { field: "id", operator: "in", value: ["A", "B"] },
+    ]);
+  });
+
+  it("빈 in 값은 빈 목록이 되어 결과가 없는 조건(1 = 0)을 만듭니다", () => {
+    const filters = parseFilterParams({
+      "filter[0][field]": "id",
+      "filter[0][operator]": "in",
+      "filter[0][value]": "",
+      "filter[1][field]": "id",
+      "filter[1][operator]": "in",
+      "filter[1][value]": "[]",
+    });
+
+    expect(filters.map((filter) => filter.value)).toEqual([[], []]);
+    expect(buildFilterConditions(filters, WHITELIST)).toEqual({
+      conditions: ["1 = 0", "1 = 0"],
+      values: [],
+    });
+  });
+
+  it("알 수 없는 연산자, field 누락, 잘못된 between 값은 GridQueryError로 거부합니다", () => {
+    expect(() =>
+      parseFilterParams({
+        filter: [{ field: "name", operator: "like", value: "x" }],
+      })
+    ).toThrow(GridQueryError);
+    expect(() =>
+      parseFilterParams({ filter: [{ operator: "eq", value: "x" }] })
+    ).toThrow(GridQueryError);
+    expect(() =>
+      parseFilterParams({
+        filter: [{ field: "quantity", operator: "between", value: "1" }],
+      })
+    ).toThrow(GridQueryError);
+  });
+});
+
+describe("gridQueryBuilder - parseSortParams / resolveSorts", () => {
+  it("콤마 구분 다중 정렬과 sortDir 호환 파라미터를 해석합니다", () => {
+    expect(
+      parseSortParams({ sortField: "name, createdAt", sortDirection: "desc" })
+    ).toEqual([
+      { field: "name", direction: "desc" },
+      { field: "createdAt", direction: "asc" },
+    ]);
+    expect(parseSortParams({ sortField: "name", sortDir: "desc" })).toEqual([
+      { field: "name", direction: "desc" },
+    ]);
+    expect(parseSortParams({})).toEqual([]);
+  });
+
+  it("id tie-breaker를 마지막에 한 번만 추가하고 정렬이 없으면 기본 정렬을 사용합니다", () => {
+    expect(
+      resolveSorts([{ field: "createdAt", direction: "desc" }], WHITELIST, [])
+    ).toEqual([
+      { column: "created_at", direction: "desc" },
+      { column: "id", direction: "asc" },
+    ]);
+    expect(
+      resolveSorts([{ field: "id", direction: "desc" }], WHITELIST, [])
+    ).toEqual([{ column: "id", direction: "desc" }]);
+    expect(
+      resolveSorts([], WHITELIST, [{ field: "name", direction: "asc" }])
+    ).toEqual([
+      { column: "name", direction: "asc" },
+      { column: "id", direction: "asc" },
+    ]);
+  });
+
+  it("화이트리스트에 없는 정렬 필드는 GridQueryError로 거부합니다", () => {
+    expect(() =>
+      resolveSorts([{ field: "password", direction: "asc" }], WHITELIST, [])
+    ).toThrow(GridQueryError);
+  });
+});
+
+describe("gridQueryBuilder - buildFilterConditions", () => {
+  it("API 필드와 DB 컬럼명을 모두 허용하고 값을 바인딩합니다", () => {
+    expect(
+      buildFilterConditions(
+        [
+          { field: "createdAt", operator: "gte", value: "2024-01-01" },
+          { field: "created_at", operator: "lt", value: "2024-02-01" },
+          { field: "quantity", operator: "between", value: ["1", "10"] },
+          { field: "id", operator: "in", value: ["A", "B"] },
+        ],
+        WHITELIST
+      )
+    ).toEqual({
+      conditions: [
+        "created_at >= ?",
+        "created_at < ?",
+        "quantity BETWEEN ? AND ?",
+        "id IN (?, ?)",
+      ],
+      values: ["2024-01-01", "2024-02-01", 1, 10, "A", "B"],
+    });
+  });
+
+  it("LIKE 특수문자(%, _, \\)를 이스케이프합니다", () => {
+    const { conditions, values } = buildFilterConditions(
+      [
+        { field: "name", operator: "contains", value: "50%_a\\b" },
+        { field: "name", operator: "startsWith", value: "a_" },
+        { field: "name", operator: "endsWith", value: "%" },
+      ],
+      WHITELIST
+    );
+
+    expect(conditions).toEqual([
+      "name LIKE ? ESCAPE '\\'",
+      "name LIKE ? ESCAPE '\\'",
+      "name LIKE ? ESCAPE '\\'",
+    ]);
+    expect(values).toEqual(["%50\\%\\_a\\\\b%", "a\\_%", "%\\%"]);
+
+    // 실제 쿼리에서 "%"가 와일드카드로 동작하지 않음
+    const result = findUsers({
+      page: 1,
+      pageSize: 10,
+      filters: [{ field: "name", operator: "contains", value: "%" }],
+    });
+    expect(result.total).toBe(0);
+  });
+
+  it("허용되지 않은 필드와 숫자가 아닌 값은 GridQueryError로 거부합니다", () => {
+    expect(() =>
+      buildFilterConditions(
+        [{ field: "password", operator: "eq", value: "x" }],
+        WHITELIST
+      )
+    ).toThrow(GridQueryError);
+    expect(() =>
+      buildFilterConditions(
+        [{ field: "quantity", operator: "gt", value: "many" }],
+        WHITELIST
+      )
+    ).toThrow(GridQueryError);
+  });
+});
+
+describe("gridRoutes - 잘못된 쿼리 파라미터", () => {
+  let server: http.Server;
+  let baseUrl = "";
+
+  beforeAll(async () => {
+    const app = express();
+    app.use("/api/grid", gridRoutes);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  const getStatus = (path: string) =>
+    new Promise<{ status: number; body: { error?: string } }>(
+      (resolve, reject) => {
+        http
+          .get(`${baseUrl}${path}`, (res) => {
+            let raw = "";
+            res.on("data", (chunk) => (raw += chunk));
+            res.on("end", () =>
+              resolve({ status: res.statusCode ?? 0, body: JSON.parse(raw) })
+            );
+          })
+          .on("error", reject);
+      }
+    );
+
+  it("알 수 없는 필드/연산자/정렬 필드는 400으로 응답합니다", async () => {
+    const unknownField = await getStatus(
+      "/api/grid/users?filter[0][field]=password&filter[0][operator]=eq&filter[0][value]=x"
+    );
+    expect(unknownField.status).toBe(400);
+    expect(unknownField.body.error).toContain("password");
+
+    const unknownOperator = await getStatus(
+      "/api/grid/users?filter[0][field]=name&filter[0][operator]=like&filter[0][value]=x"
+    );
+    expect(unknownOperator.status).toBe(400);
+
+    const unknownSort = await getStatus("/api/grid/sales?sortField=secret");
+    expect(unknownSort.status).toBe(400);
+
+    const valid = await getStatus(
+      "/api/grid/users?filter[0][field]=status&filter[0][operator]=eq&filter[0][value]=ACTIVE"
+    );
+    expect(valid.status).toBe(200);
+  });
+});
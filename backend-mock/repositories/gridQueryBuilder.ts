@@ -0,0 +1,451 @@
+/**
+ * SoftOne Design System - Grid Query Builder
+ * 작성: SoftOne Frontend Team
+ *
+ * Grid Samples Lab – 프론트엔드 gridUtils와 공유하는 필터/정렬 쿼리 프로토콜:
+ *   buildQueryParamsFromGridState가 생성하는 쿼리 파라미터를 해석하고,
+ *   화이트리스트 기반으로 SQL WHERE / ORDER BY 절을 생성합니다.
+ *
+ * 쿼리 파라미터 형식:
+ *   filter[0][field]=status&filter[0][operator]=eq&filter[0][value]=ACTIVE
+ *   filter[1][field]=quantity&filter[1][operator]=between&filter[1][value]=["1","10"]
+ *   sortField=status,createdAt&sortDirection=asc,desc
+ *
+ *   - in / between 연산자의 값은 JSON 배열 문자열로 보냅니다.
+ *     (기존 콤마 구분 형식 "A,B"도 허용하며, 빈 항목은 제외합니다.)
+ *   - 필드명은 API 필드(camelCase) 또는 DB 컬럼명(snake_case) 모두 허용합니다.
+ *   - 화이트리스트에 없는 필드/연산자는 GridQueryError(400)로 거부합니다.
+ *
+ * 커서(keyset) 페이지네이션:
+ *   paginationMode=cursor&cursor=<nextCursor>  (다음 페이지)
+ *   paginationMode=cursor&before=<prevCursor>  (이전 페이지)
+ *   커서는 정렬 컬럼 값을 담은 불투명 문자열이며, 정렬 조건이 바뀌면 무효가 됩니다.
+ */
+
+// 필터 연산자 목록은 프론트엔드와 같은 모듈을 사용합니다.
+import {
+  FILTER_OPERATORS,
+  LIST_FILTER_OPERATORS,
+  decodeFilterListValue,
+  type FilterOperator,
+} from "../../src/core/model/gridFilterOperators";
+
+// ========================================
+// Types
+// ========================================
+
+export { FILTER_OPERATORS, type FilterOperator };
+
+export interface GridFilter {
+  field: string;
+  operator: FilterOperator;
+  value: string | string[];
+}
+
+export interface GridSort {
+  field: string;
+  direction: "asc" | "desc";
+}
+
+/** 필터/정렬 가능한 필드 정의 */
+export interface FieldSpec {
+  /** DB 컬럼명 */
+  column: string;
+  /** 값 변환 타입 */
+  type: "text" | "number" | "date";
+}
+
+/** API 필드명 → FieldSpec 화이트리스트 */
+export type FieldWhitelist = Record<string, FieldSpec>;
+
+/** 잘못된 필터/정렬 파라미터 (HTTP 400) */
+export class GridQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GridQueryError";
+  }
+}
+
+// ========================================
+// Query Param Parsing
+// ========================================
+
+type QueryValue = unknown;
+
+function toStringValue(value: QueryValue): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (Array.isArray(value)) return value.map(String).join(",");
+  return String(value);
+}
+
+/**
+ * in / between 값을 목록으로 변환
+ * qs가 이미 배열로 파싱한 값(filter[0][value][]=A)은 그대로 사용합니다.
+ */
+function toListValue(value: QueryValue): string[] {
+  if (Array.isArray(value)) {
+    return value.map(String).filter((item) => item.trim() !== "");
+  }
+  return decodeFilterListValue(toStringValue(value) ?? "");
+}
+
+/**
+ * filter[i][field|operator|value] 파라미터를 GridFilter 배열로 변환
+ *
+ * Express(qs)는 filter[0][field]를 배열로, 인덱스가 큰 경우 객체로 파싱하므로
+ * 두 형태를 모두 처리합니다. 원시 키("filter[0][field]") 형태도 허용합니다.
+ */
+export function parseFilterParams(
+  query: Record<string, QueryValue>
+): GridFilter[] {
+  const entries: Array<[string, Record<string, QueryValue>]> = [];
+
+  const nested = query.filter;
+  if (nested && typeof nested === "object") {
+    Object.entries(nested as Record<string, QueryValue>).forEach(
+      ([index, item]) => {
+        if (item && typeof item === "object") {
+          entries.push([index, item as Record<string, QueryValue>]);
+        }
+      }
+    );
+  }
+
+  // 평탄화된 키 형태: filter[0][field]
+  const flat: Record<string, Record<string, QueryValue>> = {};
+  Object.entries(query).forEach(([key, value]) => {
+    const match = /^filter\[(\d+)\]\[(field|operator|value)\]$/.exec(key);
+    if (match) {
+      flat[match[1]] = { ...flat[match[1]], [match[2]]: value };
+    }
+  });
+  entries.push(...Object.entries(flat));
+
+  return entries
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([index, item]) => {
+      const field = toStringValue(item.field);
+      const operator = toStringValue(item.operator) as FilterOperator;
+
+      if (!field) {
+        throw new GridQueryError(`filter[${index}]: field가 없습니다.`);
+      }
+      if (!FILTER_OPERATORS.includes(operator)) {
+        throw new GridQueryError(
+          `filter[${index}]: 지원하지 않는 연산자입니다. (${operator})`
+        );
+      }
+
+      const value = LIST_FILTER_OPERATORS.includes(operator)
+        ? toListValue(item.value)
+        : toStringValue(item.value) ?? "";
+
+      if (operator === "between" && value.length !== 2) {
+        throw new GridQueryError(
+          `filter[${index}]: between 값은 from, to 두 개여야 합니다.`
+        );
+      }
+
+      return { field, operator, value };
+    });
+}
+
+/**
+ * sortField / sortDirection (콤마 구분 다중 정렬) 파라미터를 GridSort 배열로 변환
+ * 기존 sortDir 파라미터도 호환합니다.
+ */
+export function parseSortParams(query: Record<string, QueryValue>): GridSort[] {
+  const fields = toStringValue(query.sortField);
+  if (!fields) return [];
+
+  const directions = (
+    toStringValue(query.sortDirection) ??
+    toStringValue(query.sortDir) ??
+    ""
+  ).split(",");
+
+  return fields
+    .split(",")
+    .map((field) => field.trim())
+    .filter(Boolean)
+    .map((field, index) => ({
+      field,
+      direction: directions[index]?.trim() === "desc" ? "desc" : "asc",
+    }));
+}
+
+// ========================================
+// SQL Builder
+// ========================================
+
+function resolveField(whitelist: FieldWhitelist, field: string): FieldSpec {
+  const spec =
+    whitelist[field] ??
+    Object.values(whitelist).find((candidate) => candidate.column === field);
+
+  if (!spec) {
+    throw new GridQueryError(`허용되지 않은 필드입니다. (${field})`);
+  }
+  return spec;
+}
+
+function coerceValue(spec: FieldSpec, field: string, value: string) {
+  if (spec.type !== "number") return value;
+
+  const parsed = Number(value);
+  if (value === "" || Number.isNaN(parsed)) {
+    throw new GridQueryError(`${field}는 숫자 값이 필요합니다. (${value})`);
+  }
+  return parsed;
+}
+
+/** LIKE 패턴 특수문자 이스케이프 (ESCAPE '\') */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+const COMPARISON_SQL: Partial<Record<FilterOperator, string>> = {
+  eq: "=",
+  ne: "!=",
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+};
+
+/**
+ * 필터 목록으로 WHERE 조건 생성
+ * @returns conditions (AND로 결합할 조건들)와 바인딩 값
+ */
+export function buildFilterConditions(
+  filters: GridFilter[],
+  whitelist: FieldWhitelist
+): { conditions: string[]; values: unknown[] } {
+  const conditions: string[] = [];
+  const values: unknown[] = [];
+
+  filters.forEach(({ field, operator, value }) => {
+    const spec = resolveField(whitelist, field);
+    const column = spec.column;
+    const list = Array.isArray(value) ? value : [value];
+    const single = list[0] ?? "";
+
+    switch (operator) {
+      case "eq":
+      case "ne":
+      case "gt":
+      case "gte":
+      case "lt":
+      case "lte":
+        conditions.push(`${column} ${COMPARISON_SQL[operator]} ?`);
+        values.push(coerceValue(spec, field, single));
+        break;
+
+      case "contains":
+        conditions.push(`${column} LIKE ? ESCAPE '\\'`);
+        values.push(`%${escapeLike(single)}%`);
+        break;
+
+      case "startsWith":
+        conditions.push(`${column} LIKE ? ESCAPE '\\'`);
+        values.push(`${escapeLike(single)}%`);
+        break;
+
+      case "endsWith":
+        conditions.push(`${column} LIKE ? ESCAPE '\\'`);
+        values.push(`%${escapeLike(single)}`);
+        break;
+
+      case "in":
+        if (list.length === 0) {
+          conditions.push("1 = 0");
+          break;
+        }
+        conditions.push(`${column} IN (${list.map(() => "?").join(", ")})`);
+        values.push(...list.map((item) => coerceValue(spec, field, item)));
+        break;
+
+      case "between":
+        conditions.push(`${column} BETWEEN ? AND ?`);
+        values.push(
+          coerceValue(spec, field, list[0]),
+          coerceValue(spec, field, list[1])
+        );
+        break;
+    }
+  });
+
+  return { conditions, values };
+}
+
+/** 컬럼 단위로 해석된 정렬 (tie-breaker 포함) */
+export interface ResolvedSort {
+  column: string;
+  direction: "asc" | "desc";
+}
+
+/**
+ * 정렬 목록을 컬럼 단위로 해석합니다.
+ * 정렬이 없으면 defaultSorts를 사용하고, 결과 순서를 결정적으로 만들기 위해
+ * 마지막에 id를 tie-breaker로 추가합니다. (keyset 페이지네이션의 전제 조건)
+ */
+export function resolveSorts(
+  sorts: GridSort[],
+  whitelist: FieldWhitelist,
+  defaultSorts: GridSort[]
+): ResolvedSort[] {
+  const resolved = (sorts.length > 0 ? sorts : defaultSorts).map(
+    ({ field, direction }) => ({
+      column: resolveField(whitelist, field).column,
+      direction,
+    })
+  );
+
+  if (!resolved.some((sort) => sort.column === "id")) {
+    resolved.push({ column: "id", direction: "asc" });
+  }
+  return resolved;
+}
+
+/**
+ * 해석된 정렬로 ORDER BY 절 생성
+ * @param reverse true면 모든 방향을 뒤집음 (이전 페이지 조회용)
+ */
+export function buildOrderClause(
+  sorts: ResolvedSort[],
+  reverse: boolean = false
+): string {
+  const terms = sorts.map(({ column, direction }) => {
+    const descending = (direction === "desc") !== reverse;
+    return `${column} ${descending ? "DESC" : "ASC"}`;
+  });
+
+  return `ORDER BY ${terms.join(", ")}`;
+}
+
+// ========================================
+// Keyset (Cursor) Pagination
+// ========================================
+
+interface CursorPayload {
+  /** 커서를 만든 정렬 시그니처 (정렬이 바뀌면 커서 무효) */
+  s: string;
+  /** 정렬 컬럼 값 (tie-breaker id 포함) */
+  v: unknown[];
+}
+
+function sortSignature(sorts: ResolvedSort[]): string {
+  return sorts.map((sort) => `${sort.column}:${sort.direction}`).join(",");
+}
+
+/**
+ * 행의 정렬 컬럼 값으로 불투명(opaque) 커서 생성
+ */
+export function encodeCursor(
+  sorts: ResolvedSort[],
+  row: Record<string, unknown>
+): string {
+  const payload: CursorPayload = {
+    s: sortSignature(sorts),
+    v: sorts.map((sort) => row[sort.column]),
+  };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+/**
+ * 커서 해석
+ * @throws GridQueryError 형식 오류 또는 정렬 조건 불일치
+ */
+export function decodeCursor(sorts: ResolvedSort[], cursor: string): unknown[] {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new GridQueryError("잘못된 커서입니다.");
+  }
+
+  if (!payload || !Array.isArray(payload.v)) {
+    throw new GridQueryError("잘못된 커서입니다.");
+  }
+  if (payload.s !== sortSignature(sorts) || payload.v.length !== sorts.length) {
+    throw new GridQueryError(
+      "정렬 조건이 변경되어 커서를 사용할 수 없습니다. 첫 페이지부터 다시 조회하세요."
+    );
+  }
+  return payload.v;
+}
+
+/**
+ * NULL을 고려한 "커서 값보다 뒤" 비교
+ * SQLite는 NULL을 가장 작은 값으로 정렬합니다. (ASC 맨 앞, DESC 맨 뒤)
+ * @returns 조건을 만족하는 행이 없으면 null
+ */
+function compareAfter(
+  column: string,
+  value: unknown,
+  greater: boolean
+): { sql: string; values: unknown[] } | null {
+  if (value === null || value === undefined) {
+    // NULL보다 큰 값은 NULL이 아닌 모든 값, 작은 값은 없음
+    return greater ? { sql: `${column} IS NOT NULL`, values: [] } : null;
+  }
+  return greater
+    ? { sql: `${column} > ?`, values: [value] }
+    : { sql: `(${column} < ? OR ${column} IS NULL)`, values: [value] };
+}
+
+/** NULL을 고려한 동등 비교 (col = NULL은 항상 거짓이므로 IS NULL 사용) */
+function compareEqual(
+  column: string,
+  value: unknown
+): { sql: string; values: unknown[] } {
+  return value === null || value === undefined
+    ? { sql: `${column} IS NULL`, values: [] }
+    : { sql: `${column} = ?`, values: [value] };
+}
+
+/**
+ * keyset 조건 생성: 커서 행 "다음"(또는 reverse 시 "이전")에 오는 행만 선택
+ *
+ * 정렬 (a ASC, b DESC, id ASC), 커서 값 (va, vb, vid) 인 경우:
+ *   (a > va) OR (a = va AND b < vb) OR (a = va AND b = vb AND id > vid)
+ *
+ * nullable 컬럼(department, category 등)은 NULL 정렬 위치에 맞춰
+ * IS NULL / IS NOT NULL 조건으로 바꿉니다. (compareAfter, compareEqual)
+ */
+export function buildKeysetCondition(
+  sorts: ResolvedSort[],
+  cursorValues: unknown[],
+  reverse: boolean = false
+): { condition: string; values: unknown[] } {
+  const clauses: string[] = [];
+  const values: unknown[] = [];
+
+  sorts.forEach((sort, index) => {
+    const ascending = (sort.direction === "asc") !== reverse;
+    const after = compareAfter(sort.column, cursorValues[index], ascending);
+    if (!after) return;
+
+    const parts = sorts
+      .slice(0, index)
+      .map((prev, prevIndex) =>
+        compareEqual(prev.column, cursorValues[prevIndex])
+      );
+    parts.push(after);
+
+    clauses.push(`(${parts.map((part) => part.sql).join(" AND ")})`);
+    parts.forEach((part) => values.push(...part.values));
+  });
+
+  if (clauses.length === 0) {
+    return { condition: "1 = 0", values };
+  }
+  return { condition: `(${clauses.join(" OR ")})`, values };
+}
+
+/**
+ * 조건 목록을 WHERE 절 문자열로 결합
+ */
+export function toWhereClause(conditions: string[]): string {
+  return conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+}
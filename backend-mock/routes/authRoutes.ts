@@ -0,0 +1,151 @@
+/**
+ * SoftOne Design System - Auth Routes
+ * 작성: SoftOne Frontend Team
+ *
+ * 로그인/토큰 갱신/로그아웃/현재 사용자 API를 제공합니다.
+ *   - 계정은 SQLite accounts 테이블에서 조회하며, 비밀번호는 해시로 검증합니다.
+ *   - 로그인 시 서명된 Access/Refresh Token 쌍을 발급합니다.
+ *   - /refresh는 Refresh Token을 회전(rotation)하여 새 토큰 쌍을 반환합니다.
+ *   - /me는 Access Token으로 현재 사용자 정보를 반환합니다 (새로고침 시 세션 복원).
+ */
+
+import { Router, Request, Response } from "express";
+import {
+  issueTokenPair,
+  revokeRefreshToken,
+  rotateRefreshToken,
+  TokenError,
+  type TokenSubject,
+} from "../auth/tokenService";
+import { requireAuth } from "../auth/authMiddleware";
+import {
+  authenticateAccount,
+  findAccountById,
+  type Account,
+} from "../repositories/AccountRepository";
+
+const router = Router();
+
+// ========================================
+// Helpers
+// ========================================
+
+function toTokenSubject(account: Account): TokenSubject {
+  return {
+    id: account.id,
+    name: account.name,
+    role: account.role,
+    grade: account.grade,
+  };
+}
+
+function findSubjectById(userId: string): TokenSubject | null {
+  const account = findAccountById(userId);
+  return account ? toTokenSubject(account) : null;
+}
+
+/**
+ * 세션 응답 (프론트엔드 authApi의 LoginResponse와 동일한 형식)
+ */
+function toSessionResponse(account: Account) {
+  return {
+    user: {
+      id: account.id,
+      name: account.name,
+      email: account.email,
+      roles: account.roles,
+    },
+    role: account.role,
+    grade: account.grade,
+  };
+}
+
+// ========================================
+// Routes
+// ========================================
+
+/**
+ * POST /api/auth/login
+ * Body: { username, password }
+ */
+router.post("/login", (req: Request, res: Response) => {
+  const { username, password } = req.body ?? {};
+  const account = authenticateAccount(
+    String(username ?? ""),
+    String(password ?? "")
+  );
+
+  if (!account) {
+    return res.status(401).json({
+      error: "아이디 또는 비밀번호가 올바르지 않습니다.",
+      code: "INVALID_CREDENTIALS",
+    });
+  }
+
+  const { accessToken, refreshToken, expiresIn } = issueTokenPair(
+    toTokenSubject(account)
+  );
+
+  res.json({
+    ...toSessionResponse(account),
+    accessToken,
+    refreshToken,
+    expiresIn,
+  });
+});
+
+/**
+ * POST /api/auth/refresh
+ * Body: { refreshToken }
+ *
+ * 사용된 Refresh Token은 즉시 폐기되며, 재사용 시 같은 세션의 토큰이 모두 폐기됩니다.
+ */
+router.post("/refresh", (req: Request, res: Response) => {
+  const refreshToken = req.body?.refreshToken;
+
+  if (typeof refreshToken !== "string" || !refreshToken) {
+    return res
+      .status(401)
+      .json({ error: "Refresh Token이 없습니다.", code: "TOKEN_MISSING" });
+  }
+
+  try {
+    res.json(rotateRefreshToken(refreshToken, findSubjectById));
+  } catch (error) {
+    if (error instanceof TokenError) {
+      return res.status(401).json({ error: error.message, code: error.code });
+    }
+    console.error("[/api/auth/refresh] Error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * Body: { refreshToken }
+ */
+router.post("/logout", (req: Request, res: Response) => {
+  const refreshToken = req.body?.refreshToken;
+  if (typeof refreshToken === "string" && refreshToken) {
+    revokeRefreshToken(refreshToken);
+  }
+  res.status(204).end();
+});
+
+/**
+ * GET /api/auth/me
+ * Header: Authorization: Bearer <accessToken>
+ */
+router.get("/me", requireAuth, (req: Request, res: Response) => {
+  const account = findAccountById(res.locals.auth.sub);
+
+  if (!account) {
+    return res
+      .status(401)
+      .json({ error: "사용자를 찾을 수 없습니다.", code: "TOKEN_INVALID" });
+  }
+
+  res.json(toSessionResponse(account));
+});
+
+export default router;
@@ -7,7 +7,26 @@
  */
 
 import { Router, Request, Response } from "express";
-import { findUsers, findOrders, findSales } from "../repositories/UserGridRepository";
+import {
+  findUsers,
+  findOrders,
+  findSales,
+  findGridRow,
+  createGridRow,
+  updateGridRow,
+  deleteGridRow,
+  applyGridBatch,
+  GRID_RESOURCES,
+  GridNotFoundError,
+  GridValidationError,
+  type GridBatchRequest,
+  type GridResource,
+} from "../repositories/UserGridRepository";
+import {
+  GridQueryError,
+  parseFilterParams,
+  parseSortParams,
+} from "../repositories/gridQueryBuilder";
 
 const router = Router();
 
@@ -15,6 +34,13 @@ const router = Router();
 // Helper: Parse Query Params
 // ========================================
 
+/**
+ * 그리드 쿼리 파라미터 파싱
+ * 필터/정렬 형식은 프론트엔드 buildQueryParamsFromGridState와 동일합니다.
+ * (filter[i][field|operator|value], sortField=a,b&sortDirection=asc,desc)
+ *
+ * @throws GridQueryError 잘못된 필터/정렬 파라미터
+ */
 function parseGridParams(query: Request["query"]) {
   return {
     page: parseInt(query.page as string, 10) || 1,
@@ -22,11 +48,26 @@ function parseGridParams(query: Request["query"]) {
     keyword: query.keyword as string | undefined,
     status: query.status as string | undefined,
     category: query.category as string | undefined,
-    sortField: query.sortField as string | undefined,
-    sortDir: (query.sortDir as "asc" | "desc") || undefined,
+    filters: parseFilterParams(query),
+    sorts: parseSortParams(query),
+    cursorMode: query.paginationMode === "cursor",
+    cursor: query.cursor as string | undefined,
+    before: query.before as string | undefined,
   };
 }
 
+/**
+ * 조회 API 에러 → HTTP 응답 변환
+ */
+function handleReadError(route: string, error: unknown, res: Response) {
+  if (error instanceof GridQueryError) {
+    res.status(400).json({ error: error.message });
+    return;
+  }
+  console.error(`[${route}] Error:`, error);
+  res.status(500).json({ error: "Internal server error" });
+}
+
 // ========================================
 // Routes
 // ========================================
@@ -57,10 +98,11 @@ router.get("/users", (req: Request, res: Response) => {
       page: result.page,
       pageSize: result.pageSize,
       totalPages: result.totalPages,
+      nextCursor: result.nextCursor,
+      prevCursor: result.prevCursor,
     });
   } catch (error) {
-    console.error("[/api/grid/users] Error:", error);
-    res.status(500).json({ error: "Internal server error" });
+    handleReadError("/api/grid/users", error, res);
   }
 });
 
@@ -90,10 +132,11 @@ router.get("/orders", (req: Request, res: Response) => {
       page: result.page,
       pageSize: result.pageSize,
       totalPages: result.totalPages,
+      nextCursor: result.nextCursor,
+      prevCursor: result.prevCursor,
     });
   } catch (error) {
-    console.error("[/api/grid/orders] Error:", error);
-    res.status(500).json({ error: "Internal server error" });
+    handleReadError("/api/grid/orders", error, res);
   }
 });
 
@@ -127,12 +170,158 @@ router.get("/sales", (req: Request, res: Response) => {
       page: result.page,
       pageSize: result.pageSize,
       totalPages: result.totalPages,
+      nextCursor: result.nextCursor,
+      prevCursor: result.prevCursor,
     });
   } catch (error) {
-    console.error("[/api/grid/sales] Error:", error);
-    res.status(500).json({ error: "Internal server error" });
+    handleReadError("/api/grid/sales", error, res);
   }
 });
 
-export default router;
+// ========================================
+// Helper: Write Operations
+// ========================================
+
+/**
+ * :resource 파라미터 검증 (users | orders | sales)
+ */
+function resolveResource(req: Request, res: Response): GridResource | null {
+  const resource = req.params.resource as GridResource;
+  if (!GRID_RESOURCES.includes(resource)) {
+    res.status(404).json({ error: `Unknown resource: ${req.params.resource}` });
+    return null;
+  }
+  return resource;
+}
+
+/**
+ * Repository 에러 → HTTP 응답 변환
+ */
+function handleWriteError(route: string, error: unknown, res: Response) {
+  if (error instanceof GridValidationError) {
+    res.status(422).json({ error: "Validation failed", errors: error.errors });
+    return;
+  }
+  if (error instanceof GridNotFoundError) {
+    res.status(404).json({ error: error.message });
+    return;
+  }
+  console.error(`[${route}] Error:`, error);
+  res.status(500).json({ error: "Internal server error" });
+}
+
+// ========================================
+// Routes: Write Operations
+// ========================================
+
+/**
+ * POST /api/grid/:resource/batch
+ * 추가/수정/삭제 일괄 저장 (단일 트랜잭션)
+ *
+ * Body: { added: [{ rowId, data }], updated: RowChanges[], deleted: string[] }
+ * 하나라도 실패하면 전체 롤백 후 422와 행 단위 결과를 반환합니다.
+ */
+router.post("/:resource/batch", (req: Request, res: Response) => {
+  const resource = resolveResource(req, res);
+  if (!resource) return;
 
+  try {
+    const body = (req.body ?? {}) as GridBatchRequest;
+    const result = applyGridBatch(resource, {
+      added: Array.isArray(body.added) ? body.added : [],
+      updated: Array.isArray(body.updated) ? body.updated : [],
+      deleted: Array.isArray(body.deleted) ? body.deleted : [],
+    });
+
+    res.status(result.success ? 200 : 422).json(result);
+  } catch (error) {
+    handleWriteError(`/api/grid/${resource}/batch`, error, res);
+  }
+});
+
+/**
+ * GET /api/grid/:resource/:id
+ * 단건 조회
+ */
+router.get("/:resource/:id", (req: Request, res: Response) => {
+  const resource = resolveResource(req, res);
+  if (!resource) return;
+
+  const row = findGridRow(resource, req.params.id);
+  if (!row) {
+    res.status(404).json({ error: `Row not found: ${req.params.id}` });
+    return;
+  }
+  res.json({ data: row });
+});
+
+/**
+ * POST /api/grid/:resource
+ * 단건 생성
+ */
+router.post("/:resource", (req: Request, res: Response) => {
+  const resource = resolveResource(req, res);
+  if (!resource) return;
+
+  try {
+    const row = createGridRow(resource, req.body ?? {});
+    res.status(201).json({ data: row });
+  } catch (error) {
+    handleWriteError(`/api/grid/${resource}`, error, res);
+  }
+});
+
+/**
+ * PUT /api/grid/:resource/:id
+ * 단건 전체 수정 (필수 필드 재검증)
+ */
+router.put("/:resource/:id", (req: Request, res: Response) => {
+  const resource = resolveResource(req, res);
+  if (!resource) return;
+
+  try {
+    const row = updateGridRow(
+      resource,
+      req.params.id,
+      req.body ?? {},
+      "replace"
+    );
+    res.json({ data: row });
+  } catch (error) {
+    handleWriteError(`/api/grid/${resource}/${req.params.id}`, error, res);
+  }
+});
+
+/**
+ * PATCH /api/grid/:resource/:id
+ * 단건 부분 수정
+ */
+router.patch("/:resource/:id", (req: Request, res: Response) => {
+  const resource = resolveResource(req, res);
+  if (!resource) return;
+
+  try {
+    const row = updateGridRow(resource, req.params.id, req.body ?? {}, "merge");
+    res.json({ data: row });
+  } catch (error) {
+    handleWriteError(`/api/grid/${resource}/${req.params.id}`, error, res);
+  }
+});
+
+/**
+ * DELETE /api/grid/:resource/:id
+ * 단건 삭제
+ */
+router.delete("/:resource/:id", (req: Request, res: Response) => {
+  const resource = resolveResource(req, res);
+  if (!resource) return;
+
+  try {
+    deleteGridRow(resource, req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    handleWriteError(`/api/grid/${resource}/${req.params.id}`, error, res);
+  }
+});
+
+export default router;
@@ -0,0 +1,58 @@
+/**
+ * SoftOne Design System - Menu Preference Routes
+ * 작성: SoftOne Frontend Team
+ *
+ * 로그인한 사용자의 사이드바 즐겨찾기/최근 방문 조회/저장 API를 제공합니다.
+ *   - 모든 요청은 Access Token이 필요하며, 토큰의 사용자(sub) 기준으로 저장됩니다.
+ *   - 저장은 전체 교체이며, 형식이 올바르지 않으면 400(INVALID_PREFERENCES)
+ */
+
+import { Router, Request, Response } from "express";
+import { requireAuth } from "../auth/authMiddleware";
+import type { AccessTokenClaims } from "../auth/tokenService";
+import {
+  findMenuPreferences,
+  isMenuPreferenceInput,
+  saveMenuPreferences,
+} from "../repositories/MenuPreferenceRepository";
+
+const router = Router();
+
+router.use(requireAuth);
+
+// ========================================
+// Routes
+// ========================================
+
+/**
+ * GET /api/menu-preferences
+ * 저장된 적 없으면 빈 목록, updatedAt null
+ */
+router.get("/", (req: Request, res: Response) => {
+  const auth = res.locals.auth as AccessTokenClaims;
+  res.json(findMenuPreferences(auth.sub));
+});
+
+/**
+ * PUT /api/menu-preferences
+ * Body: { favoriteRouteKeys, recentRouteKeys, updatedAt }
+ */
+router.put("/", (req: Request, res: Response) => {
+  const auth = res.locals.auth as AccessTokenClaims;
+
+  if (!isMenuPreferenceInput(req.body)) {
+    return res.status(400).json({
+      error: "즐겨찾기/최근 방문 형식이 올바르지 않습니다.",
+      code: "INVALID_PREFERENCES",
+    });
+  }
+
+  try {
+    res.json(saveMenuPreferences(auth.sub, req.body));
+  } catch (error) {
+    console.error("[/api/menu-preferences] Error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
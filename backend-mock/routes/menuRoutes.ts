@@ -0,0 +1,193 @@
+/**
+ * SoftOne Design System - Menu Routes
+ * 작성: SoftOne Frontend Team
+ *
+ * 사이드바 동적 메뉴 조회/생성/수정/삭제/순서 변경 API를 제공합니다.
+ *   - 모든 요청은 Access Token이 필요합니다.
+ *   - 변경은 최신 권한 매트릭스 기준 action:system:menu:update 권한이 있어야 합니다.
+ *     (저장된 매트릭스가 없으면 SYSTEM_ADMIN / ORG_ADMIN만 허용)
+ *   - version이 저장된 값과 다르면 409(VERSION_CONFLICT)
+ *   - 가져오기(PUT /api/menus/import)는 전체 메뉴/그룹을 교체합니다.
+ */
+
+import { Router, Request, Response } from "express";
+import { requireAuth } from "../auth/authMiddleware";
+import type { AccessTokenClaims } from "../auth/tokenService";
+import {
+  findLatestPermissionMatrix,
+  hasMatrixPermission,
+} from "../repositories/PermissionMatrixRepository";
+import {
+  createMenu,
+  deleteMenu,
+  importMenus,
+  isMenuImportPayload,
+  isMenuInput,
+  isMenuOrderInputList,
+  listMenuGroups,
+  listMenus,
+  MenuValidationError,
+  MenuVersionConflictError,
+  reorderMenus,
+  updateMenu,
+} from "../repositories/MenuRepository";
+
+const router = Router();
+
+router.use(requireAuth);
+
+// ========================================
+// Helpers
+// ========================================
+
+const MENU_UPDATE_PERMISSION = "action:system:menu:update";
+const DEFAULT_EDITOR_ROLES = ["SYSTEM_ADMIN", "ORG_ADMIN"];
+
+/**
+ * 메뉴 변경 권한 확인
+ */
+function canUpdateMenus(auth: AccessTokenClaims): boolean {
+  if (auth.role === "SYSTEM_ADMIN") return true;
+  return (
+    hasMatrixPermission(
+      findLatestPermissionMatrix(),
+      auth.role,
+      auth.grade,
+      MENU_UPDATE_PERMISSION
+    ) ?? DEFAULT_EDITOR_ROLES.includes(auth.role)
+  );
+}
+
+/**
+ * 변경 요청 공통 처리 (권한 확인 + 에러 응답 변환)
+ */
+function handleWrite(
+  req: Request,
+  res: Response,
+  write: (auth: AccessTokenClaims) => void
+) {
+  const auth = res.locals.auth as AccessTokenClaims;
+  if (!canUpdateMenus(auth)) {
+    return res.status(403).json({
+      error: "메뉴를 변경할 권한이 없습니다.",
+      code: "FORBIDDEN",
+    });
+  }
+
+  try {
+    write(auth);
+  } catch (error) {
+    if (error instanceof MenuVersionConflictError) {
+      return res.status(409).json({
+        error: error.message,
+        code: "VERSION_CONFLICT",
+        menuId: error.menuId,
+        currentVersion: error.currentVersion,
+      });
+    }
+    if (error instanceof MenuValidationError) {
+      return res
+        .status(400)
+        .json({ error: error.message, code: "INVALID_MENU" });
+    }
+    console.error(`[${req.method} /api/menus] Error:`, error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+const invalidMenu = (res: Response) =>
+  res.status(400).json({
+    error: "메뉴 형식이 올바르지 않습니다.",
+    code: "INVALID_MENU",
+  });
+
+const menuNotFound = (res: Response) =>
+  res.status(404).json({
+    error: "메뉴를 찾을 수 없습니다.",
+    code: "MENU_NOT_FOUND",
+  });
+
+// ========================================
+// Routes
+// ========================================
+
+/**
+ * GET /api/menus
+ * 전체 메뉴(평면 목록)와 메뉴 그룹
+ */
+router.get("/", (req: Request, res: Response) => {
+  res.json({ menus: listMenus(), groups: listMenuGroups() });
+});
+
+/**
+ * PUT /api/menus/reorder
+ * Body: { items: [{ id, parentId, order, group?, version }] }
+ */
+router.put("/reorder", (req: Request, res: Response) => {
+  const items = req.body?.items;
+  if (!isMenuOrderInputList(items)) return invalidMenu(res);
+
+  handleWrite(req, res, (auth) => {
+    res.json(reorderMenus(items, auth.name));
+  });
+});
+
+/**
+ * PUT /api/menus/import
+ * Body: { groups, menus: [MenuInput & { id }], baseVersions: { [id]: version } }
+ * 가져온 목록으로 전체 메뉴/그룹을 교체하고 최신 목록을 반환합니다.
+ */
+router.put("/import", (req: Request, res: Response) => {
+  if (!isMenuImportPayload(req.body)) return invalidMenu(res);
+  const { groups, menus, baseVersions } = req.body;
+
+  handleWrite(req, res, (auth) => {
+    res.json(importMenus(groups, menus, baseVersions, auth.name));
+  });
+});
+
+/**
+ * POST /api/menus
+ * Body: MenuInput
+ */
+router.post("/", (req: Request, res: Response) => {
+  if (!isMenuInput(req.body)) return invalidMenu(res);
+
+  handleWrite(req, res, (auth) => {
+    res.status(201).json(createMenu(req.body, auth.name));
+  });
+});
+
+/**
+ * PUT /api/menus/:id
+ * Body: MenuInput & { version }
+ */
+router.put("/:id", (req: Request, res: Response) => {
+  const { version, ...input } = req.body ?? {};
+  if (!Number.isInteger(version) || !isMenuInput(input)) {
+    return invalidMenu(res);
+  }
+
+  handleWrite(req, res, (auth) => {
+    const saved = updateMenu(req.params.id, input, version, auth.name);
+    if (!saved) return menuNotFound(res);
+    res.json(saved);
+  });
+});
+
+/**
+ * DELETE /api/menus/:id?version=N
+ * 하위 메뉴도 함께 삭제합니다.
+ */
+router.delete("/:id", (req: Request, res: Response) => {
+  const version = Number(req.query.version);
+  if (!Number.isInteger(version)) return invalidMenu(res);
+
+  handleWrite(req, res, () => {
+    const deletedIds = deleteMenu(req.params.id, version);
+    if (!deletedIds) return menuNotFound(res);
+    res.json({ deletedIds });
+  });
+});
+
+export default router;
@@ -0,0 +1,143 @@
+/**
+ * SoftOne Design System - Permission Matrix Routes
+ * 작성: SoftOne Frontend Team
+ *
+ * Role/Grade 권한 매트릭스 조회/저장 API를 제공합니다.
+ *   - 모든 요청은 Access Token이 필요합니다.
+ *   - 저장은 최신 매트릭스 기준 action:auth:role:update 권한이 있어야 합니다.
+ *     (저장된 매트릭스가 없으면 SYSTEM_ADMIN / ORG_ADMIN만 허용)
+ *   - SYSTEM_ADMIN은 매트릭스 내용과 관계없이 항상 저장할 수 있습니다. (잠김 방지)
+ *   - 역할 상속이 순환하면 400(ROLE_CYCLE), 계정에 할당된 역할을 삭제하면 409(ROLE_IN_USE)
+ */
+
+import { Router, Request, Response } from "express";
+import { requireAuth } from "../auth/authMiddleware";
+import type { AccessTokenClaims } from "../auth/tokenService";
+import { listAssignedRoles } from "../repositories/AccountRepository";
+import {
+  findCyclicRole,
+  findLatestPermissionMatrix,
+  hasMatrixPermission,
+  isPermissionRecord,
+  isRoleDefinitionList,
+  listPermissionMatrixVersions,
+  PermissionMatrixConflictError,
+  savePermissionMatrix,
+  type PermissionMatrixRecord,
+} from "../repositories/PermissionMatrixRepository";
+
+const router = Router();
+
+router.use(requireAuth);
+
+// ========================================
+// Helpers
+// ========================================
+
+const ROLE_UPDATE_PERMISSION = "action:auth:role:update";
+const DEFAULT_EDITOR_ROLES = ["SYSTEM_ADMIN", "ORG_ADMIN"];
+
+/**
+ * 권한 매트릭스 변경 권한 확인 (상위 역할에서 상속한 권한 포함)
+ */
+function canUpdateMatrix(
+  auth: AccessTokenClaims,
+  matrix: PermissionMatrixRecord
+): boolean {
+  if (auth.role === "SYSTEM_ADMIN") return true;
+  return (
+    hasMatrixPermission(matrix, auth.role, auth.grade, ROLE_UPDATE_PERMISSION) ??
+    DEFAULT_EDITOR_ROLES.includes(auth.role)
+  );
+}
+
+// ========================================
+// Routes
+// ========================================
+
+/**
+ * GET /api/permission-matrix
+ * 최신 권한 매트릭스 (저장된 버전이 없으면 version 0, 매트릭스는 null)
+ */
+router.get("/", (req: Request, res: Response) => {
+  res.json(findLatestPermissionMatrix());
+});
+
+/**
+ * GET /api/permission-matrix/versions
+ * 버전 이력 (최신순)
+ */
+router.get("/versions", (req: Request, res: Response) => {
+  res.json(listPermissionMatrixVersions());
+});
+
+/**
+ * PUT /api/permission-matrix
+ * Body: { baseVersion, roles, rolePermissions, gradePermissionBoost }
+ */
+router.put("/", (req: Request, res: Response) => {
+  const auth = res.locals.auth as AccessTokenClaims;
+  const { baseVersion, roles, rolePermissions, gradePermissionBoost } =
+    req.body ?? {};
+
+  if (!canUpdateMatrix(auth, findLatestPermissionMatrix())) {
+    return res.status(403).json({
+      error: "권한 매트릭스를 변경할 권한이 없습니다.",
+      code: "FORBIDDEN",
+    });
+  }
+
+  if (
+    !Number.isInteger(baseVersion) ||
+    !isRoleDefinitionList(roles) ||
+    !isPermissionRecord(rolePermissions) ||
+    !isPermissionRecord(gradePermissionBoost)
+  ) {
+    return res.status(400).json({
+      error: "권한 매트릭스 형식이 올바르지 않습니다.",
+      code: "INVALID_MATRIX",
+    });
+  }
+
+  const cyclicRole = findCyclicRole(roles);
+  if (cyclicRole) {
+    return res.status(400).json({
+      error: `역할 ${cyclicRole}의 상속이 순환합니다.`,
+      code: "ROLE_CYCLE",
+    });
+  }
+
+  const roleKeys = roles.map((def) => def.key);
+  const removedRoles = listAssignedRoles().filter(
+    (role) => !roleKeys.includes(role)
+  );
+  if (removedRoles.length > 0) {
+    return res.status(409).json({
+      error: `계정에 할당된 역할은 삭제할 수 없습니다: ${removedRoles.join(
+        ", "
+      )}`,
+      code: "ROLE_IN_USE",
+      roles: removedRoles,
+    });
+  }
+
+  try {
+    const saved = savePermissionMatrix(
+      { baseVersion, roles, rolePermissions, gradePermissionBoost },
+      auth.name
+    );
+    res.json(saved);
+  } catch (error) {
+    if (error instanceof PermissionMatrixConflictError) {
+      return res.status(409).json({
+        error: error.message,
+        code: "VERSION_CONFLICT",
+        currentVersion: error.currentVersion,
+      });
+    }
+    console.error("[/api/permission-matrix] Error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
@@ -12,7 +12,13 @@
 
 import express, { Request, Response, NextFunction } from "express";
 import cors from "cors";
+import crypto from "crypto";
 import gridRoutes from "./routes/gridRoutes";
+import authRoutes from "./routes/authRoutes";
+import permissionMatrixRoutes from "./routes/permissionMatrixRoutes";
+import menuRoutes from "./routes/menuRoutes";
+import menuPreferenceRoutes from "./routes/menuPreferenceRoutes";
+import { requireAuth } from "./auth/authMiddleware";
 import { closeDb } from "./db/sqliteClient";
 
 // ========================================
@@ -23,12 +29,17 @@ const app = express();
 const PORT = process.env.PORT || 3001;
 
 // Middleware
-app.use(cors());
+// X-Trace-Id는 프론트엔드 ApiError.traceId로 노출되므로 CORS 허용 헤더에 추가
+app.use(cors({ exposedHeaders: ["X-Trace-Id"] }));
 app.use(express.json());
 
-// Request Logging
+// Request Logging + Trace ID (에러 문의 시 서버 로그 조회용)
 app.use((req: Request, res: Response, next: NextFunction) => {
-  console.log(`[${new Date().toISOString()}] ${req.method} ${req.url}`);
+  const traceId = crypto.randomUUID();
+  res.setHeader("X-Trace-Id", traceId);
+  console.log(
+    `[${new Date().toISOString()}] ${req.method} ${req.url} (${traceId})`
+  );
   next();
 });
 
@@ -45,7 +56,23 @@ app.get("/api/health", (req: Request, res: Response) => {
   });
 });
 
+// Auth API Routes
+app.use("/api/auth", authRoutes);
+
+// Permission Matrix API Routes (Role/Grade 권한 매트릭스)
+app.use("/api/permission-matrix", permissionMatrixRoutes);
+
+// Menu API Routes (사이드바 동적 메뉴)
+app.use("/api/menus", menuRoutes);
+
+// Menu Preference API Routes (사용자별 즐겨찾기/최근 방문)
+app.use("/api/menu-preferences", menuPreferenceRoutes);
+
 // Grid API Routes
+// AUTH_REQUIRED=true면 Access Token 검증 (토큰 갱신 흐름 테스트용)
+if (process.env.AUTH_REQUIRED === "true") {
+  app.use("/api/grid", requireAuth);
+}
 app.use("/api/grid", gridRoutes);
 
 // 404 Handler
@@ -55,8 +82,9 @@ app.use((req: Request, res: Response) => {
 
 // Error Handler
 app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
-  console.error("[Error]", err);
-  res.status(500).json({ error: "Internal Server Error" });
+  const traceId = res.getHeader("X-Trace-Id");
+  console.error(`[Error] (${traceId})`, err);
+  res.status(500).json({ error: "Internal Server Error", traceId });
 });
 
 // ========================================
@@ -77,8 +105,41 @@ const server = app.listen(PORT, () => {
 ║     GET /api/grid/orders     - Order grid data                ║
 ║     GET /api/grid/sales      - Sales grid data                ║
 ║                                                               ║
+║   Auth endpoints:                                             ║
+║     POST /api/auth/login     - Issue access/refresh tokens    ║
+║     POST /api/auth/refresh   - Rotate refresh token           ║
+║     POST /api/auth/logout    - Revoke refresh token           ║
+║     GET  /api/auth/me        - Current user (Bearer token)    ║
+║                                                               ║
+║   Permission matrix endpoints (Bearer token):                 ║
+║     GET /api/permission-matrix          - Latest version      ║
+║     GET /api/permission-matrix/versions - Version history     ║
+║     PUT /api/permission-matrix          - Save new version    ║
+║                                                               ║
+║   Menu endpoints (Bearer token, version = optimistic lock):   ║
+║     GET    /api/menus                  - Menus + groups       ║
+║     POST   /api/menus                  - Create               ║
+║     PUT    /api/menus/:id              - Update (version)     ║
+║     DELETE /api/menus/:id?version=N    - Delete subtree       ║
+║     PUT    /api/menus/reorder          - Reorder (tx)         ║
+║     PUT    /api/menus/import           - Replace all (tx)     ║
+║                                                               ║
+║   Menu preference endpoints (Bearer token, per user):         ║
+║     GET /api/menu-preferences   - Favorites + recent          ║
+║     PUT /api/menu-preferences   - Replace                     ║
+║                                                               ║
+║   Write endpoints (:resource = users | orders | sales):       ║
+║     GET    /api/grid/:resource/:id     - Find one             ║
+║     POST   /api/grid/:resource         - Create               ║
+║     PUT    /api/grid/:resource/:id     - Replace              ║
+║     PATCH  /api/grid/:resource/:id     - Partial update       ║
+║     DELETE /api/grid/:resource/:id     - Delete               ║
+║     POST   /api/grid/:resource/batch   - Batch save (tx)      ║
+║                                                               ║
 ║   Query params: page, pageSize, keyword, status, category,    ║
-║                 sortField, sortDir                            ║
+║                 sortField, sortDirection (comma separated),   ║
+║                 filter[i][field|operator|value],              ║
+║                 paginationMode=cursor, cursor, before         ║
 ║                                                               ║
 ╚═══════════════════════════════════════════════════════════════╝
   `);
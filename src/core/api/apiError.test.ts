@@ -0,0 +1,168 @@
+/**
+ * SoftOne Design System(SDS) - ApiError 테스트
+ * 작성: SoftOne Frontend Team
+ * 설명: 에러 정규화와 필드 오류/토스트 기본 표시 정책의 단위 테스트.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { AxiosError, AxiosHeaders } from "axios";
+import { ApiError, isApiError, normalizeApiError } from "./apiError";
+import { applyApiFieldErrors, handleApiError } from "./apiErrorHandler";
+import { useToastStore } from "../store/toastStore";
+
+// ========================================
+// Helpers
+// ========================================
+
+function createAxiosError(
+  status: number,
+  data?: unknown,
+  headers: Record<string, string> = {}
+): AxiosError {
+  const config = { headers: new AxiosHeaders(), url: "/api/test" };
+  return new AxiosError(
+    `Request failed with status code ${status}`,
+    undefined,
+    config,
+    undefined,
+    {
+      data,
+      status,
+      statusText: String(status),
+      headers,
+      config,
+    }
+  );
+}
+
+const duplicateCodeError = new ApiError({
+  status: 409,
+  code: "DUPLICATE_CODE",
+  message: "이미 사용 중인 코드입니다.",
+  fieldErrors: [
+    { field: "product_code", message: "이미 사용 중인 코드입니다." },
+    { field: "unknown", message: "폼에 없는 필드" },
+  ],
+});
+
+// ========================================
+// normalizeApiError
+// ========================================
+
+describe("normalizeApiError", () => {
+  it("응답 body에서 code, message, fieldErrors, traceId를 추출합니다", () => {
+    const error = normalizeApiError(
+      createAxiosError(400, {
+        code: "INVALID_INPUT",
+        message: "입력값 오류",
+        traceId: "trace-1",
+        fieldErrors: [{ field: "name", message: "필수 항목입니다." }],
+      })
+    );
+
+    expect(isApiError(error)).toBe(true);
+    expect(error).toMatchObject({
+      status: 400,
+      code: "INVALID_INPUT",
+      message: "입력값 오류",
+      traceId: "trace-1",
+    });
+    expect(error.fieldErrors).toEqual([
+      { field: "name", message: "필수 항목입니다.", code: undefined },
+    ]);
+  });
+
+  it("필드별 메시지 객체와 X-Trace-Id 헤더를 지원합니다", () => {
+    const error = normalizeApiError(
+      createAxiosError(
+        422,
+        { error: "검증 실패", fieldErrors: { email: ["형식 오류"] } },
+        { "x-trace-id": "trace-2" }
+      )
+    );
+
+    expect(error.code).toBe("VALIDATION_FAILED");
+    expect(error.message).toBe("검증 실패");
+    expect(error.traceId).toBe("trace-2");
+    expect(error.fieldErrors).toEqual([
+      { field: "email", message: "형식 오류" },
+    ]);
+  });
+
+  it("body가 없으면 상태 코드 기본값을 사용합니다", () => {
+    const error = normalizeApiError(createAxiosError(503));
+
+    expect(error.code).toBe("SERVER_ERROR");
+    expect(error.hasFieldErrors).toBe(false);
+  });
+
+  it("응답이 없으면 NETWORK_ERROR/TIMEOUT으로 변환합니다", () => {
+    const network = normalizeApiError(new AxiosError("Network Error"));
+    const timeout = normalizeApiError(
+      new AxiosError("timeout", "ECONNABORTED")
+    );
+
+    expect(network).toMatchObject({ status: 0, code: "NETWORK_ERROR" });
+    expect(timeout).toMatchObject({ status: 0, code: "TIMEOUT" });
+  });
+
+  it("ApiError는 그대로, 그 외 에러는 UNKNOWN으로 반환합니다", () => {
+    expect(normalizeApiError(duplicateCodeError)).toBe(duplicateCodeError);
+    expect(normalizeApiError(new Error("boom"))).toMatchObject({
+      code: "UNKNOWN",
+      message: "boom",
+    });
+  });
+});
+
+// ========================================
+// applyApiFieldErrors / handleApiError
+// ========================================
+
+describe("applyApiFieldErrors", () => {
+  it("fieldMap/knownFields에 따라 필드 오류를 적용하고 첫 필드만 포커스합니다", () => {
+    const setError = vi.fn();
+
+    const applied = applyApiFieldErrors<{ code: string }>(
+      duplicateCodeError,
+      setError,
+      { fieldMap: { product_code: "code" }, knownFields: ["code"] }
+    );
+
+    expect(applied).toBe(1);
+    expect(setError).toHaveBeenCalledWith(
+      "code",
+      { type: "server", message: "이미 사용 중인 코드입니다." },
+      { shouldFocus: true }
+    );
+  });
+});
+
+describe("handleApiError", () => {
+  beforeEach(() => {
+    useToastStore.getState().clearAll();
+  });
+
+  it("필드 오류가 폼에 적용되면 토스트를 표시하지 않습니다", () => {
+    const setError = vi.fn();
+
+    handleApiError(duplicateCodeError, {
+      setError,
+      fieldMap: { product_code: "code" },
+    });
+
+    expect(setError).toHaveBeenCalledTimes(2);
+    expect(useToastStore.getState().toasts).toHaveLength(0);
+  });
+
+  it("필드 오류가 없으면 traceId와 함께 에러 토스트를 표시합니다", () => {
+    const error = handleApiError(
+      createAxiosError(500, { error: "DB 오류", traceId: "trace-3" })
+    );
+
+    expect(error.status).toBe(500);
+    expect(useToastStore.getState().toasts).toMatchObject([
+      { type: "error", message: "DB 오류 (추적 ID: trace-3)" },
+    ]);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * SoftOne Design System(SDS) - API Error Model
+ * 작성: SoftOne Frontend Team
+ * 설명: 서버/네트워크 에러를 하나의 ApiError 타입으로 정규화합니다.
+ *      httpClient Response Interceptor가 모든 실패 응답을 ApiError로 변환하므로,
+ *      각 기능에서는 AxiosError 구조를 알 필요 없이 status/code/fieldErrors만 사용합니다.
+ *
+ * 지원하는 응답 형식:
+ *   - { error | message, code?, traceId? }
+ *   - { fieldErrors: [{ field, message, code? }] | { [field]: message } }
+ *   - { errors: [{ field?, message, code? }] }   (Grid 쓰기 API 422)
+ *   - traceId는 응답 body 또는 X-Trace-Id 헤더에서 읽습니다.
+ */
+
+import { isAxiosError } from "axios";
+
+// ========================================
+// Types
+// ========================================
+
+export interface ApiFieldError {
+  /** 필드 경로 (예: "name", "address.zipCode") */
+  field: string;
+  /** 사용자 표시용 메시지 */
+  message: string;
+  /** 서버 오류 코드 */
+  code?: string;
+}
+
+export interface ApiErrorInit {
+  status: number;
+  code: string;
+  message: string;
+  fieldErrors?: ApiFieldError[];
+  traceId?: string;
+  /** 서버 응답 body (422 상세 결과 등) */
+  data?: unknown;
+  /** 원본 에러 */
+  cause?: unknown;
+}
+
+// ========================================
+// ApiError
+// ========================================
+
+/**
+ * 정규화된 API 에러
+ *
+ * @example
+ * try {
+ *   await post("/api/users", values);
+ * } catch (error) {
+ *   if (isApiError(error) && error.status === 409) { ... }
+ * }
+ */
+export class ApiError extends Error {
+  /** HTTP 상태 코드 (네트워크 오류/타임아웃은 0) */
+  readonly status: number;
+  /** 오류 코드 (서버 code 또는 상태 코드 기반 기본값) */
+  readonly code: string;
+  /** 필드 단위 오류 목록 */
+  readonly fieldErrors: ApiFieldError[];
+  /** 서버 추적 ID (문의/로그 조회용) */
+  readonly traceId?: string;
+  /** 서버 응답 body */
+  readonly data?: unknown;
+  readonly cause?: unknown;
+
+  constructor(init: ApiErrorInit) {
+    super(init.message);
+    this.name = "ApiError";
+    this.status = init.status;
+    this.code = init.code;
+    this.fieldErrors = init.fieldErrors ?? [];
+    this.traceId = init.traceId;
+    this.data = init.data;
+    this.cause = init.cause;
+  }
+
+  /** 필드 오류 존재 여부 */
+  get hasFieldErrors(): boolean {
+    return this.fieldErrors.length > 0;
+  }
+}
+
+/**
+ * ApiError 타입 가드
+ */
+export function isApiError(value: unknown): value is ApiError {
+  return value instanceof ApiError;
+}
+
+// ========================================
+// Default Messages
+// ========================================
+
+const STATUS_CODES: Record<number, string> = {
+  400: "BAD_REQUEST",
+  401: "UNAUTHORIZED",
+  403: "FORBIDDEN",
+  404: "NOT_FOUND",
+  409: "CONFLICT",
+  422: "VALIDATION_FAILED",
+  429: "TOO_MANY_REQUESTS",
+};
+
+const STATUS_MESSAGES: Record<number, string> = {
+  400: "요청 형식이 올바르지 않습니다.",
+  401: "로그인이 필요합니다.",
+  403: "접근 권한이 없습니다.",
+  404: "요청한 리소스를 찾을 수 없습니다.",
+  409: "다른 사용자가 먼저 변경했습니다. 새로고침 후 다시 시도해주세요.",
+  422: "입력값을 확인해주세요.",
+  429: "요청이 너무 많습니다. 잠시 후 다시 시도해주세요.",
+};
+
+const NETWORK_ERROR_MESSAGE =
+  "서버에 연결할 수 없습니다. 네트워크 상태를 확인해주세요.";
+const TIMEOUT_MESSAGE = "요청 시간이 초과되었습니다. 다시 시도해주세요.";
+const SERVER_ERROR_MESSAGE =
+  "서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.";
+const UNKNOWN_ERROR_MESSAGE = "알 수 없는 오류가 발생했습니다.";
+
+function defaultCode(status: number): string {
+  if (STATUS_CODES[status]) return STATUS_CODES[status];
+  return status >= 500 ? "SERVER_ERROR" : "HTTP_ERROR";
+}
+
+function defaultMessage(status: number): string {
+  if (STATUS_MESSAGES[status]) return STATUS_MESSAGES[status];
+  return status >= 500 ? SERVER_ERROR_MESSAGE : UNKNOWN_ERROR_MESSAGE;
+}
+
+// ========================================
+// Normalization
+// ========================================
+
+type ErrorBody = Record<string, unknown>;
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+/**
+ * 응답 body의 필드 오류를 ApiFieldError 배열로 변환
+ */
+function parseFieldErrors(body: ErrorBody): ApiFieldError[] {
+  const source = body.fieldErrors ?? body.errors;
+
+  if (Array.isArray(source)) {
+    return source.flatMap((item) => {
+      if (!item || typeof item !== "object") return [];
+      const field = asString((item as ErrorBody).field);
+      const message = asString((item as ErrorBody).message);
+      if (!field || !message) return [];
+      return [{ field, message, code: asString((item as ErrorBody).code) }];
+    });
+  }
+
+  if (source && typeof source === "object") {
+    return Object.entries(source as ErrorBody).flatMap(([field, value]) => {
+      const message = Array.isArray(value)
+        ? asString(value[0])
+        : asString(value);
+      return message ? [{ field, message }] : [];
+    });
+  }
+
+  return [];
+}
+
+/**
+ * 임의의 에러를 ApiError로 정규화
+ *
+ * - ApiError: 그대로 반환
+ * - AxiosError (응답 있음): body/헤더에서 code, message, fieldErrors, traceId 추출
+ * - AxiosError (응답 없음): status 0, NETWORK_ERROR 또는 TIMEOUT
+ * - 그 외: status 0, UNKNOWN
+ */
+export function normalizeApiError(error: unknown): ApiError {
+  if (isApiError(error)) return error;
+
+  if (isAxiosError(error)) {
+    const response = error.response;
+
+    if (!response) {
+      const isTimeout =
+        error.code === "ECONNABORTED" || error.code === "ETIMEDOUT";
+      return new ApiError({
+        status: 0,
+        code: isTimeout ? "TIMEOUT" : "NETWORK_ERROR",
+        message: isTimeout ? TIMEOUT_MESSAGE : NETWORK_ERROR_MESSAGE,
+        cause: error,
+      });
+    }
+
+    const body: ErrorBody =
+      response.data && typeof response.data === "object"
+        ? (response.data as ErrorBody)
+        : {};
+    const headerTraceId = response.headers?.["x-trace-id"];
+
+    return new ApiError({
+      status: response.status,
+      code: asString(body.code) ?? defaultCode(response.status),
+      message:
+        asString(body.message) ??
+        asString(body.error) ??
+        defaultMessage(response.status),
+      fieldErrors: parseFieldErrors(body),
+      traceId: asString(body.traceId) ?? asString(headerTraceId),
+      data: response.data,
+      cause: error,
+    });
+  }
+
+  return new ApiError({
+    status: 0,
+    code: "UNKNOWN",
+    message:
+      error instanceof Error && error.message
+        ? error.message
+        : UNKNOWN_ERROR_MESSAGE,
+    cause: error,
+  });
+}
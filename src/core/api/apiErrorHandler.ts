@@ -0,0 +1,123 @@
+/**
+ * SoftOne Design System(SDS) - API Error → UI Mapping
+ * 작성: SoftOne Frontend Team
+ * 설명: ApiError를 화면에 표시하는 기본 정책.
+ *      - 필드 오류: react-hook-form setError로 해당 입력 필드 아래에 표시
+ *      - 그 외 오류: toastStore를 통해 에러 토스트 표시
+ *
+ * @example
+ * const { setError } = useForm<UserForm>();
+ *
+ * try {
+ *   await post("/api/users", values);
+ * } catch (error) {
+ *   handleApiError(error, { setError });
+ * }
+ */
+
+import type { FieldValues, Path, UseFormSetError } from "react-hook-form";
+import { useToastStore } from "../store/toastStore";
+import { normalizeApiError, type ApiError } from "./apiError";
+
+// ========================================
+// Types
+// ========================================
+
+export interface ApplyFieldErrorsOptions<T extends FieldValues> {
+  /** 서버 필드명 → 폼 필드 경로 매핑 (예: { product_code: "code" }) */
+  fieldMap?: Partial<Record<string, Path<T>>>;
+  /** 폼에 존재하는 필드 목록 (지정 시 목록에 없는 필드 오류는 적용하지 않음) */
+  knownFields?: readonly Path<T>[];
+  /** 첫 번째 오류 필드로 포커스 이동 (기본: true) */
+  shouldFocus?: boolean;
+}
+
+export interface HandleApiErrorOptions<T extends FieldValues>
+  extends ApplyFieldErrorsOptions<T> {
+  /** react-hook-form setError (없으면 필드 오류도 토스트로 표시) */
+  setError?: UseFormSetError<T>;
+  /** 토스트 표시 여부 (기본: true) */
+  toast?: boolean;
+  /** 토스트 제목 */
+  toastTitle?: string;
+  /** 서버 메시지 대신 표시할 메시지 */
+  fallbackMessage?: string;
+}
+
+// ========================================
+// Field Errors → react-hook-form
+// ========================================
+
+/**
+ * ApiError의 필드 오류를 react-hook-form에 적용
+ *
+ * @returns 적용된 필드 오류 수
+ */
+export function applyApiFieldErrors<T extends FieldValues>(
+  error: ApiError,
+  setError: UseFormSetError<T>,
+  options: ApplyFieldErrorsOptions<T> = {}
+): number {
+  const { fieldMap, knownFields, shouldFocus = true } = options;
+  let applied = 0;
+
+  for (const fieldError of error.fieldErrors) {
+    const name = (fieldMap?.[fieldError.field] ?? fieldError.field) as Path<T>;
+    if (knownFields && !knownFields.includes(name)) continue;
+
+    setError(
+      name,
+      { type: fieldError.code ?? "server", message: fieldError.message },
+      { shouldFocus: shouldFocus && applied === 0 }
+    );
+    applied += 1;
+  }
+
+  return applied;
+}
+
+// ========================================
+// Default Error Policy
+// ========================================
+
+/**
+ * 토스트 메시지 (traceId가 있으면 함께 표시)
+ */
+export function getApiErrorMessage(error: ApiError): string {
+  return error.traceId
+    ? `${error.message} (추적 ID: ${error.traceId})`
+    : error.message;
+}
+
+/**
+ * API 에러 기본 처리
+ *
+ * 1. 에러를 ApiError로 정규화
+ * 2. setError가 있으면 필드 오류를 폼에 표시
+ * 3. 폼에 표시하지 못한 오류는 에러 토스트로 표시
+ *
+ * @returns 정규화된 ApiError (추가 분기 처리용)
+ */
+export function handleApiError<T extends FieldValues = FieldValues>(
+  error: unknown,
+  options: HandleApiErrorOptions<T> = {}
+): ApiError {
+  const apiError = normalizeApiError(error);
+  const { setError, toast = true, toastTitle, fallbackMessage } = options;
+
+  const applied = setError
+    ? applyApiFieldErrors(apiError, setError, options)
+    : 0;
+
+  if (toast && applied === 0) {
+    useToastStore
+      .getState()
+      .showToast(
+        "error",
+        fallbackMessage ?? getApiErrorMessage(apiError),
+        toastTitle ? { title: toastTitle } : undefined
+      );
+  }
+
+  return apiError;
+}
@@ -0,0 +1,186 @@
+/**
+ * SoftOne Design System(SDS) - httpClient 테스트
+ * 작성: SoftOne Frontend Team
+ * 설명: 401 토큰 갱신/요청 대기열/선제적 갱신 흐름의 단위 테스트.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { AxiosError, type InternalAxiosRequestConfig } from "axios";
+import { httpClient, AUTH_REFRESH_URL } from "./httpClient";
+import { ApiError } from "./apiError";
+import { useAuthStore } from "../store/authStore";
+
+// ========================================
+// Helpers
+// ========================================
+
+function createJwt(payload: Record<string, unknown>): string {
+  const encode = (value: object) =>
+    btoa(JSON.stringify(value))
+      .replace(/\+/g, "-")
+      .replace(/\//g, "_")
+      .replace(/=+$/, "");
+  return `${encode({ alg: "HS256", typ: "JWT" })}.${encode(payload)}.sig`;
+}
+
+function jwtExpiringIn(seconds: number): string {
+  return createJwt({ exp: Math.floor(Date.now() / 1000) + seconds });
+}
+
+type MockHandler = (config: InternalAxiosRequestConfig) => {
+  status: number;
+  data?: unknown;
+};
+
+/** httpClient 어댑터를 교체해 요청을 가로챔 */
+function mockAdapter(handler: MockHandler) {
+  const requests: InternalAxiosRequestConfig[] = [];
+
+  httpClient.defaults.adapter = async (config) => {
+    requests.push(config);
+    const { status, data } = handler(config);
+    const response = {
+      data,
+      status,
+      statusText: String(status),
+      headers: {},
+      config,
+    };
+
+    if (status >= 400) {
+      throw new AxiosError(
+        `Request failed with status code ${status}`,
+        undefined,
+        config,
+        undefined,
+        response
+      );
+    }
+    return response;
+  };
+
+  return requests;
+}
+
+const authorizationOf = (config: InternalAxiosRequestConfig) =>
+  config.headers.Authorization;
+
+function loginWith(accessToken: string, refreshToken: string | null) {
+  useAuthStore.getState().login({
+    user: { id: "1", name: "테스터", email: "test@softone.co.kr", roles: [] },
+    accessToken,
+    refreshToken,
+  });
+}
+
+// ========================================
+// Tests
+// ========================================
+
+describe("httpClient token refresh", () => {
+  const originalAdapter = httpClient.defaults.adapter;
+
+  beforeEach(() => {
+    useAuthStore.getState().logout();
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    httpClient.defaults.adapter = originalAdapter;
+    vi.restoreAllMocks();
+  });
+
+  it("동시 401 요청은 갱신을 한 번만 호출하고 새 토큰으로 재전송합니다", async () => {
+    loginWith("old-access", "refresh-1");
+
+    const requests = mockAdapter((config) => {
+      if (config.url === AUTH_REFRESH_URL) {
+        return {
+          status: 200,
+          data: { accessToken: "new-access", refreshToken: "refresh-2" },
+        };
+      }
+      return authorizationOf(config) === "Bearer new-access"
+        ? { status: 200, data: config.url }
+        : { status: 401 };
+    });
+
+    const results = await Promise.all([
+      httpClient.get("/a"),
+      httpClient.get("/b"),
+      httpClient.get("/c"),
+    ]);
+
+    expect(results.map((response) => response.data)).toEqual([
+      "/a",
+      "/b",
+      "/c",
+    ]);
+    expect(
+      requests.filter((config) => config.url === AUTH_REFRESH_URL)
+    ).toHaveLength(1);
+    expect(useAuthStore.getState().accessToken).toBe("new-access");
+    expect(useAuthStore.getState().refreshToken).toBe("refresh-2");
+  });
+
+  it("갱신에 실패하면 로그아웃하고 원래 에러로 거부합니다", async () => {
+    loginWith("old-access", "refresh-1");
+
+    const requests = mockAdapter(() => ({ status: 401 }));
+
+    await expect(httpClient.get("/a")).rejects.toMatchObject({
+      status: 401,
+      cause: expect.objectContaining({
+        config: expect.objectContaining({ url: "/a" }),
+      }),
+    });
+    expect(requests.map((config) => config.url)).toEqual([
+      "/a",
+      AUTH_REFRESH_URL,
+    ]);
+    expect(useAuthStore.getState().accessToken).toBeNull();
+    expect(useAuthStore.getState().refreshToken).toBeNull();
+  });
+
+  it("Refresh Token이 없으면 401 시 바로 로그아웃합니다", async () => {
+    loginWith("mock-token", null);
+
+    const requests = mockAdapter(() => ({ status: 401 }));
+
+    await expect(httpClient.get("/a")).rejects.toBeInstanceOf(ApiError);
+    expect(requests).toHaveLength(1);
+    expect(useAuthStore.getState().accessToken).toBeNull();
+  });
+
+  it("만료 직전 JWT는 요청 전에 선제적으로 갱신합니다", async () => {
+    const freshToken = jwtExpiringIn(3600);
+    loginWith(jwtExpiringIn(30), "refresh-1");
+
+    const requests = mockAdapter((config) =>
+      config.url === AUTH_REFRESH_URL
+        ? { status: 200, data: { accessToken: freshToken } }
+        : { status: 200, data: null }
+    );
+
+    await httpClient.get("/a");
+
+    expect(requests.map((config) => config.url)).toEqual([
+      AUTH_REFRESH_URL,
+      "/a",
+    ]);
+    expect(authorizationOf(requests[1])).toBe(`Bearer ${freshToken}`);
+    // 회전하지 않는 응답이면 기존 Refresh Token 유지
+    expect(useAuthStore.getState().refreshToken).toBe("refresh-1");
+  });
+
+  it("만료까지 여유가 있으면 갱신하지 않습니다", async () => {
+    loginWith(jwtExpiringIn(3600), "refresh-1");
+
+    const requests = mockAdapter(() => ({ status: 200, data: null }));
+
+    await httpClient.get("/a");
+
+    expect(requests.map((config) => config.url)).toEqual(["/a"]);
+  });
+});
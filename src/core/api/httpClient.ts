@@ -3,7 +3,18 @@
  * 작성: SoftOne Frontend Team
  * 설명: Axios 기반 HTTP 클라이언트.
  *      Request Interceptor에서 인증 토큰을 자동 주입하고,
- *      Response Interceptor에서 401 에러 시 로그아웃을 처리합니다.
+ *      Response Interceptor에서 401 에러 시 토큰 갱신 후 요청을 재시도합니다.
+ *
+ * 토큰 갱신 흐름:
+ *   - 401 응답 시 Refresh Token으로 /api/auth/refresh를 한 번만 호출하고,
+ *     갱신이 끝날 때까지 동시에 실패한/새로 시작된 요청은 대기열에서 기다린 뒤
+ *     새 Access Token으로 재전송합니다.
+ *   - 갱신에 실패한 경우에만 로그아웃합니다.
+ *   - JWT exp를 읽어 만료 직전에 선제적으로 갱신합니다 (startTokenRefreshScheduler).
+ *
+ * 에러 정규화:
+ *   - 모든 실패 응답은 ApiError(status, code, message, fieldErrors, traceId)로 reject 됩니다.
+ *   - 화면 표시 정책은 apiErrorHandler의 handleApiError를 사용합니다.
  *
  * 참고: 로그인 페이지로의 리다이렉트는 SPA Shell의 ProtectedRoute에서 처리합니다.
  *
@@ -21,6 +32,15 @@ import axios, {
   type AxiosRequestConfig,
 } from "axios";
 import { useAuthStore } from "../store/authStore";
+import { getTokenExpiresAt, isTokenExpiringSoon } from "../utils/jwtUtils";
+import { normalizeApiError } from "./apiError";
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    /** true면 토큰 갱신/재시도 대상에서 제외 (갱신 요청 자체 등) */
+    skipAuthRefresh?: boolean;
+  }
+}
 
 // ========================================
 // HTTP Client Configuration
@@ -60,12 +80,159 @@ export const httpClient: AxiosInstance = axios.create({
   },
 });
 
+// ========================================
+// Token Refresh
+// ========================================
+
+/** 토큰 갱신 엔드포인트 */
+export const AUTH_REFRESH_URL = "/api/auth/refresh";
+
+/** 로그아웃(Refresh Token 폐기) 엔드포인트 */
+export const AUTH_LOGOUT_URL = "/api/auth/logout";
+
+/** 만료 이 시간 전에 선제적으로 갱신 (1분) */
+const TOKEN_REFRESH_LEEWAY_MS = 60 * 1000;
+
+export interface RefreshTokenResponse {
+  accessToken: string;
+  /** 회전된 새 Refresh Token */
+  refreshToken?: string;
+  /** Access Token 수명 (초) */
+  expiresIn?: number;
+}
+
+/** 진행 중인 갱신 요청 (동시 요청은 이 Promise를 공유하며 대기) */
+let refreshPromise: Promise<string> | null = null;
+
+async function requestTokenRefresh(): Promise<string> {
+  const { refreshToken } = useAuthStore.getState();
+
+  if (!refreshToken) {
+    throw new Error("[SDS] Refresh token not found.");
+  }
+
+  const response = await httpClient.post<RefreshTokenResponse>(
+    AUTH_REFRESH_URL,
+    { refreshToken },
+    { skipAuthRefresh: true }
+  );
+
+  useAuthStore.getState().setTokens({
+    accessToken: response.data.accessToken,
+    refreshToken: response.data.refreshToken,
+  });
+
+  return response.data.accessToken;
+}
+
+/**
+ * Access Token 갱신
+ *
+ * 동시에 여러 번 호출되어도 갱신 요청은 한 번만 전송하고 결과를 공유합니다.
+ * 갱신에 실패하면 로그아웃 후 에러를 throw 합니다.
+ *
+ * @returns 새 Access Token
+ */
+export function refreshAccessToken(): Promise<string> {
+  if (!refreshPromise) {
+    refreshPromise = requestTokenRefresh()
+      .catch((error) => {
+        // 로그인 페이지로의 리다이렉트는 SPA Shell의 ProtectedRoute에서 처리
+        useAuthStore.getState().logout();
+        console.warn("[SDS] Token refresh failed - User logged out.");
+        throw error;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+}
+
+/**
+ * 세션 종료
+ *
+ * 로컬 인증 상태를 즉시 초기화하고, 서버에 Refresh Token 폐기를 요청합니다.
+ * 서버 요청 실패는 무시합니다 (로컬 로그아웃은 항상 성공).
+ */
+export async function logoutSession(): Promise<void> {
+  const { refreshToken } = useAuthStore.getState();
+
+  useAuthStore.getState().logout();
+
+  if (!refreshToken) return;
+
+  await httpClient
+    .post(AUTH_LOGOUT_URL, { refreshToken }, { skipAuthRefresh: true })
+    .catch(() => undefined);
+}
+
+/**
+ * 선제적 토큰 갱신 스케줄러 시작
+ *
+ * Access Token의 JWT exp를 읽어 만료 1분 전에 갱신합니다.
+ * 토큰이 바뀔 때마다 타이머를 다시 설정합니다.
+ *
+ * @returns 스케줄러 중지 함수
+ */
+export function startTokenRefreshScheduler(): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const schedule = (
+    accessToken: string | null,
+    refreshToken: string | null
+  ) => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+
+    const expiresAt = getTokenExpiresAt(accessToken);
+    if (!refreshToken || expiresAt === null) return;
+
+    const delay = Math.max(expiresAt - TOKEN_REFRESH_LEEWAY_MS - Date.now(), 0);
+    timer = setTimeout(() => {
+      refreshAccessToken().catch(() => undefined);
+    }, delay);
+  };
+
+  const { accessToken, refreshToken } = useAuthStore.getState();
+  schedule(accessToken, refreshToken);
+
+  const unsubscribe = useAuthStore.subscribe((state, prevState) => {
+    if (
+      state.accessToken !== prevState.accessToken ||
+      state.refreshToken !== prevState.refreshToken
+    ) {
+      schedule(state.accessToken, state.refreshToken);
+    }
+  });
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    unsubscribe();
+  };
+}
+
 // ========================================
 // Request Interceptor
 // ========================================
 
 httpClient.interceptors.request.use(
-  (config) => {
+  async (config) => {
+    if (!config.skipAuthRefresh) {
+      const { accessToken, refreshToken } = useAuthStore.getState();
+
+      // 갱신 중이면 완료될 때까지 대기 (대기열)
+      // 만료 직전 토큰이면 전송 전에 선제적으로 갱신
+      if (refreshPromise) {
+        await refreshPromise.catch(() => undefined);
+      } else if (
+        refreshToken &&
+        isTokenExpiringSoon(accessToken, TOKEN_REFRESH_LEEWAY_MS)
+      ) {
+        await refreshAccessToken().catch(() => undefined);
+      }
+    }
+
     // authStore에서 accessToken을 가져와 Authorization 헤더에 주입
     const accessToken = useAuthStore.getState().accessToken;
 
@@ -94,11 +261,35 @@ httpClient.interceptors.response.use(
       _retry?: boolean;
     };
 
-    // 401 Unauthorized - 인증 실패 처리
-    if (error.response?.status === 401 && !originalRequest._retry) {
+    // 401 Unauthorized - 토큰 갱신 후 재시도
+    if (
+      error.response?.status === 401 &&
+      originalRequest &&
+      !originalRequest._retry &&
+      !originalRequest.skipAuthRefresh
+    ) {
       originalRequest._retry = true;
 
-      // authStore의 logout 호출
+      const { accessToken, refreshToken } = useAuthStore.getState();
+      const requestToken = String(
+        originalRequest.headers?.Authorization ?? ""
+      ).replace(/^Bearer /, "");
+
+      // 요청을 보낸 뒤 다른 요청이 이미 토큰을 갱신했다면 바로 재시도
+      if (accessToken && requestToken && accessToken !== requestToken) {
+        return httpClient(originalRequest);
+      }
+
+      if (refreshToken) {
+        try {
+          await refreshAccessToken();
+          return httpClient(originalRequest);
+        } catch {
+          return Promise.reject(normalizeApiError(error));
+        }
+      }
+
+      // Refresh Token이 없으면 기존처럼 로그아웃
       // 로그인 페이지로의 리다이렉트는 SPA Shell의 ProtectedRoute에서 처리
       useAuthStore.getState().logout();
 
@@ -112,14 +303,18 @@ httpClient.interceptors.response.use(
       console.warn("[SDS] 403 Forbidden - Access denied.");
     }
 
+    const apiError = normalizeApiError(error);
+
     // 에러 로깅 (추후 Sentry 등 연동 예정)
     console.error("[SDS] HTTP Error:", {
-      status: error.response?.status,
-      message: error.message,
+      status: apiError.status,
+      code: apiError.code,
+      message: apiError.message,
+      traceId: apiError.traceId,
       url: originalRequest?.url,
     });
 
-    return Promise.reject(error);
+    return Promise.reject(apiError);
   }
 );
 
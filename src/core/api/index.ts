@@ -10,9 +10,65 @@ export {
   put,
   patch,
   del,
+  refreshAccessToken,
+  logoutSession,
+  startTokenRefreshScheduler,
+  AUTH_REFRESH_URL,
+  AUTH_LOGOUT_URL,
   type ApiResponse,
+  type RefreshTokenResponse,
 } from "./httpClient";
 
+export {
+  ApiError,
+  isApiError,
+  normalizeApiError,
+  type ApiErrorInit,
+  type ApiFieldError,
+} from "./apiError";
+
+export {
+  handleApiError,
+  applyApiFieldErrors,
+  getApiErrorMessage,
+  type ApplyFieldErrorsOptions,
+  type HandleApiErrorOptions,
+} from "./apiErrorHandler";
+
+export {
+  fetchPermissionMatrix,
+  savePermissionMatrix,
+  fetchPermissionMatrixVersions,
+  applyPermissionMatrix,
+  normalizePermissionMatrix,
+  PERMISSION_MATRIX_URL,
+  type PermissionMatrixResponse,
+  type PermissionMatrixVersion,
+  type SavePermissionMatrixInput,
+} from "./permissionMatrixApi";
+
+export {
+  fetchMenus,
+  createMenu,
+  updateMenu,
+  deleteMenu,
+  reorderMenus,
+  importMenus,
+  toMenuItem,
+  MENUS_URL,
+  type MenuResponse,
+  type MenuListResponse,
+  type MenuOrderChange,
+  type MenuImportRequest,
+} from "./menuApi";
+
+export {
+  fetchMenuPreferences,
+  saveMenuPreferences,
+  MENU_PREFERENCES_URL,
+  type MenuPreferences,
+} from "./menuPreferenceApi";
+
 export {
   queryClient,
   createQueryKeys,
@@ -20,4 +76,3 @@ export {
   invalidateQueryKey,
   refetchAllQueries,
 } from "./queryClient";
-
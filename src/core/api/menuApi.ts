@@ -0,0 +1,205 @@
+/**
+ * SoftOne Design System(SDS) - Menu API
+ * 작성: SoftOne Frontend Team
+ *
+ * 사이드바 동적 메뉴를 서버에 조회/저장합니다.
+ * Backend Mock 서버(/api/menus)와 httpClient로 통신합니다.
+ *   - 서버는 메뉴를 평면 목록(parentId)으로 주고받으며, 트리 구성은 menuStore가 담당합니다.
+ *   - 메뉴마다 version이 있으며, 수정/삭제/순서 변경 시 version이 다르면 409(VERSION_CONFLICT)
+ *   - routeKey가 있는 메뉴의 경로는 라우트 레지스트리에서 조회합니다.
+ *   - 가져오기(importMenus)는 전체 메뉴/그룹을 서버에서 한 번에 교체합니다.
+ */
+
+import { del, get, post, put } from "./httpClient";
+import { getPathByRouteKey } from "../router/routeRegistry";
+import type { MenuFormData, MenuGroup, MenuItem } from "../store/menuStore";
+
+// ========================================
+// Types
+// ========================================
+
+export const MENUS_URL = "/api/menus";
+
+/** 서버 메뉴 레코드 */
+export interface MenuResponse {
+  id: string;
+  parentId: string | null;
+  label: string;
+  routeKey: string | null;
+  path: string | null;
+  icon: string | null;
+  roles: string[];
+  order: number;
+  group: string | null;
+  hideInMenu: boolean;
+  badge: string | null;
+  badgeColor: MenuItem["badgeColor"] | null;
+  isActive: boolean;
+  version: number;
+  updatedAt: string | null;
+  updatedBy: string | null;
+}
+
+export interface MenuListResponse {
+  menus: MenuResponse[];
+  groups: MenuGroup[];
+}
+
+/** 순서/부모 변경 항목 */
+export interface MenuOrderChange {
+  id: string;
+  parentId: string | null;
+  order: number;
+  /** 메뉴 그룹 (생략하면 기존 그룹 유지) */
+  group?: string;
+}
+
+/** 메뉴 가져오기 요청 */
+export interface MenuImportRequest {
+  groups: MenuGroup[];
+  /** 가져올 전체 메뉴 (평면 목록, id/parentId 확정) */
+  menus: MenuItem[];
+  /** 비교 시점의 메뉴별 version (그 사이 변경되면 409) */
+  baseVersions: Record<string, number>;
+}
+
+// ========================================
+// Normalization
+// ========================================
+
+/**
+ * 서버 레코드를 MenuItem으로 변환 (하위 메뉴 없이)
+ */
+export function toMenuItem(response: MenuResponse): MenuItem {
+  const routePath = response.routeKey
+    ? getPathByRouteKey(response.routeKey)
+    : null;
+
+  return {
+    id: response.id,
+    parentId: response.parentId,
+    label: response.label,
+    routeKey: response.routeKey ?? undefined,
+    path: routePath ?? response.path ?? "",
+    icon: response.icon ?? undefined,
+    roles: response.roles,
+    order: response.order,
+    group: response.group ?? undefined,
+    hideInMenu: response.hideInMenu,
+    badge: response.badge ?? undefined,
+    badgeColor: response.badgeColor ?? undefined,
+    isActive: response.isActive,
+    version: response.version,
+  };
+}
+
+/**
+ * 폼 데이터를 서버 요청 본문으로 변환
+ * routeKey가 있으면 경로는 저장하지 않습니다. (레지스트리 경로 사용)
+ */
+function toMenuInput(data: MenuFormData) {
+  return {
+    parentId: data.parentId,
+    label: data.label,
+    routeKey: data.routeKey || null,
+    path: data.routeKey ? null : data.path || null,
+    icon: data.icon || null,
+    roles: data.roles,
+    order: data.order,
+    group: data.group || null,
+    hideInMenu: data.hideInMenu ?? false,
+    badge: data.badge || null,
+    badgeColor: data.badgeColor || null,
+    isActive: data.isActive,
+  };
+}
+
+// ========================================
+// API Functions
+// ========================================
+
+/**
+ * 전체 메뉴(평면 목록)와 메뉴 그룹 조회
+ */
+export async function fetchMenus(): Promise<{
+  menus: MenuItem[];
+  groups: MenuGroup[];
+}> {
+  const response = await get<MenuListResponse>(MENUS_URL);
+  return { menus: response.menus.map(toMenuItem), groups: response.groups };
+}
+
+/**
+ * 메뉴 생성
+ */
+export async function createMenu(data: MenuFormData): Promise<MenuItem> {
+  const response = await post<MenuResponse>(MENUS_URL, toMenuInput(data));
+  return toMenuItem(response);
+}
+
+/**
+ * 메뉴 수정
+ *
+ * @throws ApiError 409(VERSION_CONFLICT) - 다른 관리자가 먼저 변경한 경우
+ */
+export async function updateMenu(
+  id: string,
+  data: MenuFormData,
+  version: number
+): Promise<MenuItem> {
+  const response = await put<MenuResponse>(`${MENUS_URL}/${id}`, {
+    ...toMenuInput(data),
+    version,
+  });
+  return toMenuItem(response);
+}
+
+/**
+ * 메뉴 삭제 (하위 메뉴 포함)
+ *
+ * @returns 삭제된 메뉴 id 목록
+ * @throws ApiError 409(VERSION_CONFLICT) - 다른 관리자가 먼저 변경한 경우
+ */
+export async function deleteMenu(
+  id: string,
+  version: number
+): Promise<string[]> {
+  const response = await del<{ deletedIds: string[] }>(`${MENUS_URL}/${id}`, {
+    params: { version },
+  });
+  return response.deletedIds;
+}
+
+/**
+ * 전체 메뉴/그룹 교체 (메뉴 가져오기)
+ *
+ * @throws ApiError 409(VERSION_CONFLICT) - 비교 이후 다른 관리자가 메뉴를 변경한 경우
+ */
+export async function importMenus(request: MenuImportRequest): Promise<{
+  menus: MenuItem[];
+  groups: MenuGroup[];
+}> {
+  const response = await put<MenuListResponse>(`${MENUS_URL}/import`, {
+    groups: request.groups,
+    menus: request.menus.map((menu) => ({
+      id: menu.id,
+      ...toMenuInput(menu),
+    })),
+    baseVersions: request.baseVersions,
+  });
+  return { menus: response.menus.map(toMenuItem), groups: response.groups };
+}
+
+/**
+ * 메뉴 순서/부모 일괄 변경 (서버에서 하나의 트랜잭션으로 처리)
+ *
+ * @throws ApiError 409(VERSION_CONFLICT) - 다른 관리자가 먼저 변경한 경우
+ */
+export async function reorderMenus(
+  items: (MenuOrderChange & { version: number })[]
+): Promise<MenuItem[]> {
+  const response = await put<MenuResponse[]>(`${MENUS_URL}/reorder`, {
+    items,
+  });
+  return response.map(toMenuItem);
+}
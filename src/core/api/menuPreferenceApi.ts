@@ -0,0 +1,46 @@
+/**
+ * SoftOne Design System(SDS) - Menu Preference API
+ * 작성: SoftOne Frontend Team
+ *
+ * 사이드바 즐겨찾기/최근 방문 화면을 서버에 조회/저장합니다.
+ * Backend Mock 서버(/api/menu-preferences)와 httpClient로 통신합니다.
+ *   - 로그인한 사용자(Access Token) 기준으로 한 건씩 저장됩니다.
+ *   - 로컬스토리지가 우선이며, menuPreferenceStore가 updatedAt을 비교해 동기화합니다.
+ */
+
+import { get, put } from "./httpClient";
+
+// ========================================
+// Types
+// ========================================
+
+export const MENU_PREFERENCES_URL = "/api/menu-preferences";
+
+export interface MenuPreferences {
+  /** 즐겨찾기 routeKey (표시 순서) */
+  favoriteRouteKeys: string[];
+  /** 최근 방문 routeKey (최신순) */
+  recentRouteKeys: string[];
+  /** 마지막 변경 시각 (ISO, 저장된 적 없으면 null) */
+  updatedAt: string | null;
+}
+
+// ========================================
+// API Functions
+// ========================================
+
+/**
+ * 현재 사용자의 즐겨찾기/최근 방문 조회 (저장된 적 없으면 빈 목록, updatedAt null)
+ */
+export async function fetchMenuPreferences(): Promise<MenuPreferences> {
+  return get<MenuPreferences>(MENU_PREFERENCES_URL);
+}
+
+/**
+ * 현재 사용자의 즐겨찾기/최근 방문 저장 (전체 교체)
+ */
+export async function saveMenuPreferences(
+  preferences: MenuPreferences
+): Promise<MenuPreferences> {
+  return put<MenuPreferences>(MENU_PREFERENCES_URL, preferences);
+}
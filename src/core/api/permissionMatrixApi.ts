@@ -0,0 +1,184 @@
+/**
+ * SoftOne Design System(SDS) - Permission Matrix API
+ * 작성: SoftOne Frontend Team
+ *
+ * 서버에 저장된 Role/Grade 권한 매트릭스를 조회/저장합니다.
+ * Backend Mock 서버(/api/permission-matrix)와 httpClient로 통신합니다.
+ *   - 저장할 때마다 version이 증가하며, 저장 시 baseVersion이 다르면 409(VERSION_CONFLICT)
+ *   - 서버에 저장된 매트릭스가 없으면 DEFAULT_PERMISSION_MATRIX(version 0)를 사용
+ *   - 역할 레지스트리(roles)도 매트릭스에 포함되어 함께 버전 관리됩니다.
+ *   - applyPermissionMatrix()로 적용하면 authStore가 즉시 권한을 재계산합니다.
+ */
+
+import { get, put } from "./httpClient";
+import {
+  DEFAULT_PERMISSION_MATRIX,
+  DEFAULT_ROLE_DEFINITIONS,
+  GRADES,
+  isValidPermissionKey,
+  type Grade,
+  type PermissionKey,
+  type PermissionMatrix,
+  type Role,
+  type RoleDefinition,
+} from "../auth/role.types";
+import { usePermissionMatrixStore } from "../store/permissionMatrixStore";
+
+// ========================================
+// Types
+// ========================================
+
+export const PERMISSION_MATRIX_URL = "/api/permission-matrix";
+
+/** 서버 응답 (저장된 매트릭스가 없으면 roles/rolePermissions/gradePermissionBoost가 null) */
+export interface PermissionMatrixResponse {
+  version: number;
+  roles: RoleDefinition[] | null;
+  rolePermissions: Partial<Record<string, string[]>> | null;
+  gradePermissionBoost: Partial<Record<string, string[]>> | null;
+  updatedAt: string | null;
+  updatedBy: string | null;
+}
+
+export interface SavePermissionMatrixInput {
+  /** 편집을 시작한 시점의 버전 (낙관적 잠금) */
+  baseVersion: number;
+  roles: RoleDefinition[];
+  rolePermissions: Record<Role, PermissionKey[]>;
+  gradePermissionBoost: Record<Grade, PermissionKey[]>;
+}
+
+/** 버전 이력 항목 */
+export interface PermissionMatrixVersion {
+  version: number;
+  updatedAt: string;
+  updatedBy: string | null;
+}
+
+// ========================================
+// Normalization
+// ========================================
+
+/**
+ * 키 목록별 권한 배열 정규화
+ * 알 수 없는 권한 키는 제거하고, 누락된 키는 기본값(없으면 빈 배열)을 사용합니다.
+ */
+function normalizePermissionRecord<K extends string>(
+  keys: readonly K[],
+  source: Partial<Record<string, string[]>> | null,
+  fallback: Partial<Record<K, PermissionKey[]>>
+): Record<K, PermissionKey[]> {
+  return keys.reduce((acc, key) => {
+    const permissions = source?.[key];
+    acc[key] = Array.isArray(permissions)
+      ? permissions.filter(isValidPermissionKey)
+      : fallback[key] ?? [];
+    return acc;
+  }, {} as Record<K, PermissionKey[]>);
+}
+
+/**
+ * 역할 레지스트리 정규화
+ * 기본 역할은 항상 포함하며(표시 이름/설명/상위 역할은 서버 값 사용),
+ * 사용자 정의 역할은 key/label이 있는 항목만 추가합니다.
+ */
+function normalizeRoles(source: RoleDefinition[] | null): RoleDefinition[] {
+  const serverRoles = new Map(
+    (Array.isArray(source) ? source : [])
+      .filter((def) => def && typeof def.key === "string" && def.label)
+      .map((def) => [def.key, def])
+  );
+
+  const builtInRoles = DEFAULT_ROLE_DEFINITIONS.map((def) => ({
+    ...def,
+    ...serverRoles.get(def.key),
+    builtIn: true,
+  }));
+  const customRoles = [...serverRoles.values()]
+    .filter((def) => !DEFAULT_ROLE_DEFINITIONS.some((d) => d.key === def.key))
+    .map((def) => ({ ...def, builtIn: false }));
+
+  return [...builtInRoles, ...customRoles];
+}
+
+/**
+ * 서버 응답을 PermissionMatrix로 변환
+ */
+export function normalizePermissionMatrix(
+  response: PermissionMatrixResponse
+): PermissionMatrix {
+  const roles = normalizeRoles(response.roles);
+
+  return {
+    version: response.version,
+    roles,
+    rolePermissions: normalizePermissionRecord(
+      roles.map((def) => def.key),
+      response.rolePermissions,
+      DEFAULT_PERMISSION_MATRIX.rolePermissions
+    ),
+    gradePermissionBoost: normalizePermissionRecord(
+      GRADES,
+      response.gradePermissionBoost,
+      DEFAULT_PERMISSION_MATRIX.gradePermissionBoost
+    ),
+    updatedAt: response.updatedAt,
+    updatedBy: response.updatedBy,
+  };
+}
+
+// ========================================
+// API Functions
+// ========================================
+
+/**
+ * 현재 권한 매트릭스 조회
+ */
+export async function fetchPermissionMatrix(): Promise<PermissionMatrix> {
+  const response = await get<PermissionMatrixResponse>(PERMISSION_MATRIX_URL);
+  return normalizePermissionMatrix(response);
+}
+
+/**
+ * 권한 매트릭스 저장 (새 버전 생성)
+ *
+ * @throws ApiError 409(VERSION_CONFLICT) - 다른 관리자가 먼저 저장한 경우
+ * @throws ApiError 403(FORBIDDEN) - 권한 변경 권한이 없는 경우
+ */
+export async function savePermissionMatrix(
+  input: SavePermissionMatrixInput
+): Promise<PermissionMatrix> {
+  const response = await put<PermissionMatrixResponse>(
+    PERMISSION_MATRIX_URL,
+    input
+  );
+  return normalizePermissionMatrix(response);
+}
+
+/**
+ * 권한 매트릭스 버전 이력 조회 (최신순)
+ */
+export async function fetchPermissionMatrixVersions(): Promise<
+  PermissionMatrixVersion[]
+> {
+  return get<PermissionMatrixVersion[]>(`${PERMISSION_MATRIX_URL}/versions`);
+}
+
+/**
+ * 권한 매트릭스를 현재 세션에 적용
+ * 버전이 같으면 무시하며, 변경 시 authStore가 recomputeAccessContext()로 재계산합니다.
+ *
+ * @returns 적용 여부
+ */
+export function applyPermissionMatrix(matrix: PermissionMatrix): boolean {
+  const { matrix: current, setMatrix } = usePermissionMatrixStore.getState();
+  if (
+    current.version === matrix.version &&
+    current.updatedAt === matrix.updatedAt
+  ) {
+    return false;
+  }
+
+  setMatrix(matrix);
+  return true;
+}
@@ -5,6 +5,10 @@
 
 import { QueryClient } from "@tanstack/react-query";
 
+// Query/Mutation 에러 타입은 기본값(Error)을 유지합니다.
+// mock fetcher 등 httpClient를 거치지 않는 queryFn은 일반 Error로 reject 하므로,
+// status/fieldErrors가 필요한 곳에서는 normalizeApiError() / handleApiError()로 좁혀 사용합니다.
+
 // ========================================
 // Query Client Configuration
 // ========================================
@@ -98,8 +98,75 @@ const MOCK_USER_POLICIES: Record<string, UserMenuPolicy> = {
     description: "만료된 정책 테스트",
     createdAt: "2023-01-01T00:00:00Z",
   },
+
+  // 시간대 정책 - 평일 업무 시간에만 운영 대시보드 허용
+  "user-business-hours": {
+    userId: "user-business-hours",
+    allowedPermissions: [
+      PERMISSION_KEYS.MENU_DASHBOARD_OPS_VIEW,
+      PERMISSION_KEYS.PAGE_DASHBOARD_OPS_VIEW,
+    ].map((key) => ({
+      key,
+      daysOfWeek: [1, 2, 3, 4, 5],
+      timeFrom: "09:00",
+      timeUntil: "18:00",
+    })),
+    deniedPermissions: [],
+    allowedRouteKeys: undefined,
+    deniedRouteKeys: [],
+    defaultLandingRouteKey: "dashboard.main",
+    isActive: true,
+    description: "시간대 정책 - 평일 09:00~18:00에만 운영 대시보드 접근 허용",
+    createdAt: "2024-03-01T00:00:00Z",
+  },
 };
 
+/**
+ * 정책 설정 대상 Mock 사용자 목록
+ */
+const MOCK_POLICY_USERS: PolicyUser[] = [
+  { id: "user-1", name: "홍길동", email: "hong@example.com" },
+  { id: "user-vip", name: "김VIP", email: "vip@example.com" },
+  { id: "user-restricted", name: "박제한", email: "restricted@example.com" },
+  { id: "user-whitelist", name: "이화이트", email: "whitelist@example.com" },
+  { id: "user-expired", name: "최만료", email: "expired@example.com" },
+  { id: "user-new-1", name: "신규사용자1", email: "new1@example.com" },
+  { id: "user-new-2", name: "신규사용자2", email: "new2@example.com" },
+];
+
+/**
+ * Mock 조직도 (부서별 하위 부서/소속 사용자 ID)
+ * 루트 부서는 parentId가 null
+ */
+const MOCK_POLICY_DEPARTMENTS: Array<{
+  id: string;
+  name: string;
+  parentId: string | null;
+  userIds: string[];
+}> = [
+  { id: "dept-hq", name: "경영지원본부", parentId: null, userIds: [] },
+  { id: "dept-hr", name: "인사팀", parentId: "dept-hq", userIds: ["user-1"] },
+  {
+    id: "dept-finance",
+    name: "재무팀",
+    parentId: "dept-hq",
+    userIds: ["user-expired", "user-new-1"],
+  },
+  { id: "dept-it", name: "IT본부", parentId: null, userIds: [] },
+  {
+    id: "dept-dev",
+    name: "개발팀",
+    parentId: "dept-it",
+    userIds: ["user-vip", "user-whitelist"],
+  },
+  {
+    id: "dept-security",
+    name: "보안팀",
+    parentId: "dept-it",
+    userIds: ["user-restricted", "user-new-2"],
+  },
+];
+
 // ========================================
 // API Configuration
 // ========================================
@@ -283,24 +350,7 @@ export async function searchUsersForPolicy(
   if (USE_MOCK_API) {
     await delay(MOCK_DELAY);
 
-    // Mock 사용자 목록
-    const mockUsers = [
-      { id: "user-1", name: "홍길동", email: "hong@example.com" },
-      { id: "user-vip", name: "김VIP", email: "vip@example.com" },
-      {
-        id: "user-restricted",
-        name: "박제한",
-        email: "restricted@example.com",
-      },
-      {
-        id: "user-whitelist",
-        name: "이화이트",
-        email: "whitelist@example.com",
-      },
-      { id: "user-expired", name: "최만료", email: "expired@example.com" },
-      { id: "user-new-1", name: "신규사용자1", email: "new1@example.com" },
-      { id: "user-new-2", name: "신규사용자2", email: "new2@example.com" },
-    ];
+    const mockUsers = MOCK_POLICY_USERS;
 
     if (!query) return mockUsers;
 
@@ -328,10 +378,91 @@ export async function searchUsersForPolicy(
   }
 }
 
+// ========================================
+// Organization API Functions (사용자 선택 트리)
+// ========================================
+
+/**
+ * 부서의 하위 부서와 소속 사용자를 조회합니다. (조직도 트리 지연 로드용)
+ *
+ * @param departmentId 부서 ID (null이면 최상위 부서)
+ * @returns 하위 부서(하위 항목 수 포함)와 소속 사용자
+ *
+ * @example
+ * ```ts
+ * const root = await fetchPolicyDepartmentChildren(null);
+ * const dev = await fetchPolicyDepartmentChildren("dept-dev");
+ * ```
+ */
+export async function fetchPolicyDepartmentChildren(
+  departmentId: string | null
+): Promise<PolicyDepartmentChildren> {
+  if (USE_MOCK_API) {
+    await delay(MOCK_DELAY);
+
+    const departments = MOCK_POLICY_DEPARTMENTS.filter(
+      (department) => department.parentId === departmentId
+    ).map((department) => ({
+      id: department.id,
+      name: department.name,
+      childCount:
+        department.userIds.length +
+        MOCK_POLICY_DEPARTMENTS.filter(
+          (child) => child.parentId === department.id
+        ).length,
+    }));
+    const userIds =
+      MOCK_POLICY_DEPARTMENTS.find(
+        (department) => department.id === departmentId
+      )?.userIds ?? [];
+
+    return {
+      departments,
+      users: MOCK_POLICY_USERS.filter((user) => userIds.includes(user.id)),
+    };
+  }
+
+  // 실제 API 호출 (실패는 호출한 곳에서 처리 - 트리에서 다시 시도)
+  const response = await httpClient.get<{
+    success: boolean;
+    data: PolicyDepartmentChildren;
+  }>("/auth/departments/children", {
+    params: departmentId ? { parentId: departmentId } : undefined,
+  });
+  return response.data.data;
+}
+
 // ========================================
 // Export Types
 // ========================================
 
+/**
+ * 정책 설정 대상 사용자 (간략 정보)
+ */
+export interface PolicyUser {
+  id: string;
+  name: string;
+  email: string;
+}
+
+/**
+ * 조직도 부서
+ */
+export interface PolicyDepartment {
+  id: string;
+  name: string;
+  /** 하위 부서 + 소속 사용자 수 */
+  childCount: number;
+}
+
+/**
+ * 부서의 하위 항목
+ */
+export interface PolicyDepartmentChildren {
+  departments: PolicyDepartment[];
+  users: PolicyUser[];
+}
+
 export type {
   UserMenuPolicy,
   UserMenuPolicyInput,
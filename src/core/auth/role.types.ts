@@ -7,15 +7,21 @@
  * 프론트/백엔드가 공유하는 계약으로 확장 가능합니다.
  *
  * 권한 체계:
- *   - Role (역할): 사용자의 시스템 내 역할
+ *   - Role (역할): 사용자의 시스템 내 역할 (기본 역할 + 런타임에 추가한 역할)
  *   - Grade (직급): 조직 내 직급/직책
  *   - PermissionKey: 메뉴/페이지/액션 레벨 권한 키
+ *
+ * Permission Matrix:
+ *   - ROLE_PERMISSION_MAP / GRADE_PERMISSION_BOOST는 기본값(version 0)입니다.
+ *   - 운영 중에는 서버에 저장된 PermissionMatrix(버전 관리)를 불러와
+ *     permissionMatrixStore에 적용하며, authStore가 이를 기준으로 권한을 재계산합니다.
  */
 
 // ========================================
 // Role (역할) 정의
 // ========================================
 
+/** 기본 제공 역할 (삭제 불가) */
 export const ROLES = [
   "SYSTEM_ADMIN", // 시스템 관리자 (전체 권한)
   "ORG_ADMIN", // 조직 관리자
@@ -24,7 +30,65 @@ export const ROLES = [
   "GUEST", // 게스트
 ] as const;
 
-export type Role = (typeof ROLES)[number];
+export type BuiltInRole = (typeof ROLES)[number];
+
+/**
+ * 역할 키
+ * 기본 역할은 타입으로 자동완성되며, 권한 매트릭스에 등록된 사용자 정의 역할도 허용합니다.
+ */
+export type Role = BuiltInRole | (string & {});
+
+/**
+ * 역할 정의 (역할 레지스트리 항목)
+ */
+export interface RoleDefinition {
+  /** 역할 키 (예: "SYSTEM_ADMIN", "SALES_LEAD") */
+  key: Role;
+  /** 표시 이름 */
+  label: string;
+  /** 설명 */
+  description?: string;
+  /** 상속받을 상위 역할 (상위 역할의 권한을 모두 포함) */
+  parentRole?: Role | null;
+  /** 기본 제공 역할 여부 (삭제 불가) */
+  builtIn?: boolean;
+}
+
+/**
+ * 기본 역할 정의
+ */
+export const DEFAULT_ROLE_DEFINITIONS: RoleDefinition[] = [
+  {
+    key: "SYSTEM_ADMIN",
+    label: "시스템 관리자",
+    description: "전체 권한",
+    builtIn: true,
+  },
+  {
+    key: "ORG_ADMIN",
+    label: "조직 관리자",
+    description: "조직/사용자/권한 관리",
+    builtIn: true,
+  },
+  {
+    key: "MANAGER",
+    label: "매니저",
+    description: "업무 데이터 관리",
+    builtIn: true,
+  },
+  {
+    key: "STAFF",
+    label: "일반 직원",
+    description: "기본 업무 메뉴",
+    builtIn: true,
+  },
+  {
+    key: "GUEST",
+    label: "게스트",
+    description: "최소 권한",
+    builtIn: true,
+  },
+];
 
 // ========================================
 // Grade (직급/직책) 정의
@@ -164,7 +228,7 @@ export type PermissionKey =
 // Role별 Permission 매핑
 // ========================================
 
-export const ROLE_PERMISSION_MAP: Record<Role, PermissionKey[]> = {
+export const ROLE_PERMISSION_MAP: Record<BuiltInRole, PermissionKey[]> = {
   // 시스템 관리자: 전체 권한
   SYSTEM_ADMIN: Object.values(PERMISSION_KEYS),
 
@@ -308,21 +372,127 @@ export const GRADE_PERMISSION_BOOST: Record<Grade, PermissionKey[]> = {
   INTERN: [],
 };
 
+// ========================================
+// Permission Matrix (서버 저장/버전 관리)
+// ========================================
+
+/**
+ * Role/Grade 권한 매트릭스
+ *
+ * 서버에 저장될 때마다 version이 1씩 증가합니다.
+ * version 0은 코드에 정의된 기본 매트릭스를 의미합니다.
+ */
+export interface PermissionMatrix {
+  /** 매트릭스 버전 (낙관적 잠금용) */
+  version: number;
+  /** 역할 레지스트리 (기본 역할 + 사용자 정의 역할) */
+  roles: RoleDefinition[];
+  /** Role별 직접 부여된 권한 (상속 권한 제외) */
+  rolePermissions: Record<Role, PermissionKey[]>;
+  /** Grade별 추가 권한 (직급 보정) */
+  gradePermissionBoost: Record<Grade, PermissionKey[]>;
+  /** 마지막 수정 시각 */
+  updatedAt?: string | null;
+  /** 마지막 수정자 */
+  updatedBy?: string | null;
+}
+
+/**
+ * 기본 권한 매트릭스 (서버에 저장된 매트릭스가 없을 때 사용)
+ */
+export const DEFAULT_PERMISSION_MATRIX: PermissionMatrix = {
+  version: 0,
+  roles: DEFAULT_ROLE_DEFINITIONS,
+  rolePermissions: ROLE_PERMISSION_MAP,
+  gradePermissionBoost: GRADE_PERMISSION_BOOST,
+  updatedAt: null,
+  updatedBy: null,
+};
+
 // ========================================
 // 헬퍼 함수
 // ========================================
 
+/**
+ * 역할 상속 순환 에러
+ */
+export class RoleInheritanceCycleError extends Error {
+  readonly cycle: Role[];
+
+  constructor(cycle: Role[]) {
+    super(`역할 상속이 순환합니다: ${cycle.join(" → ")}`);
+    this.cycle = cycle;
+    this.name = "RoleInheritanceCycleError";
+  }
+}
+
+/**
+ * 역할의 상속 체인을 반환합니다. (자기 자신 → 부모 → 조부모 ...)
+ *
+ * @throws RoleInheritanceCycleError 상속이 순환하는 경우
+ */
+export function resolveRoleChain(role: Role, roles: RoleDefinition[]): Role[] {
+  const parentOf = new Map(roles.map((def) => [def.key, def.parentRole]));
+  const chain: Role[] = [];
+  let current: Role | null | undefined = role;
+
+  while (current) {
+    if (chain.includes(current)) {
+      throw new RoleInheritanceCycleError([...chain, current]);
+    }
+    chain.push(current);
+    current = parentOf.get(current);
+  }
+
+  return chain;
+}
+
+/**
+ * 역할 레지스트리에서 순환 상속을 찾습니다.
+ *
+ * @returns 순환 경로 (없으면 null)
+ */
+export function findRoleInheritanceCycle(
+  roles: RoleDefinition[]
+): Role[] | null {
+  for (const def of roles) {
+    try {
+      resolveRoleChain(def.key, roles);
+    } catch (error) {
+      if (error instanceof RoleInheritanceCycleError) return error.cycle;
+      throw error;
+    }
+  }
+  return null;
+}
+
 /**
  * Role과 Grade를 기반으로 최종 Permission 배열을 계산합니다.
+ * 상위 역할(parentRole)의 권한을 상속 체인을 따라 모두 포함합니다.
+ * 순환 상속이 있으면 순환 직전까지의 체인만 사용합니다.
+ *
+ * @param matrix 적용할 권한 매트릭스 (기본: DEFAULT_PERMISSION_MATRIX)
  */
 export function computePermissions(
   role: Role | null,
-  grade: Grade | null
+  grade: Grade | null,
+  matrix: PermissionMatrix = DEFAULT_PERMISSION_MATRIX
 ): PermissionKey[] {
   if (!role) return [];
 
-  const rolePermissions = ROLE_PERMISSION_MAP[role] || [];
-  const gradeBoost = grade ? GRADE_PERMISSION_BOOST[grade] || [] : [];
+  let chain: Role[];
+  try {
+    chain = resolveRoleChain(role, matrix.roles);
+  } catch (error) {
+    if (!(error instanceof RoleInheritanceCycleError)) throw error;
+    console.warn(`[SDS] ${error.message}`);
+    chain = error.cycle.slice(0, -1);
+  }
+
+  const rolePermissions = chain.flatMap(
+    (key) => matrix.rolePermissions[key] || []
+  );
+  const gradeBoost = grade ? matrix.gradePermissionBoost[grade] || [] : [];
 
   // 중복 제거하여 합침
   return [...new Set([...rolePermissions, ...gradeBoost])];
@@ -0,0 +1,109 @@
+/**
+ * SoftOne Design System - Role Registry Tests
+ * 사용자 정의 역할 생성/복제/삭제 및 상속 권한 계산 테스트
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  cloneRole,
+  createRole,
+  deleteRole,
+  RoleRegistryError,
+  updateRole,
+} from "./roleRegistry";
+import {
+  computePermissions,
+  DEFAULT_PERMISSION_MATRIX,
+  findRoleInheritanceCycle,
+  PERMISSION_KEYS,
+} from "./role.types";
+
+const withSalesLead = () =>
+  createRole(
+    DEFAULT_PERMISSION_MATRIX,
+    { key: "SALES_LEAD", label: "영업 리더", parentRole: "STAFF" },
+    [PERMISSION_KEYS.MENU_PRODUCTS_VIEW]
+  );
+
+describe("roleRegistry", () => {
+  it("사용자 정의 역할은 상위 역할의 권한을 상속함", () => {
+    const matrix = withSalesLead();
+    const permissions = computePermissions("SALES_LEAD", null, matrix);
+
+    expect(permissions).toContain(PERMISSION_KEYS.MENU_PRODUCTS_VIEW);
+    expect(permissions).toEqual(
+      expect.arrayContaining(DEFAULT_PERMISSION_MATRIX.rolePermissions.STAFF)
+    );
+  });
+
+  it("잘못된 키나 중복 키로는 역할을 만들 수 없음", () => {
+    const matrix = withSalesLead();
+
+    expect(() => createRole(matrix, { key: "sales", label: "소문자" })).toThrow(
+      RoleRegistryError
+    );
+    expect(() =>
+      createRole(matrix, { key: "SALES_LEAD", label: "중복" })
+    ).toThrow(RoleRegistryError);
+  });
+
+  it("복제한 역할은 직접 부여된 권한과 상위 역할을 복사함", () => {
+    const matrix = cloneRole(withSalesLead(), "SALES_LEAD", {
+      key: "SALES_LEAD_2",
+      label: "영업 리더 2",
+    });
+    const clone = matrix.roles.find((def) => def.key === "SALES_LEAD_2");
+
+    expect(clone?.parentRole).toBe("STAFF");
+    expect(matrix.rolePermissions.SALES_LEAD_2).toEqual([
+      PERMISSION_KEYS.MENU_PRODUCTS_VIEW,
+    ]);
+  });
+
+  it("순환 상속이 생기는 상위 역할 변경은 거부함", () => {
+    const matrix = withSalesLead();
+
+    expect(() =>
+      updateRole(matrix, "STAFF", { parentRole: "SALES_LEAD" })
+    ).toThrow(/순환/);
+  });
+
+  it("역할 삭제 시 하위 역할은 삭제한 역할의 상위 역할을 상속함", () => {
+    const base = createRole(withSalesLead(), {
+      key: "SALES_INTERN",
+      label: "영업 인턴",
+      parentRole: "SALES_LEAD",
+    });
+    const matrix = deleteRole(base, "SALES_LEAD");
+
+    expect(
+      matrix.roles.find((def) => def.key === "SALES_LEAD")
+    ).toBeUndefined();
+    expect(
+      matrix.roles.find((def) => def.key === "SALES_INTERN")?.parentRole
+    ).toBe("STAFF");
+    expect(matrix.rolePermissions.SALES_LEAD).toBeUndefined();
+    expect(() => deleteRole(matrix, "STAFF")).toThrow(RoleRegistryError);
+  });
+
+  it("저장된 매트릭스에 순환 상속이 있으면 순환 직전까지만 계산함", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const matrix = {
+      ...withSalesLead(),
+      roles: withSalesLead().roles.map((def) =>
+        def.key === "STAFF" ? { ...def, parentRole: "SALES_LEAD" } : def
+      ),
+    };
+
+    expect(findRoleInheritanceCycle(matrix.roles)).toEqual([
+      "STAFF",
+      "SALES_LEAD",
+      "STAFF",
+    ]);
+    expect(computePermissions("SALES_LEAD", null, matrix)).toContain(
+      PERMISSION_KEYS.MENU_PRODUCTS_VIEW
+    );
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
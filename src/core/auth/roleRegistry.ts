@@ -0,0 +1,222 @@
+/**
+ * SoftOne Design System(SDS) - Role Registry
+ * 작성: SoftOne Frontend Team
+ *
+ * 권한 매트릭스의 역할 레지스트리를 변경하는 순수 함수 모음입니다.
+ *   - 역할 생성/복제/삭제 시 역할 정의(roles)와 역할별 권한(rolePermissions)을 함께 갱신합니다.
+ *   - 기본 역할(builtIn)은 삭제할 수 없습니다.
+ *   - 상위 역할 지정 시 순환 상속을 허용하지 않습니다.
+ *
+ * @example
+ * const next = createRole(draft, {
+ *   key: "SALES_LEAD",
+ *   label: "영업 리더",
+ *   parentRole: "STAFF",
+ * });
+ */
+
+import {
+  findRoleInheritanceCycle,
+  type PermissionKey,
+  type Role,
+  type RoleDefinition,
+} from "./role.types";
+
+// ========================================
+// Types
+// ========================================
+
+/** 역할 레지스트리 변경 대상 (PermissionMatrix의 일부) */
+export interface RoleRegistryState {
+  roles: RoleDefinition[];
+  rolePermissions: Record<Role, PermissionKey[]>;
+}
+
+export interface RoleInput {
+  key: string;
+  label: string;
+  description?: string;
+  parentRole?: Role | null;
+}
+
+/** 역할 키 형식: 영문 대문자로 시작, 대문자/숫자/밑줄 2~32자 */
+export const ROLE_KEY_PATTERN = /^[A-Z][A-Z0-9_]{1,31}$/;
+
+/**
+ * 역할 레지스트리 변경 에러 (사용자에게 그대로 표시할 메시지)
+ */
+export class RoleRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RoleRegistryError";
+  }
+}
+
+// ========================================
+// Helpers
+// ========================================
+
+/**
+ * 역할 정의 조회
+ */
+export function findRoleDefinition(
+  roles: RoleDefinition[],
+  key: Role
+): RoleDefinition | undefined {
+  return roles.find((def) => def.key === key);
+}
+
+/**
+ * 역할 표시 이름 (등록되지 않은 역할은 키를 그대로 반환)
+ */
+export function getRoleLabel(roles: RoleDefinition[], key: Role): string {
+  return findRoleDefinition(roles, key)?.label ?? key;
+}
+
+/**
+ * 역할 키 검증
+ *
+ * @returns 에러 메시지 (유효하면 null)
+ */
+export function validateRoleKey(
+  roles: RoleDefinition[],
+  key: string
+): string | null {
+  if (!ROLE_KEY_PATTERN.test(key)) {
+    return "역할 키는 영문 대문자로 시작하는 대문자/숫자/밑줄 2~32자여야 합니다.";
+  }
+  if (findRoleDefinition(roles, key)) {
+    return "이미 사용 중인 역할 키입니다.";
+  }
+  return null;
+}
+
+function assertNoCycle(roles: RoleDefinition[]): void {
+  const cycle = findRoleInheritanceCycle(roles);
+  if (cycle) {
+    throw new RoleRegistryError(`역할 상속이 순환합니다: ${cycle.join(" → ")}`);
+  }
+}
+
+function assertParentExists(
+  roles: RoleDefinition[],
+  parentRole?: Role | null
+): void {
+  if (parentRole && !findRoleDefinition(roles, parentRole)) {
+    throw new RoleRegistryError(
+      `상위 역할 ${parentRole}을(를) 찾을 수 없습니다.`
+    );
+  }
+}
+
+// ========================================
+// Registry Operations
+// ========================================
+
+/**
+ * 역할 생성
+ *
+ * @throws RoleRegistryError 키가 유효하지 않거나 상위 역할이 없는 경우
+ */
+export function createRole<T extends RoleRegistryState>(
+  state: T,
+  input: RoleInput,
+  permissions: PermissionKey[] = []
+): T {
+  const keyError = validateRoleKey(state.roles, input.key);
+  if (keyError) throw new RoleRegistryError(keyError);
+  assertParentExists(state.roles, input.parentRole);
+
+  const definition: RoleDefinition = {
+    key: input.key,
+    label: input.label.trim() || input.key,
+    description: input.description?.trim() || undefined,
+    parentRole: input.parentRole || null,
+    builtIn: false,
+  };
+
+  return {
+    ...state,
+    roles: [...state.roles, definition],
+    rolePermissions: { ...state.rolePermissions, [input.key]: permissions },
+  };
+}
+
+/**
+ * 역할 복제 (직접 부여된 권한과 상위 역할을 그대로 복사)
+ */
+export function cloneRole<T extends RoleRegistryState>(
+  state: T,
+  sourceKey: Role,
+  input: Pick<RoleInput, "key" | "label">
+): T {
+  const source = findRoleDefinition(state.roles, sourceKey);
+  if (!source) {
+    throw new RoleRegistryError(`역할 ${sourceKey}을(를) 찾을 수 없습니다.`);
+  }
+
+  return createRole(
+    state,
+    {
+      key: input.key,
+      label: input.label,
+      description: source.description,
+      parentRole: source.parentRole,
+    },
+    [...(state.rolePermissions[sourceKey] ?? [])]
+  );
+}
+
+/**
+ * 역할 정보 수정 (표시 이름/설명/상위 역할)
+ *
+ * @throws RoleRegistryError 상위 역할 변경으로 순환 상속이 생기는 경우
+ */
+export function updateRole<T extends RoleRegistryState>(
+  state: T,
+  key: Role,
+  changes: Partial<Omit<RoleInput, "key">>
+): T {
+  if (!findRoleDefinition(state.roles, key)) {
+    throw new RoleRegistryError(`역할 ${key}을(를) 찾을 수 없습니다.`);
+  }
+  assertParentExists(state.roles, changes.parentRole);
+
+  const roles = state.roles.map((def) =>
+    def.key === key ? { ...def, ...changes } : def
+  );
+  assertNoCycle(roles);
+
+  return { ...state, roles };
+}
+
+/**
+ * 역할 삭제
+ * 삭제한 역할을 상속하던 역할은 삭제한 역할의 상위 역할을 상속하도록 변경합니다.
+ *
+ * @throws RoleRegistryError 기본 역할인 경우
+ */
+export function deleteRole<T extends RoleRegistryState>(
+  state: T,
+  key: Role
+): T {
+  const target = findRoleDefinition(state.roles, key);
+  if (!target) {
+    throw new RoleRegistryError(`역할 ${key}을(를) 찾을 수 없습니다.`);
+  }
+  if (target.builtIn) {
+    throw new RoleRegistryError("기본 역할은 삭제할 수 없습니다.");
+  }
+
+  const roles = state.roles
+    .filter((def) => def.key !== key)
+    .map((def) =>
+      def.parentRole === key
+        ? { ...def, parentRole: target.parentRole ?? null }
+        : def
+    );
+  const rolePermissions = { ...state.rolePermissions };
+  delete rolePermissions[key];
+
+  return { ...state, roles, rolePermissions };
+}
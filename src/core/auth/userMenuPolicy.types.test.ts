@@ -0,0 +1,129 @@
+/**
+ * SoftOne Design System - User Menu Policy Tests
+ * 정책 항목 유효 기간/시간대 판정 및 자동 재계산 테스트
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  getNextPolicyTransition,
+  isPolicyEntryActive,
+  type ScheduledPolicyEntry,
+  type UserMenuPolicy,
+} from "./userMenuPolicy.types";
+import { PERMISSION_KEYS, type PermissionKey } from "./role.types";
+import { computeFinalPermissions } from "../router/menuAccessUtils";
+import { useAuthStore } from "../store/authStore";
+
+/** 2025-01-06은 월요일 (로컬 시간 기준) */
+const at = (day: number, hours: number, minutes = 0) =>
+  new Date(2025, 0, day, hours, minutes);
+
+const businessHours: ScheduledPolicyEntry<PermissionKey> = {
+  key: PERMISSION_KEYS.PAGE_PRODUCTS_VIEW,
+  daysOfWeek: [1, 2, 3, 4, 5],
+  timeFrom: "09:00",
+  timeUntil: "18:00",
+};
+
+const businessHoursPolicy: UserMenuPolicy = {
+  userId: "4",
+  allowedPermissions: [businessHours],
+};
+
+describe("isPolicyEntryActive", () => {
+  it("유효 기간 시작 전/종료 후에는 비활성", () => {
+    const entry: ScheduledPolicyEntry = {
+      key: "products.crud",
+      validFrom: at(13, 0).toISOString(),
+      validUntil: at(20, 0).toISOString(),
+    };
+
+    expect(isPolicyEntryActive(entry, at(12, 23, 59))).toBe(false);
+    expect(isPolicyEntryActive(entry, at(13, 0))).toBe(true);
+    expect(isPolicyEntryActive(entry, at(20, 0))).toBe(false);
+  });
+
+  it("요일과 시간대를 함께 검사함", () => {
+    expect(isPolicyEntryActive(businessHours, at(6, 9))).toBe(true);
+    expect(isPolicyEntryActive(businessHours, at(6, 18))).toBe(false);
+    expect(isPolicyEntryActive(businessHours, at(11, 10))).toBe(false);
+  });
+
+  it("자정을 넘기는 시간대의 새벽 구간은 전날 요일 기준", () => {
+    const nightShift: ScheduledPolicyEntry = {
+      key: "dashboard.ops",
+      daysOfWeek: [5],
+      timeFrom: "22:00",
+      timeUntil: "06:00",
+    };
+
+    expect(isPolicyEntryActive(nightShift, at(10, 23))).toBe(true);
+    expect(isPolicyEntryActive(nightShift, at(11, 5))).toBe(true);
+    expect(isPolicyEntryActive(nightShift, at(11, 23))).toBe(false);
+  });
+});
+
+describe("getNextPolicyTransition", () => {
+  it("가장 가까운 시간대 경계를 반환함", () => {
+    expect(getNextPolicyTransition(businessHoursPolicy, at(6, 8))).toEqual(
+      at(6, 9)
+    );
+    expect(getNextPolicyTransition(businessHoursPolicy, at(6, 12))).toEqual(
+      at(6, 18)
+    );
+  });
+
+  it("예정된 전환이 없으면 null", () => {
+    expect(
+      getNextPolicyTransition({
+        userId: "4",
+        allowedPermissions: [PERMISSION_KEYS.PAGE_PRODUCTS_VIEW],
+      })
+    ).toBeNull();
+  });
+});
+
+describe("시간대 정책 적용", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    useAuthStore.getState().logout();
+  });
+
+  afterEach(() => {
+    useAuthStore.getState().logout();
+    vi.useRealTimers();
+  });
+
+  it("주입한 시각 기준으로 유효한 항목만 권한에 반영함", () => {
+    expect(
+      computeFinalPermissions([], businessHoursPolicy, at(6, 10))
+    ).toContain(PERMISSION_KEYS.PAGE_PRODUCTS_VIEW);
+    expect(
+      computeFinalPermissions([], businessHoursPolicy, at(6, 20))
+    ).not.toContain(PERMISSION_KEYS.PAGE_PRODUCTS_VIEW);
+  });
+
+  it("시간대 경계가 지나면 authStore가 권한을 자동 재계산함", () => {
+    vi.setSystemTime(at(6, 17, 59));
+    useAuthStore.getState().login({
+      user: {
+        id: "4",
+        name: "일반 직원",
+        email: "user@softone.co.kr",
+        roles: ["USER"],
+      },
+      accessToken: "token",
+      role: "STAFF",
+      grade: "JUNIOR",
+    });
+    useAuthStore.getState().setUserMenuPolicy(businessHoursPolicy);
+
+    const { hasPermission } = useAuthStore.getState();
+    expect(hasPermission(PERMISSION_KEYS.PAGE_PRODUCTS_VIEW)).toBe(true);
+
+    vi.advanceTimersByTime(60 * 1000);
+    expect(
+      useAuthStore.getState().hasPermission(PERMISSION_KEYS.PAGE_PRODUCTS_VIEW)
+    ).toBe(false);
+  });
+});
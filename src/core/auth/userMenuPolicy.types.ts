@@ -9,10 +9,57 @@
  * 사용자별로 예외(추가 허용 또는 제한)를 정의하기 위한 구조입니다.
  *
  * 프론트에서 계산된 결과는 결국 PermissionKey + routeKey 단위로 반영됩니다.
+ *
+ * 허용/차단 목록의 각 항목에는 유효 기간(validFrom/validUntil)과
+ * 요일/시간대(daysOfWeek, timeFrom/timeUntil)를 지정할 수 있습니다.
+ * 기간 밖의 항목은 목록에 없는 것으로 취급합니다. (시각은 주입 가능한 Clock 기준)
  */
 
 import type { PermissionKey } from "./role.types";
 
+// ========================================
+// Scheduled Entry Types
+// ========================================
+
+/** 현재 시각 제공 함수 (테스트/시뮬레이션에서 주입) */
+export type Clock = () => Date;
+
+/** 기본 Clock (시스템 시각) */
+export const systemClock: Clock = () => new Date();
+
+/**
+ * 정책 항목의 유효 기간/시간대
+ *
+ * @example
+ * ```ts
+ * // 평일 업무 시간(09:00~18:00)에만 적용
+ * { daysOfWeek: [1, 2, 3, 4, 5], timeFrom: "09:00", timeUntil: "18:00" }
+ * ```
+ */
+export interface PolicyEntryWindow {
+  /** 유효 시작 시각 (ISO 8601, 포함) */
+  validFrom?: string;
+  /** 유효 종료 시각 (ISO 8601, 미포함) */
+  validUntil?: string;
+  /** 적용 요일 (0=일요일 ~ 6=토요일, 로컬 시간 기준) */
+  daysOfWeek?: number[];
+  /** 하루 중 시작 시각 "HH:mm" (로컬 시간 기준, 포함) */
+  timeFrom?: string;
+  /** 하루 중 종료 시각 "HH:mm" (미포함, timeFrom보다 이르면 자정을 넘기는 시간대) */
+  timeUntil?: string;
+}
+
+/** 유효 기간/시간대가 지정된 정책 항목 */
+export interface ScheduledPolicyEntry<K extends string = string>
+  extends PolicyEntryWindow {
+  key: K;
+}
+
+/** 정책 목록 항목 (문자열 = 항상 적용) */
+export type UserMenuPolicyEntry<K extends string = string> =
+  | K
+  | ScheduledPolicyEntry<K>;
+
 // ========================================
 // User Menu Policy Interface
 // ========================================
@@ -28,6 +75,9 @@ import type { PermissionKey } from "./role.types";
  *   2. allowedPermissions/allowedRouteKeys - 명시적 허용
  *   3. Role/Grade 기반 기본 권한
  *
+ * 각 목록 항목은 문자열 또는 { key, validFrom, validUntil, daysOfWeek, timeFrom, timeUntil }
+ * 형식이며, 유효 기간 밖의 항목은 무시됩니다.
+ *
  * @example
  * ```ts
  * const policy: UserMenuPolicy = {
@@ -51,27 +101,28 @@ export interface UserMenuPolicy {
    * 추가로 허용할 PermissionKey 목록
    * Role/Grade 기반 권한에 추가됩니다.
    */
-  allowedPermissions?: PermissionKey[];
+  allowedPermissions?: UserMenuPolicyEntry<PermissionKey>[];
 
   /**
    * 차단할 PermissionKey 목록
    * Role/Grade에서 부여된 권한이라도 이 목록에 있으면 차단됩니다.
    * (deniedPermissions가 allowedPermissions보다 우선순위가 높습니다)
    */
-  deniedPermissions?: PermissionKey[];
+  deniedPermissions?: UserMenuPolicyEntry<PermissionKey>[];
 
   /**
    * 접근 허용할 routeKey 목록 (화이트리스트 모드)
-   * 이 필드가 정의되면, 오직 이 목록에 포함된 routeKey만 접근 가능합니다.
+   * 항목이 하나라도 설정되어 있으면, 오직 이 목록의 유효한(기간 내) routeKey만 접근 가능합니다.
+   * (모든 항목이 기간 밖이면 접근 가능한 라우트가 없습니다)
    * (권한 기반 필터링 후 추가로 적용)
    */
-  allowedRouteKeys?: string[];
+  allowedRouteKeys?: UserMenuPolicyEntry<string>[];
 
   /**
    * 접근 차단할 routeKey 목록 (블랙리스트 모드)
    * 권한이 있더라도 이 목록에 포함된 routeKey는 접근 불가합니다.
    */
-  deniedRouteKeys?: string[];
+  deniedRouteKeys?: UserMenuPolicyEntry<string>[];
 
   /**
    * 로그인 후 기본 진입 페이지의 routeKey
@@ -130,10 +181,10 @@ export const EMPTY_USER_MENU_POLICY: UserMenuPolicy = {
  * User Menu Policy 생성/수정 시 사용하는 입력 타입
  */
 export interface UserMenuPolicyInput {
-  allowedPermissions?: PermissionKey[];
-  deniedPermissions?: PermissionKey[];
-  allowedRouteKeys?: string[];
-  deniedRouteKeys?: string[];
+  allowedPermissions?: UserMenuPolicyEntry<PermissionKey>[];
+  deniedPermissions?: UserMenuPolicyEntry<PermissionKey>[];
+  allowedRouteKeys?: UserMenuPolicyEntry<string>[];
+  deniedRouteKeys?: UserMenuPolicyEntry<string>[];
   defaultLandingRouteKey?: string;
   description?: string;
   isActive?: boolean;
@@ -195,12 +246,15 @@ export function isValidUserMenuPolicy(
 /**
  * User Menu Policy가 만료되었는지 확인합니다.
  */
-export function isUserMenuPolicyExpired(policy: UserMenuPolicy): boolean {
+export function isUserMenuPolicyExpired(
+  policy: UserMenuPolicy,
+  now: Date = systemClock()
+): boolean {
   if (!policy.expiresAt) return false;
 
   try {
     const expiresAt = new Date(policy.expiresAt);
-    return expiresAt < new Date();
+    return expiresAt < now;
   } catch {
     return false;
   }
@@ -209,12 +263,186 @@ export function isUserMenuPolicyExpired(policy: UserMenuPolicy): boolean {
 /**
  * User Menu Policy가 활성 상태인지 확인합니다.
  */
-export function isUserMenuPolicyActive(policy: UserMenuPolicy): boolean {
+export function isUserMenuPolicyActive(
+  policy: UserMenuPolicy,
+  now: Date = systemClock()
+): boolean {
   // 비활성화 상태
   if (policy.isActive === false) return false;
 
   // 만료됨
-  if (isUserMenuPolicyExpired(policy)) return false;
+  if (isUserMenuPolicyExpired(policy, now)) return false;
 
   return true;
 }
+
+// ========================================
+// Scheduled Entry Helpers
+// ========================================
+
+/** 하루의 분(minute) 수 */
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * "HH:mm" → 자정 기준 분 (형식이 잘못되면 null)
+ */
+function parseTimeOfDay(value: string | undefined): number | null {
+  const match = value?.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * 정책 항목의 키 (PermissionKey 또는 routeKey)
+ */
+export function getPolicyEntryKey<K extends string>(
+  entry: UserMenuPolicyEntry<K>
+): K {
+  return typeof entry === "string" ? entry : entry.key;
+}
+
+/**
+ * 목록에서 키에 해당하는 정책 항목 조회
+ */
+export function findPolicyEntry<K extends string>(
+  entries: UserMenuPolicyEntry<K>[] | undefined,
+  key: K
+): UserMenuPolicyEntry<K> | undefined {
+  return entries?.find((entry) => getPolicyEntryKey(entry) === key);
+}
+
+/**
+ * 유효 기간/시간대가 지정된 항목인지 확인
+ */
+export function isScheduledPolicyEntry<K extends string>(
+  entry: UserMenuPolicyEntry<K>
+): entry is ScheduledPolicyEntry<K> {
+  return (
+    typeof entry !== "string" &&
+    !!(
+      entry.validFrom ||
+      entry.validUntil ||
+      entry.daysOfWeek?.length ||
+      entry.timeFrom ||
+      entry.timeUntil
+    )
+  );
+}
+
+/**
+ * 유효 종료 시각이 지나 다시 유효해질 수 없는 항목인지 확인
+ */
+export function isPolicyEntryExpired<K extends string>(
+  entry: UserMenuPolicyEntry<K>,
+  now: Date = systemClock()
+): boolean {
+  return (
+    typeof entry !== "string" &&
+    !!entry.validUntil &&
+    new Date(entry.validUntil) <= now
+  );
+}
+
+/**
+ * 정책 항목이 현재 유효한지 확인합니다.
+ * (유효 기간 → 요일 → 시간대 순으로 검사, 시간대는 로컬 시간 기준)
+ */
+export function isPolicyEntryActive<K extends string>(
+  entry: UserMenuPolicyEntry<K>,
+  now: Date = systemClock()
+): boolean {
+  if (typeof entry === "string") return true;
+
+  if (entry.validFrom && now < new Date(entry.validFrom)) return false;
+  if (isPolicyEntryExpired(entry, now)) return false;
+
+  const from = parseTimeOfDay(entry.timeFrom);
+  const until = parseTimeOfDay(entry.timeUntil);
+  const minutes = now.getHours() * 60 + now.getMinutes();
+
+  // 자정을 넘기는 시간대(예: 22:00~06:00)의 새벽 구간은 전날 요일 기준
+  const isOvernight = from !== null && until !== null && until <= from;
+  const inEarlyOvernight = isOvernight && minutes < until;
+  const day = (now.getDay() + (inEarlyOvernight ? 6 : 0)) % 7;
+
+  if (entry.daysOfWeek?.length && !entry.daysOfWeek.includes(day)) {
+    return false;
+  }
+
+  if (from === null && until === null) return true;
+  if (isOvernight) return minutes >= from || minutes < until;
+  return minutes >= (from ?? 0) && minutes < (until ?? MINUTES_PER_DAY);
+}
+
+/**
+ * 현재 유효한 항목의 키 목록
+ */
+export function getActivePolicyEntryKeys<K extends string>(
+  entries: UserMenuPolicyEntry<K>[] | undefined,
+  now: Date = systemClock()
+): K[] {
+  return (entries ?? [])
+    .filter((entry) => isPolicyEntryActive(entry, now))
+    .map(getPolicyEntryKey);
+}
+
+/**
+ * 항목의 다음 상태 전환 후보 시각 (유효 기간 경계 + 다음 자정/시간대 경계)
+ */
+function getEntryTransitionCandidates(
+  entry: ScheduledPolicyEntry,
+  now: Date
+): Date[] {
+  const candidates = [entry.validFrom, entry.validUntil]
+    .filter((value): value is string => !!value)
+    .map((value) => new Date(value));
+
+  const boundaries = [entry.timeFrom, entry.timeUntil]
+    .map(parseTimeOfDay)
+    .filter((minutes): minutes is number => minutes !== null);
+  // 요일 제한은 자정에 바뀜
+  if (entry.daysOfWeek?.length) boundaries.push(0);
+
+  for (const minutes of boundaries) {
+    const next = new Date(now);
+    next.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+    if (next <= now) next.setDate(next.getDate() + 1);
+    candidates.push(next);
+  }
+
+  return candidates;
+}
+
+/**
+ * 정책의 유효 항목 구성이 바뀌는 다음 시각을 계산합니다.
+ * (정책 만료, 항목 유효 기간 시작/종료, 요일/시간대 경계)
+ *
+ * @returns 다음 전환 시각 (예정된 전환이 없으면 null)
+ */
+export function getNextPolicyTransition(
+  policy: UserMenuPolicy,
+  now: Date = systemClock()
+): Date | null {
+  if (policy.isActive === false) return null;
+
+  const candidates: Date[] = policy.expiresAt
+    ? [new Date(policy.expiresAt)]
+    : [];
+  const entries = [
+    ...(policy.allowedPermissions ?? []),
+    ...(policy.deniedPermissions ?? []),
+    ...(policy.allowedRouteKeys ?? []),
+    ...(policy.deniedRouteKeys ?? []),
+  ];
+
+  for (const entry of entries) {
+    if (isScheduledPolicyEntry(entry) && !isPolicyEntryExpired(entry, now)) {
+      candidates.push(...getEntryTransitionCandidates(entry, now));
+    }
+  }
+
+  const future = candidates
+    .filter((date) => !Number.isNaN(date.getTime()) && date > now)
+    .sort((a, b) => a.getTime() - b.getTime());
+  return future[0] ?? null;
+}
@@ -137,5 +137,29 @@ describe("SDSLink", () => {
     expect(handleClick).toHaveBeenCalledTimes(1);
     expect(mockNav.push).toHaveBeenCalled();
   });
+
+  it("내부 링크에 hover/focus 시 navigation.prefetch가 호출됩니다", () => {
+    const mockNav = { ...createMockNavigation(), prefetch: vi.fn() };
+
+    render(
+      <TestWrapper navigation={mockNav}>
+        <SDSLink href="/users">사용자</SDSLink>
+        <SDSLink href="https://example.com" target="_blank">
+          외부 링크
+        </SDSLink>
+        <SDSLink href="/admin" disabled>
+          관리자
+        </SDSLink>
+      </TestWrapper>
+    );
+
+    fireEvent.mouseEnter(screen.getByText("사용자"));
+    fireEvent.focus(screen.getByText("사용자"));
+    fireEvent.mouseEnter(screen.getByText("외부 링크"));
+    fireEvent.mouseEnter(screen.getByText("관리자"));
+
+    expect(mockNav.prefetch).toHaveBeenCalledTimes(2);
+    expect(mockNav.prefetch).toHaveBeenCalledWith("/users");
+  });
 });
 
@@ -4,6 +4,9 @@
  *
  * Core/Features에서 직접 react-router-dom의 Link나 next/link를 사용하지 않고,
  * 이 컴포넌트를 통해 네비게이션합니다.
+ *
+ * 내부 링크에 마우스를 올리거나 포커스하면 NavigationApi.prefetch로
+ * 이동할 화면의 데이터를 미리 불러옵니다. (SPA: 라우트 로더)
  */
 
 import React, { useCallback } from "react";
@@ -31,8 +34,10 @@ export interface SDSLinkProps {
   disabled?: boolean;
   /** 클릭 핸들러 */
   onClick?: (e: React.MouseEvent<HTMLAnchorElement>) => void;
-  /** 프리페치 여부 (Next.js에서만 동작) */
+  /** 마운트 시 프리페치 여부 */
   prefetch?: boolean;
+  /** hover/focus 시 프리페치 여부 (기본: true) */
+  prefetchOnHover?: boolean;
   /** aria-label */
   "aria-label"?: string;
 }
@@ -64,17 +69,30 @@ export const SDSLink: React.FC<SDSLinkProps> = ({
   disabled = false,
   onClick,
   prefetch = false,
+  prefetchOnHover = true,
   "aria-label": ariaLabel,
 }) => {
   const navigation = useNavigation();
 
-  // Prefetch on mount if enabled (Next.js에서 사용)
+  const isExternal =
+    target === "_blank" ||
+    href.startsWith("http") ||
+    href.startsWith("mailto:") ||
+    href.startsWith("tel:");
+
+  // Prefetch on mount if enabled
   React.useEffect(() => {
     if (prefetch && navigation.prefetch) {
       navigation.prefetch(href);
     }
   }, [href, prefetch, navigation]);
 
+  // hover/focus 시 프리페치 (이미 불러온 데이터는 다시 요청하지 않음)
+  const handlePrefetch = useCallback(() => {
+    if (!prefetchOnHover || disabled || isExternal) return;
+    navigation.prefetch?.(href);
+  }, [href, prefetchOnHover, disabled, isExternal, navigation]);
+
   const handleClick = useCallback(
     (e: React.MouseEvent<HTMLAnchorElement>) => {
       // 사용자 정의 onClick 호출
@@ -87,12 +105,7 @@ export const SDSLink: React.FC<SDSLinkProps> = ({
       }
 
       // 외부 링크는 기본 동작 유지
-      if (
-        target === "_blank" ||
-        href.startsWith("http") ||
-        href.startsWith("mailto:") ||
-        href.startsWith("tel:")
-      ) {
+      if (isExternal) {
         return;
       }
 
@@ -110,7 +123,7 @@ export const SDSLink: React.FC<SDSLinkProps> = ({
         navigation.push(href);
       }
     },
-    [href, replace, onClick, target, disabled, navigation]
+    [href, replace, onClick, isExternal, disabled, navigation]
   );
 
   return (
@@ -122,6 +135,8 @@ export const SDSLink: React.FC<SDSLinkProps> = ({
         className
       )}
       onClick={handleClick}
+      onMouseEnter={handlePrefetch}
+      onFocus={handlePrefetch}
       target={target}
       rel={rel || (target === "_blank" ? "noopener noreferrer" : undefined)}
       aria-label={ariaLabel}
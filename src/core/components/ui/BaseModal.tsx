@@ -26,6 +26,7 @@ import React, {
 import { createPortal } from "react-dom";
 import { X } from "lucide-react";
 import { cn } from "../../utils/classUtils";
+import { useWorkspaceTabActive } from "../../hooks/useWorkspaceTabActive";
 
 // ========================================
 // Types
@@ -109,7 +110,7 @@ const getFocusableElements = (container: HTMLElement): HTMLElement[] => {
 // ========================================
 
 export const BaseModal: React.FC<BaseModalProps> = ({
-  isOpen,
+  isOpen: isOpenProp,
   onClose,
   title,
   description,
@@ -129,6 +130,10 @@ export const BaseModal: React.FC<BaseModalProps> = ({
   const modalRef = useRef<HTMLDivElement>(null);
   const previousActiveElement = useRef<HTMLElement | null>(null);
 
+  // 비활성 작업 공간 탭에서는 열림 상태를 유지한 채 숨김
+  const isTabActive = useWorkspaceTabActive();
+  const isOpen = isOpenProp && isTabActive;
+
   // 고유 ID 생성 (aria 연결용)
   const uniqueId =
     dialogId ?? `modal-${Math.random().toString(36).substr(2, 9)}`;
@@ -0,0 +1,247 @@
+/**
+ * SoftOne Design System - Combobox Tests
+ * 키보드 탐색, 그룹, 새 항목 추가, 다중 선택 칩, 서버 검색, 가상 스크롤, 폼 어댑터 테스트
+ */
+
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import { useForm } from "react-hook-form";
+import { Autocomplete, Combobox, MultiSelect } from "./Combobox";
+import { FormCombobox } from "./FormCombobox";
+import type { ComboboxOption } from "./combobox.types";
+
+const cities: ComboboxOption[] = [
+  { value: "seoul", label: "서울", group: "수도권" },
+  { value: "incheon", label: "인천", group: "수도권", disabled: true },
+  { value: "suwon", label: "수원", group: "수도권" },
+  { value: "busan", label: "부산", group: "영남" },
+];
+
+const getInput = () => screen.getByRole("combobox");
+const pressKey = (key: string, init: KeyboardEventInit = {}) =>
+  fireEvent.keyDown(getInput(), { key, ...init });
+
+describe("Combobox", () => {
+  afterEach(cleanup);
+
+  it("방향키로 비활성 옵션을 건너뛰며 이동하고 Enter로 선택한다", () => {
+    const handleChange = vi.fn();
+    render(
+      <Combobox options={cities} aria-label="도시" onChange={handleChange} />
+    );
+
+    pressKey("ArrowDown");
+    expect(getInput()).toHaveAttribute("aria-expanded", "true");
+    const activeId = () => getInput().getAttribute("aria-activedescendant");
+    expect(document.getElementById(activeId()!)).toHaveTextContent("서울");
+
+    pressKey("ArrowDown");
+    expect(document.getElementById(activeId()!)).toHaveTextContent("수원");
+
+    pressKey("Enter");
+    expect(handleChange).toHaveBeenLastCalledWith("suwon", cities[2]);
+    expect(getInput()).toHaveAttribute("aria-expanded", "false");
+    expect(getInput()).toHaveValue("수원");
+
+    // 다시 열면 선택한 옵션이 활성, Escape로 닫기
+    pressKey("ArrowDown");
+    expect(document.getElementById(activeId()!)).toHaveTextContent("수원");
+    pressKey("Escape");
+    expect(getInput()).toHaveAttribute("aria-expanded", "false");
+  });
+
+  it("검색어로 거르고 그룹 헤더를 표시한다", () => {
+    render(<Combobox options={cities} aria-label="도시" />);
+
+    fireEvent.change(getInput(), { target: { value: "ㅅㅇ" } });
+    expect(screen.getByText("수도권")).toBeInTheDocument();
+    expect(screen.queryByText("영남")).toBeNull();
+    expect(
+      screen.getAllByRole("option").map((option) => option.textContent)
+    ).toEqual(["서울", "수원"]);
+
+    fireEvent.change(getInput(), { target: { value: "대전" } });
+    expect(screen.getByRole("listbox")).toHaveTextContent(
+      "검색 결과가 없습니다"
+    );
+  });
+
+  it("creatable이면 입력한 값을 새 항목으로 추가한다", async () => {
+    const handleChange = vi.fn();
+    const handleCreate = vi.fn(async (label: string) => ({
+      value: "new-1",
+      label,
+    }));
+    render(
+      <Combobox
+        options={cities}
+        aria-label="도시"
+        creatable
+        onCreateOption={handleCreate}
+        onChange={handleChange}
+      />
+    );
+
+    fireEvent.change(getInput(), { target: { value: "대전" } });
+    expect(screen.getByRole("option", { name: "“대전” 추가" })).toBeDefined();
+
+    pressKey("Enter");
+    expect(handleCreate).toHaveBeenCalledWith("대전");
+    await vi.waitFor(() =>
+      expect(handleChange).toHaveBeenLastCalledWith("new-1", {
+        value: "new-1",
+        label: "대전",
+      })
+    );
+    expect(getInput()).toHaveValue("대전");
+  });
+
+  it("MultiSelect는 선택한 옵션을 칩으로 표시하고 Backspace로 마지막 칩을 지운다", () => {
+    const handleChange = vi.fn();
+    render(
+      <MultiSelect
+        options={cities}
+        aria-label="도시"
+        defaultValue={["busan"]}
+        maxSelected={2}
+        onChange={handleChange}
+      />
+    );
+
+    expect(screen.getByRole("button", { name: "부산 삭제" })).toBeDefined();
+
+    pressKey("ArrowDown");
+    pressKey("Enter");
+    expect(handleChange).toHaveBeenLastCalledWith(
+      ["busan", "seoul"],
+      [cities[3], cities[0]]
+    );
+    // 목록은 열린 채로 유지, 최대 선택 수에 도달하면 나머지는 비활성
+    expect(getInput()).toHaveAttribute("aria-expanded", "true");
+    expect(screen.getByRole("option", { name: "수원" })).toHaveAttribute(
+      "aria-disabled",
+      "true"
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "부산 삭제" }));
+    expect(handleChange).toHaveBeenLastCalledWith(["seoul"], [cities[0]]);
+
+    pressKey("Backspace");
+    expect(handleChange).toHaveBeenLastCalledWith([], []);
+  });
+
+  it("loadOptions로 서버에서 검색하고 결과가 오면 첫 옵션을 활성화한다", async () => {
+    const loadOptions = vi.fn(async (query: string) =>
+      cities.filter((city) => city.label.includes(query))
+    );
+    const handleChange = vi.fn();
+    render(
+      <Combobox
+        aria-label="도시"
+        loadOptions={loadOptions}
+        queryKey={["test", "cities"]}
+        debounceMs={0}
+        onChange={handleChange}
+      />
+    );
+
+    fireEvent.change(getInput(), { target: { value: "부" } });
+    // 디바운스 전 빈 검색어 결과는 새 결과가 올 때까지 유지
+    await vi.waitFor(() =>
+      expect(screen.getAllByRole("option").map((o) => o.textContent)).toEqual([
+        "부산",
+      ])
+    );
+    expect(loadOptions).toHaveBeenLastCalledWith("부", expect.anything());
+
+    pressKey("Enter");
+    expect(handleChange).toHaveBeenLastCalledWith("busan", cities[3]);
+  });
+
+  it("옵션이 많으면 보이는 옵션만 렌더링하고 활성 옵션으로 스크롤한다", async () => {
+    const manyOptions = Array.from({ length: 1000 }, (_, index) => ({
+      value: `user-${index}`,
+      label: `사용자 ${index}`,
+    }));
+    render(
+      <Combobox
+        options={manyOptions}
+        aria-label="사용자"
+        maxListHeight={360}
+        estimateOptionHeight={36}
+      />
+    );
+
+    pressKey("ArrowDown");
+    // 360px / 36px = 10개 + 아래 overscan 6개
+    expect(screen.getAllByRole("option")).toHaveLength(16);
+
+    // ↑: 마지막 옵션으로 순환
+    pressKey("ArrowUp");
+    const lastOption = await screen.findByRole("option", {
+      name: "사용자 999",
+    });
+    expect(lastOption).toHaveAttribute(
+      "id",
+      getInput().getAttribute("aria-activedescendant")
+    );
+    expect(screen.queryByRole("option", { name: "사용자 0" })).toBeNull();
+  });
+
+  it("Autocomplete는 자유 입력을 유지하고 옵션을 고르면 라벨로 채운다", () => {
+    const handleChange = vi.fn();
+    render(
+      <Autocomplete
+        options={cities}
+        aria-label="도시"
+        onChange={handleChange}
+      />
+    );
+
+    fireEvent.change(getInput(), { target: { value: "수" } });
+    expect(handleChange).toHaveBeenLastCalledWith("수", null);
+    // 활성 옵션이 없으면 Enter는 입력값 유지
+    pressKey("Enter");
+    expect(getInput()).toHaveValue("수");
+
+    pressKey("ArrowDown");
+    pressKey("Enter");
+    expect(handleChange).toHaveBeenLastCalledWith("수원", cities[2]);
+    expect(getInput()).toHaveValue("수원");
+  });
+
+  it("FormCombobox는 react-hook-form 필드 값을 갱신한다", () => {
+    const handleSubmit = vi.fn();
+    const TestForm = () => {
+      const { control, handleSubmit: submit } = useForm<{ cities: string[] }>({
+        defaultValues: { cities: [] },
+      });
+      return (
+        <form onSubmit={submit(handleSubmit)}>
+          <FormCombobox
+            name="cities"
+            control={control}
+            type="multiselect"
+            options={cities}
+            aria-label="도시"
+          />
+          <button type="submit">저장</button>
+        </form>
+      );
+    };
+    render(<TestForm />);
+
+    pressKey("ArrowDown");
+    pressKey("Enter");
+    pressKey("ArrowDown");
+    pressKey("Enter");
+    fireEvent.click(screen.getByRole("button", { name: "저장" }));
+
+    return vi.waitFor(() =>
+      expect(handleSubmit).toHaveBeenCalledWith(
+        { cities: ["seoul", "suwon"] },
+        expect.anything()
+      )
+    );
+  });
+});
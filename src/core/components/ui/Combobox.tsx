@@ -0,0 +1,863 @@
+/**
+ * SoftOne Design System(SDS) - Core UI Component
+ * 작성: SoftOne Frontend Team
+ * 설명: 검색해서 고르는 선택 필드(Combobox 패턴)를 캡슐화합니다.
+ *      WAI-ARIA Combobox 패턴(role="combobox" + listbox, aria-activedescendant)으로
+ *      포커스는 입력 필드에 둔 채 방향키로 옵션을 이동합니다.
+ *
+ * Combobox / MultiSelect / Autocomplete Components
+ * - Combobox: 검색 가능한 단일 선택
+ * - MultiSelect: 칩으로 표시하는 다중 선택 (Backspace로 마지막 칩 삭제)
+ * - Autocomplete: 자유 입력 + 추천 옵션
+ * - loadOptions: 디바운스된 서버 검색 (TanStack Query 캐시)
+ * - 그룹 헤더, 새 항목 추가(creatable), 옵션이 많으면 가상 스크롤
+ *
+ * 키보드:
+ *   ↓ / ↑         목록 열기, 옵션 이동 (끝에서 순환)
+ *   Alt + ↓ / ↑   목록 열기 / 닫기
+ *   Enter         활성 옵션 선택
+ *   Escape        목록 닫기 (닫혀 있으면 입력 지우기)
+ *   Backspace     빈 입력에서 마지막 칩 삭제 (MultiSelect)
+ */
+
+import React, {
+  useCallback,
+  useId,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { Check, ChevronDown, Loader2, Plus, X } from "lucide-react";
+import { cn } from "../../utils/classUtils";
+import {
+  buildComboboxItems,
+  filterComboboxOptions,
+  findSelectableComboboxIndex,
+  hasExactLabelMatch,
+  isSelectableComboboxItem,
+  moveComboboxActiveIndex,
+} from "../../utils/comboboxUtils";
+import { useRemoteOptions } from "../../hooks/useRemoteOptions";
+import { useVirtualRows } from "../../hooks/useVirtualRows";
+import type { SelectSize } from "./Select";
+import type {
+  AutocompleteProps,
+  ComboboxCommonProps,
+  ComboboxCreatableProps,
+  ComboboxOption,
+  ComboboxProps,
+  MultiSelectProps,
+} from "./combobox.types";
+
+// ========================================
+// Types
+// ========================================
+
+type ComboboxMode = "single" | "multiple" | "autocomplete";
+
+/** 활성 옵션 ("first": 검색 결과가 바뀌어도 첫 옵션) */
+type ActiveItem = { key: string } | "first" | null;
+
+interface ComboboxBaseProps
+  extends ComboboxCommonProps,
+    ComboboxCreatableProps {
+  mode: ComboboxMode;
+  /** 선택된 값 (single/multiple) */
+  selectedValues: string[];
+  /** 선택된 값의 라벨을 찾을 옵션 (loadOptions 초기값 등) */
+  optionHints?: ComboboxOption[];
+  /** 입력값 (autocomplete) */
+  text?: string;
+  /** 입력값 변경 (autocomplete) */
+  onTextChange?: (text: string) => void;
+  /** 옵션 선택 (selected: 선택 전 선택된 옵션) */
+  onSelectOption: (option: ComboboxOption, selected: ComboboxOption[]) => void;
+  /** 칩 삭제 (multiple) */
+  onRemoveOption?: (option: ComboboxOption, selected: ComboboxOption[]) => void;
+  /** 선택 해제 버튼 (single) */
+  onClear?: () => void;
+  /** 지금은 선택할 수 없는 옵션 (최대 선택 수 초과 등) */
+  isOptionBlocked?: (option: ComboboxOption) => boolean;
+}
+
+// ========================================
+// Constants & Style Variants
+// ========================================
+
+/** virtualized를 지정하지 않았을 때 가상 스크롤을 켜는 행 수 */
+const VIRTUALIZE_THRESHOLD = 100;
+
+/** loadOptions가 없을 때 useRemoteOptions에 넘기는 함수 (호출되지 않음) */
+const loadNoOptions = async (): Promise<ComboboxOption[]> => [];
+
+const defaultFormatCreateLabel = (label: string) => `“${label}” 추가`;
+
+const sizeStyles: Record<SelectSize, string> = {
+  sm: "min-h-8 pl-3 pr-2 py-1 text-sm",
+  md: "min-h-10 pl-4 pr-3 py-1.5 text-sm",
+  lg: "min-h-12 pl-4 pr-3 py-2 text-base",
+};
+
+/** 클릭해도 입력 필드의 포커스를 유지 */
+const keepInputFocus = (event: React.MouseEvent) => event.preventDefault();
+
+// ========================================
+// ComboboxBase (공통 동작)
+// ========================================
+
+const ComboboxBase: React.FC<ComboboxBaseProps> = ({
+  mode,
+  selectedValues,
+  optionHints,
+  text = "",
+  onTextChange,
+  onSelectOption,
+  onRemoveOption,
+  onClear,
+  isOptionBlocked,
+  options = [],
+  loadOptions,
+  queryKey,
+  debounceMs,
+  minQueryLength = 0,
+  filterOptions = filterComboboxOptions,
+  creatable = false,
+  onCreateOption,
+  formatCreateLabel = defaultFormatCreateLabel,
+  virtualized,
+  maxListHeight = 256,
+  estimateOptionHeight = 36,
+  emptyMessage = "검색 결과가 없습니다",
+  loadingMessage = "불러오는 중...",
+  placeholder,
+  disabled = false,
+  error = false,
+  size = "md",
+  fullWidth = false,
+  id,
+  name,
+  "aria-label": ariaLabel,
+  "aria-describedby": ariaDescribedBy,
+  "aria-invalid": ariaInvalid,
+  onBlur,
+  ref,
+  className,
+}) => {
+  const listboxId = `${useId()}-listbox`;
+  const getItemId = (index: number) => `${listboxId}-${index}`;
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  /** 목록을 연 뒤 예약한 스크롤 (그 전에 이동하면 취소) */
+  const scrollFrameRef = useRef<number | null>(null);
+  useImperativeHandle(ref, () => inputRef.current!, []);
+
+  const [isOpen, setIsOpen] = useState(false);
+  /** 검색어 (single/multiple) */
+  const [query, setQuery] = useState("");
+  /** single에서 검색어를 입력 중인지 (아니면 선택한 옵션 라벨 표시) */
+  const [isEditing, setIsEditing] = useState(false);
+  const [active, setActive] = useState<ActiveItem>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  /** 목록에서 고른 옵션 (검색 결과가 바뀌어도 선택 라벨 유지) */
+  const [pickedOptions, setPickedOptions] = useState<
+    Map<string, ComboboxOption>
+  >(() => new Map());
+
+  const searchText =
+    mode === "autocomplete"
+      ? text
+      : mode === "single" && !isEditing
+      ? ""
+      : query;
+
+  // ========================================
+  // Options
+  // ========================================
+
+  const {
+    options: remoteOptions,
+    isLoading,
+    isError,
+    isBelowMinLength,
+    refetch,
+  } = useRemoteOptions({
+    queryKey: queryKey ?? ["combobox-options", listboxId],
+    loadOptions: loadOptions ?? loadNoOptions,
+    query: searchText,
+    debounceMs,
+    minQueryLength,
+    enabled: Boolean(loadOptions) && isOpen,
+  });
+
+  const visibleOptions = useMemo(
+    () => (loadOptions ? remoteOptions : filterOptions(options, searchText)),
+    [loadOptions, remoteOptions, filterOptions, options, searchText]
+  );
+
+  const selectedOptions = useMemo(() => {
+    const lookup = new Map<string, ComboboxOption>();
+    [
+      ...(optionHints ?? []),
+      ...pickedOptions.values(),
+      ...options,
+      ...remoteOptions,
+    ].forEach((option) => lookup.set(option.value, option));
+    return selectedValues.map(
+      (value) => lookup.get(value) ?? { value, label: value }
+    );
+  }, [optionHints, pickedOptions, options, remoteOptions, selectedValues]);
+  const selectedValueSet = new Set(selectedValues);
+
+  const createText = searchText.trim();
+  const canCreate =
+    creatable &&
+    mode !== "autocomplete" &&
+    createText !== "" &&
+    !isLoading &&
+    !hasExactLabelMatch(visibleOptions, createText) &&
+    !hasExactLabelMatch(selectedOptions, createText);
+  const createLabel = canCreate ? formatCreateLabel(createText) : undefined;
+
+  const items = useMemo(
+    () => buildComboboxItems(visibleOptions, createLabel),
+    [visibleOptions, createLabel]
+  );
+  const optionCount = items.filter((item) => item.type === "option").length;
+
+  const activeIndex =
+    active === "first"
+      ? findSelectableComboboxIndex(items, 0, 1)
+      : active === null
+      ? -1
+      : items.findIndex(
+          (item) => item.key === active.key && isSelectableComboboxItem(item)
+        );
+
+  // ========================================
+  // Virtual Scroll
+  // ========================================
+
+  const isVirtualized = virtualized ?? items.length > VIRTUALIZE_THRESHOLD;
+  const getItemKey = useCallback((index: number) => items[index].key, [items]);
+  const {
+    scrollRef,
+    virtualRows,
+    paddingTop,
+    paddingBottom,
+    measureRow,
+    scrollToIndex,
+  } = useVirtualRows<HTMLUListElement>({
+    count: items.length,
+    getRowKey: getItemKey,
+    estimateRowHeight: estimateOptionHeight,
+    enabled: isVirtualized,
+    defaultViewportHeight: maxListHeight,
+  });
+
+  /** 활성 옵션이 보이도록 스크롤 */
+  const scrollToItem = (index: number) => {
+    if (isVirtualized) {
+      scrollToIndex(index);
+      return;
+    }
+    document
+      .getElementById(getItemId(index))
+      ?.scrollIntoView?.({ block: "nearest" });
+  };
+
+  // ========================================
+  // Handlers
+  // ========================================
+
+  /**
+   * 목록 열기
+   * step: 키보드로 열 때 활성화할 방향 (선택된 옵션이 있으면 그 옵션)
+   */
+  const openList = (step: 1 | -1 | null) => {
+    if (disabled) return;
+    const selectedIndex =
+      mode === "single"
+        ? items.findIndex(
+            (item) =>
+              item.type === "option" && item.option.value === selectedValues[0]
+          )
+        : -1;
+    const nextIndex =
+      selectedIndex >= 0
+        ? selectedIndex
+        : step === null
+        ? -1
+        : moveComboboxActiveIndex(items, -1, step);
+
+    setIsOpen(true);
+    setActive(nextIndex >= 0 ? { key: items[nextIndex].key } : null);
+    // 목록이 보인 뒤 스크롤
+    if (nextIndex >= 0) {
+      scrollFrameRef.current = requestAnimationFrame(() =>
+        scrollToItem(nextIndex)
+      );
+    }
+  };
+
+  const cancelScheduledScroll = () => {
+    if (scrollFrameRef.current !== null) {
+      cancelAnimationFrame(scrollFrameRef.current);
+      scrollFrameRef.current = null;
+    }
+  };
+
+  const closeList = () => {
+    cancelScheduledScroll();
+    setIsOpen(false);
+    setActive(null);
+    setIsEditing(false);
+    setQuery("");
+  };
+
+  const moveActive = (step: 1 | -1) => {
+    cancelScheduledScroll();
+    const nextIndex = moveComboboxActiveIndex(items, activeIndex, step);
+    if (nextIndex < 0) return;
+    setActive({ key: items[nextIndex].key });
+    scrollToItem(nextIndex);
+  };
+
+  const commitOption = (option: ComboboxOption, itemKey: string | null) => {
+    setPickedOptions((current) =>
+      current.get(option.value) === option
+        ? current
+        : new Map(current).set(option.value, option)
+    );
+    onSelectOption(option, selectedOptions);
+
+    if (mode === "multiple") {
+      // 목록을 연 채로 이어서 선택
+      setQuery("");
+      setActive(itemKey ? { key: itemKey } : null);
+      return;
+    }
+    closeList();
+  };
+
+  const createOption = async (label: string) => {
+    setIsCreating(true);
+    try {
+      const created = await onCreateOption?.(label);
+      commitOption(created || { value: label, label }, null);
+    } catch {
+      // 실패 안내는 onCreateOption에서 처리 (토스트 등)
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const selectItem = (index: number) => {
+    const item = items[index];
+    if (!item || item.type === "group" || isCreating) return;
+    if (item.type === "create") {
+      void createOption(createText);
+      return;
+    }
+    if (item.option.disabled || isOptionBlocked?.(item.option)) return;
+    commitOption(item.option, item.key);
+  };
+
+  const removeOption = (option: ComboboxOption) => {
+    onRemoveOption?.(option, selectedOptions);
+  };
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.value;
+    if (mode === "autocomplete") {
+      onTextChange?.(value);
+    } else {
+      setQuery(value);
+      setIsEditing(true);
+    }
+    setIsOpen(true);
+    // 자유 입력(autocomplete)은 Enter로 입력값을 유지하도록 활성 옵션 없음
+    setActive(mode !== "autocomplete" && value.trim() ? "first" : null);
+
+    const list = scrollRef.current;
+    if (list) list.scrollTop = 0;
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case "ArrowDown":
+      case "ArrowUp": {
+        event.preventDefault();
+        const step = event.key === "ArrowDown" ? 1 : -1;
+        if (event.altKey) {
+          if (step === -1) closeList();
+          else if (!isOpen) openList(null);
+          return;
+        }
+        if (isOpen) moveActive(step);
+        else openList(step);
+        return;
+      }
+      case "Enter":
+        if (!isOpen) return;
+        event.preventDefault();
+        if (activeIndex >= 0) selectItem(activeIndex);
+        else closeList();
+        return;
+      case "Escape":
+        if (isOpen) {
+          // 모달이 함께 닫히지 않도록 전파 중단
+          event.preventDefault();
+          event.stopPropagation();
+          closeList();
+          return;
+        }
+        if (mode === "autocomplete" && text) {
+          event.preventDefault();
+          event.stopPropagation();
+          onTextChange?.("");
+        }
+        return;
+      case "Backspace":
+        if (mode === "multiple" && query === "" && selectedOptions.length > 0) {
+          removeOption(selectedOptions[selectedOptions.length - 1]);
+        }
+        return;
+    }
+  };
+
+  const handleBlur = (event: React.FocusEvent<HTMLDivElement>) => {
+    if (event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      return;
+    }
+    closeList();
+    onBlur?.();
+  };
+
+  const handleControlMouseDown = (event: React.MouseEvent) => {
+    // 칩/여백을 눌러도 입력 필드에 포커스
+    if (disabled || event.target === inputRef.current) return;
+    event.preventDefault();
+    inputRef.current?.focus();
+  };
+
+  const handleToggleClick = () => {
+    if (isOpen) {
+      closeList();
+      return;
+    }
+    inputRef.current?.focus();
+    openList(null);
+  };
+
+  // ========================================
+  // Render
+  // ========================================
+
+  const inputValue =
+    mode === "single" && !isEditing
+      ? selectedOptions[0]?.label ?? ""
+      : searchText;
+  const hasChips = mode === "multiple" && selectedOptions.length > 0;
+  const showClear =
+    mode === "single" && onClear && selectedOptions.length > 0 && !disabled;
+
+  const statusMessage = isError
+    ? "옵션을 불러오지 못했습니다"
+    : isLoading && items.length === 0
+    ? loadingMessage
+    : loadOptions && isBelowMinLength
+    ? `${minQueryLength}글자 이상 입력하세요`
+    : items.length === 0
+    ? emptyMessage
+    : null;
+
+  const renderItem = (
+    index: number,
+    measure?: (el: HTMLElement | null) => void
+  ) => {
+    const item = items[index];
+
+    if (item.type === "group") {
+      return (
+        <li
+          key={item.key}
+          ref={measure}
+          role="none"
+          className="px-3 pt-2 pb-1 text-xs font-semibold text-softone-text-muted"
+        >
+          {item.label}
+        </li>
+      );
+    }
+
+    const isActive = index === activeIndex;
+    const itemClassName = cn(
+      "flex items-center gap-2 px-3 py-2 text-sm cursor-pointer",
+      isActive && "bg-softone-bg"
+    );
+    const handleMouseMove = () => {
+      if (!isActive && isSelectableComboboxItem(item)) {
+        setActive({ key: item.key });
+      }
+    };
+
+    if (item.type === "create") {
+      return (
+        <li
+          key={item.key}
+          ref={measure}
+          id={getItemId(index)}
+          role="option"
+          aria-selected={false}
+          className={cn(itemClassName, "text-softone-primary")}
+          onMouseDown={keepInputFocus}
+          onMouseMove={handleMouseMove}
+          onClick={() => selectItem(index)}
+        >
+          {isCreating ? (
+            <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
+          ) : (
+            <Plus className="w-4 h-4" aria-hidden="true" />
+          )}
+          {item.label}
+        </li>
+      );
+    }
+
+    const { option } = item;
+    const isSelected = selectedValueSet.has(option.value);
+    const isDisabled = option.disabled || isOptionBlocked?.(option);
+
+    return (
+      <li
+        key={item.key}
+        ref={measure}
+        id={getItemId(index)}
+        role="option"
+        aria-selected={isSelected}
+        aria-disabled={isDisabled || undefined}
+        className={cn(
+          itemClassName,
+          "text-softone-text",
+          isDisabled && "cursor-not-allowed opacity-50"
+        )}
+        onMouseDown={keepInputFocus}
+        onMouseMove={handleMouseMove}
+        onClick={() => selectItem(index)}
+      >
+        {mode === "multiple" && (
+          <span
+            className={cn(
+              "flex items-center justify-center w-4 h-4 shrink-0 rounded border",
+              isSelected
+                ? "bg-softone-primary border-softone-primary text-white"
+                : "border-softone-border"
+            )}
+            aria-hidden="true"
+          >
+            {isSelected && <Check className="w-3 h-3" />}
+          </span>
+        )}
+        <div className="min-w-0 flex-1">
+          <div className="truncate">{option.label}</div>
+          {option.description && (
+            <div className="truncate text-xs text-softone-text-muted">
+              {option.description}
+            </div>
+          )}
+        </div>
+        {mode !== "multiple" && isSelected && (
+          <Check
+            className="w-4 h-4 shrink-0 text-softone-primary"
+            aria-hidden="true"
+          />
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div
+      className={cn("relative", fullWidth && "w-full", className)}
+      onBlur={handleBlur}
+    >
+      <div
+        className={cn(
+          // Base styles
+          "flex flex-wrap items-center gap-1 rounded-md border bg-softone-surface",
+          "transition-colors duration-200",
+          "focus-within:ring-2 focus-within:ring-offset-0",
+          // Size styles
+          sizeStyles[size],
+          // Normal state
+          !error && [
+            "border-softone-border",
+            "hover:border-softone-border-hover",
+            "focus-within:border-softone-primary focus-within:ring-softone-primary/20",
+          ],
+          // Error state
+          error && [
+            "border-softone-danger",
+            "focus-within:border-softone-danger focus-within:ring-softone-danger/20",
+          ],
+          // Disabled state
+          disabled ? "bg-gray-100 cursor-not-allowed opacity-60" : "cursor-text"
+        )}
+        onMouseDown={handleControlMouseDown}
+      >
+        {hasChips &&
+          selectedOptions.map((option) => (
+            <span
+              key={option.value}
+              className="inline-flex max-w-full items-center gap-1 rounded bg-softone-primary/10 px-2 py-0.5 text-xs text-softone-primary"
+            >
+              <span className="truncate">{option.label}</span>
+              {!disabled && (
+                <button
+                  type="button"
+                  tabIndex={-1}
+                  aria-label={`${option.label} 삭제`}
+                  className="rounded hover:bg-softone-primary/20"
+                  onMouseDown={keepInputFocus}
+                  onClick={() => removeOption(option)}
+                >
+                  <X className="w-3 h-3" aria-hidden="true" />
+                </button>
+              )}
+            </span>
+          ))}
+
+        <input
+          ref={inputRef}
+          id={id}
+          name={name}
+          type="text"
+          role="combobox"
+          aria-label={ariaLabel}
+          aria-describedby={ariaDescribedBy}
+          aria-invalid={ariaInvalid}
+          aria-expanded={isOpen}
+          aria-controls={listboxId}
+          aria-autocomplete="list"
+          aria-activedescendant={
+            isOpen && activeIndex >= 0 ? getItemId(activeIndex) : undefined
+          }
+          autoComplete="off"
+          value={inputValue}
+          placeholder={hasChips ? undefined : placeholder}
+          disabled={disabled}
+          className="min-w-16 flex-1 bg-transparent text-softone-text outline-none placeholder:text-softone-text-muted disabled:cursor-not-allowed"
+          onChange={handleInputChange}
+          onKeyDown={handleKeyDown}
+          onClick={() => {
+            if (!isOpen) openList(null);
+          }}
+        />
+
+        {(isLoading || isCreating) && (
+          <Loader2
+            className="w-4 h-4 shrink-0 animate-spin text-softone-text-muted"
+            aria-hidden="true"
+          />
+        )}
+        {showClear && (
+          <button
+            type="button"
+            tabIndex={-1}
+            aria-label="선택 해제"
+            className="shrink-0 rounded text-softone-text-muted hover:text-softone-text"
+            onMouseDown={keepInputFocus}
+            onClick={onClear}
+          >
+            <X className="w-4 h-4" aria-hidden="true" />
+          </button>
+        )}
+        <button
+          type="button"
+          tabIndex={-1}
+          aria-label={isOpen ? "목록 닫기" : "목록 열기"}
+          disabled={disabled}
+          className="shrink-0 text-softone-text-muted disabled:cursor-not-allowed"
+          onMouseDown={keepInputFocus}
+          onClick={handleToggleClick}
+        >
+          <ChevronDown
+            className={cn(
+              "w-4 h-4 transition-transform",
+              isOpen && "rotate-180"
+            )}
+            aria-hidden="true"
+          />
+        </button>
+      </div>
+
+      {/* 가상 스크롤이 스크롤 영역을 추적하도록 닫혀 있어도 렌더링 */}
+      <ul
+        ref={scrollRef}
+        id={listboxId}
+        role="listbox"
+        aria-label={ariaLabel ?? placeholder}
+        aria-multiselectable={mode === "multiple" || undefined}
+        hidden={!isOpen}
+        style={{ maxHeight: maxListHeight }}
+        className="absolute z-50 mt-1 w-full overflow-auto rounded-md border border-softone-border bg-softone-surface py-1 shadow-lg"
+      >
+        {isVirtualized ? (
+          <>
+            {paddingTop > 0 && (
+              <li role="none" style={{ height: paddingTop }} />
+            )}
+            {virtualRows.map(({ index, key }) =>
+              renderItem(index, measureRow(key))
+            )}
+            {paddingBottom > 0 && (
+              <li role="none" style={{ height: paddingBottom }} />
+            )}
+          </>
+        ) : (
+          items.map((_, index) => renderItem(index))
+        )}
+
+        {statusMessage && (
+          <li
+            role="none"
+            className="flex items-center justify-between gap-2 px-3 py-2 text-sm text-softone-text-muted"
+          >
+            {statusMessage}
+            {isError && (
+              <button
+                type="button"
+                className="text-softone-primary hover:underline"
+                onMouseDown={keepInputFocus}
+                onClick={refetch}
+              >
+                다시 시도
+              </button>
+            )}
+          </li>
+        )}
+      </ul>
+
+      {/* 스크린 리더 안내 */}
+      <span className="sr-only" aria-live="polite">
+        {isOpen ? statusMessage ?? `${optionCount}개 옵션` : ""}
+      </span>
+    </div>
+  );
+};
+
+// ========================================
+// Combobox Component
+// ========================================
+
+export const Combobox: React.FC<ComboboxProps> = ({
+  value,
+  defaultValue = null,
+  onChange,
+  selectedOption,
+  clearable = true,
+  ...props
+}) => {
+  const isControlled = value !== undefined;
+  const [internalValue, setInternalValue] = useState(defaultValue);
+  const currentValue = isControlled ? value : internalValue;
+
+  const updateValue = (
+    nextValue: string | null,
+    option: ComboboxOption | null
+  ) => {
+    if (!isControlled) setInternalValue(nextValue);
+    onChange?.(nextValue, option);
+  };
+
+  return (
+    <ComboboxBase
+      {...props}
+      mode="single"
+      selectedValues={currentValue ? [currentValue] : []}
+      optionHints={selectedOption ? [selectedOption] : undefined}
+      onSelectOption={(option) => updateValue(option.value, option)}
+      onClear={clearable ? () => updateValue(null, null) : undefined}
+    />
+  );
+};
+
+// ========================================
+// MultiSelect Component
+// ========================================
+
+export const MultiSelect: React.FC<MultiSelectProps> = ({
+  value,
+  defaultValue = [],
+  onChange,
+  selectedOptions,
+  maxSelected,
+  ...props
+}) => {
+  const isControlled = value !== undefined;
+  const [internalValue, setInternalValue] = useState(defaultValue);
+  const currentValue = isControlled ? value : internalValue;
+  const isFull =
+    maxSelected !== undefined && currentValue.length >= maxSelected;
+
+  const updateValue = (nextOptions: ComboboxOption[]) => {
+    const nextValue = nextOptions.map((option) => option.value);
+    if (!isControlled) setInternalValue(nextValue);
+    onChange?.(nextValue, nextOptions);
+  };
+
+  return (
+    <ComboboxBase
+      {...props}
+      mode="multiple"
+      selectedValues={currentValue}
+      optionHints={selectedOptions}
+      onSelectOption={(option, selected) => {
+        // 이미 선택한 옵션을 다시 고르면 선택 해제
+        if (currentValue.includes(option.value)) {
+          updateValue(selected.filter((item) => item.value !== option.value));
+          return;
+        }
+        if (!isFull) updateValue([...selected, option]);
+      }}
+      onRemoveOption={(option, selected) =>
+        updateValue(selected.filter((item) => item.value !== option.value))
+      }
+      isOptionBlocked={(option) =>
+        isFull && !currentValue.includes(option.value)
+      }
+    />
+  );
+};
+
+// ========================================
+// Autocomplete Component
+// ========================================
+
+export const Autocomplete: React.FC<AutocompleteProps> = ({
+  value,
+  defaultValue = "",
+  onChange,
+  ...props
+}) => {
+  const isControlled = value !== undefined;
+  const [internalValue, setInternalValue] = useState(defaultValue);
+  const currentValue = isControlled ? value : internalValue;
+
+  const updateValue = (nextValue: string, option: ComboboxOption | null) => {
+    if (!isControlled) setInternalValue(nextValue);
+    onChange?.(nextValue, option);
+  };
+
+  return (
+    <ComboboxBase
+      {...props}
+      mode="autocomplete"
+      selectedValues={[]}
+      text={currentValue}
+      onTextChange={(text) => updateValue(text, null)}
+      onSelectOption={(option) => updateValue(option.label, option)}
+    />
+  );
+};
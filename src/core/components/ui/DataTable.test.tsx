@@ -0,0 +1,348 @@
+/**
+ * SoftOne Design System - DataTable Tests
+ * 정렬, 행 선택, 페이지네이션, 컬럼 숨김/너비 조절, 합계 행, 가상 스크롤 테스트
+ */
+
+import { createRef } from "react";
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  render,
+  screen,
+  fireEvent,
+  cleanup,
+  within,
+  act,
+} from "@testing-library/react";
+import {
+  DataTable,
+  type DataTableColumn,
+  type DataTableHandle,
+} from "./DataTable";
+
+interface Row {
+  id: string;
+  name: string;
+  dept: string;
+  salary: number;
+}
+
+const rows: Row[] = [
+  { id: "1", name: "김철수", dept: "개발", salary: 300 },
+  { id: "2", name: "이영희", dept: "디자인", salary: 500 },
+  { id: "3", name: "박민수", dept: "개발", salary: 400 },
+];
+
+const columns: DataTableColumn<Row>[] = [
+  { key: "name", header: "이름", sortable: true },
+  { key: "dept", header: "부서", sortable: true },
+  { key: "salary", header: "급여", sortable: true, align: "right" },
+];
+
+/** 본문 행의 이름 컬럼 텍스트 */
+const getNames = () =>
+  within(screen.getAllByRole("rowgroup")[1])
+    .getAllByRole("row")
+    .map((row) => row.textContent ?? "")
+    .map((text) => rows.find((r) => text.includes(r.name))?.name);
+
+describe("DataTable", () => {
+  afterEach(cleanup);
+
+  it("기본 사용법(columns + data)은 그대로 동작한다", () => {
+    render(<DataTable columns={columns} data={rows} />);
+
+    expect(getNames()).toEqual(["김철수", "이영희", "박민수"]);
+    expect(screen.queryByRole("checkbox")).toBeNull();
+    expect(screen.queryByLabelText("다음 페이지")).toBeNull();
+  });
+
+  it("헤더 클릭으로 asc → desc → 해제 순서로 정렬한다", () => {
+    const handleSortsChange = vi.fn();
+    render(
+      <DataTable
+        columns={columns}
+        data={rows}
+        onSortsChange={handleSortsChange}
+      />
+    );
+    const salaryHeader = screen.getByRole("button", { name: /급여/ });
+
+    fireEvent.click(salaryHeader);
+    expect(getNames()).toEqual(["김철수", "박민수", "이영희"]);
+    expect(screen.getByRole("columnheader", { name: /급여/ })).toHaveAttribute(
+      "aria-sort",
+      "ascending"
+    );
+
+    fireEvent.click(salaryHeader);
+    expect(getNames()).toEqual(["이영희", "박민수", "김철수"]);
+
+    fireEvent.click(salaryHeader);
+    expect(getNames()).toEqual(["김철수", "이영희", "박민수"]);
+    expect(handleSortsChange).toHaveBeenLastCalledWith([]);
+  });
+
+  it("multiSort면 Shift+클릭으로 정렬을 추가하고, manualSorting이면 data를 정렬하지 않는다", () => {
+    const handleSortsChange = vi.fn();
+    const { unmount } = render(
+      <DataTable
+        columns={columns}
+        data={rows}
+        multiSort
+        defaultSorts={[{ field: "dept", direction: "asc" }]}
+      />
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: /급여/ }), {
+      shiftKey: true,
+    });
+    expect(getNames()).toEqual(["김철수", "박민수", "이영희"]);
+
+    unmount();
+    render(
+      <DataTable
+        columns={columns}
+        data={rows}
+        manualSorting
+        sorts={[{ field: "salary", direction: "desc" }]}
+        onSortsChange={handleSortsChange}
+      />
+    );
+    expect(getNames()).toEqual(["김철수", "이영희", "박민수"]);
+
+    fireEvent.click(screen.getByRole("button", { name: /이름/ }));
+    expect(handleSortsChange).toHaveBeenCalledWith([
+      { field: "name", direction: "asc" },
+    ]);
+  });
+
+  it("체크박스로 행을 선택하고, 헤더 체크박스는 현재 페이지 전체를 선택한다", () => {
+    const handleSelectionChange = vi.fn();
+    const handleRowClick = vi.fn();
+    render(
+      <DataTable
+        columns={columns}
+        data={rows}
+        selectionMode="multiple"
+        defaultPagination={{ page: 1, pageSize: 2 }}
+        onSelectionChange={handleSelectionChange}
+        onRowClick={handleRowClick}
+      />
+    );
+
+    fireEvent.click(screen.getAllByLabelText("행 선택")[1]);
+    expect(handleSelectionChange).toHaveBeenLastCalledWith({
+      selectedIds: ["2"],
+      selectedRows: [rows[1]],
+    });
+    expect(handleRowClick).not.toHaveBeenCalled();
+
+    const selectAll = screen.getByLabelText("현재 페이지 전체 선택");
+    expect((selectAll as HTMLInputElement).indeterminate).toBe(true);
+
+    fireEvent.click(selectAll);
+    expect(handleSelectionChange).toHaveBeenLastCalledWith({
+      selectedIds: ["2", "1"],
+      selectedRows: [rows[0], rows[1]],
+    });
+
+    fireEvent.click(selectAll);
+    expect(handleSelectionChange).toHaveBeenLastCalledWith({
+      selectedIds: [],
+      selectedRows: [],
+    });
+  });
+
+  it("클라이언트 페이지네이션은 정렬된 데이터를 페이지 단위로 나눈다", () => {
+    const handlePaginationChange = vi.fn();
+    render(
+      <DataTable
+        columns={columns}
+        data={rows}
+        defaultSorts={[{ field: "salary", direction: "desc" }]}
+        defaultPagination={{ page: 1, pageSize: 2 }}
+        onPaginationChange={handlePaginationChange}
+      />
+    );
+    expect(getNames()).toEqual(["이영희", "박민수"]);
+
+    fireEvent.click(screen.getByLabelText("다음 페이지"));
+    expect(getNames()).toEqual(["김철수"]);
+    expect(handlePaginationChange).toHaveBeenLastCalledWith({
+      page: 2,
+      pageSize: 2,
+    });
+
+    // 정렬을 바꾸면 첫 페이지로
+    fireEvent.click(screen.getByRole("button", { name: /이름/ }));
+    expect(getNames()).toEqual(["김철수", "박민수"]);
+  });
+
+  it("컬럼 메뉴로 컬럼을 숨기고, 숨길 수 없는 컬럼은 비활성화한다", () => {
+    render(
+      <DataTable
+        columns={[{ ...columns[0], hideable: false }, ...columns.slice(1)]}
+        data={rows}
+        showColumnToggle
+      />
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: /컬럼/ }));
+    const menu = screen.getByRole("group", { name: "표시할 컬럼" });
+    expect(within(menu).getByLabelText("이름")).toBeDisabled();
+
+    fireEvent.click(within(menu).getByLabelText("부서"));
+    expect(screen.queryByRole("columnheader", { name: /부서/ })).toBeNull();
+    expect(screen.getAllByRole("columnheader")).toHaveLength(2);
+  });
+
+  it("방향키로 컬럼 너비를 조절하고 최소 너비를 지킨다", () => {
+    const handleWidthsChange = vi.fn();
+    render(
+      <DataTable
+        columns={[{ ...columns[0], minWidth: 100 }, ...columns.slice(1)]}
+        data={rows}
+        resizableColumns
+        defaultColumnWidths={{ name: 120 }}
+        onColumnWidthsChange={handleWidthsChange}
+      />
+    );
+    const handle = screen.getByRole("separator", { name: "이름 너비 조절" });
+
+    fireEvent.keyDown(handle, { key: "ArrowRight" });
+    expect(handleWidthsChange).toHaveBeenLastCalledWith({ name: 130 });
+
+    fireEvent.keyDown(handle, { key: "ArrowLeft" });
+    fireEvent.keyDown(handle, { key: "ArrowLeft" });
+    fireEvent.keyDown(handle, { key: "ArrowLeft" });
+    fireEvent.keyDown(handle, { key: "ArrowLeft" });
+    expect(handleWidthsChange).toHaveBeenLastCalledWith({ name: 100 });
+  });
+
+  it("합계 행은 전체 데이터로 계산하고 첫 컬럼에 라벨을 표시한다", () => {
+    render(
+      <DataTable
+        columns={columns}
+        data={rows}
+        defaultPagination={{ page: 1, pageSize: 2 }}
+        footerRows={[
+          {
+            key: "total",
+            label: "합계",
+            values: {
+              salary: (items) =>
+                items.reduce((sum, item) => sum + item.salary, 0),
+            },
+          },
+        ]}
+      />
+    );
+
+    const footer = screen.getAllByRole("rowgroup")[2];
+    expect(within(footer).getByText("합계")).toBeInTheDocument();
+    expect(within(footer).getByText("1200")).toBeInTheDocument();
+  });
+
+  describe("virtualized", () => {
+    const manyRows: Row[] = Array.from({ length: 1000 }, (_, index) => ({
+      id: `R${index}`,
+      name: `사원${index}`,
+      dept: "개발",
+      salary: index,
+    }));
+
+    const getBodyRows = () =>
+      within(screen.getAllByRole("rowgroup")[1])
+        .getAllByRole("row")
+        .filter((row) => row.hasAttribute("aria-rowindex"));
+
+    it("보이는 행만 렌더링하고 aria-rowcount/aria-rowindex로 전체 위치를 알린다", () => {
+      render(
+        <DataTable
+          columns={columns}
+          data={manyRows}
+          virtualized
+          maxHeight={450}
+          estimateRowHeight={45}
+          overscan={2}
+        />
+      );
+
+      expect(screen.getByRole("table")).toHaveAttribute(
+        "aria-rowcount",
+        "1001"
+      );
+      const bodyRows = getBodyRows();
+      // 450px / 45px = 10행 + 아래 overscan 2행
+      expect(bodyRows).toHaveLength(12);
+      expect(bodyRows[0]).toHaveAttribute("aria-rowindex", "2");
+      expect(bodyRows[0]).toHaveAttribute("tabindex", "0");
+      expect(bodyRows[1]).toHaveAttribute("tabindex", "-1");
+    });
+
+    it("키보드로 행을 이동하면 스크롤해서 렌더링한 뒤 포커스한다", () => {
+      const handleRowClick = vi.fn();
+      render(
+        <DataTable
+          columns={columns}
+          data={manyRows}
+          virtualized
+          maxHeight={450}
+          estimateRowHeight={45}
+          onRowClick={handleRowClick}
+        />
+      );
+
+      const firstRow = getBodyRows()[0];
+      firstRow.focus();
+      fireEvent.keyDown(firstRow, { key: "End" });
+
+      expect(document.activeElement).toHaveAttribute("aria-rowindex", "1001");
+      expect(screen.queryByText("사원0")).toBeNull();
+
+      fireEvent.keyDown(document.activeElement!, { key: "ArrowUp" });
+      expect(document.activeElement).toHaveAttribute("aria-rowindex", "1000");
+
+      fireEvent.keyDown(document.activeElement!, { key: "Enter" });
+      expect(handleRowClick).toHaveBeenCalledWith(manyRows[998], 998);
+    });
+
+    it("ref.scrollToRow는 행으로 스크롤하고, 다른 페이지의 행이면 페이지를 이동한다", () => {
+      const tableRef = createRef<DataTableHandle>();
+      const { unmount } = render(
+        <DataTable
+          ref={tableRef}
+          columns={columns}
+          data={manyRows}
+          virtualized
+          maxHeight={450}
+          estimateRowHeight={45}
+        />
+      );
+
+      act(() => {
+        expect(tableRef.current!.scrollToRow("R500", "start")).toBe(true);
+      });
+      expect(screen.getByText("사원500")).toBeInTheDocument();
+      expect(tableRef.current!.scrollToRow("없음")).toBe(false);
+
+      unmount();
+      render(
+        <DataTable
+          ref={tableRef}
+          columns={columns}
+          data={manyRows}
+          defaultPagination={{ page: 1, pageSize: 20 }}
+        />
+      );
+      act(() => {
+        tableRef.current!.scrollToRow("R45");
+      });
+      expect(screen.getByText("사원45")).toBeInTheDocument();
+      expect(screen.getByRole("button", { name: "3" })).toHaveAttribute(
+        "aria-current",
+        "page"
+      );
+    });
+  });
+});
@@ -8,12 +8,38 @@
  * DataTable Component
  * - 제네릭 타입 T로 어떤 데이터 타입도 지원
  * - Zebra striping, hover, 빈 상태 처리
- * - 정렬, 선택 기능 확장 가능
+ * - 기본 경량 그리드 기능 (모두 선택 사항, columns + data만으로도 동작)
+ *   - 정렬: 단일/다중(Shift+클릭), 클라이언트 또는 서버(manualSorting)
+ *   - 체크박스 행 선택 (selectionMode)
+ *   - 페이지네이션: 클라이언트 또는 서버(manualPagination)
+ *   - 헤더/첫 컬럼 고정, 컬럼 표시/숨김, 컬럼 너비 조절, 합계(footer) 행
+ *   - 가상 스크롤(virtualized): 보이는 행만 렌더링 (가변 행 높이, 행 키보드 이동,
+ *     aria-rowcount/aria-rowindex, ref.scrollToRow)
+ * - 정렬/선택/페이지/숨김 컬럼/컬럼 너비는 controlled(value + onChange)
+ *   또는 uncontrolled(defaultValue) 모두 지원
  */
 
-import React from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown, Columns3, Inbox } from "lucide-react";
 import { cn } from "../../utils/classUtils";
-import { Inbox } from "lucide-react";
+import { sortRowsBySortStates, toggleSortState } from "../../utils/gridUtils";
+import type { VirtualScrollAlign } from "../../utils/virtualUtils";
+import { useVirtualRows } from "../../hooks/useVirtualRows";
+import type {
+  PaginationState,
+  RowSelectionMode,
+  RowSelectionState,
+  SortState,
+} from "../../model/grid.types";
+import { Checkbox } from "./Checkbox";
+import { Pagination } from "./Pagination";
 
 // ========================================
 // DataTable Types
@@ -28,10 +54,32 @@ export interface DataTableColumn<T> {
   width?: string | number;
   /** 정렬 */
   align?: "left" | "center" | "right";
-  /** 커스텀 렌더러 */
+  /** 커스텀 렌더러 (index: 정렬된 전체 데이터 기준 순번) */
   render?: (row: T, index: number) => React.ReactNode;
   /** 정렬 가능 여부 */
   sortable?: boolean;
+  /** 클라이언트 정렬에 사용할 값 (기본: row[key]) */
+  sortValue?: (row: T) => unknown;
+  /** 컬럼 표시/숨김 메뉴에서 숨길 수 있는지 (기본: true) */
+  hideable?: boolean;
+  /** 너비 조절 가능 여부 (resizableColumns일 때, 기본: true) */
+  resizable?: boolean;
+  /** 너비 조절 시 최소 너비 (px, 기본: 60) */
+  minWidth?: number;
+}
+
+/**
+ * 합계/요약 행 (tfoot)
+ * - values의 함수는 집계 대상 행 전체를 받습니다.
+ *   (클라이언트 페이지네이션이면 모든 페이지, manualPagination이면 현재 data)
+ */
+export interface DataTableFooterRow<T> {
+  /** 행 고유 키 */
+  key: string;
+  /** 첫 번째 컬럼에 표시할 라벨 (해당 컬럼 값이 없을 때) */
+  label?: React.ReactNode;
+  /** 컬럼 키별 셀 값 */
+  values: Partial<Record<string, (rows: T[]) => React.ReactNode>>;
 }
 
 export interface DataTableProps<T> {
@@ -59,6 +107,142 @@ export interface DataTableProps<T> {
   className?: string;
   /** 테이블 추가 클래스 */
   tableClassName?: string;
+
+  // --- 정렬 ---
+  /** 정렬 상태 (controlled) */
+  sorts?: SortState[];
+  /** 초기 정렬 상태 (uncontrolled) */
+  defaultSorts?: SortState[];
+  /** 정렬 변경 핸들러 */
+  onSortsChange?: (sorts: SortState[]) => void;
+  /** Shift+클릭으로 다중 정렬 */
+  multiSort?: boolean;
+  /** 서버 정렬 (data를 정렬하지 않고 onSortsChange만 호출) */
+  manualSorting?: boolean;
+
+  // --- 행 선택 ---
+  /** 행 선택 모드 (기본: "none") */
+  selectionMode?: RowSelectionMode;
+  /** 선택된 행 ID (controlled, rowKey 기준 문자열) */
+  selectedIds?: string[];
+  /** 초기 선택 행 ID (uncontrolled) */
+  defaultSelectedIds?: string[];
+  /** 선택 변경 핸들러 (selectedRows는 현재 data에 있는 행만 포함) */
+  onSelectionChange?: (selection: RowSelectionState<T>) => void;
+
+  // --- 페이지네이션 (pagination 또는 defaultPagination을 주면 표시) ---
+  /** 페이지 상태 (controlled) */
+  pagination?: PaginationState;
+  /** 초기 페이지 상태 (uncontrolled) */
+  defaultPagination?: PaginationState;
+  /** 페이지 변경 핸들러 */
+  onPaginationChange?: (pagination: PaginationState) => void;
+  /** 서버 페이지네이션 (data는 현재 페이지, 전체 건수는 pagination.total) */
+  manualPagination?: boolean;
+
+  // --- 레이아웃 ---
+  /** 헤더 고정 (maxHeight와 함께 사용) */
+  stickyHeader?: boolean;
+  /** 첫 번째 컬럼 고정 (가로 스크롤 시, 선택 컬럼 포함) */
+  stickyFirstColumn?: boolean;
+  /** 본문 최대 높이 (넘치면 세로 스크롤) */
+  maxHeight?: string | number;
+
+  // --- 컬럼 표시/숨김 ---
+  /** 숨긴 컬럼 키 (controlled) */
+  hiddenColumnKeys?: string[];
+  /** 초기 숨긴 컬럼 키 (uncontrolled) */
+  defaultHiddenColumnKeys?: string[];
+  /** 숨긴 컬럼 변경 핸들러 */
+  onHiddenColumnKeysChange?: (keys: string[]) => void;
+  /** 컬럼 표시/숨김 메뉴 표시 */
+  showColumnToggle?: boolean;
+
+  // --- 컬럼 너비 조절 ---
+  /** 컬럼 너비 조절 (헤더 경계 드래그, 방향키) */
+  resizableColumns?: boolean;
+  /** 컬럼 너비 (controlled, px) */
+  columnWidths?: Record<string, number>;
+  /** 초기 컬럼 너비 (uncontrolled, px) */
+  defaultColumnWidths?: Record<string, number>;
+  /** 컬럼 너비 변경 핸들러 */
+  onColumnWidthsChange?: (widths: Record<string, number>) => void;
+
+  // --- 합계 행 ---
+  /** 합계/요약 행 */
+  footerRows?: DataTableFooterRow<T>[];
+
+  // --- 가상 스크롤 ---
+  /** 보이는 행만 렌더링 (대용량 목록, 헤더는 항상 고정, 기본 maxHeight 480px) */
+  virtualized?: boolean;
+  /** 측정 전 예상 행 높이 (px, 기본: 45) */
+  estimateRowHeight?: number;
+  /** 보이는 범위 위/아래로 더 렌더링할 행 수 (기본: 6) */
+  overscan?: number;
+
+  /** 스크롤 API (scrollToRow, scrollToIndex) */
+  ref?: React.Ref<DataTableHandle>;
+}
+
+/**
+ * DataTable ref API
+ */
+export interface DataTableHandle {
+  /**
+   * 행 ID(rowKey)로 스크롤 (클라이언트 페이지네이션이면 해당 페이지로 이동)
+   * @returns 행을 찾지 못하면 false
+   */
+  scrollToRow: (rowId: string, align?: VirtualScrollAlign) => boolean;
+  /** 현재 페이지의 행 순번(0부터)으로 스크롤 */
+  scrollToIndex: (index: number, align?: VirtualScrollAlign) => void;
+}
+
+interface DataTableEntry<T> {
+  row: T;
+  id: string;
+}
+
+// ========================================
+// Constants
+// ========================================
+
+const DEFAULT_PAGINATION: PaginationState = { page: 1, pageSize: 10 };
+const DEFAULT_MIN_COLUMN_WIDTH = 60;
+const RESIZE_KEYBOARD_STEP = 10;
+/** 선택 컬럼 너비 (첫 컬럼 고정 시 left 오프셋) */
+const SELECTION_COLUMN_WIDTH = 48;
+const DEFAULT_ROW_HEIGHT = 45;
+const DEFAULT_VIRTUAL_MAX_HEIGHT = 480;
+/** PageUp/PageDown 이동 행 수 */
+const PAGE_KEY_ROW_STEP = 10;
+
+const EMPTY_SORTS: SortState[] = [];
+const EMPTY_KEYS: string[] = [];
+const EMPTY_WIDTHS: Record<string, number> = {};
+
+// ========================================
+// Controlled / Uncontrolled State
+// ========================================
+
+function useControllableState<V>(
+  value: V | undefined,
+  defaultValue: V,
+  onChange?: (value: V) => void
+): [V, (value: V) => void] {
+  const isControlled = value !== undefined;
+  const [internalValue, setInternalValue] = useState(defaultValue);
+
+  const setValue = useCallback(
+    (newValue: V) => {
+      if (!isControlled) {
+        setInternalValue(newValue);
+      }
+      onChange?.(newValue);
+    },
+    [isControlled, onChange]
+  );
+
+  return [isControlled ? value : internalValue, setValue];
 }
 
 // ========================================
@@ -105,6 +289,124 @@ const EmptyState: React.FC<EmptyStateProps> = ({ message, icon, colSpan }) => (
   </tr>
 );
 
+// ========================================
+// Virtual Spacer Row
+// ========================================
+
+/** 렌더링하지 않은 행 높이만큼의 여백 (가상 스크롤) */
+const VirtualSpacerRow: React.FC<{ height: number; colSpan: number }> = ({
+  height,
+  colSpan,
+}) =>
+  height > 0 ? (
+    <tr aria-hidden="true">
+      <td colSpan={colSpan} style={{ height, padding: 0 }} />
+    </tr>
+  ) : null;
+
+// ========================================
+// Column Toggle Menu
+// ========================================
+
+interface ColumnToggleMenuProps {
+  columns: { key: string; header: string; hideable?: boolean }[];
+  hiddenKeys: string[];
+  onToggle: (key: string) => void;
+}
+
+const ColumnToggleMenu: React.FC<ColumnToggleMenuProps> = ({
+  columns,
+  hiddenKeys,
+  onToggle,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // 바깥 클릭 / ESC로 닫기
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setIsOpen(false);
+    };
+
+    document.addEventListener("mousedown", handleMouseDown);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("mousedown", handleMouseDown);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+        className={cn(
+          "inline-flex items-center gap-1.5 px-2.5 py-1.5 rounded-md text-sm",
+          "text-softone-text-secondary hover:bg-softone-surface-hover transition-colors"
+        )}
+      >
+        <Columns3 className="w-4 h-4" />
+        컬럼
+      </button>
+
+      {isOpen && (
+        <div
+          role="group"
+          aria-label="표시할 컬럼"
+          className={cn(
+            "absolute right-0 top-full mt-1 z-30 min-w-[180px] p-2",
+            "flex flex-col gap-1.5 rounded-md shadow-lg",
+            "bg-softone-surface border border-softone-border"
+          )}
+        >
+          {columns.map((column) => (
+            <Checkbox
+              key={column.key}
+              size="sm"
+              label={column.header}
+              checked={!hiddenKeys.includes(column.key)}
+              disabled={column.hideable === false}
+              onChange={() => onToggle(column.key)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ========================================
+// Sort Indicator
+// ========================================
+
+const SortIndicator: React.FC<{
+  direction?: SortState["direction"];
+  order?: number;
+}> = ({ direction, order }) => (
+  <span className="inline-flex items-center text-softone-text-muted">
+    {direction === "asc" ? (
+      <ArrowUp className="w-3.5 h-3.5 text-softone-primary" />
+    ) : direction === "desc" ? (
+      <ArrowDown className="w-3.5 h-3.5 text-softone-primary" />
+    ) : (
+      <ArrowUpDown className="w-3.5 h-3.5" />
+    )}
+    {order !== undefined && (
+      <span className="ml-0.5 text-[10px] text-softone-primary">{order}</span>
+    )}
+  </span>
+);
+
 // ========================================
 // DataTable Component
 // ========================================
@@ -122,17 +424,440 @@ export function DataTable<T>({
   onRowClick,
   className,
   tableClassName,
+  sorts: sortsProp,
+  defaultSorts = EMPTY_SORTS,
+  onSortsChange,
+  multiSort = false,
+  manualSorting = false,
+  selectionMode = "none",
+  selectedIds: selectedIdsProp,
+  defaultSelectedIds = EMPTY_KEYS,
+  onSelectionChange,
+  pagination: paginationProp,
+  defaultPagination,
+  onPaginationChange,
+  manualPagination = false,
+  stickyHeader = false,
+  stickyFirstColumn = false,
+  maxHeight,
+  hiddenColumnKeys: hiddenColumnKeysProp,
+  defaultHiddenColumnKeys = EMPTY_KEYS,
+  onHiddenColumnKeysChange,
+  showColumnToggle = false,
+  resizableColumns = false,
+  columnWidths: columnWidthsProp,
+  defaultColumnWidths = EMPTY_WIDTHS,
+  onColumnWidthsChange,
+  footerRows,
+  virtualized = false,
+  estimateRowHeight = DEFAULT_ROW_HEIGHT,
+  overscan,
+  ref,
 }: DataTableProps<T>) {
+  const [sorts, setSorts] = useControllableState(
+    sortsProp,
+    defaultSorts,
+    onSortsChange
+  );
+  const [selectedIds, setSelectedIds] = useControllableState(
+    selectedIdsProp,
+    defaultSelectedIds,
+    undefined
+  );
+  const [pagination, setPagination] = useControllableState(
+    paginationProp,
+    defaultPagination ?? DEFAULT_PAGINATION,
+    onPaginationChange
+  );
+  const [hiddenColumnKeys, setHiddenColumnKeys] = useControllableState(
+    hiddenColumnKeysProp,
+    defaultHiddenColumnKeys,
+    onHiddenColumnKeysChange
+  );
+  const [columnWidths, setColumnWidths] = useControllableState(
+    columnWidthsProp,
+    defaultColumnWidths,
+    onColumnWidthsChange
+  );
+
+  const isPaginated =
+    paginationProp !== undefined || defaultPagination !== undefined;
+  const isSelectable = selectionMode !== "none";
+
   // 행 키 생성
-  const getRowKey = (row: T, index: number): string | number => {
-    if (rowKey) {
-      return rowKey(row, index);
+  const getRowKey = useCallback(
+    (row: T, index: number): string | number => {
+      if (rowKey) {
+        return rowKey(row, index);
+      }
+      // 기본: id 필드 또는 index 사용
+      const anyRow = row as Record<string, unknown>;
+      return (anyRow.id as string | number) ?? index;
+    },
+    [rowKey]
+  );
+
+  // 표시 컬럼 (숨길 수 없는 컬럼은 항상 표시)
+  const visibleColumns = useMemo(
+    () =>
+      columns.filter(
+        (column) =>
+          column.hideable === false || !hiddenColumnKeys.includes(column.key)
+      ),
+    [columns, hiddenColumnKeys]
+  );
+
+  // 행 ID는 원본 순서 기준으로 생성 (정렬/페이지와 무관하게 유지)
+  const entries = useMemo(
+    (): DataTableEntry<T>[] =>
+      data.map((row, index) => ({ row, id: String(getRowKey(row, index)) })),
+    [data, getRowKey]
+  );
+
+  // 정렬
+  const sortedEntries = useMemo(() => {
+    if (manualSorting) return entries;
+
+    const columnByKey = new Map(columns.map((column) => [column.key, column]));
+    return sortRowsBySortStates(entries, sorts, ({ row }, field) => {
+      const sortValue = columnByKey.get(field)?.sortValue;
+      return sortValue
+        ? sortValue(row)
+        : (row as Record<string, unknown>)[field];
+    });
+  }, [entries, sorts, columns, manualSorting]);
+
+  // 페이지
+  const total = manualPagination
+    ? pagination.total ?? data.length
+    : data.length;
+  const pageCount = Math.max(1, Math.ceil(total / pagination.pageSize));
+  const currentPage = Math.min(Math.max(1, pagination.page), pageCount);
+  const pageStart =
+    isPaginated && !manualPagination
+      ? (currentPage - 1) * pagination.pageSize
+      : 0;
+  const pageEntries = useMemo(
+    () =>
+      isPaginated && !manualPagination
+        ? sortedEntries.slice(pageStart, pageStart + pagination.pageSize)
+        : sortedEntries,
+    [
+      isPaginated,
+      manualPagination,
+      sortedEntries,
+      pageStart,
+      pagination.pageSize,
+    ]
+  );
+
+  // 선택
+  const selectedIdSet = useMemo(() => new Set(selectedIds), [selectedIds]);
+  const pageIds = pageEntries.map(({ id }) => id);
+  const selectedPageCount = pageIds.filter((id) =>
+    selectedIdSet.has(id)
+  ).length;
+  const isAllPageSelected =
+    pageIds.length > 0 && selectedPageCount === pageIds.length;
+
+  // ========================================
+  // Virtual Scroll
+  // ========================================
+
+  const isStickyHeader = stickyHeader || virtualized;
+  const scrollMaxHeight =
+    maxHeight ?? (virtualized ? DEFAULT_VIRTUAL_MAX_HEIGHT : undefined);
+
+  // 고정 헤더 높이 (행이 헤더에 가려지지 않도록 스크롤 계산에서 제외)
+  const [headerHeight, setHeaderHeight] = useState(0);
+  const measureHeader = useCallback(
+    (element: HTMLTableSectionElement | null) => {
+      if (element) setHeaderHeight(element.getBoundingClientRect().height);
+    },
+    []
+  );
+
+  const getPageRowKey = useCallback(
+    (index: number) => pageEntries[index].id,
+    [pageEntries]
+  );
+  const {
+    scrollRef,
+    virtualRows,
+    paddingTop,
+    paddingBottom,
+    measureRow,
+    scrollToIndex,
+  } = useVirtualRows<HTMLDivElement>({
+    count: loading ? 0 : pageEntries.length,
+    getRowKey: getPageRowKey,
+    estimateRowHeight,
+    overscan,
+    enabled: virtualized,
+    defaultViewportHeight:
+      typeof scrollMaxHeight === "number"
+        ? scrollMaxHeight
+        : DEFAULT_VIRTUAL_MAX_HEIGHT,
+    stickyStartHeight: headerHeight,
+  });
+  const renderedRows = virtualized
+    ? virtualRows.map(({ index }) => ({
+        entry: pageEntries[index],
+        pageIndex: index,
+      }))
+    : pageEntries.map((entry, pageIndex) => ({ entry, pageIndex }));
+
+  // 키보드 이동 대상 행 (가상 스크롤에서는 행 하나만 Tab으로 진입)
+  const [focusedRowIndex, setFocusedRowIndex] = useState(0);
+  const activeRowIndex = Math.min(focusedRowIndex, pageEntries.length - 1);
+  /** 스크롤 후 렌더링되면 포커스할 행 */
+  const pendingFocusIndexRef = useRef<number | null>(null);
+  /** scrollToRow로 페이지를 바꾼 경우, 이동 후 스크롤할 행 */
+  const pendingScrollRef = useRef<{
+    rowId: string;
+    align: VirtualScrollAlign;
+  } | null>(null);
+
+  const getRowElement = (pageIndex: number) =>
+    scrollRef.current?.querySelector<HTMLElement>(
+      `tbody > tr[data-row-index="${pageIndex}"]`
+    ) ?? null;
+
+  const scrollToPageIndex = (pageIndex: number, align: VirtualScrollAlign) => {
+    if (virtualized) {
+      scrollToIndex(pageIndex, align);
+      return;
     }
-    // 기본: id 필드 또는 index 사용
-    const anyRow = row as Record<string, unknown>;
-    return (anyRow.id as string | number) ?? index;
+    getRowElement(pageIndex)?.scrollIntoView?.({
+      block: align === "auto" ? "nearest" : align,
+    });
+  };
+
+  const focusRow = (pageIndex: number) => {
+    setFocusedRowIndex(pageIndex);
+    scrollToPageIndex(pageIndex, "auto");
+
+    const element = getRowElement(pageIndex);
+    if (element) {
+      element.focus({ preventScroll: true });
+      return;
+    }
+    pendingFocusIndexRef.current = pageIndex;
+  };
+
+  useEffect(() => {
+    const pendingScroll = pendingScrollRef.current;
+    if (pendingScroll) {
+      const pageIndex = pageEntries.findIndex(
+        ({ id }) => id === pendingScroll.rowId
+      );
+      if (pageIndex >= 0) {
+        pendingScrollRef.current = null;
+        scrollToPageIndex(pageIndex, pendingScroll.align);
+      }
+    }
+
+    const pendingFocusIndex = pendingFocusIndexRef.current;
+    if (pendingFocusIndex === null) return;
+    const element = getRowElement(pendingFocusIndex);
+    if (element) {
+      pendingFocusIndexRef.current = null;
+      element.focus({ preventScroll: true });
+    }
+  });
+
+  useImperativeHandle(ref, () => ({
+    scrollToRow: (rowId, align = "auto") => {
+      const pageIndex = pageEntries.findIndex(({ id }) => id === rowId);
+      if (pageIndex >= 0) {
+        scrollToPageIndex(pageIndex, align);
+        return true;
+      }
+      if (!isPaginated || manualPagination) return false;
+
+      const sortedIndex = sortedEntries.findIndex(({ id }) => id === rowId);
+      if (sortedIndex < 0) return false;
+
+      pendingScrollRef.current = { rowId, align };
+      setPagination({
+        ...pagination,
+        page: Math.floor(sortedIndex / pagination.pageSize) + 1,
+      });
+      return true;
+    },
+    scrollToIndex: (index, align = "auto") => scrollToPageIndex(index, align),
+  }));
+
+  // ========================================
+  // Handlers
+  // ========================================
+
+  const handleSort = (column: DataTableColumn<T>, shiftKey: boolean) => {
+    setSorts(toggleSortState(sorts, column.key, multiSort && shiftKey));
+    if (isPaginated && currentPage !== 1) {
+      setPagination({ ...pagination, page: 1 });
+    }
+  };
+
+  const changeSelection = (ids: string[]) => {
+    setSelectedIds(ids);
+    const idSet = new Set(ids);
+    onSelectionChange?.({
+      selectedIds: ids,
+      selectedRows: entries
+        .filter(({ id }) => idSet.has(id))
+        .map(({ row }) => row),
+    });
   };
 
+  const handleToggleRow = (id: string) => {
+    if (selectionMode === "single") {
+      changeSelection(selectedIdSet.has(id) ? [] : [id]);
+      return;
+    }
+    changeSelection(
+      selectedIdSet.has(id)
+        ? selectedIds.filter((selectedId) => selectedId !== id)
+        : [...selectedIds, id]
+    );
+  };
+
+  // 헤더 체크박스: 현재 페이지 전체 선택/해제
+  const handleTogglePage = () => {
+    if (isAllPageSelected) {
+      const pageIdSet = new Set(pageIds);
+      changeSelection(selectedIds.filter((id) => !pageIdSet.has(id)));
+      return;
+    }
+    changeSelection([
+      ...selectedIds,
+      ...pageIds.filter((id) => !selectedIdSet.has(id)),
+    ]);
+  };
+
+  // 행 키보드 이동 (가상 스크롤)
+  const handleRowKeyDown = (
+    event: React.KeyboardEvent<HTMLTableRowElement>,
+    pageIndex: number,
+    entry: DataTableEntry<T>
+  ) => {
+    if (event.target !== event.currentTarget) return;
+
+    const lastIndex = pageEntries.length - 1;
+    let nextIndex: number;
+    switch (event.key) {
+      case "ArrowDown":
+        nextIndex = Math.min(lastIndex, pageIndex + 1);
+        break;
+      case "ArrowUp":
+        nextIndex = Math.max(0, pageIndex - 1);
+        break;
+      case "PageDown":
+        nextIndex = Math.min(lastIndex, pageIndex + PAGE_KEY_ROW_STEP);
+        break;
+      case "PageUp":
+        nextIndex = Math.max(0, pageIndex - PAGE_KEY_ROW_STEP);
+        break;
+      case "Home":
+        nextIndex = 0;
+        break;
+      case "End":
+        nextIndex = lastIndex;
+        break;
+      case "Enter":
+        event.preventDefault();
+        onRowClick?.(entry.row, pageStart + pageIndex);
+        return;
+      case " ":
+        if (!isSelectable) return;
+        event.preventDefault();
+        handleToggleRow(entry.id);
+        return;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    focusRow(nextIndex);
+  };
+
+  const handlePageChange = (page: number) => {
+    setPagination({ ...pagination, page });
+  };
+
+  const handleToggleColumn = (key: string) => {
+    setHiddenColumnKeys(
+      hiddenColumnKeys.includes(key)
+        ? hiddenColumnKeys.filter((hiddenKey) => hiddenKey !== key)
+        : [...hiddenColumnKeys, key]
+    );
+  };
+
+  const resizeColumn = (column: DataTableColumn<T>, width: number) => {
+    const minWidth = column.minWidth ?? DEFAULT_MIN_COLUMN_WIDTH;
+    setColumnWidths({
+      ...columnWidths,
+      [column.key]: Math.max(minWidth, Math.round(width)),
+    });
+  };
+
+  // 헤더 경계 드래그 (pointermove는 드래그 중에만 window에 등록)
+  const handleResizePointerDown = (
+    column: DataTableColumn<T>,
+    event: React.PointerEvent<HTMLDivElement>
+  ) => {
+    event.preventDefault();
+    event.stopPropagation();
+
+    const header = event.currentTarget.parentElement;
+    const startX = event.clientX;
+    const startWidth =
+      columnWidths[column.key] ?? header?.getBoundingClientRect().width ?? 0;
+    const baseWidths = columnWidths;
+    const minWidth = column.minWidth ?? DEFAULT_MIN_COLUMN_WIDTH;
+
+    const handlePointerMove = (moveEvent: PointerEvent) => {
+      setColumnWidths({
+        ...baseWidths,
+        [column.key]: Math.max(
+          minWidth,
+          Math.round(startWidth + moveEvent.clientX - startX)
+        ),
+      });
+    };
+    const handlePointerUp = () => {
+      window.removeEventListener("pointermove", handlePointerMove);
+      window.removeEventListener("pointerup", handlePointerUp);
+    };
+
+    window.addEventListener("pointermove", handlePointerMove);
+    window.addEventListener("pointerup", handlePointerUp);
+  };
+
+  const handleResizeKeyDown = (
+    column: DataTableColumn<T>,
+    event: React.KeyboardEvent<HTMLDivElement>
+  ) => {
+    if (event.key !== "ArrowLeft" && event.key !== "ArrowRight") return;
+    event.preventDefault();
+
+    const currentWidth =
+      columnWidths[column.key] ??
+      event.currentTarget.parentElement?.getBoundingClientRect().width ??
+      0;
+    resizeColumn(
+      column,
+      currentWidth +
+        (event.key === "ArrowRight"
+          ? RESIZE_KEYBOARD_STEP
+          : -RESIZE_KEYBOARD_STEP)
+    );
+  };
+
+  // ========================================
+  // Render Helpers
+  // ========================================
+
   // 셀 값 가져오기
   const getCellValue = (
     row: T,
@@ -168,6 +893,41 @@ export function DataTable<T>({
     }
   };
 
+  const getColumnStyle = (
+    column: DataTableColumn<T>,
+    columnIndex: number
+  ): React.CSSProperties => {
+    const width = columnWidths[column.key] ?? column.width;
+    return {
+      width,
+      minWidth: typeof width === "number" ? width : undefined,
+      left:
+        stickyFirstColumn && columnIndex === 0
+          ? isSelectable
+            ? SELECTION_COLUMN_WIDTH
+            : 0
+          : undefined,
+    };
+  };
+
+  // 첫 컬럼 고정 셀 (배경은 불투명해야 스크롤되는 셀을 가림)
+  const getStickyCellClass = (columnIndex: number, isHeader: boolean) =>
+    stickyFirstColumn &&
+    columnIndex === 0 &&
+    cn(
+      "sticky z-[1]",
+      isHeader ? "bg-softone-bg" : "bg-softone-surface",
+      isHeader && isStickyHeader && "z-20"
+    );
+
+  const selectionCellClass = cn(
+    "px-4 py-3",
+    stickyFirstColumn && "sticky left-0 z-[1]"
+  );
+
+  const colSpan = visibleColumns.length + (isSelectable ? 1 : 0);
+  const footerSourceRows = sortedEntries.map(({ row }) => row);
+
   return (
     <div
       className={cn(
@@ -176,72 +936,296 @@ export function DataTable<T>({
         className
       )}
     >
-      <div className="overflow-x-auto">
-        <table className={cn("w-full border-collapse", tableClassName)}>
+      {/* Toolbar */}
+      {showColumnToggle && (
+        <div className="flex justify-end px-2 py-1.5 bg-softone-surface border-b border-softone-border">
+          <ColumnToggleMenu
+            columns={columns}
+            hiddenKeys={hiddenColumnKeys}
+            onToggle={handleToggleColumn}
+          />
+        </div>
+      )}
+
+      <div
+        ref={scrollRef}
+        className={cn(
+          "overflow-x-auto",
+          scrollMaxHeight !== undefined && "overflow-y-auto"
+        )}
+        style={{ maxHeight: scrollMaxHeight }}
+      >
+        <table
+          className={cn("w-full border-collapse", tableClassName)}
+          aria-rowcount={
+            virtualized
+              ? 1 + pageEntries.length + (footerRows?.length ?? 0)
+              : undefined
+          }
+        >
           {/* Header */}
-          <thead>
-            <tr className="bg-softone-bg border-b border-softone-border">
-              {columns.map((column) => (
+          <thead
+            ref={measureHeader}
+            className={cn(isStickyHeader && "sticky top-0 z-10")}
+          >
+            <tr
+              className="bg-softone-bg border-b border-softone-border"
+              aria-rowindex={virtualized ? 1 : undefined}
+            >
+              {isSelectable && (
                 <th
-                  key={column.key}
-                  className={cn(
-                    "px-4 py-3 text-xs font-semibold uppercase tracking-wider",
-                    "text-softone-text-secondary",
-                    getAlignClass(column.align)
-                  )}
-                  style={{
-                    width: column.width,
-                    minWidth:
-                      typeof column.width === "number"
-                        ? column.width
-                        : undefined,
-                  }}
+                  className={cn(selectionCellClass, "bg-softone-bg")}
+                  style={{ width: SELECTION_COLUMN_WIDTH }}
                 >
-                  {column.header}
+                  {selectionMode === "multiple" && (
+                    <Checkbox
+                      size="sm"
+                      aria-label="현재 페이지 전체 선택"
+                      checked={isAllPageSelected}
+                      indeterminate={
+                        selectedPageCount > 0 && !isAllPageSelected
+                      }
+                      disabled={loading || pageIds.length === 0}
+                      onChange={handleTogglePage}
+                    />
+                  )}
                 </th>
-              ))}
+              )}
+              {visibleColumns.map((column, columnIndex) => {
+                const sortIndex = sorts.findIndex(
+                  (sort) => sort.field === column.key
+                );
+                const sort = sortIndex >= 0 ? sorts[sortIndex] : undefined;
+                const isResizable =
+                  resizableColumns && column.resizable !== false;
+
+                return (
+                  <th
+                    key={column.key}
+                    className={cn(
+                      "px-4 py-3 text-xs font-semibold uppercase tracking-wider",
+                      "text-softone-text-secondary bg-softone-bg",
+                      getAlignClass(column.align),
+                      isResizable && "relative",
+                      getStickyCellClass(columnIndex, true)
+                    )}
+                    style={getColumnStyle(column, columnIndex)}
+                    aria-sort={
+                      column.sortable
+                        ? sort?.direction === "asc"
+                          ? "ascending"
+                          : sort?.direction === "desc"
+                          ? "descending"
+                          : "none"
+                        : undefined
+                    }
+                  >
+                    {column.sortable ? (
+                      <button
+                        type="button"
+                        onClick={(event) => handleSort(column, event.shiftKey)}
+                        title={
+                          multiSort ? "Shift+클릭으로 다중 정렬" : undefined
+                        }
+                        className={cn(
+                          "inline-flex items-center gap-1 uppercase tracking-wider",
+                          "hover:text-softone-text transition-colors"
+                        )}
+                      >
+                        {column.header}
+                        <SortIndicator
+                          direction={sort?.direction}
+                          order={
+                            sort && sorts.length > 1 ? sortIndex + 1 : undefined
+                          }
+                        />
+                      </button>
+                    ) : (
+                      column.header
+                    )}
+
+                    {isResizable && (
+                      <div
+                        role="separator"
+                        aria-orientation="vertical"
+                        aria-label={`${column.header} 너비 조절`}
+                        aria-valuenow={columnWidths[column.key]}
+                        tabIndex={0}
+                        onPointerDown={(event) =>
+                          handleResizePointerDown(column, event)
+                        }
+                        onKeyDown={(event) =>
+                          handleResizeKeyDown(column, event)
+                        }
+                        className={cn(
+                          "absolute top-0 right-0 h-full w-1.5 cursor-col-resize select-none touch-none",
+                          "hover:bg-softone-primary/40 focus-visible:bg-softone-primary/40 focus-visible:outline-none"
+                        )}
+                      />
+                    )}
+                  </th>
+                );
+              })}
             </tr>
           </thead>
 
           {/* Body */}
           <tbody className="bg-softone-surface divide-y divide-softone-border">
             {loading ? (
-              <LoadingSkeleton columns={columns.length} />
-            ) : data.length === 0 ? (
+              <LoadingSkeleton columns={colSpan} />
+            ) : pageEntries.length === 0 ? (
               <EmptyState
                 message={emptyMessage}
                 icon={emptyIcon}
-                colSpan={columns.length}
+                colSpan={colSpan}
               />
             ) : (
-              data.map((row, rowIndex) => (
+              <>
+                {virtualized && (
+                  <VirtualSpacerRow height={paddingTop} colSpan={colSpan} />
+                )}
+                {renderedRows.map(({ entry, pageIndex }) => {
+                  const { row, id } = entry;
+                  const rowIndex = pageStart + pageIndex;
+                  const isSelected = selectedIdSet.has(id);
+
+                  return (
+                    <tr
+                      key={id}
+                      ref={virtualized ? measureRow(id) : undefined}
+                      data-row-index={pageIndex}
+                      aria-rowindex={virtualized ? pageIndex + 2 : undefined}
+                      aria-selected={isSelectable ? isSelected : undefined}
+                      tabIndex={
+                        virtualized
+                          ? pageIndex === activeRowIndex
+                            ? 0
+                            : -1
+                          : undefined
+                      }
+                      className={cn(
+                        "transition-colors",
+                        striped && pageIndex % 2 === 1 && "bg-softone-bg/50",
+                        isSelected && "bg-softone-primary/5",
+                        hoverable && "hover:bg-softone-surface-hover",
+                        onRowClick && "cursor-pointer",
+                        virtualized &&
+                          "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-softone-primary/40"
+                      )}
+                      onClick={() => {
+                        if (virtualized) setFocusedRowIndex(pageIndex);
+                        onRowClick?.(row, rowIndex);
+                      }}
+                      onKeyDown={
+                        virtualized
+                          ? (event) => handleRowKeyDown(event, pageIndex, entry)
+                          : undefined
+                      }
+                    >
+                      {isSelectable && (
+                        <td
+                          className={cn(
+                            selectionCellClass,
+                            stickyFirstColumn && "bg-softone-surface"
+                          )}
+                          onClick={(event) => event.stopPropagation()}
+                        >
+                          <Checkbox
+                            size="sm"
+                            aria-label="행 선택"
+                            checked={isSelected}
+                            onChange={() => handleToggleRow(id)}
+                          />
+                        </td>
+                      )}
+                      {visibleColumns.map((column, columnIndex) => (
+                        <td
+                          key={column.key}
+                          className={cn(
+                            "px-4 py-3 text-sm text-softone-text",
+                            getAlignClass(column.align),
+                            getStickyCellClass(columnIndex, false)
+                          )}
+                          style={
+                            stickyFirstColumn && columnIndex === 0
+                              ? { left: getColumnStyle(column, 0).left }
+                              : undefined
+                          }
+                        >
+                          {getCellValue(row, column, rowIndex)}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+                {virtualized && (
+                  <VirtualSpacerRow height={paddingBottom} colSpan={colSpan} />
+                )}
+              </>
+            )}
+          </tbody>
+
+          {/* Footer (합계/요약) */}
+          {footerRows && footerRows.length > 0 && !loading && (
+            <tfoot className="bg-softone-bg border-t-2 border-softone-border">
+              {footerRows.map((footerRow, footerIndex) => (
                 <tr
-                  key={getRowKey(row, rowIndex)}
-                  className={cn(
-                    "transition-colors",
-                    striped && rowIndex % 2 === 1 && "bg-softone-bg/50",
-                    hoverable && "hover:bg-softone-surface-hover",
-                    onRowClick && "cursor-pointer"
-                  )}
-                  onClick={() => onRowClick?.(row, rowIndex)}
+                  key={footerRow.key}
+                  aria-rowindex={
+                    virtualized
+                      ? pageEntries.length + footerIndex + 2
+                      : undefined
+                  }
                 >
-                  {columns.map((column) => (
+                  {isSelectable && (
                     <td
-                      key={column.key}
                       className={cn(
-                        "px-4 py-3 text-sm text-softone-text",
-                        getAlignClass(column.align)
+                        selectionCellClass,
+                        stickyFirstColumn && "bg-softone-bg"
                       )}
-                    >
-                      {getCellValue(row, column, rowIndex)}
-                    </td>
-                  ))}
+                    />
+                  )}
+                  {visibleColumns.map((column, columnIndex) => {
+                    const getValue = footerRow.values[column.key];
+                    return (
+                      <td
+                        key={column.key}
+                        className={cn(
+                          "px-4 py-3 text-sm font-semibold text-softone-text",
+                          getAlignClass(column.align),
+                          getStickyCellClass(columnIndex, true)
+                        )}
+                        style={
+                          stickyFirstColumn && columnIndex === 0
+                            ? { left: getColumnStyle(column, 0).left }
+                            : undefined
+                        }
+                      >
+                        {getValue
+                          ? getValue(footerSourceRows)
+                          : columnIndex === 0
+                          ? footerRow.label
+                          : null}
+                      </td>
+                    );
+                  })}
                 </tr>
-              ))
-            )}
-          </tbody>
+              ))}
+            </tfoot>
+          )}
         </table>
       </div>
+
+      {/* Pagination */}
+      {isPaginated && (
+        <Pagination
+          page={currentPage}
+          pageSize={pagination.pageSize}
+          total={total}
+          onChange={handlePageChange}
+          className="py-3 border-t border-softone-border bg-softone-surface"
+        />
+      )}
     </div>
   );
 }
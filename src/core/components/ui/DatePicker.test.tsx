@@ -0,0 +1,236 @@
+/**
+ * SoftOne Design System - DatePicker Tests
+ * 달력 키보드 탐색, 날짜 제한, 직접 입력, 기간 선택/프리셋, 시간 입력, 폼 어댑터 테스트
+ */
+
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { DatePicker, DateRangePicker } from "./DatePicker";
+import { TimePicker } from "./TimePicker";
+import { FormDatePicker } from "./FormDatePicker";
+import { dateRangeSchema } from "../../utils/dateSchemas";
+import { getTodayValue } from "../../utils/datePickerUtils";
+
+const getInput = () => screen.getByRole("textbox");
+const getDay = (date: string) =>
+  document.querySelector<HTMLButtonElement>(`[data-date="${date}"]`)!;
+const focusedDate = () => document.activeElement?.getAttribute("data-date");
+const pressCalendarKey = (key: string, init: KeyboardEventInit = {}) =>
+  fireEvent.keyDown(document.activeElement!, { key, ...init });
+
+describe("DatePicker", () => {
+  afterEach(cleanup);
+
+  it("방향키/PageDown으로 달력을 이동하고 선택한다", () => {
+    const handleChange = vi.fn();
+    render(
+      <DatePicker
+        defaultValue="2024-01-15"
+        aria-label="시작일"
+        onChange={handleChange}
+      />
+    );
+
+    fireEvent.keyDown(getInput(), { key: "ArrowDown" });
+    expect(screen.getByRole("dialog", { name: "날짜 선택" })).toBeVisible();
+    expect(focusedDate()).toBe("2024-01-15");
+    expect(getDay("2024-01-15").closest("td")).toHaveAttribute(
+      "aria-selected",
+      "true"
+    );
+
+    pressCalendarKey("ArrowRight");
+    expect(focusedDate()).toBe("2024-01-16");
+    pressCalendarKey("PageDown");
+    expect(focusedDate()).toBe("2024-02-16");
+    expect(screen.getByText("2024년 2월")).toBeInTheDocument();
+
+    fireEvent.click(document.activeElement!);
+    expect(handleChange).toHaveBeenLastCalledWith("2024-02-16");
+    expect(screen.queryByRole("dialog")).toBeNull();
+    expect(getInput()).toHaveValue("2024-02-16");
+  });
+
+  it("minDate/maxDate 밖의 날짜와 달 이동을 막는다", () => {
+    const handleChange = vi.fn();
+    render(
+      <DatePicker
+        defaultValue="2024-01-15"
+        minDate="2024-01-10"
+        maxDate="2024-01-20"
+        disabledDates={["2024-01-17"]}
+        aria-label="시작일"
+        onChange={handleChange}
+      />
+    );
+    fireEvent.click(screen.getByRole("button", { name: "달력 열기" }));
+
+    expect(screen.getByRole("button", { name: "이전 달" })).toBeDisabled();
+    expect(screen.getByRole("button", { name: "다음 달" })).toBeDisabled();
+    expect(getDay("2024-01-09")).toHaveAttribute("aria-disabled", "true");
+    expect(getDay("2024-01-17")).toHaveAttribute("aria-disabled", "true");
+
+    fireEvent.click(getDay("2024-01-21"));
+    fireEvent.click(getDay("2024-01-17"));
+    expect(handleChange).not.toHaveBeenCalled();
+    expect(screen.getByRole("dialog")).toBeVisible();
+  });
+
+  it("직접 입력한 날짜를 반영하고 Escape는 바깥으로 전파하지 않는다", () => {
+    const handleChange = vi.fn();
+    const handleParentKeyDown = vi.fn();
+    render(
+      <div onKeyDown={handleParentKeyDown}>
+        <DatePicker aria-label="시작일" onChange={handleChange} />
+      </div>
+    );
+
+    fireEvent.change(getInput(), { target: { value: "2024.3.1" } });
+    expect(handleChange).toHaveBeenLastCalledWith("2024-03-01");
+
+    fireEvent.change(getInput(), { target: { value: "2024.3.32" } });
+    expect(handleChange).toHaveBeenCalledTimes(1);
+    fireEvent.keyDown(getInput(), { key: "Enter" });
+    expect(getInput()).toHaveValue("2024-03-01");
+
+    fireEvent.keyDown(getInput(), { key: "ArrowDown" });
+    expect(focusedDate()).toBe("2024-03-01");
+    pressCalendarKey("Escape");
+    expect(screen.queryByRole("dialog")).toBeNull();
+    expect(getInput()).toHaveFocus();
+    expect(handleParentKeyDown).not.toHaveBeenCalledWith(
+      expect.objectContaining({ key: "Escape" })
+    );
+  });
+});
+
+describe("DateRangePicker", () => {
+  afterEach(cleanup);
+
+  it("두 날짜를 고르면 순서를 맞춰 기간을 반영한다", () => {
+    const handleChange = vi.fn();
+    render(
+      <DateRangePicker
+        defaultValue={{ start: "2024-01-10", end: "2024-01-12" }}
+        presets={[]}
+        aria-label="기간"
+        onChange={handleChange}
+      />
+    );
+    expect(getInput()).toHaveValue("2024-01-10 ~ 2024-01-12");
+
+    fireEvent.click(screen.getByRole("button", { name: "달력 열기" }));
+    expect(getDay("2024-01-11").className).toContain("bg-softone-primary/10");
+
+    fireEvent.click(getDay("2024-01-20"));
+    expect(screen.getByText("종료일을 선택하세요")).toBeInTheDocument();
+    expect(handleChange).not.toHaveBeenCalled();
+
+    fireEvent.click(getDay("2024-01-05"));
+    expect(handleChange).toHaveBeenLastCalledWith({
+      start: "2024-01-05",
+      end: "2024-01-20",
+    });
+    expect(getInput()).toHaveValue("2024-01-05 ~ 2024-01-20");
+  });
+
+  it("프리셋으로 기간을 고르고 minDate 밖 프리셋은 비활성화한다", () => {
+    const handleChange = vi.fn();
+    const today = getTodayValue();
+    render(
+      <DateRangePicker
+        minDate={today}
+        aria-label="기간"
+        onChange={handleChange}
+      />
+    );
+    fireEvent.click(screen.getByRole("button", { name: "달력 열기" }));
+
+    expect(screen.getByRole("button", { name: "최근 7일" })).toBeDisabled();
+    fireEvent.click(screen.getByRole("button", { name: "오늘" }));
+    expect(handleChange).toHaveBeenLastCalledWith({ start: today, end: today });
+    expect(screen.queryByRole("dialog")).toBeNull();
+  });
+});
+
+describe("TimePicker", () => {
+  afterEach(cleanup);
+
+  it("입력한 시간을 HH:mm으로 반영하고 범위 밖 시간은 비활성화한다", () => {
+    const handleChange = vi.fn();
+    render(
+      <TimePicker
+        minTime="09:00"
+        maxTime="18:00"
+        aria-label="시작 시간"
+        onChange={handleChange}
+      />
+    );
+    const input = screen.getByRole("combobox");
+
+    fireEvent.change(input, { target: { value: "930" } });
+    expect(handleChange).toHaveBeenLastCalledWith("09:30");
+
+    fireEvent.change(input, { target: { value: "08:" } });
+    expect(screen.getByRole("option", { name: "08:00" })).toHaveAttribute(
+      "aria-disabled",
+      "true"
+    );
+    fireEvent.change(input, { target: { value: "0800" } });
+    expect(handleChange).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("FormDatePicker", () => {
+  afterEach(cleanup);
+
+  it("react-hook-form + zod 스키마로 기간을 검증한다", async () => {
+    const handleSubmit = vi.fn();
+    const schema = z.object({ period: dateRangeSchema({ maxDays: 7 }) });
+    const TestForm = () => {
+      const {
+        control,
+        handleSubmit: submit,
+        formState: { errors },
+      } = useForm<z.infer<typeof schema>>({
+        resolver: zodResolver(schema),
+        defaultValues: { period: { start: null, end: null } },
+      });
+      return (
+        <form onSubmit={submit(handleSubmit)}>
+          <FormDatePicker
+            name="period"
+            control={control}
+            type="daterange"
+            aria-label="기간"
+          />
+          <p>{errors.period?.message}</p>
+          <button type="submit">저장</button>
+        </form>
+      );
+    };
+    render(<TestForm />);
+
+    fireEvent.change(getInput(), {
+      target: { value: "2024-01-01 ~ 2024-01-10" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "저장" }));
+    expect(
+      await screen.findByText("기간은 최대 7일까지 선택할 수 있습니다")
+    ).toBeInTheDocument();
+
+    fireEvent.change(getInput(), {
+      target: { value: "2024-01-01 ~ 2024-01-07" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "저장" }));
+    await vi.waitFor(() =>
+      expect(handleSubmit).toHaveBeenCalledWith(
+        { period: { start: "2024-01-01", end: "2024-01-07" } },
+        expect.anything()
+      )
+    );
+  });
+});
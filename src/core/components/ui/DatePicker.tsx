@@ -0,0 +1,720 @@
+/**
+ * SoftOne Design System(SDS) - Core UI Component
+ * 작성: SoftOne Frontend Team
+ * 설명: 달력 팝업으로 날짜/기간을 고르는 입력 필드를 캡슐화합니다.
+ *      WAI-ARIA Date Picker Dialog 패턴(role="dialog" + grid)으로
+ *      직접 입력(YYYY-MM-DD, YYYYMMDD 등)과 달력 선택을 모두 지원합니다.
+ *
+ * DatePicker / DateRangePicker Components
+ * - Day.js 기반, 한국어 로케일 (요일/날짜 읽기 라벨)
+ * - minDate / maxDate / disabledDates로 선택 제한
+ * - DateRangePicker: 기간 프리셋 (오늘, 최근 7일, 이번 달)
+ * - 값은 문자열 ("YYYY-MM-DD"), 기간은 { start, end }
+ *
+ * 키보드 (달력):
+ *   ←/→ 하루, ↑/↓ 일주일, Home/End 주의 처음/끝
+ *   PageUp/PageDown 한 달 (Shift: 일 년)
+ *   Enter/Space 선택, Escape 닫기
+ * 키보드 (입력 필드):
+ *   ↓ 또는 Alt + ↓  달력 열기
+ */
+
+import React, {
+  useEffect,
+  useId,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from "react";
+import { CalendarDays, ChevronLeft, ChevronRight, X } from "lucide-react";
+import { cn } from "../../utils/classUtils";
+import { formatDateRange } from "../../utils/dateUtils";
+import {
+  DATE_VALUE_FORMAT,
+  DEFAULT_DATE_RANGE_PRESETS,
+  WEEKDAY_LABELS,
+  buildCalendarDays,
+  clampDate,
+  formatCalendarDayLabel,
+  formatCalendarMonth,
+  getTodayValue,
+  isDateDisabled,
+  isDateInRange,
+  moveCalendarDate,
+  normalizeDateRange,
+  parseDateInput,
+  parseDateRangeInput,
+  shiftDate,
+  type DateConstraints,
+  type DateRangeValue,
+} from "../../utils/datePickerUtils";
+import { Input } from "./Input";
+import type { DatePickerProps, DateRangePickerProps } from "./datePicker.types";
+
+// ========================================
+// Constants
+// ========================================
+
+/** 선택하지 않은 기간 */
+const EMPTY_RANGE: DateRangeValue = { start: null, end: null };
+
+const iconButtonClassName =
+  "rounded p-0.5 text-softone-text-muted hover:text-softone-text disabled:cursor-not-allowed disabled:opacity-40";
+
+const popupClassName =
+  "absolute left-0 top-full z-50 mt-1 rounded-md border border-softone-border bg-softone-surface p-3 shadow-lg";
+
+// ========================================
+// Helpers
+// ========================================
+
+/**
+ * 팝업이 열려 있을 때 바깥을 누르면 닫기
+ */
+function useCloseOnOutsideMouseDown(
+  containerRef: React.RefObject<HTMLDivElement | null>,
+  isOpen: boolean,
+  setIsOpen: (isOpen: boolean) => void
+) {
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleMouseDown);
+    return () => document.removeEventListener("mousedown", handleMouseDown);
+  }, [containerRef, isOpen, setIsOpen]);
+}
+
+// ========================================
+// Calendar (공통 달력 그리드)
+// ========================================
+
+interface CalendarProps {
+  /** 포커스 날짜 (이 날짜가 속한 달을 표시) */
+  focusedDate: string;
+  onFocusedDateChange: (date: string) => void;
+  constraints: DateConstraints;
+  /** 선택 표시할 날짜 */
+  isSelected: (date: string) => boolean;
+  /** 기간 안 날짜 (DateRangePicker) */
+  isInRange?: (date: string) => boolean;
+  onSelect: (date: string) => void;
+  /** 마우스/키보드로 가리킨 날짜 (기간 미리보기) */
+  onPreviewDate?: (date: string) => void;
+  /** 처음 열 때 포커스 날짜에 포커스 */
+  autoFocus?: boolean;
+}
+
+const Calendar: React.FC<CalendarProps> = ({
+  focusedDate,
+  onFocusedDateChange,
+  constraints,
+  isSelected,
+  isInRange,
+  onSelect,
+  onPreviewDate,
+  autoFocus = false,
+}) => {
+  const titleId = useId();
+  const gridRef = useRef<HTMLTableElement>(null);
+  /** 렌더링 후 포커스 날짜로 포커스를 옮길지 (키보드 이동) */
+  const pendingFocusRef = useRef(autoFocus);
+
+  const today = getTodayValue();
+  const days = buildCalendarDays(focusedDate);
+  const weeks = Array.from({ length: 6 }, (_, index) =>
+    days.slice(index * 7, index * 7 + 7)
+  );
+  const firstOfMonth = days.find((day) => day.inMonth)!.date;
+  const isPrevDisabled = Boolean(
+    constraints.minDate &&
+      shiftDate(firstOfMonth, -1, "day") < constraints.minDate
+  );
+  const isNextDisabled = Boolean(
+    constraints.maxDate &&
+      shiftDate(firstOfMonth, 1, "month") > constraints.maxDate
+  );
+
+  useEffect(() => {
+    if (!pendingFocusRef.current) return;
+    pendingFocusRef.current = false;
+    gridRef.current
+      ?.querySelector<HTMLButtonElement>(`[data-date="${focusedDate}"]`)
+      ?.focus();
+  });
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    // Enter/Space는 날짜 버튼의 click으로 처리
+    const nextDate = moveCalendarDate(focusedDate, event.key, event.shiftKey);
+    if (!nextDate) return;
+    event.preventDefault();
+    pendingFocusRef.current = true;
+    onFocusedDateChange(nextDate);
+    onPreviewDate?.(nextDate);
+  };
+
+  return (
+    <div className="w-72">
+      <div className="mb-2 flex items-center justify-between">
+        <button
+          type="button"
+          aria-label="이전 달"
+          disabled={isPrevDisabled}
+          className={iconButtonClassName}
+          onClick={() =>
+            onFocusedDateChange(shiftDate(focusedDate, -1, "month"))
+          }
+        >
+          <ChevronLeft className="w-4 h-4" aria-hidden="true" />
+        </button>
+        <div
+          id={titleId}
+          aria-live="polite"
+          className="text-sm font-semibold text-softone-text"
+        >
+          {formatCalendarMonth(focusedDate)}
+        </div>
+        <button
+          type="button"
+          aria-label="다음 달"
+          disabled={isNextDisabled}
+          className={iconButtonClassName}
+          onClick={() =>
+            onFocusedDateChange(shiftDate(focusedDate, 1, "month"))
+          }
+        >
+          <ChevronRight className="w-4 h-4" aria-hidden="true" />
+        </button>
+      </div>
+
+      <table
+        ref={gridRef}
+        role="grid"
+        aria-labelledby={titleId}
+        className="w-full border-collapse"
+        onKeyDown={handleKeyDown}
+      >
+        <thead>
+          <tr>
+            {WEEKDAY_LABELS.map((label, index) => (
+              <th
+                key={label}
+                scope="col"
+                className={cn(
+                  "h-8 text-xs font-medium",
+                  index === 0
+                    ? "text-softone-danger"
+                    : "text-softone-text-muted"
+                )}
+              >
+                {label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {weeks.map((week) => (
+            <tr key={week[0].date}>
+              {week.map((day) => {
+                const isDisabled = isDateDisabled(day.date, constraints);
+                const selected = isSelected(day.date);
+                const inRange = !selected && isInRange?.(day.date);
+
+                return (
+                  <td
+                    key={day.date}
+                    role="gridcell"
+                    aria-selected={selected}
+                    className="p-0.5 text-center"
+                  >
+                    <button
+                      type="button"
+                      data-date={day.date}
+                      tabIndex={day.date === focusedDate ? 0 : -1}
+                      aria-label={formatCalendarDayLabel(day.date)}
+                      aria-disabled={isDisabled || undefined}
+                      aria-current={day.date === today ? "date" : undefined}
+                      className={cn(
+                        "h-9 w-9 rounded-md text-sm transition-colors",
+                        "focus:outline-none focus-visible:ring-2 focus-visible:ring-softone-primary/40",
+                        day.inMonth
+                          ? "text-softone-text"
+                          : "text-softone-text-muted",
+                        day.date === today && "font-semibold underline",
+                        inRange && "bg-softone-primary/10",
+                        selected
+                          ? "bg-softone-primary text-white"
+                          : !isDisabled && "hover:bg-softone-bg",
+                        isDisabled && "cursor-not-allowed opacity-40"
+                      )}
+                      onClick={() => {
+                        onFocusedDateChange(day.date);
+                        if (!isDisabled) onSelect(day.date);
+                      }}
+                      onMouseEnter={() => onPreviewDate?.(day.date)}
+                    >
+                      {day.day}
+                    </button>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+// ========================================
+// Picker Field (입력 필드 + 버튼)
+// ========================================
+
+interface PickerFieldProps
+  extends Omit<React.InputHTMLAttributes<HTMLInputElement>, "size"> {
+  inputRef: React.Ref<HTMLInputElement>;
+  size?: DatePickerProps["size"];
+  error?: boolean;
+  fullWidth?: boolean;
+  isOpen: boolean;
+  /** 지우기 버튼 표시 */
+  showClear: boolean;
+  onClear: () => void;
+  onToggle: () => void;
+}
+
+const PickerField: React.FC<PickerFieldProps> = ({
+  inputRef,
+  isOpen,
+  showClear,
+  onClear,
+  onToggle,
+  disabled,
+  className,
+  ...props
+}) => (
+  <Input
+    {...props}
+    ref={inputRef}
+    type="text"
+    autoComplete="off"
+    disabled={disabled}
+    className={cn(showClear && "pr-16", className)}
+    rightElement={
+      <div className="flex items-center gap-1">
+        {showClear && (
+          <button
+            type="button"
+            tabIndex={-1}
+            aria-label="지우기"
+            className={iconButtonClassName}
+            onClick={onClear}
+          >
+            <X className="w-4 h-4" aria-hidden="true" />
+          </button>
+        )}
+        <button
+          type="button"
+          aria-label={isOpen ? "달력 닫기" : "달력 열기"}
+          aria-haspopup="dialog"
+          aria-expanded={isOpen}
+          disabled={disabled}
+          className={iconButtonClassName}
+          onClick={onToggle}
+        >
+          <CalendarDays className="w-4 h-4" aria-hidden="true" />
+        </button>
+      </div>
+    }
+  />
+);
+
+// ========================================
+// DatePicker Component
+// ========================================
+
+export const DatePicker: React.FC<DatePickerProps> = ({
+  value,
+  defaultValue = null,
+  onChange,
+  showTodayButton = true,
+  clearable = true,
+  minDate,
+  maxDate,
+  disabledDates,
+  placeholder = "YYYY-MM-DD",
+  disabled = false,
+  fullWidth = false,
+  onBlur,
+  ref,
+  className,
+  ...inputProps
+}) => {
+  const isControlled = value !== undefined;
+  const [internalValue, setInternalValue] = useState(defaultValue);
+  const currentValue = (isControlled ? value : internalValue) || null;
+  const constraints: DateConstraints = { minDate, maxDate, disabledDates };
+  const today = getTodayValue();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [focusedDate, setFocusedDate] = useState(currentValue ?? today);
+  /** 달력을 열 때 날짜에 포커스할지 (입력 중에 열면 입력 필드 유지) */
+  const [focusCalendar, setFocusCalendar] = useState(false);
+  /** 입력 중인 텍스트 (입력 중이 아니면 null → 선택 값 표시) */
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  useImperativeHandle(ref, () => inputRef.current!, []);
+  useCloseOnOutsideMouseDown(containerRef, isOpen, setIsOpen);
+
+  const updateValue = (nextValue: string | null) => {
+    if (!isControlled) setInternalValue(nextValue);
+    onChange?.(nextValue);
+  };
+
+  const openCalendar = (shouldFocusCalendar: boolean) => {
+    if (disabled) return;
+    setFocusedDate(clampDate(currentValue ?? today, constraints));
+    setFocusCalendar(shouldFocusCalendar);
+    setIsOpen(true);
+  };
+
+  const selectDate = (date: string) => {
+    updateValue(date);
+    setDraft(null);
+    setIsOpen(false);
+    inputRef.current?.focus();
+  };
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const text = event.target.value;
+    setDraft(text);
+
+    const parsed = parseDateInput(text);
+    if (parsed && !isDateDisabled(parsed, constraints)) {
+      updateValue(parsed);
+      setFocusedDate(parsed);
+    } else if (!text.trim() && clearable && currentValue) {
+      updateValue(null);
+    }
+  };
+
+  const handleInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown" && (event.altKey || !isOpen)) {
+      event.preventDefault();
+      openCalendar(true);
+    } else if (event.key === "Enter") {
+      // 잘못 입력한 텍스트는 선택 값으로 되돌림
+      setDraft(null);
+      setIsOpen(false);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key !== "Escape" || !isOpen) return;
+    // 모달이 함께 닫히지 않도록 전파 중단
+    event.preventDefault();
+    event.stopPropagation();
+    setIsOpen(false);
+    inputRef.current?.focus();
+  };
+
+  const handleBlur = (event: React.FocusEvent<HTMLDivElement>) => {
+    const nextFocus = event.relatedTarget as Node | null;
+    if (nextFocus && event.currentTarget.contains(nextFocus)) return;
+    if (nextFocus) setIsOpen(false);
+    setDraft(null);
+    onBlur?.();
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn(
+        "relative",
+        fullWidth ? "w-full" : "inline-block",
+        className
+      )}
+      onKeyDown={handleKeyDown}
+      onBlur={handleBlur}
+    >
+      <PickerField
+        {...inputProps}
+        inputRef={inputRef}
+        value={draft ?? currentValue ?? ""}
+        placeholder={placeholder}
+        disabled={disabled}
+        fullWidth={fullWidth}
+        inputMode="numeric"
+        isOpen={isOpen}
+        showClear={clearable && Boolean(currentValue) && !disabled}
+        onClear={() => {
+          updateValue(null);
+          setDraft(null);
+        }}
+        onToggle={() => (isOpen ? setIsOpen(false) : openCalendar(true))}
+        onChange={handleInputChange}
+        onKeyDown={handleInputKeyDown}
+      />
+
+      {isOpen && (
+        <div role="dialog" aria-label="날짜 선택" className={popupClassName}>
+          <Calendar
+            focusedDate={focusedDate}
+            onFocusedDateChange={setFocusedDate}
+            constraints={constraints}
+            isSelected={(date) => date === currentValue}
+            onSelect={selectDate}
+            autoFocus={focusCalendar}
+          />
+          {showTodayButton && (
+            <div className="mt-2 flex justify-end border-t border-softone-border pt-2">
+              <button
+                type="button"
+                disabled={isDateDisabled(today, constraints)}
+                className="rounded px-2 py-1 text-sm text-softone-primary hover:bg-softone-primary/10 disabled:cursor-not-allowed disabled:opacity-40"
+                onClick={() => selectDate(today)}
+              >
+                오늘
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ========================================
+// DateRangePicker Component
+// ========================================
+
+export const DateRangePicker: React.FC<DateRangePickerProps> = ({
+  value,
+  defaultValue = EMPTY_RANGE,
+  onChange,
+  presets = DEFAULT_DATE_RANGE_PRESETS,
+  clearable = true,
+  minDate,
+  maxDate,
+  disabledDates,
+  placeholder = "YYYY-MM-DD ~ YYYY-MM-DD",
+  disabled = false,
+  fullWidth = false,
+  onBlur,
+  ref,
+  className,
+  ...inputProps
+}) => {
+  const isControlled = value !== undefined;
+  const [internalValue, setInternalValue] = useState(defaultValue);
+  const currentValue = (isControlled ? value : internalValue) ?? EMPTY_RANGE;
+  const hasValue = Boolean(currentValue.start || currentValue.end);
+  const constraints: DateConstraints = { minDate, maxDate, disabledDates };
+  const today = getTodayValue();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [focusedDate, setFocusedDate] = useState(currentValue.start ?? today);
+  const [focusCalendar, setFocusCalendar] = useState(false);
+  const [draft, setDraft] = useState<string | null>(null);
+  /** 먼저 고른 날짜 (종료일을 고르기 전) */
+  const [pendingStart, setPendingStart] = useState<string | null>(null);
+  /** 종료일 미리보기 날짜 */
+  const [previewDate, setPreviewDate] = useState<string | null>(null);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  useImperativeHandle(ref, () => inputRef.current!, []);
+  useCloseOnOutsideMouseDown(containerRef, isOpen, setIsOpen);
+
+  const updateValue = (nextValue: DateRangeValue) => {
+    if (!isControlled) setInternalValue(nextValue);
+    onChange?.(nextValue);
+  };
+
+  const openCalendar = (shouldFocusCalendar: boolean) => {
+    if (disabled) return;
+    setFocusedDate(clampDate(currentValue.start ?? today, constraints));
+    setFocusCalendar(shouldFocusCalendar);
+    setPendingStart(null);
+    setPreviewDate(null);
+    setIsOpen(true);
+  };
+
+  const commitRange = (range: DateRangeValue) => {
+    updateValue(range);
+    setDraft(null);
+    setPendingStart(null);
+    setIsOpen(false);
+    inputRef.current?.focus();
+  };
+
+  const selectDate = (date: string) => {
+    if (!pendingStart) {
+      setPendingStart(date);
+      setPreviewDate(date);
+      return;
+    }
+    commitRange(normalizeDateRange(pendingStart, date));
+  };
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const text = event.target.value;
+    setDraft(text);
+
+    const parsed = parseDateRangeInput(text);
+    if (
+      parsed &&
+      !isDateDisabled(parsed.start!, constraints) &&
+      !isDateDisabled(parsed.end!, constraints)
+    ) {
+      updateValue(parsed);
+      setFocusedDate(parsed.start!);
+    } else if (!text.trim() && clearable && hasValue) {
+      updateValue(EMPTY_RANGE);
+    }
+  };
+
+  const handleInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown" && (event.altKey || !isOpen)) {
+      event.preventDefault();
+      openCalendar(true);
+    } else if (event.key === "Enter") {
+      setDraft(null);
+      setIsOpen(false);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key !== "Escape" || !isOpen) return;
+    event.preventDefault();
+    event.stopPropagation();
+    setIsOpen(false);
+    inputRef.current?.focus();
+  };
+
+  const handleBlur = (event: React.FocusEvent<HTMLDivElement>) => {
+    const nextFocus = event.relatedTarget as Node | null;
+    if (nextFocus && event.currentTarget.contains(nextFocus)) return;
+    if (nextFocus) setIsOpen(false);
+    setDraft(null);
+    onBlur?.();
+  };
+
+  const isPresetDisabled = (range: DateRangeValue) =>
+    !range.start ||
+    !range.end ||
+    isDateDisabled(range.start, { minDate, maxDate }) ||
+    isDateDisabled(range.end, { minDate, maxDate });
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn(
+        "relative",
+        fullWidth ? "w-full" : "inline-block",
+        className
+      )}
+      onKeyDown={handleKeyDown}
+      onBlur={handleBlur}
+    >
+      <PickerField
+        {...inputProps}
+        inputRef={inputRef}
+        value={
+          draft ??
+          formatDateRange(
+            currentValue.start,
+            currentValue.end,
+            DATE_VALUE_FORMAT
+          )
+        }
+        placeholder={placeholder}
+        disabled={disabled}
+        fullWidth={fullWidth}
+        isOpen={isOpen}
+        showClear={clearable && hasValue && !disabled}
+        onClear={() => {
+          updateValue(EMPTY_RANGE);
+          setDraft(null);
+        }}
+        onToggle={() => (isOpen ? setIsOpen(false) : openCalendar(true))}
+        onChange={handleInputChange}
+        onKeyDown={handleInputKeyDown}
+      />
+
+      {isOpen && (
+        <div
+          role="dialog"
+          aria-label="기간 선택"
+          className={cn(popupClassName, "flex gap-3")}
+        >
+          {presets.length > 0 && (
+            <div
+              role="group"
+              aria-label="기간 프리셋"
+              className="flex w-24 flex-col gap-1 border-r border-softone-border pr-3"
+            >
+              {presets.map((preset) => {
+                const range = preset.getRange(today);
+                const isActive =
+                  range.start === currentValue.start &&
+                  range.end === currentValue.end;
+                return (
+                  <button
+                    key={preset.label}
+                    type="button"
+                    aria-pressed={isActive}
+                    disabled={isPresetDisabled(range)}
+                    className={cn(
+                      "rounded px-2 py-1 text-left text-sm transition-colors",
+                      "disabled:cursor-not-allowed disabled:opacity-40",
+                      isActive
+                        ? "bg-softone-primary/10 text-softone-primary"
+                        : "text-softone-text hover:bg-softone-bg"
+                    )}
+                    onClick={() => commitRange(range)}
+                  >
+                    {preset.label}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          <div>
+            <Calendar
+              focusedDate={focusedDate}
+              onFocusedDateChange={setFocusedDate}
+              constraints={constraints}
+              isSelected={(date) =>
+                pendingStart
+                  ? date === pendingStart
+                  : date === currentValue.start || date === currentValue.end
+              }
+              isInRange={(date) =>
+                pendingStart
+                  ? isDateInRange(date, pendingStart, previewDate)
+                  : isDateInRange(date, currentValue.start, currentValue.end)
+              }
+              onSelect={selectDate}
+              onPreviewDate={setPreviewDate}
+              autoFocus={focusCalendar}
+            />
+            <p
+              aria-live="polite"
+              className="mt-2 text-xs text-softone-text-muted"
+            >
+              {pendingStart ? "종료일을 선택하세요" : "시작일을 선택하세요"}
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
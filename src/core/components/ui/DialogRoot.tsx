@@ -6,6 +6,8 @@
  * - 전역 DialogContainer 역할
  * - dialogStore.dialogs 배열을 순회하며 각각을 적절한 타입의 Dialog로 렌더링
  * - App.tsx 또는 MainLayout 내부에서 한 번만 렌더링
+ * - 저장하지 않은 변경 사항 확인(UnsavedChangesDialog)도 함께 렌더링
+ * - deepLink 다이얼로그의 URL 동기화(DialogUrlSync)도 함께 처리
  *
  * [A11y 고려]
  * - 각 다이얼로그 타입에 맞는 컴포넌트가 접근성 처리
@@ -34,6 +36,8 @@ import { BaseModal } from "./BaseModal";
 import { ConfirmDialog } from "./ConfirmDialog";
 import { Drawer } from "./Drawer";
 import { FormDialog } from "./FormDialog";
+import { UnsavedChangesDialog } from "./UnsavedChangesDialog";
+import { DialogUrlSync } from "./DialogUrlSync";
 
 // ========================================
 // Types
@@ -143,27 +147,17 @@ const FormDialogItem: React.FC<DialogItemProps> = ({
   }
 
   // 기본 FormDialog 렌더링
-  const handleSubmit = async (values: Record<string, unknown>) => {
-    if (dialog.onSubmit) {
-      await dialog.onSubmit(values);
-    }
-    onClose();
-  };
-
-  const handleCancel = () => {
-    dialog.onCancel?.();
-    onClose();
-  };
-
+  // 닫기는 FormDialog가 처리 (저장에 성공하면 가드를 해제한 뒤 onClose 호출)
   return (
     <FormDialog
       isOpen={true}
-      onClose={handleCancel}
+      onClose={onClose}
       title={dialog.title}
       size={dialog.size}
       defaultValues={dialog.initialValues}
-      onSubmit={handleSubmit}
-      onCancel={handleCancel}
+      onSubmit={dialog.onSubmit}
+      onCancel={dialog.onCancel}
+      guardScope={dialog.id}
     >
       {() => (
         <div className="text-softone-text-secondary text-center py-8">
@@ -221,12 +215,15 @@ export const DialogRoot: React.FC<DialogRootProps> = ({ formRenderers }) => {
     });
   }, [dialogs, closeDialog, formRenderers]);
 
-  // 다이얼로그가 없으면 아무것도 렌더링하지 않음
-  if (dialogs.length === 0) {
-    return null;
-  }
-
-  return <>{renderedDialogs}</>;
+  return (
+    <>
+      {renderedDialogs}
+      {/* 변경 내용 버리기 확인 (다이얼로그 위에 표시) */}
+      <UnsavedChangesDialog />
+      {/* deepLink 다이얼로그 ↔ URL 쿼리 파라미터 */}
+      <DialogUrlSync />
+    </>
+  );
 };
 
 DialogRoot.displayName = "DialogRoot";
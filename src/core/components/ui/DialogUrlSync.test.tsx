@@ -0,0 +1,193 @@
+/**
+ * SoftOne Design System - DialogUrlSync Tests
+ * deepLink 다이얼로그 ↔ URL 동기화, 뒤로 가기 닫기, URL로 다시 열기 테스트
+ */
+
+import React, { useEffect, useMemo } from "react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { render, act, waitFor } from "@testing-library/react";
+import {
+  MemoryRouter,
+  useLocation,
+  useNavigate,
+  type Location,
+} from "react-router-dom";
+import { DialogUrlSync } from "./DialogUrlSync";
+import {
+  NavigationProvider,
+  type NavigationApi,
+} from "../../router/NavigationContext";
+import { useDialogStore } from "../../store/dialogStore";
+import { useUnsavedChangesStore } from "../../store/unsavedChangesStore";
+import {
+  useDialogDeepLink,
+  type DialogDeepLinkOpener,
+} from "../../hooks/useDialogDeepLink";
+
+let currentLocation: Location;
+let goBack: () => void;
+
+/** React Router 기반 NavigationApi (SpaNavigationProvider 축소판) */
+const TestNavigation: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  useEffect(() => {
+    currentLocation = location;
+    goBack = () => navigate(-1);
+  }, [location, navigate]);
+
+  const navigation: NavigationApi = useMemo(
+    () => ({
+      push: (path) => navigate(path),
+      replace: (path) => navigate(path, { replace: true }),
+      back: () => navigate(-1),
+      forward: () => navigate(1),
+      getCurrentPath: () => location.pathname,
+      getQueryParams: () => new URLSearchParams(location.search),
+    }),
+    [navigate, location]
+  );
+
+  return (
+    <NavigationProvider navigation={navigation}>{children}</NavigationProvider>
+  );
+};
+
+const DeepLinkPage: React.FC<{
+  open: DialogDeepLinkOpener;
+  enabled: boolean;
+}> = ({ open, enabled }) => {
+  useDialogDeepLink("productDetail", open, { enabled });
+  return null;
+};
+
+const openProductDetail = (id: string) =>
+  useDialogStore.getState().openDialog({
+    id: `detail-${id}`,
+    type: "drawer",
+    formKey: "productDetail",
+    payload: { id },
+    deepLink: true,
+  });
+
+function renderSync(initialEntry = "/products?page=2", page?: React.ReactNode) {
+  return render(
+    <MemoryRouter initialEntries={[initialEntry]}>
+      <TestNavigation>
+        <DialogUrlSync />
+        {page}
+      </TestNavigation>
+    </MemoryRouter>
+  );
+}
+
+describe("DialogUrlSync", () => {
+  beforeEach(() => {
+    useDialogStore.setState({ dialogs: [] });
+    useUnsavedChangesStore.setState({ guards: [], pendingConfirm: null });
+  });
+
+  it("deepLink 다이얼로그를 열면 쿼리 파라미터를 추가하고, 뒤로 가기로 닫는다", async () => {
+    renderSync();
+
+    act(() => {
+      openProductDetail("P1");
+    });
+    await waitFor(() =>
+      expect(currentLocation.search).toBe("?page=2&dialog=productDetail%3AP1")
+    );
+
+    act(() => goBack());
+    await waitFor(() =>
+      expect(useDialogStore.getState().dialogs).toHaveLength(0)
+    );
+    expect(currentLocation.pathname).toBe("/products");
+    expect(currentLocation.search).toBe("?page=2");
+  });
+
+  it("화면에서 닫으면 추가했던 기록으로 되돌아간다", async () => {
+    renderSync();
+
+    act(() => {
+      openProductDetail("P1");
+    });
+    await waitFor(() => expect(currentLocation.search).toContain("dialog="));
+
+    act(() => useDialogStore.getState().closeDialog());
+    await waitFor(() => expect(currentLocation.search).toBe("?page=2"));
+  });
+
+  it("deepLink가 아닌 다이얼로그는 URL에 반영하지 않는다", async () => {
+    renderSync();
+
+    act(() => {
+      useDialogStore.getState().openDialog({ type: "modal" });
+    });
+    await Promise.resolve();
+    expect(currentLocation.search).toBe("?page=2");
+  });
+
+  it("계속 편집을 선택하면 다이얼로그를 유지하고 파라미터를 복원한다", async () => {
+    renderSync();
+
+    act(() => {
+      openProductDetail("P1");
+    });
+    await waitFor(() => expect(currentLocation.search).toContain("dialog="));
+    useUnsavedChangesStore.getState().setGuard({
+      id: "form",
+      isDirty: true,
+      tabKey: null,
+      scope: "detail-P1",
+    });
+
+    act(() => goBack());
+    await waitFor(() =>
+      expect(useUnsavedChangesStore.getState().pendingConfirm).not.toBeNull()
+    );
+    act(() => useUnsavedChangesStore.getState().resolvePendingConfirm(false));
+
+    await waitFor(() =>
+      expect(currentLocation.search).toBe("?page=2&dialog=productDetail%3AP1")
+    );
+    expect(useDialogStore.getState().dialogs).toHaveLength(1);
+  });
+
+  it("URL의 파라미터로 데이터 준비 후 다시 열고, 대상이 없으면 파라미터를 제거한다", async () => {
+    const open = vi.fn((id: string | null) => {
+      if (id !== "P1") return false;
+      openProductDetail(id);
+    });
+
+    const { rerender, unmount } = renderSync(
+      "/products?dialog=productDetail:P1",
+      <DeepLinkPage open={open} enabled={false} />
+    );
+    expect(open).not.toHaveBeenCalled();
+
+    rerender(
+      <MemoryRouter initialEntries={["/products?dialog=productDetail:P1"]}>
+        <TestNavigation>
+          <DialogUrlSync />
+          <DeepLinkPage open={open} enabled />
+        </TestNavigation>
+      </MemoryRouter>
+    );
+    await waitFor(() =>
+      expect(useDialogStore.getState().dialogs).toHaveLength(1)
+    );
+    expect(open).toHaveBeenCalledWith("P1");
+    expect(open).toHaveBeenCalledTimes(1);
+
+    unmount();
+    useDialogStore.setState({ dialogs: [] });
+    renderSync(
+      "/products?dialog=productDetail:MISSING",
+      <DeepLinkPage open={open} enabled />
+    );
+    await waitFor(() => expect(currentLocation.search).toBe(""));
+    expect(open).toHaveBeenLastCalledWith("MISSING");
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * SoftOne Design System(SDS) - DialogUrlSync Component
+ * 작성: SoftOne Frontend Team
+ *
+ * [목적]
+ * - deepLink 다이얼로그를 URL 쿼리 파라미터(?dialog=키:ID)와 동기화
+ *   - 다이얼로그를 열면 파라미터를 추가한 주소로 이동 (history push)
+ *   - 화면에서 닫으면 추가했던 기록으로 되돌아가거나(back) 파라미터 제거(replace)
+ *   - 브라우저 뒤로 가기로 파라미터가 사라지면 화면을 떠나지 않고 맨 위 다이얼로그만 닫음
+ *     (저장하지 않은 변경 사항이 있으면 확인, 계속 편집하면 파라미터 복원)
+ * - URL로 다시 여는 것은 화면의 useDialogDeepLink가 담당합니다.
+ * - DialogRoot에 포함되어 있으므로 별도로 렌더링할 필요가 없습니다.
+ */
+
+import React, { useEffect, useMemo, useRef } from "react";
+import { useNavigation } from "../../router/NavigationContext";
+import {
+  DIALOG_QUERY_PARAM,
+  buildDialogHref,
+  getDialogDeepLinkValue,
+} from "../../router/dialogDeepLink";
+import { useDialogStore, type DialogOptions } from "../../store/dialogStore";
+import {
+  inGuardScope,
+  useUnsavedChangesStore,
+} from "../../store/unsavedChangesStore";
+
+// ========================================
+// Types
+// ========================================
+
+interface LinkedDialog {
+  dialog: DialogOptions;
+  value: string;
+}
+
+// ========================================
+// DialogUrlSync Component
+// ========================================
+
+export const DialogUrlSync: React.FC = () => {
+  const navigation = useNavigation();
+  const dialogs = useDialogStore((state) => state.dialogs);
+  const urlValue = navigation.getQueryParams().get(DIALOG_QUERY_PARAM);
+
+  // 열린 deepLink 다이얼로그 (아래 → 위)
+  const linkedDialogs = useMemo(
+    () =>
+      dialogs.flatMap((dialog): LinkedDialog[] => {
+        const value = getDialogDeepLinkValue(dialog);
+        return value === null ? [] : [{ dialog, value }];
+      }),
+    [dialogs]
+  );
+  const storeValue = linkedDialogs[linkedDialogs.length - 1]?.value ?? null;
+
+  const previousRef = useRef({ storeValue, urlValue, linkedDialogs });
+  /** 이 컴포넌트가 push한 기록의 파라미터 값 (아래 → 위) */
+  const pushedValuesRef = useRef<string[]>([]);
+
+  useEffect(() => {
+    const previous = previousRef.current;
+    previousRef.current = { storeValue, urlValue, linkedDialogs };
+    if (storeValue === urlValue) return;
+
+    const hrefWith = (value: string | null) =>
+      buildDialogHref(
+        navigation.getCurrentPath(),
+        navigation.getQueryParams(),
+        value
+      );
+
+    // URL 변경 (뒤로/앞으로 가기, 링크): URL 다이얼로그 위의 다이얼로그 닫기
+    if (urlValue !== previous.urlValue) {
+      const pushedIndex =
+        urlValue === null ? -1 : pushedValuesRef.current.indexOf(urlValue);
+      pushedValuesRef.current = pushedValuesRef.current.slice(
+        0,
+        pushedIndex + 1
+      );
+
+      const keepIndex = linkedDialogs.findIndex(
+        ({ value }) => value === urlValue
+      );
+      const targets = linkedDialogs.slice(keepIndex + 1).reverse();
+      if (targets.length === 0) return;
+
+      void (async () => {
+        const { closeDialog } = useDialogStore.getState();
+        for (const { dialog, value } of targets) {
+          const id = dialog.id as string;
+          const confirmed = await useUnsavedChangesStore
+            .getState()
+            .confirmDiscardChanges(inGuardScope(id));
+          if (!confirmed) {
+            // 계속 편집: 닫지 않은 다이얼로그의 파라미터 복원
+            pushedValuesRef.current.push(value);
+            navigation.push(hrefWith(value), { scroll: false });
+            break;
+          }
+          closeDialog(id);
+        }
+      })();
+      return;
+    }
+
+    if (storeValue === previous.storeValue) return;
+
+    // 다이얼로그 열림: 파라미터를 추가한 기록 push (뒤로 가기로 닫을 수 있도록)
+    const isOpened =
+      storeValue !== null &&
+      !previous.linkedDialogs.some(({ value }) => value === storeValue);
+    if (isOpened) {
+      pushedValuesRef.current.push(storeValue);
+      navigation.push(hrefWith(storeValue), { scroll: false });
+      return;
+    }
+
+    // URL의 다이얼로그가 화면에서 닫힘: push한 기록이면 되돌아가고, 아니면 파라미터만 교체
+    const isUrlDialogClosed =
+      previous.linkedDialogs.some(({ value }) => value === urlValue) &&
+      !linkedDialogs.some(({ value }) => value === urlValue);
+    if (!isUrlDialogClosed) return;
+
+    const pushedValues = pushedValuesRef.current;
+    if (pushedValues[pushedValues.length - 1] === urlValue) {
+      pushedValues.pop();
+      navigation.back();
+    } else {
+      navigation.replace(hrefWith(storeValue), { scroll: false });
+    }
+  }, [storeValue, urlValue, linkedDialogs, navigation]);
+
+  return null;
+};
+
+DialogUrlSync.displayName = "DialogUrlSync";
+
+export default DialogUrlSync;
@@ -31,6 +31,7 @@ import React, {
 import { createPortal } from "react-dom";
 import { X } from "lucide-react";
 import { cn } from "../../utils/classUtils";
+import { useWorkspaceTabActive } from "../../hooks/useWorkspaceTabActive";
 
 // ========================================
 // Types
@@ -117,7 +118,7 @@ const getFocusableElements = (container: HTMLElement): HTMLElement[] => {
 // ========================================
 
 export const Drawer: React.FC<DrawerProps> = ({
-  isOpen,
+  isOpen: isOpenProp,
   onClose,
   title,
   children,
@@ -134,6 +135,10 @@ export const Drawer: React.FC<DrawerProps> = ({
   const drawerRef = useRef<HTMLDivElement>(null);
   const previousActiveElement = useRef<HTMLElement | null>(null);
 
+  // 비활성 작업 공간 탭에서는 열림 상태를 유지한 채 숨김
+  const isTabActive = useWorkspaceTabActive();
+  const isOpen = isOpenProp && isTabActive;
+
   // 고유 ID 생성
   const uniqueId =
     drawerId ?? `drawer-${Math.random().toString(36).substr(2, 9)}`;
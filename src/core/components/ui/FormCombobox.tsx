@@ -0,0 +1,120 @@
+/**
+ * SoftOne Design System(SDS) - Core UI Component
+ * 작성: SoftOne Frontend Team
+ * 설명: Combobox / MultiSelect / Autocomplete를 react-hook-form 필드로 연결하는 어댑터입니다.
+ *      FormDialog의 fields 설정(type: "combobox" | "multiselect" | "autocomplete")에서 사용하며,
+ *      FormFieldWrapper 안에 직접 두면 id/aria 속성이 입력 필드까지 전달됩니다.
+ *
+ * 필드 값:
+ *   - combobox:     선택한 값 (선택 해제 시 빈 문자열)
+ *   - multiselect:  선택한 값 배열
+ *   - autocomplete: 입력한 텍스트 (옵션을 고르면 옵션 라벨)
+ *
+ * @example
+ * <FormFieldWrapper label="담당자" errorMessage={errors.ownerId?.message}>
+ *   <FormCombobox
+ *     name="ownerId"
+ *     control={control}
+ *     type="combobox"
+ *     loadOptions={searchUserOptions}
+ *   />
+ * </FormFieldWrapper>
+ */
+
+import React from "react";
+import {
+  useController,
+  type Control,
+  type FieldValues,
+  type Path,
+} from "react-hook-form";
+import { Autocomplete, Combobox, MultiSelect } from "./Combobox";
+import type {
+  ComboboxCommonProps,
+  ComboboxFieldOptions,
+  FormComboboxType,
+} from "./combobox.types";
+
+// ========================================
+// FormCombobox Types
+// ========================================
+
+export interface FormComboboxProps<T extends FieldValues>
+  extends Omit<ComboboxCommonProps, "name" | "ref" | "onBlur">,
+    ComboboxFieldOptions {
+  /** 필드 이름 */
+  name: Path<T>;
+  /** useForm의 control */
+  control: Control<T>;
+  /** 컴포넌트 종류 */
+  type: FormComboboxType;
+}
+
+// ========================================
+// FormCombobox Component
+// ========================================
+
+export function FormCombobox<T extends FieldValues>({
+  name,
+  control,
+  type,
+  selectedOptions,
+  maxSelected,
+  clearable,
+  creatable,
+  onCreateOption,
+  formatCreateLabel,
+  disabled,
+  error,
+  ...props
+}: FormComboboxProps<T>): React.ReactElement {
+  const { field, fieldState } = useController({ name, control });
+
+  const commonProps = {
+    ...props,
+    name: field.name,
+    ref: field.ref,
+    onBlur: field.onBlur,
+    disabled: disabled || field.disabled,
+    error: error ?? Boolean(fieldState.error),
+  };
+
+  switch (type) {
+    case "multiselect":
+      return (
+        <MultiSelect
+          {...commonProps}
+          value={Array.isArray(field.value) ? field.value : []}
+          onChange={(values) => field.onChange(values)}
+          selectedOptions={selectedOptions}
+          maxSelected={maxSelected}
+          creatable={creatable}
+          onCreateOption={onCreateOption}
+          formatCreateLabel={formatCreateLabel}
+        />
+      );
+
+    case "autocomplete":
+      return (
+        <Autocomplete
+          {...commonProps}
+          value={field.value ?? ""}
+          onChange={(value) => field.onChange(value)}
+        />
+      );
+
+    default:
+      return (
+        <Combobox
+          {...commonProps}
+          value={field.value ?? null}
+          onChange={(value) => field.onChange(value ?? "")}
+          selectedOption={selectedOptions?.[0]}
+          clearable={clearable}
+          creatable={creatable}
+          onCreateOption={onCreateOption}
+          formatCreateLabel={formatCreateLabel}
+        />
+      );
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * SoftOne Design System(SDS) - Core UI Component
+ * 작성: SoftOne Frontend Team
+ * 설명: DatePicker / DateRangePicker / TimePicker를 react-hook-form 필드로 연결하는 어댑터입니다.
+ *      FormDialog의 fields 설정(type: "date" | "daterange" | "time")에서 사용하며,
+ *      검증은 dateSchema / dateRangeSchema / timeSchema(zod)와 함께 사용합니다.
+ *
+ * 필드 값:
+ *   - date:      "YYYY-MM-DD" (선택 해제 시 빈 문자열)
+ *   - daterange: { start, end } (선택 해제 시 둘 다 null)
+ *   - time:      "HH:mm" (선택 해제 시 빈 문자열)
+ *
+ * @example
+ * <FormFieldWrapper label="시작일" errorMessage={errors.startDate?.message}>
+ *   <FormDatePicker name="startDate" control={control} type="date" />
+ * </FormFieldWrapper>
+ */
+
+import React from "react";
+import {
+  useController,
+  type Control,
+  type FieldValues,
+  type Path,
+} from "react-hook-form";
+import { DatePicker, DateRangePicker } from "./DatePicker";
+import { TimePicker } from "./TimePicker";
+import type {
+  DateFieldOptions,
+  FormDateFieldType,
+  PickerInputProps,
+} from "./datePicker.types";
+
+// ========================================
+// FormDatePicker Types
+// ========================================
+
+export interface FormDatePickerProps<T extends FieldValues>
+  extends Omit<PickerInputProps, "name" | "ref" | "onBlur">,
+    DateFieldOptions {
+  /** 필드 이름 */
+  name: Path<T>;
+  /** useForm의 control */
+  control: Control<T>;
+  /** 컴포넌트 종류 (기본: date) */
+  type?: FormDateFieldType;
+}
+
+// ========================================
+// FormDatePicker Component
+// ========================================
+
+export function FormDatePicker<T extends FieldValues>({
+  name,
+  control,
+  type = "date",
+  minDate,
+  maxDate,
+  disabledDates,
+  presets,
+  clearable,
+  minuteStep,
+  minTime,
+  maxTime,
+  disabled,
+  error,
+  ...props
+}: FormDatePickerProps<T>): React.ReactElement {
+  const { field, fieldState } = useController({ name, control });
+
+  const commonProps = {
+    ...props,
+    name: field.name,
+    ref: field.ref,
+    onBlur: field.onBlur,
+    disabled: disabled || field.disabled,
+    error: error ?? Boolean(fieldState.error),
+  };
+  const constraints = { minDate, maxDate, disabledDates };
+
+  switch (type) {
+    case "daterange":
+      return (
+        <DateRangePicker
+          {...commonProps}
+          {...constraints}
+          value={{
+            start: field.value?.start ?? null,
+            end: field.value?.end ?? null,
+          }}
+          onChange={(range) => field.onChange(range)}
+          presets={presets}
+          clearable={clearable}
+        />
+      );
+
+    case "time":
+      return (
+        <TimePicker
+          {...commonProps}
+          value={field.value ?? null}
+          onChange={(value) => field.onChange(value ?? "")}
+          minuteStep={minuteStep}
+          minTime={minTime}
+          maxTime={maxTime}
+        />
+      );
+
+    default:
+      return (
+        <DatePicker
+          {...commonProps}
+          {...constraints}
+          value={field.value ?? null}
+          onChange={(value) => field.onChange(value ?? "")}
+          clearable={clearable}
+        />
+      );
+  }
+}
@@ -7,6 +7,14 @@
  * - 사용자 생성/수정, 설정 변경 등 폼 모달을 빠르게 구현
  * - 유효성 검사, 제출 상태 관리를 캡슐화
  *
+ * [저장하지 않은 변경 사항]
+ * - 입력 내용이 있을 때 취소/닫기하면 "변경 내용 버리기"를 확인 (useUnsavedChangesGuard)
+ * - guardScope(dialogStore 다이얼로그 ID)를 주면 dialogStore.closeDialog도 확인 후 닫힘
+ *
+ * [서버 에러 처리]
+ * - onSubmit이 throw 하면 다이얼로그를 닫지 않고 handleApiError 기본 정책을 적용
+ *   (필드 오류 → 해당 입력 필드 아래 표시, 그 외 → 에러 토스트)
+ *
  * [A11y 고려]
  * - 폼 필드에 적절한 label 연결
  * - 에러 메시지 연결 (aria-describedby)
@@ -52,9 +60,20 @@ import { cn } from "../../utils/classUtils";
 import { BaseModal, type ModalSize } from "./BaseModal";
 import { Button } from "./Button";
 import { Input } from "./Input";
-import { Select, type SelectOption } from "./Select";
+import { Select } from "./Select";
 import { Checkbox } from "./Checkbox";
 import { FormFieldWrapper } from "./FormFieldWrapper";
+import { FormCombobox } from "./FormCombobox";
+import { FormDatePicker } from "./FormDatePicker";
+import type {
+  ComboboxFieldOptions,
+  ComboboxOption,
+  FormComboboxType,
+} from "./combobox.types";
+import type { DateFieldOptions, FormDateFieldType } from "./datePicker.types";
+import type { ApiError } from "../../api/apiError";
+import { handleApiError } from "../../api/apiErrorHandler";
+import { useUnsavedChangesGuard } from "../../hooks/useUnsavedChangesGuard";
 
 // ========================================
 // Types
@@ -69,7 +88,16 @@ export type FormFieldType =
   | "textarea"
   | "select"
   | "checkbox"
-  | "date";
+  | FormDateFieldType
+  | FormComboboxType;
+
+const COMBOBOX_FIELD_TYPES: FormFieldType[] = [
+  "combobox",
+  "multiselect",
+  "autocomplete",
+];
+
+const DATE_FIELD_TYPES: FormFieldType[] = ["date", "daterange", "time"];
 
 export interface FormFieldConfig<T extends FieldValues = FieldValues> {
   /** 필드 이름 (폼 데이터의 키) */
@@ -82,8 +110,12 @@ export interface FormFieldConfig<T extends FieldValues = FieldValues> {
   placeholder?: string;
   /** 설명 텍스트 */
   description?: string;
-  /** Select 옵션 */
-  options?: SelectOption[];
+  /** Select / Combobox 옵션 */
+  options?: ComboboxOption[];
+  /** Combobox 옵션 (서버 검색, 새 항목 추가 등 / combobox, multiselect, autocomplete) */
+  combobox?: ComboboxFieldOptions;
+  /** 날짜/시간 옵션 (minDate, maxDate, 기간 프리셋 등 / date, daterange, time) */
+  date?: DateFieldOptions;
   /** 비활성화 */
   disabled?: boolean;
   /** 추가 클래스 */
@@ -120,8 +152,12 @@ export interface FormDialogProps<T extends FieldValues = FieldValues> {
   submitLabel?: string;
   /** 취소 버튼 텍스트 */
   cancelLabel?: string;
-  /** 폼 제출 핸들러 */
+  /** 폼 제출 핸들러 (throw 하면 다이얼로그 유지 + 에러 표시) */
   onSubmit?: (values: T) => void | Promise<void>;
+  /** 제출 실패 시 (기본 에러 표시 이후 호출) */
+  onSubmitError?: (error: ApiError) => void;
+  /** 서버 필드명 → 폼 필드명 매핑 */
+  serverFieldMap?: Partial<Record<string, Path<T>>>;
   /** 취소 핸들러 */
   onCancel?: () => void;
   /** 커스텀 폼 렌더 함수 */
@@ -130,6 +166,8 @@ export interface FormDialogProps<T extends FieldValues = FieldValues> {
   className?: string;
   /** 제출 중 다른 필드 비활성화 */
   disableOnSubmit?: boolean;
+  /** 저장하지 않은 변경 사항 가드 범위 (dialogStore 다이얼로그 ID) */
+  guardScope?: string;
 }
 
 // ========================================
@@ -148,10 +186,13 @@ export function FormDialog<T extends FieldValues = FieldValues>({
   submitLabel = "저장",
   cancelLabel = "취소",
   onSubmit,
+  onSubmitError,
+  serverFieldMap,
   onCancel,
   children,
   className,
   disableOnSubmit = true,
+  guardScope,
 }: FormDialogProps<T>) {
   // ========================================
   // Form Setup
@@ -167,27 +208,47 @@ export function FormDialog<T extends FieldValues = FieldValues>({
   const {
     control,
     handleSubmit: rhfHandleSubmit,
-    formState: { errors, isSubmitting },
+    formState: { errors, isSubmitting, isDirty },
     reset,
+    setError,
   } = form;
 
+  const { confirmDiscard, markClean } = useUnsavedChangesGuard(
+    isOpen && isDirty,
+    { scope: guardScope }
+  );
+
   // ========================================
   // Handlers
   // ========================================
 
   const handleFormSubmit = rhfHandleSubmit(async (values) => {
     if (onSubmit) {
-      await onSubmit(values as T);
+      try {
+        await onSubmit(values as T);
+      } catch (error) {
+        const apiError = handleApiError<T>(error, {
+          setError,
+          fieldMap: serverFieldMap,
+          // 자동 생성 모드에서는 화면에 있는 필드에만 표시 (나머지는 토스트)
+          knownFields: fields?.map((field) => field.name),
+        });
+        onSubmitError?.(apiError);
+        return;
+      }
     }
+    // 저장 완료 - isDirty 반영 전에 닫히므로 가드를 먼저 해제
+    markClean();
     reset();
     onClose();
   });
 
-  const handleCancel = useCallback(() => {
+  const handleCancel = useCallback(async () => {
+    if (!(await confirmDiscard())) return;
     reset();
     onCancel?.();
     onClose();
-  }, [reset, onCancel, onClose]);
+  }, [confirmDiscard, reset, onCancel, onClose]);
 
   // ========================================
   // Field Renderer
@@ -208,87 +269,110 @@ export function FormDialog<T extends FieldValues = FieldValues>({
           errorMessage={errorMessage}
           required={!!schema}
         >
-          <Controller
-            name={field.name}
-            control={control}
-            render={({ field: controllerField }) => {
-              switch (field.type) {
-                case "select":
-                  return (
-                    <Select
-                      {...controllerField}
-                      options={field.options ?? []}
-                      placeholder={field.placeholder}
-                      disabled={
-                        field.disabled || (disableOnSubmit && isSubmitting)
-                      }
-                    />
-                  );
+          {COMBOBOX_FIELD_TYPES.includes(field.type) ? (
+            <FormCombobox
+              {...field.combobox}
+              name={field.name}
+              control={control}
+              type={field.type as FormComboboxType}
+              options={field.options}
+              placeholder={field.placeholder}
+              disabled={field.disabled || (disableOnSubmit && isSubmitting)}
+              fullWidth
+            />
+          ) : DATE_FIELD_TYPES.includes(field.type) ? (
+            <FormDatePicker
+              {...field.date}
+              name={field.name}
+              control={control}
+              type={field.type as FormDateFieldType}
+              placeholder={field.placeholder}
+              disabled={field.disabled || (disableOnSubmit && isSubmitting)}
+              fullWidth
+            />
+          ) : (
+            <Controller
+              name={field.name}
+              control={control}
+              render={({ field: controllerField }) => {
+                switch (field.type) {
+                  case "select":
+                    return (
+                      <Select
+                        {...controllerField}
+                        options={field.options ?? []}
+                        placeholder={field.placeholder}
+                        disabled={
+                          field.disabled || (disableOnSubmit && isSubmitting)
+                        }
+                      />
+                    );
 
-                case "checkbox":
-                  return (
-                    <Checkbox
-                      checked={!!controllerField.value}
-                      onChange={(e) =>
-                        controllerField.onChange(e.target.checked)
-                      }
-                      disabled={
-                        field.disabled || (disableOnSubmit && isSubmitting)
-                      }
-                      label={field.placeholder}
-                    />
-                  );
+                  case "checkbox":
+                    return (
+                      <Checkbox
+                        checked={!!controllerField.value}
+                        onChange={(e) =>
+                          controllerField.onChange(e.target.checked)
+                        }
+                        disabled={
+                          field.disabled || (disableOnSubmit && isSubmitting)
+                        }
+                        label={field.placeholder}
+                      />
+                    );
 
-                case "textarea":
-                  return (
-                    <textarea
-                      {...controllerField}
-                      placeholder={field.placeholder}
-                      disabled={
-                        field.disabled || (disableOnSubmit && isSubmitting)
-                      }
-                      className={cn(
-                        "w-full px-3 py-2 rounded-lg border",
-                        "bg-softone-surface text-softone-text",
-                        "border-softone-border focus:border-softone-primary",
-                        "focus:ring-2 focus:ring-softone-primary/20 focus:outline-none",
-                        "placeholder:text-softone-text-muted",
-                        "transition-colors min-h-[100px] resize-y",
-                        errorMessage &&
-                          "border-red-500 focus:border-red-500 focus:ring-red-500/20"
-                      )}
-                    />
-                  );
+                  case "textarea":
+                    return (
+                      <textarea
+                        {...controllerField}
+                        placeholder={field.placeholder}
+                        disabled={
+                          field.disabled || (disableOnSubmit && isSubmitting)
+                        }
+                        className={cn(
+                          "w-full px-3 py-2 rounded-lg border",
+                          "bg-softone-surface text-softone-text",
+                          "border-softone-border focus:border-softone-primary",
+                          "focus:ring-2 focus:ring-softone-primary/20 focus:outline-none",
+                          "placeholder:text-softone-text-muted",
+                          "transition-colors min-h-[100px] resize-y",
+                          errorMessage &&
+                            "border-red-500 focus:border-red-500 focus:ring-red-500/20"
+                        )}
+                      />
+                    );
 
-                case "number":
-                  return (
-                    <Input
-                      {...controllerField}
-                      type="number"
-                      placeholder={field.placeholder}
-                      disabled={
-                        field.disabled || (disableOnSubmit && isSubmitting)
-                      }
-                      onChange={(e) =>
-                        controllerField.onChange(e.target.valueAsNumber || "")
-                      }
-                    />
-                  );
+                  case "number":
+                    return (
+                      <Input
+                        {...controllerField}
+                        type="number"
+                        placeholder={field.placeholder}
+                        disabled={
+                          field.disabled || (disableOnSubmit && isSubmitting)
+                        }
+                        onChange={(e) =>
+                          controllerField.onChange(e.target.valueAsNumber || "")
+                        }
+                      />
+                    );
 
-                default:
-                  return (
-                    <Input
-                      {...controllerField}
-                      type={field.type}
-                      placeholder={field.placeholder}
-                      disabled={
-                        field.disabled || (disableOnSubmit && isSubmitting)
-                      }
-                    />
-                  );
-              }
-            }}
-          />
+                  default:
+                    return (
+                      <Input
+                        {...controllerField}
+                        type={field.type}
+                        placeholder={field.placeholder}
+                        disabled={
+                          field.disabled || (disableOnSubmit && isSubmitting)
+                        }
+                      />
+                    );
+                }
+              }}
+            />
+          )}
         </FormFieldWrapper>
       </div>
     );
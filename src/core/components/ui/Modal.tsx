@@ -15,6 +15,7 @@ import React, { useEffect, useRef, useCallback } from "react";
 import { createPortal } from "react-dom";
 import { X } from "lucide-react";
 import { cn } from "../../utils/classUtils";
+import { useWorkspaceTabActive } from "../../hooks/useWorkspaceTabActive";
 
 // ========================================
 // Modal Types
@@ -62,7 +63,7 @@ const sizeStyles: Record<ModalSize, string> = {
 // ========================================
 
 export const Modal: React.FC<ModalProps> = ({
-  isOpen,
+  isOpen: isOpenProp,
   onClose,
   title,
   children,
@@ -76,6 +77,10 @@ export const Modal: React.FC<ModalProps> = ({
   const modalRef = useRef<HTMLDivElement>(null);
   const previousActiveElement = useRef<HTMLElement | null>(null);
 
+  // 비활성 작업 공간 탭에서는 열림 상태를 유지한 채 숨김
+  const isTabActive = useWorkspaceTabActive();
+  const isOpen = isOpenProp && isTabActive;
+
   // ESC 키 핸들러
   const handleKeyDown = useCallback(
     (event: KeyboardEvent) => {
@@ -0,0 +1,83 @@
+/**
+ * SoftOne Design System(SDS) - Core UI Component
+ * 작성: SoftOne Frontend Team
+ * 설명: 시간("HH:mm")을 목록에서 고르거나 직접 입력하는 필드입니다.
+ *      Autocomplete 위에 시간 목록(minuteStep 간격)을 올린 형태로,
+ *      "930", "9:30"처럼 입력해도 "09:30"으로 반영됩니다.
+ *
+ * @example
+ * <TimePicker value={time} onChange={setTime} minuteStep={15} minTime="09:00" />
+ */
+
+import React, { useState } from "react";
+import {
+  buildTimeOptions,
+  isTimeDisabled,
+  parseTimeInput,
+} from "../../utils/datePickerUtils";
+import { Autocomplete } from "./Combobox";
+import type { TimePickerProps } from "./datePicker.types";
+
+// ========================================
+// TimePicker Component
+// ========================================
+
+export const TimePicker: React.FC<TimePickerProps> = ({
+  value,
+  defaultValue = null,
+  onChange,
+  minuteStep = 30,
+  minTime,
+  maxTime,
+  placeholder = "HH:mm",
+  onBlur,
+  ...props
+}) => {
+  const isControlled = value !== undefined;
+  const [internalValue, setInternalValue] = useState(defaultValue);
+  const currentValue = (isControlled ? value : internalValue) || null;
+  /** 입력 중인 텍스트 (입력 중이 아니면 null → 선택 값 표시) */
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const options = buildTimeOptions(minuteStep).map((time) => ({
+    value: time,
+    label: time,
+    disabled: isTimeDisabled(time, minTime, maxTime),
+  }));
+
+  const updateValue = (nextValue: string | null) => {
+    if (!isControlled) setInternalValue(nextValue);
+    onChange?.(nextValue);
+  };
+
+  const handleChange = (text: string, option: { value: string } | null) => {
+    if (option) {
+      setDraft(null);
+      updateValue(option.value);
+      return;
+    }
+
+    setDraft(text);
+    const parsed = parseTimeInput(text);
+    if (parsed && !isTimeDisabled(parsed, minTime, maxTime)) {
+      updateValue(parsed);
+    } else if (!text.trim() && currentValue) {
+      updateValue(null);
+    }
+  };
+
+  return (
+    <Autocomplete
+      {...props}
+      options={options}
+      value={draft ?? currentValue ?? ""}
+      onChange={handleChange}
+      placeholder={placeholder}
+      emptyMessage="HH:mm 형식으로 입력하세요"
+      onBlur={() => {
+        setDraft(null);
+        onBlur?.();
+      }}
+    />
+  );
+};
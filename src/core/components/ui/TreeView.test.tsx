@@ -0,0 +1,244 @@
+/**
+ * SoftOne Design System - TreeView Tests
+ * 키보드 네비게이션, 가상 스크롤, scrollToNode, 지연 로드, 필터 테스트
+ */
+
+import { createRef } from "react";
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  render,
+  screen,
+  fireEvent,
+  cleanup,
+  act,
+} from "@testing-library/react";
+import { TreeView, type TreeNode, type TreeViewHandle } from "./TreeView";
+
+const nodes: TreeNode[] = [
+  {
+    id: "dev",
+    label: "개발본부",
+    children: [
+      { id: "fe", label: "프론트엔드팀" },
+      { id: "be", label: "백엔드팀" },
+    ],
+  },
+  { id: "sales", label: "영업본부" },
+];
+
+/** 부서 100개 × 사원 30명 = 3,100개 노드 */
+const orgNodes: TreeNode[] = Array.from({ length: 100 }, (_, deptIndex) => ({
+  id: `D${deptIndex}`,
+  label: `부서 ${deptIndex}`,
+  children: Array.from({ length: 30 }, (_, empIndex) => ({
+    id: `D${deptIndex}-E${empIndex}`,
+    label: `사원 ${deptIndex}-${empIndex}`,
+  })),
+}));
+
+const getItem = (name: string) => screen.getByRole("treeitem", { name });
+
+describe("TreeView", () => {
+  afterEach(cleanup);
+
+  it("펼친 노드를 aria-level/aria-setsize/aria-posinset과 함께 렌더링한다", () => {
+    render(<TreeView nodes={nodes} defaultExpandedIds={["dev"]} />);
+
+    const backend = getItem("백엔드팀");
+    expect(backend).toHaveAttribute("aria-level", "2");
+    expect(backend).toHaveAttribute("aria-posinset", "2");
+    expect(backend).toHaveAttribute("aria-setsize", "2");
+    // 포커스는 노드 하나만 Tab으로 진입
+    expect(getItem("개발본부")).toHaveAttribute("tabindex", "0");
+    expect(backend).toHaveAttribute("tabindex", "-1");
+  });
+
+  it("방향키로 이동/펼치기/접기하고 Enter로 선택한다", () => {
+    const handleSelect = vi.fn();
+    render(<TreeView nodes={nodes} onSelectIdsChange={handleSelect} />);
+
+    const dev = getItem("개발본부");
+    dev.focus();
+    fireEvent.keyDown(dev, { key: "ArrowRight" });
+    expect(dev).toHaveAttribute("aria-expanded", "true");
+
+    fireEvent.keyDown(dev, { key: "ArrowRight" });
+    expect(document.activeElement).toBe(getItem("프론트엔드팀"));
+
+    fireEvent.keyDown(document.activeElement!, { key: "ArrowDown" });
+    expect(document.activeElement).toBe(getItem("백엔드팀"));
+
+    fireEvent.keyDown(document.activeElement!, { key: "Enter" });
+    expect(handleSelect).toHaveBeenLastCalledWith(["be"]);
+
+    // ←: 부모로, 다시 ←: 접기
+    fireEvent.keyDown(document.activeElement!, { key: "ArrowLeft" });
+    expect(document.activeElement).toBe(dev);
+    fireEvent.keyDown(dev, { key: "ArrowLeft" });
+    expect(dev).toHaveAttribute("aria-expanded", "false");
+
+    fireEvent.keyDown(dev, { key: "End" });
+    expect(document.activeElement).toBe(getItem("영업본부"));
+  });
+
+  it("checkable이면 Space로 체크한다", () => {
+    const handleChecked = vi.fn();
+    render(
+      <TreeView nodes={nodes} checkable onCheckedIdsChange={handleChecked} />
+    );
+
+    const dev = getItem("개발본부");
+    dev.focus();
+    fireEvent.keyDown(dev, { key: " " });
+    expect(handleChecked).toHaveBeenLastCalledWith(["dev", "fe", "be"]);
+  });
+
+  it("virtualized면 보이는 노드만 렌더링하고, 펼쳐도 스크롤 위치를 유지한다", () => {
+    render(
+      <TreeView
+        nodes={orgNodes}
+        defaultExpandedIds={orgNodes.map((node) => node.id)}
+        virtualized
+        height={320}
+        estimateRowHeight={32}
+        overscan={2}
+      />
+    );
+
+    // 320px / 32px = 10개 + 아래 overscan 2개
+    expect(screen.getAllByRole("treeitem")).toHaveLength(12);
+
+    // 95번째 행(사원 3-1)부터 보이도록 스크롤 (부서 3은 위쪽 overscan)
+    const tree = screen.getByRole("tree");
+    tree.scrollTop = 95 * 32;
+    fireEvent.scroll(tree);
+    expect(screen.queryByText("부서 0")).toBeNull();
+    expect(screen.getByText("사원 3-1")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "축소" }));
+    expect(tree.scrollTop).toBe(95 * 32);
+    expect(screen.queryByText("사원 3-1")).toBeNull();
+    expect(screen.getByText("사원 4-0")).toBeInTheDocument();
+  });
+
+  it("ref.scrollToNode는 접힌 상위 노드를 펼치고 노드로 스크롤해 포커스한다", () => {
+    const treeRef = createRef<TreeViewHandle>();
+    const handleExpanded = vi.fn();
+    render(
+      <TreeView
+        ref={treeRef}
+        nodes={orgNodes}
+        virtualized
+        height={320}
+        onExpandedIdsChange={handleExpanded}
+      />
+    );
+
+    act(() => {
+      expect(treeRef.current!.scrollToNode("D80-E15", { focus: true })).toBe(
+        true
+      );
+    });
+
+    expect(handleExpanded).toHaveBeenLastCalledWith(["D80"]);
+    expect(document.activeElement).toBe(getItem("사원 80-15"));
+    expect(treeRef.current!.scrollToNode("없음")).toBe(false);
+  });
+
+  it("loadChildren으로 펼칠 때 자식을 로드하고, 체크된 노드의 자식은 체크 상태를 이어받는다", async () => {
+    const loadChildren = vi.fn(async (node: TreeNode) => [
+      { id: `${node.id}-1`, label: "홍길동" },
+      { id: `${node.id}-2`, label: "김철수" },
+    ]);
+    const handleChecked = vi.fn();
+    render(
+      <TreeView
+        nodes={[{ id: "dev", label: "개발팀", hasChildren: true }]}
+        loadChildren={loadChildren}
+        checkable
+        defaultCheckedIds={["dev"]}
+        onCheckedIdsChange={handleChecked}
+      />
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "확장" }));
+    expect(getItem("개발팀")).toHaveAttribute("aria-busy", "true");
+
+    expect(await screen.findByText("홍길동")).toBeInTheDocument();
+    expect(loadChildren).toHaveBeenCalledTimes(1);
+    expect(getItem("개발팀")).not.toHaveAttribute("aria-busy");
+    expect(handleChecked).toHaveBeenLastCalledWith(["dev", "dev-1", "dev-2"]);
+
+    // 다시 접었다 펼쳐도 다시 로드하지 않음
+    fireEvent.click(screen.getByRole("button", { name: "축소" }));
+    fireEvent.click(screen.getByRole("button", { name: "확장" }));
+    expect(screen.getByText("김철수")).toBeInTheDocument();
+    expect(loadChildren).toHaveBeenCalledTimes(1);
+  });
+
+  it("자식 로드에 실패하면 노드에 표시하고 다시 시도할 수 있다", async () => {
+    const loadChildren = vi
+      .fn<(node: TreeNode) => Promise<TreeNode[]>>()
+      .mockRejectedValueOnce(new Error("network"))
+      .mockResolvedValueOnce([{ id: "fe", label: "프론트엔드팀" }]);
+    render(
+      <TreeView
+        nodes={[{ id: "dev", label: "개발본부", hasChildren: true }]}
+        defaultExpandedIds={["dev"]}
+        loadChildren={loadChildren}
+      />
+    );
+
+    expect(await screen.findByText("불러오지 못했습니다")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "다시 시도" }));
+    expect(await screen.findByText("프론트엔드팀")).toBeInTheDocument();
+    expect(screen.queryByText("불러오지 못했습니다")).toBeNull();
+    expect(loadChildren).toHaveBeenCalledTimes(2);
+  });
+
+  it("자식을 로드하지 않은 노드는 indeterminateIds로 부분 체크를 표시한다", () => {
+    render(
+      <TreeView
+        nodes={[
+          { id: "dev", label: "개발본부", hasChildren: true },
+          { id: "sales", label: "영업본부", hasChildren: true },
+        ]}
+        checkable
+        defaultCheckedIds={["sales"]}
+        indeterminateIds={["dev"]}
+      />
+    );
+
+    const [dev, sales] = screen.getAllByRole<HTMLInputElement>("checkbox");
+    expect(dev.indeterminate).toBe(true);
+    expect(dev.checked).toBe(false);
+    expect(sales.checked).toBe(true);
+  });
+
+  it("필터는 일치한 글자를 강조하고 상위 노드를 자동으로 펼친다", () => {
+    const { container } = render(<TreeView nodes={nodes} searchable />);
+    const input = screen.getByRole("searchbox", { name: "검색" });
+
+    fireEvent.change(input, { target: { value: "프론트" } });
+    expect(getItem("개발본부")).toHaveAttribute("aria-expanded", "true");
+    expect(container.querySelector("mark")).toHaveTextContent("프론트");
+    expect(screen.queryByText("백엔드팀")).toBeNull();
+    expect(screen.queryByText("영업본부")).toBeNull();
+
+    // 자동으로 펼친 노드도 접을 수 있음
+    fireEvent.click(screen.getByRole("button", { name: "축소" }));
+    expect(screen.queryByText("프론트엔드팀")).toBeNull();
+
+    // 한글 초성 검색
+    fireEvent.change(input, { target: { value: "ㅇㅇ" } });
+    expect(getItem("영업본부")).toBeInTheDocument();
+    expect(screen.queryByText("개발본부")).toBeNull();
+
+    fireEvent.change(input, { target: { value: "없는 부서" } });
+    expect(screen.getByText("검색 결과가 없습니다")).toBeInTheDocument();
+
+    fireEvent.change(input, { target: { value: "" } });
+    expect(screen.getAllByRole("treeitem")).toHaveLength(2);
+  });
+});
@@ -7,13 +7,27 @@
  *   하나의 컴포넌트로 캡슐화. 조직도, 카테고리, 메뉴 등에 재사용 가능.
  *
  * A11y:
- *   role="tree", role="treeitem", role="group" 등 WAI-ARIA 트리 패턴 적용.
+ *   role="tree", role="treeitem" WAI-ARIA 트리 패턴 적용.
+ *   펼쳐진 노드를 평탄화해 렌더링하고 aria-level/aria-setsize/aria-posinset으로
+ *   트리 위치를 전달합니다. (가상 스크롤로 일부만 렌더링해도 위치가 유지됨)
  *   aria-expanded로 확장 상태 전달.
- *   키보드 네비게이션은 1차에서 최소 지원 (추후 확장 가능).
+ *   키보드 네비게이션 (포커스는 노드 하나만 Tab으로 진입):
+ *     - ↑ / ↓ : 이전/다음 노드, Home / End : 처음/마지막 노드
+ *     - → : 펼치기, 펼쳐져 있으면 첫 자식으로 / ← : 접기, 접혀 있으면 부모로
+ *     - Enter : 선택, Space : 체크(checkable) 또는 선택
+ *   draggable이면 노드에 포커스한 뒤 Alt + 방향키로 이동할 수 있습니다. (useTreeDragDrop)
  *
  * TreeView Component
  * - Controlled + Uncontrolled 지원
  * - checkable 옵션으로 3-state 체크박스 지원
+ * - draggable 옵션으로 드래그 앤 드롭 순서/부모 변경 지원 (nodes는 onMoveNode에서 갱신)
+ * - virtualized 옵션으로 보이는 노드만 렌더링 (수천 개 노드의 조직도 등)
+ *   - 노드 높이가 달라도 되며, 확장/축소해도 스크롤 위치를 유지합니다.
+ *   - ref.scrollToNode로 접힌 상위 노드를 펼치고 해당 노드로 스크롤합니다.
+ * - loadChildren 옵션으로 hasChildren 노드의 자식을 처음 펼칠 때 비동기 로드
+ *   - 노드별 로딩/실패 상태를 표시하고, 실패하면 "다시 시도"로 다시 로드합니다.
+ *   - 로드하지 않은 노드는 자신의 체크 상태(또는 indeterminateIds)로 3-state를 계산합니다.
+ * - searchable/filterText 옵션으로 필터 (일치 글자 강조, 일치 노드의 상위 자동 펼침)
  *
  * @example
  * const nodes = [
@@ -29,19 +43,74 @@
  *   checkedIds={checked}
  *   onCheckedIdsChange={setChecked}
  * />
+ *
+ * // 드래그 앤 드롭 (최대 3단계)
+ * <TreeView
+ *   nodes={nodes}
+ *   draggable
+ *   moveRules={{ maxDepth: 3 }}
+ *   onMoveNode={(move) => setNodes((prev) => applyTreeMove(prev, move))}
+ * />
+ *
+ * // 대용량 트리 (가상 스크롤)
+ * const treeRef = useRef<TreeViewHandle>(null);
+ * <TreeView ref={treeRef} nodes={orgNodes} virtualized height={480} />
+ * treeRef.current?.scrollToNode("EMP-1234", { align: "center", focus: true });
+ *
+ * // 지연 로드 + 필터
+ * <TreeView
+ *   nodes={departments} // { id, label, hasChildren: true }
+ *   loadChildren={(node) => fetchMembers(node.id)}
+ *   searchable
+ * />
  */
 
-import React, { useState, useCallback, useMemo } from "react";
-import { ChevronRight, ChevronDown, Folder, File } from "lucide-react";
+import React, {
+  useState,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+} from "react";
+import {
+  ChevronRight,
+  ChevronDown,
+  Folder,
+  File,
+  Loader2,
+  Search,
+} from "lucide-react";
 import { Checkbox } from "./Checkbox";
+import { Input } from "./Input";
 import { cn } from "../../utils/classUtils";
+import { substringMatch } from "../../utils/searchUtils";
+import {
+  getTreeDropIndicatorClass,
+  useTreeDragDrop,
+  type TreeRowDragProps,
+} from "../../hooks/useTreeDragDrop";
+import { useVirtualRows } from "../../hooks/useVirtualRows";
+import type { TreeDropPosition } from "../../utils/treeMoveUtils";
+import type { VirtualScrollAlign } from "../../utils/virtualUtils";
 import type {
   TreeNode,
   TreeViewProps,
   CheckState,
   CheckStateMap,
+  TreeScrollToNodeOptions,
 } from "./tree.types";
 
+// ========================================
+// Constants
+// ========================================
+
+const DEFAULT_ROW_HEIGHT = 32;
+const DEFAULT_VIRTUAL_HEIGHT = 400;
+
+/** 빈 ID 목록 (변경하지 않음) */
+const EMPTY_IDS = new Set<string>();
+
 // ========================================
 // Utility Functions
 // ========================================
@@ -73,19 +142,79 @@ function findNodeById(nodes: TreeNode[], id: string): TreeNode | undefined {
   return undefined;
 }
 
+/**
+ * 노드의 상위 노드 ID 목록 (루트 → 부모 순, 노드가 없으면 null)
+ */
+function getAncestorIds(nodes: TreeNode[], id: string): string[] | null {
+  for (const node of nodes) {
+    if (node.id === id) return [];
+    if (node.children) {
+      const path = getAncestorIds(node.children, id);
+      if (path) return [node.id, ...path];
+    }
+  }
+  return null;
+}
+
+/**
+ * 자식이 있는 노드인지 (자식을 로드하기 전이면 hasChildren 기준)
+ */
+function nodeHasChildren(node: TreeNode): boolean {
+  return node.children ? node.children.length > 0 : Boolean(node.hasChildren);
+}
+
+/**
+ * 자식을 로드해야 하는 노드인지
+ */
+function needsChildrenLoad(node: TreeNode): boolean {
+  return node.children === undefined && node.hasChildren === true;
+}
+
+/**
+ * 로드한 자식을 노드 트리에 병합 (nodes에 children이 있으면 그대로 사용)
+ */
+function mergeLoadedChildren(
+  nodes: TreeNode[],
+  loadedChildren: Map<string, TreeNode[]>
+): TreeNode[] {
+  if (loadedChildren.size === 0) return nodes;
+
+  return nodes.map((node) => {
+    const children = node.children ?? loadedChildren.get(node.id);
+    if (!children) return node;
+    return { ...node, children: mergeLoadedChildren(children, loadedChildren) };
+  });
+}
+
+/**
+ * Set에서 ID 제거 (없으면 그대로 반환)
+ */
+function withoutId(ids: Set<string>, id: string): Set<string> {
+  if (!ids.has(id)) return ids;
+  const next = new Set(ids);
+  next.delete(id);
+  return next;
+}
+
 /**
  * 체크 상태 계산 (3-state)
+ * 자식을 로드하지 않은 노드는 자신의 체크 여부, 또는 indeterminateIds로 계산
  */
 function calculateCheckStates(
   nodes: TreeNode[],
-  checkedIds: Set<string>
+  checkedIds: Set<string>,
+  indeterminateIds: ReadonlySet<string>
 ): CheckStateMap {
   const stateMap: CheckStateMap = new Map();
 
   function process(node: TreeNode): CheckState {
     if (!node.children || node.children.length === 0) {
-      // 리프 노드
-      const state = checkedIds.has(node.id) ? "checked" : "unchecked";
+      // 리프 노드 (또는 자식을 로드하지 않은 노드)
+      const state = checkedIds.has(node.id)
+        ? "checked"
+        : indeterminateIds.has(node.id)
+        ? "indeterminate"
+        : "unchecked";
       stateMap.set(node.id, state);
       return state;
     }
@@ -112,13 +241,123 @@ function calculateCheckStates(
   return stateMap;
 }
 
-// ========================================
-// TreeNodeItem Component
-// ========================================
+/**
+ * 라벨에서 검색어와 일치한 글자 위치 (부분 일치만, 한글 초성 지원)
+ */
+function getLabelMatchIndices(label: string, text: string): number[] | null {
+  const indices = substringMatch(text, label);
+  return indices && indices.length > 0 ? indices : null;
+}
+
+interface TreeFilterResult {
+  /** 보여줄 노드 (일치 노드, 그 상위/하위) */
+  visibleIds: Set<string>;
+  /** 자동으로 펼칠 노드 (일치 노드의 상위) */
+  autoExpandedIds: Set<string>;
+}
 
-interface TreeNodeItemInternalProps {
+/**
+ * 필터 적용 (로드한 노드만 검색)
+ */
+function filterTreeNodes(
+  nodes: TreeNode[],
+  isMatch: (node: TreeNode) => boolean
+): TreeFilterResult {
+  const visibleIds = new Set<string>();
+  const autoExpandedIds = new Set<string>();
+
+  /** @returns 자신 또는 하위가 일치하면 true */
+  function visit(node: TreeNode, insideMatch: boolean): boolean {
+    const matched = isMatch(node);
+    let hasMatchedDescendant = false;
+    node.children?.forEach((child) => {
+      if (visit(child, insideMatch || matched)) hasMatchedDescendant = true;
+    });
+
+    if (hasMatchedDescendant) autoExpandedIds.add(node.id);
+    if (matched || hasMatchedDescendant || insideMatch) {
+      visibleIds.add(node.id);
+    }
+    return matched || hasMatchedDescendant;
+  }
+
+  nodes.forEach((node) => visit(node, false));
+  return { visibleIds, autoExpandedIds };
+}
+
+/** 평탄화한 노드 (렌더링/키보드 이동 순서) */
+interface FlatTreeNode {
   node: TreeNode;
   depth: number;
+  parentId: string | null;
+  /** 형제 중 위치 (1부터) */
+  posInSet: number;
+  /** 형제 수 */
+  setSize: number;
+}
+
+/**
+ * 화면에 보이는(상위가 모두 펼쳐진) 노드를 순서대로 평탄화
+ * @param filteredIds 필터 중이면 보여줄 노드
+ */
+function flattenVisibleNodes(
+  nodes: TreeNode[],
+  expandedIds: Set<string>,
+  filteredIds: Set<string> | null
+): FlatTreeNode[] {
+  const result: FlatTreeNode[] = [];
+
+  function visit(siblings: TreeNode[], depth: number, parentId: string | null) {
+    const shown = filteredIds
+      ? siblings.filter((node) => filteredIds.has(node.id))
+      : siblings;
+    shown.forEach((node, index) => {
+      result.push({
+        node,
+        depth,
+        parentId,
+        posInSet: index + 1,
+        setSize: shown.length,
+      });
+      if (node.children?.length && expandedIds.has(node.id)) {
+        visit(node.children, depth + 1, node.id);
+      }
+    });
+  }
+
+  visit(nodes, 0, null);
+  return result;
+}
+
+// ========================================
+// TreeNodeRow Component
+// ========================================
+
+/**
+ * 필터 검색어와 일치한 글자를 강조한 라벨
+ */
+const TreeNodeLabel: React.FC<{ label: string; indices: number[] | null }> = ({
+  label,
+  indices,
+}) => {
+  if (!indices) return <>{label}</>;
+  const chars = Array.from(label);
+  const start = indices[0];
+  const end = indices[indices.length - 1] + 1;
+
+  return (
+    <>
+      {chars.slice(0, start).join("")}
+      <mark className="bg-softone-primary/20 text-inherit rounded-sm">
+        {chars.slice(start, end).join("")}
+      </mark>
+      {chars.slice(end).join("")}
+    </>
+  );
+};
+
+interface TreeNodeRowInternalProps {
+  item: FlatTreeNode;
   isSelected: boolean;
   onSelect: (id: string) => void;
   isExpanded: boolean;
@@ -126,14 +365,27 @@ interface TreeNodeItemInternalProps {
   checkable: boolean;
   checkState: CheckState;
   onCheck: (id: string, checked: boolean) => void;
-  expandedIds: Set<string>;
-  selectedIds: Set<string>;
-  checkStates: CheckStateMap;
+  /** 자식 로드 중 */
+  isLoading: boolean;
+  /** 자식 로드 실패 */
+  isLoadFailed: boolean;
+  onRetryLoad: (id: string) => void;
+  /** 필터 검색어와 일치한 라벨 글자 위치 */
+  highlightIndices: number[] | null;
+  /** 키보드 포커스 대상 (tabIndex 0) */
+  isFocusTarget: boolean;
+  onFocus: (id: string) => void;
+  onKeyDown: (event: React.KeyboardEvent<HTMLLIElement>) => void;
+  /** 가상 스크롤 높이 측정 */
+  measureRef?: (element: HTMLElement | null) => void;
+  /** 드래그 앤 드롭 (draggable일 때만) */
+  dragProps?: TreeRowDragProps;
+  dropPosition: TreeDropPosition | null;
+  isDragging: boolean;
 }
 
-const TreeNodeItem: React.FC<TreeNodeItemInternalProps> = ({
-  node,
-  depth,
+const TreeNodeRow: React.FC<TreeNodeRowInternalProps> = ({
+  item,
   isSelected,
   onSelect,
   isExpanded,
@@ -141,19 +393,42 @@ const TreeNodeItem: React.FC<TreeNodeItemInternalProps> = ({
   checkable,
   checkState,
   onCheck,
-  expandedIds,
-  selectedIds,
-  checkStates,
+  isLoading,
+  isLoadFailed,
+  onRetryLoad,
+  highlightIndices,
+  isFocusTarget,
+  onFocus,
+  onKeyDown,
+  measureRef,
+  dragProps,
+  dropPosition,
+  isDragging,
 }) => {
-  const hasChildren = node.children && node.children.length > 0;
+  const { node, depth } = item;
+  const hasChildren = nodeHasChildren(node);
   const paddingLeft = depth * 20;
+  // 키보드 이동(Alt + 방향키)은 treeitem의 onKeyDown에서 함께 처리
+  const rowDragProps = dragProps && { ...dragProps, onKeyDown: undefined };
 
   return (
     <li
+      ref={measureRef}
       role="treeitem"
+      data-tree-id={node.id}
+      aria-level={depth + 1}
+      aria-setsize={item.setSize}
+      aria-posinset={item.posInSet}
       aria-expanded={hasChildren ? isExpanded : undefined}
       aria-selected={isSelected}
       aria-disabled={node.disabled}
+      aria-busy={isLoading || undefined}
+      tabIndex={isFocusTarget ? 0 : -1}
+      onFocus={(event) => {
+        if (event.target === event.currentTarget) onFocus(node.id);
+      }}
+      onKeyDown={onKeyDown}
+      className="rounded outline-none focus-visible:ring-2 focus-visible:ring-softone-primary/40"
     >
       <div
         className={cn(
@@ -162,15 +437,19 @@ const TreeNodeItem: React.FC<TreeNodeItemInternalProps> = ({
           isSelected
             ? "bg-softone-primary/10 text-softone-primary"
             : "hover:bg-softone-surface-hover",
-          node.disabled && "opacity-50 cursor-not-allowed"
+          node.disabled && "opacity-50 cursor-not-allowed",
+          isDragging && "opacity-50",
+          getTreeDropIndicatorClass(dropPosition)
         )}
         style={{ paddingLeft }}
         onClick={() => !node.disabled && onSelect(node.id)}
+        {...rowDragProps}
       >
         {/* Expand/Collapse Icon */}
         {hasChildren ? (
           <button
             type="button"
+            tabIndex={-1}
             onClick={(e) => {
               e.stopPropagation();
               onToggleExpand(node.id);
@@ -178,7 +457,9 @@ const TreeNodeItem: React.FC<TreeNodeItemInternalProps> = ({
             className="p-0.5 hover:bg-softone-bg rounded"
             aria-label={isExpanded ? "축소" : "확장"}
           >
-            {isExpanded ? (
+            {isLoading ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : isExpanded ? (
               <ChevronDown className="w-4 h-4" />
             ) : (
               <ChevronRight className="w-4 h-4" />
@@ -191,6 +472,7 @@ const TreeNodeItem: React.FC<TreeNodeItemInternalProps> = ({
         {/* Checkbox */}
         {checkable && (
           <Checkbox
+            tabIndex={-1}
             checked={checkState === "checked"}
             indeterminate={checkState === "indeterminate"}
             onChange={(e) => onCheck(node.id, e.target.checked)}
@@ -208,31 +490,28 @@ const TreeNodeItem: React.FC<TreeNodeItemInternalProps> = ({
           ))}
 
         {/* Label */}
-        <span className="text-sm truncate">{node.label}</span>
-      </div>
+        <span className="text-sm truncate">
+          <TreeNodeLabel label={node.label} indices={highlightIndices} />
+        </span>
 
-      {/* Children */}
-      {hasChildren && isExpanded && (
-        <ul role="group" className="list-none">
-          {node.children!.map((child) => (
-            <TreeNodeItem
-              key={child.id}
-              node={child}
-              depth={depth + 1}
-              isSelected={selectedIds.has(child.id)}
-              onSelect={onSelect}
-              isExpanded={expandedIds.has(child.id)}
-              onToggleExpand={onToggleExpand}
-              checkable={checkable}
-              checkState={checkStates.get(child.id) || "unchecked"}
-              onCheck={onCheck}
-              expandedIds={expandedIds}
-              selectedIds={selectedIds}
-              checkStates={checkStates}
-            />
-          ))}
-        </ul>
-      )}
+        {/* Load error */}
+        {isLoadFailed && (
+          <span className="flex items-center gap-1 text-xs text-softone-danger shrink-0">
+            불러오지 못했습니다
+            <button
+              type="button"
+              tabIndex={-1}
+              onClick={(e) => {
+                e.stopPropagation();
+                onRetryLoad(node.id);
+              }}
+              className="underline hover:no-underline"
+            >
+              다시 시도
+            </button>
+          </span>
+        )}
+      </div>
     </li>
   );
 };
@@ -254,6 +533,23 @@ export const TreeView: React.FC<TreeViewProps> = ({
   checkedIds: controlledCheckedIds,
   defaultCheckedIds = [],
   onCheckedIdsChange,
+  indeterminateIds,
+  loadChildren,
+  onChildrenLoaded,
+  searchable = false,
+  filterPlaceholder = "검색",
+  filterText: controlledFilterText,
+  defaultFilterText = "",
+  onFilterTextChange,
+  filterNode,
+  draggable = false,
+  moveRules,
+  onMoveNode,
+  virtualized = false,
+  height,
+  estimateRowHeight = DEFAULT_ROW_HEIGHT,
+  overscan,
+  ref,
   className,
 }) => {
   // Selected state
@@ -290,12 +586,177 @@ export const TreeView: React.FC<TreeViewProps> = ({
     [isCheckedControlled, controlledCheckedIds, internalCheckedIds]
   );
 
+  // Lazy loading (로드한 자식은 노드 ID별로 보관)
+  const [loadedChildren, setLoadedChildren] = useState<Map<string, TreeNode[]>>(
+    () => new Map()
+  );
+  const [loadingIds, setLoadingIds] = useState<Set<string>>(() => new Set());
+  const [failedIds, setFailedIds] = useState<Set<string>>(() => new Set());
+  const treeNodes = useMemo(
+    () => mergeLoadedChildren(nodes, loadedChildren),
+    [nodes, loadedChildren]
+  );
+
   // Calculate check states for 3-state
+  const indeterminateIdSet = useMemo(
+    () => (indeterminateIds ? new Set(indeterminateIds) : EMPTY_IDS),
+    [indeterminateIds]
+  );
   const checkStates = useMemo(
-    () => calculateCheckStates(nodes, checkedIds),
-    [nodes, checkedIds]
+    () => calculateCheckStates(treeNodes, checkedIds, indeterminateIdSet),
+    [treeNodes, checkedIds, indeterminateIdSet]
   );
 
+  // Filter state
+  const isFilterControlled = controlledFilterText !== undefined;
+  const [internalFilterText, setInternalFilterText] =
+    useState(defaultFilterText);
+  const rawFilterText = isFilterControlled
+    ? controlledFilterText
+    : internalFilterText;
+  const filterText = rawFilterText.trim();
+  const filterResult = useMemo(
+    () =>
+      filterText
+        ? filterTreeNodes(treeNodes, (node) =>
+            filterNode
+              ? filterNode(node, filterText)
+              : getLabelMatchIndices(node.label, filterText) !== null
+          )
+        : null,
+    [treeNodes, filterText, filterNode]
+  );
+
+  /** 필터 중 사용자가 접은 자동 펼침 노드 (검색어가 바뀌면 초기화) */
+  const [filterCollapsed, setFilterCollapsed] = useState<{
+    text: string;
+    ids: Set<string>;
+  }>(() => ({ text: "", ids: new Set() }));
+  const filterCollapsedIds =
+    filterCollapsed.text === filterText ? filterCollapsed.ids : EMPTY_IDS;
+
+  // 화면 기준 확장 상태 (필터 중이면 일치 노드의 상위를 자동으로 펼침)
+  const displayExpandedIds = useMemo(() => {
+    if (!filterResult) return expandedIds;
+    const ids = new Set(expandedIds);
+    filterResult.autoExpandedIds.forEach((id) => {
+      if (!filterCollapsedIds.has(id)) ids.add(id);
+    });
+    return ids;
+  }, [expandedIds, filterResult, filterCollapsedIds]);
+
+  // 화면에 보이는 노드 (렌더링/키보드 이동 순서)
+  const visibleNodes = useMemo(
+    () =>
+      flattenVisibleNodes(
+        treeNodes,
+        displayExpandedIds,
+        filterResult?.visibleIds ?? null
+      ),
+    [treeNodes, displayExpandedIds, filterResult]
+  );
+
+  // Drag & Drop (nodes 갱신은 onMoveNode에서 처리)
+  const dnd = useTreeDragDrop({
+    nodes: treeNodes,
+    rules: moveRules,
+    onMove: (move) => onMoveNode?.(move),
+    disabled: !draggable || !onMoveNode,
+  });
+  const isDraggable = draggable && Boolean(onMoveNode);
+
+  // Virtual scroll
+  const getVisibleNodeKey = useCallback(
+    (index: number) => visibleNodes[index].node.id,
+    [visibleNodes]
+  );
+  const {
+    scrollRef,
+    virtualRows,
+    paddingTop,
+    paddingBottom,
+    measureRow,
+    scrollToIndex,
+  } = useVirtualRows<HTMLUListElement>({
+    count: visibleNodes.length,
+    getRowKey: getVisibleNodeKey,
+    estimateRowHeight,
+    overscan,
+    enabled: virtualized,
+    defaultViewportHeight:
+      typeof height === "number" ? height : DEFAULT_VIRTUAL_HEIGHT,
+  });
+  const scrollHeight =
+    height ?? (virtualized ? DEFAULT_VIRTUAL_HEIGHT : undefined);
+  const renderedNodes = virtualized
+    ? virtualRows.map(({ index }) => ({ item: visibleNodes[index], index }))
+    : visibleNodes.map((item, index) => ({ item, index }));
+
+  // 키보드 포커스 대상 (보이지 않으면 첫 선택 노드 또는 첫 노드)
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const focusTargetId = visibleNodes.some(({ node }) => node.id === focusedId)
+    ? focusedId
+    : visibleNodes.find(({ node }) => selectedIds.has(node.id))?.node.id ??
+      visibleNodes[0]?.node.id ??
+      null;
+
+  /** 스크롤 후 렌더링되면 포커스할 노드 */
+  const pendingFocusIdRef = useRef<string | null>(null);
+  /** scrollToNode로 상위 노드를 펼친 경우, 펼친 뒤 스크롤할 노드 */
+  const pendingScrollRef = useRef<
+    (Required<TreeScrollToNodeOptions> & { id: string }) | null
+  >(null);
+
+  const getNodeElement = (id: string) =>
+    Array.from(
+      scrollRef.current?.querySelectorAll<HTMLElement>("[data-tree-id]") ?? []
+    ).find((element) => element.dataset.treeId === id) ?? null;
+
+  const scrollToVisibleNode = (id: string, align: VirtualScrollAlign) => {
+    if (virtualized) {
+      scrollToIndex(
+        visibleNodes.findIndex(({ node }) => node.id === id),
+        align
+      );
+      return;
+    }
+    getNodeElement(id)?.scrollIntoView?.({
+      block: align === "auto" ? "nearest" : align,
+    });
+  };
+
+  const focusNode = (id: string) => {
+    setFocusedId(id);
+    scrollToVisibleNode(id, "auto");
+
+    const element = getNodeElement(id);
+    if (element) {
+      element.focus({ preventScroll: true });
+      return;
+    }
+    pendingFocusIdRef.current = id;
+  };
+
+  useEffect(() => {
+    const pendingScroll = pendingScrollRef.current;
+    if (
+      pendingScroll &&
+      visibleNodes.some(({ node }) => node.id === pendingScroll.id)
+    ) {
+      pendingScrollRef.current = null;
+      scrollToVisibleNode(pendingScroll.id, pendingScroll.align);
+      if (pendingScroll.focus) focusNode(pendingScroll.id);
+    }
+
+    const pendingFocusId = pendingFocusIdRef.current;
+    if (pendingFocusId === null) return;
+    const element = getNodeElement(pendingFocusId);
+    if (element) {
+      pendingFocusIdRef.current = null;
+      element.focus({ preventScroll: true });
+    }
+  });
+
   // Selection handler
   const handleSelect = useCallback(
     (id: string) => {
@@ -316,25 +777,70 @@ export const TreeView: React.FC<TreeViewProps> = ({
     [selectedIds, multiSelect, isSelectedControlled, onSelectIdsChange]
   );
 
-  // Expand/Collapse handler
-  const handleToggleExpand = useCallback(
-    (id: string) => {
-      const newIds = expandedIds.has(id)
-        ? Array.from(expandedIds).filter((i) => i !== id)
-        : [...Array.from(expandedIds), id];
-
+  // Expand/Collapse
+  const updateExpandedIds = useCallback(
+    (newIds: string[]) => {
       if (!isExpandedControlled) {
         setInternalExpandedIds(newIds);
       }
       onExpandedIdsChange?.(newIds);
     },
-    [expandedIds, isExpandedControlled, onExpandedIdsChange]
+    [isExpandedControlled, onExpandedIdsChange]
+  );
+
+  const handleToggleExpand = useCallback(
+    (id: string) => {
+      const isAutoExpanded = Boolean(filterResult?.autoExpandedIds.has(id));
+
+      if (displayExpandedIds.has(id)) {
+        // 필터가 자동으로 펼친 노드는 검색어가 바뀔 때까지 접어 둠
+        if (isAutoExpanded) {
+          setFilterCollapsed({
+            text: filterText,
+            ids: new Set(filterCollapsedIds).add(id),
+          });
+        }
+        if (expandedIds.has(id)) {
+          updateExpandedIds(Array.from(expandedIds).filter((i) => i !== id));
+        }
+        // 로드에 실패한 노드는 다시 펼치면 다시 로드
+        setFailedIds((current) => withoutId(current, id));
+        return;
+      }
+
+      if (filterCollapsedIds.has(id)) {
+        setFilterCollapsed({
+          text: filterText,
+          ids: withoutId(filterCollapsedIds, id),
+        });
+        return;
+      }
+      updateExpandedIds([...Array.from(expandedIds), id]);
+    },
+    [
+      expandedIds,
+      displayExpandedIds,
+      filterResult,
+      filterText,
+      filterCollapsedIds,
+      updateExpandedIds,
+    ]
   );
 
   // Check handler (3-state 지원)
+  const updateCheckedIds = useCallback(
+    (newIds: string[]) => {
+      if (!isCheckedControlled) {
+        setInternalCheckedIds(newIds);
+      }
+      onCheckedIdsChange?.(newIds);
+    },
+    [isCheckedControlled, onCheckedIdsChange]
+  );
+
   const handleCheck = useCallback(
     (id: string, checked: boolean) => {
-      const node = findNodeById(nodes, id);
+      const node = findNodeById(treeNodes, id);
       if (!node) return;
 
       const descendantIds = getAllDescendantIds(node);
@@ -348,47 +854,253 @@ export const TreeView: React.FC<TreeViewProps> = ({
         descendantIds.forEach((dId) => newCheckedSet.delete(dId));
       }
 
-      const newIds = Array.from(newCheckedSet);
+      updateCheckedIds(Array.from(newCheckedSet));
+    },
+    [treeNodes, checkedIds, updateCheckedIds]
+  );
 
-      if (!isCheckedControlled) {
-        setInternalCheckedIds(newIds);
+  // 자식 로드 (로드가 끝났을 때의 체크 상태 기준으로 자식 체크를 이어받음)
+  const checkedIdsRef = useRef(checkedIds);
+  useEffect(() => {
+    checkedIdsRef.current = checkedIds;
+  });
+
+  const loadNodeChildren = useCallback(
+    async (node: TreeNode) => {
+      if (!loadChildren) return;
+
+      setLoadingIds((current) => new Set(current).add(node.id));
+      try {
+        const children = await loadChildren(node);
+        setLoadedChildren((current) => new Map(current).set(node.id, children));
+        onChildrenLoaded?.(node, children);
+
+        const latestCheckedIds = checkedIdsRef.current;
+        if (latestCheckedIds.has(node.id) && children.length > 0) {
+          const newCheckedSet = new Set(latestCheckedIds);
+          children.forEach((child) =>
+            getAllDescendantIds(child).forEach((dId) => newCheckedSet.add(dId))
+          );
+          updateCheckedIds(Array.from(newCheckedSet));
+        }
+      } catch {
+        setFailedIds((current) => new Set(current).add(node.id));
+      } finally {
+        setLoadingIds((current) => withoutId(current, node.id));
       }
-      onCheckedIdsChange?.(newIds);
     },
-    [nodes, checkedIds, isCheckedControlled, onCheckedIdsChange]
+    [loadChildren, onChildrenLoaded, updateCheckedIds]
   );
 
-  return (
+  // 펼쳐졌지만 자식을 로드하지 않은 노드는 로드 (펼치기, defaultExpandedIds, scrollToNode 등)
+  useEffect(() => {
+    visibleNodes.forEach(({ node }) => {
+      if (
+        needsChildrenLoad(node) &&
+        displayExpandedIds.has(node.id) &&
+        !loadingIds.has(node.id) &&
+        !failedIds.has(node.id)
+      ) {
+        loadNodeChildren(node);
+      }
+    });
+  }, [
+    visibleNodes,
+    displayExpandedIds,
+    loadingIds,
+    failedIds,
+    loadNodeChildren,
+  ]);
+
+  const handleRetryLoad = useCallback((id: string) => {
+    setFailedIds((current) => withoutId(current, id));
+  }, []);
+
+  const handleFilterTextChange = (text: string) => {
+    if (!isFilterControlled) {
+      setInternalFilterText(text);
+    }
+    onFilterTextChange?.(text);
+  };
+
+  // Keyboard navigation
+  const handleKeyDown = (
+    event: React.KeyboardEvent<HTMLLIElement>,
+    index: number
+  ) => {
+    if (event.target !== event.currentTarget) return;
+
+    const { node, parentId } = visibleNodes[index];
+    const hasChildren = nodeHasChildren(node);
+    const isExpanded = displayExpandedIds.has(node.id);
+
+    // Alt + 방향키: 노드 이동 (draggable)
+    if (event.altKey) {
+      if (isDraggable && !node.disabled) dnd.getRowProps(node).onKeyDown(event);
+      return;
+    }
+
+    let nextIndex: number | null = null;
+    switch (event.key) {
+      case "ArrowDown":
+        nextIndex = Math.min(visibleNodes.length - 1, index + 1);
+        break;
+      case "ArrowUp":
+        nextIndex = Math.max(0, index - 1);
+        break;
+      case "Home":
+        nextIndex = 0;
+        break;
+      case "End":
+        nextIndex = visibleNodes.length - 1;
+        break;
+      case "ArrowRight":
+        if (!hasChildren) break;
+        if (!isExpanded) {
+          handleToggleExpand(node.id);
+        } else if (visibleNodes[index + 1]?.parentId === node.id) {
+          // 로드 중이면 자식이 아직 없음
+          nextIndex = index + 1;
+        }
+        break;
+      case "ArrowLeft":
+        if (hasChildren && isExpanded) {
+          handleToggleExpand(node.id);
+        } else if (parentId !== null) {
+          nextIndex = visibleNodes.findIndex(
+            (item) => item.node.id === parentId
+          );
+        }
+        break;
+      case "Enter":
+        if (!node.disabled) handleSelect(node.id);
+        break;
+      case " ":
+        if (node.disabled) break;
+        if (checkable) {
+          handleCheck(node.id, checkStates.get(node.id) !== "checked");
+        } else {
+          handleSelect(node.id);
+        }
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    if (nextIndex !== null) focusNode(visibleNodes[nextIndex].node.id);
+  };
+
+  useImperativeHandle(ref, () => ({
+    scrollToNode: (id, options = {}) => {
+      const { align = "auto", focus = false } = options;
+      const ancestorIds = getAncestorIds(treeNodes, id);
+      if (ancestorIds === null) return false;
+      // 필터로 숨긴 노드
+      if (filterResult && !filterResult.visibleIds.has(id)) return false;
+
+      // 접힌 상위 노드는 펼친 뒤 스크롤
+      const collapsedIds = ancestorIds.filter(
+        (a) => !displayExpandedIds.has(a)
+      );
+      if (collapsedIds.length > 0) {
+        pendingScrollRef.current = { id, align, focus };
+        updateExpandedIds([...Array.from(expandedIds), ...collapsedIds]);
+        return true;
+      }
+
+      scrollToVisibleNode(id, align);
+      if (focus) focusNode(id);
+      return true;
+    },
+  }));
+
+  const tree = (
     <ul
+      ref={scrollRef}
       role="tree"
       aria-multiselectable={multiSelect}
       className={cn(
-        "list-none p-2 bg-softone-surface border border-softone-border rounded-lg",
-        className
+        "list-none bg-softone-surface border border-softone-border rounded-lg",
+        virtualized ? "px-2" : "p-2",
+        scrollHeight !== undefined && "overflow-auto",
+        !searchable && className
       )}
+      style={{ height: scrollHeight }}
     >
-      {nodes.map((node) => (
-        <TreeNodeItem
-          key={node.id}
-          node={node}
-          depth={0}
-          isSelected={selectedIds.has(node.id)}
-          onSelect={handleSelect}
-          isExpanded={expandedIds.has(node.id)}
-          onToggleExpand={handleToggleExpand}
-          checkable={checkable}
-          checkState={checkStates.get(node.id) || "unchecked"}
-          onCheck={handleCheck}
-          expandedIds={expandedIds}
-          selectedIds={selectedIds}
-          checkStates={checkStates}
-        />
-      ))}
+      {virtualized && paddingTop > 0 && (
+        <li role="none" aria-hidden="true" style={{ height: paddingTop }} />
+      )}
+      {renderedNodes.map(({ item, index }) => {
+        const { node } = item;
+        return (
+          <TreeNodeRow
+            key={node.id}
+            item={item}
+            isSelected={selectedIds.has(node.id)}
+            onSelect={handleSelect}
+            isExpanded={displayExpandedIds.has(node.id)}
+            onToggleExpand={handleToggleExpand}
+            checkable={checkable}
+            checkState={checkStates.get(node.id) || "unchecked"}
+            onCheck={handleCheck}
+            isLoading={loadingIds.has(node.id)}
+            isLoadFailed={failedIds.has(node.id)}
+            onRetryLoad={handleRetryLoad}
+            highlightIndices={
+              filterText ? getLabelMatchIndices(node.label, filterText) : null
+            }
+            isFocusTarget={node.id === focusTargetId}
+            onFocus={setFocusedId}
+            onKeyDown={(event) => handleKeyDown(event, index)}
+            measureRef={virtualized ? measureRow(node.id) : undefined}
+            dragProps={
+              isDraggable && !node.disabled ? dnd.getRowProps(node) : undefined
+            }
+            dropPosition={dnd.getDropPosition(node.id)}
+            isDragging={dnd.draggingId === node.id}
+          />
+        );
+      })}
+      {virtualized && paddingBottom > 0 && (
+        <li role="none" aria-hidden="true" style={{ height: paddingBottom }} />
+      )}
+      {filterResult && visibleNodes.length === 0 && (
+        <li
+          role="none"
+          className="py-6 text-center text-sm text-softone-text-muted"
+        >
+          검색 결과가 없습니다
+        </li>
+      )}
+      {isDraggable && (
+        <li role="none" className="sr-only" aria-live="polite">
+          {dnd.announcement}
+        </li>
+      )}
     </ul>
   );
+
+  if (!searchable) return tree;
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <Input
+        type="search"
+        size="sm"
+        fullWidth
+        value={rawFilterText}
+        onChange={(e) => handleFilterTextChange(e.target.value)}
+        placeholder={filterPlaceholder}
+        aria-label={filterPlaceholder}
+        leftElement={<Search className="w-4 h-4" />}
+      />
+      {tree}
+    </div>
+  );
 };
 
 TreeView.displayName = "TreeView";
 
 // Re-export types
-export type { TreeNode, TreeViewProps } from "./tree.types";
+export type { TreeNode, TreeViewProps, TreeViewHandle } from "./tree.types";
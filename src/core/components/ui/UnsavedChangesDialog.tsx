@@ -0,0 +1,58 @@
+/**
+ * SoftOne Design System(SDS) - UnsavedChangesDialog Component
+ * 작성: SoftOne Frontend Team
+ *
+ * [목적]
+ * - unsavedChangesStore의 "변경 내용 버리기" 확인 요청을 ConfirmDialog로 표시
+ * - 저장하지 않은 변경 사항이 있으면 브라우저 닫기/새로고침 시 경고(beforeunload)
+ * - DialogRoot에 포함되어 있으므로 별도로 렌더링할 필요가 없습니다.
+ */
+
+import React, { useEffect } from "react";
+import { useUnsavedChangesStore } from "../../store/unsavedChangesStore";
+import { ConfirmDialog } from "./ConfirmDialog";
+
+// ========================================
+// UnsavedChangesDialog Component
+// ========================================
+
+export const UnsavedChangesDialog: React.FC = () => {
+  const pendingConfirm = useUnsavedChangesStore(
+    (state) => state.pendingConfirm
+  );
+  const resolvePendingConfirm = useUnsavedChangesStore(
+    (state) => state.resolvePendingConfirm
+  );
+  const hasUnsavedChanges = useUnsavedChangesStore((state) =>
+    state.guards.some((guard) => guard.isDirty)
+  );
+
+  // 브라우저 닫기/새로고침 경고 (메시지는 브라우저 기본 문구)
+  useEffect(() => {
+    if (!hasUnsavedChanges) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = "";
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [hasUnsavedChanges]);
+
+  return (
+    <ConfirmDialog
+      isOpen={!!pendingConfirm}
+      onClose={() => resolvePendingConfirm(false)}
+      title="저장하지 않은 변경 사항"
+      message={pendingConfirm?.message ?? ""}
+      confirmLabel="변경 내용 버리기"
+      cancelLabel="계속 편집"
+      variant="warning"
+      onConfirm={() => resolvePendingConfirm(true)}
+    />
+  );
+};
+
+UnsavedChangesDialog.displayName = "UnsavedChangesDialog";
+
+export default UnsavedChangesDialog;
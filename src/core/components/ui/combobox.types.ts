@@ -0,0 +1,191 @@
+/**
+ * SoftOne Design System - Combobox Types
+ * 작성: SoftOne Frontend Team
+ *
+ * Combobox / MultiSelect / Autocomplete 컴포넌트와
+ * react-hook-form 어댑터(FormCombobox)에서 사용하는 공통 타입 정의.
+ */
+
+import type { Ref } from "react";
+import type { QueryKey } from "@tanstack/react-query";
+import type { SelectOption, SelectSize } from "./Select";
+
+// ========================================
+// ComboboxOption
+// ========================================
+
+/**
+ * 콤보박스 옵션 (SelectOption 호환)
+ */
+export interface ComboboxOption extends SelectOption {
+  /** 그룹 이름 (같은 그룹끼리 헤더 아래 표시) */
+  group?: string;
+  /** 보조 설명 (라벨 아래 작게 표시) */
+  description?: string;
+}
+
+// ========================================
+// Common Props
+// ========================================
+
+/**
+ * Combobox / MultiSelect / Autocomplete 공통 Props
+ */
+export interface ComboboxCommonProps {
+  /** 옵션 목록 (loadOptions가 없으면 입력한 검색어로 필터) */
+  options?: ComboboxOption[];
+  /** 검색어로 서버에서 옵션 조회 (디바운스 + TanStack Query 캐시) */
+  loadOptions?: (
+    query: string,
+    signal: AbortSignal
+  ) => Promise<ComboboxOption[]>;
+  /** loadOptions 캐시 키 (기본: 컴포넌트마다 다른 키) */
+  queryKey?: QueryKey;
+  /** 입력이 멈춘 뒤 검색까지 기다리는 시간 (ms, 기본: 300) */
+  debounceMs?: number;
+  /** 검색을 시작하는 최소 글자 수 (기본: 0) */
+  minQueryLength?: number;
+  /** 옵션 필터 (기본: 라벨 부분 일치, 한글 초성 지원 / loadOptions를 쓰면 사용하지 않음) */
+  filterOptions?: (
+    options: ComboboxOption[],
+    query: string
+  ) => ComboboxOption[];
+
+  // 목록
+  /** 보이는 옵션만 렌더링 (기본: 옵션이 100개를 넘으면 사용) */
+  virtualized?: boolean;
+  /** 목록 최대 높이 (px, 기본: 256) */
+  maxListHeight?: number;
+  /** 측정 전 예상 옵션 높이 (px, 기본: 36) */
+  estimateOptionHeight?: number;
+  /** 검색 결과가 없을 때 메시지 */
+  emptyMessage?: string;
+  /** 옵션을 불러오는 중 메시지 */
+  loadingMessage?: string;
+
+  // 입력 필드
+  /** placeholder 텍스트 */
+  placeholder?: string;
+  /** 비활성화 */
+  disabled?: boolean;
+  /** 에러 상태 */
+  error?: boolean;
+  /** 입력 필드 크기 */
+  size?: SelectSize;
+  /** 전체 너비 */
+  fullWidth?: boolean;
+  /** 입력 필드 id (FormFieldWrapper가 주입) */
+  id?: string;
+  /** 입력 필드 name */
+  name?: string;
+  "aria-label"?: string;
+  "aria-describedby"?: string;
+  "aria-invalid"?: boolean;
+  /** 포커스가 컴포넌트 밖으로 나갈 때 (react-hook-form touched 처리) */
+  onBlur?: () => void;
+  /** 입력 필드 ref (react-hook-form 에러 포커스) */
+  ref?: Ref<HTMLInputElement>;
+  /** 추가 클래스 */
+  className?: string;
+}
+
+/**
+ * 새 항목 추가 Props (Combobox, MultiSelect)
+ */
+export interface ComboboxCreatableProps {
+  /** 일치하는 옵션이 없으면 입력한 값으로 새 항목 추가 */
+  creatable?: boolean;
+  /**
+   * 새 항목 추가 핸들러 (서버 저장 등)
+   * 옵션을 반환하면 그 옵션을, 반환하지 않으면 { value: 입력값, label: 입력값 }을 선택합니다.
+   */
+  onCreateOption?: (
+    label: string
+  ) => ComboboxOption | void | Promise<ComboboxOption | void>;
+  /** "새 항목 추가" 행 텍스트 (기본: `"입력값" 추가`) */
+  formatCreateLabel?: (label: string) => string;
+}
+
+// ========================================
+// Component Props
+// ========================================
+
+/**
+ * Combobox Props (검색 가능한 단일 선택)
+ */
+export interface ComboboxProps
+  extends ComboboxCommonProps,
+    ComboboxCreatableProps {
+  /** 선택 값 (Controlled, 빈 문자열/null은 선택 없음) */
+  value?: string | null;
+  /** 기본 선택 값 (Uncontrolled) */
+  defaultValue?: string | null;
+  /** 선택 변경 핸들러 */
+  onChange?: (value: string | null, option: ComboboxOption | null) => void;
+  /** 값에 해당하는 옵션 (loadOptions 사용 시 처음 표시할 라벨) */
+  selectedOption?: ComboboxOption | null;
+  /** 선택 해제 버튼 표시 (기본: true) */
+  clearable?: boolean;
+}
+
+/**
+ * MultiSelect Props (칩으로 표시하는 다중 선택)
+ */
+export interface MultiSelectProps
+  extends ComboboxCommonProps,
+    ComboboxCreatableProps {
+  /** 선택 값 배열 (Controlled) */
+  value?: string[];
+  /** 기본 선택 값 배열 (Uncontrolled) */
+  defaultValue?: string[];
+  /** 선택 변경 핸들러 */
+  onChange?: (values: string[], options: ComboboxOption[]) => void;
+  /** 값에 해당하는 옵션 (loadOptions 사용 시 처음 표시할 라벨) */
+  selectedOptions?: ComboboxOption[];
+  /** 최대 선택 수 */
+  maxSelected?: number;
+}
+
+/**
+ * Autocomplete Props (자유 입력 + 추천 옵션)
+ */
+export interface AutocompleteProps extends ComboboxCommonProps {
+  /** 입력값 (Controlled) */
+  value?: string;
+  /** 기본 입력값 (Uncontrolled) */
+  defaultValue?: string;
+  /** 입력값 변경 핸들러 (옵션을 고르면 옵션 라벨과 옵션 전달) */
+  onChange?: (value: string, option: ComboboxOption | null) => void;
+}
+
+// ========================================
+// Form Adapter
+// ========================================
+
+/**
+ * FormCombobox / FormDialog 필드 타입
+ */
+export type FormComboboxType = "combobox" | "multiselect" | "autocomplete";
+
+/**
+ * FormDialog 필드 설정의 콤보박스 옵션 (FormFieldConfig.combobox)
+ */
+export interface ComboboxFieldOptions
+  extends ComboboxCreatableProps,
+    Pick<
+      ComboboxCommonProps,
+      | "loadOptions"
+      | "queryKey"
+      | "debounceMs"
+      | "minQueryLength"
+      | "filterOptions"
+      | "virtualized"
+      | "emptyMessage"
+    > {
+  /** 값에 해당하는 옵션 (loadOptions 사용 시 처음 표시할 라벨) */
+  selectedOptions?: ComboboxOption[];
+  /** 최대 선택 수 (multiselect) */
+  maxSelected?: number;
+  /** 선택 해제 버튼 표시 (combobox, 기본: true) */
+  clearable?: boolean;
+}
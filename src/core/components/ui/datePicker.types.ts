@@ -0,0 +1,126 @@
+/**
+ * SoftOne Design System - Date Picker Types
+ * 작성: SoftOne Frontend Team
+ *
+ * DatePicker / DateRangePicker / TimePicker 컴포넌트와
+ * react-hook-form 어댑터(FormDatePicker)에서 사용하는 공통 타입 정의.
+ * 값은 문자열입니다. 날짜 "YYYY-MM-DD", 시간 "HH:mm"
+ */
+
+import type { Ref } from "react";
+import type { InputSize } from "./Input";
+import type {
+  DateConstraints,
+  DateRangePreset,
+  DateRangeValue,
+} from "../../utils/datePickerUtils";
+
+// ========================================
+// Common Props
+// ========================================
+
+/**
+ * 입력 필드 공통 Props
+ */
+export interface PickerInputProps {
+  /** placeholder 텍스트 */
+  placeholder?: string;
+  /** 비활성화 */
+  disabled?: boolean;
+  /** 에러 상태 */
+  error?: boolean;
+  /** 입력 필드 크기 */
+  size?: InputSize;
+  /** 전체 너비 */
+  fullWidth?: boolean;
+  /** 입력 필드 id (FormFieldWrapper가 주입) */
+  id?: string;
+  /** 입력 필드 name */
+  name?: string;
+  "aria-label"?: string;
+  "aria-describedby"?: string;
+  "aria-invalid"?: boolean;
+  /** 포커스가 컴포넌트 밖으로 나갈 때 (react-hook-form touched 처리) */
+  onBlur?: () => void;
+  /** 입력 필드 ref (react-hook-form 에러 포커스) */
+  ref?: Ref<HTMLInputElement>;
+  /** 추가 클래스 */
+  className?: string;
+}
+
+/**
+ * DatePicker / DateRangePicker 공통 Props (minDate, maxDate, disabledDates 포함)
+ */
+export interface DatePickerCommonProps
+  extends PickerInputProps,
+    DateConstraints {
+  /** 지우기 버튼 표시 (기본: true) */
+  clearable?: boolean;
+}
+
+// ========================================
+// Component Props
+// ========================================
+
+/**
+ * DatePicker Props
+ */
+export interface DatePickerProps extends DatePickerCommonProps {
+  /** 선택 날짜 (Controlled, "YYYY-MM-DD", 빈 문자열/null은 선택 없음) */
+  value?: string | null;
+  /** 기본 선택 날짜 (Uncontrolled) */
+  defaultValue?: string | null;
+  /** 날짜 변경 핸들러 */
+  onChange?: (value: string | null) => void;
+  /** 달력 아래 "오늘" 버튼 표시 (기본: true) */
+  showTodayButton?: boolean;
+}
+
+/**
+ * DateRangePicker Props
+ */
+export interface DateRangePickerProps extends DatePickerCommonProps {
+  /** 선택 기간 (Controlled) */
+  value?: DateRangeValue;
+  /** 기본 선택 기간 (Uncontrolled) */
+  defaultValue?: DateRangeValue;
+  /** 기간 변경 핸들러 (시작일/종료일을 모두 고르면 호출) */
+  onChange?: (value: DateRangeValue) => void;
+  /** 기간 프리셋 (기본: 오늘, 최근 7일, 이번 달 / 빈 배열이면 숨김) */
+  presets?: DateRangePreset[];
+}
+
+/**
+ * TimePicker Props
+ */
+export interface TimePickerProps extends PickerInputProps {
+  /** 선택 시간 (Controlled, "HH:mm", 빈 문자열/null은 선택 없음) */
+  value?: string | null;
+  /** 기본 선택 시간 (Uncontrolled) */
+  defaultValue?: string | null;
+  /** 시간 변경 핸들러 */
+  onChange?: (value: string | null) => void;
+  /** 목록 시간 간격 (분, 기본: 30) */
+  minuteStep?: number;
+  /** 선택할 수 있는 가장 이른 시간 ("HH:mm") */
+  minTime?: string;
+  /** 선택할 수 있는 가장 늦은 시간 ("HH:mm") */
+  maxTime?: string;
+}
+
+// ========================================
+// Form Adapter
+// ========================================
+
+/**
+ * FormDatePicker / FormDialog 필드 타입
+ */
+export type FormDateFieldType = "date" | "daterange" | "time";
+
+/**
+ * FormDialog 필드 설정의 날짜/시간 옵션 (FormFieldConfig.date)
+ */
+export interface DateFieldOptions
+  extends DateConstraints,
+    Pick<DateRangePickerProps, "presets" | "clearable">,
+    Pick<TimePickerProps, "minuteStep" | "minTime" | "maxTime"> {}
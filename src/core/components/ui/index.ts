@@ -58,6 +58,34 @@ export {
 // Select
 export { Select, type SelectProps, type SelectOption, type SelectSize } from "./Select";
 
+// Combobox / MultiSelect / Autocomplete
+export { Combobox, MultiSelect, Autocomplete } from "./Combobox";
+export { FormCombobox, type FormComboboxProps } from "./FormCombobox";
+export type {
+  ComboboxOption,
+  ComboboxCommonProps,
+  ComboboxCreatableProps,
+  ComboboxProps,
+  MultiSelectProps,
+  AutocompleteProps,
+  ComboboxFieldOptions,
+  FormComboboxType,
+} from "./combobox.types";
+
+// DatePicker / DateRangePicker / TimePicker
+export { DatePicker, DateRangePicker } from "./DatePicker";
+export { TimePicker } from "./TimePicker";
+export { FormDatePicker, type FormDatePickerProps } from "./FormDatePicker";
+export type {
+  PickerInputProps,
+  DatePickerCommonProps,
+  DatePickerProps,
+  DateRangePickerProps,
+  TimePickerProps,
+  DateFieldOptions,
+  FormDateFieldType,
+} from "./datePicker.types";
+
 // Pagination
 export {
   Pagination,
@@ -71,6 +99,8 @@ export {
   DataTable,
   type DataTableProps,
   type DataTableColumn,
+  type DataTableFooterRow,
+  type DataTableHandle,
 } from "./DataTable";
 
 // Modal (Legacy - use BaseModal for new code)
@@ -88,6 +118,8 @@ export {
   type FormDialogRenderProps,
 } from "./FormDialog";
 export { DialogRoot, type DialogRootProps, type FormRendererProps } from "./DialogRoot";
+export { UnsavedChangesDialog } from "./UnsavedChangesDialog";
+export { DialogUrlSync } from "./DialogUrlSync";
 
 // StatCard
 export {
@@ -130,8 +162,17 @@ export { RichTextViewer, type RichTextViewerProps } from "./RichTextViewer";
 export { FormFieldWrapper, type FormFieldWrapperProps } from "./FormFieldWrapper";
 
 // TreeView (Step 7)
-export { TreeView, type TreeNode, type TreeViewProps } from "./TreeView";
-export type { CheckState, CheckStateMap } from "./tree.types";
+export {
+  TreeView,
+  type TreeNode,
+  type TreeViewProps,
+  type TreeViewHandle,
+} from "./TreeView";
+export type {
+  CheckState,
+  CheckStateMap,
+  TreeScrollToNodeOptions,
+} from "./tree.types";
 
 // Tabs (Step 7)
 export {
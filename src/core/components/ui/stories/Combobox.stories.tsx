@@ -0,0 +1,252 @@
+/**
+ * SoftOne Design System(SDS) - Combobox Stories
+ * 작성: SoftOne Frontend Team
+ * 설명: Combobox / MultiSelect / Autocomplete 컴포넌트의 Storybook 문서.
+ */
+
+import type { Meta, StoryObj } from "@storybook/react";
+import { useState } from "react";
+import { Autocomplete, Combobox, MultiSelect } from "../Combobox";
+import type { ComboboxOption } from "../combobox.types";
+
+const meta: Meta<typeof Combobox> = {
+  title: "Core/UI/Combobox",
+  component: Combobox,
+  parameters: {
+    layout: "centered",
+    docs: {
+      description: {
+        component: `
+검색해서 고르는 선택 필드입니다. (WAI-ARIA Combobox 패턴)
+
+### 특징
+- **Combobox / MultiSelect / Autocomplete**: 단일 선택, 칩 다중 선택, 자유 입력
+- **loadOptions**: 디바운스된 서버 검색 (TanStack Query 캐시, 이전 결과 유지)
+- **group**: 옵션을 그룹 헤더 아래 묶어서 표시
+- **creatable**: 일치하는 옵션이 없으면 새 항목 추가
+- **virtualized**: 옵션이 많으면(기본 100개 초과) 보이는 옵션만 렌더링
+- **키보드**: ↓/↑ 이동, Alt+↓/↑ 열기/닫기, Enter 선택, Escape 닫기, Backspace 칩 삭제
+- **FormCombobox**: react-hook-form 어댑터 (FormDialog fields의 combobox/multiselect/autocomplete)
+
+### 사용법
+\`\`\`tsx
+import { Combobox, MultiSelect } from '@core/components/ui';
+
+<Combobox options={cityOptions} value={city} onChange={setCity} />
+
+<MultiSelect
+  loadOptions={(query, signal) => searchUserOptions(query, { signal })}
+  queryKey={['users', 'options']}
+  value={userIds}
+  onChange={setUserIds}
+/>
+\`\`\`
+        `,
+      },
+    },
+  },
+  tags: ["autodocs"],
+  argTypes: {
+    size: {
+      control: "select",
+      options: ["sm", "md", "lg"],
+      description: "입력 필드 크기",
+    },
+    error: {
+      control: "boolean",
+      description: "에러 상태",
+    },
+    disabled: {
+      control: "boolean",
+      description: "비활성화 상태",
+    },
+    creatable: {
+      control: "boolean",
+      description: "새 항목 추가",
+    },
+  },
+  decorators: [
+    (Story) => (
+      <div className="w-80 h-96">
+        <Story />
+      </div>
+    ),
+  ],
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// ========================================
+// Sample Options
+// ========================================
+
+const cityOptions: ComboboxOption[] = [
+  { value: "seoul", label: "서울", group: "수도권" },
+  { value: "incheon", label: "인천", group: "수도권" },
+  { value: "suwon", label: "수원", group: "수도권" },
+  { value: "busan", label: "부산", group: "영남" },
+  { value: "daegu", label: "대구", group: "영남" },
+  { value: "ulsan", label: "울산", group: "영남", disabled: true },
+  { value: "gwangju", label: "광주", group: "호남" },
+  { value: "jeonju", label: "전주", group: "호남" },
+];
+
+const skillOptions: ComboboxOption[] = [
+  { value: "react", label: "React" },
+  { value: "typescript", label: "TypeScript" },
+  { value: "node", label: "Node.js" },
+  { value: "java", label: "Java" },
+  { value: "spring", label: "Spring" },
+  { value: "sql", label: "SQL" },
+];
+
+/** 사용자 5,000명 */
+const userOptions: ComboboxOption[] = Array.from(
+  { length: 5000 },
+  (_, index) => ({
+    value: `user-${index + 1}`,
+    label: `사용자 ${index + 1}`,
+    description: `user${index + 1}@softone.co.kr`,
+  })
+);
+
+/** 서버 검색 흉내 (지연 600ms) */
+const searchUsers = (query: string, signal: AbortSignal) =>
+  new Promise<ComboboxOption[]>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      resolve(
+        userOptions
+          .filter((option) => option.label.includes(query))
+          .slice(0, 50)
+      );
+    }, 600);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    });
+  });
+
+// ========================================
+// Basic Stories
+// ========================================
+
+/**
+ * 그룹 옵션 (한글 초성 검색 지원: "ㅅㅇ" → 서울, 수원)
+ */
+export const Default: Story = {
+  args: {
+    options: cityOptions,
+    placeholder: "도시를 검색하세요",
+    "aria-label": "도시",
+    fullWidth: true,
+  },
+};
+
+/**
+ * 새 항목 추가
+ */
+export const Creatable: Story = {
+  args: {
+    options: skillOptions,
+    placeholder: "기술을 검색하거나 추가하세요",
+    "aria-label": "기술",
+    creatable: true,
+    fullWidth: true,
+  },
+};
+
+// ========================================
+// MultiSelect
+// ========================================
+
+const MultiSelectDemo = () => {
+  const [skills, setSkills] = useState<string[]>(["react"]);
+
+  return (
+    <div className="space-y-2">
+      <MultiSelect
+        options={skillOptions}
+        value={skills}
+        onChange={setSkills}
+        placeholder="기술 선택"
+        aria-label="기술"
+        maxSelected={4}
+        creatable
+        fullWidth
+      />
+      <p className="text-sm text-softone-text-muted">
+        선택: {skills.join(", ") || "없음"} (최대 4개)
+      </p>
+    </div>
+  );
+};
+
+/**
+ * 칩 다중 선택 (Backspace로 마지막 칩 삭제, 최대 4개)
+ */
+export const MultiSelectChips: Story = {
+  render: () => <MultiSelectDemo />,
+};
+
+// ========================================
+// Async / Large Lists
+// ========================================
+
+/**
+ * 서버 검색 (디바운스 300ms + 응답 600ms, 같은 검색어는 캐시 사용)
+ */
+export const AsyncSearch: Story = {
+  render: () => (
+    <MultiSelect
+      loadOptions={searchUsers}
+      queryKey={["stories", "combobox", "users"]}
+      placeholder="사용자 검색"
+      aria-label="사용자"
+      fullWidth
+    />
+  ),
+};
+
+/**
+ * 옵션 5,000개 (보이는 옵션만 렌더링)
+ */
+export const Virtualized: Story = {
+  args: {
+    options: userOptions,
+    placeholder: "사용자 선택",
+    "aria-label": "사용자",
+    fullWidth: true,
+  },
+};
+
+// ========================================
+// Autocomplete
+// ========================================
+
+const AutocompleteDemo = () => {
+  const [department, setDepartment] = useState("");
+
+  return (
+    <div className="space-y-2">
+      <Autocomplete
+        options={cityOptions}
+        value={department}
+        onChange={setDepartment}
+        placeholder="근무지 (자유 입력)"
+        aria-label="근무지"
+        fullWidth
+      />
+      <p className="text-sm text-softone-text-muted">
+        입력값: {department || "없음"}
+      </p>
+    </div>
+  );
+};
+
+/**
+ * 자유 입력 + 추천 옵션
+ */
+export const AutocompleteInput: Story = {
+  render: () => <AutocompleteDemo />,
+};
@@ -5,7 +5,12 @@
  */
 
 import type { Meta, StoryObj } from "@storybook/react";
-import { DataTable, type DataTableColumn } from "../DataTable";
+import { useRef } from "react";
+import {
+  DataTable,
+  type DataTableColumn,
+  type DataTableHandle,
+} from "../DataTable";
 import { Badge } from "../Badge";
 
 const meta: Meta<typeof DataTable> = {
@@ -23,6 +28,10 @@ SoftOne Design System의 DataTable 컴포넌트입니다.
 - **커스텀 렌더러**: column.render로 셀 커스터마이징
 - **상태 표시**: 로딩, 빈 상태 자동 처리
 - **스타일링**: zebra, hover, border 옵션
+- **그리드 기능**: 정렬(단일/다중), 체크박스 선택, 페이지네이션,
+  헤더/첫 컬럼 고정, 컬럼 표시/숨김, 컬럼 너비 조절, 합계 행
+- **가상 스크롤**: virtualized로 대용량 데이터도 보이는 행만 렌더링
+  (키보드 행 이동, ref.scrollToRow 지원)
 
 ### 사용법
 \`\`\`tsx
@@ -413,3 +422,127 @@ export const WithActions: Story = {
   },
 };
 
+// ========================================
+// Grid Feature Stories
+// ========================================
+
+const sortableColumns: DataTableColumn<User>[] = basicColumns.map((column) => ({
+  ...column,
+  sortable: column.key !== "status",
+}));
+
+/**
+ * 정렬 (Shift+클릭으로 다중 정렬)
+ */
+export const Sorting: Story = {
+  render: () => (
+    <DataTable
+      columns={sortableColumns}
+      data={sampleUsers}
+      multiSort
+      defaultSorts={[{ field: "role", direction: "asc" }]}
+    />
+  ),
+};
+
+/**
+ * 체크박스 행 선택 + 페이지네이션
+ */
+export const SelectionWithPagination: Story = {
+  render: () => (
+    <DataTable
+      columns={sortableColumns}
+      data={sampleUsers}
+      selectionMode="multiple"
+      defaultSelectedIds={["2"]}
+      defaultPagination={{ page: 1, pageSize: 3 }}
+      onSelectionChange={(selection) => console.log(selection.selectedIds)}
+    />
+  ),
+};
+
+/**
+ * 헤더/첫 컬럼 고정, 컬럼 표시/숨김, 너비 조절, 합계 행
+ */
+export const GridLayout: Story = {
+  render: () => (
+    <DataTable
+      className="max-w-xl"
+      columns={basicColumns.map((column) => ({
+        ...column,
+        width: column.key === "id" ? 60 : 160,
+        hideable: column.key !== "name",
+      }))}
+      data={[...sampleUsers, ...sampleUsers].map((user, index) => ({
+        ...user,
+        id: index + 1,
+      }))}
+      stickyHeader
+      stickyFirstColumn
+      maxHeight={240}
+      showColumnToggle
+      resizableColumns
+      defaultHiddenColumnKeys={["createdAt"]}
+      footerRows={[
+        {
+          key: "count",
+          label: "합계",
+          values: {
+            status: (rows) =>
+              `활성 ${rows.filter((row) => row.status === "ACTIVE").length}명`,
+          },
+        },
+      ]}
+    />
+  ),
+};
+
+// ========================================
+// Virtualized Story
+// ========================================
+
+const manyUsers: User[] = Array.from({ length: 10000 }, (_, index) => ({
+  ...sampleUsers[index % sampleUsers.length],
+  id: index + 1,
+  name: `사용자 ${index + 1}`,
+  email: `user${index + 1}@example.com`,
+}));
+
+/**
+ * 가상 스크롤 (10,000행)
+ * 행에 포커스한 뒤 ↑/↓, PageUp/PageDown, Home/End로 이동할 수 있습니다.
+ */
+const VirtualizedTableDemo = () => {
+  const tableRef = useRef<DataTableHandle>(null);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <button
+          className="px-2 py-1 text-xs border rounded"
+          onClick={() => tableRef.current?.scrollToRow("5000", "center")}
+        >
+          5000번 행으로 이동
+        </button>
+        <button
+          className="px-2 py-1 text-xs border rounded"
+          onClick={() => tableRef.current?.scrollToIndex(0)}
+        >
+          맨 위로
+        </button>
+      </div>
+      <DataTable
+        ref={tableRef}
+        columns={sortableColumns}
+        data={manyUsers}
+        virtualized
+        maxHeight={400}
+        selectionMode="multiple"
+      />
+    </div>
+  );
+};
+
+export const Virtualized: Story = {
+  render: () => <VirtualizedTableDemo />,
+};
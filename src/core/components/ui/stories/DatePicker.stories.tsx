@@ -0,0 +1,247 @@
+/**
+ * SoftOne Design System(SDS) - DatePicker Stories
+ * 작성: SoftOne Frontend Team
+ * 설명: DatePicker / DateRangePicker / TimePicker 컴포넌트의 Storybook 문서.
+ */
+
+import type { Meta, StoryObj } from "@storybook/react";
+import { useState } from "react";
+import { z } from "zod";
+import { DatePicker, DateRangePicker } from "../DatePicker";
+import { TimePicker } from "../TimePicker";
+import { FormDialog, type FormFieldConfig } from "../FormDialog";
+import { Button } from "../Button";
+import {
+  getTodayValue,
+  shiftDate,
+  type DateRangeValue,
+} from "../../../utils/datePickerUtils";
+import {
+  dateRangeSchema,
+  dateSchema,
+  timeSchema,
+} from "../../../utils/dateSchemas";
+
+const meta: Meta<typeof DatePicker> = {
+  title: "Core/UI/DatePicker",
+  component: DatePicker,
+  parameters: {
+    layout: "centered",
+    docs: {
+      description: {
+        component: `
+달력 팝업으로 날짜/기간/시간을 고르는 입력 필드입니다. (WAI-ARIA Date Picker Dialog 패턴)
+
+### 특징
+- **DatePicker / DateRangePicker / TimePicker**: 날짜("YYYY-MM-DD"), 기간({ start, end }), 시간("HH:mm")
+- **직접 입력**: "2024.3.1", "20240301", "930" 등을 형식에 맞춰 반영
+- **minDate / maxDate / disabledDates**: 선택할 수 없는 날짜 (배열 또는 함수)
+- **presets**: 기간 프리셋 (기본: 오늘, 최근 7일, 이번 달)
+- **키보드**: ↓ 달력 열기, ←/→/↑/↓ 이동, Home/End 주의 처음/끝, PageUp/PageDown 달 이동(Shift: 연도), Enter 선택, Escape 닫기
+- **FormDatePicker + dateSchema**: react-hook-form + zod 연동 (FormDialog fields의 date/daterange/time)
+
+### 사용법
+\`\`\`tsx
+import { DatePicker, DateRangePicker } from '@core/components/ui';
+
+<DatePicker value={date} onChange={setDate} minDate="2024-01-01" />
+
+<DateRangePicker value={period} onChange={setPeriod} />
+\`\`\`
+        `,
+      },
+    },
+  },
+  tags: ["autodocs"],
+  argTypes: {
+    size: {
+      control: "select",
+      options: ["sm", "md", "lg"],
+      description: "입력 필드 크기",
+    },
+    error: {
+      control: "boolean",
+      description: "에러 상태",
+    },
+    disabled: {
+      control: "boolean",
+      description: "비활성화 상태",
+    },
+    clearable: {
+      control: "boolean",
+      description: "지우기 버튼 표시",
+    },
+  },
+  decorators: [
+    (Story) => (
+      <div className="w-80 h-[28rem]">
+        <Story />
+      </div>
+    ),
+  ],
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** 주말 제외 */
+const isWeekend = (date: string) => [0, 6].includes(new Date(date).getDay());
+
+// ========================================
+// DatePicker
+// ========================================
+
+/**
+ * 기본 (직접 입력 또는 달력 선택)
+ */
+export const Default: Story = {
+  args: {
+    "aria-label": "날짜",
+    fullWidth: true,
+  },
+};
+
+/**
+ * 선택 제한 (오늘부터 30일 이내, 주말 제외)
+ */
+export const Constraints: Story = {
+  args: {
+    "aria-label": "예약일",
+    minDate: getTodayValue(),
+    maxDate: shiftDate(getTodayValue(), 30, "day"),
+    disabledDates: isWeekend,
+    fullWidth: true,
+  },
+};
+
+// ========================================
+// DateRangePicker
+// ========================================
+
+const DateRangeDemo = () => {
+  const [period, setPeriod] = useState<DateRangeValue>({
+    start: null,
+    end: null,
+  });
+
+  return (
+    <div className="space-y-2">
+      <DateRangePicker
+        value={period}
+        onChange={setPeriod}
+        maxDate={getTodayValue()}
+        aria-label="조회 기간"
+        fullWidth
+      />
+      <p className="text-sm text-softone-text-muted">
+        선택: {period.start ?? "-"} ~ {period.end ?? "-"}
+      </p>
+    </div>
+  );
+};
+
+/**
+ * 기간 선택 (프리셋: 오늘, 최근 7일, 이번 달 / 오늘 이후 선택 불가)
+ */
+export const DateRange: Story = {
+  render: () => <DateRangeDemo />,
+};
+
+// ========================================
+// TimePicker
+// ========================================
+
+const TimeDemo = () => {
+  const [time, setTime] = useState<string | null>("09:00");
+
+  return (
+    <div className="space-y-2">
+      <TimePicker
+        value={time}
+        onChange={setTime}
+        minuteStep={15}
+        minTime="09:00"
+        maxTime="18:00"
+        aria-label="시작 시간"
+        fullWidth
+      />
+      <p className="text-sm text-softone-text-muted">
+        선택: {time ?? "없음"} (09:00 ~ 18:00, 15분 간격)
+      </p>
+    </div>
+  );
+};
+
+/**
+ * 시간 선택 ("930" → 09:30)
+ */
+export const Time: Story = {
+  render: () => <TimeDemo />,
+};
+
+// ========================================
+// FormDialog
+// ========================================
+
+const meetingSchema = z.object({
+  date: dateSchema({ minDate: getTodayValue() }),
+  time: timeSchema(),
+  period: dateRangeSchema({ optional: true, maxDays: 31 }),
+});
+
+type MeetingFormValues = z.infer<typeof meetingSchema>;
+
+const FormDialogDemo = () => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const fields: FormFieldConfig<MeetingFormValues>[] = [
+    {
+      name: "date",
+      label: "회의일",
+      type: "date",
+      date: { minDate: getTodayValue(), disabledDates: isWeekend },
+    },
+    {
+      name: "time",
+      label: "시작 시간",
+      type: "time",
+      date: { minuteStep: 30, minTime: "09:00", maxTime: "18:00" },
+    },
+    {
+      name: "period",
+      label: "반복 기간",
+      type: "daterange",
+      description: "선택 사항입니다 (최대 31일)",
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <Button onClick={() => setIsOpen(true)}>회의 등록</Button>
+
+      <FormDialog<MeetingFormValues>
+        isOpen={isOpen}
+        onClose={() => setIsOpen(false)}
+        title="회의 등록"
+        schema={meetingSchema}
+        fields={fields}
+        defaultValues={{
+          date: "",
+          time: "",
+          period: { start: null, end: null },
+        }}
+        onSubmit={async (values) => {
+          await new Promise((resolve) => setTimeout(resolve, 1000));
+          console.log("제출된 데이터:", values);
+        }}
+      />
+    </div>
+  );
+};
+
+/**
+ * FormDialog fields (date / time / daterange + dateSchema 검증)
+ */
+export const WithFormDialog: Story = {
+  render: () => <FormDialogDemo />,
+};
@@ -209,9 +209,15 @@ const AutoGeneratedDemo = () => {
     {
       name: "department",
       label: "부서",
-      type: "text",
+      type: "autocomplete",
       placeholder: "부서를 입력하세요",
       description: "선택 사항입니다",
+      options: [
+        { value: "dev", label: "개발팀" },
+        { value: "design", label: "디자인팀" },
+        { value: "sales", label: "영업팀" },
+        { value: "hr", label: "인사팀" },
+      ],
     },
   ];
 
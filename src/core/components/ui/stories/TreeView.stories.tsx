@@ -5,9 +5,10 @@
  */
 
 import type { Meta, StoryObj } from "@storybook/react";
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Folder, File, Users, Building, User } from "lucide-react";
-import { TreeView, type TreeNode } from "../TreeView";
+import { TreeView, type TreeNode, type TreeViewHandle } from "../TreeView";
+import { applyTreeMove } from "../../../utils/treeMoveUtils";
 
 const meta: Meta<typeof TreeView> = {
   title: "Core/UI/TreeView",
@@ -20,11 +21,17 @@ const meta: Meta<typeof TreeView> = {
 SoftOne Design System의 TreeView 컴포넌트입니다.
 
 ### 특징
-- **재귀 렌더링**: 깊은 트리 구조 지원
+- **깊은 트리 구조**: 펼친 노드를 평탄화해 렌더링
+- **가상 스크롤**: virtualized로 수천 개 노드도 보이는 노드만 렌더링,
+  확장/축소 시 스크롤 위치 유지, ref.scrollToNode로 노드 이동
+- **키보드**: ↑/↓/Home/End 이동, →/← 확장/축소, Enter 선택, Space 체크
+- **지연 로드**: hasChildren + loadChildren으로 펼칠 때 자식 로드 (로딩/실패/다시 시도)
+- **필터**: searchable로 일치 글자 강조, 일치 노드의 상위 자동 펼침 (한글 초성 지원)
 - **Controlled/Uncontrolled**: 두 가지 모드 지원
 - **선택/확장**: selectedIds, expandedIds 관리
 - **3-state 체크박스**: checkable 옵션으로 부모/자식 동기화
-- **A11y**: role="tree", role="treeitem" 적용
+- **드래그 앤 드롭**: draggable + onMoveNode로 순서/부모 변경 (Alt + 방향키 지원)
+- **A11y**: role="tree", role="treeitem", aria-level/aria-setsize/aria-posinset 적용
 
 ### 사용법
 \`\`\`tsx
@@ -514,3 +521,136 @@ export const ControlledDemo: Story = {
   },
 };
 
+// ========================================
+// Drag & Drop
+// ========================================
+
+/**
+ * 드래그 앤 드롭 (최대 3단계, 파일 아래로는 이동 불가)
+ * 행에 포커스한 뒤 Alt + ↑/↓/→/← 로도 이동할 수 있습니다.
+ */
+const DraggableTreeDemo = () => {
+  const [nodes, setNodes] = useState<TreeNode[]>(fileSystemNodes);
+
+  return (
+    <div className="w-80">
+      <TreeView
+        nodes={nodes}
+        defaultExpandedIds={["src", "src-components"]}
+        draggable
+        moveRules={{
+          maxDepth: 3,
+          canHaveChildren: (node) => Boolean(node.children),
+        }}
+        onMoveNode={(move) => setNodes((prev) => applyTreeMove(prev, move))}
+      />
+    </div>
+  );
+};
+
+export const Draggable: Story = {
+  render: () => <DraggableTreeDemo />,
+};
+
+// ========================================
+// Virtualized
+// ========================================
+
+const largeOrganizationNodes: TreeNode[] = Array.from(
+  { length: 200 },
+  (_, deptIndex) => ({
+    id: `dept-${deptIndex}`,
+    label: `부서 ${deptIndex + 1}`,
+    icon: <Users className="w-4 h-4 text-blue-500" />,
+    children: Array.from({ length: 25 }, (_, empIndex) => ({
+      id: `dept-${deptIndex}-emp-${empIndex}`,
+      label: `사원 ${deptIndex + 1}-${empIndex + 1}`,
+      icon: <User className="w-4 h-4 text-gray-500" />,
+    })),
+  })
+);
+
+/**
+ * 가상 스크롤 (부서 200개 × 사원 25명 = 5,200개 노드)
+ * 접힌 부서 안의 노드로 이동하면 상위 노드를 펼친 뒤 스크롤합니다.
+ */
+const VirtualizedTreeDemo = () => {
+  const treeRef = useRef<TreeViewHandle>(null);
+
+  return (
+    <div className="w-80 space-y-2">
+      <button
+        className="px-2 py-1 text-xs border rounded"
+        onClick={() =>
+          treeRef.current?.scrollToNode("dept-150-emp-10", {
+            align: "center",
+            focus: true,
+          })
+        }
+      >
+        사원 151-11로 이동
+      </button>
+      <TreeView
+        ref={treeRef}
+        nodes={largeOrganizationNodes}
+        defaultExpandedIds={["dept-0", "dept-1"]}
+        checkable
+        virtualized
+        height={360}
+      />
+    </div>
+  );
+};
+
+export const Virtualized: Story = {
+  render: () => <VirtualizedTreeDemo />,
+};
+
+// ========================================
+// Lazy Loading & Filter
+// ========================================
+
+/**
+ * 부서를 펼칠 때 소속 사원을 로드 (영업본부는 첫 로드에 실패)
+ */
+const LazyTreeDemo = () => {
+  const [checked, setChecked] = useState<string[]>(["dept-dev"]);
+  const [failedOnce, setFailedOnce] = useState(false);
+
+  const loadChildren = async (node: TreeNode): Promise<TreeNode[]> => {
+    await new Promise((resolve) => setTimeout(resolve, 800));
+    if (node.id === "dept-sales" && !failedOnce) {
+      setFailedOnce(true);
+      throw new Error("네트워크 오류");
+    }
+    return Array.from({ length: 5 }, (_, index) => ({
+      id: `${node.id}-emp-${index}`,
+      label: `${node.label} 사원 ${index + 1}`,
+      icon: <User className="w-4 h-4 text-gray-500" />,
+    }));
+  };
+
+  return (
+    <div className="w-80 space-y-2">
+      <TreeView
+        nodes={[
+          { id: "dept-dev", label: "개발본부", hasChildren: true },
+          { id: "dept-sales", label: "영업본부", hasChildren: true },
+          { id: "dept-hr", label: "인사팀", hasChildren: true },
+        ]}
+        loadChildren={loadChildren}
+        checkable
+        checkedIds={checked}
+        onCheckedIdsChange={setChecked}
+        indeterminateIds={["dept-hr"]}
+        searchable
+        filterPlaceholder="부서/사원 검색 (예: ㄱㅂ)"
+      />
+      <p className="text-xs text-gray-500">체크: {checked.join(", ")}</p>
+    </div>
+  );
+};
+
+export const LazyLoadingWithFilter: Story = {
+  render: () => <LazyTreeDemo />,
+};
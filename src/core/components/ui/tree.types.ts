@@ -6,7 +6,9 @@
  * 도메인 독립적이며, 순수 UI 구조만 정의.
  */
 
-import type { ReactNode } from "react";
+import type { ReactNode, Ref } from "react";
+import type { TreeMove, TreeMoveRules } from "../../utils/treeMoveUtils";
+import type { VirtualScrollAlign } from "../../utils/virtualUtils";
 
 // ========================================
 // TreeNode
@@ -22,6 +24,11 @@ export interface TreeNode {
   label: string;
   /** 자식 노드 */
   children?: TreeNode[];
+  /**
+   * 자식이 있지만 아직 로드하지 않은 노드
+   * (children이 없으면 처음 펼칠 때 TreeView의 loadChildren으로 로드)
+   */
+  hasChildren?: boolean;
   /** 비활성화 여부 */
   disabled?: boolean;
   /** 노드 아이콘 */
@@ -68,11 +75,85 @@ export interface TreeViewProps {
   defaultCheckedIds?: string[];
   /** 체크 변경 핸들러 */
   onCheckedIdsChange?: (ids: string[]) => void;
+  /**
+   * 자식을 로드하지 않았지만 일부 하위가 체크된 노드 (서버에서 계산)
+   * 자식을 로드하면 자식 체크 상태로 다시 계산합니다.
+   */
+  indeterminateIds?: string[];
+
+  // 지연 로드 관련
+  /** hasChildren 노드를 처음 펼칠 때 자식 로드 (체크된 노드의 자식은 체크 상태를 이어받음) */
+  loadChildren?: (node: TreeNode) => Promise<TreeNode[]>;
+  /** 자식 로드 완료 핸들러 (nodes에 반영하면 드래그 앤 드롭에서도 사용 가능) */
+  onChildrenLoaded?: (node: TreeNode, children: TreeNode[]) => void;
+
+  // 필터 관련
+  /** 필터 입력창 표시 */
+  searchable?: boolean;
+  /** 필터 입력창 placeholder */
+  filterPlaceholder?: string;
+  /** 필터 검색어 (Controlled) */
+  filterText?: string;
+  /** 기본 필터 검색어 (Uncontrolled) */
+  defaultFilterText?: string;
+  /** 필터 검색어 변경 핸들러 */
+  onFilterTextChange?: (text: string) => void;
+  /**
+   * 노드 일치 여부 (기본: 라벨 부분 일치, 한글 초성 지원)
+   * 로드한 노드만 검색하므로, 로드하지 않은 하위까지 찾으려면 서버 검색 결과로 nodes를 바꿉니다.
+   */
+  filterNode?: (node: TreeNode, filterText: string) => boolean;
+
+  // 드래그 앤 드롭 관련
+  /** 드래그 앤 드롭/키보드(Alt + 방향키) 이동 허용 */
+  draggable?: boolean;
+  /** 이동 규칙 (최대 깊이, 하위 허용 여부 등) */
+  moveRules?: TreeMoveRules<TreeNode>;
+  /** 이동 확정 핸들러 (applyTreeMove로 nodes 갱신) */
+  onMoveNode?: (move: TreeMove) => void;
+
+  // 가상 스크롤 관련
+  /** 보이는 노드만 렌더링 (대용량 트리) */
+  virtualized?: boolean;
+  /** 스크롤 영역 높이 (virtualized 기본: 400px) */
+  height?: number | string;
+  /** 측정 전 예상 노드 높이 (px, 기본: 32) */
+  estimateRowHeight?: number;
+  /** 보이는 범위 위/아래로 더 렌더링할 노드 수 (기본: 6) */
+  overscan?: number;
+
+  /** 스크롤 API (scrollToNode) */
+  ref?: Ref<TreeViewHandle>;
 
   /** 추가 클래스 */
   className?: string;
 }
 
+// ========================================
+// TreeView Handle
+// ========================================
+
+/**
+ * scrollToNode 옵션
+ */
+export interface TreeScrollToNodeOptions {
+  /** 스크롤 위치 맞춤 (기본: "auto" - 이미 보이면 그대로) */
+  align?: VirtualScrollAlign;
+  /** 스크롤 후 노드에 포커스 */
+  focus?: boolean;
+}
+
+/**
+ * TreeView ref API
+ */
+export interface TreeViewHandle {
+  /**
+   * 노드로 스크롤 (접힌 상위 노드는 펼침)
+   * @returns 노드를 찾지 못하면 false
+   */
+  scrollToNode: (id: string, options?: TreeScrollToNodeOptions) => boolean;
+}
+
 // ========================================
 // TreeNodeItem Props
 // ========================================
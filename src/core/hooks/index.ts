@@ -27,3 +27,52 @@ export {
   type UsePermissionResult,
   type PermissionGuardProps,
 } from "./usePermission";
+
+// Tree Drag & Drop Hook
+export {
+  useTreeDragDrop,
+  getTreeDropIndicatorClass,
+  type UseTreeDragDropOptions,
+  type TreeDropTarget,
+  type TreeRowDragProps,
+} from "./useTreeDragDrop";
+
+// Workspace Tab Hook (멀티 탭 작업 공간)
+export {
+  useWorkspaceTabActive,
+  useWorkspaceTabKey,
+  WorkspaceTabActiveContext,
+  WorkspaceTabKeyContext,
+} from "./useWorkspaceTabActive";
+
+// Menu Preference Sync Hook (즐겨찾기/최근 방문)
+export { useMenuPreferenceSync } from "./useMenuPreferenceSync";
+
+// Unsaved Changes Guard Hook (저장하지 않은 변경 사항)
+export {
+  useUnsavedChangesGuard,
+  type UseUnsavedChangesGuardOptions,
+  type UseUnsavedChangesGuardResult,
+} from "./useUnsavedChangesGuard";
+
+// Dialog Deep Link Hook (URL로 다이얼로그 다시 열기)
+export {
+  useDialogDeepLink,
+  type UseDialogDeepLinkOptions,
+  type DialogDeepLinkOpener,
+} from "./useDialogDeepLink";
+
+// Virtual Rows Hook (가상 스크롤)
+export {
+  useVirtualRows,
+  type UseVirtualRowsOptions,
+  type UseVirtualRowsResult,
+  type VirtualRow,
+} from "./useVirtualRows";
+
+// Remote Options Hook (디바운스 원격 옵션 검색)
+export {
+  useRemoteOptions,
+  type UseRemoteOptionsOptions,
+  type UseRemoteOptionsResult,
+} from "./useRemoteOptions";
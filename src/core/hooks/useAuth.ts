@@ -6,6 +6,7 @@
  */
 
 import { useAuthStore, type User } from "../store/authStore";
+import { logoutSession } from "../api/httpClient";
 
 // ========================================
 // useAuth Hook
@@ -29,7 +30,6 @@ export function useAuth() {
   const user = useAuthStore((state) => state.user);
   const accessToken = useAuthStore((state) => state.accessToken);
   const login = useAuthStore((state) => state.login);
-  const logout = useAuthStore((state) => state.logout);
   const updateUser = useAuthStore((state) => state.updateUser);
   const hasRole = useAuthStore((state) => state.hasRole);
   const hasAnyRole = useAuthStore((state) => state.hasAnyRole);
@@ -49,7 +49,8 @@ export function useAuth() {
 
     // Actions
     login,
-    logout,
+    /** 로컬 상태 초기화 + 서버 Refresh Token 폐기 */
+    logout: logoutSession,
     updateUser,
 
     // Role Helpers
@@ -0,0 +1,95 @@
+/**
+ * SoftOne Design System(SDS) - Dialog Deep Link Hook
+ * 작성: SoftOne Frontend Team
+ *
+ * URL의 다이얼로그 파라미터(?dialog=키:ID)로 다이얼로그를 다시 엽니다.
+ *   - 북마크/공유한 URL로 들어오거나 브라우저 앞으로 가기로 돌아왔을 때 사용합니다.
+ *   - 데이터가 준비될 때까지(enabled) 기다렸다가 한 번만 엽니다.
+ *   - open이 false를 반환하면(대상을 찾을 수 없음 등) URL에서 파라미터를 제거합니다.
+ *
+ * 다이얼로그는 deepLink: true와 같은 키(formKey), payload.id로 열어야 URL과 연결됩니다.
+ *
+ * @example
+ * useDialogDeepLink(
+ *   "productDetail",
+ *   (id) => {
+ *     const product = products.find((p) => p.id === id);
+ *     if (!product) return false;
+ *     openProductDetail(product); // openDialog({ formKey: "productDetail", payload: product, deepLink: true, ... })
+ *   },
+ *   { enabled: !isLoading }
+ * );
+ */
+
+import { useEffect, useRef } from "react";
+import { useNavigation } from "../router/NavigationContext";
+import {
+  DIALOG_QUERY_PARAM,
+  buildDialogHref,
+  getDialogDeepLinkValue,
+  parseDialogDeepLink,
+} from "../router/dialogDeepLink";
+import { useDialogStore } from "../store/dialogStore";
+
+// ========================================
+// Types
+// ========================================
+
+export interface UseDialogDeepLinkOptions {
+  /** 다시 열 준비가 되었는지 (데이터 로딩 완료 등, 기본: true) */
+  enabled?: boolean;
+}
+
+/**
+ * 다이얼로그 열기 (ID는 URL의 payload ID, 없으면 null)
+ * @returns false면 열지 못한 것으로 보고 URL에서 파라미터 제거
+ */
+export type DialogDeepLinkOpener = (id: string | null) => boolean | void;
+
+// ========================================
+// useDialogDeepLink Hook
+// ========================================
+
+export function useDialogDeepLink(
+  key: string,
+  open: DialogDeepLinkOpener,
+  options: UseDialogDeepLinkOptions = {}
+): void {
+  const { enabled = true } = options;
+  const navigation = useNavigation();
+  const value = navigation.getQueryParams().get(DIALOG_QUERY_PARAM);
+
+  const isOpen = useDialogStore((state) =>
+    state.dialogs.some((dialog) => getDialogDeepLinkValue(dialog) === value)
+  );
+
+  /** 이미 처리한 파라미터 값 (닫은 직후 다시 열지 않도록) */
+  const handledValueRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (value === null) {
+      handledValueRef.current = null;
+      return;
+    }
+    if (isOpen) {
+      handledValueRef.current = value;
+      return;
+    }
+    if (!enabled || handledValueRef.current === value) return;
+
+    const link = parseDialogDeepLink(value);
+    if (link?.key !== key) return;
+
+    handledValueRef.current = value;
+    if (open(link.id) === false) {
+      navigation.replace(
+        buildDialogHref(
+          navigation.getCurrentPath(),
+          navigation.getQueryParams(),
+          null
+        ),
+        { scroll: false }
+      );
+    }
+  }, [key, value, isOpen, enabled, open, navigation]);
+}
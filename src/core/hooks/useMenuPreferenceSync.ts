@@ -0,0 +1,65 @@
+/**
+ * SoftOne Design System(SDS) - Menu Preference Sync Hook
+ * 작성: SoftOne Frontend Team
+ *
+ * 즐겨찾기/최근 방문(menuPreferenceStore)을 로그인 사용자와 맞춥니다. MainLayout에서 한 번 사용합니다.
+ *   - 사용자가 바뀌면 해당 사용자의 값을 복원하고 서버와 동기화
+ *   - accessibleRouteKeys가 바뀌면(정책 변경) 접근할 수 없는 routeKey 제거
+ *   - 화면을 이동하면 최근 방문에 기록 (경로를 다시 만들 수 없는 /users/:id 같은 상세 화면 제외)
+ */
+
+import { useEffect } from "react";
+import { useNavigation } from "../router/NavigationContext";
+import {
+  findRouteDefinitionByPath,
+  isDynamicRoutePath,
+} from "../router/routeRegistry";
+import { useAuthStore } from "../store/authStore";
+import { useMenuPreferenceStore } from "../store/menuPreferenceStore";
+
+export function useMenuPreferenceSync(): void {
+  const navigation = useNavigation();
+  const currentPath = navigation.getCurrentPath();
+
+  const userId = useAuthStore((state) => state.user?.id);
+  const accessibleRouteKeys = useAuthStore(
+    (state) => state.accessibleRouteKeys
+  );
+  const canAccessRoute = useAuthStore((state) => state.canAccessRoute);
+  const isAccessLoading = useAuthStore(
+    (state) => state.isAuthLoading || state.isPolicyLoading
+  );
+
+  const preferenceUserId = useMenuPreferenceStore((state) => state.userId);
+  const restorePreferences = useMenuPreferenceStore(
+    (state) => state.restorePreferences
+  );
+  const addRecentRoute = useMenuPreferenceStore(
+    (state) => state.addRecentRoute
+  );
+
+  // 사용자/권한 변경 시 복원 (세션·정책 로딩 중에는 접근 가능 목록이 확정되지 않음)
+  useEffect(() => {
+    if (!userId || isAccessLoading) return;
+    void restorePreferences(userId, canAccessRoute);
+  }, [
+    userId,
+    accessibleRouteKeys,
+    isAccessLoading,
+    canAccessRoute,
+    restorePreferences,
+  ]);
+
+  // 방문한 화면을 최근 방문에 기록 (복원이 끝난 사용자만)
+  useEffect(() => {
+    if (!userId || preferenceUserId !== userId) return;
+    const route = findRouteDefinitionByPath(currentPath);
+    if (
+      route &&
+      !isDynamicRoutePath(route.path) &&
+      canAccessRoute(route.routeKey)
+    ) {
+      addRecentRoute(route.routeKey);
+    }
+  }, [currentPath, userId, preferenceUserId, canAccessRoute, addRecentRoute]);
+}
@@ -0,0 +1,127 @@
+/**
+ * SoftOne Design System(SDS) - Remote Options Hook
+ * 작성: SoftOne Frontend Team
+ *
+ * 검색어로 서버에서 옵션을 검색하는 훅 (Combobox/MultiSelect/Autocomplete의 loadOptions)
+ *   - 입력이 멈춘 뒤(debounceMs) 검색하고, 같은 검색어는 TanStack Query 캐시를 사용합니다.
+ *   - 새 결과를 받기 전까지 이전 결과를 유지해 목록이 깜빡이지 않습니다.
+ *   - 입력이 바뀌면 진행 중인 요청은 signal로 취소됩니다.
+ *   - QueryClientProvider 밖(Storybook 등)에서는 기본 queryClient를 사용합니다.
+ *
+ * @example
+ * const { options, isLoading } = useRemoteOptions({
+ *   queryKey: ["users", "options"],
+ *   loadOptions: (query, signal) => searchUserOptions(query, { signal }),
+ *   query: inputValue,
+ *   enabled: isOpen,
+ * });
+ */
+
+import { useContext, useEffect, useState } from "react";
+import {
+  QueryClientContext,
+  keepPreviousData,
+  useQuery,
+  type QueryKey,
+} from "@tanstack/react-query";
+import { queryClient as defaultQueryClient } from "../api/queryClient";
+
+// ========================================
+// Types
+// ========================================
+
+export interface UseRemoteOptionsOptions<T> {
+  /** 캐시 키 (검색어가 뒤에 붙음) */
+  queryKey: QueryKey;
+  /** 검색어로 옵션 조회 */
+  loadOptions: (query: string, signal: AbortSignal) => Promise<T[]>;
+  /** 현재 입력한 검색어 */
+  query: string;
+  /** 입력이 멈춘 뒤 검색까지 기다리는 시간 (ms, 기본: 300) */
+  debounceMs?: number;
+  /** 검색을 시작하는 최소 글자 수 (기본: 0) */
+  minQueryLength?: number;
+  /** false면 검색하지 않음 (목록이 닫혀 있을 때 등) */
+  enabled?: boolean;
+  /** 결과 캐시 유지 시간 (ms, 기본: 1분) */
+  staleTime?: number;
+}
+
+export interface UseRemoteOptionsResult<T> {
+  /** 검색 결과 (새 결과를 받기 전까지 이전 결과 유지) */
+  options: T[];
+  /** 현재 검색어의 결과를 기다리는 중 (디바운스 대기 포함) */
+  isLoading: boolean;
+  /** 검색 실패 */
+  isError: boolean;
+  /** 검색어가 최소 글자 수보다 짧음 */
+  isBelowMinLength: boolean;
+  /** 다시 검색 */
+  refetch: () => void;
+}
+
+// ========================================
+// Helpers
+// ========================================
+
+/** 결과가 없을 때 반환하는 빈 목록 (매 렌더링 같은 참조) */
+const NO_OPTIONS: never[] = [];
+
+/**
+ * 값이 delay 동안 바뀌지 않으면 반영
+ */
+function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedValue(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debouncedValue;
+}
+
+// ========================================
+// useRemoteOptions Hook
+// ========================================
+
+export function useRemoteOptions<T>({
+  queryKey,
+  loadOptions,
+  query,
+  debounceMs = 300,
+  minQueryLength = 0,
+  enabled = true,
+  staleTime = 1000 * 60,
+}: UseRemoteOptionsOptions<T>): UseRemoteOptionsResult<T> {
+  const searchText = query.trim();
+  const debouncedText = useDebouncedValue(searchText, debounceMs);
+  const isBelowMinLength = debouncedText.length < minQueryLength;
+
+  const contextQueryClient = useContext(QueryClientContext);
+  const result = useQuery(
+    {
+      queryKey: [...queryKey, debouncedText],
+      queryFn: ({ signal }) => loadOptions(debouncedText, signal),
+      enabled: enabled && !isBelowMinLength,
+      placeholderData: keepPreviousData,
+      staleTime,
+    },
+    contextQueryClient ?? defaultQueryClient
+  );
+
+  const isDebouncing = searchText !== debouncedText;
+
+  return {
+    options: (!isBelowMinLength && result.data) || NO_OPTIONS,
+    isLoading:
+      enabled &&
+      searchText.length >= minQueryLength &&
+      (isDebouncing || result.isFetching),
+    isError: !isDebouncing && result.isError,
+    isBelowMinLength,
+    refetch: () => {
+      result.refetch();
+    },
+  };
+}
@@ -0,0 +1,196 @@
+/**
+ * SoftOne Design System - useTreeDragDrop Hook
+ * 작성: SoftOne Frontend Team
+ *
+ * 중복 업무 감소:
+ *   트리 행의 드래그 앤 드롭(순서 변경/부모 변경)과 키보드 이동을 한 곳에서 처리.
+ *   TreeView와 메뉴 관리 화면처럼 행 모양이 다른 트리에서도 같은 규칙으로 재사용 가능.
+ *
+ * A11y:
+ *   드래그가 어려운 사용자를 위해 포커스된 행에서 키보드로 같은 이동을 지원합니다.
+ *     - Alt + ↑ / ↓ : 위/아래로 이동
+ *     - Alt + → : 바로 위 항목의 하위로 들여쓰기
+ *     - Alt + ← : 상위 항목 밖으로 내어쓰기
+ *   이동 결과/거부 사유는 announcement로 제공되어 aria-live 영역에 표시할 수 있습니다.
+ *
+ * @example
+ * const dnd = useTreeDragDrop({ nodes, rules, onMove: (move) => save(move) });
+ *
+ * <div {...dnd.getRowProps(node)} className={dnd.getDropPosition(node.id) ? ... : ...}>
+ * <div aria-live="polite" className="sr-only">{dnd.announcement}</div>
+ */
+
+import React, { useCallback, useState } from "react";
+import { cn } from "../utils/classUtils";
+import {
+  resolveKeyboardTreeMove,
+  resolveTreeDrop,
+  type MovableTreeNode,
+  type TreeDropPosition,
+  type TreeKeyboardMoveAction,
+  type TreeMove,
+  type TreeMoveRules,
+} from "../utils/treeMoveUtils";
+
+// ========================================
+// Types
+// ========================================
+
+export interface UseTreeDragDropOptions<T> {
+  /** 현재 트리 */
+  nodes: T[];
+  /** 이동 규칙 (깊이 제한, 하위 허용 여부 등) */
+  rules?: TreeMoveRules<T>;
+  /** 유효한 이동이 확정되었을 때 */
+  onMove: (move: TreeMove) => void;
+  /** 드래그/키보드 이동 비활성화 */
+  disabled?: boolean;
+}
+
+export interface TreeDropTarget {
+  id: string;
+  position: TreeDropPosition;
+}
+
+export interface TreeRowDragProps {
+  draggable: boolean;
+  onDragStart: (event: React.DragEvent) => void;
+  onDragOver: (event: React.DragEvent) => void;
+  onDragLeave: () => void;
+  onDrop: (event: React.DragEvent) => void;
+  onDragEnd: () => void;
+  onKeyDown: (event: React.KeyboardEvent) => void;
+}
+
+const KEYBOARD_ACTIONS: Record<string, TreeKeyboardMoveAction> = {
+  ArrowUp: "up",
+  ArrowDown: "down",
+  ArrowRight: "indent",
+  ArrowLeft: "outdent",
+};
+
+/**
+ * 포인터 위치로 드롭 위치 계산 (위 1/4 = 앞, 아래 1/4 = 뒤, 가운데 = 하위)
+ */
+function getPointerDropPosition(event: React.DragEvent): TreeDropPosition {
+  const rect = event.currentTarget.getBoundingClientRect();
+  const ratio = (event.clientY - rect.top) / (rect.height || 1);
+  if (ratio < 0.25) return "before";
+  if (ratio > 0.75) return "after";
+  return "inside";
+}
+
+/**
+ * 드롭 위치 표시용 클래스 (앞/뒤 = 가로선, 하위 = 테두리)
+ */
+export function getTreeDropIndicatorClass(
+  position: TreeDropPosition | null
+): string {
+  return cn(
+    position === "before" && "border-t-2 border-t-softone-primary",
+    position === "after" && "border-b-2 border-b-softone-primary",
+    position === "inside" && "ring-2 ring-inset ring-softone-primary/60"
+  );
+}
+
+// ========================================
+// useTreeDragDrop Hook
+// ========================================
+
+export function useTreeDragDrop<T extends MovableTreeNode<T>>({
+  nodes,
+  rules,
+  onMove,
+  disabled = false,
+}: UseTreeDragDropOptions<T>) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<TreeDropTarget | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+
+  const reset = useCallback(() => {
+    setDraggingId(null);
+    setDropTarget(null);
+  }, []);
+
+  const getRowProps = useCallback(
+    (node: T): TreeRowDragProps => ({
+      draggable: !disabled,
+      onDragStart: (event) => {
+        event.stopPropagation();
+        event.dataTransfer.effectAllowed = "move";
+        event.dataTransfer.setData("text/plain", node.id);
+        setDraggingId(node.id);
+      },
+      onDragOver: (event) => {
+        if (!draggingId) return;
+        event.stopPropagation();
+        const position = getPointerDropPosition(event);
+        const result = resolveTreeDrop(
+          nodes,
+          draggingId,
+          node.id,
+          position,
+          rules
+        );
+        if (!result.valid) {
+          setDropTarget(null);
+          return;
+        }
+        // preventDefault로 드롭 허용
+        event.preventDefault();
+        event.dataTransfer.dropEffect = "move";
+        if (dropTarget?.id !== node.id || dropTarget.position !== position) {
+          setDropTarget({ id: node.id, position });
+        }
+      },
+      onDragLeave: () => {
+        setDropTarget((current) => (current?.id === node.id ? null : current));
+      },
+      onDrop: (event) => {
+        if (!draggingId) return;
+        event.preventDefault();
+        event.stopPropagation();
+        const result = resolveTreeDrop(
+          nodes,
+          draggingId,
+          node.id,
+          getPointerDropPosition(event),
+          rules
+        );
+        reset();
+        if (result.valid) onMove(result.move);
+      },
+      onDragEnd: reset,
+      onKeyDown: (event) => {
+        const action = KEYBOARD_ACTIONS[event.key];
+        if (disabled || !event.altKey || !action) return;
+        event.preventDefault();
+        event.stopPropagation();
+
+        const result = resolveKeyboardTreeMove(nodes, node.id, action, rules);
+        if (!result.valid) {
+          setAnnouncement(result.reason);
+          return;
+        }
+        setAnnouncement("이동했습니다.");
+        onMove(result.move);
+      },
+    }),
+    [nodes, rules, onMove, disabled, draggingId, dropTarget, reset]
+  );
+
+  /** 행에 표시할 드롭 위치 (드롭 대상이 아니면 null) */
+  const getDropPosition = useCallback(
+    (id: string): TreeDropPosition | null =>
+      dropTarget?.id === id ? dropTarget.position : null,
+    [dropTarget]
+  );
+
+  return {
+    draggingId,
+    dropTarget,
+    announcement,
+    getRowProps,
+    getDropPosition,
+  };
+}
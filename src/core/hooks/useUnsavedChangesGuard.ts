@@ -0,0 +1,96 @@
+/**
+ * SoftOne Design System(SDS) - Unsaved Changes Guard Hook
+ * 작성: SoftOne Frontend Team
+ *
+ * 저장하지 않은 변경 사항이 있는 동안 화면 이탈을 막습니다.
+ *   - 화면 이동(NavigationApi push/replace/back/forward), 작업 공간 탭 닫기,
+ *     dialogStore.closeDialog(scope가 다이얼로그 ID인 경우), 브라우저 닫기/새로고침
+ *   - 막힌 동작은 ConfirmDialog로 확인한 뒤 진행합니다.
+ *   - 한 화면에서 여러 번 호출할 수 있으며, 각 호출이 별도 가드로 등록됩니다.
+ *
+ * 작업 공간 탭에서는 다른 탭으로 이동해도 화면이 유지되므로,
+ * 해당 탭을 닫거나 같은 탭에서 다른 경로로 이동할 때만 확인합니다.
+ *
+ * @example
+ * // 페이지 폼
+ * const { formState: { isDirty } } = useForm();
+ * useUnsavedChangesGuard(isDirty);
+ *
+ * // dialogStore 폼 다이얼로그 (닫기 시 확인)
+ * useUnsavedChangesGuard(isDirty, { scope: dialog.id });
+ *
+ * // 로컬 모달: 닫기 전에 직접 확인, 저장 후에는 확인 없이 닫기
+ * const { confirmDiscard, markClean } = useUnsavedChangesGuard(isDirty);
+ * const handleCancel = async () => {
+ *   if (await confirmDiscard()) onCancel();
+ * };
+ * const handleSaved = () => {
+ *   markClean();
+ *   onClose();
+ * };
+ */
+
+import { useCallback, useEffect, useId } from "react";
+import { useUnsavedChangesStore } from "../store/unsavedChangesStore";
+import { useWorkspaceTabKey } from "./useWorkspaceTabActive";
+
+// ========================================
+// Types
+// ========================================
+
+export interface UseUnsavedChangesGuardOptions {
+  /** 확인 메시지 (기본: DEFAULT_UNSAVED_CHANGES_MESSAGE) */
+  message?: string;
+  /** 가드 범위 (dialogStore 다이얼로그 ID, 로컬 모달 이름 등) */
+  scope?: string;
+}
+
+export interface UseUnsavedChangesGuardResult {
+  /**
+   * 이 가드에 변경 사항이 있으면 버릴지 확인
+   * @returns 변경 사항이 없거나 버리기로 확인하면 true
+   */
+  confirmDiscard: () => Promise<boolean>;
+  /**
+   * 현재 변경 사항을 처리 완료로 표시 (저장 직후 바로 닫을 때)
+   * isDirty가 다시 바뀌면 그 값으로 갱신됩니다.
+   */
+  markClean: () => void;
+}
+
+// ========================================
+// useUnsavedChangesGuard Hook
+// ========================================
+
+export function useUnsavedChangesGuard(
+  isDirty: boolean,
+  options: UseUnsavedChangesGuardOptions = {}
+): UseUnsavedChangesGuardResult {
+  const { message, scope } = options;
+  const id = useId();
+  const tabKey = useWorkspaceTabKey();
+
+  const setGuard = useUnsavedChangesStore((state) => state.setGuard);
+  const removeGuard = useUnsavedChangesStore((state) => state.removeGuard);
+  const confirmDiscardChanges = useUnsavedChangesStore(
+    (state) => state.confirmDiscardChanges
+  );
+  const markGuardClean = useUnsavedChangesStore(
+    (state) => state.markGuardClean
+  );
+
+  useEffect(() => {
+    setGuard({ id, isDirty, tabKey, scope: scope ?? null, message });
+  }, [id, isDirty, tabKey, scope, message, setGuard]);
+
+  useEffect(() => () => removeGuard(id), [id, removeGuard]);
+
+  const confirmDiscard = useCallback(
+    () => confirmDiscardChanges((guard) => guard.id === id),
+    [id, confirmDiscardChanges]
+  );
+
+  const markClean = useCallback(() => markGuardClean(id), [id, markGuardClean]);
+
+  return { confirmDiscard, markClean };
+}
@@ -0,0 +1,206 @@
+/**
+ * SoftOne Design System(SDS) - Virtual Rows Hook
+ * 작성: SoftOne Frontend Team
+ *
+ * 스크롤 영역에 보이는 행만 렌더링하는 가상 스크롤(windowed rendering) 훅
+ *   - 행 높이가 달라도 됩니다. 렌더링된 행을 measureRow로 측정하고,
+ *     측정 전에는 estimateRowHeight로 계산합니다.
+ *   - 측정값은 행 키로 저장하므로 트리 확장/축소나 정렬로 순서가 바뀌어도 유지되고,
+ *     스크롤 위치도 그대로 유지됩니다.
+ *   - 렌더링하지 않은 행은 paddingTop/paddingBottom 여백으로 채웁니다.
+ *
+ * DataTable(virtualized), TreeView(virtualized)에서 사용합니다.
+ *
+ * @example
+ * const virtual = useVirtualRows<HTMLDivElement>({
+ *   count: rows.length,
+ *   getRowKey: (index) => rows[index].id,
+ *   estimateRowHeight: 40,
+ * });
+ *
+ * <div ref={virtual.scrollRef} style={{ height: 400, overflow: "auto" }}>
+ *   <div style={{ height: virtual.paddingTop }} />
+ *   {virtual.virtualRows.map(({ index, key }) => (
+ *     <div key={key} ref={virtual.measureRow(key)}>{rows[index].name}</div>
+ *   ))}
+ *   <div style={{ height: virtual.paddingBottom }} />
+ * </div>
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  buildRowOffsets,
+  getScrollTopForRow,
+  getVirtualRange,
+  type VirtualScrollAlign,
+} from "../utils/virtualUtils";
+
+// ========================================
+// Types
+// ========================================
+
+export interface UseVirtualRowsOptions {
+  /** 전체 행 수 */
+  count: number;
+  /** 행 키 (측정한 높이를 저장하는 기준) */
+  getRowKey: (index: number) => string;
+  /** 측정 전 예상 행 높이 (px) */
+  estimateRowHeight: number;
+  /** 보이는 범위 위/아래로 더 렌더링할 행 수 (기본: 6) */
+  overscan?: number;
+  /** false면 모든 행을 렌더링 (기본: true) */
+  enabled?: boolean;
+  /** 측정 전(또는 측정할 수 없을 때) 스크롤 영역 높이 (px, 기본: 400) */
+  defaultViewportHeight?: number;
+  /** 스크롤 영역 위쪽에 고정된 영역 높이 (고정 헤더 등, px) */
+  stickyStartHeight?: number;
+}
+
+export interface VirtualRow {
+  /** 전체 행 기준 인덱스 */
+  index: number;
+  /** 행 키 */
+  key: string;
+  /** 행 시작 위치 (px) */
+  start: number;
+  /** 행 높이 (측정값 또는 예상값, px) */
+  size: number;
+}
+
+export interface UseVirtualRowsResult<E extends HTMLElement> {
+  /** 스크롤 영역 ref */
+  scrollRef: React.RefObject<E | null>;
+  /** 렌더링할 행 */
+  virtualRows: VirtualRow[];
+  /** 전체 행 높이 (px) */
+  totalHeight: number;
+  /** 렌더링한 행 위쪽 여백 (px) */
+  paddingTop: number;
+  /** 렌더링한 행 아래쪽 여백 (px) */
+  paddingBottom: number;
+  /** 행 높이 측정 ref (행 요소에 연결) */
+  measureRow: (key: string) => (element: HTMLElement | null) => void;
+  /** 행이 보이도록 스크롤 */
+  scrollToIndex: (index: number, align?: VirtualScrollAlign) => void;
+}
+
+// ========================================
+// useVirtualRows Hook
+// ========================================
+
+export function useVirtualRows<E extends HTMLElement = HTMLDivElement>({
+  count,
+  getRowKey,
+  estimateRowHeight,
+  overscan = 6,
+  enabled = true,
+  defaultViewportHeight = 400,
+  stickyStartHeight = 0,
+}: UseVirtualRowsOptions): UseVirtualRowsResult<E> {
+  const scrollRef = useRef<E | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [measuredViewportHeight, setMeasuredViewportHeight] = useState<
+    number | null
+  >(null);
+  /** 행 키별 측정 높이 */
+  const [rowSizes, setRowSizes] = useState<Map<string, number>>(
+    () => new Map()
+  );
+
+  const viewportHeight = Math.max(
+    0,
+    (measuredViewportHeight || defaultViewportHeight) - stickyStartHeight
+  );
+
+  // 스크롤 위치 / 스크롤 영역 높이 추적
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!enabled || !element) return;
+
+    const handleScroll = () => setScrollTop(element.scrollTop);
+    element.addEventListener("scroll", handleScroll, { passive: true });
+
+    const observer =
+      typeof ResizeObserver === "undefined"
+        ? null
+        : new ResizeObserver(() =>
+            setMeasuredViewportHeight(element.clientHeight)
+          );
+    observer?.observe(element);
+
+    return () => {
+      element.removeEventListener("scroll", handleScroll);
+      observer?.disconnect();
+    };
+  }, [enabled]);
+
+  const offsets = useMemo(
+    () =>
+      buildRowOffsets(
+        count,
+        (index) => rowSizes.get(getRowKey(index)) ?? estimateRowHeight
+      ),
+    [count, getRowKey, rowSizes, estimateRowHeight]
+  );
+  const totalHeight = offsets[count];
+
+  const range = enabled
+    ? getVirtualRange(offsets, scrollTop, viewportHeight, overscan)
+    : { start: 0, end: count };
+
+  const virtualRows: VirtualRow[] = [];
+  for (let index = range.start; index < range.end; index++) {
+    virtualRows.push({
+      index,
+      key: getRowKey(index),
+      start: offsets[index],
+      size: offsets[index + 1] - offsets[index],
+    });
+  }
+
+  const measureRow = useCallback(
+    (key: string) => (element: HTMLElement | null) => {
+      if (!element) return;
+      const size = element.getBoundingClientRect().height;
+      // 측정할 수 없으면(숨김 등) 예상값 유지
+      if (size <= 0) return;
+
+      setRowSizes((current) => {
+        if (current.get(key) === size) return current;
+        const next = new Map(current);
+        next.set(key, size);
+        return next;
+      });
+    },
+    []
+  );
+
+  const scrollToIndex = useCallback(
+    (index: number, align: VirtualScrollAlign = "auto") => {
+      const element = scrollRef.current;
+      if (!element || index < 0 || index >= count) return;
+
+      const nextScrollTop = getScrollTopForRow(
+        offsets,
+        index,
+        viewportHeight,
+        scrollTop,
+        align
+      );
+      element.scrollTop = nextScrollTop;
+      // scroll 이벤트를 기다리지 않고 바로 범위 갱신
+      setScrollTop(nextScrollTop);
+    },
+    [count, offsets, viewportHeight, scrollTop]
+  );
+
+  return {
+    scrollRef,
+    virtualRows,
+    totalHeight,
+    paddingTop: enabled ? offsets[range.start] : 0,
+    paddingBottom: enabled ? totalHeight - offsets[range.end] : 0,
+    measureRow,
+    scrollToIndex,
+  };
+}
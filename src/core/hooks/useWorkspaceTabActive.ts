@@ -0,0 +1,33 @@
+/**
+ * SoftOne Design System(SDS) - Workspace Tab Active Hook
+ * 작성: SoftOne Frontend Team
+ *
+ * 멀티 탭 작업 공간에서 비활성 탭의 화면은 상태 유지를 위해 마운트된 채 숨겨집니다.
+ * Portal로 body에 렌더링되는 Modal/Drawer는 숨겨진 탭 밖에 그려지므로,
+ * 이 값을 보고 비활성 탭에서는 렌더링하지 않습니다. (열림 상태는 그대로 유지)
+ *
+ * 탭 작업 공간 밖에서는 항상 true입니다.
+ *
+ * useWorkspaceTabKey()는 현재 화면이 속한 탭의 routeKey(탭 밖이면 null)로,
+ * 저장하지 않은 변경 사항 가드가 어느 탭에 속하는지 구분하는 데 사용합니다.
+ */
+
+import { createContext, useContext } from "react";
+
+export const WorkspaceTabActiveContext = createContext<boolean>(true);
+
+/**
+ * 현재 컴포넌트가 속한 작업 공간 탭이 활성 상태인지 확인
+ */
+export function useWorkspaceTabActive(): boolean {
+  return useContext(WorkspaceTabActiveContext);
+}
+
+export const WorkspaceTabKeyContext = createContext<string | null>(null);
+
+/**
+ * 현재 컴포넌트가 속한 작업 공간 탭의 routeKey (탭 밖이면 null)
+ */
+export function useWorkspaceTabKey(): string | null {
+  return useContext(WorkspaceTabKeyContext);
+}
@@ -6,8 +6,9 @@
  * Role/Grade 기반 RBAC 위에, 사용자별 예외 정책(허용/차단/기본 진입 페이지)을 오버레이합니다.
  *
  * 기능:
- *   - 현재 URL 기반 브레드크럼 생성
+ *   - 현재 URL 기반 브레드크럼 생성 (라우트 레지스트리에서 routeKey 매칭, /users/42 포함)
  *   - filteredMenuTree에서 경로 탐색 (User Menu Policy 반영)
+ *   - 메뉴에 없는 화면은 레지스트리의 parentRouteKey 체인으로 상위 경로 구성
  *   - accessibleRouteKeys 기반 권한 체크
  *   - 클릭 가능한 경로 링크
  */
@@ -22,11 +23,15 @@ import {
   selectFilteredMenuTree,
   selectAccessibleRouteKeys,
 } from "../store/authStore";
+import { menuTree as originalMenuTree } from "../router/menuConfig";
 import {
-  menuTree as originalMenuTree,
+  HOME_ROUTE_KEY,
+  findRouteDefinitionByPath,
   getPathByRouteKey,
   getRouteKeyByPath,
-} from "../router/menuConfig";
+  getRouteTrail,
+  isDynamicRoutePath,
+} from "../router/routeRegistry";
 import {
   findMenuPathByRouteKey,
   isPageNode,
@@ -80,93 +85,100 @@ function generateBreadcrumbs(
   const items: BreadcrumbItem[] = [];
 
   // 홈 추가
-  const homeRouteKey = "dashboard.main";
-  const homeHasAccess = accessibleRouteKeys.includes(homeRouteKey);
+  const homeHasAccess = accessibleRouteKeys.includes(HOME_ROUTE_KEY);
   items.push({
     label: "홈",
-    path: homeHasAccess ? "/dashboard" : undefined,
-    routeKey: homeRouteKey,
+    path: homeHasAccess
+      ? getPathByRouteKey(HOME_ROUTE_KEY) ?? undefined
+      : undefined,
+    routeKey: HOME_ROUTE_KEY,
     hasAccess: homeHasAccess,
   });
 
-  // 현재 경로에 해당하는 routeKey 찾기
-  const routeKey = getRouteKeyByPath(currentPath);
-
-  if (!routeKey) {
-    // routeKey를 찾을 수 없으면 경로 기반으로 생성
-    const segments = currentPath.split("/").filter(Boolean);
-    segments.forEach((segment, index) => {
-      const path = "/" + segments.slice(0, index + 1).join("/");
-      const isLast = index === segments.length - 1;
-      const segmentRouteKey = getRouteKeyByPath(path);
-
-      items.push({
-        label: formatSegmentLabel(segment),
-        path: isLast ? undefined : path,
-        routeKey: segmentRouteKey || undefined,
-        isCurrentPage: isLast,
-        hasAccess: segmentRouteKey
-          ? accessibleRouteKeys.includes(segmentRouteKey)
-          : true,
-      });
-    });
-
-    return items;
+  // 현재 경로에 해당하는 라우트 찾기
+  const route = findRouteDefinitionByPath(currentPath);
+  if (!route) {
+    return [
+      ...items,
+      ...generateSegmentBreadcrumbs(currentPath, accessibleRouteKeys),
+    ];
   }
 
-  // menuTree에서 경로 찾기
-  const menuPath = findMenuPathByRouteKey(menuTree, routeKey);
-
-  if (menuPath) {
-    menuPath.forEach((node, index) => {
-      const isLast = index === menuPath.length - 1;
-      let nodePath: string | undefined;
-      let nodeRouteKey: string | undefined;
-
-      // 페이지 노드이면 경로 가져오기
-      if (isPageNode(node)) {
-        nodeRouteKey = node.routeKey;
-        nodePath = getPathByRouteKey(node.routeKey) ?? undefined;
-      } else if (isMenuGroupNode(node) && node.routeKey) {
-        nodeRouteKey = node.routeKey;
-        nodePath = getPathByRouteKey(node.routeKey) ?? undefined;
-      }
-
-      const hasAccess = nodeRouteKey
-        ? accessibleRouteKeys.includes(nodeRouteKey)
-        : true;
-
-      items.push({
-        label: node.label,
-        path: isLast ? undefined : hasAccess ? nodePath : undefined,
-        routeKey: nodeRouteKey,
-        isCurrentPage: isLast,
-        hasAccess,
-      });
+  // 상위 라우트 체인 (예: 게시물 관리 > 게시글 상세 > 게시글 수정)
+  const trail = getRouteTrail(route.routeKey);
+
+  // 체인 최상위 라우트의 메뉴 경로 (카테고리/메뉴 그룹)
+  const menuPath = findMenuPathByRouteKey(menuTree, trail[0].routeKey) ?? [];
+  const menuPage = menuPath[menuPath.length - 1];
+
+  menuPath.slice(0, -1).forEach((node) => {
+    const nodeRouteKey =
+      isPageNode(node) || isMenuGroupNode(node) ? node.routeKey : undefined;
+    const hasAccess = nodeRouteKey
+      ? accessibleRouteKeys.includes(nodeRouteKey)
+      : true;
+
+    items.push({
+      label: node.label,
+      path:
+        nodeRouteKey && hasAccess
+          ? getPathByRouteKey(nodeRouteKey) ?? undefined
+          : undefined,
+      routeKey: nodeRouteKey,
+      hasAccess,
     });
-  } else {
-    // 폴백: 경로 기반 생성
-    const segments = currentPath.split("/").filter(Boolean);
-    segments.forEach((segment, index) => {
-      const path = "/" + segments.slice(0, index + 1).join("/");
-      const isLast = index === segments.length - 1;
-      const segmentRouteKey = getRouteKeyByPath(path);
-
-      items.push({
-        label: formatSegmentLabel(segment),
-        path: isLast ? undefined : path,
-        routeKey: segmentRouteKey || undefined,
-        isCurrentPage: isLast,
-        hasAccess: segmentRouteKey
-          ? accessibleRouteKeys.includes(segmentRouteKey)
-          : true,
-      });
+  });
+
+  trail.forEach((trailRoute, index) => {
+    const isLast = index === trail.length - 1;
+    const hasAccess = accessibleRouteKeys.includes(trailRoute.routeKey);
+    const menuLabel =
+      index === 0 && menuPage && menuPage.id === trailRoute.menu?.id
+        ? menuPage.label
+        : undefined;
+
+    items.push({
+      label: trailRoute.breadcrumbLabel ?? menuLabel ?? trailRoute.label,
+      // 동적 세그먼트가 있는 상위 라우트는 실제 경로를 알 수 없으므로 링크하지 않음
+      path:
+        isLast || !hasAccess || isDynamicRoutePath(trailRoute.path)
+          ? undefined
+          : trailRoute.path,
+      routeKey: trailRoute.routeKey,
+      isCurrentPage: isLast,
+      hasAccess,
     });
-  }
+  });
 
   return items;
 }
 
+/**
+ * 레지스트리에 없는 경로는 URL 세그먼트로 브레드크럼을 생성합니다.
+ */
+function generateSegmentBreadcrumbs(
+  currentPath: string,
+  accessibleRouteKeys: string[]
+): BreadcrumbItem[] {
+  const segments = currentPath.split("/").filter(Boolean);
+
+  return segments.map((segment, index) => {
+    const path = "/" + segments.slice(0, index + 1).join("/");
+    const isLast = index === segments.length - 1;
+    const segmentRouteKey = getRouteKeyByPath(path);
+
+    return {
+      label: formatSegmentLabel(segment),
+      path: isLast ? undefined : path,
+      routeKey: segmentRouteKey || undefined,
+      isCurrentPage: isLast,
+      hasAccess: segmentRouteKey
+        ? accessibleRouteKeys.includes(segmentRouteKey)
+        : true,
+    };
+  });
+}
+
 /**
  * URL 세그먼트를 읽기 좋은 라벨로 변환합니다.
  */
@@ -0,0 +1,338 @@
+/**
+ * SoftOne Design System(SDS) - Command Palette
+ * 작성: SoftOne Frontend Team
+ * 설명: Ctrl + K (Mac: ⌘ + K)로 여는 전역 명령 팔레트.
+ *      접근 가능한 메뉴의 화면, 최근 방문한 화면, 등록된 명령을 마우스 없이 검색/실행합니다.
+ *
+ * A11y:
+ *   - 검색 입력은 combobox, 결과는 listbox/option (aria-activedescendant로 현재 항목 안내)
+ *   - ↑ / ↓ : 항목 이동, Home / End : 처음/끝, Enter : 실행, Esc : 닫기
+ *
+ * 명령 등록은 commandStore의 registerCommands()를 사용합니다.
+ */
+
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { CornerDownLeft, History, Search, Zap, FileText } from "lucide-react";
+import { cn } from "../utils/classUtils";
+import { BaseModal } from "../components/ui/BaseModal";
+import { useCommandStore } from "../store/commandStore";
+import { useMenuPreferenceStore } from "../store/menuPreferenceStore";
+import { useAuthStore } from "../store/authStore";
+import { useNavigation } from "../router/NavigationContext";
+import { getPathByRouteKey } from "../router/routeRegistry";
+import {
+  buildCommandItems,
+  buildPageItems,
+  buildRecentItems,
+  searchCommandPalette,
+  type CommandPaletteItem,
+  type CommandPaletteSearchResult,
+} from "./commandPaletteItems";
+
+// ========================================
+// Helpers
+// ========================================
+
+const LIST_ID = "sds-command-palette-list";
+const optionId = (index: number) => `${LIST_ID}-option-${index}`;
+
+const KIND_ICONS: Record<CommandPaletteItem["kind"], React.ElementType> = {
+  recent: History,
+  page: FileText,
+  command: Zap,
+};
+
+/**
+ * 일치한 글자를 강조한 라벨
+ */
+const HighlightedLabel: React.FC<{ label: string; indices: number[] }> = ({
+  label,
+  indices,
+}) => {
+  if (indices.length === 0) return <>{label}</>;
+  const matched = new Set(indices);
+
+  return (
+    <>
+      {Array.from(label).map((char, index) =>
+        matched.has(index) ? (
+          <mark
+            key={index}
+            className="bg-transparent text-softone-primary font-semibold"
+          >
+            {char}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{char}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+/**
+ * 결과를 섹션으로 묶음 (섹션 순서 = 처음 나온 순서, 항목 순서 유지)
+ */
+function groupResults(results: CommandPaletteSearchResult[]) {
+  const sections: { group: string; results: CommandPaletteSearchResult[] }[] =
+    [];
+  results.forEach((result) => {
+    const section = sections.find((s) => s.group === result.item.group);
+    if (section) section.results.push(result);
+    else sections.push({ group: result.item.group, results: [result] });
+  });
+  return sections;
+}
+
+// ========================================
+// useCommandPaletteShortcut
+// ========================================
+
+/**
+ * Ctrl/⌘ + K로 명령 팔레트 열기/닫기
+ */
+function useCommandPaletteShortcut(toggle: () => void) {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault();
+        toggle();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [toggle]);
+}
+
+// ========================================
+// CommandPalette Component
+// ========================================
+
+export const CommandPalette: React.FC = () => {
+  const navigation = useNavigation();
+  const { commands, isPaletteOpen, closePalette, togglePalette } =
+    useCommandStore();
+  const recentRouteKeys = useMenuPreferenceStore(
+    (state) => state.recentRouteKeys
+  );
+  const menuTree = useAuthStore((state) => state.filteredMenuTree);
+  const permissions = useAuthStore((state) => state.permissions);
+
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useCommandPaletteShortcut(togglePalette);
+
+  // 열 때마다 검색어 초기화 (렌더링 중 이전 상태와 비교)
+  const [wasOpen, setWasOpen] = useState(isPaletteOpen);
+  if (wasOpen !== isPaletteOpen) {
+    setWasOpen(isPaletteOpen);
+    if (isPaletteOpen) {
+      setQuery("");
+      setActiveIndex(0);
+    }
+  }
+
+  const pageItems = useMemo(() => buildPageItems(menuTree), [menuTree]);
+  const commandItems = useMemo(
+    () => buildCommandItems(commands, permissions),
+    [commands, permissions]
+  );
+  const recentItems = useMemo(
+    () => buildRecentItems(pageItems, recentRouteKeys),
+    [pageItems, recentRouteKeys]
+  );
+
+  const results = useMemo(
+    () => searchCommandPalette(pageItems, commandItems, recentItems, query),
+    [pageItems, commandItems, recentItems, query]
+  );
+  const sections = useMemo(() => groupResults(results), [results]);
+  // 렌더링 순서 (섹션별) = 키보드 이동 순서
+  const orderedResults = useMemo(
+    () => sections.flatMap((section) => section.results),
+    [sections]
+  );
+  const indexById = useMemo(
+    () =>
+      new Map(orderedResults.map((result, index) => [result.item.id, index])),
+    [orderedResults]
+  );
+
+  // 현재 항목이 보이도록 스크롤
+  useEffect(() => {
+    const option = listRef.current?.querySelector<HTMLElement>(
+      `#${optionId(activeIndex)}`
+    );
+    option?.scrollIntoView?.({ block: "nearest" });
+  }, [activeIndex]);
+
+  const execute = useCallback(
+    (item: CommandPaletteItem) => {
+      closePalette();
+      if (item.command) {
+        item.command.run({ navigation });
+      } else if (item.href) {
+        window.open(item.href, item.target ?? "_blank", "noopener,noreferrer");
+      } else if (item.routeKey) {
+        const path = getPathByRouteKey(item.routeKey);
+        if (path) navigation.push(path);
+      }
+    },
+    [closePalette, navigation]
+  );
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    const count = orderedResults.length;
+    switch (event.key) {
+      case "ArrowDown":
+        event.preventDefault();
+        setActiveIndex((index) => (count ? (index + 1) % count : 0));
+        break;
+      case "ArrowUp":
+        event.preventDefault();
+        setActiveIndex((index) => (count ? (index - 1 + count) % count : 0));
+        break;
+      case "Home":
+        event.preventDefault();
+        setActiveIndex(0);
+        break;
+      case "End":
+        event.preventDefault();
+        setActiveIndex(Math.max(0, count - 1));
+        break;
+      case "Enter": {
+        event.preventDefault();
+        const active = orderedResults[activeIndex];
+        if (active) execute(active.item);
+        break;
+      }
+    }
+  };
+
+  return (
+    <BaseModal
+      isOpen={isPaletteOpen}
+      onClose={closePalette}
+      description="메뉴 화면, 최근 페이지, 명령을 검색합니다. 위아래 방향키로 이동하고 Enter로 실행합니다."
+      size="lg"
+      hideHeader
+      initialFocusRef={inputRef as React.RefObject<HTMLElement>}
+      className="self-start mt-[10vh]"
+    >
+      <div className="-mx-6 -my-4">
+        {/* 검색 입력 */}
+        <div className="flex items-center gap-2 px-4 border-b border-softone-border">
+          <Search className="w-4 h-4 text-softone-text-muted shrink-0" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(event) => {
+              setQuery(event.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="화면, 명령 검색 (초성 검색 가능: ㅅㅇㅈ)"
+            aria-label="명령 검색"
+            role="combobox"
+            aria-expanded="true"
+            aria-controls={LIST_ID}
+            aria-autocomplete="list"
+            aria-activedescendant={
+              orderedResults.length ? optionId(activeIndex) : undefined
+            }
+            className="flex-1 py-3 bg-transparent border-none outline-none text-sm placeholder:text-softone-text-muted"
+          />
+          <kbd className="px-1.5 py-0.5 text-xs text-softone-text-muted border border-softone-border rounded">
+            Esc
+          </kbd>
+        </div>
+
+        {/* 결과 */}
+        <ul
+          ref={listRef}
+          id={LIST_ID}
+          role="listbox"
+          aria-label="검색 결과"
+          className="max-h-[60vh] overflow-y-auto py-2"
+        >
+          {orderedResults.length === 0 && (
+            <li
+              role="presentation"
+              className="px-4 py-8 text-center text-sm text-softone-text-muted"
+            >
+              "{query}"에 해당하는 화면이나 명령이 없습니다.
+            </li>
+          )}
+          {sections.map((section) => (
+            <li key={section.group} role="presentation">
+              <div className="px-4 pt-2 pb-1 text-xs font-medium text-softone-text-muted">
+                {section.group}
+              </div>
+              <ul role="group" aria-label={section.group}>
+                {section.results.map(({ item, labelIndices }) => {
+                  const index = indexById.get(item.id)!;
+                  const isActive = index === activeIndex;
+                  const Icon = item.icon ?? KIND_ICONS[item.kind];
+
+                  return (
+                    <li
+                      key={item.id}
+                      id={optionId(index)}
+                      role="option"
+                      aria-selected={isActive}
+                      onMouseMove={() => setActiveIndex(index)}
+                      onClick={() => execute(item)}
+                      className={cn(
+                        "flex items-center gap-3 mx-2 px-3 py-2 rounded-md cursor-pointer text-sm",
+                        isActive
+                          ? "bg-softone-primary-light text-softone-text"
+                          : "text-softone-text-secondary"
+                      )}
+                    >
+                      <Icon className="w-4 h-4 shrink-0" />
+                      <span className="truncate">
+                        <HighlightedLabel
+                          label={item.label}
+                          indices={labelIndices}
+                        />
+                      </span>
+                      {item.description && (
+                        <span className="truncate text-xs text-softone-text-muted">
+                          {item.description}
+                        </span>
+                      )}
+                      <span className="ml-auto flex items-center gap-2 shrink-0">
+                        {item.shortcut && (
+                          <kbd className="px-1.5 py-0.5 text-xs text-softone-text-muted border border-softone-border rounded">
+                            {item.shortcut}
+                          </kbd>
+                        )}
+                        {isActive && (
+                          <CornerDownLeft className="w-3.5 h-3.5 text-softone-text-muted" />
+                        )}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </BaseModal>
+  );
+};
+
+CommandPalette.displayName = "CommandPalette";
+
+export default CommandPalette;
@@ -2,7 +2,7 @@
  * SoftOne Design System(SDS) - Header Component
  * 작성: SoftOne Frontend Team
  * 설명: Admin 상단 헤더 컴포넌트.
- *      사이드바 토글, 검색, 알림, 사용자 메뉴 등을 포함합니다.
+ *      사이드바 토글, 검색(명령 팔레트 열기), 알림, 사용자 메뉴 등을 포함합니다.
  */
 
 import React from "react";
@@ -11,6 +11,8 @@ import { cn } from "../utils/classUtils";
 import { useUIStore } from "../store/uiStore";
 import { useAuth } from "../hooks/useAuth";
 import { useNavigation } from "../router/NavigationContext";
+import { useCommandStore } from "../store/commandStore";
+import { COMMAND_PALETTE_SHORTCUT_LABEL } from "./commandPaletteItems";
 
 // ========================================
 // Header Types
@@ -37,6 +39,7 @@ export const Header: React.FC<HeaderProps> = ({
   const { toggleSidebar } = useUIStore();
   const { user, logout } = useAuth();
   const navigation = useNavigation();
+  const openPalette = useCommandStore((state) => state.openPalette);
   const [showUserMenu, setShowUserMenu] = React.useState(false);
 
   // 로그아웃 처리
@@ -72,15 +75,22 @@ export const Header: React.FC<HeaderProps> = ({
           <Menu className="w-5 h-5 text-softone-text-secondary" />
         </button>
 
-        {/* Search */}
-        <div className="hidden md:flex items-center gap-2 px-3 py-2 bg-softone-bg rounded-lg border border-softone-border">
+        {/* Search (명령 팔레트) */}
+        <button
+          type="button"
+          onClick={openPalette}
+          className="hidden md:flex items-center gap-2 px-3 py-2 bg-softone-bg rounded-lg border border-softone-border hover:border-softone-primary/50 transition-colors"
+          aria-label={`검색 (${COMMAND_PALETTE_SHORTCUT_LABEL})`}
+          aria-haspopup="dialog"
+        >
           <Search className="w-4 h-4 text-softone-text-muted" />
-          <input
-            type="text"
-            placeholder="검색..."
-            className="bg-transparent border-none outline-none text-sm w-48 lg:w-64 placeholder:text-softone-text-muted"
-          />
-        </div>
+          <span className="text-sm text-left w-40 lg:w-56 text-softone-text-muted">
+            검색...
+          </span>
+          <kbd className="px-1.5 py-0.5 text-xs text-softone-text-muted border border-softone-border rounded">
+            {COMMAND_PALETTE_SHORTCUT_LABEL}
+          </kbd>
+        </button>
       </div>
 
       {/* Right Section */}
@@ -144,7 +154,7 @@ export const Header: React.FC<HeaderProps> = ({
                 </div>
                 <button
                   className="w-full flex items-center gap-2 px-4 py-2 text-sm text-softone-text-secondary hover:bg-softone-surface-hover transition-colors"
-                  onClick={() => navigation.push("/settings")}
+                  onClick={() => navigation.push("/settings/general")}
                 >
                   <Settings className="w-4 h-4" />
                   설정
@@ -4,15 +4,21 @@
  * 설명: Admin 메인 레이아웃 (Header + Sidebar + Content).
  *      SDS UI Kit 스타일을 적용한 엔터프라이즈 레이아웃입니다.
  *      Step 7: ToastContainer를 포함하여 전역 알림 지원.
+ *      CommandPalette(Ctrl + K)를 포함하여 어디서나 화면/명령 검색 지원.
+ *      showWorkspaceTabs로 멀티 탭 작업 공간의 탭 바(WorkspaceTabs) 표시.
+ *      사이드바 즐겨찾기/최근 방문을 로그인 사용자와 동기화(useMenuPreferenceSync).
  */
 
 import React from "react";
 import { cn } from "../utils/classUtils";
 import { useUIStore } from "../store/uiStore";
+import { useMenuPreferenceSync } from "../hooks/useMenuPreferenceSync";
 import { Sidebar } from "./Sidebar";
 import { Header } from "./Header";
 import { ToastContainer } from "../components/ui/ToastContainer";
 import { DialogRoot } from "../components/ui/DialogRoot";
+import { CommandPalette } from "./CommandPalette";
+import { WorkspaceTabs } from "./WorkspaceTabs";
 
 // ========================================
 // MainLayout Types
@@ -29,6 +35,8 @@ export interface MainLayoutProps {
   userEmail?: string;
   /** 동적 메뉴 사용 여부 (DB에서 메뉴 로드) */
   useDynamicMenu?: boolean;
+  /** 멀티 탭 작업 공간 탭 바 표시 (탭 화면 유지는 children에서 담당) */
+  showWorkspaceTabs?: boolean;
   /** 추가 클래스 */
   className?: string;
 }
@@ -50,10 +58,14 @@ export const MainLayout: React.FC<MainLayoutProps> = ({
   userName,
   userEmail,
   useDynamicMenu = false,
+  showWorkspaceTabs = false,
   className,
 }) => {
   const { isSidebarCollapsed } = useUIStore();
 
+  // 즐겨찾기/최근 방문 복원·정리·기록
+  useMenuPreferenceSync();
+
   return (
     <div className="flex min-h-screen bg-softone-bg">
       {/* Toast Container - 전역 알림 */}
@@ -62,6 +74,9 @@ export const MainLayout: React.FC<MainLayoutProps> = ({
       {/* Dialog Root - 전역 다이얼로그 (Step 10) */}
       <DialogRoot />
 
+      {/* Command Palette - 전역 검색 (Ctrl + K) */}
+      <CommandPalette />
+
       {/* Sidebar - 동적 메뉴 또는 정적 메뉴 */}
       <Sidebar useDynamicMenu={useDynamicMenu} />
 
@@ -75,6 +90,9 @@ export const MainLayout: React.FC<MainLayoutProps> = ({
         {/* Header */}
         <Header userName={userName} userEmail={userEmail} />
 
+        {/* Workspace Tabs - 열린 화면 탭 */}
+        {showWorkspaceTabs && <WorkspaceTabs />}
+
         {/* Page Content */}
         <main className={cn("flex-1 p-6", className)}>{children}</main>
 
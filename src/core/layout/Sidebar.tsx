@@ -6,9 +6,14 @@
  * Role/Grade 기반 RBAC 위에, 사용자별 예외 정책(허용/차단/기본 진입 페이지)을 오버레이합니다.
  *
  * 메뉴 렌더링 모드:
- *   1. filteredMenuTree 모드 (권장): authStore.filteredMenuTree 사용
- *   2. 정적 routeConfig 모드: routeConfig + 역할 필터링 사용
- *   3. 동적 menuStore 모드: menuStore 사용
+ *   1. filteredMenuTree 모드 (기본): authStore.filteredMenuTree 사용
+ *      (메뉴 트리와 경로는 라우트 레지스트리 ROUTE_REGISTRY에서 파생)
+ *   2. 동적 menuStore 모드: 서버(/api/menus)에 저장된 메뉴 사용
+ *      (메뉴 관리 화면에서 추가한 메뉴 포함, 접근 가능한 routeKey에 연결된 메뉴만 표시)
+ *
+ * 모드는 menuMode prop이 없으면 uiStore.sidebarMenuMode를 따릅니다.
+ * 메뉴 위에는 사용자별 즐겨찾기/최근 방문(SidebarQuickLinks)을 표시하며,
+ * filteredMenuTree 모드의 페이지 항목에서 별 버튼으로 즐겨찾기를 추가/해제합니다.
  *
  * SDSLink를 사용하여 라우터 중립성을 유지합니다.
  */
@@ -19,30 +24,13 @@ import {
   ChevronRight,
   LogOut,
   Loader2,
-  LayoutDashboard,
-  Users,
-  Calendar,
-  Table,
-  FileText,
-  Settings,
-  HelpCircle,
-  Code2,
-  Globe,
-  Package,
   ExternalLink,
 } from "lucide-react";
-import type { LucideIcon } from "lucide-react";
 import { cn } from "../utils/classUtils";
 import { useNavigation } from "../router/NavigationContext";
 import { SDSLink } from "../components/navigation/SDSLink";
-import {
-  routeConfig,
-  menuGroups,
-  getGroupedMenuRoutes,
-  type AppRouteMeta,
-} from "../router/routeConfig";
 import { Badge } from "../components/ui/Badge";
-import { useUIStore } from "../store/uiStore";
+import { useUIStore, type SidebarMenuMode } from "../store/uiStore";
 import { useAuth } from "../hooks/useAuth";
 import { useAuthStore, selectFilteredMenuTree } from "../store/authStore";
 import {
@@ -62,39 +50,23 @@ import {
   isExternalNode,
   hasChildren,
 } from "../router/menu.types";
-import { getPathByRouteKey } from "../router/menuAccessUtils";
-
-// ========================================
-// Icon Map (string -> Component)
-// ========================================
-
-const iconMap: Record<string, LucideIcon> = {
-  LayoutDashboard,
-  Users,
-  Calendar,
-  Table,
-  FileText,
-  Settings,
-  HelpCircle,
-  Code2,
-  Globe,
-  Package,
-};
+import { getPathByRouteKey } from "../router/routeRegistry";
+import { MENU_ICONS } from "./menuIcons";
+import { SidebarFavoriteButton, SidebarQuickLinks } from "./SidebarQuickLinks";
 
 // ========================================
 // Sidebar Types
 // ========================================
 
-export type SidebarMenuMode = "filtered" | "static" | "dynamic";
+export type { SidebarMenuMode };
 
 export interface SidebarProps {
   /** 추가 클래스 */
   className?: string;
   /**
-   * 메뉴 렌더링 모드
+   * 메뉴 렌더링 모드 (기본: uiStore.sidebarMenuMode)
    * - filtered: authStore.filteredMenuTree 사용 (User Menu Policy 반영)
-   * - static: 정적 routeConfig 사용
-   * - dynamic: menuStore 사용
+   * - dynamic: menuStore 사용 (서버에 저장된 메뉴, 접근 가능한 routeKey만 표시)
    */
   menuMode?: SidebarMenuMode;
   /** @deprecated useDynamicMenu 대신 menuMode 사용 */
@@ -126,7 +98,7 @@ const FilteredMenuItem: React.FC<FilteredMenuItemProps> = ({
         for (const child of children) {
           if (isPageNode(child) || isMenuGroupNode(child)) {
             const path = child.routeKey
-              ? getPathByRouteKey(routeConfig, child.routeKey)
+              ? getPathByRouteKey(child.routeKey)
               : null;
             if (path && currentPath.startsWith(path)) return true;
           }
@@ -145,10 +117,10 @@ const FilteredMenuItem: React.FC<FilteredMenuItemProps> = ({
   // 노드별 path 가져오기
   const nodePath = useMemo(() => {
     if (isPageNode(node)) {
-      return getPathByRouteKey(routeConfig, node.routeKey);
+      return getPathByRouteKey(node.routeKey);
     }
     if (isMenuGroupNode(node) && node.routeKey) {
-      return getPathByRouteKey(routeConfig, node.routeKey);
+      return getPathByRouteKey(node.routeKey);
     }
     return null;
   }, [node]);
@@ -290,6 +262,18 @@ const FilteredMenuItem: React.FC<FilteredMenuItemProps> = ({
 
   // 리프 노드 (Page 또는 routeKey 없는 Menu)
   if (nodePath) {
+    // 페이지 항목은 즐겨찾기 버튼 표시 (펼친 사이드바에서만)
+    if (isPageNode(node) && !isCollapsed) {
+      return (
+        <div className="group relative">
+          <SDSLink href={nodePath} className={cn(itemStyles, "pr-8")}>
+            {linkContent}
+          </SDSLink>
+          <SidebarFavoriteButton routeKey={node.routeKey} label={node.label} />
+        </div>
+      );
+    }
+
     return (
       <SDSLink href={nodePath} className={itemStyles}>
         {linkContent}
@@ -322,7 +306,7 @@ const DynamicMenuItemComponent: React.FC<DynamicMenuItemProps> = ({
 
   const hasItemChildren = item.children && item.children.length > 0;
   const isExpanded = expandedMenuIds.has(item.id);
-  const Icon = item.icon ? iconMap[item.icon] : null;
+  const Icon = item.icon ? MENU_ICONS[item.icon] : null;
 
   const isExactActive = currentPath === item.path;
 
@@ -446,181 +430,33 @@ const DynamicMenuGroupComponent: React.FC<DynamicMenuGroupProps> = ({
   );
 };
 
-// ========================================
-// Static MenuItem Component (Legacy)
-// ========================================
-
-interface StaticMenuItemProps {
-  item: AppRouteMeta;
-  isCollapsed: boolean;
-  depth?: number;
-}
-
-const StaticMenuItem: React.FC<StaticMenuItemProps> = ({
-  item,
-  isCollapsed,
-  depth = 0,
-}) => {
-  const navigation = useNavigation();
-  const currentPath = navigation.getCurrentPath();
-  const [isExpanded, setIsExpanded] = useState(() => {
-    if (item.children) {
-      return item.children.some(
-        (child) =>
-          currentPath.startsWith(child.path) ||
-          child.path.startsWith(currentPath.split("/").slice(0, 3).join("/"))
-      );
-    }
-    return false;
-  });
-
-  const hasItemChildren = item.children && item.children.length > 0;
-  const Icon = item.icon;
-
-  const isExactActive = currentPath === item.path;
-
-  const handleClick = () => {
-    if (hasItemChildren) {
-      setIsExpanded(!isExpanded);
-    }
-  };
-
-  const linkContent = (
-    <>
-      {Icon && (
-        <Icon
-          className={cn(
-            "w-5 h-5 shrink-0",
-            isExactActive ? "text-white" : "text-softone-sidebar-text"
-          )}
-        />
-      )}
-      {!isCollapsed && (
-        <>
-          <span className="flex-1 truncate">{item.label}</span>
-          {item.badge && (
-            <Badge
-              variant={item.badgeColor ?? "primary"}
-              size="sm"
-              className="ml-2"
-            >
-              {item.badge}
-            </Badge>
-          )}
-          {hasItemChildren && (
-            <span className="ml-auto">
-              {isExpanded ? (
-                <ChevronDown className="w-4 h-4" />
-              ) : (
-                <ChevronRight className="w-4 h-4" />
-              )}
-            </span>
-          )}
-        </>
-      )}
-    </>
-  );
-
-  const itemStyles = cn(
-    "flex items-center gap-3 px-3 py-2.5 rounded-lg transition-colors",
-    "text-sm font-medium",
-    isExactActive
-      ? "bg-softone-sidebar-active text-white"
-      : "text-softone-sidebar-text hover:bg-softone-sidebar-hover hover:text-white",
-    depth > 0 && "ml-8",
-    isCollapsed && "justify-center px-2"
-  );
-
-  if (hasItemChildren && !isCollapsed) {
-    return (
-      <div>
-        <button onClick={handleClick} className={cn(itemStyles, "w-full")}>
-          {linkContent}
-        </button>
-        {isExpanded && (
-          <div className="mt-1 space-y-1 max-h-[60vh] overflow-y-auto sidebar-scrollbar">
-            {item.children
-              ?.filter((child) => !child.hideInMenu)
-              .map((child) => (
-                <StaticMenuItem
-                  key={child.key}
-                  item={child}
-                  isCollapsed={isCollapsed}
-                  depth={depth + 1}
-                />
-              ))}
-          </div>
-        )}
-      </div>
-    );
-  }
-
-  return (
-    <SDSLink href={item.path} className={itemStyles}>
-      {linkContent}
-    </SDSLink>
-  );
-};
-
-// ========================================
-// Static MenuGroup Component (Legacy)
-// ========================================
-
-interface StaticMenuGroupProps {
-  groupKey: string;
-  items: AppRouteMeta[];
-  isCollapsed: boolean;
-}
-
-const StaticMenuGroup: React.FC<StaticMenuGroupProps> = ({
-  groupKey,
-  items,
-  isCollapsed,
-}) => {
-  const group = menuGroups[groupKey as keyof typeof menuGroups];
-  const label = group?.label;
-
-  return (
-    <div className="mb-6">
-      {label && !isCollapsed && (
-        <div className="px-3 mb-2 text-xs font-semibold uppercase tracking-wider text-softone-sidebar-text/60">
-          {label}
-        </div>
-      )}
-      <nav className="space-y-1">
-        {items.map((item) => (
-          <StaticMenuItem
-            key={item.key}
-            item={item}
-            isCollapsed={isCollapsed}
-          />
-        ))}
-      </nav>
-    </div>
-  );
-};
-
 // ========================================
 // Sidebar Component
 // ========================================
 
 export const Sidebar: React.FC<SidebarProps> = ({
   className,
-  menuMode = "static",
+  menuMode,
   useDynamicMenu = false,
 }) => {
-  const { isSidebarCollapsed } = useUIStore();
+  const { isSidebarCollapsed, sidebarMenuMode } = useUIStore();
   const { user, roles, logout } = useAuth();
   const navigation = useNavigation();
 
   // 실제 메뉴 모드 결정 (useDynamicMenu 레거시 지원)
-  const effectiveMode: SidebarMenuMode = useDynamicMenu ? "dynamic" : menuMode;
+  const effectiveMode: SidebarMenuMode = useDynamicMenu
+    ? "dynamic"
+    : menuMode ?? sidebarMenuMode;
 
   // authStore에서 filteredMenuTree 가져오기
   const filteredMenuTree = useAuthStore(selectFilteredMenuTree);
+  const accessibleRouteKeys = useAuthStore(
+    (state) => state.accessibleRouteKeys
+  );
 
   // 동적 메뉴 Store
   const {
+    allMenus,
     filteredMenus,
     menuGroups: dynamicMenuGroups,
     isLoading,
@@ -636,26 +472,19 @@ export const Sidebar: React.FC<SidebarProps> = ({
     }
   }, [effectiveMode, isLoaded, loadMenus]);
 
-  // 역할 변경 시 필터링 (dynamic 모드일 때만)
+  // 메뉴/역할/접근 가능한 routeKey 변경 시 필터링 (dynamic 모드일 때만)
   useEffect(() => {
     if (effectiveMode === "dynamic" && isLoaded) {
-      filterMenusByRole(roles);
+      filterMenusByRole(roles, accessibleRouteKeys);
     }
-  }, [effectiveMode, isLoaded, roles, filterMenusByRole]);
-
-  // 정적 메뉴: 역할 기반 필터링 & 그룹화
-  const staticGroupedRoutes = useMemo(() => {
-    return getGroupedMenuRoutes(routeConfig, roles);
-  }, [roles]);
-
-  // 정적 그룹 순서대로 정렬
-  const sortedStaticGroups = useMemo(() => {
-    return Object.entries(staticGroupedRoutes).sort(([a], [b]) => {
-      const orderA = menuGroups[a as keyof typeof menuGroups]?.order ?? 50;
-      const orderB = menuGroups[b as keyof typeof menuGroups]?.order ?? 50;
-      return orderA - orderB;
-    });
-  }, [staticGroupedRoutes]);
+  }, [
+    effectiveMode,
+    isLoaded,
+    allMenus,
+    roles,
+    accessibleRouteKeys,
+    filterMenusByRole,
+  ]);
 
   // 동적 메뉴: 그룹별 분류
   const groupedDynamicMenus = useMemo(() => {
@@ -697,7 +526,26 @@ export const Sidebar: React.FC<SidebarProps> = ({
   // 메뉴 렌더링
   const renderMenu = () => {
     switch (effectiveMode) {
+      case "dynamic":
+        // 동적 메뉴 Store 기반 렌더링
+        if (isLoading) {
+          return (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 text-softone-sidebar-text animate-spin" />
+            </div>
+          );
+        }
+        return sortedDynamicGroups.map((group) => (
+          <DynamicMenuGroupComponent
+            key={group.id}
+            group={group}
+            items={groupedDynamicMenus[group.id] || []}
+            isCollapsed={isSidebarCollapsed}
+          />
+        ));
+
       case "filtered":
+      default:
         // filteredMenuTree 기반 렌더링 (User Menu Policy 반영)
         if (filteredMenuTree.length === 0) {
           return (
@@ -717,36 +565,6 @@ export const Sidebar: React.FC<SidebarProps> = ({
             ))}
           </nav>
         );
-
-      case "dynamic":
-        // 동적 메뉴 Store 기반 렌더링
-        if (isLoading) {
-          return (
-            <div className="flex items-center justify-center py-8">
-              <Loader2 className="w-6 h-6 text-softone-sidebar-text animate-spin" />
-            </div>
-          );
-        }
-        return sortedDynamicGroups.map((group) => (
-          <DynamicMenuGroupComponent
-            key={group.id}
-            group={group}
-            items={groupedDynamicMenus[group.id] || []}
-            isCollapsed={isSidebarCollapsed}
-          />
-        ));
-
-      case "static":
-      default:
-        // 정적 routeConfig 기반 렌더링
-        return sortedStaticGroups.map(([groupKey, items]) => (
-          <StaticMenuGroup
-            key={groupKey}
-            groupKey={groupKey}
-            items={items}
-            isCollapsed={isSidebarCollapsed}
-          />
-        ));
     }
   };
 
@@ -776,6 +594,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
 
       {/* Menu */}
       <div className="flex-1 overflow-y-auto sidebar-scrollbar py-4 px-2">
+        <SidebarQuickLinks isCollapsed={isSidebarCollapsed} />
         {renderMenu()}
       </div>
 
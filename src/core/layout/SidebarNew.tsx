@@ -5,14 +5,15 @@
  * 이 파일에서는 Role/Grade 기반 PermissionKey를 사용하여
  * 메뉴/페이지/버튼/액션의 표시/비활성화/숨김을 제어합니다.
  *
- * MenuNode.routeKey와 AppRoute.routeKey를 통해
- * 메뉴와 실제 화면을 느슨하게 결합합니다.
+ * menuTree의 페이지 노드는 라우트 레지스트리(ROUTE_REGISTRY)의 menu 배치 정보로 생성되며,
+ * 링크 경로는 routeKey로 레지스트리에서 조회합니다.
  *
  * 기능:
  *   - menuTree 기반 4 Depth 메뉴 렌더링
  *   - 권한 기반 메뉴 필터링
  *   - Collapsible 메뉴 그룹
  *   - 현재 경로 하이라이팅
+ *   - 사용자별 즐겨찾기/최근 방문 섹션 (페이지 항목의 별 버튼으로 즐겨찾기 추가/해제)
  */
 
 import React, { useState, useMemo, useCallback } from "react";
@@ -24,7 +25,8 @@ import { Badge } from "../components/ui/Badge";
 import { useUIStore } from "../store/uiStore";
 import { useAuth } from "../hooks/useAuth";
 import { usePermission } from "../hooks/usePermission";
-import { menuTree, getPathByRouteKey } from "../router/menuConfig";
+import { menuTree } from "../router/menuConfig";
+import { getPathByRouteKey } from "../router/routeRegistry";
 import type {
   MenuNode,
   CategoryMenuNode,
@@ -39,6 +41,7 @@ import {
   isExternalNode,
   hasChildren,
 } from "../router/menu.types";
+import { SidebarFavoriteButton, SidebarQuickLinks } from "./SidebarQuickLinks";
 
 // ========================================
 // Types
@@ -312,38 +315,44 @@ const PageNodeComponent: React.FC<{
       ? "bg-softone-sidebar-active text-white"
       : "text-softone-sidebar-text hover:bg-softone-sidebar-hover hover:text-white",
     depth > 1 && `ml-${Math.min((depth - 1) * 2, 6)}`,
-    isCollapsed && "justify-center px-2"
+    isCollapsed && "justify-center px-2",
+    !isCollapsed && "pr-8"
   );
 
   return (
-    <SDSLink href={path} className={itemStyles}>
-      {Icon ? (
-        <Icon
-          className={cn(
-            "w-5 h-5 shrink-0",
-            isActive ? "text-white" : "text-softone-sidebar-text"
-          )}
-        />
-      ) : (
-        depth > 1 && (
-          <span className="w-1.5 h-1.5 rounded-full bg-current shrink-0" />
-        )
-      )}
+    <div className="group relative">
+      <SDSLink href={path} className={itemStyles}>
+        {Icon ? (
+          <Icon
+            className={cn(
+              "w-5 h-5 shrink-0",
+              isActive ? "text-white" : "text-softone-sidebar-text"
+            )}
+          />
+        ) : (
+          depth > 1 && (
+            <span className="w-1.5 h-1.5 rounded-full bg-current shrink-0" />
+          )
+        )}
+        {!isCollapsed && (
+          <>
+            <span className="flex-1 truncate">{node.label}</span>
+            {node.badge && (
+              <Badge
+                variant={node.badgeColor ?? "primary"}
+                size="sm"
+                className="ml-2"
+              >
+                {node.badge}
+              </Badge>
+            )}
+          </>
+        )}
+      </SDSLink>
       {!isCollapsed && (
-        <>
-          <span className="flex-1 truncate">{node.label}</span>
-          {node.badge && (
-            <Badge
-              variant={node.badgeColor ?? "primary"}
-              size="sm"
-              className="ml-2"
-            >
-              {node.badge}
-            </Badge>
-          )}
-        </>
+        <SidebarFavoriteButton routeKey={node.routeKey} label={node.label} />
       )}
-    </SDSLink>
+    </div>
   );
 };
 
@@ -522,6 +531,7 @@ export const SidebarNew: React.FC<SidebarProps> = ({ className }) => {
 
       {/* Menu */}
       <div className="flex-1 overflow-y-auto sidebar-scrollbar py-4 px-2">
+        <SidebarQuickLinks isCollapsed={isSidebarCollapsed} />
         {filteredMenu.map((node) => (
           <MenuNodeRenderer
             key={node.id}
@@ -0,0 +1,223 @@
+/**
+ * SoftOne Design System(SDS) - Sidebar Quick Links
+ * 작성: SoftOne Frontend Team
+ * 설명: 사이드바 상단의 "즐겨찾기" / "최근 방문" 섹션과 메뉴 항목의 즐겨찾기(별) 버튼.
+ *      값은 menuPreferenceStore(사용자별, 로컬 우선 + 서버 동기화)에 저장됩니다.
+ *      접근할 수 없게 된 화면은 useMenuPreferenceSync가 자동으로 제거합니다.
+ */
+
+import React from "react";
+import { History, Star } from "lucide-react";
+import { cn } from "../utils/classUtils";
+import { useNavigation } from "../router/NavigationContext";
+import { SDSLink } from "../components/navigation/SDSLink";
+import {
+  findRouteDefinition,
+  isDynamicRoutePath,
+} from "../router/routeRegistry";
+import {
+  useMenuPreferenceStore,
+  MAX_FAVORITE_ROUTES,
+} from "../store/menuPreferenceStore";
+import { useToastStore } from "../store/toastStore";
+
+// ========================================
+// Types
+// ========================================
+
+export interface SidebarQuickLinksProps {
+  /** 사이드바 접힘 여부 (접히면 표시하지 않음) */
+  isCollapsed: boolean;
+}
+
+export interface SidebarFavoriteButtonProps {
+  routeKey: string;
+  /** 화면 이름 (aria-label) */
+  label: string;
+  className?: string;
+}
+
+interface QuickLink {
+  routeKey: string;
+  path: string;
+  label: string;
+  icon?: React.ElementType;
+}
+
+// ========================================
+// Helpers
+// ========================================
+
+/** routeKey → 링크 정보 (경로를 알 수 없는 상세 화면 등은 제외) */
+const toQuickLinks = (routeKeys: string[]): QuickLink[] =>
+  routeKeys.flatMap((routeKey) => {
+    const route = findRouteDefinition(routeKey);
+    if (!route || isDynamicRoutePath(route.path)) return [];
+    return [
+      {
+        routeKey,
+        path: route.path,
+        label: route.menu?.label ?? route.label,
+        icon: route.menu?.icon,
+      },
+    ];
+  });
+
+const SECTION_HEADER_CLASS =
+  "flex items-center gap-2 px-3 mb-2 text-xs font-semibold uppercase tracking-wider text-softone-sidebar-text/60";
+
+// ========================================
+// SidebarFavoriteButton Component
+// ========================================
+
+/**
+ * 즐겨찾기 추가/해제 버튼 (메뉴 항목에 hover 시 표시, 즐겨찾기면 항상 표시)
+ * 부모 요소에 `group relative` 클래스가 필요합니다.
+ */
+export const SidebarFavoriteButton: React.FC<SidebarFavoriteButtonProps> = ({
+  routeKey,
+  label,
+  className,
+}) => {
+  const isFavorite = useMenuPreferenceStore((state) =>
+    state.favoriteRouteKeys.includes(routeKey)
+  );
+  const toggleFavorite = useMenuPreferenceStore(
+    (state) => state.toggleFavorite
+  );
+  const showToast = useToastStore((state) => state.showToast);
+
+  const handleClick = (event: React.MouseEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    if (!toggleFavorite(routeKey)) {
+      showToast(
+        "warning",
+        `즐겨찾기는 최대 ${MAX_FAVORITE_ROUTES}개까지 추가할 수 있습니다.`
+      );
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      aria-pressed={isFavorite}
+      aria-label={`${label} 즐겨찾기 ${isFavorite ? "해제" : "추가"}`}
+      title={isFavorite ? "즐겨찾기 해제" : "즐겨찾기 추가"}
+      className={cn(
+        "absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded transition-opacity",
+        "hover:bg-softone-sidebar-hover focus:opacity-100",
+        isFavorite ? "opacity-100" : "opacity-0 group-hover:opacity-100",
+        className
+      )}
+    >
+      <Star
+        className={cn(
+          "w-3.5 h-3.5",
+          isFavorite
+            ? "fill-amber-400 text-amber-400"
+            : "text-softone-sidebar-text"
+        )}
+      />
+    </button>
+  );
+};
+
+SidebarFavoriteButton.displayName = "SidebarFavoriteButton";
+
+// ========================================
+// SidebarQuickLinks Component
+// ========================================
+
+export const SidebarQuickLinks: React.FC<SidebarQuickLinksProps> = ({
+  isCollapsed,
+}) => {
+  const navigation = useNavigation();
+  const currentPath = navigation.getCurrentPath();
+  const favoriteRouteKeys = useMenuPreferenceStore(
+    (state) => state.favoriteRouteKeys
+  );
+  const recentRouteKeys = useMenuPreferenceStore(
+    (state) => state.recentRouteKeys
+  );
+  const clearRecentRoutes = useMenuPreferenceStore(
+    (state) => state.clearRecentRoutes
+  );
+
+  if (isCollapsed) return null;
+
+  const favorites = toQuickLinks(favoriteRouteKeys);
+  const recent = toQuickLinks(recentRouteKeys);
+  if (favorites.length === 0 && recent.length === 0) return null;
+
+  const renderLink = (link: QuickLink, withFavoriteButton: boolean) => {
+    const Icon = link.icon;
+    const isActive = currentPath === link.path;
+
+    return (
+      <div key={link.routeKey} className="group relative">
+        <SDSLink
+          href={link.path}
+          className={cn(
+            "flex items-center gap-3 px-3 py-2 rounded-lg transition-colors",
+            "text-sm font-medium",
+            withFavoriteButton && "pr-8",
+            isActive
+              ? "bg-softone-sidebar-active text-white"
+              : "text-softone-sidebar-text hover:bg-softone-sidebar-hover hover:text-white"
+          )}
+        >
+          {Icon ? (
+            <Icon className="w-4 h-4 shrink-0" />
+          ) : (
+            <span className="w-1.5 h-1.5 rounded-full bg-current shrink-0" />
+          )}
+          <span className="flex-1 truncate">{link.label}</span>
+        </SDSLink>
+        {withFavoriteButton && (
+          <SidebarFavoriteButton routeKey={link.routeKey} label={link.label} />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mb-4 space-y-4 pb-4 border-b border-slate-700/50">
+      {favorites.length > 0 && (
+        <section aria-label="즐겨찾기">
+          <div className={SECTION_HEADER_CLASS}>
+            <Star className="w-3.5 h-3.5" />
+            즐겨찾기
+          </div>
+          <nav className="space-y-1">
+            {favorites.map((link) => renderLink(link, true))}
+          </nav>
+        </section>
+      )}
+
+      {recent.length > 0 && (
+        <section aria-label="최근 방문">
+          <div className={SECTION_HEADER_CLASS}>
+            <History className="w-3.5 h-3.5" />
+            최근 방문
+            <button
+              type="button"
+              onClick={clearRecentRoutes}
+              className="ml-auto normal-case tracking-normal font-normal hover:text-white transition-colors"
+            >
+              지우기
+            </button>
+          </div>
+          <nav className="space-y-1">
+            {recent.map((link) => renderLink(link, false))}
+          </nav>
+        </section>
+      )}
+    </div>
+  );
+};
+
+SidebarQuickLinks.displayName = "SidebarQuickLinks";
+
+export default SidebarQuickLinks;
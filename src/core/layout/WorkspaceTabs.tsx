@@ -0,0 +1,407 @@
+/**
+ * SoftOne Design System(SDS) - Workspace Tabs Component
+ * 작성: SoftOne Frontend Team
+ * 설명: 멀티 탭 작업 공간(MDI)의 열린 화면 탭 바.
+ *      탭 클릭 시 해당 화면으로 이동하며, 화면 상태는 Shell의 탭 패널이 유지합니다.
+ *
+ * 기능:
+ *   - 닫기 (X 버튼, 가운데 클릭, Delete 키) / 다른 탭 닫기 / 고정 (우클릭 메뉴)
+ *     (닫을 탭에 저장하지 않은 변경 사항이 있으면 확인 후 닫기)
+ *   - 드래그 또는 Ctrl + Shift + ←/→ 로 순서 변경
+ *   - 로그인 사용자가 바뀌거나 권한이 바뀌면 저장된 탭을 canAccessRoute로 다시 복원
+ *
+ * A11y:
+ *   - role="tablist" / role="tab", aria-selected, aria-controls (탭 패널)
+ *   - ←/→/Home/End로 탭 간 포커스 이동, Enter/Space로 활성화
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Pin, PinOff, X } from "lucide-react";
+import { cn } from "../utils/classUtils";
+import { useNavigation } from "../router/NavigationContext";
+import { HOME_ROUTE_KEY, getPathByRouteKey } from "../router/routeRegistry";
+import { useAuthStore } from "../store/authStore";
+import {
+  useWorkspaceStore,
+  MAX_PINNED_WORKSPACE_TABS,
+  getWorkspaceTabId,
+  getWorkspacePanelId,
+  type WorkspaceTab,
+} from "../store/workspaceStore";
+import { useToastStore } from "../store/toastStore";
+import {
+  inWorkspaceTab,
+  useUnsavedChangesStore,
+} from "../store/unsavedChangesStore";
+
+const HOME_PATH = getPathByRouteKey(HOME_ROUTE_KEY) ?? "/";
+
+// ========================================
+// Types
+// ========================================
+
+export interface WorkspaceTabsProps {
+  /** 추가 클래스 */
+  className?: string;
+}
+
+interface TabContextMenuState {
+  routeKey: string;
+  x: number;
+  y: number;
+}
+
+// ========================================
+// WorkspaceTabs Component
+// ========================================
+
+export const WorkspaceTabs: React.FC<WorkspaceTabsProps> = ({ className }) => {
+  const navigation = useNavigation();
+  const showToast = useToastStore((state) => state.showToast);
+
+  const tabs = useWorkspaceStore((state) => state.tabs);
+  const activeRouteKey = useWorkspaceStore((state) => state.activeRouteKey);
+  const restoreWorkspace = useWorkspaceStore((state) => state.restoreWorkspace);
+  const closeTab = useWorkspaceStore((state) => state.closeTab);
+  const closeOtherTabs = useWorkspaceStore((state) => state.closeOtherTabs);
+  const togglePinTab = useWorkspaceStore((state) => state.togglePinTab);
+  const moveTab = useWorkspaceStore((state) => state.moveTab);
+  const confirmDiscardChanges = useUnsavedChangesStore(
+    (state) => state.confirmDiscardChanges
+  );
+
+  const userId = useAuthStore((state) => state.user?.id);
+  const accessibleRouteKeys = useAuthStore(
+    (state) => state.accessibleRouteKeys
+  );
+  const canAccessRoute = useAuthStore((state) => state.canAccessRoute);
+  const isAccessLoading = useAuthStore(
+    (state) => state.isAuthLoading || state.isPolicyLoading
+  );
+
+  const [contextMenu, setContextMenu] = useState<TabContextMenuState | null>(
+    null
+  );
+  const [draggingRouteKey, setDraggingRouteKey] = useState<string | null>(null);
+  const tabRefs = useRef(new Map<string, HTMLDivElement>());
+
+  // 사용자/권한 변경 시 탭 복원 (세션·정책 로딩 중에는 접근 가능 목록이 확정되지 않음)
+  useEffect(() => {
+    if (!userId || isAccessLoading) return;
+    restoreWorkspace(userId, canAccessRoute);
+  }, [
+    userId,
+    accessibleRouteKeys,
+    isAccessLoading,
+    canAccessRoute,
+    restoreWorkspace,
+  ]);
+
+  // ========================================
+  // Actions
+  // ========================================
+
+  const activateTab = useCallback(
+    (tab: WorkspaceTab) => {
+      if (tab.routeKey !== activeRouteKey) {
+        navigation.push(tab.path);
+      }
+    },
+    [activeRouteKey, navigation]
+  );
+
+  const handleClose = useCallback(
+    (tab: WorkspaceTab) => {
+      if (tab.pinned) return;
+
+      void confirmDiscardChanges(inWorkspaceTab(tab.routeKey)).then(
+        (confirmed) => {
+          if (!confirmed) return;
+          // 확인을 기다리는 동안 활성 탭이 바뀌었을 수 있으므로 다시 조회
+          const wasActive =
+            tab.routeKey === useWorkspaceStore.getState().activeRouteKey;
+          const next = closeTab(tab.routeKey);
+          if (wasActive) {
+            navigation.push(next?.path ?? HOME_PATH);
+          }
+        }
+      );
+    },
+    [closeTab, confirmDiscardChanges, navigation]
+  );
+
+  const handleCloseOthers = useCallback(
+    (tab: WorkspaceTab) => {
+      const closingKeys = new Set(
+        tabs
+          .filter((t) => !t.pinned && t.routeKey !== tab.routeKey)
+          .map((t) => t.routeKey)
+      );
+
+      void confirmDiscardChanges(
+        (guard) => !!guard.tabKey && closingKeys.has(guard.tabKey)
+      ).then((confirmed) => {
+        if (!confirmed) return;
+        const wasActive =
+          tab.routeKey === useWorkspaceStore.getState().activeRouteKey;
+        closeOtherTabs(tab.routeKey);
+        if (!wasActive) {
+          navigation.push(tab.path);
+        }
+      });
+    },
+    [tabs, closeOtherTabs, confirmDiscardChanges, navigation]
+  );
+
+  const handleTogglePin = useCallback(
+    (tab: WorkspaceTab) => {
+      if (!togglePinTab(tab.routeKey)) {
+        showToast(
+          "warning",
+          `탭은 최대 ${MAX_PINNED_WORKSPACE_TABS}개까지 고정할 수 있습니다.`
+        );
+      }
+    },
+    [togglePinTab, showToast]
+  );
+
+  const focusTab = (routeKey: string | undefined) => {
+    if (routeKey) tabRefs.current.get(routeKey)?.focus();
+  };
+
+  // ========================================
+  // Event Handlers
+  // ========================================
+
+  const handleKeyDown = (
+    event: React.KeyboardEvent<HTMLDivElement>,
+    tab: WorkspaceTab,
+    index: number
+  ) => {
+    const isMove = (event.ctrlKey || event.metaKey) && event.shiftKey;
+
+    switch (event.key) {
+      case "ArrowLeft":
+      case "ArrowRight": {
+        event.preventDefault();
+        const offset = event.key === "ArrowLeft" ? -1 : 1;
+        if (isMove) {
+          moveTab(tab.routeKey, index + offset);
+          // 이동 후에도 같은 탭에 포커스 유지
+          requestAnimationFrame(() => focusTab(tab.routeKey));
+          return;
+        }
+        focusTab(tabs[(index + offset + tabs.length) % tabs.length]?.routeKey);
+        return;
+      }
+      case "Home":
+        event.preventDefault();
+        focusTab(tabs[0]?.routeKey);
+        return;
+      case "End":
+        event.preventDefault();
+        focusTab(tabs[tabs.length - 1]?.routeKey);
+        return;
+      case "Enter":
+      case " ":
+        event.preventDefault();
+        activateTab(tab);
+        return;
+      case "Delete":
+        event.preventDefault();
+        if (tab.pinned) return;
+        focusTab(tabs[index + 1]?.routeKey ?? tabs[index - 1]?.routeKey);
+        handleClose(tab);
+        return;
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent, target: WorkspaceTab) => {
+    event.preventDefault();
+    if (draggingRouteKey && draggingRouteKey !== target.routeKey) {
+      moveTab(
+        draggingRouteKey,
+        tabs.findIndex((tab) => tab.routeKey === target.routeKey)
+      );
+    }
+    setDraggingRouteKey(null);
+  };
+
+  if (tabs.length === 0) return null;
+
+  const contextTab = contextMenu
+    ? tabs.find((tab) => tab.routeKey === contextMenu.routeKey)
+    : undefined;
+
+  const runContextAction = (action: (tab: WorkspaceTab) => void) => {
+    if (contextTab) action(contextTab);
+    setContextMenu(null);
+  };
+
+  return (
+    <div
+      className={cn(
+        "bg-softone-surface border-b border-softone-border px-4 lg:px-6",
+        className
+      )}
+    >
+      <div
+        role="tablist"
+        aria-label="열린 화면"
+        className="flex items-end gap-1 overflow-x-auto pt-2"
+      >
+        {tabs.map((tab, index) => {
+          const isActive = tab.routeKey === activeRouteKey;
+          const isFocusable = isActive || (!activeRouteKey && index === 0);
+
+          return (
+            <div
+              key={tab.routeKey}
+              ref={(element) => {
+                if (element) tabRefs.current.set(tab.routeKey, element);
+                else tabRefs.current.delete(tab.routeKey);
+              }}
+              id={getWorkspaceTabId(tab.routeKey)}
+              role="tab"
+              aria-selected={isActive}
+              aria-controls={getWorkspacePanelId(tab.routeKey)}
+              tabIndex={isFocusable ? 0 : -1}
+              title={tab.title}
+              draggable
+              onClick={() => activateTab(tab)}
+              onAuxClick={(event) => {
+                // 가운데 버튼 클릭으로 닫기
+                if (event.button === 1) {
+                  event.preventDefault();
+                  handleClose(tab);
+                }
+              }}
+              onContextMenu={(event) => {
+                event.preventDefault();
+                setContextMenu({
+                  routeKey: tab.routeKey,
+                  x: event.clientX,
+                  y: event.clientY,
+                });
+              }}
+              onKeyDown={(event) => handleKeyDown(event, tab, index)}
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = "move";
+                setDraggingRouteKey(tab.routeKey);
+              }}
+              onDragOver={(event) => {
+                if (draggingRouteKey) event.preventDefault();
+              }}
+              onDrop={(event) => handleDrop(event, tab)}
+              onDragEnd={() => setDraggingRouteKey(null)}
+              className={cn(
+                "group flex items-center gap-1.5 max-w-[12rem] shrink-0 px-3 py-1.5",
+                "text-sm rounded-t-lg border border-b-0 cursor-pointer select-none transition-colors",
+                "focus:outline-none focus-visible:ring-2 focus-visible:ring-softone-primary",
+                isActive
+                  ? "bg-softone-bg border-softone-border text-softone-primary font-medium"
+                  : "border-transparent text-softone-text-secondary hover:bg-softone-surface-hover",
+                draggingRouteKey === tab.routeKey && "opacity-50"
+              )}
+            >
+              {tab.pinned && (
+                <Pin
+                  className="w-3 h-3 shrink-0 text-softone-text-muted"
+                  aria-label="고정됨"
+                />
+              )}
+              <span className="truncate">{tab.title}</span>
+              {!tab.pinned && (
+                <button
+                  type="button"
+                  tabIndex={-1}
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    handleClose(tab);
+                  }}
+                  className={cn(
+                    "p-0.5 rounded hover:bg-softone-border transition-opacity",
+                    isActive
+                      ? "opacity-100"
+                      : "opacity-0 group-hover:opacity-100"
+                  )}
+                  aria-label={`${tab.title} 탭 닫기`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Context Menu */}
+      {contextMenu && contextTab && (
+        <>
+          {/* 백드롭 */}
+          <div
+            className="fixed inset-0 z-30"
+            onClick={() => setContextMenu(null)}
+            onContextMenu={(event) => {
+              event.preventDefault();
+              setContextMenu(null);
+            }}
+          />
+          <div
+            role="menu"
+            aria-label={`${contextTab.title} 탭 메뉴`}
+            className="fixed z-40 w-44 bg-softone-surface border border-softone-border rounded-lg shadow-lg py-1 sds-animate-scale-in"
+            style={{ left: contextMenu.x, top: contextMenu.y }}
+            onKeyDown={(event) => {
+              if (event.key === "Escape") {
+                setContextMenu(null);
+                focusTab(contextTab.routeKey);
+              }
+            }}
+          >
+            <button
+              type="button"
+              role="menuitem"
+              autoFocus
+              disabled={contextTab.pinned}
+              onClick={() => runContextAction(handleClose)}
+              className="w-full text-left px-3 py-1.5 text-sm text-softone-text-secondary hover:bg-softone-surface-hover disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              닫기
+            </button>
+            <button
+              type="button"
+              role="menuitem"
+              onClick={() => runContextAction(handleCloseOthers)}
+              className="w-full text-left px-3 py-1.5 text-sm text-softone-text-secondary hover:bg-softone-surface-hover"
+            >
+              다른 탭 닫기
+            </button>
+            <button
+              type="button"
+              role="menuitem"
+              onClick={() => runContextAction(handleTogglePin)}
+              className="w-full flex items-center gap-2 px-3 py-1.5 text-sm text-softone-text-secondary hover:bg-softone-surface-hover"
+            >
+              {contextTab.pinned ? (
+                <>
+                  <PinOff className="w-3.5 h-3.5" />
+                  고정 해제
+                </>
+              ) : (
+                <>
+                  <Pin className="w-3.5 h-3.5" />
+                  고정
+                </>
+              )}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+WorkspaceTabs.displayName = "WorkspaceTabs";
+
+export default WorkspaceTabs;
@@ -0,0 +1,220 @@
+/**
+ * SoftOne Design System(SDS) - Command Palette Items
+ * 작성: SoftOne Frontend Team
+ *
+ * 명령 팔레트에 표시할 항목 구성과 검색.
+ *   - 페이지: 접근 가능한 메뉴 트리(authStore.filteredMenuTree)의 화면/외부 링크
+ *   - 최근 페이지: menuPreferenceStore.recentRouteKeys 중 메뉴에 있는 화면
+ *   - 명령: registerCommands()로 등록되고 권한이 있는 명령
+ *
+ * 검색은 라벨(초성 포함), routeKey, 상위 메뉴 경로, 명령 keywords를 대상으로 합니다.
+ */
+
+import type { LucideIcon } from "lucide-react";
+import type { CommandDefinition } from "../store/commandStore";
+import type { PermissionKey } from "../auth/role.types";
+import {
+  isCategoryNode,
+  isExternalNode,
+  isMenuGroupNode,
+  isPageNode,
+  type MenuNode,
+} from "../router/menu.types";
+import { fuzzyMatch } from "../utils/searchUtils";
+
+// ========================================
+// Types
+// ========================================
+
+export type CommandPaletteItemKind = "recent" | "page" | "command";
+
+export interface CommandPaletteItem {
+  /** 목록 내 고유 ID */
+  id: string;
+  kind: CommandPaletteItemKind;
+  /** 섹션 이름 */
+  group: string;
+  label: string;
+  /** 보조 설명 (상위 메뉴 경로 등) */
+  description?: string;
+  icon?: LucideIcon;
+  shortcut?: string;
+  /** 페이지 항목의 routeKey */
+  routeKey?: string;
+  /** 외부 링크 항목 */
+  href?: string;
+  target?: "_blank" | "_self";
+  /** 명령 항목 */
+  command?: CommandDefinition;
+  /** 라벨 외 검색 대상 */
+  keywords: string[];
+}
+
+export interface CommandPaletteSearchResult {
+  item: CommandPaletteItem;
+  score: number;
+  /** 라벨에서 일치한 글자 위치 */
+  labelIndices: number[];
+}
+
+export const PAGE_GROUP = "페이지";
+export const RECENT_GROUP = "최근 페이지";
+export const DEFAULT_COMMAND_GROUP = "명령";
+
+/** 단축키 표시 (Mac: ⌘ K, 그 외: Ctrl K) */
+export const COMMAND_PALETTE_SHORTCUT_LABEL =
+  typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform)
+    ? "⌘ K"
+    : "Ctrl K";
+
+/** 라벨이 아닌 검색어(routeKey, 경로 등)로 일치했을 때의 가중치 */
+const KEYWORD_WEIGHT = 0.8;
+/** 최근 방문한 화면 가산점 */
+const RECENT_BONUS = 5;
+
+// ========================================
+// Build
+// ========================================
+
+/**
+ * 메뉴 트리에서 이동 가능한 화면/외부 링크 항목을 만듭니다.
+ */
+export function buildPageItems(menuTree: MenuNode[]): CommandPaletteItem[] {
+  const items: CommandPaletteItem[] = [];
+
+  const visit = (nodes: MenuNode[], trail: string[]) => {
+    nodes.forEach((node) => {
+      if (node.hidden) return;
+      const description = trail.join(" › ") || undefined;
+
+      if (isPageNode(node) || (isMenuGroupNode(node) && node.routeKey)) {
+        const routeKey = node.routeKey!;
+        items.push({
+          id: `page:${routeKey}`,
+          kind: "page",
+          group: PAGE_GROUP,
+          label: node.label,
+          description,
+          icon: node.icon,
+          routeKey,
+          keywords: [routeKey, ...trail],
+        });
+      } else if (isExternalNode(node)) {
+        items.push({
+          id: `external:${node.id}`,
+          kind: "page",
+          group: PAGE_GROUP,
+          label: node.label,
+          description: node.href,
+          icon: node.icon,
+          href: node.href,
+          target: node.target,
+          keywords: [node.href, ...trail],
+        });
+      }
+
+      if (isCategoryNode(node) || isMenuGroupNode(node)) {
+        visit(node.children ?? [], [...trail, node.label]);
+      }
+    });
+  };
+
+  visit(menuTree, []);
+  return items;
+}
+
+/**
+ * 최근 방문한 화면 중 메뉴에 있는 화면 항목 (최신순)
+ */
+export function buildRecentItems(
+  pageItems: CommandPaletteItem[],
+  recentRouteKeys: string[]
+): CommandPaletteItem[] {
+  return recentRouteKeys.flatMap((routeKey) => {
+    const page = pageItems.find((item) => item.routeKey === routeKey);
+    return page
+      ? [
+          {
+            ...page,
+            id: `recent:${routeKey}`,
+            kind: "recent",
+            group: RECENT_GROUP,
+          },
+        ]
+      : [];
+  });
+}
+
+/**
+ * 권한이 있는 명령 항목
+ */
+export function buildCommandItems(
+  commands: CommandDefinition[],
+  permissions: PermissionKey[]
+): CommandPaletteItem[] {
+  return commands
+    .filter((command) =>
+      (command.requiredPermissions ?? []).every((permission) =>
+        permissions.includes(permission)
+      )
+    )
+    .map((command) => ({
+      id: `command:${command.id}`,
+      kind: "command",
+      group: command.group ?? DEFAULT_COMMAND_GROUP,
+      label: command.label,
+      icon: command.icon,
+      shortcut: command.shortcut,
+      command,
+      keywords: [command.id, ...(command.keywords ?? [])],
+    }));
+}
+
+// ========================================
+// Search
+// ========================================
+
+/**
+ * 항목 검색
+ *   - 검색어가 없으면 최근 페이지 → 명령 → 페이지 순서 그대로
+ *   - 검색어가 있으면 최근 페이지 섹션 없이 점수순 (최근 방문 화면은 가산점)
+ */
+export function searchCommandPalette(
+  pages: CommandPaletteItem[],
+  commands: CommandPaletteItem[],
+  recent: CommandPaletteItem[],
+  query: string
+): CommandPaletteSearchResult[] {
+  if (!query.trim()) {
+    return [...recent, ...commands, ...pages].map((item) => ({
+      item,
+      score: 0,
+      labelIndices: [],
+    }));
+  }
+
+  const recentRouteKeys = new Set(recent.map((item) => item.routeKey));
+
+  return [...commands, ...pages]
+    .flatMap((item): CommandPaletteSearchResult[] => {
+      const label = fuzzyMatch(query, item.label);
+      const keywordScore = Math.max(
+        0,
+        ...item.keywords.map(
+          (keyword) => (fuzzyMatch(query, keyword)?.score ?? 0) * KEYWORD_WEIGHT
+        )
+      );
+      const score = Math.max(label?.score ?? 0, keywordScore);
+      if (score === 0) return [];
+
+      return [
+        {
+          item,
+          score:
+            score + (recentRouteKeys.has(item.routeKey) ? RECENT_BONUS : 0),
+          labelIndices: label?.indices ?? [],
+        },
+      ];
+    })
+    .sort((a, b) => b.score - a.score);
+}
@@ -7,3 +7,11 @@ export { MainLayout, type MainLayoutProps } from "./MainLayout";
 export { Sidebar, type SidebarProps } from "./Sidebar";
 export { Header, type HeaderProps } from "./Header";
 export { AuthLayout, type AuthLayoutProps } from "./AuthLayout";
+export { CommandPalette } from "./CommandPalette";
+export { WorkspaceTabs, type WorkspaceTabsProps } from "./WorkspaceTabs";
+export {
+  SidebarQuickLinks,
+  SidebarFavoriteButton,
+  type SidebarQuickLinksProps,
+  type SidebarFavoriteButtonProps,
+} from "./SidebarQuickLinks";
@@ -0,0 +1,74 @@
+/**
+ * SoftOne Design System(SDS) - Menu Icons
+ * 작성: SoftOne Frontend Team
+ *
+ * 동적 메뉴(menuStore)에 저장하는 아이콘 이름과 lucide-react 컴포넌트 목록.
+ * Sidebar 렌더링, 메뉴 관리 화면의 아이콘 선택, 메뉴 가져오기 검증이 모두 이 목록을 사용합니다.
+ * 라우트 레지스트리에서 사용하는 아이콘도 포함되어 있어 기본 메뉴(icon.displayName)도 그대로 표시됩니다.
+ */
+
+import {
+  BarChart,
+  Bell,
+  BookOpen,
+  Calendar,
+  Code2,
+  Database,
+  FileText,
+  FolderTree,
+  Globe,
+  HelpCircle,
+  LayoutDashboard,
+  Lock,
+  Package,
+  Play,
+  Settings,
+  Shield,
+  ShoppingCart,
+  Table,
+  Users,
+  Wrench,
+} from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+
+export interface MenuIconOption {
+  /** 저장되는 아이콘 이름 */
+  name: string;
+  /** 선택 목록 라벨 */
+  label: string;
+  icon: LucideIcon;
+}
+
+export const MENU_ICON_OPTIONS: MenuIconOption[] = [
+  { name: "LayoutDashboard", label: "대시보드", icon: LayoutDashboard },
+  { name: "Users", label: "사용자", icon: Users },
+  { name: "Calendar", label: "캘린더", icon: Calendar },
+  { name: "Table", label: "테이블", icon: Table },
+  { name: "FileText", label: "문서", icon: FileText },
+  { name: "Settings", label: "설정", icon: Settings },
+  { name: "HelpCircle", label: "도움말", icon: HelpCircle },
+  { name: "Code2", label: "코드", icon: Code2 },
+  { name: "Globe", label: "글로브", icon: Globe },
+  { name: "Package", label: "패키지", icon: Package },
+  { name: "ShoppingCart", label: "장바구니", icon: ShoppingCart },
+  { name: "BarChart", label: "차트", icon: BarChart },
+  { name: "Database", label: "데이터베이스", icon: Database },
+  { name: "Lock", label: "보안", icon: Lock },
+  { name: "Shield", label: "권한", icon: Shield },
+  { name: "Bell", label: "알림", icon: Bell },
+  { name: "BookOpen", label: "가이드", icon: BookOpen },
+  { name: "FolderTree", label: "트리", icon: FolderTree },
+  { name: "Play", label: "실행", icon: Play },
+  { name: "Wrench", label: "도구", icon: Wrench },
+];
+
+export const MENU_ICONS: Record<string, LucideIcon> = Object.fromEntries(
+  MENU_ICON_OPTIONS.map((option) => [option.name, option.icon])
+);
+
+/**
+ * 등록된 메뉴 아이콘 이름인지 확인
+ */
+export function isMenuIconName(name: string): boolean {
+  return name in MENU_ICONS;
+}
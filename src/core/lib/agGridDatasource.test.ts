@@ -0,0 +1,136 @@
+/**
+ * SoftOne Design System(SDS) - agGridDatasource 테스트
+ * 작성: SoftOne Frontend Team
+ * 설명: Infinite Row Model 데이터소스의 커서/offset 블록 요청 단위 테스트.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import type { IGetRowsParams, SortModelItem } from "ag-grid-community";
+import {
+  createInfiniteDatasource,
+  resolveLastRow,
+  type InfiniteBlockRequest,
+} from "./agGridDatasource";
+
+function createParams(
+  startRow: number,
+  endRow: number,
+  sortModel: SortModelItem[] = []
+) {
+  return {
+    startRow,
+    endRow,
+    sortModel,
+    filterModel: {},
+    context: undefined,
+    successCallback: vi.fn(),
+    failCallback: vi.fn(),
+  } satisfies IGetRowsParams;
+}
+
+const rows = (count: number) => Array.from({ length: count }, (_, i) => i);
+
+describe("createInfiniteDatasource", () => {
+  it("이전 블록의 nextCursor를 다음 블록 요청에 전달함", async () => {
+    const fetchBlock = vi
+      .fn()
+      .mockResolvedValueOnce({ data: rows(10), nextCursor: "cursor-10" })
+      .mockResolvedValueOnce({ data: rows(10), nextCursor: "cursor-20" });
+    const datasource = createInfiniteDatasource({ fetchBlock });
+
+    await datasource.getRows(createParams(0, 10));
+    await datasource.getRows(createParams(10, 20));
+
+    expect(fetchBlock.mock.calls[0][0].cursor).toBeNull();
+    expect(fetchBlock.mock.calls[1][0].cursor).toBe("cursor-10");
+  });
+
+  it("커서를 모르는 블록은 cursor=null로 요청함 (offset fallback)", async () => {
+    const fetchBlock = vi
+      .fn()
+      .mockResolvedValue({ data: rows(10), nextCursor: "next" });
+    const datasource = createInfiniteDatasource({ fetchBlock });
+
+    await datasource.getRows(createParams(0, 10));
+    await datasource.getRows(createParams(500, 510));
+
+    expect(fetchBlock.mock.calls[1][0]).toMatchObject({
+      startRow: 500,
+      cursor: null,
+    });
+  });
+
+  it("정렬이 바뀌면 저장된 커서를 초기화함", async () => {
+    const fetchBlock = vi
+      .fn()
+      .mockResolvedValue({ data: rows(10), nextCursor: "next" });
+    const datasource = createInfiniteDatasource({ fetchBlock });
+
+    await datasource.getRows(createParams(0, 10));
+    await datasource.getRows(
+      createParams(10, 20, [{ colId: "quantity", sort: "desc" }])
+    );
+
+    const request: InfiniteBlockRequest = fetchBlock.mock.calls[1][0];
+    expect(request.cursor).toBeNull();
+    expect(request.sorts).toEqual([{ field: "quantity", direction: "desc" }]);
+  });
+
+  it("nextCursor가 null이면 lastRow를 확정함", async () => {
+    const fetchBlock = vi
+      .fn()
+      .mockResolvedValue({ data: rows(10), nextCursor: null });
+    const datasource = createInfiniteDatasource({ fetchBlock });
+    const params = createParams(20, 30);
+
+    await datasource.getRows(params);
+
+    expect(params.successCallback).toHaveBeenCalledWith(rows(10), 30);
+  });
+
+  it("조회 실패 시 failCallback과 onBlockError를 호출함", async () => {
+    const error = new Error("network");
+    const onBlockError = vi.fn();
+    const datasource = createInfiniteDatasource({
+      fetchBlock: vi.fn().mockRejectedValue(error),
+      onBlockError,
+    });
+    const params = createParams(0, 10);
+
+    await datasource.getRows(params);
+
+    expect(params.failCallback).toHaveBeenCalled();
+    expect(onBlockError).toHaveBeenCalledWith(
+      expect.objectContaining({ startRow: 0 }),
+      error
+    );
+  });
+});
+
+describe("resolveLastRow", () => {
+  const request: InfiniteBlockRequest = {
+    startRow: 100,
+    endRow: 200,
+    blockSize: 100,
+    cursor: null,
+    sorts: [],
+    filterModel: {},
+  };
+
+  it("다음 페이지가 있으면 -1을 반환함", () => {
+    expect(resolveLastRow(request, { data: rows(100), nextCursor: "x" })).toBe(
+      -1
+    );
+  });
+
+  it("요청보다 적은 행이 오면 마지막 블록으로 판단함", () => {
+    expect(resolveLastRow(request, { data: rows(40), nextCursor: "x" })).toBe(
+      140
+    );
+  });
+
+  it("offset 방식은 total로 마지막 블록을 판단함", () => {
+    expect(resolveLastRow(request, { data: rows(100), total: 200 })).toBe(200);
+    expect(resolveLastRow(request, { data: rows(100), total: 500 })).toBe(-1);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * SoftOne Design System - ag-Grid Infinite Datasource Helper
+ * 작성: SoftOne Frontend Team
+ *
+ * Grid Samples Lab – 재사용 가능한 그리드 패턴 캡슐화:
+ *   ag-Grid Infinite Row Model용 IDatasource를 생성합니다.
+ *   offset 방식과 커서(keyset) 방식을 모두 지원하며,
+ *   커서 방식에서는 블록 경계별 nextCursor를 기억해 다음 블록 요청에 자동으로 전달합니다.
+ *
+ *   스크롤바를 크게 이동하여 커서를 모르는 블록이 요청되면 cursor=null로 요청하므로,
+ *   fetchBlock은 startRow 기준 offset 조회로 대체(fallback)하면 됩니다.
+ */
+
+import type {
+  IDatasource,
+  IGetRowsParams,
+  SortModelItem,
+} from "ag-grid-community";
+import type { SortState } from "../model/grid.types";
+
+// ========================================
+// Types
+// ========================================
+
+/**
+ * 블록 조회 요청
+ */
+export interface InfiniteBlockRequest {
+  /** 블록 시작 행 (포함) */
+  startRow: number;
+  /** 블록 끝 행 (미포함) */
+  endRow: number;
+  /** 블록 크기 (endRow - startRow) */
+  blockSize: number;
+  /** 이 블록 시작 위치의 커서 (모르면 null → startRow 기준 offset 조회) */
+  cursor: string | null;
+  /** ag-Grid 정렬 모델을 변환한 정렬 상태 */
+  sorts: SortState[];
+  /** ag-Grid 필터 모델 (그대로 전달) */
+  filterModel: unknown;
+}
+
+/**
+ * 블록 조회 결과
+ */
+export interface InfiniteBlockResult<T> {
+  /** 블록 데이터 */
+  data: T[];
+  /** 전체 행 수 (알 수 있는 경우) */
+  total?: number;
+  /**
+   * 다음 블록 커서
+   * - string: 다음 블록 존재
+   * - null: 마지막 블록
+   * - undefined: offset 방식 (커서 미사용)
+   */
+  nextCursor?: string | null;
+}
+
+export interface InfiniteDatasourceOptions<T> {
+  /** 블록 데이터 조회 함수 */
+  fetchBlock: (
+    request: InfiniteBlockRequest
+  ) => Promise<InfiniteBlockResult<T>>;
+  /** 블록 조회 시작 시 */
+  onBlockLoading?: (request: InfiniteBlockRequest) => void;
+  /** 블록 조회 완료 시 */
+  onBlockLoaded?: (
+    request: InfiniteBlockRequest,
+    result: InfiniteBlockResult<T>
+  ) => void;
+  /** 블록 조회 실패 시 */
+  onBlockError?: (request: InfiniteBlockRequest, error: unknown) => void;
+}
+
+// ========================================
+// Helpers
+// ========================================
+
+/**
+ * ag-Grid SortModel → SortState 배열
+ */
+export function toSortStates(sortModel: SortModelItem[] = []): SortState[] {
+  return sortModel.map((item) => ({
+    field: item.colId,
+    direction: item.sort,
+  }));
+}
+
+/**
+ * 블록 결과로 ag-Grid lastRow 계산
+ * @returns 마지막 행 인덱스 (알 수 없으면 -1)
+ */
+export function resolveLastRow<T>(
+  request: InfiniteBlockRequest,
+  result: InfiniteBlockResult<T>
+): number {
+  const loadedEnd = request.startRow + result.data.length;
+
+  // 커서 방식: 다음 커서가 없으면 마지막 블록
+  if (result.nextCursor === null) return loadedEnd;
+
+  // 요청보다 적게 왔으면 마지막 블록
+  if (result.data.length < request.blockSize) return loadedEnd;
+
+  // offset 방식: 전체 개수로 판단
+  if (
+    result.nextCursor === undefined &&
+    result.total !== undefined &&
+    loadedEnd >= result.total
+  ) {
+    return result.total;
+  }
+
+  return -1;
+}
+
+// ========================================
+// Datasource Factory
+// ========================================
+
+/**
+ * Infinite Row Model용 데이터소스 생성
+ *
+ * @example
+ * ```tsx
+ * const datasource = createInfiniteDatasource<SalesData>({
+ *   fetchBlock: ({ startRow, blockSize, cursor, sorts }) =>
+ *     fetchSalesByCursor({ startRow, pageSize: blockSize, cursor, sorts }),
+ * });
+ * gridApi.setGridOption("datasource", datasource);
+ * ```
+ */
+export function createInfiniteDatasource<T>(
+  options: InfiniteDatasourceOptions<T>
+): IDatasource {
+  // 블록 시작 행 → 커서
+  let cursors = new Map<number, string>();
+  let queryKey: string | null = null;
+
+  return {
+    getRows: async (params: IGetRowsParams) => {
+      // 정렬/필터가 바뀌면 기존 커서는 무효
+      const nextQueryKey = JSON.stringify([
+        params.sortModel,
+        params.filterModel,
+      ]);
+      if (nextQueryKey !== queryKey) {
+        queryKey = nextQueryKey;
+        cursors = new Map();
+      }
+      const requestKey = queryKey;
+
+      const request: InfiniteBlockRequest = {
+        startRow: params.startRow,
+        endRow: params.endRow,
+        blockSize: params.endRow - params.startRow,
+        cursor: cursors.get(params.startRow) ?? null,
+        sorts: toSortStates(params.sortModel),
+        filterModel: params.filterModel,
+      };
+
+      options.onBlockLoading?.(request);
+
+      try {
+        const result = await options.fetchBlock(request);
+
+        // 요청 사이에 정렬/필터가 바뀌지 않았을 때만 커서 저장
+        if (typeof result.nextCursor === "string" && requestKey === queryKey) {
+          cursors.set(request.startRow + result.data.length, result.nextCursor);
+        }
+
+        params.successCallback(result.data, resolveLastRow(request, result));
+        options.onBlockLoaded?.(request, result);
+      } catch (error) {
+        params.failCallback();
+        options.onBlockError?.(request, error);
+      }
+    },
+
+    destroy: () => {
+      cursors.clear();
+    },
+  };
+}
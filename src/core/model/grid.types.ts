@@ -9,6 +9,8 @@
  * 이 타입들은 서버 페이징, 정렬, 필터링 파라미터 생성에 활용됩니다.
  */
 
+import type { FilterOperator } from "./gridFilterOperators";
+
 // ========================================
 // Pagination Types
 // ========================================
@@ -57,20 +59,9 @@ export interface SortState {
 // ========================================
 
 /**
- * 필터 연산자
+ * 필터 연산자 (목록은 gridFilterOperators의 FILTER_OPERATORS)
  */
-export type FilterOperator =
-  | "eq"       // 같음
-  | "ne"       // 같지 않음
-  | "gt"       // 보다 큼
-  | "gte"      // 보다 크거나 같음
-  | "lt"       // 보다 작음
-  | "lte"      // 보다 작거나 같음
-  | "contains" // 포함
-  | "startsWith" // 시작
-  | "endsWith"   // 끝
-  | "in"       // 배열에 포함
-  | "between"; // 범위
+export type { FilterOperator };
 
 /**
  * 필터 상태
@@ -115,8 +106,22 @@ export interface GridDataResponse<T> {
   pageSize: number;
   /** 전체 페이지 수 */
   totalPages: number;
+  /**
+   * 커서 모드: 다음 페이지 커서 (마지막 페이지면 null)
+   * offset 모드 응답에는 포함되지 않습니다.
+   */
+  nextCursor?: string | null;
+  /** 커서 모드: 이전 페이지 커서 (첫 페이지면 null) */
+  prevCursor?: string | null;
 }
 
+/**
+ * 페이지네이션 방식
+ * - offset: page/pageSize 기반 (기본)
+ * - cursor: 정렬 컬럼 기반 keyset 페이지네이션 (대용량 무한 스크롤용)
+ */
+export type PaginationMode = "offset" | "cursor";
+
 // ========================================
 // Row Selection Types
 // ========================================
@@ -166,6 +171,78 @@ export interface RowChanges<T = Record<string, unknown>> {
   original: T;
 }
 
+// ========================================
+// Batch Save Types
+// ========================================
+
+/**
+ * 신규 행 (서버 저장 전 임시 rowId 보유)
+ */
+export interface AddedRow<T = Record<string, unknown>> {
+  /** 클라이언트 임시 행 ID (응답 결과 매칭용) */
+  rowId: string;
+  /** 행 데이터 */
+  data: Partial<T>;
+}
+
+/**
+ * 일괄 저장 요청
+ * POST /api/grid/:resource/batch 에 전달되며, 서버는 하나의 트랜잭션으로 처리합니다.
+ */
+export interface GridBatchRequest<T = Record<string, unknown>> {
+  /** 추가된 행 */
+  added?: AddedRow<T>[];
+  /** 수정된 행 (original은 동시 수정 충돌 검출에 사용) */
+  updated?: RowChanges<T>[];
+  /** 삭제된 행 ID */
+  deleted?: string[];
+}
+
+/**
+ * 필드 단위 저장 오류
+ */
+export interface GridFieldError {
+  /** 오류 필드 (행 전체 오류면 없음) */
+  field?: string;
+  /** 오류 코드 */
+  code: "REQUIRED" | "INVALID" | "CONFLICT" | "NOT_FOUND";
+  /** 사용자 표시용 메시지 */
+  message: string;
+}
+
+/**
+ * 행 단위 저장 결과
+ */
+export interface GridRowResult<T = Record<string, unknown>> {
+  /** 요청 시 전달한 rowId */
+  rowId: string;
+  /** 수행한 작업 */
+  operation: "add" | "update" | "delete";
+  /** 처리 결과 */
+  status: "success" | "error";
+  /** 서버에서 확정된 행 ID */
+  id?: string;
+  /** 저장된 행 데이터 */
+  data?: T;
+  /** 검증 오류 목록 */
+  errors?: GridFieldError[];
+}
+
+/**
+ * 일괄 저장 응답
+ * 하나라도 실패하면 success=false 이며 전체가 롤백됩니다.
+ */
+export interface GridBatchResponse<T = Record<string, unknown>> {
+  success: boolean;
+  results: GridRowResult<T>[];
+  summary: {
+    added: number;
+    updated: number;
+    deleted: number;
+    failed: number;
+  };
+}
+
 // ========================================
 // Status Types (for styling)
 // ========================================
@@ -0,0 +1,78 @@
+/**
+ * SoftOne Design System - Grid Filter Operators
+ * 작성: SoftOne Frontend Team
+ *
+ * 프론트엔드(gridUtils)와 backend-mock(gridQueryBuilder)이 공유하는 필터 연산자 목록과
+ * in / between 값 목록의 쿼리스트링 인코딩 규칙입니다.
+ * backend-mock(CommonJS)에서도 그대로 불러오므로 이 파일은 다른 모듈을 import하지 않습니다.
+ */
+
+/**
+ * 지원하는 필터 연산자 목록
+ */
+export const FILTER_OPERATORS = [
+  "eq", // 같음
+  "ne", // 같지 않음
+  "gt", // 보다 큼
+  "gte", // 보다 크거나 같음
+  "lt", // 보다 작음
+  "lte", // 보다 작거나 같음
+  "contains", // 포함
+  "startsWith", // 시작
+  "endsWith", // 끝
+  "in", // 배열에 포함
+  "between", // 범위
+] as const;
+
+/**
+ * 필터 연산자
+ */
+export type FilterOperator = (typeof FILTER_OPERATORS)[number];
+
+/**
+ * 값 목록을 사용하는 연산자 (in, between)
+ */
+export const LIST_FILTER_OPERATORS: readonly FilterOperator[] = [
+  "in",
+  "between",
+];
+
+/**
+ * in / between 값 목록을 쿼리스트링 값으로 인코딩
+ *
+ * 값에 콤마가 들어 있어도 깨지지 않도록 JSON 배열 문자열로 보냅니다.
+ *
+ * @example
+ * encodeFilterListValue(["서울, 강남", "부산"]); // '["서울, 강남","부산"]'
+ */
+export function encodeFilterListValue(values: readonly unknown[]): string {
+  return JSON.stringify(values.map((value) => String(value)));
+}
+
+/**
+ * in / between 쿼리스트링 값을 값 목록으로 디코딩 (encodeFilterListValue의 역변환)
+ *
+ * - JSON 배열 문자열이면 각 항목을 문자열로 반환합니다.
+ * - 그 외에는 기존 콤마 구분 형식("A,B")으로 해석합니다.
+ * - 빈 항목은 제외하므로 빈 값("")은 빈 배열이 됩니다.
+ */
+export function decodeFilterListValue(raw: string): string[] {
+  const trimmed = raw.trim();
+  if (trimmed.startsWith("[")) {
+    try {
+      const parsed: unknown = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) {
+        return parsed
+          .filter((value) => value !== null && value !== undefined)
+          .map((value) => String(value))
+          .filter((value) => value !== "");
+      }
+    } catch {
+      // JSON이 아니면 콤마 구분 형식으로 해석
+    }
+  }
+  return trimmed
+    .split(",")
+    .map((value) => value.trim())
+    .filter((value) => value !== "");
+}
@@ -0,0 +1,83 @@
+/**
+ * SoftOne Design System(SDS) - Dialog Deep Link
+ * 작성: SoftOne Frontend Team
+ *
+ * dialogStore 다이얼로그를 URL 쿼리 파라미터(?dialog=키:ID)로 표현합니다.
+ *   - deepLink 옵션을 켠 다이얼로그만 대상입니다. (opt-in)
+ *   - 키는 formKey(없으면 type), ID는 payload.id 입니다.
+ *     예) formKey "productDetail" + payload { id: "PRD-000001" } → ?dialog=productDetail:PRD-000001
+ *
+ * URL 동기화는 DialogUrlSync(DialogRoot에 포함), 다시 열기는 useDialogDeepLink가 담당합니다.
+ */
+
+import type { DialogOptions } from "../store/dialogStore";
+
+// ========================================
+// Types & Constants
+// ========================================
+
+export const DIALOG_QUERY_PARAM = "dialog";
+
+export interface DialogDeepLink {
+  /** formKey 또는 다이얼로그 type */
+  key: string;
+  /** payload ID (없으면 null) */
+  id: string | null;
+}
+
+// ========================================
+// Helpers
+// ========================================
+
+/** payload.id (문자열/숫자)만 사용 */
+function getPayloadId(payload: unknown): string | null {
+  if (typeof payload !== "object" || payload === null) return null;
+  const { id } = payload as { id?: unknown };
+  return typeof id === "string" || typeof id === "number" ? String(id) : null;
+}
+
+/**
+ * 다이얼로그의 쿼리 파라미터 값 (deepLink가 아니면 null)
+ */
+export function getDialogDeepLinkValue(dialog: DialogOptions): string | null {
+  if (!dialog.deepLink) return null;
+
+  const key = dialog.formKey ?? dialog.type;
+  const id = getPayloadId(dialog.payload);
+  return id === null ? key : `${key}:${id}`;
+}
+
+/**
+ * 쿼리 파라미터 값 해석 ("키" 또는 "키:ID")
+ */
+export function parseDialogDeepLink(
+  value: string | null
+): DialogDeepLink | null {
+  if (!value) return null;
+
+  const separatorIndex = value.indexOf(":");
+  if (separatorIndex < 0) return { key: value, id: null };
+  return {
+    key: value.slice(0, separatorIndex),
+    id: value.slice(separatorIndex + 1) || null,
+  };
+}
+
+/**
+ * 현재 경로에 다이얼로그 파라미터를 설정/제거한 href (다른 쿼리 파라미터는 유지)
+ */
+export function buildDialogHref(
+  pathname: string,
+  searchParams: URLSearchParams,
+  value: string | null
+): string {
+  const params = new URLSearchParams(searchParams);
+  if (value === null) {
+    params.delete(DIALOG_QUERY_PARAM);
+  } else {
+    params.set(DIALOG_QUERY_PARAM, value);
+  }
+
+  const search = params.toString();
+  return search ? `${pathname}?${search}` : pathname;
+}
@@ -6,6 +6,7 @@
 // Types
 export type {
   NavigationApi,
+  NavigateOptions,
   AppRouteMeta,
   RouteContext,
 } from "./navigation.types";
@@ -19,14 +20,41 @@ export {
   buildUrl,
 } from "./NavigationContext";
 
-// Route Configuration
+// Route Registry
 export {
-  routeConfig,
-  menuGroups,
-  findRouteByPath,
-  findRouteByKey,
-  getMenuRoutes,
-  getGroupedMenuRoutes,
-  getBreadcrumbs,
-  getFlatRoutes,
-} from "./routeConfig";
+  ROUTE_REGISTRY,
+  ROUTE_REDIRECTS,
+  HOME_ROUTE_KEY,
+  findRouteDefinition,
+  findRouteDefinitionByPath,
+  getPathByRouteKey,
+  getRouteKeyByPath,
+  getRedirectPath,
+  getRouteTrail,
+  buildMenuTree,
+  validateRouteRegistry,
+  type RouteDefinition,
+  type RouteMenuPlacement,
+  type RouteRedirect,
+  type RouteRegistryIssue,
+} from "./routeRegistry";
+
+// Route Loader
+export {
+  createRouteLoaderRunner,
+  getRouteParams,
+  type RouteLoader,
+  type RouteLoaderContext,
+  type RouteLoaderQuery,
+  type RouteLoaderRunner,
+  type RouteLoaderRunnerOptions,
+} from "./routeLoader";
+
+// Dialog Deep Link
+export {
+  DIALOG_QUERY_PARAM,
+  getDialogDeepLinkValue,
+  parseDialogDeepLink,
+  buildDialogHref,
+  type DialogDeepLink,
+} from "./dialogDeepLink";
@@ -16,6 +16,7 @@
 
 import type { LucideIcon } from "lucide-react";
 import type { PermissionKey } from "../auth/role.types";
+import type { TreeMoveRules } from "../utils/treeMoveUtils";
 
 // ========================================
 // Menu Node Types
@@ -303,3 +304,22 @@ export function sortMenuNodes(nodes: MenuNode[]): MenuNode[] {
       return node;
     });
 }
+
+// ========================================
+// Move Rules
+// ========================================
+
+/** 메뉴 트리 최대 깊이 (Category → Menu → Page/Menu → Page) */
+export const MAX_MENU_DEPTH = 4;
+
+/**
+ * 메뉴 노드 이동 규칙 (드래그 앤 드롭/키보드 이동)
+ *   - category는 Depth 1에만 둘 수 있습니다.
+ *   - 하위 노드는 category/menu만 가질 수 있습니다. (page/external 불가)
+ *   - 이동 후 하위 노드까지 포함한 깊이(getMaxMenuDepth)가 MAX_MENU_DEPTH 이하여야 합니다.
+ */
+export const MENU_NODE_MOVE_RULES: TreeMoveRules<MenuNode> = {
+  maxDepth: MAX_MENU_DEPTH,
+  canHaveChildren: (node) => node.type === "category" || node.type === "menu",
+  canPlaceAtDepth: (node, depth) => node.type !== "category" || depth === 1,
+};
@@ -0,0 +1,203 @@
+/**
+ * SoftOne Design System - Menu Access Utils Tests
+ * explainAccess 결정 추적, 화이트리스트 모드 테스트
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  computeAccessibleRouteKeys,
+  explainAccess,
+  type ExplainAccessContext,
+} from "./menuAccessUtils";
+import type { RouteDefinition } from "./routeRegistry";
+import type { MenuNode } from "./menu.types";
+import { createRole } from "../auth/roleRegistry";
+import { DEFAULT_PERMISSION_MATRIX, PERMISSION_KEYS } from "../auth/role.types";
+
+const routes: RouteDefinition[] = [
+  {
+    routeKey: "products.crud",
+    path: "/products",
+    label: "상품 관리",
+    requiredPermissions: [PERMISSION_KEYS.PAGE_PRODUCTS_VIEW],
+  },
+];
+
+const menuTree: MenuNode[] = [
+  {
+    id: "products",
+    type: "page",
+    label: "상품 관리",
+    routeKey: "products.crud",
+    requiredPermissions: [PERMISSION_KEYS.MENU_PRODUCTS_VIEW],
+  },
+];
+
+const createContext = (
+  overrides: Partial<ExplainAccessContext> = {}
+): ExplainAccessContext => ({
+  role: "STAFF",
+  grade: "JUNIOR",
+  userMenuPolicy: null,
+  routes,
+  menuTree,
+  ...overrides,
+});
+
+describe("explainAccess", () => {
+  it("상위 역할에서 상속한 권한은 상속 출처를 기록함", () => {
+    const matrix = createRole(DEFAULT_PERMISSION_MATRIX, {
+      key: "SALES_LEAD",
+      label: "영업 리더",
+      parentRole: "STAFF",
+    });
+    const explanation = explainAccess(
+      createContext({ role: "SALES_LEAD", matrix }),
+      PERMISSION_KEYS.MENU_DASHBOARD_VIEW
+    );
+
+    expect(explanation.granted).toBe(true);
+    expect(explanation.steps[0]).toMatchObject({
+      layer: "role",
+      effect: "grant",
+      source: "STAFF",
+    });
+  });
+
+  it("정책 차단 권한은 deny 단계로 기록하고 최종 결과와 일치함", () => {
+    const explanation = explainAccess(
+      createContext({
+        userMenuPolicy: {
+          userId: "4",
+          deniedPermissions: [PERMISSION_KEYS.MENU_DASHBOARD_VIEW],
+        },
+      }),
+      PERMISSION_KEYS.MENU_DASHBOARD_VIEW
+    );
+
+    expect(explanation.granted).toBe(false);
+    expect(explanation.steps.map((step) => step.effect)).toEqual([
+      "grant",
+      "skip",
+      "deny",
+    ]);
+  });
+
+  it("만료된 정책은 무시하고 만료 여부를 표시함", () => {
+    const explanation = explainAccess(
+      createContext({
+        userMenuPolicy: {
+          userId: "4",
+          allowedPermissions: [PERMISSION_KEYS.PAGE_PRODUCTS_VIEW],
+          expiresAt: "2000-01-01T00:00:00Z",
+        },
+      }),
+      PERMISSION_KEYS.PAGE_PRODUCTS_VIEW
+    );
+
+    expect(explanation.granted).toBe(false);
+    expect(explanation.steps).toContainEqual(
+      expect.objectContaining({ layer: "policy", expired: true })
+    );
+  });
+
+  it("routeKey는 부족한 권한과 메뉴 표시 여부를 함께 설명함", () => {
+    const denied = explainAccess(createContext(), "products.crud");
+
+    expect(denied.target.type).toBe("route");
+    expect(denied.granted).toBe(false);
+    expect(denied.visibleInMenu).toBe(false);
+    expect(denied.steps).toContainEqual(
+      expect.objectContaining({
+        layer: "route",
+        effect: "deny",
+        missingPermissions: [PERMISSION_KEYS.PAGE_PRODUCTS_VIEW],
+      })
+    );
+
+    const granted = explainAccess(
+      createContext({
+        userMenuPolicy: {
+          userId: "4",
+          allowedPermissions: [
+            PERMISSION_KEYS.PAGE_PRODUCTS_VIEW,
+            PERMISSION_KEYS.MENU_PRODUCTS_VIEW,
+          ],
+        },
+      }),
+      "products.crud"
+    );
+    expect(granted.granted).toBe(true);
+    expect(granted.visibleInMenu).toBe(true);
+  });
+
+  it("화이트리스트 모드에서 목록에 없는 routeKey는 차단 단계로 기록함", () => {
+    const explanation = explainAccess(
+      createContext({
+        role: "SYSTEM_ADMIN",
+        userMenuPolicy: { userId: "1", allowedRouteKeys: ["dashboard.main"] },
+      }),
+      "products.crud"
+    );
+
+    expect(explanation.granted).toBe(false);
+    expect(explanation.steps[0]).toMatchObject({
+      layer: "policy-route",
+      effect: "deny",
+    });
+  });
+});
+
+describe("computeAccessibleRouteKeys - 화이트리스트 모드", () => {
+  const whitelistRoutes: RouteDefinition[] = [
+    { routeKey: "a", path: "/a", label: "A" },
+    { routeKey: "b", path: "/b", label: "B" },
+  ];
+  // 09:00~18:00에만 유효한 항목
+  const businessHours = { timeFrom: "09:00", timeUntil: "18:00" };
+
+  it("시간대 밖에서도 화이트리스트 모드를 유지함", () => {
+    const policy = {
+      userId: "4",
+      allowedRouteKeys: [{ key: "a" }, { key: "b", ...businessHours }],
+    };
+
+    expect(
+      computeAccessibleRouteKeys(
+        whitelistRoutes,
+        [],
+        policy,
+        new Date(2024, 0, 1, 10)
+      )
+    ).toEqual(["a", "b"]);
+    expect(
+      computeAccessibleRouteKeys(
+        whitelistRoutes,
+        [],
+        policy,
+        new Date(2024, 0, 1, 22)
+      )
+    ).toEqual(["a"]);
+  });
+
+  it("모든 항목이 만료되면 접근 가능한 라우트가 없음", () => {
+    const policy = {
+      userId: "4",
+      allowedRouteKeys: [
+        { key: "a", validUntil: "2000-01-01T00:00:00Z" },
+        { key: "b", ...businessHours },
+      ],
+    };
+    const now = new Date(2024, 0, 1, 22);
+
+    expect(
+      computeAccessibleRouteKeys(whitelistRoutes, [], policy, now)
+    ).toEqual([]);
+    expect(
+      explainAccess(
+        createContext({ routes: whitelistRoutes, userMenuPolicy: policy, now }),
+        "a"
+      ).steps[0]
+    ).toMatchObject({ layer: "policy-route", effect: "deny" });
+  });
+});
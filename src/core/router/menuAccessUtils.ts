@@ -7,12 +7,37 @@
  *
  * 이 함수는 Role/Grade 기반 권한 + User Menu Policy를 통합하여,
  * 실제로 렌더링 가능한 메뉴 트리와 접근 가능한 routeKey 목록을 계산하는 핵심 엔진입니다.
+ *
+ * explainAccess()는 같은 계산 과정을 단계별로 기록하여
+ * "이 사용자가 왜 X를 볼 수 있는지/없는지"를 설명하는 결정 추적(trace)을 반환합니다.
  */
 
-import type { PermissionKey } from "../auth/role.types";
+import {
+  computePermissions,
+  DEFAULT_PERMISSION_MATRIX,
+  isValidPermissionKey,
+  resolveRoleChain,
+  RoleInheritanceCycleError,
+  type Grade,
+  type PermissionKey,
+  type PermissionMatrix,
+  type Role,
+} from "../auth/role.types";
 import type { UserMenuPolicy } from "../auth/userMenuPolicy.types";
-import { isUserMenuPolicyActive } from "../auth/userMenuPolicy.types";
-import type { AppRouteMeta } from "./routeConfig";
+import {
+  findPolicyEntry,
+  getActivePolicyEntryKeys,
+  isPolicyEntryActive,
+  isPolicyEntryExpired,
+  isUserMenuPolicyActive,
+  isUserMenuPolicyExpired,
+  systemClock,
+  type UserMenuPolicyEntry,
+} from "../auth/userMenuPolicy.types";
+import {
+  findRouteDefinitionByPath,
+  type RouteDefinition,
+} from "./routeRegistry";
 import type {
   MenuNode,
   CategoryMenuNode,
@@ -34,14 +59,16 @@ import {
  * buildAccessContext 함수의 입력 인자
  */
 export interface BuildAccessContextArgs {
-  /** 라우트 설정 배열 (routeConfig) */
-  routes: AppRouteMeta[];
+  /** 라우트 레지스트리 (ROUTE_REGISTRY) */
+  routes: RouteDefinition[];
   /** 메뉴 트리 (menuTree) */
   menuTree: MenuNode[];
   /** Role/Grade 기반 기본 권한 */
   basePermissions: PermissionKey[];
   /** 사용자별 메뉴 정책 (없으면 null) */
   userMenuPolicy: UserMenuPolicy | null;
+  /** 정책 유효 기간 평가 기준 시각 (기본: 현재 시각) */
+  now?: Date;
 }
 
 /**
@@ -58,6 +85,75 @@ export interface AccessContext {
   defaultLandingRouteKey: string | null;
 }
 
+/**
+ * explainAccess 함수의 사용자 컨텍스트
+ */
+export interface ExplainAccessContext {
+  role: Role | null;
+  grade: Grade | null;
+  /** 사용자별 메뉴 정책 (없으면 null) */
+  userMenuPolicy: UserMenuPolicy | null;
+  /** 적용할 권한 매트릭스 (기본: DEFAULT_PERMISSION_MATRIX) */
+  matrix?: PermissionMatrix;
+  /** 라우트 레지스트리 (ROUTE_REGISTRY) */
+  routes: RouteDefinition[];
+  /** 메뉴 트리 (menuTree) */
+  menuTree: MenuNode[];
+  /** 정책 유효 기간 평가 기준 시각 (기본: 현재 시각) */
+  now?: Date;
+}
+
+/**
+ * 결정 단계가 속한 계층
+ * - role / grade: Role 기본 권한(상속 포함) / 직급 보정
+ * - policy: UserMenuPolicy 상태 (없음/비활성/만료)
+ * - policy-permission: deniedPermissions / allowedPermissions
+ * - policy-route: deniedRouteKeys / allowedRouteKeys(화이트리스트)
+ * - route: routes의 requiredPermissions
+ * - menu: 메뉴 노드 숨김/requiredPermissions (사이드바 표시 여부)
+ */
+export type AccessDecisionLayer =
+  | "role"
+  | "grade"
+  | "policy"
+  | "policy-permission"
+  | "policy-route"
+  | "route"
+  | "menu";
+
+/** 단계 결과: 허용 / 차단 / 해당 없음(다음 단계로) */
+export type AccessDecisionEffect = "grant" | "deny" | "skip";
+
+/**
+ * 결정 추적의 한 단계
+ */
+export interface AccessDecisionStep {
+  layer: AccessDecisionLayer;
+  effect: AccessDecisionEffect;
+  /** 사람이 읽을 수 있는 설명 */
+  message: string;
+  /** 결정을 내린 출처 (역할 키, 직급, 정책 사용자 ID, routeKey 등) */
+  source?: string;
+  /** 정책 또는 정책 항목의 유효 기간이 지나 무시된 경우 true */
+  expired?: boolean;
+  /** 충족하지 못한 권한 목록 (route/menu 계층) */
+  missingPermissions?: PermissionKey[];
+}
+
+/**
+ * explainAccess 반환 타입
+ */
+export interface AccessExplanation {
+  /** 설명 대상 (PermissionKey 또는 routeKey) */
+  target: { type: "permission" | "route"; key: string };
+  /** 최종 허용 여부 (permission: 최종 권한 포함, route: 접근 가능 routeKey 포함) */
+  granted: boolean;
+  /** 메뉴(사이드바)에 표시되는지 여부 (route 대상만) */
+  visibleInMenu?: boolean;
+  /** 평가 순서대로 기록된 결정 단계 */
+  steps: AccessDecisionStep[];
+}
+
 // ========================================
 // Permission Computation
 // ========================================
@@ -68,18 +164,27 @@ export interface AccessContext {
  * 우선순위:
  * 1. basePermissions에서 deniedPermissions 제거
  * 2. allowedPermissions 추가
+ *
+ * 유효 기간/시간대 밖의 항목은 무시합니다.
+ *
+ * @param now 평가 기준 시각 (기본: 현재 시각)
  */
 export function computeFinalPermissions(
   basePermissions: PermissionKey[],
-  userMenuPolicy: UserMenuPolicy | null
+  userMenuPolicy: UserMenuPolicy | null,
+  now: Date = systemClock()
 ): PermissionKey[] {
   // 정책이 없거나 비활성화 상태면 기본 권한 그대로 반환
-  if (!userMenuPolicy || !isUserMenuPolicyActive(userMenuPolicy)) {
+  if (!userMenuPolicy || !isUserMenuPolicyActive(userMenuPolicy, now)) {
     return [...basePermissions];
   }
 
-  const deniedSet = new Set(userMenuPolicy.deniedPermissions || []);
-  const allowedSet = new Set(userMenuPolicy.allowedPermissions || []);
+  const deniedSet = new Set(
+    getActivePolicyEntryKeys(userMenuPolicy.deniedPermissions, now)
+  );
+  const allowedSet = new Set(
+    getActivePolicyEntryKeys(userMenuPolicy.allowedPermissions, now)
+  );
 
   // 1. basePermissions에서 denied 제외
   let result = basePermissions.filter((p) => !deniedSet.has(p));
@@ -100,84 +205,46 @@ export function computeFinalPermissions(
  * @param routes 라우트 설정 배열
  * @param finalPermissions 최종 권한 목록
  * @param userMenuPolicy 사용자 메뉴 정책
+ * @param now 정책 항목 유효 기간 평가 기준 시각 (기본: 현재 시각)
  */
 export function computeAccessibleRouteKeys(
-  routes: AppRouteMeta[],
+  routes: RouteDefinition[],
   finalPermissions: PermissionKey[],
-  userMenuPolicy: UserMenuPolicy | null
+  userMenuPolicy: UserMenuPolicy | null,
+  now: Date = systemClock()
 ): string[] {
   const accessibleKeys: string[] = [];
   const permissionSet = new Set(finalPermissions);
 
   // 정책 활성화 여부
   const isPolicyActive =
-    userMenuPolicy && isUserMenuPolicyActive(userMenuPolicy);
+    userMenuPolicy && isUserMenuPolicyActive(userMenuPolicy, now);
 
-  // 화이트리스트 모드 체크
-  const useWhitelist =
-    isPolicyActive &&
-    userMenuPolicy.allowedRouteKeys &&
-    userMenuPolicy.allowedRouteKeys.length > 0;
-  const whitelistSet = useWhitelist
-    ? new Set(userMenuPolicy.allowedRouteKeys)
-    : null;
+  // 화이트리스트 모드 체크 (항목이 설정되어 있으면 모드 활성화,
+  // 허용 여부는 현재 유효한 항목으로 판단 → 모두 만료되면 접근 가능한 라우트 없음)
+  const whitelistSet =
+    isPolicyActive && (userMenuPolicy.allowedRouteKeys?.length ?? 0) > 0
+      ? new Set(getActivePolicyEntryKeys(userMenuPolicy.allowedRouteKeys, now))
+      : null;
 
   // 블랙리스트
   const blacklistSet = isPolicyActive
-    ? new Set(userMenuPolicy.deniedRouteKeys || [])
+    ? new Set(getActivePolicyEntryKeys(userMenuPolicy.deniedRouteKeys, now))
     : new Set<string>();
 
-  // 재귀적으로 라우트 순회
-  function processRoute(route: AppRouteMeta) {
-    // routeKey가 있는 경우만 처리
-    const routeKey = (route as { routeKey?: string }).routeKey;
+  for (const { routeKey, requiredPermissions = [] } of routes) {
+    // 1. 블랙리스트에 있으면 접근 불가
+    if (blacklistSet.has(routeKey)) continue;
 
-    if (routeKey) {
-      // 1. 블랙리스트 체크
-      if (blacklistSet.has(routeKey)) {
-        // 블랙리스트에 있으면 접근 불가
-      }
-      // 2. 화이트리스트 모드일 때
-      else if (whitelistSet) {
-        if (whitelistSet.has(routeKey)) {
-          // 화이트리스트에 있고, 권한도 만족하면 접근 가능
-          const requiredPerms =
-            (route as { requiredPermissions?: PermissionKey[] })
-              .requiredPermissions || [];
-          const hasAllPerms =
-            requiredPerms.length === 0 ||
-            requiredPerms.every((p) => permissionSet.has(p));
-          if (hasAllPerms) {
-            accessibleKeys.push(routeKey);
-          }
-        }
-      }
-      // 3. 일반 모드 (권한 기반)
-      else {
-        const requiredPerms =
-          (route as { requiredPermissions?: PermissionKey[] })
-            .requiredPermissions || [];
-        const hasAllPerms =
-          requiredPerms.length === 0 ||
-          requiredPerms.every((p) => permissionSet.has(p));
-        if (hasAllPerms) {
-          accessibleKeys.push(routeKey);
-        }
-      }
-    }
+    // 2. 화이트리스트 모드일 때는 목록에 있어야 함
+    if (whitelistSet && !whitelistSet.has(routeKey)) continue;
 
-    // 자식 라우트 처리
-    if (route.children) {
-      for (const child of route.children) {
-        processRoute(child);
-      }
+    // 3. 라우트 필요 권한 충족 여부
+    if (requiredPermissions.every((p) => permissionSet.has(p))) {
+      accessibleKeys.push(routeKey);
     }
   }
 
-  for (const route of routes) {
-    processRoute(route);
-  }
-
   return accessibleKeys;
 }
 
@@ -286,7 +353,7 @@ export function filterMenuTree(
  * @example
  * ```ts
  * const context = buildAccessContext({
- *   routes: routeConfig,
+ *   routes: ROUTE_REGISTRY,
  *   menuTree: menuTree,
  *   basePermissions: computePermissions(role, grade),
  *   userMenuPolicy: policy,
@@ -304,19 +371,27 @@ export function filterMenuTree(
 export function buildAccessContext(
   args: BuildAccessContextArgs
 ): AccessContext {
-  const { routes, menuTree, basePermissions, userMenuPolicy } = args;
+  const {
+    routes,
+    menuTree,
+    basePermissions,
+    userMenuPolicy,
+    now = systemClock(),
+  } = args;
 
   // 1. 최종 권한 계산
   const finalPermissions = computeFinalPermissions(
     basePermissions,
-    userMenuPolicy
+    userMenuPolicy,
+    now
   );
 
   // 2. 접근 가능한 routeKey 계산
   const accessibleRouteKeys = computeAccessibleRouteKeys(
     routes,
     finalPermissions,
-    userMenuPolicy
+    userMenuPolicy,
+    now
   );
 
   // 3. 메뉴 트리 필터링
@@ -367,47 +442,20 @@ export function isRouteKeyAccessible(
  * routeKey로 path를 찾습니다.
  */
 export function getPathByRouteKey(
-  routes: AppRouteMeta[],
+  routes: RouteDefinition[],
   routeKey: string
 ): string | null {
-  function findPath(routeList: AppRouteMeta[]): string | null {
-    for (const route of routeList) {
-      const rKey = (route as { routeKey?: string }).routeKey;
-      if (rKey === routeKey) {
-        return route.path;
-      }
-      if (route.children) {
-        const childPath = findPath(route.children);
-        if (childPath) return childPath;
-      }
-    }
-    return null;
-  }
-
-  return findPath(routes);
+  return routes.find((route) => route.routeKey === routeKey)?.path ?? null;
 }
 
 /**
- * path로 routeKey를 찾습니다.
+ * path로 routeKey를 찾습니다. (동적 세그먼트 포함, 예: /users/42 → users.detail)
  */
 export function getRouteKeyByPath(
-  routes: AppRouteMeta[],
+  routes: RouteDefinition[],
   path: string
 ): string | null {
-  function findRouteKey(routeList: AppRouteMeta[]): string | null {
-    for (const route of routeList) {
-      if (route.path === path) {
-        return (route as { routeKey?: string }).routeKey || null;
-      }
-      if (route.children) {
-        const childKey = findRouteKey(route.children);
-        if (childKey) return childKey;
-      }
-    }
-    return null;
-  }
-
-  return findRouteKey(routes);
+  return findRouteDefinitionByPath(path, routes)?.routeKey ?? null;
 }
 
 /**
@@ -442,7 +490,7 @@ export function findFirstAccessibleRouteKey(
  */
 export function determineLandingPath(
   context: AccessContext,
-  routes: AppRouteMeta[],
+  routes: RouteDefinition[],
   fallbackPath: string = "/forbidden"
 ): string {
   if (context.defaultLandingRouteKey) {
@@ -460,3 +508,369 @@ export function determineLandingPath(
   // 접근 가능한 페이지가 없으면 fallback
   return fallbackPath;
 }
+
+// ========================================
+// Access Explanation
+// ========================================
+
+/**
+ * UserMenuPolicy 상태 단계 (없음/비활성/만료/적용)
+ *
+ * @returns 정책이 적용되면 true
+ */
+function explainPolicyState(
+  policy: UserMenuPolicy | null,
+  now: Date,
+  steps: AccessDecisionStep[]
+): policy is UserMenuPolicy {
+  if (!policy) {
+    steps.push({
+      layer: "policy",
+      effect: "skip",
+      message: "사용자 메뉴 정책이 없습니다.",
+    });
+    return false;
+  }
+  if (policy.isActive === false) {
+    steps.push({
+      layer: "policy",
+      effect: "skip",
+      message: "사용자 메뉴 정책이 비활성화되어 무시됩니다.",
+      source: policy.userId,
+    });
+    return false;
+  }
+  if (isUserMenuPolicyExpired(policy, now)) {
+    steps.push({
+      layer: "policy",
+      effect: "skip",
+      message: `사용자 메뉴 정책이 만료되어 무시됩니다. (만료: ${policy.expiresAt})`,
+      source: policy.userId,
+      expired: true,
+    });
+    return false;
+  }
+  return isUserMenuPolicyActive(policy, now);
+}
+
+/**
+ * 정책 목록 항목 단계
+ * 항목이 유효 기간/시간대 밖이면 skip 단계로 기록합니다.
+ *
+ * @returns 항목이 현재 유효하면 true
+ */
+function explainPolicyEntry<K extends string>(
+  entries: UserMenuPolicyEntry<K>[] | undefined,
+  key: K,
+  now: Date,
+  step: AccessDecisionStep,
+  steps: AccessDecisionStep[]
+): boolean {
+  const entry = findPolicyEntry(entries, key);
+  if (!entry) return false;
+
+  if (!isPolicyEntryActive(entry, now)) {
+    const expired = isPolicyEntryExpired(entry, now);
+    steps.push({
+      ...step,
+      effect: "skip",
+      message: `${step.message} (${
+        expired ? "유효 기간 만료" : "유효 기간/시간대 외"
+      }로 무시됨)`,
+      expired: expired || undefined,
+    });
+    return false;
+  }
+
+  steps.push(step);
+  return true;
+}
+
+/**
+ * 권한 키 하나에 대한 Role → Grade → UserMenuPolicy 단계
+ * (computePermissions + computeFinalPermissions와 같은 순서)
+ */
+function explainPermissionSteps(
+  context: ExplainAccessContext,
+  permissionKey: PermissionKey
+): AccessDecisionStep[] {
+  const { role, grade, userMenuPolicy, now = systemClock() } = context;
+  const matrix = context.matrix ?? DEFAULT_PERMISSION_MATRIX;
+  const steps: AccessDecisionStep[] = [];
+
+  // 1. Role (상위 역할 상속 포함)
+  if (!role) {
+    steps.push({
+      layer: "role",
+      effect: "skip",
+      message: "역할이 지정되지 않았습니다.",
+    });
+  } else {
+    let chain: Role[];
+    try {
+      chain = resolveRoleChain(role, matrix.roles);
+    } catch (error) {
+      if (!(error instanceof RoleInheritanceCycleError)) throw error;
+      chain = error.cycle.slice(0, -1);
+    }
+
+    const grantingRole = chain.find((key) =>
+      (matrix.rolePermissions[key] || []).includes(permissionKey)
+    );
+    steps.push(
+      grantingRole
+        ? {
+            layer: "role",
+            effect: "grant",
+            message:
+              grantingRole === role
+                ? `역할 ${role}에 부여된 권한입니다.`
+                : `상위 역할 ${grantingRole}에서 상속한 권한입니다.`,
+            source: grantingRole,
+          }
+        : {
+            layer: "role",
+            effect: "skip",
+            message: `역할 ${chain.join(" → ")}에 부여되지 않은 권한입니다.`,
+            source: role,
+          }
+    );
+  }
+
+  // 2. Grade 보정
+  if (grade) {
+    const boosted = (matrix.gradePermissionBoost[grade] || []).includes(
+      permissionKey
+    );
+    steps.push({
+      layer: "grade",
+      effect: boosted ? "grant" : "skip",
+      message: boosted
+        ? `직급 ${grade}의 보정 권한입니다.`
+        : `직급 ${grade}의 보정 권한에 포함되지 않습니다.`,
+      source: grade,
+    });
+  }
+
+  // 3. UserMenuPolicy (denied 제거 후 allowed 추가)
+  if (explainPolicyState(userMenuPolicy, now, steps)) {
+    explainPolicyEntry(
+      userMenuPolicy.deniedPermissions,
+      permissionKey,
+      now,
+      {
+        layer: "policy-permission",
+        effect: "deny",
+        message: "사용자 정책의 차단 권한(deniedPermissions)에 포함됩니다.",
+        source: userMenuPolicy.userId,
+      },
+      steps
+    );
+    explainPolicyEntry(
+      userMenuPolicy.allowedPermissions,
+      permissionKey,
+      now,
+      {
+        layer: "policy-permission",
+        effect: "grant",
+        message:
+          "사용자 정책의 추가 허용 권한(allowedPermissions)에 포함됩니다.",
+        source: userMenuPolicy.userId,
+      },
+      steps
+    );
+  }
+
+  return steps;
+}
+
+/**
+ * 메뉴 트리에서 routeKey까지의 노드 경로를 찾습니다.
+ */
+function findMenuPath(nodes: MenuNode[], routeKey: string): MenuNode[] | null {
+  for (const node of nodes) {
+    const nodeRouteKey =
+      isPageNode(node) || isMenuGroupNode(node) ? node.routeKey : undefined;
+    if (nodeRouteKey === routeKey) return [node];
+
+    if (hasChildren(node)) {
+      const childPath = findMenuPath(node.children!, routeKey);
+      if (childPath) return [node, ...childPath];
+    }
+  }
+  return null;
+}
+
+/**
+ * routeKey 하나에 대한 UserMenuPolicy(route) → routes → menu 단계
+ * (computeAccessibleRouteKeys + filterMenuTree와 같은 순서)
+ */
+function explainRouteSteps(
+  context: ExplainAccessContext,
+  routeKey: string,
+  finalPermissions: PermissionKey[]
+): AccessDecisionStep[] {
+  const { userMenuPolicy, routes, menuTree, now = systemClock() } = context;
+  const permissionSet = new Set(finalPermissions);
+  const steps: AccessDecisionStep[] = [];
+
+  // 1. UserMenuPolicy 블랙리스트 / 화이트리스트
+  if (explainPolicyState(userMenuPolicy, now, steps)) {
+    const isWhitelistMode = (userMenuPolicy.allowedRouteKeys?.length ?? 0) > 0;
+    const whitelist = getActivePolicyEntryKeys(
+      userMenuPolicy.allowedRouteKeys,
+      now
+    );
+    const denied = explainPolicyEntry(
+      userMenuPolicy.deniedRouteKeys,
+      routeKey,
+      now,
+      {
+        layer: "policy-route",
+        effect: "deny",
+        message: "사용자 정책의 차단 라우트(deniedRouteKeys)에 포함됩니다.",
+        source: userMenuPolicy.userId,
+      },
+      steps
+    );
+    if (!denied && isWhitelistMode) {
+      const listed = whitelist.includes(routeKey);
+      steps.push({
+        layer: "policy-route",
+        effect: listed ? "grant" : "deny",
+        message: listed
+          ? "화이트리스트 모드: 허용 라우트(allowedRouteKeys)에 포함됩니다."
+          : "화이트리스트 모드: 허용 라우트(allowedRouteKeys)에 포함되지 않습니다.",
+        source: userMenuPolicy.userId,
+      });
+    }
+  }
+
+  // 2. 라우트 requiredPermissions
+  const route = routes.find((r) => r.routeKey === routeKey);
+  if (!route) {
+    steps.push({
+      layer: "route",
+      effect: "deny",
+      message: "라우트 레지스트리에 등록되지 않은 routeKey입니다.",
+      source: routeKey,
+    });
+  } else {
+    const missing = (route.requiredPermissions ?? []).filter(
+      (p) => !permissionSet.has(p)
+    );
+    steps.push({
+      layer: "route",
+      effect: missing.length === 0 ? "grant" : "deny",
+      message:
+        missing.length === 0
+          ? `라우트 ${route.path}의 필요 권한을 모두 충족합니다.`
+          : `라우트 ${route.path}의 필요 권한이 부족합니다.`,
+      source: routeKey,
+      missingPermissions: missing.length > 0 ? missing : undefined,
+    });
+  }
+
+  // 3. 메뉴 노드 (사이드바 표시 여부)
+  const menuPath = findMenuPath(menuTree, routeKey);
+  if (!menuPath) {
+    steps.push({
+      layer: "menu",
+      effect: "skip",
+      message: "메뉴 트리에 없는 routeKey입니다.",
+      source: routeKey,
+    });
+  } else {
+    const hiddenNode = menuPath.find((node) => node.hidden);
+    const missing = [
+      ...new Set(menuPath.flatMap((node) => node.requiredPermissions || [])),
+    ].filter((p) => !permissionSet.has(p));
+
+    steps.push(
+      hiddenNode
+        ? {
+            layer: "menu",
+            effect: "deny",
+            message: `메뉴 노드 ${hiddenNode.id}가 숨김 처리되어 있습니다.`,
+            source: hiddenNode.id,
+          }
+        : {
+            layer: "menu",
+            effect: missing.length === 0 ? "grant" : "deny",
+            message:
+              missing.length === 0
+                ? "메뉴 노드의 필요 권한을 모두 충족합니다."
+                : "메뉴 노드의 필요 권한이 부족합니다.",
+            source: menuPath[menuPath.length - 1].id,
+            missingPermissions: missing.length > 0 ? missing : undefined,
+          }
+    );
+  }
+
+  return steps;
+}
+
+/**
+ * 사용자가 특정 PermissionKey 또는 routeKey에 접근할 수 있는지,
+ * 어떤 계층이 허용/차단했는지를 평가 순서대로 설명합니다.
+ *
+ * 최종 결과(granted)는 buildAccessContext와 같은 함수로 계산하므로
+ * 실제 화면의 권한 판정과 항상 일치합니다.
+ *
+ * @param target PermissionKey 형식이면 권한, 아니면 routeKey로 해석
+ *
+ * @example
+ * ```ts
+ * const explanation = explainAccess(
+ *   { role: "STAFF", grade: "JUNIOR", userMenuPolicy, routes: ROUTE_REGISTRY, menuTree },
+ *   "products.crud"
+ * );
+ * explanation.steps.forEach((step) => console.log(step.layer, step.message));
+ * ```
+ */
+export function explainAccess(
+  context: ExplainAccessContext,
+  target: PermissionKey | string
+): AccessExplanation {
+  const {
+    role,
+    grade,
+    userMenuPolicy,
+    routes,
+    menuTree,
+    now = systemClock(),
+  } = context;
+  const basePermissions = computePermissions(role, grade, context.matrix);
+  const finalPermissions = computeFinalPermissions(
+    basePermissions,
+    userMenuPolicy,
+    now
+  );
+
+  if (isValidPermissionKey(target)) {
+    return {
+      target: { type: "permission", key: target },
+      granted: finalPermissions.includes(target),
+      steps: explainPermissionSteps({ ...context, now }, target),
+    };
+  }
+
+  const accessibleRouteKeys = computeAccessibleRouteKeys(
+    routes,
+    finalPermissions,
+    userMenuPolicy,
+    now
+  );
+  const filteredMenuTree = filterMenuTree(
+    menuTree,
+    accessibleRouteKeys,
+    finalPermissions
+  );
+
+  return {
+    target: { type: "route", key: target },
+    granted: accessibleRouteKeys.includes(target),
+    visibleInMenu: findMenuPath(filteredMenuTree, target) !== null,
+    steps: explainRouteSteps({ ...context, now }, target, finalPermissions),
+  };
+}
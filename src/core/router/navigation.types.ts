@@ -6,6 +6,14 @@
  * 이 인터페이스를 통해 라우팅 기능을 사용합니다.
  */
 
+/**
+ * push/replace 옵션
+ */
+export interface NavigateOptions {
+  /** 이동 후 맨 위로 스크롤 (기본: true, 쿼리 파라미터만 바꿀 때는 false) */
+  scroll?: boolean;
+}
+
 /**
  * Navigation API 인터페이스
  * SPA Shell에서는 React Router로, Next Shell에서는 next/navigation으로 구현
@@ -14,14 +22,16 @@ export interface NavigationApi {
   /**
    * 새 경로로 이동 (history push)
    * @param path 이동할 경로
+   * @param options 이동 옵션
    */
-  push(path: string): void;
+  push(path: string, options?: NavigateOptions): void;
 
   /**
    * 현재 경로를 대체 (history replace)
    * @param path 대체할 경로
+   * @param options 이동 옵션
    */
-  replace(path: string): void;
+  replace(path: string, options?: NavigateOptions): void;
 
   /**
    * 뒤로 가기
@@ -46,7 +56,9 @@ export interface NavigationApi {
   getQueryParams(): URLSearchParams;
 
   /**
-   * 경로 프리페치 (Next.js Shell에서 사용)
+   * 경로 프리페치
+   * SPA Shell은 라우트 로더(routeLoader.ts)로 화면 데이터를 미리 불러오고,
+   * Next Shell은 router.prefetch를 사용합니다. SDSLink가 hover/focus 시 호출합니다.
    * @param path 프리페치할 경로
    */
   prefetch?(path: string): void;
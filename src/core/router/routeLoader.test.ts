@@ -0,0 +1,126 @@
+/**
+ * SoftOne Design System - Route Loader Tests
+ * 로더 실행(프리페치), 권한 확인, 이동 후 프리페치 취소 테스트
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { QueryClient, QueryObserver } from "@tanstack/react-query";
+import { createRouteLoaderRunner, getRouteParams } from "./routeLoader";
+import type { RouteDefinition } from "./routeRegistry";
+
+const routes: RouteDefinition[] = [
+  { routeKey: "sample.list", path: "/samples", label: "샘플 목록" },
+  { routeKey: "sample.detail", path: "/samples/:id", label: "샘플 상세" },
+  { routeKey: "sample.blocked", path: "/blocked", label: "차단" },
+];
+
+/** resolve를 직접 호출할 때까지 끝나지 않는 요청 */
+function createDeferredFetch() {
+  let resolve: (value: string) => void = () => undefined;
+  const queryFn = vi.fn(
+    () =>
+      new Promise<string>((res) => {
+        resolve = res;
+      })
+  );
+  return { queryFn, resolve: (value: string) => resolve(value) };
+}
+
+function setup() {
+  // 앱 queryClient처럼 staleTime이 있어야 신선한 데이터를 다시 요청하지 않음
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { staleTime: 60_000 } },
+  });
+  const list = createDeferredFetch();
+  const detailFn = vi.fn(async () => "detail");
+  const blockedFn = vi.fn(async () => "blocked");
+
+  const runner = createRouteLoaderRunner({
+    queryClient,
+    routes,
+    canAccessRoute: (routeKey) => routeKey !== "sample.blocked",
+    loaders: {
+      "sample.list": ({ searchParams }) => [
+        {
+          queryKey: ["samples", searchParams.get("page") ?? "1"],
+          queryFn: list.queryFn,
+        },
+      ],
+      "sample.detail": ({ params }) => [
+        { queryKey: ["samples", "detail", params.id], queryFn: detailFn },
+      ],
+      "sample.blocked": () => [{ queryKey: ["blocked"], queryFn: blockedFn }],
+    },
+  });
+
+  return { queryClient, runner, list, detailFn, blockedFn };
+}
+
+describe("routeLoader", () => {
+  it("경로 파라미터를 추출한다", () => {
+    expect(getRouteParams("/samples/:id", "/samples/a%20b")).toEqual({
+      id: "a b",
+    });
+  });
+
+  it("경로 파라미터/쿼리로 로더를 실행해 queryClient를 채운다", async () => {
+    const { queryClient, runner, detailFn } = setup();
+
+    await runner.load("/samples/42?tab=info");
+    await runner.load("/samples/42");
+
+    expect(detailFn).toHaveBeenCalledTimes(1);
+    expect(queryClient.getQueryData(["samples", "detail", "42"])).toBe(
+      "detail"
+    );
+  });
+
+  it("접근할 수 없는 화면과 외부 링크는 불러오지 않는다", async () => {
+    const { runner, blockedFn } = setup();
+
+    await runner.load("/blocked");
+    await runner.load("https://example.com/blocked");
+
+    expect(blockedFn).not.toHaveBeenCalled();
+  });
+
+  it("다른 화면으로 이동하면 진행 중인 프리페치를 취소한다", async () => {
+    const { queryClient, runner, list } = setup();
+
+    void runner.load("/samples?page=2");
+    expect(queryClient.getQueryState(["samples", "2"])?.fetchStatus).toBe(
+      "fetching"
+    );
+
+    runner.cancelStale("/samples/1");
+    await vi.waitFor(() =>
+      expect(queryClient.getQueryState(["samples", "2"])?.fetchStatus).toBe(
+        "idle"
+      )
+    );
+
+    list.resolve("late");
+    await Promise.resolve();
+    expect(queryClient.getQueryData(["samples", "2"])).toBeUndefined();
+  });
+
+  it("이동한 화면의 요청과 화면에서 사용 중인 요청은 취소하지 않는다", () => {
+    const { queryClient, runner } = setup();
+
+    void runner.load("/samples?page=2");
+    runner.cancelStale("/samples?page=2");
+    expect(queryClient.getQueryState(["samples", "2"])?.fetchStatus).toBe(
+      "fetching"
+    );
+
+    const observer = new QueryObserver(queryClient, {
+      queryKey: ["samples", "2"],
+    });
+    const unsubscribe = observer.subscribe(() => undefined);
+    runner.cancelStale("/samples/1");
+    expect(queryClient.getQueryState(["samples", "2"])?.fetchStatus).toBe(
+      "fetching"
+    );
+    unsubscribe();
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * SoftOne Design System(SDS) - Route Loader
+ * 작성: SoftOne Frontend Team
+ *
+ * 화면이 마운트되기 전에 데이터를 미리 불러오는 라우트 로더입니다.
+ *   - 로더는 화면이 사용하는 Query(queryKey + queryFn) 목록을 반환합니다.
+ *     페이지의 useQuery와 같은 queryKey를 사용해야 캐시를 그대로 사용합니다.
+ *   - 이동할 때와 SDSLink에 마우스를 올렸을 때 NavigationApi.prefetch로 실행되어
+ *     queryClient를 미리 채우므로, 화면은 로딩 없이 바로 데이터를 표시합니다.
+ *   - 다른 화면으로 이동하면 아직 끝나지 않았고 화면에서 사용하지 않는 프리페치는 취소됩니다.
+ *
+ * 로더는 Feature의 API 모듈에 두고, Shell(shells/spa/routeLoaders.ts)에서 routeKey로 연결합니다.
+ * (Core는 Feature에 의존하지 않음 - 페이지 컴포넌트 연결과 같은 방식)
+ */
+
+import {
+  hashKey,
+  type QueryClient,
+  type QueryFunction,
+  type QueryKey,
+} from "@tanstack/react-query";
+import {
+  ROUTE_REGISTRY,
+  findRouteDefinitionByPath,
+  type RouteDefinition,
+} from "./routeRegistry";
+
+// ========================================
+// Types
+// ========================================
+
+/**
+ * 로더에 전달되는 이동 대상 정보
+ */
+export interface RouteLoaderContext {
+  /** 라우트 정의 */
+  route: RouteDefinition;
+  /** 경로 파라미터 (/users/:id → { id }) */
+  params: Record<string, string>;
+  /** 쿼리 파라미터 */
+  searchParams: URLSearchParams;
+}
+
+/**
+ * 미리 불러올 Query
+ */
+export interface RouteLoaderQuery {
+  queryKey: QueryKey;
+  /** TanStack Query가 전달하는 signal로 취소를 지원할 수 있습니다. */
+  queryFn: QueryFunction;
+  /** 기본: queryClient 기본값 */
+  staleTime?: number;
+}
+
+/**
+ * 라우트 로더 (화면에 필요한 Query 목록 반환)
+ */
+export type RouteLoader = (context: RouteLoaderContext) => RouteLoaderQuery[];
+
+export interface RouteLoaderRunnerOptions {
+  queryClient: QueryClient;
+  /** routeKey → 로더 */
+  loaders: Partial<Record<string, RouteLoader>>;
+  /** 접근할 수 없는 화면은 불러오지 않음 */
+  canAccessRoute: (routeKey: string) => boolean;
+  routes?: RouteDefinition[];
+}
+
+export interface RouteLoaderRunner {
+  /** 경로의 로더 실행 (이미 신선한 데이터가 있거나 진행 중이면 다시 요청하지 않음) */
+  load: (href: string) => Promise<void>;
+  /** 현재 경로에 필요 없는 진행 중 프리페치 취소 (화면에서 사용 중인 Query 제외) */
+  cancelStale: (href: string) => void;
+}
+
+// ========================================
+// Helpers
+// ========================================
+
+/**
+ * 경로 파라미터 추출 (/users/:id, /users/42 → { id: "42" })
+ */
+export function getRouteParams(
+  pattern: string,
+  path: string
+): Record<string, string> {
+  const patternSegments = pattern.split("/").filter(Boolean);
+  const pathSegments = path.split("/").filter(Boolean);
+  const params: Record<string, string> = {};
+
+  patternSegments.forEach((segment, index) => {
+    if (segment.startsWith(":") && pathSegments[index] !== undefined) {
+      params[segment.slice(1)] = decodeURIComponent(pathSegments[index]);
+    }
+  });
+  return params;
+}
+
+/** href → pathname, searchParams (hash 제외) */
+function parseHref(href: string): {
+  pathname: string;
+  searchParams: URLSearchParams;
+} {
+  const [pathAndSearch] = href.split("#");
+  const [pathname, search = ""] = pathAndSearch.split("?");
+  return { pathname, searchParams: new URLSearchParams(search) };
+}
+
+// ========================================
+// Runner
+// ========================================
+
+/**
+ * 라우트 로더 실행기 생성
+ *
+ * @example
+ * const runner = createRouteLoaderRunner({ queryClient, loaders, canAccessRoute });
+ * runner.load("/users"); // 링크 hover / 이동 시
+ * runner.cancelStale(location.pathname); // 이동 완료 후
+ */
+export function createRouteLoaderRunner({
+  queryClient,
+  loaders,
+  canAccessRoute,
+  routes = ROUTE_REGISTRY,
+}: RouteLoaderRunnerOptions): RouteLoaderRunner {
+  /** 진행 중인 프리페치 (queryHash → queryKey) */
+  const pending = new Map<string, QueryKey>();
+
+  const resolveQueries = (href: string): RouteLoaderQuery[] => {
+    // 외부 링크 등
+    if (!href.startsWith("/")) return [];
+
+    const { pathname, searchParams } = parseHref(href);
+    const route = findRouteDefinitionByPath(pathname, routes);
+    const loader = route ? loaders[route.routeKey] : undefined;
+    if (!route || !loader || !canAccessRoute(route.routeKey)) return [];
+
+    return loader({
+      route,
+      params: getRouteParams(route.path, pathname),
+      searchParams,
+    });
+  };
+
+  return {
+    load: async (href) => {
+      const queries = resolveQueries(href);
+
+      await Promise.all(
+        queries.map((query) => {
+          const queryHash = hashKey(query.queryKey);
+          pending.set(queryHash, query.queryKey);
+          // staleTime이 없으면 queryClient 기본값 사용 (undefined로 덮어쓰지 않음)
+          return queryClient
+            .prefetchQuery(query)
+            .finally(() => pending.delete(queryHash));
+        })
+      );
+    },
+
+    cancelStale: (href) => {
+      const keep = new Set(
+        resolveQueries(href).map(({ queryKey }) => hashKey(queryKey))
+      );
+
+      pending.forEach((queryKey, queryHash) => {
+        if (keep.has(queryHash)) return;
+        const query = queryClient.getQueryCache().get(queryHash);
+        // 마운트된 화면(작업 공간 탭 포함)이 사용 중이면 유지
+        if (query && query.getObserversCount() > 0) return;
+
+        pending.delete(queryHash);
+        void queryClient.cancelQueries({ queryKey, exact: true });
+      });
+    },
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * SoftOne Design System - Route Registry Tests
+ * 레지스트리 일관성 검사 및 경로/메뉴 파생 테스트
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildMenuTree,
+  getRedirectPath,
+  getRouteKeyByPath,
+  getRouteTrail,
+  ROUTE_REDIRECTS,
+  ROUTE_REGISTRY,
+  validateRouteRegistry,
+  type RouteDefinition,
+} from "./routeRegistry";
+import { menuSkeleton, menuTree } from "./menuConfig";
+import { findMenuPathByRouteKey, type MenuNode } from "./menu.types";
+
+const skeleton: MenuNode[] = [
+  { id: "menu-sample", type: "menu", label: "샘플", children: [] },
+];
+
+const routes: RouteDefinition[] = [
+  {
+    routeKey: "sample.list",
+    path: "/samples",
+    label: "샘플 목록",
+    menu: { id: "sample-list", parentId: "menu-sample", order: 1 },
+  },
+  {
+    routeKey: "sample.detail",
+    path: "/samples/:id",
+    label: "샘플 상세",
+    parentRouteKey: "sample.list",
+  },
+];
+
+const issueTypes = (
+  targetRoutes: RouteDefinition[],
+  targetMenuTree: MenuNode[] = buildMenuTree(skeleton, targetRoutes)
+) => validateRouteRegistry(targetRoutes, targetMenuTree).map((i) => i.type);
+
+describe("routeRegistry", () => {
+  it("실제 레지스트리와 메뉴 트리는 불일치가 없음", () => {
+    expect(
+      validateRouteRegistry(ROUTE_REGISTRY, menuTree, [], [], ROUTE_REDIRECTS)
+    ).toEqual([]);
+    expect(menuSkeleton.length).toBeGreaterThan(0);
+  });
+
+  it("중복 path와 중복 routeKey를 검출함", () => {
+    expect(
+      issueTypes([
+        ...routes,
+        { routeKey: "sample.other", path: "/samples/:sampleId", label: "중복" },
+        { routeKey: "sample.list", path: "/samples/all", label: "중복 키" },
+      ])
+    ).toEqual(["duplicate-path", "duplicate-route-key"]);
+  });
+
+  it("레지스트리에 없는 routeKey를 가리키는 메뉴를 검출함", () => {
+    const orphanMenu: MenuNode[] = [
+      ...buildMenuTree(skeleton, routes),
+      { id: "orphan", type: "page", label: "고아", routeKey: "sample.gone" },
+    ];
+
+    expect(issueTypes(routes, orphanMenu)).toEqual(["orphan-menu-route-key"]);
+  });
+
+  it("레지스트리에 없는 routeKey에 연결된 컴포넌트를 검출함", () => {
+    const issues = validateRouteRegistry(
+      routes,
+      buildMenuTree(skeleton, routes),
+      ["sample.list", "sample.removed"]
+    );
+
+    expect(issues.map((issue) => issue.type)).toEqual(["orphan-component"]);
+  });
+
+  it("메뉴 배치 정보로 상위 메뉴 그룹 아래에 페이지 노드를 생성함", () => {
+    const tree = buildMenuTree(skeleton, routes);
+
+    expect(
+      findMenuPathByRouteKey(tree, "sample.list")?.map((node) => node.id)
+    ).toEqual(["menu-sample", "sample-list"]);
+    expect(findMenuPathByRouteKey(tree, "sample.detail")).toBeNull();
+  });
+
+  it("동적 세그먼트 경로를 routeKey로 매칭하고 상위 체인을 구성함", () => {
+    expect(getRouteKeyByPath("/users/42")).toBe("users.detail");
+    expect(getRouteKeyByPath("/users/create")).toBe("users.create");
+    expect(
+      getRouteTrail("sample.detail", routes).map((route) => route.routeKey)
+    ).toEqual(["sample.list", "sample.detail"]);
+  });
+
+  it("이전 라우트 설정의 상위 경로는 첫 번째 하위 화면으로 이동함", () => {
+    expect(getRedirectPath("/settings")).toBe("/settings/menus");
+    expect(getRedirectPath("/settings/")).toBe("/settings/menus");
+    expect(getRedirectPath("/auth")).toBe("/auth/user-menu-policy");
+    expect(getRedirectPath("/grid-samples")).toBe("/grid-samples/ag-basic");
+    expect(getRedirectPath("/dialog-samples")).toBe("/users/dialog-sample");
+    expect(getRedirectPath("/tools")).toBe("/tools/swagger-playground");
+    expect(getRedirectPath("/settings/menus")).toBeNull();
+
+    // 리다이렉트 대상은 모두 화면이 있는 라우트
+    ROUTE_REDIRECTS.forEach(({ path }) => {
+      expect(getRouteKeyByPath(getRedirectPath(path) ?? "")).not.toBeNull();
+    });
+  });
+
+  it("레지스트리에 없는 리다이렉트 대상과 라우트와 겹치는 리다이렉트 경로를 검출함", () => {
+    const issues = validateRouteRegistry(
+      routes,
+      buildMenuTree(skeleton, routes),
+      [],
+      [],
+      [
+        { path: "/sample", toRouteKey: "sample.gone" },
+        { path: "/samples", toRouteKey: "sample.list" },
+      ]
+    );
+
+    expect(issues.map((issue) => issue.type)).toEqual([
+      "unknown-redirect-route",
+      "duplicate-path",
+    ]);
+  });
+});
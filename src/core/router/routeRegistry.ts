@@ -0,0 +1,845 @@
+/**
+ * SoftOne Design System(SDS) - Route Registry
+ * 작성: SoftOne Frontend Team
+ *
+ * 모든 화면 라우트를 선언하는 단일 레지스트리입니다.
+ * 다음 항목이 모두 이 목록에서 파생됩니다.
+ *   - 라우터: AppRouter가 ROUTE_REGISTRY를 순회하여 Route 생성
+ *   - 메뉴 트리: menuConfig의 카테고리/메뉴 그룹 아래에 menu 배치 정보로 페이지 노드 생성
+ *   - 브레드크럼: 메뉴 경로 + parentRouteKey 체인 (메뉴에 없는 상세/수정 화면)
+ *   - 접근 가능한 routeKey: computeAccessibleRouteKeys(ROUTE_REGISTRY, ...)
+ *
+ * 페이지 컴포넌트와 데이터 로더(routeLoader.ts)는 Core가 Feature에 의존하지 않도록
+ * Shell(shells/spa/routeComponents.tsx, routeLoaders.ts)에서 routeKey로 연결합니다.
+ *
+ * 화면이 없는 상위 경로(/settings 등)는 ROUTE_REDIRECTS로 첫 번째 하위 화면에 연결합니다.
+ *
+ * validateRouteRegistry()는 routeKey/path 중복, 레지스트리에 없는 routeKey를 가리키는 메뉴 등
+ * 불일치를 찾아내며, 테스트에서 이 결과가 비어 있는지 검사합니다.
+ */
+
+import type { LucideIcon } from "lucide-react";
+import {
+  Package,
+  FileText,
+  Calendar,
+  FolderTree,
+  Settings,
+  Globe,
+  HelpCircle,
+  Play,
+} from "lucide-react";
+import { PERMISSION_KEYS, type PermissionKey } from "../auth/role.types";
+import type { MenuNode, PageMenuNode } from "./menu.types";
+import {
+  findMenuPathByRouteKey,
+  hasChildren,
+  isMenuGroupNode,
+  isPageNode,
+  sortMenuNodes,
+} from "./menu.types";
+
+// ========================================
+// Types
+// ========================================
+
+/**
+ * 메뉴 트리 배치 정보
+ * parentId 아래에 페이지 노드(type: "page")로 생성됩니다.
+ */
+export interface RouteMenuPlacement {
+  /** 메뉴 노드 id */
+  id: string;
+  /** 상위 카테고리/메뉴 그룹 id (menuConfig의 menuSkeleton) */
+  parentId: string;
+  /** 정렬 순서 */
+  order: number;
+  /** 메뉴 라벨 (기본: 라우트 label) */
+  label?: string;
+  icon?: LucideIcon;
+  /** 메뉴 표시에 추가로 필요한 권한 (라우트 접근 권한과 별도) */
+  requiredPermissions?: PermissionKey[];
+  badge?: string;
+  badgeColor?: "primary" | "success" | "warning" | "danger" | "info";
+}
+
+/**
+ * 라우트 정의
+ */
+export interface RouteDefinition {
+  /** 라우트 키 (메뉴/정책/권한 체크에서 참조하는 고유 식별자) */
+  routeKey: string;
+  /** URL 경로 (동적 세그먼트: /users/:id) */
+  path: string;
+  /** 화면 이름 */
+  label: string;
+  /** 접근에 필요한 권한 (AND 조건, 없으면 인증된 사용자 모두) */
+  requiredPermissions?: PermissionKey[];
+  /** 인증 필요 여부 (기본: true) */
+  requiresAuth?: boolean;
+  /** 메뉴 트리 배치 (없으면 메뉴에 표시하지 않음) */
+  menu?: RouteMenuPlacement;
+  /** 브레드크럼 라벨 (기본: 메뉴 라벨 또는 label) */
+  breadcrumbLabel?: string;
+  /** 브레드크럼 상위 routeKey (메뉴에 없는 상세/수정 화면) */
+  parentRouteKey?: string;
+}
+
+/**
+ * 화면이 없는 상위 경로의 리다이렉트 (예: /settings → /settings/menus)
+ */
+export interface RouteRedirect {
+  /** 요청 경로 */
+  path: string;
+  /** 이동할 라우트 키 */
+  toRouteKey: string;
+}
+
+export type RouteRegistryIssueType =
+  | "duplicate-route-key"
+  | "duplicate-path"
+  | "unknown-parent-route"
+  | "unknown-menu-parent"
+  | "duplicate-menu-id"
+  | "orphan-menu-route-key"
+  | "orphan-component"
+  | "orphan-loader"
+  | "unknown-redirect-route";
+
+/**
+ * 레지스트리 불일치 항목
+ */
+export interface RouteRegistryIssue {
+  type: RouteRegistryIssueType;
+  message: string;
+}
+
+// ========================================
+// Route Registry
+// ========================================
+
+const GRID_SAMPLES = [PERMISSION_KEYS.PAGE_GRID_SAMPLES_VIEW];
+
+export const ROUTE_REGISTRY: RouteDefinition[] = [
+  // ----------------------------------------
+  // 인증 (비인증 사용자용)
+  // ----------------------------------------
+  {
+    routeKey: "auth.login",
+    path: "/auth/login",
+    label: "로그인",
+    requiresAuth: false,
+  },
+
+  // ----------------------------------------
+  // 대시보드
+  // ----------------------------------------
+  {
+    routeKey: "dashboard.main",
+    path: "/dashboard",
+    label: "메인 대시보드",
+    requiredPermissions: [PERMISSION_KEYS.PAGE_DASHBOARD_VIEW],
+    menu: {
+      id: "page-dashboard-main",
+      parentId: "category-dashboard",
+      order: 1,
+      requiredPermissions: [PERMISSION_KEYS.MENU_DASHBOARD_VIEW],
+    },
+  },
+  {
+    routeKey: "dashboard.ops",
+    path: "/dashboard/ops",
+    label: "운영 대시보드",
+    requiredPermissions: [PERMISSION_KEYS.PAGE_DASHBOARD_OPS_VIEW],
+    menu: {
+      id: "page-dashboard-ops",
+      parentId: "category-dashboard",
+      order: 2,
+      requiredPermissions: [PERMISSION_KEYS.ACTION_DASHBOARD_OPS_VIEW],
+      badge: "Beta",
+      badgeColor: "warning",
+    },
+  },
+
+  // ----------------------------------------
+  // 사용자 / 권한
+  // ----------------------------------------
+  {
+    routeKey: "users.list",
+    path: "/users",
+    label: "사용자 목록",
+    requiredPermissions: [PERMISSION_KEYS.PAGE_USERS_LIST_VIEW],
+    menu: { id: "page-users-list", parentId: "menu-users", order: 1 },
+  },
+  {
+    routeKey: "users.create",
+    path: "/users/create",
+    label: "사용자 등록",
+    requiredPermissions: [
+      PERMISSION_KEYS.PAGE_USERS_LIST_VIEW,
+      PERMISSION_KEYS.ACTION_USERS_CREATE,
+    ],
+    parentRouteKey: "users.list",
+  },
+  {
+    routeKey: "users.detail",
+    path: "/users/:id",
+    label: "사용자 상세",
+    requiredPermissions: [PERMISSION_KEYS.PAGE_USERS_DETAIL_VIEW],
+    parentRouteKey: "users.list",
+  },
+  {
+    routeKey: "users.dialog",
+    path: "/users/dialog-sample",
+    label: "사용자 CRUD (Dialog)",
+    requiredPermissions: [PERMISSION_KEYS.PAGE_USERS_LIST_VIEW],
+    menu: { id: "page-users-dialog", parentId: "menu-users", order: 2 },
+  },
+  {
+    routeKey: "auth.role.designer",
+    path: "/auth/role-designer",
+    label: "역할 / 권한 디자이너",
+    requiredPermissions: [PERMISSION_KEYS.PAGE_AUTH_ROLE_DESIGNER_VIEW],
+    menu: {
+      id: "page-role-designer",
+      parentId: "menu-auth",
+      order: 1,
+      badge: "New",
+      badgeColor: "success",
+    },
+  },
+  {
+    routeKey: "auth.user.menu.policy",
+    path: "/auth/user-menu-policy",
+    label: "사용자 메뉴 정책",
+    requiredPermissions: [PERMISSION_KEYS.PAGE_AUTH_ROLE_DESIGNER_VIEW],
+    menu: { id: "page-user-menu-policy", parentId: "menu-auth", order: 2 },
+  },
+
+  // ----------------------------------------
+  // 데이터 관리
+  // ----------------------------------------
+  {
+    routeKey: "products.crud",
+    path: "/products",
+    label: "상품 관리",
+    requiredPermissions: [PERMISSION_KEYS.PAGE_PRODUCTS_VIEW],
+    menu: {
+      id: "page-products",
+      parentId: "category-data",
+      order: 1,
+      icon: Package,
+      requiredPermissions: [PERMISSION_KEYS.MENU_PRODUCTS_VIEW],
+      badge: "CRUD",
+      badgeColor: "success",
+    },
+  },
+  {
+    routeKey: "articles.list",
+    path: "/articles",
+    label: "게시물 관리",
+    requiredPermissions: [PERMISSION_KEYS.PAGE_ARTICLES_VIEW],
+    menu: {
+      id: "page-articles",
+      parentId: "category-data",
+      order: 2,
+      icon: FileText,
+      requiredPermissions: [PERMISSION_KEYS.MENU_ARTICLES_VIEW],
+    },
+  },
+  {
+    routeKey: "articles.create",
+    path: "/articles/new",
+    label: "게시글 작성",
+    requiredPermissions: [
+      PERMISSION_KEYS.PAGE_ARTICLES_VIEW,
+      PERMISSION_KEYS.ACTION_ARTICLES_CREATE,
+    ],
+    parentRouteKey: "articles.list",
+  },
+  {
+    routeKey: "articles.detail",
+    path: "/articles/:id",
+    label: "게시글 상세",
+    requiredPermissions: [PERMISSION_KEYS.PAGE_ARTICLES_VIEW],
+    parentRouteKey: "articles.list",
+  },
+  {
+    routeKey: "articles.edit",
+    path: "/articles/:id/edit",
+    label: "게시글 수정",
+    requiredPermissions: [
+      PERMISSION_KEYS.PAGE_ARTICLES_VIEW,
+      PERMISSION_KEYS.ACTION_ARTICLES_UPDATE,
+    ],
+    parentRouteKey: "articles.detail",
+  },
+  {
+    routeKey: "schedules.main",
+    path: "/schedules",
+    label: "일정 관리",
+    requiredPermissions: [PERMISSION_KEYS.PAGE_SCHEDULES_VIEW],
+    menu: {
+      id: "page-schedules",
+      parentId: "category-data",
+      order: 3,
+      icon: Calendar,
+      requiredPermissions: [PERMISSION_KEYS.MENU_SCHEDULES_VIEW],
+    },
+  },
+
+  // ----------------------------------------
+  // 그리드 샘플
+  // ----------------------------------------
+  {
+    routeKey: "grid.samples.ag.basic",
+    path: "/grid-samples/ag-basic",
+    label: "AG Grid 기본",
+    requiredPermissions: GRID_SAMPLES,
+    menu: { id: "page-grid-ag-basic", parentId: "menu-grid-basic", order: 1 },
+  },
+  {
+    routeKey: "grid.samples.tanstack.basic",
+    path: "/grid-samples/tanstack-basic",
+    label: "TanStack Table 기본",
+    requiredPermissions: GRID_SAMPLES,
+    menu: {
+      id: "page-grid-tanstack-basic",
+      parentId: "menu-grid-basic",
+      order: 2,
+    },
+  },
+  {
+    routeKey: "grid.samples.ag.aggregation",
+    path: "/grid-samples/ag-aggregation-grouping",
+    label: "그룹핑 & 집계",
+    requiredPermissions: GRID_SAMPLES,
+    menu: {
+      id: "page-grid-ag-aggregation",
+      parentId: "menu-grid-basic",
+      order: 3,
+    },
+  },
+  {
+    routeKey: "grid.samples.tanstack.role",
+    path: "/grid-samples/tanstack-role-based",
+    label: "역할 기반 컬럼",
+    requiredPermissions: GRID_SAMPLES,
+    menu: {
+      id: "page-grid-tanstack-role",
+      parentId: "menu-grid-basic",
+      order: 4,
+    },
+  },
+  {
+    routeKey: "grid.samples.ag.editing",
+    path: "/grid-samples/ag-editing-validation",
+    label: "인라인 편집",
+    requiredPermissions: GRID_SAMPLES,
+    menu: {
+      id: "page-grid-ag-editing",
+      parentId: "menu-grid-editing",
+      order: 1,
+    },
+  },
+  {
+    routeKey: "grid.samples.form.like",
+    path: "/grid-samples/form-like-grid",
+    label: "Form-Like Grid",
+    requiredPermissions: GRID_SAMPLES,
+    menu: {
+      id: "page-grid-form-like",
+      parentId: "menu-grid-editing",
+      order: 2,
+    },
+  },
+  {
+    routeKey: "grid.samples.infinite",
+    path: "/grid-samples/ag-infinite-scroll",
+    label: "무한 스크롤",
+    requiredPermissions: GRID_SAMPLES,
+    menu: {
+      id: "page-grid-infinite",
+      parentId: "menu-grid-advanced",
+      order: 1,
+    },
+  },
+  {
+    routeKey: "grid.samples.pivot.chart",
+    path: "/grid-samples/ag-pivot-chart",
+    label: "차트 연동",
+    requiredPermissions: GRID_SAMPLES,
+    menu: {
+      id: "page-grid-pivot-chart",
+      parentId: "menu-grid-advanced",
+      order: 2,
+    },
+  },
+  {
+    routeKey: "grid.samples.tree",
+    path: "/grid-samples/tree-data-grid",
+    label: "Tree Data",
+    requiredPermissions: GRID_SAMPLES,
+    menu: { id: "page-grid-tree", parentId: "menu-grid-advanced", order: 3 },
+  },
+  {
+    routeKey: "grid.samples.multi.tabs",
+    path: "/grid-samples/multi-grid-tabs",
+    label: "Multi Grid Tabs",
+    requiredPermissions: GRID_SAMPLES,
+    menu: {
+      id: "page-grid-multi-tabs",
+      parentId: "menu-grid-multi",
+      order: 1,
+    },
+  },
+  {
+    routeKey: "grid.samples.master.detail",
+    path: "/grid-samples/master-detail",
+    label: "Master-Detail 연동",
+    requiredPermissions: GRID_SAMPLES,
+    menu: {
+      id: "page-grid-master-detail",
+      parentId: "menu-grid-multi",
+      order: 2,
+      badge: "New",
+      badgeColor: "success",
+    },
+  },
+  {
+    routeKey: "grid.samples.row.detail",
+    path: "/grid-samples/row-detail-modal",
+    label: "행 상세 모달",
+    requiredPermissions: GRID_SAMPLES,
+    menu: {
+      id: "page-grid-row-detail",
+      parentId: "menu-grid-multi",
+      order: 3,
+    },
+  },
+  {
+    routeKey: "grid.samples.filter.playground",
+    path: "/grid-samples/tanstack-filter-playground",
+    label: "Filter Playground",
+    requiredPermissions: GRID_SAMPLES,
+    menu: {
+      id: "page-grid-filter-playground",
+      parentId: "menu-grid-state",
+      order: 1,
+    },
+  },
+  {
+    routeKey: "grid.samples.global.state",
+    path: "/grid-samples/global-state-demo",
+    label: "전역 상태 관리",
+    requiredPermissions: GRID_SAMPLES,
+    menu: {
+      id: "page-grid-global-state",
+      parentId: "menu-grid-state",
+      order: 2,
+      badge: "New",
+      badgeColor: "success",
+    },
+  },
+
+  // ----------------------------------------
+  // 알림
+  // ----------------------------------------
+  {
+    routeKey: "notifications.templates",
+    path: "/notifications/templates",
+    label: "알림 템플릿",
+    requiredPermissions: [PERMISSION_KEYS.PAGE_NOTIFICATIONS_TEMPLATES_VIEW],
+    menu: {
+      id: "page-notification-templates",
+      parentId: "category-notifications",
+      order: 1,
+    },
+  },
+
+  // ----------------------------------------
+  // 시스템
+  // ----------------------------------------
+  {
+    routeKey: "system.menu.management",
+    path: "/settings/menus",
+    label: "메뉴 관리",
+    requiredPermissions: [PERMISSION_KEYS.PAGE_MENU_MANAGEMENT_VIEW],
+    menu: {
+      id: "page-menu-management",
+      parentId: "category-system",
+      order: 1,
+      icon: FolderTree,
+    },
+  },
+  {
+    routeKey: "system.settings",
+    path: "/settings/general",
+    label: "시스템 설정",
+    requiredPermissions: [PERMISSION_KEYS.PAGE_SYSTEM_SETTINGS_VIEW],
+    menu: {
+      id: "page-system-settings",
+      parentId: "category-system",
+      order: 2,
+      icon: Settings,
+    },
+  },
+
+  // ----------------------------------------
+  // 개발자 도구 / 도움말
+  // ----------------------------------------
+  {
+    routeKey: "tools.swagger",
+    path: "/tools/swagger-playground",
+    label: "Swagger Playground",
+    requiredPermissions: [PERMISSION_KEYS.PAGE_SWAGGER_PLAYGROUND_VIEW],
+    menu: {
+      id: "page-swagger-playground",
+      parentId: "category-dev-tools",
+      order: 1,
+      icon: Globe,
+    },
+  },
+  {
+    routeKey: "help.main",
+    path: "/help",
+    label: "도움말",
+    menu: {
+      id: "page-help",
+      parentId: "category-docs",
+      order: 1,
+      icon: HelpCircle,
+    },
+  },
+
+  // ----------------------------------------
+  // Dev / Playground
+  // ----------------------------------------
+  {
+    routeKey: "dev.menu.playground",
+    path: "/dev/menu-playground",
+    label: "Menu / Permission Playground",
+    menu: {
+      id: "page-dev-menu-playground",
+      parentId: "category-dev",
+      order: 1,
+      icon: Play,
+      badge: "New",
+      badgeColor: "success",
+    },
+  },
+];
+
+/** 루트(/) 접근 시 이동할 기본 routeKey */
+export const HOME_ROUTE_KEY = "dashboard.main";
+
+/**
+ * 상위 경로 리다이렉트
+ * 이전 라우트 설정에서 메뉴 그룹이 가지고 있던 경로를 첫 번째 하위 화면으로 연결합니다.
+ * (북마크/외부 링크 호환)
+ */
+export const ROUTE_REDIRECTS: RouteRedirect[] = [
+  { path: "/settings", toRouteKey: "system.menu.management" },
+  { path: "/auth", toRouteKey: "auth.user.menu.policy" },
+  { path: "/grid-samples", toRouteKey: "grid.samples.ag.basic" },
+  { path: "/dialog-samples", toRouteKey: "users.dialog" },
+  { path: "/tools", toRouteKey: "tools.swagger" },
+];
+
+// ========================================
+// Route Lookup
+// ========================================
+
+/** 동적 세그먼트 여부 (/users/:id) */
+export function isDynamicRoutePath(path: string): boolean {
+  return path.split("/").some((segment) => segment.startsWith(":"));
+}
+
+/**
+ * 경로가 라우트 path 패턴과 일치하는지 확인
+ */
+export function matchRoutePath(pattern: string, path: string): boolean {
+  const patternSegments = pattern.split("/").filter(Boolean);
+  const pathSegments = path.split("/").filter(Boolean);
+  if (patternSegments.length !== pathSegments.length) return false;
+
+  return patternSegments.every(
+    (segment, index) =>
+      segment.startsWith(":") || segment === pathSegments[index]
+  );
+}
+
+/**
+ * routeKey로 라우트 정의 조회
+ */
+export function findRouteDefinition(
+  routeKey: string,
+  routes: RouteDefinition[] = ROUTE_REGISTRY
+): RouteDefinition | undefined {
+  return routes.find((route) => route.routeKey === routeKey);
+}
+
+/**
+ * 경로에 해당하는 라우트 정의 조회 (정적 경로 우선, 동적 세그먼트는 패턴 매칭)
+ */
+export function findRouteDefinitionByPath(
+  path: string,
+  routes: RouteDefinition[] = ROUTE_REGISTRY
+): RouteDefinition | undefined {
+  const normalizedPath = path.length > 1 ? path.replace(/\/+$/, "") : path;
+  return (
+    routes.find((route) => route.path === normalizedPath) ??
+    routes.find(
+      (route) =>
+        isDynamicRoutePath(route.path) &&
+        matchRoutePath(route.path, normalizedPath)
+    )
+  );
+}
+
+/**
+ * routeKey로 path를 조회합니다.
+ */
+export function getPathByRouteKey(
+  routeKey: string,
+  routes: RouteDefinition[] = ROUTE_REGISTRY
+): string | null {
+  return findRouteDefinition(routeKey, routes)?.path ?? null;
+}
+
+/**
+ * path로 routeKey를 조회합니다. (/users/42 → users.detail)
+ */
+export function getRouteKeyByPath(
+  path: string,
+  routes: RouteDefinition[] = ROUTE_REGISTRY
+): string | null {
+  return findRouteDefinitionByPath(path, routes)?.routeKey ?? null;
+}
+
+/**
+ * 리다이렉트 경로면 이동할 path를 반환합니다. (/settings → /settings/menus)
+ */
+export function getRedirectPath(
+  path: string,
+  redirects: RouteRedirect[] = ROUTE_REDIRECTS,
+  routes: RouteDefinition[] = ROUTE_REGISTRY
+): string | null {
+  const normalizedPath = path.length > 1 ? path.replace(/\/+$/, "") : path;
+  const redirect = redirects.find((item) => item.path === normalizedPath);
+  return redirect ? getPathByRouteKey(redirect.toRouteKey, routes) : null;
+}
+
+/**
+ * 브레드크럼 상위 체인 (최상위 → 자기 자신)
+ */
+export function getRouteTrail(
+  routeKey: string,
+  routes: RouteDefinition[] = ROUTE_REGISTRY
+): RouteDefinition[] {
+  const trail: RouteDefinition[] = [];
+  let current = findRouteDefinition(routeKey, routes);
+
+  while (current && !trail.includes(current)) {
+    trail.unshift(current);
+    current = current.parentRouteKey
+      ? findRouteDefinition(current.parentRouteKey, routes)
+      : undefined;
+  }
+
+  return trail;
+}
+
+// ========================================
+// Menu Tree Generation
+// ========================================
+
+/**
+ * 라우트의 메뉴 배치 정보로 페이지 노드 생성
+ */
+function toPageMenuNode(
+  route: RouteDefinition,
+  menu: RouteMenuPlacement
+): PageMenuNode {
+  return {
+    id: menu.id,
+    type: "page",
+    label: menu.label ?? route.label,
+    icon: menu.icon,
+    routeKey: route.routeKey,
+    requiredPermissions: menu.requiredPermissions,
+    order: menu.order,
+    badge: menu.badge,
+    badgeColor: menu.badgeColor,
+  };
+}
+
+/**
+ * 메뉴 골격(카테고리/메뉴 그룹/외부 링크)에 레지스트리의 페이지 노드를 배치합니다.
+ * 상위 노드를 찾을 수 없는 배치는 제외됩니다. (validateRouteRegistry로 검출)
+ */
+export function buildMenuTree(
+  skeleton: MenuNode[],
+  routes: RouteDefinition[] = ROUTE_REGISTRY
+): MenuNode[] {
+  const pagesByParent = new Map<string, PageMenuNode[]>();
+  for (const route of routes) {
+    if (!route.menu) continue;
+    const pages = pagesByParent.get(route.menu.parentId) ?? [];
+    pages.push(toPageMenuNode(route, route.menu));
+    pagesByParent.set(route.menu.parentId, pages);
+  }
+
+  function attach(node: MenuNode): MenuNode {
+    const pages = pagesByParent.get(node.id) ?? [];
+    if (!hasChildren(node) && pages.length === 0) return node;
+
+    const children = [
+      ...((node as { children?: MenuNode[] }).children ?? []).map(attach),
+      ...pages,
+    ];
+    return { ...node, children } as MenuNode;
+  }
+
+  return sortMenuNodes(skeleton.map(attach));
+}
+
+// ========================================
+// Consistency Check
+// ========================================
+
+function collectMenuNodes(nodes: MenuNode[], result: MenuNode[] = []) {
+  for (const node of nodes) {
+    result.push(node);
+    if (hasChildren(node)) {
+      collectMenuNodes((node as { children: MenuNode[] }).children, result);
+    }
+  }
+  return result;
+}
+
+/** path 비교용 정규화 (/users/:id와 /users/:userId는 같은 경로) */
+function normalizeRoutePath(path: string): string {
+  return path.replace(/:[^/]+/g, ":param");
+}
+
+/**
+ * 레지스트리와 메뉴 트리의 불일치를 찾습니다.
+ *
+ * @param routes 라우트 레지스트리
+ * @param menuTree 생성된 메뉴 트리 (buildMenuTree 결과)
+ * @param componentRouteKeys Shell에서 컴포넌트를 연결한 routeKey 목록 (선택)
+ * @param loaderRouteKeys Shell에서 데이터 로더를 연결한 routeKey 목록 (선택)
+ * @param redirects 상위 경로 리다이렉트 목록 (선택)
+ * @returns 불일치 항목 (없으면 빈 배열)
+ */
+export function validateRouteRegistry(
+  routes: RouteDefinition[],
+  menuTree: MenuNode[],
+  componentRouteKeys: string[] = [],
+  loaderRouteKeys: string[] = [],
+  redirects: RouteRedirect[] = []
+): RouteRegistryIssue[] {
+  const issues: RouteRegistryIssue[] = [];
+  const routeKeys = new Set<string>();
+  const paths = new Map<string, string>();
+
+  for (const route of routes) {
+    if (routeKeys.has(route.routeKey)) {
+      issues.push({
+        type: "duplicate-route-key",
+        message: `routeKey가 중복되었습니다: ${route.routeKey}`,
+      });
+    }
+    routeKeys.add(route.routeKey);
+
+    const path = normalizeRoutePath(route.path);
+    const owner = paths.get(path);
+    if (owner) {
+      issues.push({
+        type: "duplicate-path",
+        message: `${route.routeKey}의 path(${route.path})가 ${owner}와 중복되었습니다.`,
+      });
+    } else {
+      paths.set(path, route.routeKey);
+    }
+  }
+
+  for (const route of routes) {
+    if (route.parentRouteKey && !routeKeys.has(route.parentRouteKey)) {
+      issues.push({
+        type: "unknown-parent-route",
+        message: `${route.routeKey}의 parentRouteKey(${route.parentRouteKey})가 레지스트리에 없습니다.`,
+      });
+    }
+  }
+
+  const menuNodes = collectMenuNodes(menuTree);
+  const menuIds = new Set<string>();
+  for (const node of menuNodes) {
+    if (menuIds.has(node.id)) {
+      issues.push({
+        type: "duplicate-menu-id",
+        message: `메뉴 id가 중복되었습니다: ${node.id}`,
+      });
+    }
+    menuIds.add(node.id);
+
+    const routeKey =
+      isPageNode(node) || isMenuGroupNode(node) ? node.routeKey : undefined;
+    if (routeKey && !routeKeys.has(routeKey)) {
+      issues.push({
+        type: "orphan-menu-route-key",
+        message: `메뉴 ${node.id}의 routeKey(${routeKey})가 레지스트리에 없습니다.`,
+      });
+    }
+  }
+
+  for (const route of routes) {
+    if (route.menu && !findMenuPathByRouteKey(menuTree, route.routeKey)) {
+      issues.push({
+        type: "unknown-menu-parent",
+        message: `${route.routeKey}의 메뉴 상위 노드(${route.menu.parentId})를 찾을 수 없습니다.`,
+      });
+    }
+  }
+
+  for (const routeKey of componentRouteKeys) {
+    if (!routeKeys.has(routeKey)) {
+      issues.push({
+        type: "orphan-component",
+        message: `컴포넌트가 연결된 routeKey(${routeKey})가 레지스트리에 없습니다.`,
+      });
+    }
+  }
+
+  for (const routeKey of loaderRouteKeys) {
+    if (!routeKeys.has(routeKey)) {
+      issues.push({
+        type: "orphan-loader",
+        message: `로더가 연결된 routeKey(${routeKey})가 레지스트리에 없습니다.`,
+      });
+    }
+  }
+
+  for (const redirect of redirects) {
+    const owner = paths.get(normalizeRoutePath(redirect.path));
+    if (owner) {
+      issues.push({
+        type: "duplicate-path",
+        message: `리다이렉트 path(${redirect.path})가 ${owner}와 중복되었습니다.`,
+      });
+    } else {
+      paths.set(normalizeRoutePath(redirect.path), redirect.path);
+    }
+
+    if (!routeKeys.has(redirect.toRouteKey)) {
+      issues.push({
+        type: "unknown-redirect-route",
+        message: `리다이렉트 ${redirect.path}의 routeKey(${redirect.toRouteKey})가 레지스트리에 없습니다.`,
+      });
+    }
+  }
+
+  return issues;
+}
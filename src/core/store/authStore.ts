@@ -6,9 +6,10 @@
  * Role/Grade 기반 RBAC 위에, 사용자별 예외 정책(허용/차단/기본 진입 페이지)을 오버레이합니다.
  *
  * Zustand 기반 인증 상태 관리:
- *   - 사용자 정보, 토큰, 역할(roles) 기반 인증/인가
- *   - Role, Grade 기반 Permission 시스템
+ *   - 사용자 정보, 토큰(Access/Refresh), 역할(roles) 기반 인증/인가
+ *   - Role, Grade 기반 Permission 시스템 (서버 권한 매트릭스 변경 시 즉시 재계산)
  *   - User Menu Policy 기반 사용자별 메뉴 접근 제어
+ *     (정책 항목의 유효 기간/시간대가 시작·종료되면 세션 중에도 자동 재계산)
  *   - persist 미들웨어로 로컬스토리지 연동
  */
 
@@ -20,11 +21,17 @@ import {
   PermissionKey,
   computePermissions,
 } from "../auth/role.types";
-import type { UserMenuPolicy } from "../auth/userMenuPolicy.types";
+import {
+  getNextPolicyTransition,
+  systemClock,
+  type Clock,
+  type UserMenuPolicy,
+} from "../auth/userMenuPolicy.types";
 import type { MenuNode } from "../router/menu.types";
 import { buildAccessContext } from "../router/menuAccessUtils";
-import { routeConfig } from "../router/routeConfig";
+import { ROUTE_REGISTRY } from "../router/routeRegistry";
 import { menuTree } from "../router/menuConfig";
+import { usePermissionMatrixStore } from "./permissionMatrixStore";
 
 // ========================================
 // Auth Types
@@ -42,6 +49,8 @@ export interface AuthState {
   user: User | null;
   /** 액세스 토큰 */
   accessToken: string | null;
+  /** 리프레시 토큰 (서버가 발급한 경우) */
+  refreshToken: string | null;
   /** 사용자 역할 (RBAC) */
   role: Role | null;
   /** 사용자 직급 */
@@ -74,10 +83,20 @@ export interface AuthActions {
   login: (payload: {
     user: User;
     accessToken: string;
+    refreshToken?: string | null;
     role?: Role;
     grade?: Grade;
   }) => void;
 
+  /**
+   * 토큰 갱신 결과 반영
+   * refreshToken을 생략하면 기존 값을 유지합니다. (회전하지 않는 서버 호환)
+   */
+  setTokens: (tokens: {
+    accessToken: string;
+    refreshToken?: string | null;
+  }) => void;
+
   /**
    * 로그아웃 처리
    */
@@ -99,7 +118,8 @@ export interface AuthActions {
   setUserMenuPolicy: (policy: UserMenuPolicy | null) => void;
 
   /**
-   * Access Context 재계산 (권한/메뉴 정책 변경 시)
+   * Access Context 재계산 (권한 매트릭스/메뉴 정책 변경 시)
+   * 현재 권한 매트릭스 기준으로 basePermissions부터 다시 계산합니다.
    */
   recomputeAccessContext: () => void;
 
@@ -157,6 +177,7 @@ export type AuthStore = AuthState & AuthActions & AuthGetters;
 const initialState: AuthState = {
   user: null,
   accessToken: null,
+  refreshToken: null,
   role: null,
   grade: null,
   basePermissions: [],
@@ -170,6 +191,40 @@ const initialState: AuthState = {
   authError: null,
 };
 
+/** 정책 유효 기간 평가에 사용하는 Clock (setAccessClock으로 교체) */
+let accessClock: Clock = systemClock;
+
+/**
+ * 정책 유효 기간 평가에 사용할 Clock 교체 (테스트/시뮬레이션용)
+ * 교체 후 로그인 상태면 Access Context를 즉시 재계산합니다.
+ *
+ * @param clock 생략하면 시스템 시각으로 복원
+ */
+export function setAccessClock(clock: Clock = systemClock): void {
+  accessClock = clock;
+
+  const { user, userMenuPolicy, recomputeAccessContext } =
+    useAuthStore.getState();
+  if (user) {
+    recomputeAccessContext();
+  }
+  schedulePolicyTransition(user ? userMenuPolicy : null);
+}
+
+/**
+ * 현재 적용 중인 권한 매트릭스 기준으로 Role/Grade 기본 권한 계산
+ */
+function computeBasePermissions(
+  role: Role | null,
+  grade: Grade | null
+): PermissionKey[] {
+  return computePermissions(
+    role,
+    grade,
+    usePermissionMatrixStore.getState().matrix
+  );
+}
+
 // ========================================
 // Auth Store Implementation
 // ========================================
@@ -187,15 +242,19 @@ export const useAuthStore = create<AuthStore>()(
       // ========================================
 
       login: (payload) => {
-        const { user, accessToken, role, grade } = payload;
+        const { user, accessToken, refreshToken, role, grade } = payload;
 
         // Role과 Grade에서 기본 Permission 계산
-        const basePermissions = computePermissions(role ?? null, grade ?? null);
+        const basePermissions = computeBasePermissions(
+          role ?? null,
+          grade ?? null
+        );
 
         // 초기 Access Context 계산 (정책 없이)
         const context = buildAccessContext({
-          routes: routeConfig,
+          routes: ROUTE_REGISTRY,
           menuTree: menuTree,
+          now: accessClock(),
           basePermissions,
           userMenuPolicy: null,
         });
@@ -203,6 +262,7 @@ export const useAuthStore = create<AuthStore>()(
         set({
           user,
           accessToken,
+          refreshToken: refreshToken ?? null,
           role: role ?? null,
           grade: grade ?? null,
           basePermissions,
@@ -214,6 +274,16 @@ export const useAuthStore = create<AuthStore>()(
         });
       },
 
+      setTokens: ({ accessToken, refreshToken }) => {
+        // 갱신 중 로그아웃된 경우 토큰을 되살리지 않음
+        if (!get().user) return;
+
+        set({
+          accessToken,
+          ...(refreshToken !== undefined && { refreshToken }),
+        });
+      },
+
       logout: () => {
         // 상태 초기화
         set(initialState);
@@ -231,13 +301,14 @@ export const useAuthStore = create<AuthStore>()(
       },
 
       updateRoleAndGrade: (role, grade) => {
-        const basePermissions = computePermissions(role, grade);
+        const basePermissions = computeBasePermissions(role, grade);
         const { userMenuPolicy } = get();
 
         // Access Context 재계산
         const context = buildAccessContext({
-          routes: routeConfig,
+          routes: ROUTE_REGISTRY,
           menuTree: menuTree,
+          now: accessClock(),
           basePermissions,
           userMenuPolicy,
         });
@@ -258,8 +329,9 @@ export const useAuthStore = create<AuthStore>()(
 
         // Access Context 재계산
         const context = buildAccessContext({
-          routes: routeConfig,
+          routes: ROUTE_REGISTRY,
           menuTree: menuTree,
+          now: accessClock(),
           basePermissions,
           userMenuPolicy: policy,
         });
@@ -275,16 +347,21 @@ export const useAuthStore = create<AuthStore>()(
       },
 
       recomputeAccessContext: () => {
-        const { basePermissions, userMenuPolicy } = get();
+        const { role, grade, userMenuPolicy } = get();
+        const basePermissions = role
+          ? computeBasePermissions(role, grade)
+          : get().basePermissions;
 
         const context = buildAccessContext({
-          routes: routeConfig,
+          routes: ROUTE_REGISTRY,
           menuTree: menuTree,
+          now: accessClock(),
           basePermissions,
           userMenuPolicy,
         });
 
         set({
+          basePermissions,
           permissions: context.finalPermissions,
           accessibleRouteKeys: context.accessibleRouteKeys,
           filteredMenuTree: context.filteredMenuTree,
@@ -363,6 +440,7 @@ export const useAuthStore = create<AuthStore>()(
       partialize: (state) => ({
         user: state.user,
         accessToken: state.accessToken,
+        refreshToken: state.refreshToken,
         role: state.role,
         grade: state.grade,
         basePermissions: state.basePermissions,
@@ -385,6 +463,68 @@ export const useAuthStore = create<AuthStore>()(
   )
 );
 
+// ========================================
+// Permission Matrix 연동
+// ========================================
+
+// 관리자가 권한 매트릭스를 변경하면 재배포 없이 현재 세션에 즉시 반영
+usePermissionMatrixStore.subscribe((state, prevState) => {
+  if (state.matrix === prevState.matrix) return;
+  if (!useAuthStore.getState().user) return;
+  useAuthStore.getState().recomputeAccessContext();
+});
+
+// ========================================
+// User Menu Policy 유효 기간 연동
+// ========================================
+
+/** setTimeout 최대 지연 (약 24.8일, 초과 시 중간에 한 번 더 예약) */
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+
+let policyTransitionTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * 정책 항목의 다음 유효 기간/시간대 경계에 Access Context 재계산 예약
+ */
+function schedulePolicyTransition(policy: UserMenuPolicy | null): void {
+  if (policyTransitionTimer) {
+    clearTimeout(policyTransitionTimer);
+    policyTransitionTimer = null;
+  }
+  if (!policy) return;
+
+  const now = accessClock();
+  const next = getNextPolicyTransition(policy, now);
+  if (!next) return;
+
+  const delay = Math.min(next.getTime() - now.getTime(), MAX_TIMER_DELAY_MS);
+  policyTransitionTimer = setTimeout(() => {
+    policyTransitionTimer = null;
+    const { user, userMenuPolicy, recomputeAccessContext } =
+      useAuthStore.getState();
+    if (!user) return;
+
+    recomputeAccessContext();
+    schedulePolicyTransition(userMenuPolicy);
+  }, delay);
+}
+
+// 로그인/로그아웃, 정책 변경 시 다음 전환 시각 재예약
+useAuthStore.subscribe((state, prevState) => {
+  if (
+    state.user === prevState.user &&
+    state.userMenuPolicy === prevState.userMenuPolicy
+  ) {
+    return;
+  }
+  schedulePolicyTransition(state.user ? state.userMenuPolicy : null);
+});
+
+// 새로고침으로 복원된 세션 (persist 복원은 구독 등록 전에 끝남)
+schedulePolicyTransition(
+  useAuthStore.getState().user ? useAuthStore.getState().userMenuPolicy : null
+);
+
 // ========================================
 // Selectors (성능 최적화용)
 // ========================================
@@ -0,0 +1,115 @@
+/**
+ * SoftOne Design System(SDS) - Command Store
+ * 작성: SoftOne Frontend Team
+ *
+ * 명령 팔레트(Ctrl + K)의 상태와 명령 등록 API.
+ *   - Feature는 registerCommands()로 명령(예: "상품 등록")을 등록하고, 반환된 함수로 해제합니다.
+ *   - requiredPermissions가 있는 명령은 권한이 있는 사용자에게만 표시됩니다.
+ *   - 최근 방문한 화면은 menuPreferenceStore(사용자별)에서 가져와 검색어가 없을 때 먼저 표시됩니다.
+ *
+ * @example
+ * // features/products/commands.ts
+ * export const registerProductCommands = () =>
+ *   registerCommands([
+ *     {
+ *       id: "products.create",
+ *       label: "상품 등록",
+ *       requiredPermissions: [PERMISSION_KEYS.ACTION_PRODUCTS_CREATE],
+ *       run: ({ navigation }) => { ... },
+ *     },
+ *   ]);
+ */
+
+import { create } from "zustand";
+import type { LucideIcon } from "lucide-react";
+import type { PermissionKey } from "../auth/role.types";
+import type { NavigationApi } from "../router/navigation.types";
+
+// ========================================
+// Types
+// ========================================
+
+/** 명령 실행 시 전달되는 컨텍스트 */
+export interface CommandContext {
+  navigation: NavigationApi;
+}
+
+export interface CommandDefinition {
+  /** 고유 ID (같은 ID로 다시 등록하면 교체) */
+  id: string;
+  /** 표시 이름 */
+  label: string;
+  /** 그룹 이름 (기본: "명령") */
+  group?: string;
+  /** 추가 검색어 */
+  keywords?: string[];
+  /** 아이콘 */
+  icon?: LucideIcon;
+  /** 단축키 표시 (예: "Ctrl+Shift+N") */
+  shortcut?: string;
+  /** 필요한 권한 (모두 있어야 표시) */
+  requiredPermissions?: PermissionKey[];
+  /** 실행 */
+  run: (context: CommandContext) => void;
+}
+
+export interface CommandState {
+  /** 등록된 명령 */
+  commands: CommandDefinition[];
+  /** 명령 팔레트 열림 상태 */
+  isPaletteOpen: boolean;
+}
+
+export interface CommandActions {
+  /**
+   * 명령 등록
+   * @returns 등록한 명령을 해제하는 함수
+   */
+  registerCommands: (commands: CommandDefinition[]) => () => void;
+  /** 명령 해제 */
+  unregisterCommands: (ids: string[]) => void;
+
+  openPalette: () => void;
+  closePalette: () => void;
+  togglePalette: () => void;
+}
+
+export type CommandStore = CommandState & CommandActions;
+
+// ========================================
+// Store Implementation
+// ========================================
+
+export const useCommandStore = create<CommandStore>()((set, get) => ({
+  commands: [],
+  isPaletteOpen: false,
+
+  registerCommands: (commands) => {
+    const ids = commands.map((command) => command.id);
+    set((state) => ({
+      commands: [
+        ...state.commands.filter((command) => !ids.includes(command.id)),
+        ...commands,
+      ],
+    }));
+    return () => get().unregisterCommands(ids);
+  },
+
+  unregisterCommands: (ids) => {
+    set((state) => ({
+      commands: state.commands.filter((command) => !ids.includes(command.id)),
+    }));
+  },
+
+  openPalette: () => set({ isPaletteOpen: true }),
+  closePalette: () => set({ isPaletteOpen: false }),
+  togglePalette: () =>
+    set((state) => ({ isPaletteOpen: !state.isPaletteOpen })),
+}));
+
+/**
+ * 명령 등록 (컴포넌트 밖에서 사용)
+ * @returns 등록한 명령을 해제하는 함수
+ */
+export const registerCommands = (commands: CommandDefinition[]) =>
+  useCommandStore.getState().registerCommands(commands);
@@ -13,9 +13,18 @@
  * [사용 시나리오]
  * - 전역 팝업(확인/알림/폼)이 필요할 때 이 스토어 사용
  * - 단순한 로컬 모달은 컴포넌트 내부 state로 처리해도 무방
+ *
+ * [URL 동기화 (딥 링크)]
+ * - deepLink 옵션을 켜면 다이얼로그가 URL 쿼리 파라미터와 동기화됩니다.
+ *   (router/dialogDeepLink.ts, DialogUrlSync, useDialogDeepLink 참고)
+ *
+ * [저장하지 않은 변경 사항]
+ * - 다이얼로그 ID를 scope로 등록한 가드(useUnsavedChangesGuard)에 변경 사항이 있으면
+ *   closeDialog는 바로 닫지 않고 확인 후 닫습니다. (closeAll은 확인하지 않음)
  */
 
 import { create } from "zustand";
+import { inGuardScope, useUnsavedChangesStore } from "./unsavedChangesStore";
 
 // ========================================
 // Dialog Types
@@ -66,6 +75,7 @@ export interface DialogOptions {
   /**
    * Form Dialog에서 사용할 폼 식별자 (예: 'userCreate', 'userEdit')
    * 실제 폼 렌더링은 DialogRoot에서 formKey에 따라 분기 처리
+   * (deepLink 다이얼로그에서는 타입과 관계없이 URL 키로 사용)
    */
   formKey?: string;
   /** 폼 초기값 */
@@ -76,6 +86,11 @@ export interface DialogOptions {
   // ===== 공통 옵션 =====
   /** 추가 데이터 (상세 보기 등에서 활용) */
   payload?: unknown;
+  /**
+   * URL 동기화 (opt-in) - 열면 ?dialog=formKey(또는 type):payload.id 추가,
+   * 브라우저 뒤로 가기로 닫힘. 다시 열기는 화면에서 useDialogDeepLink로 등록
+   */
+  deepLink?: boolean;
   /** 컨텐츠 렌더 함수 (커스텀 내용이 필요할 때) */
   content?: React.ReactNode;
   /** 오버레이 클릭으로 닫기 허용 */
@@ -172,6 +187,20 @@ export const useDialogStore = create<DialogStore>((set, get) => ({
   closeDialog: (id) => {
     const { dialogs } = get();
 
+    // 저장하지 않은 변경 사항이 있으면 확인 후 닫기
+    const targetId = id ?? dialogs[dialogs.length - 1]?.id;
+    if (targetId) {
+      const { hasUnsavedChanges, confirmDiscardChanges } =
+        useUnsavedChangesStore.getState();
+      const inDialog = inGuardScope(targetId);
+      if (hasUnsavedChanges(inDialog)) {
+        void confirmDiscardChanges(inDialog).then((confirmed) => {
+          if (confirmed) get().closeDialog(targetId);
+        });
+        return;
+      }
+    }
+
     if (id) {
       // 특정 ID의 다이얼로그 닫기
       const dialog = dialogs.find((d) => d.id === id);
@@ -24,6 +24,16 @@ export {
   type AuthStore,
 } from "./authStore";
 
+// Permission Matrix Store (서버 권한 매트릭스)
+export {
+  usePermissionMatrixStore,
+  selectPermissionMatrix,
+  selectPermissionMatrixVersion,
+  type PermissionMatrixState,
+  type PermissionMatrixActions,
+  type PermissionMatrixStore,
+} from "./permissionMatrixStore";
+
 // Toast Store
 export { useToastStore, type Toast, type ToastType } from "./toastStore";
 
@@ -53,3 +63,50 @@ export {
   type MenuGroup,
   type MenuFormData,
 } from "./menuStore";
+
+// Command Store (명령 팔레트)
+export {
+  useCommandStore,
+  registerCommands,
+  type CommandDefinition,
+  type CommandContext,
+  type CommandState,
+  type CommandActions,
+  type CommandStore,
+} from "./commandStore";
+
+// Menu Preference Store (사용자별 즐겨찾기/최근 방문)
+export {
+  useMenuPreferenceStore,
+  MAX_FAVORITE_ROUTES,
+  MAX_RECENT_ROUTES,
+  type MenuPreferenceState,
+  type MenuPreferenceActions,
+  type MenuPreferenceStore,
+} from "./menuPreferenceStore";
+
+// Workspace Store (멀티 탭 작업 공간)
+export {
+  useWorkspaceStore,
+  MAX_WORKSPACE_TABS,
+  MAX_PINNED_WORKSPACE_TABS,
+  getWorkspaceTabId,
+  getWorkspacePanelId,
+  type WorkspaceTab,
+  type OpenWorkspaceTab,
+  type WorkspaceState,
+  type WorkspaceActions,
+  type WorkspaceStore,
+} from "./workspaceStore";
+
+// Unsaved Changes Store (저장하지 않은 변경 사항 가드)
+export {
+  useUnsavedChangesStore,
+  inGuardScope,
+  inWorkspaceTab,
+  DEFAULT_UNSAVED_CHANGES_MESSAGE,
+  type UnsavedChangesGuard,
+  type UnsavedChangesGuardFilter,
+  type UnsavedChangesConfirmRequest,
+  type UnsavedChangesStore,
+} from "./unsavedChangesStore";
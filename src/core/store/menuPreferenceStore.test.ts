@@ -0,0 +1,134 @@
+/**
+ * SoftOne Design System - MenuPreferenceStore Tests
+ * 즐겨찾기/최근 방문의 사용자별 복원, 접근 불가 routeKey 정리, 서버 동기화 테스트
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  useMenuPreferenceStore,
+  MAX_FAVORITE_ROUTES,
+  MAX_RECENT_ROUTES,
+} from "./menuPreferenceStore";
+import * as menuPreferenceApi from "../api/menuPreferenceApi";
+
+vi.mock("../api/menuPreferenceApi", () => ({
+  fetchMenuPreferences: vi.fn(),
+  saveMenuPreferences: vi.fn(),
+}));
+
+const EMPTY_REMOTE = {
+  favoriteRouteKeys: [],
+  recentRouteKeys: [],
+  updatedAt: null,
+};
+
+const allowAll = () => true;
+
+describe("menuPreferenceStore", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(menuPreferenceApi.fetchMenuPreferences).mockResolvedValue(
+      EMPTY_REMOTE
+    );
+    vi.mocked(menuPreferenceApi.saveMenuPreferences).mockImplementation(
+      async (preferences) => preferences
+    );
+    useMenuPreferenceStore.setState({
+      userId: null,
+      favoriteRouteKeys: [],
+      recentRouteKeys: [],
+      updatedAt: null,
+      savedPreferences: {},
+    });
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.useRealTimers();
+  });
+
+  it("즐겨찾기를 추가/해제하고 최대 개수를 넘으면 거부한다", async () => {
+    await useMenuPreferenceStore.getState().restorePreferences("u1", allowAll);
+    const { toggleFavorite } = useMenuPreferenceStore.getState();
+
+    expect(toggleFavorite("users.list")).toBe(true);
+    expect(useMenuPreferenceStore.getState().favoriteRouteKeys).toEqual([
+      "users.list",
+    ]);
+    expect(toggleFavorite("users.list")).toBe(true);
+    expect(useMenuPreferenceStore.getState().favoriteRouteKeys).toEqual([]);
+
+    for (let i = 0; i < MAX_FAVORITE_ROUTES; i++) toggleFavorite(`page.${i}`);
+    expect(toggleFavorite("page.extra")).toBe(false);
+  });
+
+  it("최근 방문은 중복 없이 최신순으로 최대 개수만 유지한다", async () => {
+    await useMenuPreferenceStore.getState().restorePreferences("u1", allowAll);
+    const { addRecentRoute } = useMenuPreferenceStore.getState();
+
+    for (let i = 0; i < MAX_RECENT_ROUTES + 2; i++) addRecentRoute(`page.${i}`);
+    addRecentRoute("page.5");
+
+    const { recentRouteKeys } = useMenuPreferenceStore.getState();
+    expect(recentRouteKeys).toHaveLength(MAX_RECENT_ROUTES);
+    expect(recentRouteKeys[0]).toBe("page.5");
+    expect(recentRouteKeys.filter((key) => key === "page.5")).toHaveLength(1);
+  });
+
+  it("사용자별로 저장하고 복원 시 접근할 수 없는 routeKey를 제거한다", async () => {
+    const store = useMenuPreferenceStore.getState();
+    await store.restorePreferences("u1", allowAll);
+    store.toggleFavorite("users.list");
+    store.toggleFavorite("settings.menus");
+
+    await store.restorePreferences("u2", allowAll);
+    expect(useMenuPreferenceStore.getState().favoriteRouteKeys).toEqual([]);
+
+    await store.restorePreferences(
+      "u1",
+      (routeKey) => routeKey !== "settings.menus"
+    );
+    expect(useMenuPreferenceStore.getState().favoriteRouteKeys).toEqual([
+      "users.list",
+    ]);
+
+    // 같은 사용자의 권한 변경도 정리
+    await store.restorePreferences("u1", () => false);
+    expect(useMenuPreferenceStore.getState().favoriteRouteKeys).toEqual([]);
+  });
+
+  it("서버 값이 더 최신이면 서버 값을 사용한다", async () => {
+    vi.mocked(menuPreferenceApi.fetchMenuPreferences).mockResolvedValue({
+      favoriteRouteKeys: ["users.list", "blocked.page"],
+      recentRouteKeys: ["users.list"],
+      updatedAt: "2030-01-01T00:00:00.000Z",
+    });
+
+    await useMenuPreferenceStore
+      .getState()
+      .restorePreferences("u1", (routeKey) => routeKey !== "blocked.page");
+
+    const state = useMenuPreferenceStore.getState();
+    expect(state.favoriteRouteKeys).toEqual(["users.list"]);
+    expect(state.recentRouteKeys).toEqual(["users.list"]);
+  });
+
+  it("로컬 변경은 모아서 한 번만 서버에 저장한다", async () => {
+    await useMenuPreferenceStore.getState().restorePreferences("u1", allowAll);
+    const { toggleFavorite, addRecentRoute } =
+      useMenuPreferenceStore.getState();
+
+    toggleFavorite("users.list");
+    addRecentRoute("dashboard.main");
+    expect(menuPreferenceApi.saveMenuPreferences).not.toHaveBeenCalled();
+
+    await vi.runAllTimersAsync();
+    expect(menuPreferenceApi.saveMenuPreferences).toHaveBeenCalledTimes(1);
+    expect(menuPreferenceApi.saveMenuPreferences).toHaveBeenCalledWith(
+      expect.objectContaining({
+        favoriteRouteKeys: ["users.list"],
+        recentRouteKeys: ["dashboard.main"],
+      })
+    );
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * SoftOne Design System(SDS) - Menu Preference Store
+ * 작성: SoftOne Frontend Team
+ *
+ * 사이드바 즐겨찾기/최근 방문 화면(routeKey)을 사용자별로 저장합니다.
+ *   - 로컬스토리지 우선: 변경은 즉시 반영·저장하고, 서버(/api/menu-preferences)에는 모아서 저장합니다.
+ *   - 복원 시 서버 값이 더 최신(updatedAt)이면 서버 값을 사용하고, 로컬이 더 최신이면 서버에 저장합니다.
+ *   - 복원/권한 변경 시 accessibleRouteKeys에 없는 routeKey는 자동으로 제거합니다.
+ *   - 서버 동기화 실패는 로컬 값에 영향을 주지 않습니다.
+ */
+
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import {
+  fetchMenuPreferences,
+  saveMenuPreferences,
+  type MenuPreferences,
+} from "../api/menuPreferenceApi";
+
+// ========================================
+// Types
+// ========================================
+
+/** 즐겨찾기 최대 개수 */
+export const MAX_FAVORITE_ROUTES = 20;
+
+/** 최근 방문 화면 최대 개수 */
+export const MAX_RECENT_ROUTES = 8;
+
+/** 서버 저장 지연 (연속 변경을 한 번에 저장) */
+const SYNC_DELAY_MS = 1000;
+
+export interface MenuPreferenceState extends MenuPreferences {
+  /** 현재 사용자 ID */
+  userId: string | null;
+  /** 사용자별 저장된 값 */
+  savedPreferences: Record<string, MenuPreferences>;
+}
+
+export interface MenuPreferenceActions {
+  /**
+   * 사용자의 즐겨찾기/최근 방문 복원 (접근할 수 없는 routeKey 제거)
+   * 사용자가 바뀌면 서버와 동기화합니다.
+   */
+  restorePreferences: (
+    userId: string,
+    canAccessRoute: (routeKey: string) => boolean
+  ) => Promise<void>;
+
+  /**
+   * 즐겨찾기 추가/제거
+   * @returns 개수 제한으로 추가할 수 없으면 false
+   */
+  toggleFavorite: (routeKey: string) => boolean;
+
+  /** 최근 방문 화면 추가 (맨 앞으로) */
+  addRecentRoute: (routeKey: string) => void;
+
+  clearRecentRoutes: () => void;
+}
+
+export type MenuPreferenceStore = MenuPreferenceState & MenuPreferenceActions;
+
+// ========================================
+// Helpers
+// ========================================
+
+const EMPTY_PREFERENCES: MenuPreferences = {
+  favoriteRouteKeys: [],
+  recentRouteKeys: [],
+  updatedAt: null,
+};
+
+const isNewer = (a: string | null, b: string | null): boolean =>
+  !!a && (!b || Date.parse(a) > Date.parse(b));
+
+/** 접근할 수 없는 routeKey 제거 (변경이 없으면 같은 객체) */
+function prunePreferences(
+  preferences: MenuPreferences,
+  canAccessRoute: (routeKey: string) => boolean
+): MenuPreferences {
+  const favoriteRouteKeys =
+    preferences.favoriteRouteKeys.filter(canAccessRoute);
+  const recentRouteKeys = preferences.recentRouteKeys.filter(canAccessRoute);
+
+  if (
+    favoriteRouteKeys.length === preferences.favoriteRouteKeys.length &&
+    recentRouteKeys.length === preferences.recentRouteKeys.length
+  ) {
+    return preferences;
+  }
+  return {
+    favoriteRouteKeys,
+    recentRouteKeys,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+const pickPreferences = (state: MenuPreferences): MenuPreferences => ({
+  favoriteRouteKeys: state.favoriteRouteKeys,
+  recentRouteKeys: state.recentRouteKeys,
+  updatedAt: state.updatedAt,
+});
+
+let syncTimer: ReturnType<typeof setTimeout> | null = null;
+
+// ========================================
+// Store Implementation
+// ========================================
+
+export const useMenuPreferenceStore = create<MenuPreferenceStore>()(
+  persist(
+    (set, get) => {
+      /** 현재 사용자 값으로 반영 + 사용자별 저장 */
+      const apply = (preferences: MenuPreferences) => {
+        const { userId, savedPreferences } = get();
+        set({
+          ...preferences,
+          savedPreferences: userId
+            ? { ...savedPreferences, [userId]: preferences }
+            : savedPreferences,
+        });
+      };
+
+      /** 서버 저장 예약 (마지막 변경만 저장) */
+      const scheduleSync = () => {
+        if (syncTimer) clearTimeout(syncTimer);
+        syncTimer = setTimeout(() => {
+          syncTimer = null;
+          saveMenuPreferences(pickPreferences(get())).catch((error) => {
+            console.warn("[menuPreferenceStore] 서버 저장 실패:", error);
+          });
+        }, SYNC_DELAY_MS);
+      };
+
+      /** 로컬 변경 (updatedAt 갱신 + 서버 저장 예약) */
+      const update = (preferences: Omit<MenuPreferences, "updatedAt">) => {
+        apply({ ...preferences, updatedAt: new Date().toISOString() });
+        if (get().userId) scheduleSync();
+      };
+
+      return {
+        ...EMPTY_PREFERENCES,
+        userId: null,
+        savedPreferences: {},
+
+        restorePreferences: async (userId, canAccessRoute) => {
+          const state = get();
+          const isUserChanged = state.userId !== userId;
+          const local = isUserChanged
+            ? state.savedPreferences[userId] ?? EMPTY_PREFERENCES
+            : pickPreferences(state);
+
+          if (isUserChanged) set({ userId });
+          const pruned = prunePreferences(local, canAccessRoute);
+          apply(pruned);
+
+          if (!isUserChanged) {
+            if (pruned !== local) scheduleSync();
+            return;
+          }
+
+          try {
+            const remote = await fetchMenuPreferences();
+            // 응답 전에 사용자가 바뀌었으면 무시
+            if (get().userId !== userId) return;
+
+            const current = pickPreferences(get());
+            if (isNewer(remote.updatedAt, current.updatedAt)) {
+              const prunedRemote = prunePreferences(remote, canAccessRoute);
+              apply(prunedRemote);
+              if (prunedRemote !== remote) scheduleSync();
+            } else if (isNewer(current.updatedAt, remote.updatedAt)) {
+              scheduleSync();
+            }
+          } catch (error) {
+            console.warn("[menuPreferenceStore] 서버 조회 실패:", error);
+          }
+        },
+
+        toggleFavorite: (routeKey) => {
+          const { favoriteRouteKeys, recentRouteKeys } = get();
+
+          if (favoriteRouteKeys.includes(routeKey)) {
+            update({
+              favoriteRouteKeys: favoriteRouteKeys.filter(
+                (key) => key !== routeKey
+              ),
+              recentRouteKeys,
+            });
+            return true;
+          }
+
+          if (favoriteRouteKeys.length >= MAX_FAVORITE_ROUTES) return false;
+          update({
+            favoriteRouteKeys: [...favoriteRouteKeys, routeKey],
+            recentRouteKeys,
+          });
+          return true;
+        },
+
+        addRecentRoute: (routeKey) => {
+          const { favoriteRouteKeys, recentRouteKeys } = get();
+          if (recentRouteKeys[0] === routeKey) return;
+
+          update({
+            favoriteRouteKeys,
+            recentRouteKeys: [
+              routeKey,
+              ...recentRouteKeys.filter((key) => key !== routeKey),
+            ].slice(0, MAX_RECENT_ROUTES),
+          });
+        },
+
+        clearRecentRoutes: () => {
+          update({
+            favoriteRouteKeys: get().favoriteRouteKeys,
+            recentRouteKeys: [],
+          });
+        },
+      };
+    },
+    {
+      name: "sds-menu-preference-storage",
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({ savedPreferences: state.savedPreferences }),
+    }
+  )
+);
@@ -0,0 +1,182 @@
+/**
+ * SoftOne Design System - MenuStore Tests
+ * 서버 저장(낙관적 반영/롤백) 및 메뉴 필터링 테스트
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  buildMenuItemTree,
+  flattenMenuItems,
+  useMenuStore,
+  type MenuItem,
+} from "./menuStore";
+import * as menuApi from "../api/menuApi";
+
+vi.mock("../api/menuApi", () => ({
+  fetchMenus: vi.fn(),
+  createMenu: vi.fn(),
+  updateMenu: vi.fn(),
+  deleteMenu: vi.fn(),
+  reorderMenus: vi.fn(),
+}));
+
+const createItem = (overrides: Partial<MenuItem>): MenuItem => ({
+  id: "menu",
+  parentId: null,
+  label: "메뉴",
+  path: "/",
+  roles: [],
+  order: 1,
+  isActive: true,
+  version: 1,
+  ...overrides,
+});
+
+const FLAT_MENUS: MenuItem[] = [
+  createItem({
+    id: "grid",
+    label: "그리드",
+    order: 2,
+    path: "/grid",
+    group: "data",
+  }),
+  createItem({
+    id: "grid-basic",
+    parentId: "grid",
+    label: "기본 그리드",
+    routeKey: "grid.samples.ag.basic",
+    path: "/grid-samples/ag-basic",
+  }),
+  createItem({
+    id: "dashboard",
+    label: "대시보드",
+    routeKey: "dashboard.main",
+    path: "/dashboard",
+  }),
+];
+
+describe("menuStore", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useMenuStore.getState().reset();
+    useMenuStore.getState().setMenus(buildMenuItemTree(FLAT_MENUS));
+  });
+
+  it("평면 목록을 order 순 트리로 구성하고 다시 평면화함", () => {
+    const tree = buildMenuItemTree(FLAT_MENUS);
+
+    expect(tree.map((menu) => menu.id)).toEqual(["dashboard", "grid"]);
+    expect(tree[1].children?.map((menu) => menu.id)).toEqual(["grid-basic"]);
+    expect(flattenMenuItems(tree)).toHaveLength(3);
+  });
+
+  it("메뉴 추가 시 임시 id를 서버에서 받은 메뉴로 교체함", async () => {
+    vi.mocked(menuApi.createMenu).mockResolvedValue(
+      createItem({ id: "menu-100", label: "공지", order: 3, version: 1 })
+    );
+
+    const saved = await useMenuStore.getState().addMenu({
+      label: "공지",
+      path: "/notices",
+      parentId: null,
+      roles: [],
+      order: 3,
+      isActive: true,
+    });
+
+    const ids = useMenuStore.getState().allMenus.map((menu) => menu.id);
+    expect(saved.id).toBe("menu-100");
+    expect(ids).toContain("menu-100");
+    expect(ids.some((id) => id.startsWith("temp-"))).toBe(false);
+  });
+
+  it("저장에 실패하면 이전 메뉴로 롤백하고 에러를 기록함", async () => {
+    vi.mocked(menuApi.updateMenu).mockRejectedValue(
+      new Error("다른 관리자가 메뉴를 먼저 변경했습니다.")
+    );
+
+    await expect(
+      useMenuStore.getState().updateMenu("dashboard", { label: "홈" })
+    ).rejects.toThrow();
+
+    const state = useMenuStore.getState();
+    expect(state.getMenuById("dashboard")?.label).toBe("대시보드");
+    expect(state.error).toBeTruthy();
+  });
+
+  it("순서 변경 시 현재 version을 함께 보내고 서버 결과를 반영함", async () => {
+    vi.mocked(menuApi.reorderMenus).mockResolvedValue([
+      createItem({ id: "grid", label: "그리드", order: 1, version: 2 }),
+    ]);
+
+    await useMenuStore
+      .getState()
+      .reorderMenus([{ id: "grid", parentId: null, order: 1 }]);
+
+    expect(menuApi.reorderMenus).toHaveBeenCalledWith([
+      { id: "grid", parentId: null, order: 1, version: 1 },
+    ]);
+    expect(useMenuStore.getState().getMenuById("grid")?.version).toBe(2);
+  });
+
+  it("트리 이동은 바뀐 메뉴만 저장하고 실행 취소로 되돌림", async () => {
+    vi.mocked(menuApi.reorderMenus).mockResolvedValue([]);
+
+    // grid-basic을 최상위(grid 다음)로 내어쓰기 → grid의 그룹을 따름
+    await useMenuStore
+      .getState()
+      .moveMenuNode({ nodeId: "grid-basic", parentId: null, index: 2 });
+
+    expect(menuApi.reorderMenus).toHaveBeenLastCalledWith([
+      { id: "grid-basic", parentId: null, order: 3, group: "data", version: 1 },
+    ]);
+    expect(useMenuStore.getState().moveHistory).toHaveLength(1);
+
+    await useMenuStore.getState().undoMenuMove();
+
+    expect(menuApi.reorderMenus).toHaveBeenLastCalledWith([
+      {
+        id: "grid-basic",
+        parentId: "grid",
+        order: 1,
+        group: undefined,
+        version: 1,
+      },
+    ]);
+    const state = useMenuStore.getState();
+    expect(state.moveHistory).toHaveLength(0);
+    expect(state.getMenuById("grid")?.children?.[0].id).toBe("grid-basic");
+  });
+
+  it("실행 취소 저장에 실패하면 이동 기록을 유지함", async () => {
+    vi.mocked(menuApi.reorderMenus).mockResolvedValueOnce([]);
+    await useMenuStore
+      .getState()
+      .moveMenuNode({ nodeId: "grid-basic", parentId: null, index: 2 });
+
+    vi.mocked(menuApi.reorderMenus).mockRejectedValueOnce(
+      new Error("다른 관리자가 메뉴를 먼저 변경했습니다.")
+    );
+    await expect(useMenuStore.getState().undoMenuMove()).rejects.toThrow();
+
+    expect(useMenuStore.getState().moveHistory).toHaveLength(1);
+  });
+
+  it("접근할 수 없는 화면과 비활성 메뉴는 사이드바에서 제외함", () => {
+    useMenuStore
+      .getState()
+      .setMenus(
+        buildMenuItemTree([
+          ...FLAT_MENUS,
+          createItem({ id: "off", label: "비활성", order: 3, isActive: false }),
+        ])
+      );
+
+    useMenuStore.getState().filterMenusByRole(["USER"], ["dashboard.main"]);
+
+    // 하위 메뉴가 모두 제외된 그룹 메뉴(grid)도 함께 제외
+    expect(
+      useMenuStore.getState().filteredMenus.map((menu) => menu.id)
+    ).toEqual(["dashboard"]);
+  });
+});
@@ -3,13 +3,41 @@
  * 동적 메뉴 관리를 위한 Zustand Store
  *
  * 기능:
- *   - API에서 메뉴 데이터 로드
- *   - 사용자 역할 기반 메뉴 필터링
+ *   - 서버(/api/menus)에서 메뉴 데이터 로드
+ *     (서버에 연결할 수 없으면 라우트 레지스트리 기반 menuTree에서 변환한 기본 메뉴 사용)
+ *   - 메뉴 추가/수정/삭제/순서 변경을 서버에 저장 (화면에 먼저 반영, 실패 시 롤백)
+ *   - 드래그 앤 드롭/키보드 이동(moveMenuNode)과 실행 취소(undoMenuMove)
+ *   - 다른 환경에서 내보낸 메뉴 가져오기(importMenus, 전체 교체)
+ *   - 사용자 역할 및 접근 가능한 routeKey 기반 메뉴 필터링
  *   - 메뉴 상태 관리 (열림/닫힘, 선택)
  */
 
 import { create } from "zustand";
 import { devtools } from "zustand/middleware";
+import { normalizeApiError } from "../api/apiError";
+import {
+  createMenu as createMenuApi,
+  deleteMenu as deleteMenuApi,
+  fetchMenus,
+  importMenus as importMenusApi,
+  reorderMenus as reorderMenusApi,
+  updateMenu as updateMenuApi,
+  type MenuOrderChange,
+} from "../api/menuApi";
+import { menuTree } from "../router/menuConfig";
+import { getPathByRouteKey } from "../router/routeRegistry";
+import {
+  applyTreeMove,
+  type TreeMove,
+  type TreeMoveRules,
+} from "../utils/treeMoveUtils";
+import {
+  MAX_MENU_DEPTH,
+  isMenuGroupNode,
+  isPageNode,
+  type MenuNode,
+  type MenuNodeType,
+} from "../router/menu.types";
 
 // ========================================
 // Types
@@ -23,8 +51,10 @@ export interface MenuItem {
   parentId: string | null;
   /** 메뉴 라벨 */
   label: string;
-  /** URL 경로 */
+  /** URL 경로 (routeKey가 있으면 라우트 레지스트리의 경로) */
   path: string;
+  /** 연결된 화면의 routeKey (라우트 레지스트리) */
+  routeKey?: string;
   /** 아이콘 이름 (lucide-react) */
   icon?: string;
   /** 접근 가능한 역할 (빈 배열 = 모두 허용) */
@@ -38,11 +68,13 @@ export interface MenuItem {
   /** 배지 텍스트 */
   badge?: string;
   /** 배지 색상 */
-  badgeColor?: "primary" | "success" | "warning" | "danger";
+  badgeColor?: "primary" | "success" | "warning" | "danger" | "info";
   /** 활성화 여부 */
   isActive: boolean;
   /** 하위 메뉴 */
   children?: MenuItem[];
+  /** 서버 저장 버전 (낙관적 잠금, 서버에 없는 기본 메뉴는 0) */
+  version: number;
 }
 
 /** 메뉴 그룹 */
@@ -67,12 +99,16 @@ interface MenuState {
   // UI 상태
   expandedMenuIds: Set<string>;
   activeMenuId: string | null;
+
+  // 이동 실행 취소용 (이동 전 위치, 마지막 이동이 끝)
+  moveHistory: MenuOrderChange[][];
 }
 
 /** 메뉴 생성/수정용 폼 데이터 */
 export interface MenuFormData {
   label: string;
   path: string;
+  routeKey?: string;
   parentId: string | null;
   icon?: string;
   roles: string[];
@@ -80,7 +116,7 @@ export interface MenuFormData {
   group?: string;
   hideInMenu?: boolean;
   badge?: string;
-  badgeColor?: "primary" | "success" | "warning" | "danger";
+  badgeColor?: "primary" | "success" | "warning" | "danger" | "info";
   isActive: boolean;
 }
 
@@ -91,11 +127,19 @@ interface MenuActions {
   setMenus: (menus: MenuItem[]) => void;
   setMenuGroups: (groups: MenuGroup[]) => void;
 
-  // CRUD
-  addMenu: (menu: MenuFormData) => MenuItem;
-  updateMenu: (id: string, data: Partial<MenuFormData>) => void;
-  deleteMenu: (id: string) => void;
-  moveMenu: (id: string, newParentId: string | null, newOrder: number) => void;
+  // CRUD (서버 저장, 실패 시 롤백 후 에러 throw)
+  addMenu: (menu: MenuFormData) => Promise<MenuItem>;
+  updateMenu: (id: string, data: Partial<MenuFormData>) => Promise<void>;
+  deleteMenu: (id: string) => Promise<void>;
+  moveMenu: (
+    id: string,
+    newParentId: string | null,
+    newOrder: number
+  ) => Promise<void>;
+  reorderMenus: (changes: MenuOrderChange[]) => Promise<void>;
+  moveMenuNode: (move: TreeMove) => Promise<void>;
+  undoMenuMove: () => Promise<void>;
+  importMenus: (menus: MenuItem[], groups: MenuGroup[]) => Promise<void>;
 
   // 그룹 CRUD
   addMenuGroup: (group: Omit<MenuGroup, "id">) => MenuGroup;
@@ -103,7 +147,7 @@ interface MenuActions {
   deleteMenuGroup: (id: string) => void;
 
   // 필터링
-  filterMenusByRole: (roles: string[]) => void;
+  filterMenusByRole: (roles: string[], accessibleRouteKeys?: string[]) => void;
 
   // UI 상태
   expandMenu: (menuId: string) => void;
@@ -134,8 +178,187 @@ const initialState: MenuState = {
   isLoaded: false,
   expandedMenuIds: new Set(),
   activeMenuId: null,
+  moveHistory: [],
+};
+
+/** 실행 취소할 수 있는 최대 이동 횟수 */
+const MAX_MOVE_HISTORY = 20;
+
+// ========================================
+// Tree Helpers
+// ========================================
+
+const byOrder = (a: MenuItem, b: MenuItem) => a.order - b.order;
+
+/**
+ * 평면 메뉴 목록을 parentId 기준 트리로 구성합니다.
+ * 부모를 찾을 수 없는 메뉴는 최상위에 둡니다.
+ */
+export function buildMenuItemTree(items: MenuItem[]): MenuItem[] {
+  const ids = new Set(items.map((item) => item.id));
+
+  const build = (parentId: string | null): MenuItem[] =>
+    items
+      .filter((item) =>
+        parentId === null
+          ? !item.parentId || !ids.has(item.parentId)
+          : item.parentId === parentId
+      )
+      .sort(byOrder)
+      .map((item) => {
+        const children = build(item.id);
+        return { ...item, children: children.length ? children : undefined };
+      });
+
+  return build(null);
+}
+
+/**
+ * 메뉴 트리를 평면 목록으로 변환합니다. (children 제외)
+ */
+export function flattenMenuItems(menus: MenuItem[]): MenuItem[] {
+  return menus.flatMap(({ children, ...item }) => [
+    item,
+    ...flattenMenuItems(children ?? []),
+  ]);
+}
+
+/**
+ * 메뉴 아이템의 노드 타입
+ *   - 외부 URL → external
+ *   - 하위 메뉴 없이 화면(routeKey)에 연결 → page
+ *   - 그 외 → menu (하위 메뉴를 가질 수 있음)
+ * category는 메뉴 그룹(MenuGroup)으로 표현되므로 메뉴 아이템에는 없습니다.
+ */
+export function getMenuItemNodeType(item: MenuItem): MenuNodeType {
+  if (/^https?:\/\//.test(item.path)) return "external";
+  if (item.routeKey && !item.children?.length) return "page";
+  return "menu";
+}
+
+/**
+ * 메뉴 아이템 이동 규칙
+ * 메뉴 그룹(category)이 Depth 1이므로 최상위 메뉴 아이템은 Depth 2부터 시작합니다.
+ */
+export const MENU_ITEM_MOVE_RULES: TreeMoveRules<MenuItem> = {
+  maxDepth: MAX_MENU_DEPTH - 1,
+  canHaveChildren: (item) => getMenuItemNodeType(item) === "menu",
 };
 
+/**
+ * 서버 저장 결과로 메뉴를 교체합니다. (생성 시 임시 id → 서버 id)
+ */
+function replaceMenuItem(
+  menus: MenuItem[],
+  saved: MenuItem,
+  targetId: string = saved.id
+): MenuItem[] {
+  return buildMenuItemTree(
+    flattenMenuItems(menus).map((item) => (item.id === targetId ? saved : item))
+  );
+}
+
+function toMenuFormData(item: MenuItem): MenuFormData {
+  return {
+    label: item.label,
+    path: item.path,
+    routeKey: item.routeKey,
+    parentId: item.parentId,
+    icon: item.icon,
+    roles: item.roles,
+    order: item.order,
+    group: item.group,
+    hideInMenu: item.hideInMenu,
+    badge: item.badge,
+    badgeColor: item.badgeColor,
+    isActive: item.isActive,
+  };
+}
+
+/**
+ * 이동 전/후 트리를 비교해 parentId/order/group이 바뀐 메뉴만 모읍니다.
+ * 이동 후에는 같은 부모 안에서 order를 1부터 다시 매깁니다.
+ *
+ * @returns changes: 저장할 변경, restore: 실행 취소 시 되돌릴 값
+ */
+function diffMenuOrder(
+  before: MenuItem[],
+  after: MenuItem[],
+  movedId: string
+): { changes: MenuOrderChange[]; restore: MenuOrderChange[] } {
+  const previous = new Map(
+    flattenMenuItems(before).map((item) => [item.id, item])
+  );
+  const changes: MenuOrderChange[] = [];
+  const restore: MenuOrderChange[] = [];
+
+  const visit = (menus: MenuItem[], parentId: string | null) =>
+    menus.forEach((menu, index) => {
+      const old = previous.get(menu.id) ?? menu;
+      // 최상위로 옮긴 메뉴는 바로 앞(없으면 뒤) 메뉴의 그룹을 따름
+      const neighbor = menus[index - 1] ?? menus[index + 1];
+      const group =
+        parentId === null && menu.id === movedId
+          ? neighbor?.group ?? old.group
+          : old.group;
+
+      if (
+        old.parentId !== parentId ||
+        old.order !== index + 1 ||
+        old.group !== group
+      ) {
+        changes.push({ id: menu.id, parentId, order: index + 1, group });
+        restore.push({
+          id: menu.id,
+          parentId: old.parentId,
+          order: old.order,
+          group: old.group,
+        });
+      }
+      visit(menu.children ?? [], menu.id);
+    });
+
+  visit(after, null);
+  return { changes, restore };
+}
+
+type MenuStoreSet = (partial: Partial<MenuState>) => void;
+
+/**
+ * 변경 내용을 화면에 먼저 반영한 뒤 서버에 저장합니다.
+ * 저장에 실패하면 이전 메뉴로 롤백하고 에러를 다시 throw 합니다.
+ *
+ * @param next 화면에 먼저 반영할 메뉴 트리
+ * @param request 서버 저장 요청
+ * @param reconcile 저장 결과(id/version)를 현재 메뉴 트리에 반영
+ */
+async function commitOptimistic<T>(
+  set: MenuStoreSet,
+  get: () => MenuState,
+  next: MenuItem[],
+  request: () => Promise<T>,
+  reconcile?: (menus: MenuItem[], result: T) => MenuItem[]
+): Promise<T> {
+  const previous = get().allMenus;
+  set({ allMenus: next, filteredMenus: next, error: null });
+
+  try {
+    const result = await request();
+    if (reconcile) {
+      const reconciled = reconcile(get().allMenus, result);
+      set({ allMenus: reconciled, filteredMenus: reconciled });
+    }
+    return result;
+  } catch (error) {
+    set({
+      allMenus: previous,
+      filteredMenus: previous,
+      error: normalizeApiError(error).message,
+    });
+    throw error;
+  }
+}
+
 // ========================================
 // Store
 // ========================================
@@ -153,20 +376,30 @@ export const useMenuStore = create<MenuState & MenuActions>()(
         set({ isLoading: true, error: null });
 
         try {
-          // Mock API 호출 (실제로는 httpClient.get('/api/menus') 사용)
-          const { menus, groups } = await fetchMenusFromApi();
+          const { menus, groups } = await fetchMenus();
+          const tree = buildMenuItemTree(menus);
 
           set({
-            allMenus: menus,
-            filteredMenus: menus,
+            allMenus: tree,
+            filteredMenus: tree,
             menuGroups: groups,
             isLoading: false,
             isLoaded: true,
+            moveHistory: [],
           });
         } catch (error) {
+          // 서버에 연결할 수 없으면 라우트 레지스트리 기반 기본 메뉴 표시 (저장 불가)
+          const fallback = buildMenusFromMenuTree(menuTree);
           set({
+            allMenus: fallback.menus,
+            filteredMenus: fallback.menus,
+            menuGroups: fallback.groups,
             isLoading: false,
-            error: error instanceof Error ? error.message : "메뉴 로드 실패",
+            isLoaded: true,
+            moveHistory: [],
+            error: `서버 메뉴를 불러오지 못해 기본 메뉴를 표시합니다. (${
+              normalizeApiError(error).message
+            })`,
           });
         }
       },
@@ -183,7 +416,7 @@ export const useMenuStore = create<MenuState & MenuActions>()(
       // 필터링
       // ========================================
 
-      filterMenusByRole: (userRoles) => {
+      filterMenusByRole: (userRoles, accessibleRouteKeys) => {
         const { allMenus } = get();
 
         const filterMenu = (menu: MenuItem): MenuItem | null => {
@@ -193,14 +426,32 @@ export const useMenuStore = create<MenuState & MenuActions>()(
             if (!hasRole) return null;
           }
 
-          // 숨김 메뉴 제외
-          if (menu.hideInMenu) return null;
+          // 숨김/비활성 메뉴 제외
+          if (menu.hideInMenu || !menu.isActive) return null;
+
+          // 접근할 수 없는 화면(routeKey)은 제외
+          if (
+            accessibleRouteKeys &&
+            menu.routeKey &&
+            !accessibleRouteKeys.includes(menu.routeKey)
+          ) {
+            return null;
+          }
 
           // 하위 메뉴 필터링
           const filteredChildren = menu.children
             ?.map(filterMenu)
             .filter((m): m is MenuItem => m !== null);
 
+          // 화면 없이 하위 메뉴만 묶는 메뉴는 남은 하위 메뉴가 없으면 제외
+          if (
+            !menu.routeKey &&
+            menu.children?.length &&
+            !filteredChildren?.length
+          ) {
+            return null;
+          }
+
           return {
             ...menu,
             children: filteredChildren?.length ? filteredChildren : undefined,
@@ -272,162 +523,149 @@ export const useMenuStore = create<MenuState & MenuActions>()(
       // CRUD
       // ========================================
 
-      addMenu: (menuData) => {
-        const newMenu: MenuItem = {
-          ...menuData,
-          id: `menu-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          children: undefined,
-        };
-
-        set((state) => {
-          const newMenus = [...state.allMenus];
-
-          if (menuData.parentId) {
-            // 부모 메뉴 찾아서 children에 추가
-            const addToParent = (menus: MenuItem[]): boolean => {
-              for (let i = 0; i < menus.length; i++) {
-                if (menus[i].id === menuData.parentId) {
-                  menus[i] = {
-                    ...menus[i],
-                    children: [...(menus[i].children || []), newMenu],
-                  };
-                  return true;
-                }
-                const childMenus = menus[i].children;
-                if (childMenus && addToParent(childMenus)) {
-                  return true;
-                }
-              }
-              return false;
-            };
-            addToParent(newMenus);
-          } else {
-            // 최상위 메뉴로 추가
-            newMenus.push(newMenu);
-          }
-
-          return {
-            allMenus: newMenus,
-            filteredMenus: newMenus,
-          };
-        });
+      addMenu: async (menuData) => {
+        const tempId = `temp-${Date.now()}`;
+        const optimistic: MenuItem = { ...menuData, id: tempId, version: 0 };
+
+        return commitOptimistic(
+          set,
+          get,
+          buildMenuItemTree([...flattenMenuItems(get().allMenus), optimistic]),
+          () => createMenuApi(menuData),
+          (menus, saved) => replaceMenuItem(menus, saved, tempId)
+        );
+      },
 
-        return newMenu;
+      updateMenu: async (id, data) => {
+        const flat = flattenMenuItems(get().allMenus);
+        const current = flat.find((item) => item.id === id);
+        if (!current) return;
+
+        const updated: MenuItem = { ...current, ...data };
+        await commitOptimistic(
+          set,
+          get,
+          buildMenuItemTree(
+            flat.map((item) => (item.id === id ? updated : item))
+          ),
+          () => updateMenuApi(id, toMenuFormData(updated), current.version),
+          replaceMenuItem
+        );
       },
 
-      updateMenu: (id, data) => {
-        set((state) => {
-          const updateInMenus = (menus: MenuItem[]): MenuItem[] => {
-            return menus.map((menu) => {
-              if (menu.id === id) {
-                return { ...menu, ...data };
-              }
-              if (menu.children) {
-                return {
-                  ...menu,
-                  children: updateInMenus(menu.children),
-                };
-              }
-              return menu;
-            });
-          };
+      deleteMenu: async (id) => {
+        const flat = flattenMenuItems(get().allMenus);
+        const current = flat.find((item) => item.id === id);
+        if (!current) return;
 
-          const newMenus = updateInMenus(state.allMenus);
-          return {
-            allMenus: newMenus,
-            filteredMenus: newMenus,
-          };
+        // 하위 메뉴도 함께 삭제
+        const deletedIds = new Set([id]);
+        flat.forEach((item) => {
+          if (item.parentId && deletedIds.has(item.parentId)) {
+            deletedIds.add(item.id);
+          }
         });
-      },
 
-      deleteMenu: (id) => {
-        set((state) => {
-          const deleteFromMenus = (menus: MenuItem[]): MenuItem[] => {
-            return menus
-              .filter((menu) => menu.id !== id)
-              .map((menu) => {
-                if (menu.children) {
-                  return {
-                    ...menu,
-                    children: deleteFromMenus(menu.children),
-                  };
-                }
-                return menu;
-              });
-          };
+        await commitOptimistic(
+          set,
+          get,
+          buildMenuItemTree(flat.filter((item) => !deletedIds.has(item.id))),
+          () => deleteMenuApi(id, current.version)
+        );
+        // 삭제된 메뉴가 포함된 이동은 되돌릴 수 없음
+        set({ moveHistory: [] });
+      },
 
-          const newMenus = deleteFromMenus(state.allMenus);
-          return {
-            allMenus: newMenus,
-            filteredMenus: newMenus,
-          };
-        });
+      moveMenu: async (id, newParentId, newOrder) => {
+        await get().reorderMenus([
+          { id, parentId: newParentId, order: newOrder },
+        ]);
       },
 
-      moveMenu: (id, newParentId, newOrder) => {
-        set((state) => {
-          let menuToMove: MenuItem | null = null;
-
-          // 먼저 메뉴를 찾아서 제거
-          const removeMenu = (menus: MenuItem[]): MenuItem[] => {
-            return menus
-              .filter((menu) => {
-                if (menu.id === id) {
-                  menuToMove = { ...menu };
-                  return false;
-                }
-                return true;
-              })
-              .map((menu) => {
-                if (menu.children) {
-                  return {
-                    ...menu,
-                    children: removeMenu(menu.children),
-                  };
-                }
-                return menu;
-              });
-          };
+      reorderMenus: async (changes) => {
+        const flat = flattenMenuItems(get().allMenus);
+        const changeMap = new Map(changes.map((change) => [change.id, change]));
+
+        await commitOptimistic(
+          set,
+          get,
+          buildMenuItemTree(
+            flat.map((item) => {
+              const change = changeMap.get(item.id);
+              return change
+                ? {
+                    ...item,
+                    parentId: change.parentId,
+                    order: change.order,
+                    group: change.group ?? item.group,
+                  }
+                : item;
+            })
+          ),
+          () =>
+            reorderMenusApi(
+              changes.map((change) => ({
+                ...change,
+                version:
+                  flat.find((item) => item.id === change.id)?.version ?? 0,
+              }))
+            ),
+          (menus, saved) =>
+            saved.reduce((acc, item) => replaceMenuItem(acc, item), menus)
+        );
+      },
 
-          const newMenus = removeMenu(state.allMenus);
+      moveMenuNode: async (move) => {
+        const { allMenus } = get();
+        const { changes, restore } = diffMenuOrder(
+          allMenus,
+          applyTreeMove(allMenus, move),
+          move.nodeId
+        );
+        if (changes.length === 0) return;
+
+        await get().reorderMenus(changes);
+        set((state) => ({
+          moveHistory: [...state.moveHistory, restore].slice(-MAX_MOVE_HISTORY),
+        }));
+      },
 
-          if (!menuToMove) return state;
+      undoMenuMove: async () => {
+        const { moveHistory } = get();
+        const last = moveHistory[moveHistory.length - 1];
+        if (!last) return;
 
-          // 새 위치에 메뉴 추가 (null check 후 타입 단언)
-          const foundMenu = menuToMove as MenuItem;
-          const movedMenu: MenuItem = {
-            ...foundMenu,
-            order: newOrder,
-            parentId: newParentId,
-          };
+        // 저장에 성공한 뒤에만 기록에서 제거 (실패하면 다시 실행 취소할 수 있음)
+        await get().reorderMenus(last);
+        set((state) => ({
+          moveHistory: state.moveHistory.filter((entry) => entry !== last),
+        }));
+      },
 
-          if (newParentId) {
-            const addToParent = (menus: MenuItem[]): boolean => {
-              for (let i = 0; i < menus.length; i++) {
-                if (menus[i].id === newParentId) {
-                  const children = [...(menus[i].children || []), movedMenu];
-                  children.sort((a, b) => a.order - b.order);
-                  menus[i] = { ...menus[i], children };
-                  return true;
-                }
-                const childMenus = menus[i].children;
-                if (childMenus && addToParent(childMenus)) {
-                  return true;
-                }
-              }
-              return false;
-            };
-            addToParent(newMenus);
-          } else {
-            newMenus.push(movedMenu);
-            newMenus.sort((a, b) => a.order - b.order);
-          }
+      importMenus: async (menus, groups) => {
+        // 비교 화면을 연 시점의 version을 기준으로 전체 교체
+        const baseVersions = Object.fromEntries(
+          flattenMenuItems(get().allMenus).map((item) => [
+            item.id,
+            item.version,
+          ])
+        );
+        set({ isLoading: true, error: null });
 
-          return {
-            allMenus: newMenus,
-            filteredMenus: newMenus,
-          };
-        });
+        try {
+          const saved = await importMenusApi({ menus, groups, baseVersions });
+          const tree = buildMenuItemTree(saved.menus);
+          set({
+            allMenus: tree,
+            filteredMenus: tree,
+            menuGroups: saved.groups,
+            isLoading: false,
+            moveHistory: [],
+          });
+        } catch (error) {
+          set({ isLoading: false, error: normalizeApiError(error).message });
+          throw error;
+        }
       },
 
       // ========================================
@@ -542,324 +780,70 @@ export const useMenuStore = create<MenuState & MenuActions>()(
 );
 
 // ========================================
-// Mock API
+// Fallback Menus
 // ========================================
 
-interface MenuApiResponse {
+/**
+ * 라우트 레지스트리에서 생성된 메뉴 트리를 MenuItem/MenuGroup으로 변환합니다.
+ * 서버에 연결할 수 없을 때 표시하는 기본 메뉴입니다. (version 0, 저장 불가)
+ *   - 최상위 카테고리 → MenuGroup
+ *   - 메뉴 그룹/페이지/외부 링크 → MenuItem (path는 레지스트리에서 조회)
+ */
+function buildMenusFromMenuTree(nodes: MenuNode[]): {
   menus: MenuItem[];
   groups: MenuGroup[];
-}
-
-async function fetchMenusFromApi(): Promise<MenuApiResponse> {
-  // 실제로는 httpClient.get('/api/menus') 사용
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      resolve({
-        menus: generateMockMenus(),
-        groups: [
-          { id: "main", label: "", order: 0 },
-          { id: "management", label: "관리", order: 10 },
-          { id: "data", label: "데이터", order: 20 },
-          { id: "samples", label: "예시", order: 45 },
-          { id: "tools", label: "개발자 도구", order: 50 },
-          { id: "system", label: "시스템", order: 100 },
-        ],
-      });
-    }, 300);
-  });
-}
-
-function generateMockMenus(): MenuItem[] {
-  return [
-    // 대시보드
-    {
-      id: "dashboard",
-      parentId: null,
-      label: "대시보드",
-      path: "/dashboard",
-      icon: "LayoutDashboard",
-      roles: [], // 모든 인증된 사용자
-      order: 1,
-      group: "main",
-      isActive: true,
-    },
-    // 사용자 관리
-    {
-      id: "users",
-      parentId: null,
-      label: "사용자 관리",
-      path: "/users",
-      icon: "Users",
-      roles: ["ADMIN", "MANAGER"],
-      order: 10,
-      group: "management",
-      isActive: true,
-      children: [
-        {
-          id: "users-list",
-          parentId: "users",
-          label: "사용자 목록",
-          path: "/users",
-          roles: ["ADMIN", "MANAGER"],
-          order: 1,
-          isActive: true,
-          hideInMenu: true,
-        },
-        {
-          id: "users-dialog-sample",
-          parentId: "users",
-          label: "사용자 CRUD (Dialog)",
-          path: "/users/dialog-sample",
-          roles: ["ADMIN", "MANAGER"],
-          order: 2,
-          isActive: true,
-        },
-      ],
-    },
-    // 일정 관리
-    {
-      id: "schedules",
-      parentId: null,
-      label: "일정 관리",
-      path: "/schedules",
-      icon: "Calendar",
-      roles: [],
-      order: 20,
-      group: "management",
-      isActive: true,
-    },
-    // 그리드 샘플
-    {
-      id: "grid-samples",
-      parentId: null,
-      label: "그리드 샘플",
-      path: "/grid-samples",
-      icon: "Table",
-      roles: [],
-      order: 30,
-      group: "data",
-      badge: "Lab",
-      badgeColor: "primary",
-      isActive: true,
-      children: [
-        {
-          id: "grid-ag-basic",
-          parentId: "grid-samples",
-          label: "AG Grid 기본",
-          path: "/grid-samples/ag-basic",
-          roles: [],
-          order: 1,
-          isActive: true,
-        },
-        {
-          id: "grid-tanstack-basic",
-          parentId: "grid-samples",
-          label: "TanStack Table 기본",
-          path: "/grid-samples/tanstack-basic",
-          roles: [],
-          order: 2,
-          isActive: true,
-        },
-        {
-          id: "grid-ag-aggregation-grouping",
-          parentId: "grid-samples",
-          label: "그룹핑 & 집계",
-          path: "/grid-samples/ag-aggregation-grouping",
-          roles: [],
-          order: 3,
-          isActive: true,
-        },
-        {
-          id: "grid-tanstack-role-based",
-          parentId: "grid-samples",
-          label: "역할 기반 컬럼",
-          path: "/grid-samples/tanstack-role-based",
-          roles: [],
-          order: 4,
-          isActive: true,
-        },
-        {
-          id: "grid-ag-editing-validation",
-          parentId: "grid-samples",
-          label: "인라인 편집",
-          path: "/grid-samples/ag-editing-validation",
-          roles: [],
-          order: 5,
-          isActive: true,
-        },
-        {
-          id: "grid-ag-infinite-scroll",
-          parentId: "grid-samples",
-          label: "무한 스크롤",
-          path: "/grid-samples/ag-infinite-scroll",
-          roles: [],
-          order: 6,
-          isActive: true,
-        },
-        {
-          id: "grid-ag-pivot-chart",
-          parentId: "grid-samples",
-          label: "차트 연동",
-          path: "/grid-samples/ag-pivot-chart",
-          roles: [],
-          order: 7,
-          isActive: true,
-        },
-        {
-          id: "grid-multi-tabs",
-          parentId: "grid-samples",
-          label: "Multi-Grid Tabs",
-          path: "/grid-samples/multi-grid-tabs",
-          roles: [],
-          order: 8,
-          isActive: true,
-        },
-        {
-          id: "grid-tree-data",
-          parentId: "grid-samples",
-          label: "Tree Data",
-          path: "/grid-samples/tree-data-grid",
-          roles: [],
-          order: 9,
-          isActive: true,
-        },
-        {
-          id: "grid-form-like",
-          parentId: "grid-samples",
-          label: "Form-Like Grid",
-          path: "/grid-samples/form-like-grid",
-          roles: [],
-          order: 10,
-          isActive: true,
-        },
-        {
-          id: "grid-filter-playground",
-          parentId: "grid-samples",
-          label: "Filter Playground",
-          path: "/grid-samples/tanstack-filter-playground",
-          roles: [],
-          order: 11,
-          isActive: true,
-        },
-        {
-          id: "grid-master-detail",
-          parentId: "grid-samples",
-          label: "멀티그리드 연동",
-          path: "/grid-samples/master-detail",
-          roles: [],
-          order: 12,
-          badge: "New",
-          badgeColor: "success",
-          isActive: true,
-        },
-        {
-          id: "global-state-demo",
-          parentId: "grid-samples",
-          label: "전역 상태 관리",
-          path: "/grid-samples/global-state-demo",
-          roles: [],
-          order: 13,
-          badge: "New",
-          badgeColor: "success",
-          isActive: true,
-        },
-        {
-          id: "grid-row-detail-modal",
-          parentId: "grid-samples",
-          label: "그리드 행 상세 모달",
-          path: "/grid-samples/row-detail-modal",
-          roles: [],
-          order: 14,
-          isActive: true,
-        },
-      ],
-    },
-    // 게시물 관리
-    {
-      id: "articles",
-      parentId: null,
-      label: "게시물 관리",
-      path: "/articles",
-      icon: "FileText",
+} {
+  const toMenuItem = (
+    node: MenuNode,
+    parentId: string | null,
+    group?: string
+  ): MenuItem => {
+    const routeKey =
+      isPageNode(node) || isMenuGroupNode(node) ? node.routeKey : undefined;
+    const children =
+      isMenuGroupNode(node) && node.children
+        ? node.children.map((child) => toMenuItem(child, node.id))
+        : undefined;
+
+    return {
+      id: node.id,
+      parentId,
+      label: node.label,
+      routeKey,
+      path:
+        node.type === "external"
+          ? node.href
+          : (routeKey && getPathByRouteKey(routeKey)) ||
+            children?.[0]?.path ||
+            "",
+      icon: node.icon?.displayName,
       roles: [],
-      order: 40,
-      group: "data",
+      order: node.order ?? 0,
+      group,
+      hideInMenu: node.hidden,
+      badge: node.badge,
+      badgeColor: node.badgeColor,
       isActive: true,
-      children: [
-        {
-          id: "articles-create",
-          parentId: "articles",
-          label: "게시글 작성",
-          path: "/articles/new",
-          roles: ["ADMIN"],
-          order: 1,
-          isActive: true,
-        },
-      ],
-    },
-    // 상품 관리
-    {
-      id: "products",
-      parentId: null,
-      label: "상품 관리",
-      path: "/products",
-      icon: "Package",
-      roles: [],
-      order: 45,
-      group: "data",
-      badge: "CRUD",
-      badgeColor: "success",
-      isActive: true,
-    },
-    // 개발자 도구
-    {
-      id: "dev-tools",
-      parentId: null,
-      label: "개발자 도구",
-      path: "/tools",
-      icon: "Code2",
-      roles: ["ADMIN", "DEV"],
-      order: 50,
-      group: "tools",
-      isActive: true,
-      children: [
-        {
-          id: "swagger-playground",
-          parentId: "dev-tools",
-          label: "Swagger Playground",
-          path: "/tools/swagger-playground",
-          icon: "Globe",
-          roles: ["ADMIN", "DEV"],
-          order: 1,
-          isActive: true,
-        },
-      ],
-    },
-    // 설정
-    {
-      id: "settings",
-      parentId: null,
-      label: "설정",
-      path: "/settings",
-      icon: "Settings",
-      roles: ["ADMIN"],
-      order: 100,
-      group: "system",
-      isActive: true,
-    },
-    // 도움말
-    {
-      id: "help",
-      parentId: null,
-      label: "도움말",
-      path: "/help",
-      icon: "HelpCircle",
-      roles: [],
-      order: 110,
-      group: "system",
-      isActive: true,
-    },
-  ];
+      children,
+      version: 0,
+    };
+  };
+
+  const groups: MenuGroup[] = [];
+  const menus: MenuItem[] = [];
+
+  nodes.forEach((node) => {
+    if (node.type !== "category") {
+      menus.push(toMenuItem(node, null));
+      return;
+    }
+    groups.push({ id: node.id, label: node.label, order: node.order ?? 0 });
+    node.children.forEach((child) =>
+      menus.push(toMenuItem(child, null, node.id))
+    );
+  });
+
+  return { menus, groups };
 }
 
 // ========================================
@@ -0,0 +1,82 @@
+/**
+ * SoftOne Design System - PermissionMatrixStore Tests
+ * 서버 권한 매트릭스 적용 시 authStore 재계산 테스트
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { usePermissionMatrixStore } from "./permissionMatrixStore";
+import { useAuthStore } from "./authStore";
+import { DEFAULT_PERMISSION_MATRIX, PERMISSION_KEYS } from "../auth/role.types";
+import {
+  applyPermissionMatrix,
+  normalizePermissionMatrix,
+} from "../api/permissionMatrixApi";
+
+const STAFF_USER = {
+  id: "4",
+  name: "일반 직원",
+  email: "user@softone.co.kr",
+  roles: ["USER"],
+};
+
+describe("permissionMatrixStore", () => {
+  beforeEach(() => {
+    usePermissionMatrixStore.getState().resetMatrix();
+    useAuthStore.getState().logout();
+  });
+
+  it("매트릭스가 변경되면 로그인한 사용자의 권한을 즉시 재계산함", () => {
+    useAuthStore.getState().login({
+      user: STAFF_USER,
+      accessToken: "token",
+      role: "STAFF",
+      grade: "JUNIOR",
+    });
+    expect(
+      useAuthStore.getState().hasPermission(PERMISSION_KEYS.PAGE_PRODUCTS_VIEW)
+    ).toBe(false);
+
+    applyPermissionMatrix({
+      ...DEFAULT_PERMISSION_MATRIX,
+      version: 1,
+      rolePermissions: {
+        ...DEFAULT_PERMISSION_MATRIX.rolePermissions,
+        STAFF: [
+          ...DEFAULT_PERMISSION_MATRIX.rolePermissions.STAFF,
+          PERMISSION_KEYS.MENU_PRODUCTS_VIEW,
+          PERMISSION_KEYS.PAGE_PRODUCTS_VIEW,
+        ],
+      },
+    });
+
+    const state = useAuthStore.getState();
+    expect(state.basePermissions).toContain(PERMISSION_KEYS.PAGE_PRODUCTS_VIEW);
+    expect(state.hasPermission(PERMISSION_KEYS.PAGE_PRODUCTS_VIEW)).toBe(true);
+  });
+
+  it("같은 버전의 매트릭스는 다시 적용하지 않음", () => {
+    expect(applyPermissionMatrix(DEFAULT_PERMISSION_MATRIX)).toBe(false);
+    expect(
+      applyPermissionMatrix({ ...DEFAULT_PERMISSION_MATRIX, version: 2 })
+    ).toBe(true);
+  });
+
+  it("서버 응답의 누락된 키는 기본값, 알 수 없는 권한은 제거함", () => {
+    const matrix = normalizePermissionMatrix({
+      version: 3,
+      roles: null,
+      rolePermissions: { GUEST: ["menu:dashboard:view", "unknown:key"] },
+      gradePermissionBoost: null,
+      updatedAt: "2024-01-01T00:00:00Z",
+      updatedBy: "admin",
+    });
+
+    expect(matrix.rolePermissions.GUEST).toEqual(["menu:dashboard:view"]);
+    expect(matrix.rolePermissions.STAFF).toEqual(
+      DEFAULT_PERMISSION_MATRIX.rolePermissions.STAFF
+    );
+    expect(matrix.gradePermissionBoost).toEqual(
+      DEFAULT_PERMISSION_MATRIX.gradePermissionBoost
+    );
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * SoftOne Design System(SDS) - Permission Matrix Store
+ * 작성: SoftOne Frontend Team
+ *
+ * 서버에 저장된 Role/Grade 권한 매트릭스를 보관합니다.
+ *   - 서버 매트릭스를 불러오기 전에는 DEFAULT_PERMISSION_MATRIX(version 0)를 사용합니다.
+ *   - 마지막으로 적용한 매트릭스는 로컬스토리지에 저장되어 새로고침 직후에도 유지됩니다.
+ *   - authStore가 matrix 변경을 구독하여 recomputeAccessContext()로 즉시 재계산합니다.
+ */
+
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import {
+  DEFAULT_PERMISSION_MATRIX,
+  DEFAULT_ROLE_DEFINITIONS,
+  type PermissionMatrix,
+} from "../auth/role.types";
+
+// ========================================
+// Types
+// ========================================
+
+export interface PermissionMatrixState {
+  /** 현재 적용 중인 권한 매트릭스 */
+  matrix: PermissionMatrix;
+}
+
+export interface PermissionMatrixActions {
+  /**
+   * 권한 매트릭스 적용
+   * 서버가 기준이므로 버전이 낮아져도(서버 DB 초기화 등) 그대로 적용합니다.
+   */
+  setMatrix: (matrix: PermissionMatrix) => void;
+
+  /** 기본 매트릭스로 되돌리기 */
+  resetMatrix: () => void;
+}
+
+export type PermissionMatrixStore = PermissionMatrixState &
+  PermissionMatrixActions;
+
+// ========================================
+// Store Implementation
+// ========================================
+
+export const usePermissionMatrixStore = create<PermissionMatrixStore>()(
+  persist(
+    (set) => ({
+      matrix: DEFAULT_PERMISSION_MATRIX,
+
+      setMatrix: (matrix) => {
+        set({ matrix });
+      },
+
+      resetMatrix: () => {
+        set({ matrix: DEFAULT_PERMISSION_MATRIX });
+      },
+    }),
+    {
+      name: "sds-permission-matrix",
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({ matrix: state.matrix }),
+      // v1: 역할 레지스트리(roles) 추가
+      version: 1,
+      migrate: (persisted) => {
+        const { matrix } = persisted as PermissionMatrixState;
+        return {
+          matrix: {
+            ...matrix,
+            roles: matrix.roles ?? DEFAULT_ROLE_DEFINITIONS,
+          },
+        } as PermissionMatrixState;
+      },
+    }
+  )
+);
+
+// ========================================
+// Selectors
+// ========================================
+
+/**
+ * 현재 권한 매트릭스 셀렉터
+ */
+export const selectPermissionMatrix = (state: PermissionMatrixStore) =>
+  state.matrix;
+
+/**
+ * 현재 권한 매트릭스 버전 셀렉터
+ */
+export const selectPermissionMatrixVersion = (state: PermissionMatrixStore) =>
+  state.matrix.version;
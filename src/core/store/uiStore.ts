@@ -12,6 +12,13 @@ import { persist, createJSONStorage } from "zustand/middleware";
 
 export type Theme = "light" | "dark" | "system";
 
+/**
+ * 사이드바 메뉴 모드
+ * - filtered: authStore.filteredMenuTree 사용 (라우트 레지스트리 기반, User Menu Policy 반영)
+ * - dynamic: menuStore 사용 (서버에 저장된 메뉴)
+ */
+export type SidebarMenuMode = "filtered" | "dynamic";
+
 export interface UIState {
   /** 현재 테마 */
   theme: Theme;
@@ -22,6 +29,9 @@ export interface UIState {
   /** 모바일 사이드바 열림 상태 */
   isMobileSidebarOpen: boolean;
 
+  /** 사이드바 메뉴 모드 */
+  sidebarMenuMode: SidebarMenuMode;
+
   /** 전역 로딩 상태 */
   isGlobalLoading: boolean;
 
@@ -42,6 +52,9 @@ export interface UIActions {
   /** 사이드바 토글 */
   toggleSidebar: () => void;
 
+  /** 사이드바 메뉴 모드 설정 */
+  setSidebarMenuMode: (mode: SidebarMenuMode) => void;
+
   /** 모바일 사이드바 상태 설정 */
   setMobileSidebarOpen: (open: boolean) => void;
 
@@ -67,6 +80,7 @@ export const useUIStore = create<UIStore>()(
       theme: "light",
       isSidebarCollapsed: false,
       isMobileSidebarOpen: false,
+      sidebarMenuMode: "filtered",
       isGlobalLoading: false,
       globalLoadingMessage: "",
 
@@ -94,6 +108,10 @@ export const useUIStore = create<UIStore>()(
         set((state) => ({ isSidebarCollapsed: !state.isSidebarCollapsed }));
       },
 
+      setSidebarMenuMode: (mode) => {
+        set({ sidebarMenuMode: mode });
+      },
+
       setMobileSidebarOpen: (open) => {
         set({ isMobileSidebarOpen: open });
       },
@@ -112,6 +130,7 @@ export const useUIStore = create<UIStore>()(
       partialize: (state) => ({
         theme: state.theme,
         isSidebarCollapsed: state.isSidebarCollapsed,
+        sidebarMenuMode: state.sidebarMenuMode,
       }),
       onRehydrateStorage: () => (state) => {
         if (state) {
@@ -133,7 +152,8 @@ function applyTheme(theme: Theme) {
   const root = document.documentElement;
 
   if (theme === "system") {
-    const systemTheme = window.matchMedia("(prefers-color-scheme: dark)").matches
+    const systemTheme = window.matchMedia("(prefers-color-scheme: dark)")
+      .matches
       ? "dark"
       : "light";
     root.classList.toggle("dark", systemTheme === "dark");
@@ -0,0 +1,123 @@
+/**
+ * SoftOne Design System - UnsavedChangesStore Tests
+ * 변경 내용 버리기 확인, 가드 선택(범위/탭), dialogStore.closeDialog 확인 테스트
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  useUnsavedChangesStore,
+  inGuardScope,
+  inWorkspaceTab,
+  DEFAULT_UNSAVED_CHANGES_MESSAGE,
+  type UnsavedChangesGuard,
+} from "./unsavedChangesStore";
+import { useDialogStore } from "./dialogStore";
+
+const guard = (
+  id: string,
+  overrides: Partial<UnsavedChangesGuard> = {}
+): UnsavedChangesGuard => ({
+  id,
+  isDirty: true,
+  tabKey: null,
+  scope: null,
+  ...overrides,
+});
+
+describe("unsavedChangesStore", () => {
+  beforeEach(() => {
+    useUnsavedChangesStore.setState({ guards: [], pendingConfirm: null });
+    useDialogStore.setState({ dialogs: [] });
+  });
+
+  it("변경 사항이 없으면 확인 없이 진행한다", async () => {
+    const { setGuard, confirmDiscardChanges } =
+      useUnsavedChangesStore.getState();
+    setGuard(guard("a", { isDirty: false }));
+
+    await expect(confirmDiscardChanges()).resolves.toBe(true);
+    expect(useUnsavedChangesStore.getState().pendingConfirm).toBeNull();
+  });
+
+  it("확인하면 대상 가드를 변경 없음으로 표시하고, 취소하면 유지한다", async () => {
+    const { setGuard, confirmDiscardChanges, resolvePendingConfirm } =
+      useUnsavedChangesStore.getState();
+    setGuard(guard("a", { message: "폼을 닫을까요?" }));
+
+    const cancelled = confirmDiscardChanges();
+    expect(useUnsavedChangesStore.getState().pendingConfirm?.message).toBe(
+      "폼을 닫을까요?"
+    );
+    resolvePendingConfirm(false);
+    await expect(cancelled).resolves.toBe(false);
+    expect(useUnsavedChangesStore.getState().hasUnsavedChanges()).toBe(true);
+
+    const confirmed = confirmDiscardChanges();
+    resolvePendingConfirm(true);
+    await expect(confirmed).resolves.toBe(true);
+    expect(useUnsavedChangesStore.getState().hasUnsavedChanges()).toBe(false);
+  });
+
+  it("여러 가드 중 범위/탭에 해당하는 가드만 확인한다", async () => {
+    const { setGuard, confirmDiscardChanges, resolvePendingConfirm } =
+      useUnsavedChangesStore.getState();
+    setGuard(guard("page", { tabKey: "users.list" }));
+    setGuard(guard("dialog", { scope: "dialog-1" }));
+    setGuard(guard("other", { tabKey: "system.settings" }));
+
+    const { hasUnsavedChanges } = useUnsavedChangesStore.getState();
+    expect(hasUnsavedChanges(inGuardScope("dialog-2"))).toBe(false);
+    expect(hasUnsavedChanges(inWorkspaceTab("users.list"))).toBe(true);
+
+    const result = confirmDiscardChanges(inWorkspaceTab("users.list"));
+    // 여러 가드를 함께 확인하면 기본 메시지
+    expect(useUnsavedChangesStore.getState().pendingConfirm).toMatchObject({
+      message: DEFAULT_UNSAVED_CHANGES_MESSAGE,
+      guardIds: ["page"],
+    });
+    resolvePendingConfirm(true);
+    await result;
+
+    const dirtyIds = useUnsavedChangesStore
+      .getState()
+      .guards.filter((g) => g.isDirty)
+      .map((g) => g.id);
+    expect(dirtyIds).toEqual(["dialog", "other"]);
+  });
+
+  it("확인이 표시 중이면 다른 확인 요청은 진행하지 않는다", async () => {
+    const { setGuard, confirmDiscardChanges, resolvePendingConfirm } =
+      useUnsavedChangesStore.getState();
+    setGuard(guard("a"));
+
+    const first = confirmDiscardChanges();
+    await expect(confirmDiscardChanges()).resolves.toBe(false);
+
+    resolvePendingConfirm(true);
+    await expect(first).resolves.toBe(true);
+  });
+
+  it("markGuardClean은 해당 가드만 변경 없음으로 표시한다", () => {
+    const { setGuard, markGuardClean } = useUnsavedChangesStore.getState();
+    setGuard(guard("a"));
+    setGuard(guard("b"));
+
+    markGuardClean("a");
+
+    const { guards } = useUnsavedChangesStore.getState();
+    expect(guards.map((g) => g.isDirty)).toEqual([false, true]);
+  });
+
+  it("dialogStore.closeDialog는 다이얼로그 범위 가드를 확인한 뒤 닫는다", async () => {
+    const id = useDialogStore.getState().openDialog({ type: "form" });
+    useUnsavedChangesStore.getState().setGuard(guard("form", { scope: id }));
+
+    useDialogStore.getState().closeDialog();
+    expect(useDialogStore.getState().dialogs).toHaveLength(1);
+    expect(useUnsavedChangesStore.getState().pendingConfirm).not.toBeNull();
+
+    useUnsavedChangesStore.getState().resolvePendingConfirm(true);
+    await Promise.resolve();
+    expect(useDialogStore.getState().dialogs).toHaveLength(0);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * SoftOne Design System(SDS) - Unsaved Changes Store
+ * 작성: SoftOne Frontend Team
+ *
+ * 저장하지 않은 변경 사항(가드) 목록과 "변경 내용 버리기" 확인 요청을 관리합니다.
+ *   - 화면/폼은 useUnsavedChangesGuard로 가드를 등록합니다. (한 화면에 여러 개 가능)
+ *   - 화면 이동(SpaNavigationProvider), 작업 공간 탭 닫기(WorkspaceTabs),
+ *     dialogStore.closeDialog가 해당하는 가드만 골라 confirmDiscardChanges로 확인합니다.
+ *   - 확인 다이얼로그(ConfirmDialog)는 UnsavedChangesDialog(DialogRoot에 포함)가 표시합니다.
+ *   - 버리기로 확인한 가드는 변경 없음으로 표시되어, 이어지는 닫기/이동에서 다시 묻지 않습니다.
+ */
+
+import { create } from "zustand";
+
+// ========================================
+// Types
+// ========================================
+
+export interface UnsavedChangesGuard {
+  /** 가드 ID (훅 인스턴스별) */
+  id: string;
+  isDirty: boolean;
+  /** 가드를 등록한 작업 공간 탭의 routeKey (탭 밖이면 null) */
+  tabKey: string | null;
+  /** 가드 범위 (dialogStore 다이얼로그 ID, 로컬 모달 이름 등) */
+  scope: string | null;
+  /** 확인 메시지 (없으면 기본 메시지) */
+  message?: string;
+}
+
+/** 확인 대상 가드 선택 (없으면 모든 가드) */
+export type UnsavedChangesGuardFilter = (guard: UnsavedChangesGuard) => boolean;
+
+export interface UnsavedChangesConfirmRequest {
+  message: string;
+  /** 확인 대상 가드 ID */
+  guardIds: string[];
+  resolve: (confirmed: boolean) => void;
+}
+
+interface UnsavedChangesState {
+  guards: UnsavedChangesGuard[];
+  /** 표시 중인 확인 요청 */
+  pendingConfirm: UnsavedChangesConfirmRequest | null;
+}
+
+interface UnsavedChangesActions {
+  /** 가드 등록/갱신 (같은 id면 교체) */
+  setGuard: (guard: UnsavedChangesGuard) => void;
+
+  removeGuard: (id: string) => void;
+
+  /** 가드를 변경 없음으로 표시 (저장 직후 isDirty 반영 전에 닫을 때) */
+  markGuardClean: (id: string) => void;
+
+  /** 변경 사항이 있는 가드가 있는지 */
+  hasUnsavedChanges: (filter?: UnsavedChangesGuardFilter) => boolean;
+
+  /**
+   * 변경 사항이 있으면 버릴지 확인
+   * @returns 변경 사항이 없거나 버리기로 확인하면 true
+   *          (다른 확인이 표시 중이면 false)
+   */
+  confirmDiscardChanges: (
+    filter?: UnsavedChangesGuardFilter
+  ) => Promise<boolean>;
+
+  /** 확인 다이얼로그 응답 (UnsavedChangesDialog에서 호출) */
+  resolvePendingConfirm: (confirmed: boolean) => void;
+}
+
+export type UnsavedChangesStore = UnsavedChangesState & UnsavedChangesActions;
+
+// ========================================
+// Constants & Helpers
+// ========================================
+
+export const DEFAULT_UNSAVED_CHANGES_MESSAGE =
+  "저장하지 않은 변경 사항이 있습니다. 변경 내용을 버리고 계속하시겠습니까?";
+
+/** 특정 범위의 가드만 선택 */
+export const inGuardScope =
+  (scope: string): UnsavedChangesGuardFilter =>
+  (guard) =>
+    guard.scope === scope;
+
+/** 특정 작업 공간 탭의 가드만 선택 */
+export const inWorkspaceTab =
+  (tabKey: string): UnsavedChangesGuardFilter =>
+  (guard) =>
+    guard.tabKey === tabKey;
+
+// ========================================
+// Store Implementation
+// ========================================
+
+export const useUnsavedChangesStore = create<UnsavedChangesStore>(
+  (set, get) => {
+    const getDirtyGuards = (filter?: UnsavedChangesGuardFilter) =>
+      get().guards.filter(
+        (guard) => guard.isDirty && (!filter || filter(guard))
+      );
+
+    return {
+      guards: [],
+      pendingConfirm: null,
+
+      setGuard: (guard) => {
+        set((state) => ({
+          guards: state.guards.some((g) => g.id === guard.id)
+            ? state.guards.map((g) => (g.id === guard.id ? guard : g))
+            : [...state.guards, guard],
+        }));
+      },
+
+      removeGuard: (id) => {
+        set((state) => ({
+          guards: state.guards.filter((guard) => guard.id !== id),
+        }));
+      },
+
+      markGuardClean: (id) => {
+        set((state) => ({
+          guards: state.guards.map((guard) =>
+            guard.id === id ? { ...guard, isDirty: false } : guard
+          ),
+        }));
+      },
+
+      hasUnsavedChanges: (filter) => getDirtyGuards(filter).length > 0,
+
+      confirmDiscardChanges: (filter) => {
+        const dirtyGuards = getDirtyGuards(filter);
+        if (dirtyGuards.length === 0) return Promise.resolve(true);
+        if (get().pendingConfirm) return Promise.resolve(false);
+
+        // 가드가 하나면 해당 가드의 메시지 사용
+        const message =
+          (dirtyGuards.length === 1 && dirtyGuards[0].message) ||
+          DEFAULT_UNSAVED_CHANGES_MESSAGE;
+
+        return new Promise<boolean>((resolve) => {
+          set({
+            pendingConfirm: {
+              message,
+              guardIds: dirtyGuards.map((guard) => guard.id),
+              resolve,
+            },
+          });
+        });
+      },
+
+      resolvePendingConfirm: (confirmed) => {
+        const { pendingConfirm } = get();
+        if (!pendingConfirm) return;
+
+        set((state) => ({
+          pendingConfirm: null,
+          // 버린 가드는 변경 없음으로 표시
+          guards: confirmed
+            ? state.guards.map((guard) =>
+                pendingConfirm.guardIds.includes(guard.id)
+                  ? { ...guard, isDirty: false }
+                  : guard
+              )
+            : state.guards,
+        }));
+        pendingConfirm.resolve(confirmed);
+      },
+    };
+  }
+);
@@ -0,0 +1,117 @@
+/**
+ * SoftOne Design System - WorkspaceStore Tests
+ * 멀티 탭 열기/닫기/고정/순서 변경 및 사용자별 복원 테스트
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  useWorkspaceStore,
+  MAX_WORKSPACE_TABS,
+  MAX_PINNED_WORKSPACE_TABS,
+} from "./workspaceStore";
+
+const allowAll = () => true;
+
+const open = (routeKey: string, path = `/${routeKey}`) =>
+  useWorkspaceStore.getState().openTab({ routeKey, path, title: routeKey });
+
+const routeKeys = () =>
+  useWorkspaceStore.getState().tabs.map((tab) => tab.routeKey);
+
+describe("workspaceStore", () => {
+  beforeEach(() => {
+    let now = 0;
+    vi.spyOn(Date, "now").mockImplementation(() => ++now);
+    useWorkspaceStore.setState({
+      userId: null,
+      tabs: [],
+      activeRouteKey: null,
+      savedWorkspaces: {},
+    });
+    useWorkspaceStore.getState().restoreWorkspace("u1", allowAll);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("routeKey당 탭 하나만 열고 경로를 갱신한다", () => {
+    open("users.detail", "/users/1");
+    open("dashboard.main");
+    open("users.detail", "/users/2?tab=log");
+
+    const { tabs, activeRouteKey } = useWorkspaceStore.getState();
+    expect(routeKeys()).toEqual(["users.detail", "dashboard.main"]);
+    expect(tabs[0].path).toBe("/users/2?tab=log");
+    expect(activeRouteKey).toBe("users.detail");
+  });
+
+  it("최대 개수를 넘으면 가장 오래 사용하지 않은 일반 탭을 닫는다", () => {
+    for (let i = 0; i < MAX_WORKSPACE_TABS; i++) open(`page.${i}`);
+    useWorkspaceStore.getState().togglePinTab("page.0");
+    open("page.1");
+
+    const evicted = open("page.new");
+
+    expect(evicted?.routeKey).toBe("page.2");
+    expect(routeKeys()).toHaveLength(MAX_WORKSPACE_TABS);
+    expect(routeKeys()).toContain("page.0");
+    expect(routeKeys()).toContain("page.new");
+  });
+
+  it("활성 탭을 닫으면 오른쪽(없으면 왼쪽) 탭을 반환한다", () => {
+    open("a");
+    open("b");
+    open("c");
+    const { closeTab } = useWorkspaceStore.getState();
+
+    expect(closeTab("c")?.routeKey).toBe("b");
+    expect(useWorkspaceStore.getState().activeRouteKey).toBe("b");
+    expect(closeTab("a")).toBeNull();
+    expect(routeKeys()).toEqual(["b"]);
+  });
+
+  it("고정 탭은 앞쪽에 유지되고 다른 탭 닫기에서 제외된다", () => {
+    open("a");
+    open("b");
+    open("c");
+    const store = useWorkspaceStore.getState();
+
+    store.togglePinTab("c");
+    expect(routeKeys()).toEqual(["c", "a", "b"]);
+
+    // 일반 탭은 고정 탭 앞으로 이동할 수 없음
+    store.moveTab("b", 0);
+    expect(routeKeys()).toEqual(["c", "b", "a"]);
+
+    store.closeOtherTabs("a");
+    expect(routeKeys()).toEqual(["c", "a"]);
+    expect(useWorkspaceStore.getState().activeRouteKey).toBe("a");
+  });
+
+  it("고정 탭 개수 제한을 넘으면 고정하지 않는다", () => {
+    for (let i = 0; i < MAX_WORKSPACE_TABS; i++) open(`page.${i}`);
+    const { togglePinTab } = useWorkspaceStore.getState();
+
+    for (let i = 0; i < MAX_PINNED_WORKSPACE_TABS; i++) {
+      expect(togglePinTab(`page.${i}`)).toBe(true);
+    }
+    expect(togglePinTab(`page.${MAX_PINNED_WORKSPACE_TABS}`)).toBe(false);
+  });
+
+  it("사용자별로 탭을 저장하고 복원 시 접근할 수 없는 탭을 제외한다", () => {
+    open("users.list");
+    open("settings.menus");
+
+    const { restoreWorkspace } = useWorkspaceStore.getState();
+    restoreWorkspace("u2", allowAll);
+    expect(routeKeys()).toEqual([]);
+    open("dashboard.main");
+
+    restoreWorkspace("u1", (routeKey) => routeKey !== "settings.menus");
+    expect(routeKeys()).toEqual(["users.list"]);
+    expect(useWorkspaceStore.getState().savedWorkspaces.u2.tabs).toHaveLength(
+      1
+    );
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * SoftOne Design System(SDS) - Workspace Store
+ * 작성: SoftOne Frontend Team
+ *
+ * 멀티 탭 작업 공간(MDI)의 열린 탭 상태.
+ *   - routeKey당 탭 하나 (/users/1 → /users/2처럼 같은 화면은 같은 탭의 경로만 바뀜)
+ *   - 최대 MAX_WORKSPACE_TABS개. 넘치면 가장 오래 사용하지 않은 고정되지 않은 탭을 닫습니다.
+ *   - 고정(pinned) 탭은 항상 앞쪽에 있고 "다른 탭 닫기"/자동 닫기 대상이 아닙니다.
+ *   - 열린 탭은 사용자별로 로컬스토리지에 저장되고, 복원할 때 canAccessRoute로 다시 확인합니다.
+ *
+ * 탭 화면 렌더링(keep-alive)은 Shell이, 탭 바는 core/layout/WorkspaceTabs가 담당합니다.
+ */
+
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+
+// ========================================
+// Types
+// ========================================
+
+export interface WorkspaceTab {
+  /** 라우트 레지스트리의 routeKey (탭 ID) */
+  routeKey: string;
+  /** 마지막 경로 (쿼리 포함) */
+  path: string;
+  /** 탭 제목 */
+  title: string;
+  /** 고정 여부 */
+  pinned: boolean;
+  /** 마지막으로 활성화된 시각 (자동 닫기 순서) */
+  lastActiveAt: number;
+}
+
+export interface OpenWorkspaceTab {
+  routeKey: string;
+  path: string;
+  title: string;
+}
+
+interface SavedWorkspace {
+  tabs: WorkspaceTab[];
+}
+
+/** 최대 탭 개수 */
+export const MAX_WORKSPACE_TABS = 10;
+
+/** 최대 고정 탭 개수 (새 탭을 열 자리를 남겨 둠) */
+export const MAX_PINNED_WORKSPACE_TABS = MAX_WORKSPACE_TABS - 1;
+
+export interface WorkspaceState {
+  /** 현재 작업 공간의 사용자 ID */
+  userId: string | null;
+  /** 열린 탭 (표시 순서) */
+  tabs: WorkspaceTab[];
+  /** 활성 탭 routeKey */
+  activeRouteKey: string | null;
+  /** 사용자별 저장된 탭 */
+  savedWorkspaces: Record<string, SavedWorkspace>;
+}
+
+export interface WorkspaceActions {
+  /**
+   * 사용자의 저장된 탭 복원
+   * 같은 사용자면 현재 탭을 다시 확인합니다. (권한 변경 시 접근할 수 없는 탭 제거)
+   */
+  restoreWorkspace: (
+    userId: string,
+    canAccessRoute: (routeKey: string) => boolean
+  ) => void;
+
+  /**
+   * 탭 열기/활성화 (이미 열려 있으면 경로/제목만 갱신)
+   * @param canEvict 개수 제한으로 닫을 수 있는 탭인지 (저장하지 않은 변경 사항이 있는 탭 제외 등)
+   * @returns 탭 개수 제한으로 닫힌 탭
+   */
+  openTab: (
+    tab: OpenWorkspaceTab,
+    canEvict?: (tab: WorkspaceTab) => boolean
+  ) => WorkspaceTab | null;
+
+  /**
+   * 탭 닫기
+   * @returns 활성 탭을 닫은 경우 다음에 활성화할 탭 (없으면 null)
+   */
+  closeTab: (routeKey: string) => WorkspaceTab | null;
+
+  /** 지정한 탭과 고정 탭만 남기고 닫기 */
+  closeOtherTabs: (routeKey: string) => void;
+
+  /**
+   * 고정/고정 해제
+   * @returns 고정 탭 개수 제한으로 고정할 수 없으면 false
+   */
+  togglePinTab: (routeKey: string) => boolean;
+
+  /**
+   * 탭 순서 변경 (고정 탭과 일반 탭은 각자의 영역 안에서만 이동)
+   * @param toIndex 이동할 탭을 뺀 목록에서의 위치
+   */
+  moveTab: (routeKey: string, toIndex: number) => void;
+}
+
+export type WorkspaceStore = WorkspaceState & WorkspaceActions;
+
+// ========================================
+// Helpers
+// ========================================
+
+/** 고정 탭을 앞으로 (각 영역 안의 순서는 유지) */
+const sortPinnedFirst = (tabs: WorkspaceTab[]): WorkspaceTab[] => [
+  ...tabs.filter((tab) => tab.pinned),
+  ...tabs.filter((tab) => !tab.pinned),
+];
+
+/**
+ * 최대 개수를 넘으면 가장 오래 사용하지 않은 일반 탭부터 닫기 (활성 탭 제외)
+ * 닫을 수 있는 탭이 없으면 최대 개수를 넘어도 그대로 둡니다.
+ */
+function evictTabs(
+  tabs: WorkspaceTab[],
+  activeRouteKey: string,
+  canEvict: (tab: WorkspaceTab) => boolean = () => true
+): { tabs: WorkspaceTab[]; evicted: WorkspaceTab | null } {
+  if (tabs.length <= MAX_WORKSPACE_TABS) return { tabs, evicted: null };
+
+  const evicted = tabs
+    .filter(
+      (tab) => !tab.pinned && tab.routeKey !== activeRouteKey && canEvict(tab)
+    )
+    .sort((a, b) => a.lastActiveAt - b.lastActiveAt)[0];
+  if (!evicted) return { tabs, evicted: null };
+
+  return {
+    tabs: tabs.filter((tab) => tab.routeKey !== evicted.routeKey),
+    evicted,
+  };
+}
+
+/** 탭 요소 id (탭 바 ↔ 탭 패널 aria 연결) */
+export const getWorkspaceTabId = (routeKey: string): string =>
+  `workspace-tab-${routeKey}`;
+
+/** 탭 패널 요소 id */
+export const getWorkspacePanelId = (routeKey: string): string =>
+  `workspace-panel-${routeKey}`;
+
+// ========================================
+// Store Implementation
+// ========================================
+
+export const useWorkspaceStore = create<WorkspaceStore>()(
+  persist(
+    (set, get) => {
+      /** 탭 변경 + 현재 사용자 작업 공간에 저장 */
+      const commit = (
+        tabs: WorkspaceTab[],
+        activeRouteKey: string | null = get().activeRouteKey
+      ) => {
+        const { userId, savedWorkspaces } = get();
+        set({
+          tabs,
+          activeRouteKey,
+          savedWorkspaces: userId
+            ? { ...savedWorkspaces, [userId]: { tabs } }
+            : savedWorkspaces,
+        });
+      };
+
+      return {
+        userId: null,
+        tabs: [],
+        activeRouteKey: null,
+        savedWorkspaces: {},
+
+        restoreWorkspace: (userId, canAccessRoute) => {
+          const state = get();
+          const source =
+            state.userId === userId
+              ? state.tabs
+              : state.savedWorkspaces[userId]?.tabs ?? [];
+          const tabs = source.filter((tab) => canAccessRoute(tab.routeKey));
+          const activeRouteKey =
+            state.userId === userId &&
+            tabs.some((tab) => tab.routeKey === state.activeRouteKey)
+              ? state.activeRouteKey
+              : null;
+
+          set({ userId });
+          commit(tabs, activeRouteKey);
+        },
+
+        openTab: ({ routeKey, path, title }, canEvict) => {
+          const now = Date.now();
+          const { tabs } = get();
+          const opened = tabs.some((tab) => tab.routeKey === routeKey);
+
+          const next = opened
+            ? tabs.map((tab) =>
+                tab.routeKey === routeKey
+                  ? { ...tab, path, title, lastActiveAt: now }
+                  : tab
+              )
+            : [
+                ...tabs,
+                { routeKey, path, title, pinned: false, lastActiveAt: now },
+              ];
+
+          const { tabs: kept, evicted } = evictTabs(next, routeKey, canEvict);
+          commit(kept, routeKey);
+          return evicted;
+        },
+
+        closeTab: (routeKey) => {
+          const { tabs, activeRouteKey } = get();
+          const index = tabs.findIndex((tab) => tab.routeKey === routeKey);
+          if (index === -1) return null;
+
+          const rest = tabs.filter((tab) => tab.routeKey !== routeKey);
+          if (routeKey !== activeRouteKey) {
+            commit(rest);
+            return null;
+          }
+
+          // 활성 탭을 닫으면 오른쪽(없으면 왼쪽) 탭 활성화
+          const next = rest[Math.min(index, rest.length - 1)] ?? null;
+          commit(rest, next?.routeKey ?? null);
+          return next;
+        },
+
+        closeOtherTabs: (routeKey) => {
+          const tabs = get().tabs.filter(
+            (tab) => tab.pinned || tab.routeKey === routeKey
+          );
+          commit(tabs, routeKey);
+        },
+
+        togglePinTab: (routeKey) => {
+          const { tabs } = get();
+          const target = tabs.find((tab) => tab.routeKey === routeKey);
+          if (!target) return false;
+
+          const pinnedCount = tabs.filter((tab) => tab.pinned).length;
+          if (!target.pinned && pinnedCount >= MAX_PINNED_WORKSPACE_TABS) {
+            return false;
+          }
+
+          commit(
+            sortPinnedFirst(
+              tabs.map((tab) =>
+                tab.routeKey === routeKey
+                  ? { ...tab, pinned: !tab.pinned }
+                  : tab
+              )
+            )
+          );
+          return true;
+        },
+
+        moveTab: (routeKey, toIndex) => {
+          const { tabs } = get();
+          const target = tabs.find((tab) => tab.routeKey === routeKey);
+          if (!target) return;
+
+          const rest = tabs.filter((tab) => tab.routeKey !== routeKey);
+          const pinnedCount = rest.filter((tab) => tab.pinned).length;
+          // 고정 탭은 [0, pinnedCount], 일반 탭은 [pinnedCount, length] 안에서만
+          const index = target.pinned
+            ? Math.min(Math.max(toIndex, 0), pinnedCount)
+            : Math.min(Math.max(toIndex, pinnedCount), rest.length);
+
+          rest.splice(index, 0, target);
+          commit(rest);
+        },
+      };
+    },
+    {
+      name: "sds-workspace-storage",
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({ savedWorkspaces: state.savedWorkspaces }),
+    }
+  )
+);
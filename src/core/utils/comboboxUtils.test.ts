@@ -0,0 +1,55 @@
+/**
+ * SoftOne Design System(SDS) - comboboxUtils 테스트
+ * 작성: SoftOne Frontend Team
+ * 설명: 콤보박스 옵션 필터, 그룹/추가 행 목록, 키보드 이동 인덱스 테스트.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildComboboxItems,
+  filterComboboxOptions,
+  hasExactLabelMatch,
+  moveComboboxActiveIndex,
+} from "./comboboxUtils";
+
+const options = [
+  { value: "seoul", label: "서울", group: "수도권" },
+  { value: "busan", label: "부산", group: "영남" },
+  { value: "incheon", label: "인천", group: "수도권", disabled: true },
+  { value: "etc", label: "기타" },
+];
+
+describe("comboboxUtils", () => {
+  it("filterComboboxOptions는 라벨 부분 일치와 초성으로 거른다", () => {
+    expect(filterComboboxOptions(options, "ㅅㅇ")).toEqual([options[0]]);
+    expect(filterComboboxOptions(options, "  ")).toBe(options);
+    expect(hasExactLabelMatch(options, " 부산 ")).toBe(true);
+    expect(hasExactLabelMatch(options, "부")).toBe(false);
+  });
+
+  it("buildComboboxItems는 그룹 헤더와 추가 행을 포함한 목록을 만든다", () => {
+    expect(buildComboboxItems(options, "대전").map((item) => item.key)).toEqual(
+      [
+        "option:etc",
+        "group:수도권",
+        "option:seoul",
+        "option:incheon",
+        "group:영남",
+        "option:busan",
+        "create",
+      ]
+    );
+  });
+
+  it("moveComboboxActiveIndex는 그룹 헤더와 비활성 옵션을 건너뛰고 순환한다", () => {
+    const items = buildComboboxItems(options);
+    // 0 기타, 1 [수도권], 2 서울, 3 인천(비활성), 4 [영남], 5 부산
+    expect(moveComboboxActiveIndex(items, -1, 1)).toBe(0);
+    expect(moveComboboxActiveIndex(items, 0, 1)).toBe(2);
+    expect(moveComboboxActiveIndex(items, 2, 1)).toBe(5);
+    expect(moveComboboxActiveIndex(items, 5, 1)).toBe(0);
+    expect(moveComboboxActiveIndex(items, -1, -1)).toBe(5);
+    expect(moveComboboxActiveIndex(items, 0, -1)).toBe(5);
+    expect(moveComboboxActiveIndex([], -1, 1)).toBe(-1);
+  });
+});
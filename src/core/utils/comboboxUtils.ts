@@ -0,0 +1,145 @@
+/**
+ * SoftOne Design System(SDS) - Combobox Utilities
+ * 작성: SoftOne Frontend Team
+ *
+ * Combobox / MultiSelect / Autocomplete 목록 계산 유틸리티
+ *   - 옵션 필터 (라벨 부분 일치, 한글 초성 지원)
+ *   - 그룹 헤더 / "새 항목 추가" 행을 포함한 평탄화 목록 (가상 스크롤 대상)
+ *   - 키보드 이동 시 비활성/그룹 헤더를 건너뛰는 인덱스 계산
+ */
+
+import { substringMatch } from "./searchUtils";
+
+// ========================================
+// Types
+// ========================================
+
+/** 목록 계산에 필요한 최소 옵션 형태 */
+export interface ComboboxOptionLike {
+  value: string;
+  label: string;
+  disabled?: boolean;
+  /** 그룹 이름 (같은 그룹끼리 묶어서 헤더 아래 표시) */
+  group?: string;
+}
+
+/** 목록에 렌더링할 행 */
+export type ComboboxListItem<T extends ComboboxOptionLike> =
+  | { type: "group"; key: string; label: string }
+  | { type: "option"; key: string; option: T }
+  | { type: "create"; key: string; label: string };
+
+// ========================================
+// Filter Functions
+// ========================================
+
+/**
+ * 검색어로 옵션 필터 (라벨 부분 일치, 한글 초성 지원)
+ */
+export function filterComboboxOptions<T extends ComboboxOptionLike>(
+  options: T[],
+  query: string
+): T[] {
+  const text = query.trim();
+  if (!text) return options;
+  return options.filter((option) => substringMatch(text, option.label));
+}
+
+/**
+ * 검색어와 라벨이 같은 옵션이 있는지 (대소문자/앞뒤 공백 무시, 새 항목 추가 여부 판단)
+ */
+export function hasExactLabelMatch<T extends ComboboxOptionLike>(
+  options: T[],
+  query: string
+): boolean {
+  const text = query.trim().toLowerCase();
+  return options.some((option) => option.label.trim().toLowerCase() === text);
+}
+
+// ========================================
+// List Functions
+// ========================================
+
+/**
+ * 렌더링할 평탄화 목록 생성
+ *   - 그룹은 처음 나온 순서대로 묶고, 그룹이 없는 옵션은 맨 앞에 둡니다.
+ *   - createLabel이 있으면 마지막에 "새 항목 추가" 행을 둡니다.
+ */
+export function buildComboboxItems<T extends ComboboxOptionLike>(
+  options: T[],
+  createLabel?: string
+): ComboboxListItem<T>[] {
+  const ungrouped: T[] = [];
+  const groups = new Map<string, T[]>();
+  options.forEach((option) => {
+    if (option.group === undefined) {
+      ungrouped.push(option);
+      return;
+    }
+    const members = groups.get(option.group);
+    if (members) members.push(option);
+    else groups.set(option.group, [option]);
+  });
+
+  const toItem = (option: T): ComboboxListItem<T> => ({
+    type: "option",
+    key: `option:${option.value}`,
+    option,
+  });
+
+  const items: ComboboxListItem<T>[] = ungrouped.map(toItem);
+  groups.forEach((members, group) => {
+    items.push({ type: "group", key: `group:${group}`, label: group });
+    members.forEach((option) => items.push(toItem(option)));
+  });
+
+  if (createLabel !== undefined) {
+    items.push({ type: "create", key: "create", label: createLabel });
+  }
+  return items;
+}
+
+/**
+ * 선택할 수 있는 행인지 (그룹 헤더, 비활성 옵션 제외)
+ */
+export function isSelectableComboboxItem<T extends ComboboxOptionLike>(
+  item: ComboboxListItem<T> | undefined
+): boolean {
+  if (!item || item.type === "group") return false;
+  return item.type === "create" || !item.option.disabled;
+}
+
+/**
+ * from부터 step 방향으로 처음 선택할 수 있는 행 인덱스 (from 포함, 없으면 -1)
+ */
+export function findSelectableComboboxIndex<T extends ComboboxOptionLike>(
+  items: ComboboxListItem<T>[],
+  from: number,
+  step: 1 | -1
+): number {
+  for (let index = from; index >= 0 && index < items.length; index += step) {
+    if (isSelectableComboboxItem(items[index])) return index;
+  }
+  return -1;
+}
+
+/**
+ * 키보드 이동 (↑/↓) 다음 활성 행 인덱스
+ *   - 활성 행이 없으면 ↓는 첫 행, ↑는 마지막 행
+ *   - 끝에 닿으면 반대쪽 끝으로 돌아갑니다.
+ */
+export function moveComboboxActiveIndex<T extends ComboboxOptionLike>(
+  items: ComboboxListItem<T>[],
+  activeIndex: number,
+  step: 1 | -1
+): number {
+  const start =
+    activeIndex < 0 ? (step === 1 ? 0 : items.length - 1) : activeIndex + step;
+  const next = findSelectableComboboxIndex(items, start, step);
+  if (next !== -1) return next;
+  return findSelectableComboboxIndex(
+    items,
+    step === 1 ? 0 : items.length - 1,
+    step
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * SoftOne Design System(SDS) - datePickerUtils 테스트
+ * 작성: SoftOne Frontend Team
+ * 설명: 달력 그리드, 키보드 이동, 입력 파싱, 날짜 제한, 기간 프리셋 테스트.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_DATE_RANGE_PRESETS,
+  buildCalendarDays,
+  buildTimeOptions,
+  formatCalendarDayLabel,
+  isDateDisabled,
+  isDateInRange,
+  moveCalendarDate,
+  parseDateInput,
+  parseDateRangeInput,
+  parseTimeInput,
+} from "./datePickerUtils";
+
+describe("datePickerUtils", () => {
+  it("buildCalendarDays는 일요일부터 6주를 만든다", () => {
+    // 2024-02-01은 목요일
+    const days = buildCalendarDays("2024-02-15");
+    expect(days).toHaveLength(42);
+    expect(days[0]).toEqual({ date: "2024-01-28", day: 28, inMonth: false });
+    expect(days[4]).toEqual({ date: "2024-02-01", day: 1, inMonth: true });
+    expect(days.filter((day) => day.inMonth)).toHaveLength(29);
+  });
+
+  it("moveCalendarDate는 방향키/Home/End/PageUp/PageDown으로 이동한다", () => {
+    expect(moveCalendarDate("2024-01-31", "ArrowRight")).toBe("2024-02-01");
+    expect(moveCalendarDate("2024-01-03", "ArrowUp")).toBe("2023-12-27");
+    // 2024-01-17은 수요일
+    expect(moveCalendarDate("2024-01-17", "Home")).toBe("2024-01-14");
+    expect(moveCalendarDate("2024-01-17", "End")).toBe("2024-01-20");
+    expect(moveCalendarDate("2024-01-31", "PageDown")).toBe("2024-02-29");
+    expect(moveCalendarDate("2024-02-29", "PageUp", true)).toBe("2023-02-28");
+    expect(moveCalendarDate("2024-01-17", "Enter")).toBeNull();
+  });
+
+  it("입력한 날짜/기간/시간을 파싱한다", () => {
+    expect(parseDateInput("2024.1.5")).toBe("2024-01-05");
+    expect(parseDateInput("20240105")).toBe("2024-01-05");
+    expect(parseDateInput("2024-02-30")).toBeNull();
+    expect(parseDateInput("내일")).toBeNull();
+    expect(parseDateRangeInput("2024-01-31 ~ 2024-01-01")).toEqual({
+      start: "2024-01-01",
+      end: "2024-01-31",
+    });
+    expect(parseTimeInput("9:05")).toBe("09:05");
+    expect(parseTimeInput("1830")).toBe("18:30");
+    expect(parseTimeInput("24:00")).toBeNull();
+  });
+
+  it("minDate/maxDate/disabledDates로 선택할 수 없는 날짜를 판별한다", () => {
+    const constraints = {
+      minDate: "2024-01-10",
+      maxDate: "2024-01-20",
+      disabledDates: ["2024-01-15"],
+    };
+    expect(isDateDisabled("2024-01-09", constraints)).toBe(true);
+    expect(isDateDisabled("2024-01-15", constraints)).toBe(true);
+    expect(isDateDisabled("2024-01-16", constraints)).toBe(false);
+    // 주말 제외
+    const isWeekend = (date: string) =>
+      [0, 6].includes(new Date(date).getDay());
+    expect(isDateDisabled("2024-01-13", { disabledDates: isWeekend })).toBe(
+      true
+    );
+    expect(isDateInRange("2024-01-05", "2024-01-10", "2024-01-01")).toBe(true);
+    expect(isDateInRange("2024-01-05", "2024-01-01", null)).toBe(false);
+  });
+
+  it("기본 프리셋과 시간 옵션, 한국어 라벨을 만든다", () => {
+    expect(
+      DEFAULT_DATE_RANGE_PRESETS.map((preset) => [
+        preset.label,
+        preset.getRange("2024-02-10"),
+      ])
+    ).toEqual([
+      ["오늘", { start: "2024-02-10", end: "2024-02-10" }],
+      ["최근 7일", { start: "2024-02-04", end: "2024-02-10" }],
+      ["이번 달", { start: "2024-02-01", end: "2024-02-29" }],
+    ]);
+    expect(buildTimeOptions(30)).toHaveLength(48);
+    expect(buildTimeOptions(90).slice(0, 3)).toEqual([
+      "00:00",
+      "01:30",
+      "03:00",
+    ]);
+    expect(formatCalendarDayLabel("2024-01-15")).toBe("2024년 1월 15일 월요일");
+  });
+});
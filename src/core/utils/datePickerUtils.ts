@@ -0,0 +1,289 @@
+/**
+ * SoftOne Design System(SDS) - Date Picker Utilities
+ * 작성: SoftOne Frontend Team
+ *
+ * DatePicker / DateRangePicker / TimePicker 계산 유틸리티 (Day.js 기반)
+ *   - 값은 문자열로 주고받습니다. 날짜 "YYYY-MM-DD", 시간 "HH:mm"
+ *     (문자열 비교로 순서를 비교할 수 있고, zod/react-hook-form/API에 그대로 사용)
+ *   - 달력 6주(42일) 그리드, 키보드 이동, 입력 파싱, 기간 프리셋
+ */
+
+import dayjs from "dayjs";
+import "dayjs/locale/ko";
+
+// ========================================
+// Constants
+// ========================================
+
+/** 날짜 값 형식 */
+export const DATE_VALUE_FORMAT = "YYYY-MM-DD";
+
+/** 시간 값 형식 */
+export const TIME_VALUE_FORMAT = "HH:mm";
+
+/** 요일 머리글 (일요일 시작) */
+export const WEEKDAY_LABELS = ["일", "월", "화", "수", "목", "금", "토"];
+
+// ========================================
+// Types
+// ========================================
+
+/** 기간 값 (선택하지 않은 쪽은 null) */
+export interface DateRangeValue {
+  start: string | null;
+  end: string | null;
+}
+
+/** 선택할 수 있는 날짜 제한 */
+export interface DateConstraints {
+  /** 선택할 수 있는 가장 이른 날짜 ("YYYY-MM-DD") */
+  minDate?: string;
+  /** 선택할 수 있는 가장 늦은 날짜 ("YYYY-MM-DD") */
+  maxDate?: string;
+  /** 선택할 수 없는 날짜 목록 또는 판별 함수 (공휴일, 주말 등) */
+  disabledDates?: string[] | ((date: string) => boolean);
+}
+
+/** 기간 프리셋 ("최근 7일" 등) */
+export interface DateRangePreset {
+  label: string;
+  /** 오늘 날짜로 기간 계산 */
+  getRange: (today: string) => DateRangeValue;
+}
+
+/** 달력 한 칸 */
+export interface CalendarDay {
+  date: string;
+  /** 일 (1-31) */
+  day: number;
+  /** 표시 중인 달의 날짜인지 (앞/뒤 달 날짜는 false) */
+  inMonth: boolean;
+}
+
+// ========================================
+// Presets
+// ========================================
+
+/** 기본 기간 프리셋: 오늘, 최근 7일, 이번 달 */
+export const DEFAULT_DATE_RANGE_PRESETS: DateRangePreset[] = [
+  { label: "오늘", getRange: (today) => ({ start: today, end: today }) },
+  {
+    label: "최근 7일",
+    getRange: (today) => ({ start: shiftDate(today, -6, "day"), end: today }),
+  },
+  {
+    label: "이번 달",
+    getRange: (today) => ({
+      start: dayjs(today).startOf("month").format(DATE_VALUE_FORMAT),
+      end: dayjs(today).endOf("month").format(DATE_VALUE_FORMAT),
+    }),
+  },
+];
+
+// ========================================
+// Value Functions
+// ========================================
+
+/**
+ * 오늘 날짜 ("YYYY-MM-DD")
+ */
+export function getTodayValue(): string {
+  return dayjs().format(DATE_VALUE_FORMAT);
+}
+
+/**
+ * 날짜 이동 (일/월/년)
+ */
+export function shiftDate(
+  date: string,
+  amount: number,
+  unit: "day" | "month" | "year"
+): string {
+  return dayjs(date).add(amount, unit).format(DATE_VALUE_FORMAT);
+}
+
+/**
+ * 입력한 날짜 텍스트 파싱 (YYYY-MM-DD, YYYY.MM.DD, YYYY/MM/DD, YYYYMMDD)
+ * 형식이 틀리거나 없는 날짜(2월 30일 등)면 null
+ */
+export function parseDateInput(text: string): string | null {
+  const match = text.trim().match(/^(\d{4})[-./]?(\d{1,2})[-./]?(\d{1,2})$/);
+  if (!match) return null;
+
+  const [, year, month, day] = match;
+  const value = `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  const date = dayjs(value);
+  // dayjs는 2월 30일을 3월 2일로 넘기므로 되돌려서 비교
+  return date.isValid() && date.format(DATE_VALUE_FORMAT) === value
+    ? value
+    : null;
+}
+
+/**
+ * 입력한 기간 텍스트 파싱 ("2024-01-01 ~ 2024-01-31")
+ */
+export function parseDateRangeInput(text: string): DateRangeValue | null {
+  const parts = text.split("~");
+  if (parts.length !== 2) return null;
+
+  const start = parseDateInput(parts[0]);
+  const end = parseDateInput(parts[1]);
+  if (!start || !end) return null;
+  return normalizeDateRange(start, end);
+}
+
+/**
+ * 입력한 시간 텍스트 파싱 (H:mm, HH:mm, HHmm)
+ */
+export function parseTimeInput(text: string): string | null {
+  const match = text.trim().match(/^(\d{1,2}):?(\d{2})$/);
+  if (!match) return null;
+
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  if (hour > 23 || minute > 59) return null;
+  return `${String(hour).padStart(2, "0")}:${match[2]}`;
+}
+
+/**
+ * 시작일이 종료일보다 늦으면 바꿔서 반환
+ */
+export function normalizeDateRange(start: string, end: string): DateRangeValue {
+  return start <= end ? { start, end } : { start: end, end: start };
+}
+
+/**
+ * 날짜가 기간 안에 있는지 (양 끝 포함)
+ */
+export function isDateInRange(
+  date: string,
+  start: string | null,
+  end: string | null
+): boolean {
+  if (!start || !end) return false;
+  const range = normalizeDateRange(start, end);
+  return range.start! <= date && date <= range.end!;
+}
+
+/**
+ * 선택할 수 없는 날짜인지 (minDate/maxDate/disabledDates)
+ */
+export function isDateDisabled(
+  date: string,
+  { minDate, maxDate, disabledDates }: DateConstraints
+): boolean {
+  if (minDate && date < minDate) return true;
+  if (maxDate && date > maxDate) return true;
+  if (typeof disabledDates === "function") return disabledDates(date);
+  return disabledDates?.includes(date) ?? false;
+}
+
+/**
+ * 날짜를 minDate ~ maxDate 안으로 맞춤
+ */
+export function clampDate(
+  date: string,
+  { minDate, maxDate }: DateConstraints
+): string {
+  if (minDate && date < minDate) return minDate;
+  if (maxDate && date > maxDate) return maxDate;
+  return date;
+}
+
+// ========================================
+// Calendar Functions
+// ========================================
+
+/**
+ * 날짜가 속한 달의 달력 (일요일 시작 6주 = 42칸)
+ */
+export function buildCalendarDays(date: string): CalendarDay[] {
+  const month = dayjs(date).startOf("month");
+  const first = month.subtract(month.day(), "day");
+
+  return Array.from({ length: 42 }, (_, index) => {
+    const day = first.add(index, "day");
+    return {
+      date: day.format(DATE_VALUE_FORMAT),
+      day: day.date(),
+      inMonth: day.month() === month.month(),
+    };
+  });
+}
+
+/**
+ * 달력 키보드 이동 (WAI-ARIA Date Picker Dialog 패턴)
+ *   ←/→ 하루, ↑/↓ 일주일, Home/End 주의 처음/끝,
+ *   PageUp/PageDown 한 달 (Shift: 일 년)
+ * 처리하지 않는 키면 null
+ */
+export function moveCalendarDate(
+  date: string,
+  key: string,
+  shiftKey = false
+): string | null {
+  const current = dayjs(date);
+  switch (key) {
+    case "ArrowLeft":
+      return shiftDate(date, -1, "day");
+    case "ArrowRight":
+      return shiftDate(date, 1, "day");
+    case "ArrowUp":
+      return shiftDate(date, -7, "day");
+    case "ArrowDown":
+      return shiftDate(date, 7, "day");
+    case "Home":
+      return current.subtract(current.day(), "day").format(DATE_VALUE_FORMAT);
+    case "End":
+      return current.add(6 - current.day(), "day").format(DATE_VALUE_FORMAT);
+    case "PageUp":
+      return shiftDate(date, -1, shiftKey ? "year" : "month");
+    case "PageDown":
+      return shiftDate(date, 1, shiftKey ? "year" : "month");
+    default:
+      return null;
+  }
+}
+
+/**
+ * 달력 제목 ("2024년 1월")
+ */
+export function formatCalendarMonth(date: string): string {
+  return dayjs(date).locale("ko").format("YYYY년 M월");
+}
+
+/**
+ * 날짜 읽기 라벨 ("2024년 1월 15일 월요일")
+ */
+export function formatCalendarDayLabel(date: string): string {
+  return dayjs(date).locale("ko").format("YYYY년 M월 D일 dddd");
+}
+
+// ========================================
+// Time Functions
+// ========================================
+
+/**
+ * 시간 옵션 목록 (00:00부터 stepMinutes 간격)
+ */
+export function buildTimeOptions(stepMinutes = 30): string[] {
+  const step = Math.max(1, Math.floor(stepMinutes));
+  const options: string[] = [];
+  for (let minutes = 0; minutes < 24 * 60; minutes += step) {
+    const hour = String(Math.floor(minutes / 60)).padStart(2, "0");
+    const minute = String(minutes % 60).padStart(2, "0");
+    options.push(`${hour}:${minute}`);
+  }
+  return options;
+}
+
+/**
+ * 선택할 수 없는 시간인지 (minTime/maxTime, "HH:mm")
+ */
+export function isTimeDisabled(
+  time: string,
+  minTime?: string,
+  maxTime?: string
+): boolean {
+  return Boolean((minTime && time < minTime) || (maxTime && time > maxTime));
+}
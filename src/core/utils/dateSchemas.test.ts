@@ -0,0 +1,56 @@
+/**
+ * SoftOne Design System(SDS) - dateSchemas 테스트
+ * 작성: SoftOne Frontend Team
+ * 설명: 날짜/기간/시간 zod 스키마 검증 메시지 테스트.
+ */
+
+import { describe, it, expect } from "vitest";
+import { dateRangeSchema, dateSchema, timeSchema } from "./dateSchemas";
+
+/** 첫 번째 오류 메시지 (통과하면 null) */
+const firstIssue = (result: {
+  success: boolean;
+  error?: { issues: { message: string }[] };
+}) => (result.success ? null : result.error!.issues[0].message);
+
+describe("dateSchemas", () => {
+  it("dateSchema는 필수 여부, 형식, minDate/maxDate를 검증한다", () => {
+    const schema = dateSchema({ minDate: "2024-01-01", maxDate: "2024-12-31" });
+    expect(firstIssue(schema.safeParse(""))).toBe("날짜를 선택하세요");
+    expect(firstIssue(schema.safeParse("2024-02-30"))).toBe(
+      "올바른 날짜가 아닙니다"
+    );
+    expect(firstIssue(schema.safeParse("2023-12-31"))).toBe(
+      "2024-01-01 이후 날짜를 선택하세요"
+    );
+    expect(firstIssue(schema.safeParse("2024-06-01"))).toBeNull();
+    expect(firstIssue(dateSchema({ optional: true }).safeParse(""))).toBeNull();
+  });
+
+  it("dateRangeSchema는 양쪽 선택, 순서, 최대 기간을 검증한다", () => {
+    const schema = dateRangeSchema({ maxDays: 7 });
+    expect(firstIssue(schema.safeParse({ start: null, end: null }))).toBe(
+      "기간을 선택하세요"
+    );
+    expect(
+      firstIssue(schema.safeParse({ start: "2024-01-01", end: null }))
+    ).toBe("시작일과 종료일을 모두 선택하세요");
+    expect(
+      firstIssue(schema.safeParse({ start: "2024-01-05", end: "2024-01-01" }))
+    ).toBe("종료일은 시작일 이후여야 합니다");
+    expect(
+      firstIssue(schema.safeParse({ start: "2024-01-01", end: "2024-01-08" }))
+    ).toBe("기간은 최대 7일까지 선택할 수 있습니다");
+    expect(
+      firstIssue(schema.safeParse({ start: "2024-01-01", end: "2024-01-07" }))
+    ).toBeNull();
+  });
+
+  it("timeSchema는 HH:mm 형식을 검증한다", () => {
+    expect(firstIssue(timeSchema().safeParse("09:30"))).toBeNull();
+    expect(firstIssue(timeSchema().safeParse("9:30"))).toBe(
+      "올바른 시간이 아닙니다"
+    );
+    expect(firstIssue(timeSchema().safeParse(""))).toBe("시간을 선택하세요");
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * SoftOne Design System(SDS) - Date Schemas
+ * 작성: SoftOne Frontend Team
+ *
+ * DatePicker / DateRangePicker / TimePicker 값 검증용 zod 스키마
+ *   - FormDialog(schema) 또는 useForm + zodResolver에서 사용합니다.
+ *   - 선택하지 않은 값은 빈 문자열(기간은 start/end가 null)입니다.
+ *
+ * @example
+ * const schema = z.object({
+ *   startDate: dateSchema({ minDate: "2024-01-01" }),
+ *   period: dateRangeSchema({ maxDays: 31 }),
+ *   startTime: timeSchema({ optional: true }),
+ * });
+ */
+
+import { z } from "zod";
+import dayjs from "dayjs";
+import { parseDateInput, parseTimeInput } from "./datePickerUtils";
+
+// ========================================
+// Types
+// ========================================
+
+export interface DateSchemaOptions {
+  /** 선택하지 않아도 됨 */
+  optional?: boolean;
+  /** 선택하지 않았을 때 메시지 */
+  requiredMessage?: string;
+  /** 가장 이른 날짜 ("YYYY-MM-DD") */
+  minDate?: string;
+  /** 가장 늦은 날짜 ("YYYY-MM-DD") */
+  maxDate?: string;
+}
+
+export interface DateRangeSchemaOptions extends DateSchemaOptions {
+  /** 최대 기간 (일, 시작일/종료일 포함) */
+  maxDays?: number;
+}
+
+export interface TimeSchemaOptions {
+  /** 선택하지 않아도 됨 */
+  optional?: boolean;
+  /** 선택하지 않았을 때 메시지 */
+  requiredMessage?: string;
+}
+
+// ========================================
+// Helpers
+// ========================================
+
+/** 날짜 하나의 오류 메시지 (문제가 없으면 null) */
+function getDateIssue(
+  value: string,
+  { minDate, maxDate }: DateSchemaOptions
+): string | null {
+  if (parseDateInput(value) !== value) return "올바른 날짜가 아닙니다";
+  if (minDate && value < minDate) return `${minDate} 이후 날짜를 선택하세요`;
+  if (maxDate && value > maxDate) return `${maxDate} 이전 날짜를 선택하세요`;
+  return null;
+}
+
+// ========================================
+// Schemas
+// ========================================
+
+/**
+ * 날짜 ("YYYY-MM-DD") 스키마
+ */
+export function dateSchema(options: DateSchemaOptions = {}) {
+  const { optional = false, requiredMessage = "날짜를 선택하세요" } = options;
+
+  return z.string().superRefine((value, ctx) => {
+    if (!value) {
+      if (!optional) ctx.addIssue({ code: "custom", message: requiredMessage });
+      return;
+    }
+    const issue = getDateIssue(value, options);
+    if (issue) ctx.addIssue({ code: "custom", message: issue });
+  });
+}
+
+/**
+ * 기간 ({ start, end }) 스키마
+ */
+export function dateRangeSchema(options: DateRangeSchemaOptions = {}) {
+  const {
+    optional = false,
+    requiredMessage = "기간을 선택하세요",
+    maxDays,
+  } = options;
+
+  return z
+    .object({ start: z.string().nullable(), end: z.string().nullable() })
+    .superRefine(({ start, end }, ctx) => {
+      if (!start && !end) {
+        if (!optional) {
+          ctx.addIssue({ code: "custom", message: requiredMessage });
+        }
+        return;
+      }
+      if (!start || !end) {
+        ctx.addIssue({
+          code: "custom",
+          message: "시작일과 종료일을 모두 선택하세요",
+        });
+        return;
+      }
+
+      const issue = getDateIssue(start, options) ?? getDateIssue(end, options);
+      if (issue) {
+        ctx.addIssue({ code: "custom", message: issue });
+        return;
+      }
+      if (start > end) {
+        ctx.addIssue({
+          code: "custom",
+          message: "종료일은 시작일 이후여야 합니다",
+        });
+        return;
+      }
+      if (maxDays && dayjs(end).diff(dayjs(start), "day") + 1 > maxDays) {
+        ctx.addIssue({
+          code: "custom",
+          message: `기간은 최대 ${maxDays}일까지 선택할 수 있습니다`,
+        });
+      }
+    });
+}
+
+/**
+ * 시간 ("HH:mm") 스키마
+ */
+export function timeSchema(options: TimeSchemaOptions = {}) {
+  const { optional = false, requiredMessage = "시간을 선택하세요" } = options;
+
+  return z.string().superRefine((value, ctx) => {
+    if (!value) {
+      if (!optional) ctx.addIssue({ code: "custom", message: requiredMessage });
+      return;
+    }
+    if (parseTimeInput(value) !== value) {
+      ctx.addIssue({ code: "custom", message: "올바른 시간이 아닙니다" });
+    }
+  });
+}
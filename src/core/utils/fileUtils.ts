@@ -9,6 +9,7 @@
  * - isAllowedExtension: 확장자 검증
  * - isUnderMaxSize: 파일 크기 검증
  * - getFileExtension: 확장자 추출
+ * - downloadFile: 문자열 내용을 파일로 다운로드
  */
 
 // ========================================
@@ -178,6 +179,33 @@ export function revokePreviewUrl(url: string): void {
   URL.revokeObjectURL(url);
 }
 
+// ========================================
+// File Download
+// ========================================
+
+/**
+ * 문자열 내용을 파일로 다운로드 (JSON/CSV 내보내기 등)
+ *
+ * @param content - 파일 내용
+ * @param fileName - 저장할 파일명
+ * @param mimeType - MIME 타입 (기본: "application/json")
+ *
+ * @example
+ * downloadFile(JSON.stringify(data, null, 2), "menus.json")
+ */
+export function downloadFile(
+  content: string,
+  fileName: string,
+  mimeType: string = "application/json"
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 // ========================================
 // Validation Result
 // ========================================
@@ -0,0 +1,274 @@
+/**
+ * SoftOne Design System(SDS) - gridUtils 테스트
+ * 작성: SoftOne Frontend Team
+ * 설명: 그리드 쿼리 파라미터 프로토콜(빌드/파싱)의 단위 테스트.
+ *      backend-mock gridQueryBuilder와 동일한 와이어 형식을 검증합니다.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildQueryParamsFromGridState,
+  buildQueryStringFromGridState,
+  getBatchRowErrors,
+  parseGridQueryParams,
+  serializeFilterValue,
+  sortRowsBySortStates,
+  toggleSortState,
+} from "./gridUtils";
+import type { FilterState, SortState } from "../model/grid.types";
+
+describe("gridUtils", () => {
+  // ========================================
+  // serializeFilterValue
+  // ========================================
+  describe("serializeFilterValue", () => {
+    it("배열은 JSON 배열 문자열로 직렬화합니다", () => {
+      expect(serializeFilterValue(["ACTIVE", "PENDING"])).toBe(
+        '["ACTIVE","PENDING"]'
+      );
+      expect(serializeFilterValue([1, 10])).toBe('["1","10"]');
+    });
+
+    it("Date는 ISO 문자열로 변환합니다", () => {
+      const date = new Date("2024-01-15T00:00:00.000Z");
+      expect(serializeFilterValue(date)).toBe("2024-01-15T00:00:00.000Z");
+    });
+
+    it("null/undefined는 빈 문자열로 변환합니다", () => {
+      expect(serializeFilterValue(null)).toBe("");
+      expect(serializeFilterValue(undefined)).toBe("");
+    });
+  });
+
+  // ========================================
+  // buildQueryParamsFromGridState
+  // ========================================
+  describe("buildQueryParamsFromGridState", () => {
+    it("다중 정렬을 콤마 구분으로 생성합니다", () => {
+      const params = buildQueryParamsFromGridState({ page: 1, pageSize: 20 }, [
+        { field: "status", direction: "asc" },
+        { field: "createdAt", direction: "desc" },
+      ]);
+
+      expect(params.sortField).toBe("status,createdAt");
+      expect(params.sortDirection).toBe("asc,desc");
+    });
+
+    it("필터를 filter[i][field|operator|value] 형식으로 생성합니다", () => {
+      const params = buildQueryParamsFromGridState(
+        { page: 2, pageSize: 50 },
+        undefined,
+        [{ field: "quantity", operator: "between", value: [1, 10] }]
+      );
+
+      expect(params).toEqual({
+        page: 2,
+        pageSize: 50,
+        "filter[0][field]": "quantity",
+        "filter[0][operator]": "between",
+        "filter[0][value]": '["1","10"]',
+      });
+    });
+  });
+
+  // ========================================
+  // parseGridQueryParams
+  // ========================================
+  describe("parseGridQueryParams", () => {
+    it("빌드한 쿼리스트링을 원래 상태로 복원합니다 (round-trip)", () => {
+      const sorts: SortState[] = [
+        { field: "status", direction: "asc" },
+        { field: "createdAt", direction: "desc" },
+      ];
+      const filters: FilterState[] = [
+        { field: "name", operator: "contains", value: "홍길동" },
+        { field: "status", operator: "in", value: ["ACTIVE", "PENDING"] },
+        { field: "totalAmount", operator: "between", value: ["100", "500"] },
+      ];
+
+      const query = buildQueryStringFromGridState(
+        { page: 3, pageSize: 10 },
+        sorts,
+        filters
+      );
+
+      expect(parseGridQueryParams(query)).toEqual({
+        pagination: { page: 3, pageSize: 10 },
+        sorts,
+        filters,
+      });
+    });
+
+    it("콤마가 들어 있는 in 값도 그대로 복원합니다", () => {
+      const filters: FilterState[] = [
+        { field: "address", operator: "in", value: ["서울, 강남", "부산"] },
+      ];
+
+      const query = buildQueryStringFromGridState(
+        { page: 1, pageSize: 20 },
+        undefined,
+        filters
+      );
+
+      expect(parseGridQueryParams(query).filters).toEqual(filters);
+    });
+
+    it("기존 콤마 구분 형식을 해석하고 빈 항목은 제외합니다", () => {
+      const { filters } = parseGridQueryParams({
+        "filter[0][field]": "status",
+        "filter[0][operator]": "in",
+        "filter[0][value]": "ACTIVE, ,PENDING",
+        "filter[1][field]": "status",
+        "filter[1][operator]": "in",
+        "filter[1][value]": "",
+      });
+
+      expect(filters.map((filter) => filter.value)).toEqual([
+        ["ACTIVE", "PENDING"],
+        [],
+      ]);
+    });
+
+    it("URLSearchParams와 객체 입력을 모두 지원합니다", () => {
+      const fromSearchParams = parseGridQueryParams(
+        new URLSearchParams("sortField=name&sortDirection=desc")
+      );
+      const fromObject = parseGridQueryParams({
+        sortField: "name",
+        sortDirection: "desc",
+      });
+
+      expect(fromSearchParams.sorts).toEqual([
+        { field: "name", direction: "desc" },
+      ]);
+      expect(fromObject.sorts).toEqual(fromSearchParams.sorts);
+    });
+
+    it("페이지 정보가 없으면 기본 페이지네이션을 사용합니다", () => {
+      expect(parseGridQueryParams("").pagination).toEqual({
+        page: 1,
+        pageSize: 20,
+      });
+    });
+
+    it("방향이 없는 정렬은 asc로 처리합니다", () => {
+      expect(parseGridQueryParams("sortField=name,email").sorts).toEqual([
+        { field: "name", direction: "asc" },
+        { field: "email", direction: "asc" },
+      ]);
+    });
+
+    it("인덱스 순서대로 필터를 정렬합니다", () => {
+      const { filters } = parseGridQueryParams({
+        "filter[1][field]": "email",
+        "filter[1][operator]": "endsWith",
+        "filter[1][value]": "@softone.com",
+        "filter[0][field]": "name",
+        "filter[0][operator]": "startsWith",
+        "filter[0][value]": "김",
+      });
+
+      expect(filters.map((filter) => filter.field)).toEqual(["name", "email"]);
+    });
+
+    it("지원하지 않는 연산자와 field 없는 필터는 무시합니다", () => {
+      const { filters } = parseGridQueryParams({
+        "filter[0][field]": "name",
+        "filter[0][operator]": "like",
+        "filter[0][value]": "x",
+        "filter[1][operator]": "eq",
+        "filter[1][value]": "y",
+      });
+
+      expect(filters).toEqual([]);
+    });
+  });
+
+  // ========================================
+  // sortRowsBySortStates / toggleSortState
+  // ========================================
+  describe("sortRowsBySortStates", () => {
+    const rows = [
+      { name: "나", dept: "B", age: 30 },
+      { name: "가", dept: "A", age: null },
+      { name: "다", dept: "A", age: 25 },
+      { name: "라", dept: "B", age: 30 },
+    ];
+
+    it("다중 정렬은 앞의 값이 같을 때 다음 정렬로 비교합니다", () => {
+      const sorted = sortRowsBySortStates(rows, [
+        { field: "dept", direction: "asc" },
+        { field: "name", direction: "desc" },
+      ]);
+      expect(sorted.map((row) => row.name)).toEqual(["다", "가", "라", "나"]);
+    });
+
+    it("빈 값은 방향과 관계없이 뒤로 보내고, 같은 값은 원래 순서를 유지합니다", () => {
+      const sorted = sortRowsBySortStates(rows, [
+        { field: "age", direction: "desc" },
+      ]);
+      expect(sorted.map((row) => row.name)).toEqual(["나", "라", "다", "가"]);
+    });
+
+    it("정렬이 없으면 원본 배열을 그대로 반환합니다", () => {
+      expect(sortRowsBySortStates(rows, [])).toBe(rows);
+    });
+  });
+
+  describe("toggleSortState", () => {
+    it("단일 정렬은 asc → desc → 없음 순서로 바뀌고 다른 컬럼 정렬을 대체합니다", () => {
+      const asc = toggleSortState([{ field: "age", direction: "asc" }], "name");
+      expect(asc).toEqual([{ field: "name", direction: "asc" }]);
+
+      const desc = toggleSortState(asc, "name");
+      expect(desc).toEqual([{ field: "name", direction: "desc" }]);
+      expect(toggleSortState(desc, "name")).toEqual([]);
+    });
+
+    it("다중 정렬은 다른 컬럼 정렬을 유지합니다", () => {
+      const sorts = toggleSortState(
+        [{ field: "age", direction: "asc" }],
+        "name",
+        true
+      );
+      expect(sorts).toEqual([
+        { field: "age", direction: "asc" },
+        { field: "name", direction: "asc" },
+      ]);
+      expect(toggleSortState(sorts, "age", true)).toEqual([
+        { field: "age", direction: "desc" },
+        { field: "name", direction: "asc" },
+      ]);
+    });
+  });
+
+  describe("getBatchRowErrors", () => {
+    it("오류 행만 rowId별 필드 메시지로 묶고, 필드 없는 오류는 _row에 담습니다", () => {
+      expect(
+        getBatchRowErrors({
+          results: [
+            { rowId: "A", operation: "update", status: "success" },
+            {
+              rowId: "B",
+              operation: "update",
+              status: "error",
+              errors: [
+                { field: "quantity", code: "INVALID", message: "최소값은 1" },
+                { field: "quantity", code: "INVALID", message: "정수여야 함" },
+              ],
+            },
+            {
+              rowId: "C",
+              operation: "delete",
+              status: "error",
+              errors: [{ code: "NOT_FOUND", message: "Row not found: C" }],
+            },
+          ],
+        })
+      ).toEqual({
+        B: { quantity: "최소값은 1" },
+        C: { _row: "Row not found: C" },
+      });
+    });
+  });
+});
@@ -6,15 +6,25 @@
  *   그리드에서 자주 사용되는 유틸리티 함수들을 제공합니다.
  *   - 셀 포맷팅 (숫자, 날짜)
  *   - 상태별 행 스타일링
- *   - 쿼리 파라미터 빌드
+ *   - 쿼리 파라미터 빌드 / 파싱 (backend-mock gridQueryBuilder와 공유하는 프로토콜)
+ *   - 클라이언트 정렬 (DataTable)
  */
 
 import type {
   PaginationState,
   SortState,
   FilterState,
+  FilterOperator,
   RowStatus,
+  GridBatchResponse,
 } from "../model/grid.types";
+import { DEFAULT_PAGINATION } from "../model/grid.types";
+import {
+  FILTER_OPERATORS,
+  LIST_FILTER_OPERATORS,
+  decodeFilterListValue,
+  encodeFilterListValue,
+} from "../model/gridFilterOperators";
 import { formatDate, formatDateTime } from "./dateUtils";
 
 // ========================================
@@ -197,7 +207,7 @@ export function buildQueryParamsFromGridState(
     filters.forEach((filter, index) => {
       params[`filter[${index}][field]`] = filter.field;
       params[`filter[${index}][operator]`] = filter.operator;
-      params[`filter[${index}][value]`] = filter.value;
+      params[`filter[${index}][value]`] = serializeFilterValue(filter.value);
     });
   }
 
@@ -224,6 +234,191 @@ export function buildQueryStringFromGridState(
   return searchParams.toString();
 }
 
+/**
+ * 지원하는 필터 연산자 목록 (backend-mock과 공유)
+ */
+export { FILTER_OPERATORS };
+
+/**
+ * 필터 값을 쿼리스트링 값으로 직렬화
+ * - 배열 (in, between): JSON 배열 문자열 (값에 콤마가 있어도 안전)
+ * - Date: ISO 문자열
+ */
+export function serializeFilterValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) {
+    return encodeFilterListValue(
+      value.map((item) => serializeFilterValue(item))
+    );
+  }
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+/**
+ * 쿼리 파라미터를 그리드 상태로 파싱 (buildQueryParamsFromGridState의 역변환)
+ *
+ * - in / between 값은 문자열 배열로, 그 외 연산자 값은 문자열로 반환합니다.
+ *   (JSON 배열 형식과 기존 콤마 구분 형식을 모두 해석하며 빈 항목은 제외합니다.)
+ * - 알 수 없는 연산자나 field가 없는 필터는 무시합니다.
+ *
+ * @example
+ * parseGridQueryParams("page=2&sortField=name&sortDirection=desc");
+ * // { pagination: { page: 2, pageSize: 20 }, sorts: [{ field: "name", direction: "desc" }], filters: [] }
+ */
+export function parseGridQueryParams(
+  input: string | URLSearchParams | Record<string, unknown>
+): {
+  pagination: PaginationState;
+  sorts: SortState[];
+  filters: FilterState[];
+} {
+  const params =
+    typeof input === "string" || input instanceof URLSearchParams
+      ? Object.fromEntries(new URLSearchParams(input).entries())
+      : input;
+
+  const readString = (key: string): string | undefined => {
+    const value = params[key];
+    return value === undefined || value === null ? undefined : String(value);
+  };
+
+  // 페이지네이션
+  const page = parseInt(readString("page") ?? "", 10);
+  const pageSize = parseInt(readString("pageSize") ?? "", 10);
+  const pagination: PaginationState = {
+    page: page > 0 ? page : DEFAULT_PAGINATION.page,
+    pageSize: pageSize > 0 ? pageSize : DEFAULT_PAGINATION.pageSize,
+  };
+
+  // 정렬 (콤마 구분 다중 정렬)
+  const sortFields = (readString("sortField") ?? "")
+    .split(",")
+    .map((field) => field.trim());
+  const sortDirections = (readString("sortDirection") ?? "").split(",");
+  const sorts: SortState[] = sortFields
+    .map(
+      (field, index): SortState => ({
+        field,
+        direction: sortDirections[index]?.trim() === "desc" ? "desc" : "asc",
+      })
+    )
+    .filter((sort) => sort.field.length > 0);
+
+  // 필터 (filter[i][field|operator|value])
+  const filterMap = new Map<number, Record<string, string>>();
+  Object.keys(params).forEach((key) => {
+    const match = /^filter\[(\d+)\]\[(field|operator|value)\]$/.exec(key);
+    if (!match) return;
+    const index = Number(match[1]);
+    filterMap.set(index, {
+      ...filterMap.get(index),
+      [match[2]]: readString(key) ?? "",
+    });
+  });
+
+  const filters: FilterState[] = [...filterMap.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, item]) => item)
+    .filter(
+      (item) =>
+        !!item.field &&
+        FILTER_OPERATORS.includes(item.operator as FilterOperator)
+    )
+    .map((item) => {
+      const operator = item.operator as FilterOperator;
+      const rawValue = item.value ?? "";
+      return {
+        field: item.field,
+        operator,
+        value: LIST_FILTER_OPERATORS.includes(operator)
+          ? decodeFilterListValue(rawValue)
+          : rawValue,
+      };
+    });
+
+  return { pagination, sorts, filters };
+}
+
+// ========================================
+// Client Sorting Functions
+// ========================================
+
+const isEmptyCellValue = (value: unknown): boolean =>
+  value === null || value === undefined || value === "";
+
+/**
+ * 셀 값 비교 (숫자/날짜/불리언은 값으로, 그 외는 한글 로캘 + 숫자 인식 문자열 비교)
+ */
+export function compareCellValues(a: unknown, b: unknown): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+  if (typeof a === "boolean" && typeof b === "boolean") {
+    return Number(a) - Number(b);
+  }
+  return String(a).localeCompare(String(b), "ko-KR", { numeric: true });
+}
+
+/**
+ * SortState 목록으로 행 정렬 (클라이언트 정렬, 원본 배열은 변경하지 않음)
+ * - 앞의 정렬 값이 같으면 다음 정렬로 비교, 모두 같으면 원래 순서 유지
+ * - 빈 값(null/undefined/"")은 방향과 관계없이 항상 뒤로
+ */
+export function sortRowsBySortStates<T>(
+  rows: T[],
+  sorts: SortState[],
+  getValue: (row: T, field: string) => unknown = (row, field) =>
+    (row as Record<string, unknown>)[field]
+): T[] {
+  if (sorts.length === 0) return rows;
+
+  return rows
+    .map((row, index) => ({ row, index }))
+    .sort((a, b) => {
+      for (const { field, direction } of sorts) {
+        const aValue = getValue(a.row, field);
+        const bValue = getValue(b.row, field);
+        const aEmpty = isEmptyCellValue(aValue);
+        const bEmpty = isEmptyCellValue(bValue);
+
+        if (aEmpty || bEmpty) {
+          if (aEmpty !== bEmpty) return aEmpty ? 1 : -1;
+          continue;
+        }
+
+        const result = compareCellValues(aValue, bValue);
+        if (result !== 0) return direction === "asc" ? result : -result;
+      }
+      return a.index - b.index;
+    })
+    .map(({ row }) => row);
+}
+
+/**
+ * 컬럼 헤더 클릭 시 다음 정렬 상태 (없음 → asc → desc → 없음)
+ * @param multi true면 다른 컬럼 정렬을 유지하고 이 컬럼만 변경 (다중 정렬)
+ */
+export function toggleSortState(
+  sorts: SortState[],
+  field: string,
+  multi: boolean = false
+): SortState[] {
+  const current = sorts.find((sort) => sort.field === field);
+  const next: SortState | null = !current
+    ? { field, direction: "asc" }
+    : current.direction === "asc"
+    ? { field, direction: "desc" }
+    : null;
+
+  if (!multi) return next ? [next] : [];
+  if (!current) return next ? [...sorts, next] : sorts;
+  return next
+    ? sorts.map((sort) => (sort.field === field ? next : sort))
+    : sorts.filter((sort) => sort.field !== field);
+}
+
 // ========================================
 // Data Transformation Functions
 // ========================================
@@ -327,3 +522,33 @@ export function validateCellValue(
 
   return null;
 }
+
+/** 필드가 없는 행 단위 오류(NOT_FOUND 등)를 담는 키 */
+export const BATCH_ROW_ERROR_KEY = "_row";
+
+/**
+ * 일괄 저장 응답(422 포함)의 행 단위 오류를 rowId → { 필드: 메시지 }로 변환
+ * 필드가 없는 오류는 BATCH_ROW_ERROR_KEY에 담기며, 같은 필드의 오류는 첫 번째만 사용합니다.
+ *
+ * @example
+ * getBatchRowErrors(response);
+ * // { "SALE-000001": { quantity: "quantity의 최소값은 1입니다." } }
+ */
+export function getBatchRowErrors<T>(
+  response: Pick<GridBatchResponse<T>, "results">
+): Record<string, Record<string, string>> {
+  const rowErrors: Record<string, Record<string, string>> = {};
+
+  response.results.forEach(({ rowId, status, errors = [] }) => {
+    if (status !== "error") return;
+
+    const fieldErrors: Record<string, string> = {};
+    errors.forEach(({ field, message }) => {
+      const key = field ?? BATCH_ROW_ERROR_KEY;
+      fieldErrors[key] ??= message;
+    });
+    rowErrors[rowId] = fieldErrors;
+  });
+
+  return rowErrors;
+}
@@ -60,6 +60,98 @@ export {
   isDocumentFile,
   createPreviewUrl,
   revokePreviewUrl,
+  downloadFile,
   validateFile,
   type FileValidationResult,
 } from "./fileUtils";
+
+// JWT Utilities
+export {
+  decodeJwtPayload,
+  getTokenExpiresAt,
+  isTokenExpiringSoon,
+  type JwtPayload,
+} from "./jwtUtils";
+
+// Tree Move Utilities (드래그 앤 드롭/키보드 이동)
+export {
+  resolveTreeDrop,
+  resolveKeyboardTreeMove,
+  applyTreeMove,
+  getTreeNodeHeight,
+  type MovableTreeNode,
+  type TreeDropPosition,
+  type TreeKeyboardMoveAction,
+  type TreeMove,
+  type TreeMoveResult,
+  type TreeMoveRules,
+} from "./treeMoveUtils";
+
+// Search Utilities (퍼지 검색, 한글 초성 검색)
+export {
+  fuzzyMatch,
+  getChosung,
+  getChosungOf,
+  isChosung,
+  substringMatch,
+  type FuzzyMatchResult,
+} from "./searchUtils";
+
+// Virtual Scroll Utilities (가상 스크롤 범위 계산)
+export {
+  buildRowOffsets,
+  findRowIndexAtOffset,
+  getVirtualRange,
+  getScrollTopForRow,
+  type VirtualRange,
+  type VirtualScrollAlign,
+} from "./virtualUtils";
+
+// Combobox Utilities (옵션 필터, 그룹/추가 행 목록, 키보드 이동)
+export {
+  filterComboboxOptions,
+  hasExactLabelMatch,
+  buildComboboxItems,
+  isSelectableComboboxItem,
+  findSelectableComboboxIndex,
+  moveComboboxActiveIndex,
+  type ComboboxOptionLike,
+  type ComboboxListItem,
+} from "./comboboxUtils";
+
+// Date Picker Utilities (달력 그리드, 키보드 이동, 입력 파싱, 기간 프리셋)
+export {
+  DATE_VALUE_FORMAT,
+  TIME_VALUE_FORMAT,
+  WEEKDAY_LABELS,
+  DEFAULT_DATE_RANGE_PRESETS,
+  getTodayValue,
+  shiftDate,
+  parseDateInput,
+  parseDateRangeInput,
+  parseTimeInput,
+  normalizeDateRange,
+  isDateInRange,
+  isDateDisabled,
+  clampDate,
+  buildCalendarDays,
+  moveCalendarDate,
+  formatCalendarMonth,
+  formatCalendarDayLabel,
+  buildTimeOptions,
+  isTimeDisabled,
+  type DateRangeValue,
+  type DateConstraints,
+  type DateRangePreset,
+  type CalendarDay,
+} from "./datePickerUtils";
+
+// Date Schemas (DatePicker 계열 zod 스키마)
+export {
+  dateSchema,
+  dateRangeSchema,
+  timeSchema,
+  type DateSchemaOptions,
+  type DateRangeSchemaOptions,
+  type TimeSchemaOptions,
+} from "./dateSchemas";
@@ -0,0 +1,95 @@
+/**
+ * SoftOne Design System(SDS) - JWT Utility
+ * 작성: SoftOne Frontend Team
+ * 설명: JWT payload 디코딩 및 만료 시각 계산 유틸리티.
+ *      서명 검증은 서버의 책임이며, 프론트엔드는 선제적 토큰 갱신 시점 계산에만 사용합니다.
+ */
+
+// ========================================
+// Types
+// ========================================
+
+export interface JwtPayload {
+  /** 만료 시각 (epoch seconds) */
+  exp?: number;
+  /** 발급 시각 (epoch seconds) */
+  iat?: number;
+  /** 사용자 ID */
+  sub?: string;
+  [claim: string]: unknown;
+}
+
+// ========================================
+// Decoding
+// ========================================
+
+/**
+ * base64url 문자열을 UTF-8 문자열로 디코딩
+ */
+function decodeBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, "=");
+  const binary = atob(padded);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * JWT payload 디코딩
+ *
+ * @param token - JWT 문자열
+ * @returns payload 객체 (JWT 형식이 아니면 null)
+ *
+ * @example
+ * decodeJwtPayload(accessToken)?.sub // '1'
+ * decodeJwtPayload('mock-token-1') // null
+ */
+export function decodeJwtPayload(
+  token: string | null | undefined
+): JwtPayload | null {
+  if (!token) return null;
+
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+
+  try {
+    const payload = JSON.parse(decodeBase64Url(parts[1]));
+    return payload && typeof payload === "object" ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * JWT 만료 시각 (epoch milliseconds)
+ *
+ * @returns 만료 시각 (exp 클레임이 없으면 null)
+ */
+export function getTokenExpiresAt(
+  token: string | null | undefined
+): number | null {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === "number" ? exp * 1000 : null;
+}
+
+/**
+ * 토큰이 곧 만료되는지 여부
+ *
+ * @param token - JWT 문자열
+ * @param thresholdMs - 만료 전 여유 시간 (기본: 0)
+ * @param now - 기준 시각 (테스트용)
+ * @returns 만료 시각을 알 수 없으면 false
+ *
+ * @example
+ * // 1분 이내 만료 예정이면 미리 갱신
+ * if (isTokenExpiringSoon(accessToken, 60_000)) await refreshAccessToken();
+ */
+export function isTokenExpiringSoon(
+  token: string | null | undefined,
+  thresholdMs: number = 0,
+  now: number = Date.now()
+): boolean {
+  const expiresAt = getTokenExpiresAt(token);
+  if (expiresAt === null) return false;
+  return expiresAt - thresholdMs <= now;
+}
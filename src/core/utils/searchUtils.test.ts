@@ -0,0 +1,58 @@
+/**
+ * SoftOne Design System(SDS) - searchUtils 테스트
+ * 작성: SoftOne Frontend Team
+ * 설명: 퍼지 매칭과 한글 초성 검색 테스트.
+ */
+
+import { describe, it, expect } from "vitest";
+import { fuzzyMatch, getChosung, substringMatch } from "./searchUtils";
+
+describe("searchUtils", () => {
+  describe("getChosung", () => {
+    it("한글 음절은 초성으로, 나머지 글자는 그대로 변환합니다", () => {
+      expect(getChosung("사용자 관리")).toBe("ㅅㅇㅈ ㄱㄹ");
+      expect(getChosung("API 테스트")).toBe("API ㅌㅅㅌ");
+    });
+  });
+
+  describe("fuzzyMatch", () => {
+    it("초성과 음절을 섞어서 검색할 수 있습니다", () => {
+      expect(fuzzyMatch("ㅅㅇㅈ", "사용자 관리")).toEqual({
+        score: 100,
+        indices: [0, 1, 2],
+      });
+      expect(fuzzyMatch("사ㅇ", "사용자 관리")?.indices).toEqual([0, 1]);
+      expect(fuzzyMatch("ㄱㄹ", "사용자 관리")?.indices).toEqual([4, 5]);
+    });
+
+    it("대소문자와 검색어 공백을 무시합니다", () => {
+      expect(fuzzyMatch("Users List", "users.list")?.indices).toEqual([
+        0, 1, 2, 3, 4, 6, 7, 8, 9,
+      ]);
+      expect(fuzzyMatch("USERS", "users.list")?.score).toBe(100);
+    });
+
+    it("연속 일치가 흩어진 일치보다 점수가 높습니다", () => {
+      const contiguous = fuzzyMatch("list", "users.list")!;
+      const scattered = fuzzyMatch("usls", "users.list")!;
+
+      expect(contiguous.indices).toEqual([6, 7, 8, 9]);
+      expect(scattered.indices).toEqual([0, 1, 6, 8]);
+      expect(contiguous.score).toBeGreaterThan(scattered.score);
+    });
+
+    it("순서대로 일치하지 않으면 null을 반환합니다", () => {
+      expect(fuzzyMatch("tsu", "users")).toBeNull();
+      expect(fuzzyMatch("", "users")).toEqual({ score: 0, indices: [] });
+    });
+  });
+
+  describe("substringMatch", () => {
+    it("연속으로 일치한 경우만 위치를 반환합니다", () => {
+      expect(substringMatch("ㄱㅂ", "개발본부")).toEqual([0, 1]);
+      expect(substringMatch("LIST", "users.list")).toEqual([6, 7, 8, 9]);
+      expect(substringMatch("개본", "개발본부")).toBeNull();
+      expect(substringMatch("", "개발본부")).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * SoftOne Design System(SDS) - Search Utilities
+ * 작성: SoftOne Frontend Team
+ *
+ * 명령 팔레트/목록 검색에서 사용하는 퍼지 매칭 유틸리티.
+ * 한글 초성 검색을 지원합니다. (예: "ㅅㅇㅈ" → "사용자 관리")
+ *
+ * 매칭 규칙:
+ *   - 대소문자와 검색어의 공백은 무시합니다.
+ *   - 검색어 글자가 초성(ㄱ~ㅎ)이면 같은 초성의 한글 음절과 일치합니다.
+ *   - 연속으로 일치하면(부분 문자열) 글자가 흩어져 일치할 때보다 점수가 높습니다.
+ */
+
+// ========================================
+// Types
+// ========================================
+
+export interface FuzzyMatchResult {
+  /** 점수 (높을수록 잘 일치, 0~100) */
+  score: number;
+  /** 일치한 글자 위치 (하이라이트용) */
+  indices: number[];
+}
+
+// ========================================
+// Chosung
+// ========================================
+
+const CHOSUNG = [
+  "ㄱ", "ㄲ", "ㄴ", "ㄷ", "ㄸ", "ㄹ", "ㅁ", "ㅂ", "ㅃ", "ㅅ",
+  "ㅆ", "ㅇ", "ㅈ", "ㅉ", "ㅊ", "ㅋ", "ㅌ", "ㅍ", "ㅎ",
+]; // prettier-ignore
+
+const HANGUL_START = 0xac00;
+const HANGUL_END = 0xd7a3;
+/** 중성(21) × 종성(28) */
+const SYLLABLES_PER_CHOSUNG = 588;
+
+/**
+ * 한글 음절의 초성 (한글 음절이 아니면 그대로 반환)
+ *
+ * @example
+ * getChosungOf("사") // "ㅅ"
+ * getChosungOf("a") // "a"
+ */
+export function getChosungOf(char: string): string {
+  const code = char.charCodeAt(0);
+  if (code < HANGUL_START || code > HANGUL_END) return char;
+  return CHOSUNG[Math.floor((code - HANGUL_START) / SYLLABLES_PER_CHOSUNG)];
+}
+
+/**
+ * 문자열의 초성 (한글 음절 외 글자는 그대로)
+ *
+ * @example
+ * getChosung("사용자 관리") // "ㅅㅇㅈ ㄱㄹ"
+ */
+export function getChosung(text: string): string {
+  return Array.from(text, getChosungOf).join("");
+}
+
+/**
+ * 초성 글자(ㄱ~ㅎ)인지 확인
+ */
+export function isChosung(char: string): boolean {
+  return CHOSUNG.includes(char);
+}
+
+// ========================================
+// Fuzzy Match
+// ========================================
+
+const charMatches = (queryChar: string, targetChar: string): boolean =>
+  queryChar === targetChar ||
+  (isChosung(queryChar) && getChosungOf(targetChar) === queryChar);
+
+/**
+ * 검색어와 대상 문자열의 퍼지 매칭
+ *   - 부분 문자열 일치: 50 + 시작 위치가 앞일수록 가산 (맨 앞이면 100)
+ *   - 흩어진 일치: 50 이하, 글자 사이 간격이 클수록 감점
+ *
+ * @returns 일치하지 않으면 null, 검색어가 비어 있으면 score 0
+ *
+ * @example
+ * fuzzyMatch("ㅅㅇㅈ", "사용자 관리") // { score: 100, indices: [0, 1, 2] }
+ * fuzzyMatch("usr", "users.list") // { score: ..., indices: [0, 1, 3] }
+ */
+export function fuzzyMatch(
+  query: string,
+  target: string
+): FuzzyMatchResult | null {
+  const q = Array.from(query.toLowerCase().replace(/\s+/g, ""));
+  const t = Array.from(target.toLowerCase());
+  if (q.length === 0) return { score: 0, indices: [] };
+  if (q.length > t.length) return null;
+
+  // 1) 부분 문자열 일치
+  for (let start = 0; start <= t.length - q.length; start++) {
+    if (q.every((char, offset) => charMatches(char, t[start + offset]))) {
+      const indices = q.map((_, offset) => start + offset);
+      const isWordStart = start === 0 || /[\s./_-]/.test(t[start - 1]);
+      return {
+        score:
+          start === 0 ? 100 : Math.max(50, (isWordStart ? 90 : 80) - start),
+        indices,
+      };
+    }
+  }
+
+  // 2) 흩어진 일치 (앞에서부터 순서대로)
+  const indices: number[] = [];
+  let position = 0;
+  for (const char of q) {
+    while (position < t.length && !charMatches(char, t[position])) position++;
+    if (position === t.length) return null;
+    indices.push(position++);
+  }
+
+  const gaps = indices[indices.length - 1] - indices[0] + 1 - indices.length;
+  return { score: Math.max(1, 50 - gaps * 2 - indices[0]), indices };
+}
+
+/**
+ * 부분 문자열 일치 (한글 초성 지원, 글자가 흩어진 일치는 제외)
+ * 트리 필터, 콤보박스 옵션 필터처럼 목록을 거를 때 사용합니다.
+ *
+ * @returns 일치한 글자 위치, 일치하지 않으면 null (검색어가 비어 있으면 [])
+ *
+ * @example
+ * substringMatch("ㄱㅂ", "개발본부") // [0, 1]
+ * substringMatch("개본", "개발본부") // null
+ */
+export function substringMatch(query: string, target: string): number[] | null {
+  const match = fuzzyMatch(query, target);
+  if (!match) return null;
+
+  const { indices } = match;
+  if (indices.length === 0) return indices;
+  return indices[indices.length - 1] - indices[0] === indices.length - 1
+    ? indices
+    : null;
+}
@@ -0,0 +1,179 @@
+/**
+ * SoftOne Design System(SDS) - treeMoveUtils 테스트
+ * 작성: SoftOne Frontend Team
+ * 설명: 트리 드래그 앤 드롭/키보드 이동의 위치 계산과 규칙 검증 테스트.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  applyTreeMove,
+  resolveKeyboardTreeMove,
+  resolveTreeDrop,
+} from "./treeMoveUtils";
+import {
+  getMaxMenuDepth,
+  MAX_MENU_DEPTH,
+  MENU_NODE_MOVE_RULES,
+  type MenuNode,
+} from "../router/menu.types";
+
+interface Node {
+  id: string;
+  children?: Node[];
+}
+
+const nodes: Node[] = [
+  { id: "a", children: [{ id: "a1" }, { id: "a2" }] },
+  { id: "b" },
+  { id: "c" },
+];
+
+const ids = (list: Node[]): string[] => list.map((node) => node.id);
+
+describe("treeMoveUtils", () => {
+  // ========================================
+  // resolveTreeDrop / applyTreeMove
+  // ========================================
+  describe("resolveTreeDrop", () => {
+    it("앞/뒤 드롭은 대상과 같은 부모의 위치로 변환합니다", () => {
+      const result = resolveTreeDrop(nodes, "c", "a", "before");
+      expect(result).toEqual({
+        valid: true,
+        move: { nodeId: "c", parentId: null, index: 0 },
+      });
+      if (!result.valid) return;
+      expect(ids(applyTreeMove(nodes, result.move))).toEqual(["c", "a", "b"]);
+    });
+
+    it("하위 드롭은 대상의 마지막 하위 항목으로 옮깁니다", () => {
+      const result = resolveTreeDrop(nodes, "b", "a", "inside");
+      if (!result.valid) throw new Error(result.reason);
+
+      const moved = applyTreeMove(nodes, result.move);
+      expect(ids(moved)).toEqual(["a", "c"]);
+      expect(ids(moved[0].children!)).toEqual(["a1", "a2", "b"]);
+      // 원본은 변경하지 않음
+      expect(ids(nodes)).toEqual(["a", "b", "c"]);
+    });
+
+    it("자기 하위 항목으로는 옮길 수 없습니다", () => {
+      expect(resolveTreeDrop(nodes, "a", "a1", "inside").valid).toBe(false);
+    });
+
+    it("최대 깊이와 하위 허용 규칙을 지킵니다", () => {
+      expect(
+        resolveTreeDrop(nodes, "a", "b", "inside", { maxDepth: 2 }).valid
+      ).toBe(false);
+      expect(
+        resolveTreeDrop(nodes, "c", "b", "inside", {
+          canHaveChildren: (node) => node.id !== "b",
+        }).valid
+      ).toBe(false);
+    });
+  });
+
+  // ========================================
+  // resolveKeyboardTreeMove
+  // ========================================
+  describe("resolveKeyboardTreeMove", () => {
+    it("위/아래/들여쓰기/내어쓰기를 이동으로 변환합니다", () => {
+      const down = resolveKeyboardTreeMove(nodes, "a1", "down");
+      const indent = resolveKeyboardTreeMove(nodes, "b", "indent");
+      const outdent = resolveKeyboardTreeMove(nodes, "a2", "outdent");
+
+      expect(down).toMatchObject({ move: { parentId: "a", index: 1 } });
+      expect(indent).toMatchObject({ move: { parentId: "a", index: 2 } });
+      expect(outdent).toMatchObject({ move: { parentId: null, index: 1 } });
+    });
+
+    it("더 이동할 수 없으면 사유를 반환합니다", () => {
+      expect(resolveKeyboardTreeMove(nodes, "a", "up")).toEqual({
+        valid: false,
+        reason: "맨 위 항목입니다.",
+      });
+      expect(resolveKeyboardTreeMove(nodes, "b", "outdent").valid).toBe(false);
+    });
+  });
+
+  // ========================================
+  // MENU_NODE_MOVE_RULES
+  // ========================================
+  describe("MENU_NODE_MOVE_RULES", () => {
+    const menuNodes: MenuNode[] = [
+      {
+        id: "work",
+        type: "category",
+        label: "업무",
+        children: [
+          {
+            id: "orders",
+            type: "menu",
+            label: "주문",
+            children: [
+              {
+                id: "order-admin",
+                type: "menu",
+                label: "주문 관리",
+                children: [
+                  { id: "list", type: "page", label: "목록", routeKey: "l" },
+                ],
+              },
+            ],
+          },
+          { id: "report", type: "page", label: "리포트", routeKey: "r" },
+          { id: "misc", type: "menu", label: "기타 메뉴" },
+        ],
+      },
+      { id: "etc", type: "category", label: "기타", children: [] },
+    ];
+
+    it("category는 Depth 1에만, 하위 항목은 page에 둘 수 없습니다", () => {
+      expect(
+        resolveTreeDrop(
+          menuNodes,
+          "etc",
+          "work",
+          "inside",
+          MENU_NODE_MOVE_RULES
+        ).valid
+      ).toBe(false);
+      expect(
+        resolveTreeDrop(
+          menuNodes,
+          "orders",
+          "report",
+          "inside",
+          MENU_NODE_MOVE_RULES
+        ).valid
+      ).toBe(false);
+    });
+
+    it("이동 후 메뉴 깊이가 최대 깊이를 넘지 않습니다", () => {
+      // orders(하위 2단계 포함)를 Depth 2 메뉴 안에 넣으면 5단계가 됨
+      expect(
+        resolveTreeDrop(
+          menuNodes,
+          "orders",
+          "misc",
+          "inside",
+          MENU_NODE_MOVE_RULES
+        )
+      ).toEqual({
+        valid: false,
+        reason: `최대 ${MAX_MENU_DEPTH}단계까지만 둘 수 있습니다.`,
+      });
+
+      const result = resolveTreeDrop(
+        menuNodes,
+        "report",
+        "order-admin",
+        "inside",
+        MENU_NODE_MOVE_RULES
+      );
+      if (!result.valid) throw new Error(result.reason);
+      expect(getMaxMenuDepth(applyTreeMove(menuNodes, result.move))).toBe(
+        MAX_MENU_DEPTH
+      );
+    });
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * SoftOne Design System(SDS) - Tree Move Utilities
+ * 작성: SoftOne Frontend Team
+ *
+ * 트리 노드 이동(드래그 앤 드롭, 키보드 이동)의 위치 계산/검증/적용 로직.
+ * 도메인 독립적이며, id/children만 있으면 TreeView 노드와 메뉴 트리 모두에 사용할 수 있습니다.
+ *
+ * 이동 규칙(TreeMoveRules):
+ *   - maxDepth: 이동 후 하위 노드까지 포함한 최대 깊이 (최상위 = 1)
+ *   - canHaveChildren: 하위 노드를 가질 수 있는 노드인지
+ *   - canPlaceAtDepth: 노드가 해당 깊이에 놓일 수 있는지
+ */
+
+// ========================================
+// Types
+// ========================================
+
+/** 이동 가능한 트리 노드 */
+export interface MovableTreeNode<T> {
+  id: string;
+  children?: T[];
+}
+
+/** 드롭 위치 (대상 노드 앞/뒤/하위) */
+export type TreeDropPosition = "before" | "after" | "inside";
+
+/** 키보드 이동 동작 */
+export type TreeKeyboardMoveAction = "up" | "down" | "indent" | "outdent";
+
+/** 트리 이동 규칙 */
+export interface TreeMoveRules<T> {
+  /** 최대 깊이 (최상위 = 1) */
+  maxDepth?: number;
+  /** 하위 노드를 가질 수 있는지 (기본: 모두 허용) */
+  canHaveChildren?: (node: T) => boolean;
+  /** 해당 깊이에 놓일 수 있는지 (기본: 모두 허용) */
+  canPlaceAtDepth?: (node: T, depth: number) => boolean;
+}
+
+/**
+ * 확정된 이동
+ *   - parentId: 새 부모 (null이면 최상위)
+ *   - index: 이동할 노드를 뺀 새 부모의 하위 목록에서 들어갈 위치
+ */
+export interface TreeMove {
+  nodeId: string;
+  parentId: string | null;
+  index: number;
+}
+
+export type TreeMoveResult =
+  | { valid: true; move: TreeMove }
+  | { valid: false; reason: string };
+
+interface NodeLocation<T> {
+  node: T;
+  parent: T | null;
+  siblings: T[];
+  index: number;
+  depth: number;
+}
+
+// ========================================
+// Helpers
+// ========================================
+
+function findLocation<T extends MovableTreeNode<T>>(
+  nodes: T[],
+  id: string,
+  parent: T | null = null,
+  depth: number = 1
+): NodeLocation<T> | null {
+  for (let index = 0; index < nodes.length; index++) {
+    const node = nodes[index];
+    if (node.id === id) {
+      return { node, parent, siblings: nodes, index, depth };
+    }
+    if (node.children?.length) {
+      const found = findLocation(node.children, id, node, depth + 1);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+function containsNode<T extends MovableTreeNode<T>>(
+  node: T,
+  id: string
+): boolean {
+  return (node.children ?? []).some(
+    (child) => child.id === id || containsNode(child, id)
+  );
+}
+
+/**
+ * 노드와 하위 노드의 높이 (하위 노드가 없으면 1)
+ */
+export function getTreeNodeHeight<T extends MovableTreeNode<T>>(
+  node: T
+): number {
+  if (!node.children?.length) return 1;
+  return 1 + Math.max(...node.children.map(getTreeNodeHeight));
+}
+
+const invalid = (reason: string): TreeMoveResult => ({ valid: false, reason });
+
+// ========================================
+// Resolve
+// ========================================
+
+/**
+ * 드롭 대상/위치를 이동으로 변환하고 규칙을 검증합니다.
+ */
+export function resolveTreeDrop<T extends MovableTreeNode<T>>(
+  nodes: T[],
+  dragId: string,
+  targetId: string,
+  position: TreeDropPosition,
+  rules: TreeMoveRules<T> = {}
+): TreeMoveResult {
+  const drag = findLocation(nodes, dragId);
+  const target = findLocation(nodes, targetId);
+  if (!drag || !target) return invalid("이동할 항목을 찾을 수 없습니다.");
+
+  if (dragId === targetId || containsNode(drag.node, targetId)) {
+    return invalid("자기 자신이나 하위 항목으로 옮길 수 없습니다.");
+  }
+
+  let parent: T | null;
+  let siblings: T[];
+  let depth: number;
+  let index: number;
+
+  if (position === "inside") {
+    if (rules.canHaveChildren && !rules.canHaveChildren(target.node)) {
+      return invalid("이 항목은 하위 항목을 가질 수 없습니다.");
+    }
+    parent = target.node;
+    siblings = (target.node.children ?? []).filter((n) => n.id !== dragId);
+    depth = target.depth + 1;
+    index = siblings.length;
+  } else {
+    parent = target.parent;
+    siblings = target.siblings.filter((n) => n.id !== dragId);
+    depth = target.depth;
+    index =
+      siblings.findIndex((n) => n.id === targetId) +
+      (position === "after" ? 1 : 0);
+  }
+
+  if (rules.canPlaceAtDepth && !rules.canPlaceAtDepth(drag.node, depth)) {
+    return invalid(`이 항목은 ${depth}단계에 둘 수 없습니다.`);
+  }
+
+  if (
+    rules.maxDepth !== undefined &&
+    depth + getTreeNodeHeight(drag.node) - 1 > rules.maxDepth
+  ) {
+    return invalid(`최대 ${rules.maxDepth}단계까지만 둘 수 있습니다.`);
+  }
+
+  const parentId = parent?.id ?? null;
+  if (parentId === (drag.parent?.id ?? null) && index === drag.index) {
+    return invalid("이미 같은 위치에 있습니다.");
+  }
+
+  return { valid: true, move: { nodeId: dragId, parentId, index } };
+}
+
+/**
+ * 키보드 이동(위/아래/들여쓰기/내어쓰기)을 이동으로 변환합니다.
+ *   - up/down: 같은 부모 안에서 한 칸 이동
+ *   - indent: 바로 위 형제의 마지막 하위 항목으로 이동
+ *   - outdent: 부모 바로 다음 위치로 이동
+ */
+export function resolveKeyboardTreeMove<T extends MovableTreeNode<T>>(
+  nodes: T[],
+  nodeId: string,
+  action: TreeKeyboardMoveAction,
+  rules: TreeMoveRules<T> = {}
+): TreeMoveResult {
+  const location = findLocation(nodes, nodeId);
+  if (!location) return invalid("이동할 항목을 찾을 수 없습니다.");
+
+  const { siblings, index, parent } = location;
+  const previous = siblings[index - 1];
+  const next = siblings[index + 1];
+
+  switch (action) {
+    case "up":
+      return previous
+        ? resolveTreeDrop(nodes, nodeId, previous.id, "before", rules)
+        : invalid("맨 위 항목입니다.");
+    case "down":
+      return next
+        ? resolveTreeDrop(nodes, nodeId, next.id, "after", rules)
+        : invalid("맨 아래 항목입니다.");
+    case "indent":
+      return previous
+        ? resolveTreeDrop(nodes, nodeId, previous.id, "inside", rules)
+        : invalid("위에 들여쓸 항목이 없습니다.");
+    case "outdent":
+      return parent
+        ? resolveTreeDrop(nodes, nodeId, parent.id, "after", rules)
+        : invalid("이미 최상위 항목입니다.");
+  }
+}
+
+// ========================================
+// Apply
+// ========================================
+
+/**
+ * 이동을 적용한 새 트리를 반환합니다. (원본은 변경하지 않음)
+ */
+export function applyTreeMove<T extends MovableTreeNode<T>>(
+  nodes: T[],
+  move: TreeMove
+): T[] {
+  const location = findLocation(nodes, move.nodeId);
+  if (!location) return nodes;
+
+  const remove = (list: T[]): T[] =>
+    list
+      .filter((node) => node.id !== move.nodeId)
+      .map((node) =>
+        node.children ? { ...node, children: remove(node.children) } : node
+      );
+
+  const insert = (list: T[]): T[] => {
+    const next = [...list];
+    next.splice(move.index, 0, location.node);
+    return next;
+  };
+
+  const withoutNode = remove(nodes);
+  if (move.parentId === null) return insert(withoutNode);
+
+  const insertInto = (list: T[]): T[] =>
+    list.map((node) => {
+      if (node.id === move.parentId) {
+        return { ...node, children: insert(node.children ?? []) };
+      }
+      return node.children
+        ? { ...node, children: insertInto(node.children) }
+        : node;
+    });
+
+  return insertInto(withoutNode);
+}
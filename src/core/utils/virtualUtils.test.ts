@@ -0,0 +1,53 @@
+/**
+ * SoftOne Design System(SDS) - virtualUtils 테스트
+ * 작성: SoftOne Frontend Team
+ * 설명: 가변 행 높이 가상 스크롤의 범위/스크롤 위치 계산 테스트.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildRowOffsets,
+  findRowIndexAtOffset,
+  getScrollTopForRow,
+  getVirtualRange,
+} from "./virtualUtils";
+
+// 행 높이: 20, 40, 20, 40, ... (전체 10행 = 300)
+const offsets = buildRowOffsets(10, (index) => (index % 2 === 0 ? 20 : 40));
+
+describe("virtualUtils", () => {
+  it("buildRowOffsets는 가변 높이의 누적 위치를 계산한다", () => {
+    expect(offsets.slice(0, 4)).toEqual([0, 20, 60, 80]);
+    expect(offsets[10]).toBe(300);
+  });
+
+  it("findRowIndexAtOffset은 위치가 속한 행을 찾는다", () => {
+    expect(findRowIndexAtOffset(offsets, 0)).toBe(0);
+    expect(findRowIndexAtOffset(offsets, 59)).toBe(1);
+    expect(findRowIndexAtOffset(offsets, 60)).toBe(2);
+    expect(findRowIndexAtOffset(offsets, 1000)).toBe(9);
+    expect(findRowIndexAtOffset([0], 10)).toBe(0);
+  });
+
+  it("getVirtualRange는 보이는 행 + overscan 범위를 반환한다", () => {
+    // scrollTop 70 ~ 150: 2(60~80), 3(80~120), 4(120~140), 5(140~180)
+    expect(getVirtualRange(offsets, 70, 80)).toEqual({ start: 2, end: 6 });
+    expect(getVirtualRange(offsets, 70, 80, 3)).toEqual({ start: 0, end: 9 });
+    expect(getVirtualRange([0], 0, 100)).toEqual({ start: 0, end: 0 });
+  });
+
+  it("getScrollTopForRow는 맞춤 방식에 따라 scrollTop을 계산한다", () => {
+    // 행 5: 140 ~ 180, 보이는 높이 100
+    expect(getScrollTopForRow(offsets, 5, 100, 0, "start")).toBe(140);
+    expect(getScrollTopForRow(offsets, 5, 100, 0, "end")).toBe(80);
+    expect(getScrollTopForRow(offsets, 5, 100, 0, "center")).toBe(110);
+
+    // auto: 이미 보이면 유지, 아래에 있으면 끝 맞춤, 위에 있으면 시작 맞춤
+    expect(getScrollTopForRow(offsets, 5, 100, 100)).toBe(100);
+    expect(getScrollTopForRow(offsets, 5, 100, 0)).toBe(80);
+    expect(getScrollTopForRow(offsets, 1, 100, 150)).toBe(20);
+
+    // 전체 높이를 넘지 않도록 제한
+    expect(getScrollTopForRow(offsets, 9, 100, 0, "start")).toBe(200);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * SoftOne Design System(SDS) - Virtual Scroll Utilities
+ * 작성: SoftOne Frontend Team
+ *
+ * 가상 스크롤(windowed rendering) 계산 유틸리티
+ *   - 행 높이가 서로 달라도 되도록 누적 오프셋(offsets)으로 계산합니다.
+ *   - 화면에 보이는 범위 + overscan만 렌더링하고, 나머지는 위/아래 여백으로 채웁니다.
+ *   - useVirtualRows 훅(DataTable, TreeView)에서 사용합니다.
+ */
+
+// ========================================
+// Types
+// ========================================
+
+export interface VirtualRange {
+  /** 렌더링 시작 인덱스 (포함) */
+  start: number;
+  /** 렌더링 끝 인덱스 (제외) */
+  end: number;
+}
+
+/**
+ * 스크롤 위치 맞춤
+ * - auto: 이미 보이면 그대로, 위에 있으면 start, 아래에 있으면 end
+ */
+export type VirtualScrollAlign = "auto" | "start" | "center" | "end";
+
+// ========================================
+// Offset Functions
+// ========================================
+
+/**
+ * 행 시작 위치 누적 배열 (길이 count + 1, 마지막 값은 전체 높이)
+ */
+export function buildRowOffsets(
+  count: number,
+  getRowHeight: (index: number) => number
+): number[] {
+  const offsets = new Array<number>(count + 1);
+  offsets[0] = 0;
+  for (let index = 0; index < count; index++) {
+    offsets[index + 1] = offsets[index] + getRowHeight(index);
+  }
+  return offsets;
+}
+
+/**
+ * 위치(offset)가 속한 행 인덱스 (이진 탐색)
+ */
+export function findRowIndexAtOffset(
+  offsets: number[],
+  offset: number
+): number {
+  const count = offsets.length - 1;
+  if (count <= 0) return 0;
+
+  let low = 0;
+  let high = count - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+}
+
+// ========================================
+// Range / Scroll Functions
+// ========================================
+
+/**
+ * 스크롤 위치에서 렌더링할 행 범위
+ */
+export function getVirtualRange(
+  offsets: number[],
+  scrollTop: number,
+  viewportHeight: number,
+  overscan: number = 0
+): VirtualRange {
+  const count = offsets.length - 1;
+  if (count <= 0) return { start: 0, end: 0 };
+
+  const first = findRowIndexAtOffset(offsets, Math.max(0, scrollTop));
+  const last = findRowIndexAtOffset(
+    offsets,
+    Math.max(0, scrollTop + viewportHeight - 1)
+  );
+
+  return {
+    start: Math.max(0, first - overscan),
+    end: Math.min(count, last + 1 + overscan),
+  };
+}
+
+/**
+ * 행이 보이도록 하는 scrollTop
+ */
+export function getScrollTopForRow(
+  offsets: number[],
+  index: number,
+  viewportHeight: number,
+  currentScrollTop: number,
+  align: VirtualScrollAlign = "auto"
+): number {
+  const count = offsets.length - 1;
+  if (count <= 0) return 0;
+
+  const safeIndex = Math.min(Math.max(0, index), count - 1);
+  const rowStart = offsets[safeIndex];
+  const rowEnd = offsets[safeIndex + 1];
+  const maxScrollTop = Math.max(0, offsets[count] - viewportHeight);
+
+  let scrollTop: number;
+  switch (align) {
+    case "start":
+      scrollTop = rowStart;
+      break;
+    case "center":
+      scrollTop = rowStart - (viewportHeight - (rowEnd - rowStart)) / 2;
+      break;
+    case "end":
+      scrollTop = rowEnd - viewportHeight;
+      break;
+    default:
+      if (rowStart < currentScrollTop) {
+        scrollTop = rowStart;
+      } else if (rowEnd > currentScrollTop + viewportHeight) {
+        scrollTop = rowEnd - viewportHeight;
+      } else {
+        scrollTop = currentScrollTop;
+      }
+  }
+
+  return Math.min(Math.max(0, scrollTop), maxScrollTop);
+}
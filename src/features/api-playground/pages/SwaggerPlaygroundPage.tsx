@@ -14,7 +14,7 @@
  */
 
 import React, { useState, useMemo, useCallback } from "react";
-import axios, { AxiosError } from "axios";
+import axios from "axios";
 import {
   Globe,
   Loader2,
@@ -34,6 +34,7 @@ import { Badge } from "@core/components/ui/Badge";
 import { Tabs } from "@core/components/ui/Tabs";
 import { JsonViewer } from "@core/components/ui/JsonViewer";
 import { useToast } from "@core/hooks/useToast";
+import { normalizeApiError } from "@core/api/apiError";
 
 import { useOpenApiSpecQuery } from "../api/swaggerLoader";
 import { EndpointSelector } from "../ui/EndpointSelector";
@@ -229,19 +230,19 @@ export const SwaggerPlaygroundPage: React.FC = () => {
         }
       } catch (error) {
         const duration = Date.now() - startTime;
-        const axiosError = error as AxiosError;
+        const apiError = normalizeApiError(error);
 
         setRequestResult({
           success: false,
-          status: axiosError.response?.status || 0,
-          statusText: axiosError.message,
+          status: apiError.status,
+          statusText: apiError.code,
           headers: {},
-          data: axiosError.response?.data || null,
+          data: apiError.data ?? null,
           duration,
-          error: axiosError.message,
+          error: apiError.message,
         });
 
-        toast.error(`요청 실패: ${axiosError.message}`);
+        toast.error(`요청 실패: ${apiError.message}`);
       } finally {
         setIsExecuting(false);
       }
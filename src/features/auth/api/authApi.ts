@@ -6,10 +6,21 @@
  * 메뉴/페이지/버튼/액션의 표시/비활성화/숨김을 제어합니다.
  *
  * 인증 관련 API 호출.
- * 현재는 Mock 구현으로, 실제 백엔드 연동 시 교체합니다.
+ * Backend Mock 서버(/api/auth/*)와 httpClient로 통신합니다.
+ *   - 계정은 서버 SQLite accounts 테이블에 해시된 비밀번호로 저장됩니다.
+ *   - 로그인 시 서명된 Access/Refresh Token을 발급받습니다.
+ *   - 새로고침 시 getCurrentUser()로 저장된 토큰의 세션을 복원합니다.
  */
 
-import type { User } from "@core/store/authStore";
+import { useEffect } from "react";
+import {
+  get,
+  post,
+  logoutSession,
+  refreshAccessToken,
+} from "@core/api/httpClient";
+import { isApiError } from "@core/api/apiError";
+import { useAuthStore, type User } from "@core/store/authStore";
 import type { Role, Grade } from "@core/auth/role.types";
 
 // ========================================
@@ -24,106 +35,21 @@ export interface LoginCredentials {
 export interface LoginResponse {
   user: User;
   accessToken: string;
+  /** Refresh Token (사용 시 회전됨) */
+  refreshToken: string;
+  /** Access Token 수명 (초) */
+  expiresIn: number;
   role: Role;
   grade: Grade;
 }
 
-export interface AuthError {
-  message: string;
-  code: string;
-}
-
-// ========================================
-// Mock Users (RBAC 포함)
-// ========================================
-
-interface MockUserData {
-  password: string;
+/** 현재 사용자 세션 (/api/auth/me) */
+export interface CurrentUserResponse {
   user: User;
   role: Role;
   grade: Grade;
 }
 
-const MOCK_USERS: Record<string, MockUserData> = {
-  // 시스템 관리자 (전체 권한)
-  admin: {
-    password: "admin123",
-    user: {
-      id: "1",
-      name: "시스템 관리자",
-      email: "admin@softone.co.kr",
-      roles: ["ADMIN"],
-    },
-    role: "SYSTEM_ADMIN",
-    grade: "EXECUTIVE",
-  },
-
-  // 조직 관리자
-  orgadmin: {
-    password: "orgadmin123",
-    user: {
-      id: "2",
-      name: "조직 관리자",
-      email: "orgadmin@softone.co.kr",
-      roles: ["ADMIN"],
-    },
-    role: "ORG_ADMIN",
-    grade: "TEAM_LEAD",
-  },
-
-  // 매니저
-  manager: {
-    password: "manager123",
-    user: {
-      id: "3",
-      name: "김매니저",
-      email: "manager@softone.co.kr",
-      roles: ["MANAGER"],
-    },
-    role: "MANAGER",
-    grade: "SENIOR",
-  },
-
-  // 일반 직원
-  user: {
-    password: "user123",
-    user: {
-      id: "4",
-      name: "일반 직원",
-      email: "user@softone.co.kr",
-      roles: ["USER"],
-    },
-    role: "STAFF",
-    grade: "JUNIOR",
-  },
-
-  // 인턴
-  intern: {
-    password: "intern123",
-    user: {
-      id: "5",
-      name: "인턴",
-      email: "intern@softone.co.kr",
-      roles: ["USER"],
-    },
-    role: "STAFF",
-    grade: "INTERN",
-  },
-
-  // 게스트
-  guest: {
-    password: "guest123",
-    user: {
-      id: "6",
-      name: "게스트 사용자",
-      email: "guest@softone.co.kr",
-      roles: ["GUEST"],
-    },
-    role: "GUEST",
-    grade: "INTERN",
-  },
-};
-
 // ========================================
 // Auth API Functions
 // ========================================
@@ -131,81 +57,97 @@ const MOCK_USERS: Record<string, MockUserData> = {
 /**
  * 로그인 API
  *
- * Mock 사용자:
- *   - admin/admin123 → SYSTEM_ADMIN / EXECUTIVE
- *   - orgadmin/orgadmin123 → ORG_ADMIN / TEAM_LEAD
- *   - manager/manager123 → MANAGER / SENIOR
- *   - user/user123 → STAFF / JUNIOR
- *   - intern/intern123 → STAFF / INTERN
- *   - guest/guest123 → GUEST / INTERN
+ * 테스트 계정은 getTestAccounts() 참고
  *
  * @param credentials 로그인 정보
  * @returns Promise<LoginResponse>
+ * @throws ApiError 아이디/비밀번호 불일치(401, INVALID_CREDENTIALS) 또는 서버/네트워크 오류
  */
 export async function login(
   credentials: LoginCredentials
 ): Promise<LoginResponse> {
-  // 네트워크 지연 시뮬레이션 (0.5~1초)
-  await new Promise((resolve) =>
-    setTimeout(resolve, 500 + Math.random() * 500)
-  );
-
-  const { username, password } = credentials;
-
-  // Mock 사용자 검증
-  const mockUser = MOCK_USERS[username.toLowerCase()];
-
-  if (!mockUser || mockUser.password !== password) {
-    throw {
-      message: "아이디 또는 비밀번호가 올바르지 않습니다.",
-      code: "INVALID_CREDENTIALS",
-    } as AuthError;
-  }
-
-  // Mock 토큰 생성
-  const accessToken = `mock-token-${mockUser.user.id}-${Date.now()}`;
-
-  return {
-    user: mockUser.user,
-    accessToken,
-    role: mockUser.role,
-    grade: mockUser.grade,
-  };
+  return post<LoginResponse>("/api/auth/login", credentials, {
+    skipAuthRefresh: true,
+  });
 }
 
 /**
  * 로그아웃 API
+ * 로컬 인증 상태를 초기화하고 서버의 Refresh Token을 폐기합니다.
  */
 export async function logout(): Promise<void> {
-  // 네트워크 지연 시뮬레이션
-  await new Promise((resolve) => setTimeout(resolve, 300));
-
-  // 실제 구현에서는 서버에 로그아웃 요청
-  // await httpClient.post('/auth/logout');
+  await logoutSession();
 }
 
 /**
  * 토큰 갱신 API
+ *
+ * httpClient의 갱신 로직을 공유하므로 401 재시도와 동시에 호출되어도
+ * 갱신 요청은 한 번만 전송됩니다.
  */
 export async function refreshToken(): Promise<{ accessToken: string }> {
-  // 네트워크 지연 시뮬레이션
-  await new Promise((resolve) => setTimeout(resolve, 500));
-
-  // Mock 구현: 새 토큰 반환
-  return {
-    accessToken: `mock-refreshed-token-${Date.now()}`,
-  };
+  return { accessToken: await refreshAccessToken() };
 }
 
 /**
  * 현재 사용자 정보 조회 API
+ *
+ * Access Token이 만료되었으면 httpClient가 갱신 후 재시도합니다.
+ * 갱신까지 실패하면 로그아웃되고 null을 반환합니다.
  */
-export async function getCurrentUser(): Promise<User | null> {
-  // 실제 구현에서는 서버에서 현재 사용자 정보 조회
-  // return await httpClient.get('/auth/me');
+export async function getCurrentUser(): Promise<CurrentUserResponse | null> {
+  try {
+    return await get<CurrentUserResponse>("/api/auth/me");
+  } catch (error) {
+    if (isApiError(error) && error.status === 401) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// ========================================
+// Session Restore Hook
+// ========================================
 
-  // Mock: localStorage에서 사용자 정보 확인은 authStore에서 처리
-  return null;
+/**
+ * 새로고침 시 세션 복원
+ *
+ * 저장된 토큰이 있으면 앱 시작 시 한 번 /api/auth/me를 호출하여
+ * 사용자/Role/Grade를 서버 기준으로 갱신합니다.
+ * 토큰이 더 이상 유효하지 않으면 httpClient가 로그아웃 처리합니다.
+ *
+ * @example
+ * // SPA Shell 최상위에서 한 번 호출
+ * useSessionRestore();
+ */
+export function useSessionRestore(): void {
+  useEffect(() => {
+    const { accessToken, setAuthLoading } = useAuthStore.getState();
+    if (!accessToken) return;
+
+    let cancelled = false;
+    setAuthLoading(true);
+
+    getCurrentUser()
+      .then((session) => {
+        if (cancelled || !session) return;
+        const { updateUser, updateRoleAndGrade } = useAuthStore.getState();
+        updateUser(session.user);
+        updateRoleAndGrade(session.role, session.grade);
+      })
+      .catch((error) => {
+        // 네트워크 오류 시 저장된 세션 유지
+        console.warn("[SDS] Session restore failed:", error);
+      })
+      .finally(() => {
+        useAuthStore.getState().setAuthLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 }
 
 // ========================================
@@ -0,0 +1,103 @@
+/**
+ * SoftOne Design System(SDS) - Permission Matrix Query Hooks
+ * 작성: SoftOne Frontend Team
+ *
+ * 서버 권한 매트릭스 조회/저장 TanStack Query 훅.
+ *   - usePermissionMatrixSync: 로그인 상태에서 주기적으로 최신 버전을 확인하여
+ *     변경되면 permissionMatrixStore에 적용합니다. (authStore가 즉시 재계산)
+ *   - useSavePermissionMatrixMutation: 저장 성공 시 캐시와 현재 세션에 바로 반영합니다.
+ */
+
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  applyPermissionMatrix,
+  fetchPermissionMatrix,
+  fetchPermissionMatrixVersions,
+  savePermissionMatrix,
+} from "@core/api/permissionMatrixApi";
+import { useAuthStore, selectIsAuthenticated } from "@core/store/authStore";
+
+// ========================================
+// Query Keys
+// ========================================
+
+export const PERMISSION_MATRIX_QUERY_KEYS = {
+  all: ["permission-matrix"] as const,
+  current: () => [...PERMISSION_MATRIX_QUERY_KEYS.all, "current"] as const,
+  versions: () => [...PERMISSION_MATRIX_QUERY_KEYS.all, "versions"] as const,
+};
+
+/** 다른 관리자의 변경을 확인하는 주기 (ms) */
+export const PERMISSION_MATRIX_POLL_INTERVAL = 1000 * 60; // 1분
+
+// ========================================
+// Query Hooks
+// ========================================
+
+/**
+ * 현재 권한 매트릭스 조회 훅
+ */
+export const usePermissionMatrixQuery = (enabled = true) => {
+  return useQuery({
+    queryKey: PERMISSION_MATRIX_QUERY_KEYS.current(),
+    queryFn: fetchPermissionMatrix,
+    enabled,
+    staleTime: PERMISSION_MATRIX_POLL_INTERVAL,
+    refetchInterval: PERMISSION_MATRIX_POLL_INTERVAL,
+  });
+};
+
+/**
+ * 권한 매트릭스 버전 이력 조회 훅
+ */
+export const usePermissionMatrixVersionsQuery = (enabled = true) => {
+  return useQuery({
+    queryKey: PERMISSION_MATRIX_QUERY_KEYS.versions(),
+    queryFn: fetchPermissionMatrixVersions,
+    enabled,
+  });
+};
+
+/**
+ * 권한 매트릭스 저장 Mutation 훅
+ *
+ * 409(VERSION_CONFLICT)면 다른 관리자가 먼저 저장한 것이므로
+ * 최신 버전을 다시 불러온 뒤 편집해야 합니다.
+ */
+export const useSavePermissionMatrixMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: savePermissionMatrix,
+    onSuccess: (matrix) => {
+      queryClient.setQueryData(PERMISSION_MATRIX_QUERY_KEYS.current(), matrix);
+      queryClient.invalidateQueries({
+        queryKey: PERMISSION_MATRIX_QUERY_KEYS.versions(),
+      });
+      applyPermissionMatrix(matrix);
+    },
+  });
+};
+
+// ========================================
+// Sync Hook
+// ========================================
+
+/**
+ * 서버 권한 매트릭스를 현재 세션에 동기화
+ *
+ * @example
+ * // SPA Shell 최상위에서 한 번 호출
+ * usePermissionMatrixSync();
+ */
+export function usePermissionMatrixSync(): void {
+  const isAuthenticated = useAuthStore(selectIsAuthenticated);
+  const { data: matrix } = usePermissionMatrixQuery(isAuthenticated);
+
+  useEffect(() => {
+    if (matrix) {
+      applyPermissionMatrix(matrix);
+    }
+  }, [matrix]);
+}
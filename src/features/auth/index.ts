@@ -11,3 +11,4 @@ export { LoginForm } from "./ui/LoginForm";
 
 // API
 export * from "./api/authApi";
+export * from "./api/permissionMatrixApi";
@@ -6,6 +6,11 @@
  * 메뉴/페이지/버튼/액션의 표시/비활성화/숨김을 제어합니다.
  *
  * 역할(Role)별 권한(Permission) 관리를 위한 디자이너 페이지입니다.
+ *   - 서버에 저장된 권한 매트릭스를 불러와 편집하고, 저장 시 새 버전을 생성합니다.
+ *   - 직급(Grade)별 추가 권한(직급 보정)도 함께 편집합니다.
+ *   - 역할을 생성/복제/삭제할 수 있으며, 상위 역할을 지정하면 상위 역할의 권한을 상속합니다.
+ *   - 저장하면 현재 세션과 다른 사용자 세션(주기적 동기화)에 재배포 없이 반영됩니다.
+ *   - 다른 관리자가 먼저 저장한 경우 409(VERSION_CONFLICT) → 최신 버전을 불러와 다시 편집합니다.
  */
 
 import React, { useState, useMemo, useCallback } from "react";
@@ -19,7 +24,13 @@ import {
   Settings,
   Lock,
   Eye,
+  History,
+  Plus,
+  Copy,
+  Pencil,
+  Trash2,
 } from "lucide-react";
+import { z } from "zod";
 
 import { PageHeader } from "@core/components/layout/PageHeader";
 import {
@@ -32,20 +43,80 @@ import { Button } from "@core/components/ui/Button";
 import { Badge } from "@core/components/ui/Badge";
 import { Checkbox } from "@core/components/ui/Checkbox";
 import { Input } from "@core/components/ui/Input";
+import {
+  FormDialog,
+  type FormFieldConfig,
+} from "@core/components/ui/FormDialog";
+import { ConfirmDialog } from "@core/components/ui/ConfirmDialog";
 import { useToast } from "@core/hooks/useToast";
 import { cn } from "@core/utils/classUtils";
+import { getGradeLabel } from "@core/utils/gradeUtils";
+import { handleApiError } from "@core/api/apiErrorHandler";
 import {
-  ROLES,
+  GRADES,
   PERMISSION_KEYS,
-  ROLE_PERMISSION_MAP,
+  resolveRoleChain,
+  RoleInheritanceCycleError,
   type Role,
+  type Grade,
   type PermissionKey,
+  type PermissionMatrix,
+  type RoleDefinition,
 } from "@core/auth/role.types";
+import {
+  cloneRole,
+  createRole,
+  deleteRole,
+  findRoleDefinition,
+  getRoleLabel,
+  ROLE_KEY_PATTERN,
+  updateRole,
+} from "@core/auth/roleRegistry";
+import {
+  usePermissionMatrixStore,
+  selectPermissionMatrix,
+} from "@core/store/permissionMatrixStore";
+import {
+  usePermissionMatrixQuery,
+  useSavePermissionMatrixMutation,
+} from "../api/permissionMatrixApi";
 
 // ========================================
 // Types
 // ========================================
 
+/** 편집 대상 (역할 기본 권한 또는 직급 보정 권한) */
+type MatrixTarget = { type: "role"; key: Role } | { type: "grade"; key: Grade };
+
+/** 저장 전 편집 중인 매트릭스 */
+interface MatrixDraft {
+  /** 편집을 시작한 서버 버전 */
+  baseVersion: number;
+  roles: RoleDefinition[];
+  rolePermissions: Record<Role, PermissionKey[]>;
+  gradePermissionBoost: Record<Grade, PermissionKey[]>;
+}
+
+/** 역할 다이얼로그 모드 (clone/edit는 대상 역할 키 포함) */
+type RoleDialogState =
+  | { mode: "create" }
+  | { mode: "clone"; source: Role }
+  | { mode: "edit"; target: Role };
+
+const roleFormSchema = z.object({
+  key: z
+    .string()
+    .regex(
+      ROLE_KEY_PATTERN,
+      "영문 대문자로 시작하는 대문자/숫자/밑줄 2~32자로 입력하세요"
+    ),
+  label: z.string().trim().min(1, "표시 이름을 입력하세요"),
+  description: z.string().optional(),
+  parentRole: z.string().optional(),
+});
+
+type RoleFormValues = z.infer<typeof roleFormSchema>;
+
 interface PermissionCategory {
   id: string;
   label: string;
@@ -247,37 +318,176 @@ const PERMISSION_CATEGORIES: PermissionCategory[] = [
 ];
 
 // ========================================
-// Role Labels
+// Helpers
 // ========================================
 
-const ROLE_LABELS: Record<Role, string> = {
-  SYSTEM_ADMIN: "시스템 관리자",
-  ORG_ADMIN: "조직 관리자",
-  MANAGER: "매니저",
-  STAFF: "일반 직원",
-  GUEST: "게스트",
+const ROLE_DIALOG_TITLES: Record<RoleDialogState["mode"], string> = {
+  create: "역할 추가",
+  clone: "역할 복제",
+  edit: "역할 수정",
 };
 
+/** 편집 시작 시점의 매트릭스로 draft 생성 */
+function toDraft(matrix: PermissionMatrix): MatrixDraft {
+  return {
+    baseVersion: matrix.version,
+    roles: matrix.roles,
+    rolePermissions: matrix.rolePermissions,
+    gradePermissionBoost: matrix.gradePermissionBoost,
+  };
+}
+
+/** 상위 역할에서 상속한 권한 (자기 자신에게 직접 부여된 권한 제외) */
+function getInheritedPermissions(
+  role: Role,
+  roles: RoleDefinition[],
+  rolePermissions: Record<Role, PermissionKey[]>
+): PermissionKey[] {
+  let chain: Role[];
+  try {
+    chain = resolveRoleChain(role, roles);
+  } catch (error) {
+    if (!(error instanceof RoleInheritanceCycleError)) throw error;
+    return [];
+  }
+
+  return [
+    ...new Set(
+      chain.slice(1).flatMap((parent) => rolePermissions[parent] ?? [])
+    ),
+  ];
+}
+
 // ========================================
 // Component
 // ========================================
 
 export const RolePermissionDesignerPage: React.FC = () => {
   const toast = useToast();
-  const [selectedRole, setSelectedRole] = useState<Role>("SYSTEM_ADMIN");
+  const [selected, setSelected] = useState<MatrixTarget>({
+    type: "role",
+    key: "SYSTEM_ADMIN",
+  });
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(
     new Set(PERMISSION_CATEGORIES.map((c) => c.id))
   );
   const [searchQuery, setSearchQuery] = useState("");
-  const [isSaving, setIsSaving] = useState(false);
 
-  // 현재 선택된 역할의 권한 목록 (로컬 상태로 관리)
-  const [rolePermissions, setRolePermissions] = useState<
-    Record<Role, PermissionKey[]>
-  >(() => ({ ...ROLE_PERMISSION_MAP }));
+  // 서버 권한 매트릭스 (불러오기 전에는 현재 적용 중인 매트릭스 사용)
+  const appliedMatrix = usePermissionMatrixStore(selectPermissionMatrix);
+  const {
+    data: serverMatrix,
+    refetch,
+    isFetching,
+  } = usePermissionMatrixQuery();
+  const saveMutation = useSavePermissionMatrixMutation();
+  const sourceMatrix = serverMatrix ?? appliedMatrix;
+
+  // 편집 중인 매트릭스 (null이면 변경 사항 없음)
+  const [draft, setDraft] = useState<MatrixDraft | null>(null);
+  const isDirty = draft !== null;
+  const roles = draft?.roles ?? sourceMatrix.roles;
+  const rolePermissions =
+    draft?.rolePermissions ?? sourceMatrix.rolePermissions;
+  const gradePermissionBoost =
+    draft?.gradePermissionBoost ?? sourceMatrix.gradePermissionBoost;
+
+  // 역할 생성/복제/수정 다이얼로그, 삭제 확인 대상
+  const [roleDialog, setRoleDialog] = useState<RoleDialogState | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Role | null>(null);
+
+  // 현재 편집 대상의 권한 목록
+  const currentPermissions =
+    (selected.type === "role"
+      ? rolePermissions[selected.key]
+      : gradePermissionBoost[selected.key]) || [];
+
+  // 상위 역할에서 상속한 권한 (직급 보정은 상속 없음)
+  const inheritedPermissions = useMemo(
+    () =>
+      selected.type === "role"
+        ? getInheritedPermissions(selected.key, roles, rolePermissions)
+        : [],
+    [selected, roles, rolePermissions]
+  );
+  const selectedRole =
+    selected.type === "role"
+      ? findRoleDefinition(roles, selected.key)
+      : undefined;
+
+  // 현재 편집 대상의 권한 목록 변경
+  const updateCurrentPermissions = useCallback(
+    (updater: (current: PermissionKey[]) => PermissionKey[]) => {
+      setDraft((prev) => {
+        const base = prev ?? toDraft(sourceMatrix);
+
+        if (selected.type === "role") {
+          return {
+            ...base,
+            rolePermissions: {
+              ...base.rolePermissions,
+              [selected.key]: updater(base.rolePermissions[selected.key] || []),
+            },
+          };
+        }
+        return {
+          ...base,
+          gradePermissionBoost: {
+            ...base.gradePermissionBoost,
+            [selected.key]: updater(
+              base.gradePermissionBoost[selected.key] || []
+            ),
+          },
+        };
+      });
+    },
+    [selected, sourceMatrix]
+  );
 
-  // 현재 역할의 권한 목록
-  const currentPermissions = rolePermissions[selectedRole] || [];
+  // 역할 다이얼로그 저장 (RoleRegistryError는 FormDialog가 토스트로 표시)
+  const handleRoleSubmit = (values: RoleFormValues) => {
+    if (!roleDialog) return;
+
+    const base = draft ?? toDraft(sourceMatrix);
+    const input = {
+      key: values.key,
+      label: values.label,
+      description: values.description,
+      parentRole: values.parentRole || null,
+    };
+
+    let next: MatrixDraft;
+    if (roleDialog.mode === "create") {
+      next = createRole(base, input);
+    } else if (roleDialog.mode === "clone") {
+      next = cloneRole(base, roleDialog.source, input);
+    } else {
+      next = updateRole(base, roleDialog.target, {
+        label: input.label,
+        description: input.description,
+        parentRole: input.parentRole,
+      });
+    }
+
+    setDraft(next);
+    setSelected({ type: "role", key: values.key });
+    toast.success(
+      `${ROLE_DIALOG_TITLES[roleDialog.mode]}: ${values.label} (저장 전)`
+    );
+  };
+
+  // 역할 삭제 (하위 역할은 삭제한 역할의 상위 역할을 상속)
+  const handleRoleDelete = () => {
+    if (!deleteTarget) return;
+
+    try {
+      setDraft(deleteRole(draft ?? toDraft(sourceMatrix), deleteTarget));
+      setSelected({ type: "role", key: "SYSTEM_ADMIN" });
+    } catch (error) {
+      handleApiError(error, { toastTitle: "역할 삭제 실패" });
+    }
+    setDeleteTarget(null);
+  };
 
   // 카테고리 토글
   const toggleCategory = useCallback((categoryId: string) => {
@@ -295,41 +505,37 @@ export const RolePermissionDesignerPage: React.FC = () => {
   // 권한 토글
   const togglePermission = useCallback(
     (permission: PermissionKey) => {
-      setRolePermissions((prev) => {
-        const current = prev[selectedRole] || [];
-        const updated = current.includes(permission)
+      // 상속 권한은 상위 역할에서 변경
+      if (inheritedPermissions.includes(permission)) return;
+
+      updateCurrentPermissions((current) =>
+        current.includes(permission)
           ? current.filter((p) => p !== permission)
-          : [...current, permission];
-        return { ...prev, [selectedRole]: updated };
-      });
+          : [...current, permission]
+      );
     },
-    [selectedRole]
+    [updateCurrentPermissions, inheritedPermissions]
   );
 
   // 카테고리 전체 선택/해제
   const toggleCategoryAll = useCallback(
     (category: PermissionCategory) => {
-      const categoryPermissions = category.permissions.map((p) => p.key);
+      const categoryPermissions = category.permissions
+        .map((p) => p.key)
+        .filter((p) => !inheritedPermissions.includes(p));
       const allSelected = categoryPermissions.every((p) =>
         currentPermissions.includes(p)
       );
 
-      setRolePermissions((prev) => {
-        const current = prev[selectedRole] || [];
-        let updated: PermissionKey[];
-
-        if (allSelected) {
-          // 전체 해제
-          updated = current.filter((p) => !categoryPermissions.includes(p));
-        } else {
-          // 전체 선택
-          updated = [...new Set([...current, ...categoryPermissions])];
-        }
-
-        return { ...prev, [selectedRole]: updated };
-      });
+      updateCurrentPermissions((current) =>
+        allSelected
+          ? // 전체 해제
+            current.filter((p) => !categoryPermissions.includes(p))
+          : // 전체 선택
+            [...new Set([...current, ...categoryPermissions])]
+      );
     },
-    [selectedRole, currentPermissions]
+    [updateCurrentPermissions, currentPermissions, inheritedPermissions]
   );
 
   // 검색 필터링
@@ -348,35 +554,91 @@ export const RolePermissionDesignerPage: React.FC = () => {
     })).filter((category) => category.permissions.length > 0);
   }, [searchQuery]);
 
-  // 저장
+  // 저장 (새 버전 생성 → 현재 세션에 즉시 반영)
   const handleSave = async () => {
-    setIsSaving(true);
+    if (!draft) {
+      toast.info("변경된 권한이 없습니다.");
+      return;
+    }
+
     try {
-      // Mock API 호출 시뮬레이션
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-      toast.success("권한 설정이 저장되었습니다.");
-    } catch {
-      toast.error("권한 저장에 실패했습니다.");
-    } finally {
-      setIsSaving(false);
+      const saved = await saveMutation.mutateAsync(draft);
+      setDraft(null);
+      toast.success(`권한 설정이 저장되었습니다. (v${saved.version})`);
+    } catch (error) {
+      // 409: 다른 관리자가 먼저 저장함 → 초기화로 최신 버전을 불러온 뒤 다시 편집
+      handleApiError(error, { toastTitle: "권한 저장 실패" });
     }
   };
 
-  // 초기화
-  const handleReset = () => {
-    setRolePermissions({ ...ROLE_PERMISSION_MAP });
-    toast.info("권한 설정이 초기화되었습니다.");
+  // 초기화 (편집 내용을 버리고 서버 최신 버전 불러오기)
+  const handleReset = async () => {
+    setDraft(null);
+    await refetch();
+    toast.info("서버의 최신 권한 설정을 불러왔습니다.");
   };
 
-  // 통계
+  // 통계 (상속 권한 포함)
+  const effectivePermissions = useMemo(
+    () => [...new Set([...currentPermissions, ...inheritedPermissions])],
+    [currentPermissions, inheritedPermissions]
+  );
   const stats = useMemo(() => {
     const totalPermissions = Object.values(PERMISSION_KEYS).length;
-    const assignedPermissions = currentPermissions.length;
+    const assignedPermissions = effectivePermissions.length;
     const percentage = Math.round(
       (assignedPermissions / totalPermissions) * 100
     );
     return { totalPermissions, assignedPermissions, percentage };
-  }, [currentPermissions]);
+  }, [effectivePermissions]);
+
+  // 역할 다이얼로그 필드/초기값
+  const roleDialogTarget =
+    roleDialog?.mode === "edit"
+      ? findRoleDefinition(roles, roleDialog.target)
+      : undefined;
+  const roleDialogSource =
+    roleDialog?.mode === "clone"
+      ? findRoleDefinition(roles, roleDialog.source)
+      : undefined;
+  const roleFormFields: FormFieldConfig<RoleFormValues>[] = [
+    {
+      name: "key",
+      label: "역할 키",
+      type: "text",
+      placeholder: "예: SALES_LEAD",
+      description:
+        "권한 계산과 계정 할당에 사용되며 생성 후 변경할 수 없습니다.",
+      disabled: roleDialog?.mode === "edit",
+    },
+    { name: "label", label: "표시 이름", type: "text" },
+    { name: "description", label: "설명", type: "textarea" },
+    {
+      name: "parentRole",
+      label: "상위 역할",
+      type: "select",
+      description: "상위 역할의 권한을 모두 상속합니다.",
+      options: [
+        { value: "", label: "없음" },
+        ...roles
+          .filter((def) => def.key !== roleDialogTarget?.key)
+          .map((def) => ({ value: def.key, label: def.label })),
+      ],
+    },
+  ];
+  const roleFormDefaults: RoleFormValues = roleDialogTarget
+    ? {
+        key: roleDialogTarget.key,
+        label: roleDialogTarget.label,
+        description: roleDialogTarget.description ?? "",
+        parentRole: roleDialogTarget.parentRole ?? "",
+      }
+    : {
+        key: "",
+        label: roleDialogSource ? `${roleDialogSource.label} (복제)` : "",
+        description: roleDialogSource?.description ?? "",
+        parentRole: roleDialogSource?.parentRole ?? "",
+      };
 
   return (
     <div className="space-y-6 sds-animate-fade-in">
@@ -389,6 +651,7 @@ export const RolePermissionDesignerPage: React.FC = () => {
             <Button
               variant="outline"
               onClick={handleReset}
+              loading={isFetching && !saveMutation.isPending}
               leftIcon={<RefreshCw className="w-4 h-4" />}
             >
               초기화
@@ -396,7 +659,8 @@ export const RolePermissionDesignerPage: React.FC = () => {
             <Button
               variant="primary"
               onClick={handleSave}
-              loading={isSaving}
+              loading={saveMutation.isPending}
+              disabled={!isDirty}
               leftIcon={<Save className="w-4 h-4" />}
               requiredPermission={PERMISSION_KEYS.ACTION_AUTH_ROLE_UPDATE}
               minRequiredGrade="TEAM_LEAD"
@@ -413,35 +677,162 @@ export const RolePermissionDesignerPage: React.FC = () => {
         <div className="col-span-3">
           <Card>
             <CardHeader>
-              <CardTitle className="text-sm">역할 목록</CardTitle>
+              <div className="flex items-center justify-between w-full">
+                <CardTitle className="text-sm">역할 목록</CardTitle>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setRoleDialog({ mode: "create" })}
+                  leftIcon={<Plus className="w-4 h-4" />}
+                  requiredPermission={PERMISSION_KEYS.ACTION_AUTH_ROLE_CREATE}
+                >
+                  추가
+                </Button>
+              </div>
             </CardHeader>
             <CardBody className="p-0">
               <div className="divide-y divide-softone-border">
-                {ROLES.map((role) => (
-                  <button
-                    key={role}
-                    onClick={() => setSelectedRole(role)}
-                    className={cn(
-                      "w-full flex items-center justify-between px-4 py-3 text-left transition-colors",
-                      selectedRole === role
-                        ? "bg-softone-primary-light text-softone-primary"
-                        : "hover:bg-softone-surface-hover"
-                    )}
-                  >
-                    <div>
-                      <div className="font-medium">{ROLE_LABELS[role]}</div>
-                      <div className="text-xs text-softone-text-muted">
-                        {role}
+                {roles.map((def) => {
+                  const role = def.key;
+                  const isSelected =
+                    selected.type === "role" && selected.key === role;
+                  return (
+                    <button
+                      key={role}
+                      onClick={() => setSelected({ type: "role", key: role })}
+                      className={cn(
+                        "w-full flex items-center justify-between px-4 py-3 text-left transition-colors",
+                        isSelected
+                          ? "bg-softone-primary-light text-softone-primary"
+                          : "hover:bg-softone-surface-hover"
+                      )}
+                    >
+                      <div>
+                        <div className="font-medium flex items-center gap-1.5">
+                          {def.label}
+                          {!def.builtIn && (
+                            <Badge variant="info" size="sm">
+                              사용자 정의
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="text-xs text-softone-text-muted">
+                          {role}
+                          {def.parentRole &&
+                            ` · 상위: ${getRoleLabel(roles, def.parentRole)}`}
+                        </div>
                       </div>
-                    </div>
-                    <Badge
-                      variant={selectedRole === role ? "primary" : "neutral"}
-                      size="sm"
+                      <Badge
+                        variant={isSelected ? "primary" : "neutral"}
+                        size="sm"
+                      >
+                        {(rolePermissions[role] || []).length}
+                      </Badge>
+                    </button>
+                  );
+                })}
+              </div>
+
+              {/* 선택한 역할 관리 */}
+              {selectedRole && (
+                <div className="flex gap-1 px-4 py-3 border-t border-softone-border">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setRoleDialog({ mode: "edit", target: selectedRole.key })
+                    }
+                    leftIcon={<Pencil className="w-4 h-4" />}
+                  >
+                    수정
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setRoleDialog({ mode: "clone", source: selectedRole.key })
+                    }
+                    leftIcon={<Copy className="w-4 h-4" />}
+                    requiredPermission={PERMISSION_KEYS.ACTION_AUTH_ROLE_CREATE}
+                  >
+                    복제
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDeleteTarget(selectedRole.key)}
+                    // 기본 역할은 삭제 불가
+                    disabled={selectedRole.builtIn}
+                    leftIcon={<Trash2 className="w-4 h-4" />}
+                    requiredPermission={PERMISSION_KEYS.ACTION_AUTH_ROLE_DELETE}
+                  >
+                    삭제
+                  </Button>
+                </div>
+              )}
+            </CardBody>
+          </Card>
+
+          {/* 직급 보정 목록 */}
+          <Card className="mt-4">
+            <CardHeader>
+              <CardTitle className="text-sm">직급 보정 (추가 권한)</CardTitle>
+            </CardHeader>
+            <CardBody className="p-0">
+              <div className="divide-y divide-softone-border">
+                {GRADES.map((grade) => {
+                  const isSelected =
+                    selected.type === "grade" && selected.key === grade;
+                  return (
+                    <button
+                      key={grade}
+                      onClick={() => setSelected({ type: "grade", key: grade })}
+                      className={cn(
+                        "w-full flex items-center justify-between px-4 py-3 text-left transition-colors",
+                        isSelected
+                          ? "bg-softone-primary-light text-softone-primary"
+                          : "hover:bg-softone-surface-hover"
+                      )}
                     >
-                      {(rolePermissions[role] || []).length}
-                    </Badge>
-                  </button>
-                ))}
+                      <div>
+                        <div className="font-medium">
+                          {getGradeLabel(grade)}
+                        </div>
+                        <div className="text-xs text-softone-text-muted">
+                          {grade}
+                        </div>
+                      </div>
+                      <Badge
+                        variant={isSelected ? "primary" : "neutral"}
+                        size="sm"
+                      >
+                        +{(gradePermissionBoost[grade] || []).length}
+                      </Badge>
+                    </button>
+                  );
+                })}
+              </div>
+            </CardBody>
+          </Card>
+
+          {/* 버전 정보 */}
+          <Card className="mt-4">
+            <CardBody>
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <History className="w-4 h-4 text-softone-text-muted" />
+                권한 매트릭스 v{sourceMatrix.version}
+                {isDirty && (
+                  <Badge variant="warning" size="sm">
+                    변경됨
+                  </Badge>
+                )}
+              </div>
+              <div className="text-xs text-softone-text-muted mt-1">
+                {sourceMatrix.updatedAt
+                  ? `${sourceMatrix.updatedBy ?? "알 수 없음"} · ${new Date(
+                      sourceMatrix.updatedAt
+                    ).toLocaleString("ko-KR")}`
+                  : "기본 권한 매트릭스 (저장 이력 없음)"}
               </div>
             </CardBody>
           </Card>
@@ -487,7 +878,7 @@ export const RolePermissionDesignerPage: React.FC = () => {
                 (p) => p.key
               );
               const selectedCount = categoryPermissions.filter((p) =>
-                currentPermissions.includes(p)
+                effectivePermissions.includes(p)
               ).length;
               const allSelected = selectedCount === categoryPermissions.length;
 
@@ -525,29 +916,42 @@ export const RolePermissionDesignerPage: React.FC = () => {
                     <CardBody className="pt-0">
                       <div className="grid grid-cols-2 gap-3">
                         {category.permissions.map((permission) => {
-                          const isChecked = currentPermissions.includes(
+                          const isInherited = inheritedPermissions.includes(
                             permission.key
                           );
+                          const isChecked =
+                            isInherited ||
+                            currentPermissions.includes(permission.key);
                           return (
                             <div
                               key={permission.key}
                               className={cn(
-                                "flex items-start gap-3 p-3 rounded-lg border transition-colors cursor-pointer",
-                                isChecked
-                                  ? "border-softone-primary bg-softone-primary-light/30"
-                                  : "border-softone-border hover:bg-softone-surface-hover"
+                                "flex items-start gap-3 p-3 rounded-lg border transition-colors",
+                                isInherited
+                                  ? "border-softone-border bg-softone-bg cursor-not-allowed"
+                                  : "cursor-pointer",
+                                !isInherited &&
+                                  (isChecked
+                                    ? "border-softone-primary bg-softone-primary-light/30"
+                                    : "border-softone-border hover:bg-softone-surface-hover")
                               )}
                               onClick={() => togglePermission(permission.key)}
                             >
                               <Checkbox
                                 checked={isChecked}
+                                disabled={isInherited}
                                 onChange={() =>
                                   togglePermission(permission.key)
                                 }
                               />
                               <div className="flex-1">
-                                <div className="font-medium text-sm">
+                                <div className="font-medium text-sm flex items-center gap-1.5">
                                   {permission.label}
+                                  {isInherited && (
+                                    <Badge variant="neutral" size="sm">
+                                      상속
+                                    </Badge>
+                                  )}
                                 </div>
                                 <div className="text-xs text-softone-text-muted mt-0.5">
                                   {permission.description}
@@ -568,6 +972,35 @@ export const RolePermissionDesignerPage: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {/* 역할 생성/복제/수정 */}
+      {roleDialog && (
+        <FormDialog<RoleFormValues>
+          isOpen
+          onClose={() => setRoleDialog(null)}
+          title={ROLE_DIALOG_TITLES[roleDialog.mode]}
+          description="변경 내용은 저장 버튼을 눌러야 서버에 반영됩니다."
+          schema={roleFormSchema}
+          defaultValues={roleFormDefaults}
+          fields={roleFormFields}
+          submitLabel={roleDialog.mode === "edit" ? "수정" : "추가"}
+          onSubmit={handleRoleSubmit}
+        />
+      )}
+
+      {/* 역할 삭제 확인 */}
+      <ConfirmDialog
+        isOpen={deleteTarget !== null}
+        onClose={() => setDeleteTarget(null)}
+        title="역할 삭제"
+        message={`${
+          deleteTarget ? getRoleLabel(roles, deleteTarget) : ""
+        } 역할을 삭제하시겠습니까? 이 역할을 상속하던 역할은 삭제한 역할의 상위 역할을 상속합니다.`}
+        variant="danger"
+        confirmLabel="삭제"
+        cancelLabel="취소"
+        onConfirm={handleRoleDelete}
+      />
     </div>
   );
 };
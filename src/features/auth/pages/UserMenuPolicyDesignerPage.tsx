@@ -6,12 +6,14 @@
  * Role/Grade 기반 RBAC 위에, 사용자별 예외 정책(허용/차단/기본 진입 페이지)을 오버레이합니다.
  *
  * 기능:
- *   - 사용자 검색 및 선택
+ *   - 사용자 검색 및 선택 (이름 검색 또는 조직도 트리 - 부서를 펼칠 때 하위 부서/사용자 로드)
  *   - 선택한 사용자의 Role/Grade 정보 표시
  *   - 허용/차단할 PermissionKey 편집
  *   - 허용/차단할 routeKey 편집
+ *   - 항목별 유효 기간/요일/시간대 설정 (예: 다음 주 월요일부터 1주일, 평일 업무 시간)
  *   - 기본 랜딩 페이지 선택
  *   - 정책 저장/삭제
+ *   - 사용자 시뮬레이션: 편집 중인 정책 기준으로 권한/라우트 접근 결정 과정(explainAccess) 확인
  */
 
 import React, { useState, useEffect, useCallback, useMemo } from "react";
@@ -31,6 +33,11 @@ import {
   ChevronDown,
   Eye,
   EyeOff,
+  XCircle,
+  MinusCircle,
+  FlaskConical,
+  Clock,
+  Building2,
 } from "lucide-react";
 
 import { PageHeader } from "@core/components/layout/PageHeader";
@@ -46,13 +53,27 @@ import { Select } from "@core/components/ui/Select";
 import { Checkbox } from "@core/components/ui/Checkbox";
 import { Badge } from "@core/components/ui/Badge";
 import { Tabs } from "@core/components/ui/Tabs";
+import { TreeView, type TreeNode } from "@core/components/ui/TreeView";
 import { ConfirmDialog } from "@core/components/ui/ConfirmDialog";
 import { useToast } from "@core/hooks/useToast";
 
-import { PERMISSION_KEYS, type PermissionKey } from "@core/auth/role.types";
-import type {
-  UserMenuPolicy,
-  UserMenuPolicyInput,
+import {
+  PERMISSION_KEYS,
+  type Grade,
+  type PermissionKey,
+  type Role,
+} from "@core/auth/role.types";
+import {
+  findPolicyEntry,
+  getPolicyEntryKey,
+  isPolicyEntryActive,
+  isPolicyEntryExpired,
+  isScheduledPolicyEntry,
+  type PolicyEntryWindow,
+  type ScheduledPolicyEntry,
+  type UserMenuPolicy,
+  type UserMenuPolicyEntry,
+  type UserMenuPolicyInput,
 } from "@core/auth/userMenuPolicy.types";
 import {
   fetchUserMenuPolicy,
@@ -60,14 +81,22 @@ import {
   deleteUserMenuPolicy,
   searchUsersForPolicy,
   fetchAllUserMenuPolicies,
+  fetchPolicyDepartmentChildren,
+  type PolicyDepartmentChildren,
 } from "@core/api/userMenuPolicyApi";
+import {
+  usePermissionMatrixStore,
+  selectPermissionMatrix,
+} from "@core/store/permissionMatrixStore";
+import { getGradeOptions } from "@core/utils/gradeUtils";
+import { formatDateTime } from "@core/utils/dateUtils";
 import { menuTree } from "@core/router/menuConfig";
-import type { MenuNode } from "@core/router/menu.types";
+import { ROUTE_REGISTRY } from "@core/router/routeRegistry";
 import {
-  isMenuGroupNode,
-  isPageNode,
-  hasChildren,
-} from "@core/router/menu.types";
+  explainAccess,
+  type AccessDecisionEffect,
+  type AccessDecisionLayer,
+} from "@core/router/menuAccessUtils";
 
 // ========================================
 // Types
@@ -123,30 +152,37 @@ const PERMISSION_CATEGORIES: PermissionCategory[] = [
   },
 ];
 
-/**
- * routeKey 추출
- */
-function extractRouteKeys(nodes: MenuNode[]): string[] {
-  const keys: string[] = [];
-
-  function traverse(nodeList: MenuNode[]) {
-    for (const node of nodeList) {
-      if (isPageNode(node)) {
-        keys.push(node.routeKey);
-      } else if (isMenuGroupNode(node) && node.routeKey) {
-        keys.push(node.routeKey);
-      }
-      if (hasChildren(node)) {
-        traverse(node.children!);
-      }
-    }
-  }
+/** 정책에서 지정할 수 있는 routeKey (인증이 필요한 라우트) */
+const ALL_ROUTE_KEYS = ROUTE_REGISTRY.filter(
+  (route) => route.requiresAuth !== false
+).map((route) => route.routeKey);
+
+/** 시뮬레이션 대상 선택 옵션 (routeKey + PermissionKey) */
+const SIMULATION_TARGET_OPTIONS = [
+  ...ALL_ROUTE_KEYS.map((key) => ({ value: key, label: `라우트: ${key}` })),
+  ...Object.values(PERMISSION_KEYS).map((key) => ({
+    value: key,
+    label: `권한: ${key}`,
+  })),
+];
 
-  traverse(nodes);
-  return keys;
-}
+const DECISION_LAYER_LABELS: Record<AccessDecisionLayer, string> = {
+  role: "역할",
+  grade: "직급 보정",
+  policy: "사용자 정책",
+  "policy-permission": "정책 권한",
+  "policy-route": "정책 라우트",
+  route: "라우트",
+  menu: "메뉴",
+};
 
-const ALL_ROUTE_KEYS = extractRouteKeys(menuTree);
+const DECISION_EFFECT_ICONS: Record<AccessDecisionEffect, React.ReactNode> = {
+  grant: <CheckCircle className="w-4 h-4 text-green-500 shrink-0 mt-0.5" />,
+  deny: <XCircle className="w-4 h-4 text-red-500 shrink-0 mt-0.5" />,
+  skip: (
+    <MinusCircle className="w-4 h-4 text-softone-text-muted shrink-0 mt-0.5" />
+  ),
+};
 
 // ========================================
 // Sub Components
@@ -234,24 +270,376 @@ const UserSearch: React.FC<UserSearchProps> = ({
   );
 };
 
+// ========================================
+// UserOrgTree (조직도에서 사용자 선택)
+// ========================================
+
+/** 사용자 노드 ID 접두사 (부서 ID와 구분) */
+const USER_NODE_PREFIX = "user:";
+
+/**
+ * 부서 하위 항목 → 트리 노드 (하위가 있는 부서는 펼칠 때 로드)
+ */
+function toOrgTreeNodes({
+  departments,
+  users,
+}: PolicyDepartmentChildren): TreeNode[] {
+  return [
+    ...departments.map((department) => ({
+      id: department.id,
+      label: department.name,
+      hasChildren: department.childCount > 0,
+      icon: <Building2 className="w-4 h-4 text-softone-text-muted" />,
+    })),
+    ...users.map((user) => ({
+      id: `${USER_NODE_PREFIX}${user.id}`,
+      label: user.name,
+      icon: <User className="w-4 h-4 text-softone-primary" />,
+    })),
+  ];
+}
+
+const UserOrgTree: React.FC<UserSearchProps> = ({
+  onSelect,
+  selectedUserId,
+}) => {
+  const [rootNodes, setRootNodes] = useState<TreeNode[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  /** 로드한 사용자 (선택 시 사용자 정보 조회) */
+  const [usersById, setUsersById] = useState<Map<string, UserInfo>>(
+    () => new Map()
+  );
+
+  const loadDepartment = useCallback(async (departmentId: string | null) => {
+    const children = await fetchPolicyDepartmentChildren(departmentId);
+    setUsersById((current) => {
+      const next = new Map(current);
+      children.users.forEach((user) => next.set(user.id, user));
+      return next;
+    });
+    return toOrgTreeNodes(children);
+  }, []);
+
+  const loadRootNodes = useCallback(async () => {
+    setIsLoading(true);
+    setLoadFailed(false);
+    try {
+      setRootNodes(await loadDepartment(null));
+    } catch {
+      setLoadFailed(true);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [loadDepartment]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      loadRootNodes();
+    });
+    return () => clearTimeout(timer);
+  }, [loadRootNodes]);
+
+  if (isLoading || loadFailed) {
+    return (
+      <div className="p-4 text-center text-softone-text-muted border border-softone-border rounded-lg">
+        {isLoading ? (
+          "조직도 불러오는 중..."
+        ) : (
+          <div className="space-y-2">
+            <p>조직도를 불러오지 못했습니다</p>
+            <Button
+              size="sm"
+              variant="outline"
+              leftIcon={<RefreshCw className="w-4 h-4" />}
+              onClick={loadRootNodes}
+            >
+              다시 시도
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <TreeView
+      nodes={rootNodes}
+      loadChildren={(node) => loadDepartment(node.id)}
+      searchable
+      filterPlaceholder="불러온 부서/사용자 필터"
+      height={256}
+      selectedIds={
+        selectedUserId ? [`${USER_NODE_PREFIX}${selectedUserId}`] : []
+      }
+      onSelectIdsChange={(ids) => {
+        // 부서 노드는 선택하지 않음
+        const userId = ids[0]?.startsWith(USER_NODE_PREFIX)
+          ? ids[0].slice(USER_NODE_PREFIX.length)
+          : undefined;
+        const user = userId ? usersById.get(userId) : undefined;
+        if (user) onSelect(user);
+      }}
+    />
+  );
+};
+
+// ========================================
+// Policy Entry Helpers
+// ========================================
+
+const WEEKDAY_LABELS = ["일", "월", "화", "수", "목", "금", "토"];
+
+/** datetime-local 입력 형식 */
+const DATETIME_LOCAL_FORMAT = "YYYY-MM-DDTHH:mm";
+
+/**
+ * 정책 목록에서 항목 추가/제거 (유효 기간이 지정된 항목은 그대로 유지)
+ */
+function toggleEntry<K extends string>(
+  entries: UserMenuPolicyEntry<K>[],
+  key: K
+): UserMenuPolicyEntry<K>[] {
+  return findPolicyEntry(entries, key)
+    ? entries.filter((entry) => getPolicyEntryKey(entry) !== key)
+    : [...entries, key];
+}
+
+/**
+ * 항목의 유효 기간/시간대 변경 (모두 비우면 항상 적용 항목으로 변환)
+ */
+function updateEntryWindow<K extends string>(
+  entries: UserMenuPolicyEntry<K>[],
+  key: K,
+  window: PolicyEntryWindow
+): UserMenuPolicyEntry<K>[] {
+  const next: ScheduledPolicyEntry<K> = { key, ...window };
+  return entries.map((entry) =>
+    getPolicyEntryKey(entry) === key
+      ? isScheduledPolicyEntry(next)
+        ? next
+        : key
+      : entry
+  );
+}
+
+/**
+ * 유효 기간/시간대 요약 (예: "01-08 00:00 ~ 01-15 00:00 · 월·화·수·목·금 · 09:00~18:00")
+ */
+function formatEntryWindow(window: PolicyEntryWindow): string {
+  const parts: string[] = [];
+  if (window.validFrom || window.validUntil) {
+    parts.push(
+      `${formatDateTime(window.validFrom, "MM-DD HH:mm")} ~ ${formatDateTime(
+        window.validUntil,
+        "MM-DD HH:mm"
+      )}`
+    );
+  }
+  if (window.daysOfWeek?.length) {
+    parts.push(
+      [...window.daysOfWeek]
+        .sort()
+        .map((day) => WEEKDAY_LABELS[day])
+        .join("·")
+    );
+  }
+  if (window.timeFrom || window.timeUntil) {
+    parts.push(`${window.timeFrom ?? "00:00"}~${window.timeUntil ?? "24:00"}`);
+  }
+  return parts.join(" · ");
+}
+
+// ========================================
+// Sub Components (Policy Entry)
+// ========================================
+
+interface PolicyEntryScheduleEditorProps {
+  window: PolicyEntryWindow;
+  onChange: (window: PolicyEntryWindow) => void;
+}
+
+/**
+ * 정책 항목의 유효 기간/요일/시간대 편집
+ */
+const PolicyEntryScheduleEditor: React.FC<PolicyEntryScheduleEditorProps> = ({
+  window,
+  onChange,
+}) => {
+  const toIsoString = (value: string) =>
+    value ? new Date(value).toISOString() : undefined;
+
+  const toggleDay = (day: number) => {
+    const days = window.daysOfWeek ?? [];
+    onChange({
+      ...window,
+      daysOfWeek: days.includes(day)
+        ? days.filter((d) => d !== day)
+        : [...days, day],
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2 p-2 mt-1 ml-7 rounded bg-softone-surface border border-softone-border text-xs">
+      <label className="space-y-1">
+        <span className="text-softone-text-muted">유효 시작</span>
+        <Input
+          type="datetime-local"
+          size="sm"
+          value={formatDateTime(window.validFrom, DATETIME_LOCAL_FORMAT)}
+          onChange={(e) =>
+            onChange({ ...window, validFrom: toIsoString(e.target.value) })
+          }
+        />
+      </label>
+      <label className="space-y-1">
+        <span className="text-softone-text-muted">유효 종료</span>
+        <Input
+          type="datetime-local"
+          size="sm"
+          value={formatDateTime(window.validUntil, DATETIME_LOCAL_FORMAT)}
+          onChange={(e) =>
+            onChange({ ...window, validUntil: toIsoString(e.target.value) })
+          }
+        />
+      </label>
+      <div className="space-y-1">
+        <span className="text-softone-text-muted">요일</span>
+        <div className="flex gap-1">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleDay(day)}
+              aria-pressed={window.daysOfWeek?.includes(day) ?? false}
+              className={`w-7 h-7 rounded ${
+                window.daysOfWeek?.includes(day)
+                  ? "bg-softone-primary text-white"
+                  : "bg-softone-surface-hover text-softone-text-secondary"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-1">
+        <span className="text-softone-text-muted">시간대</span>
+        <div className="flex items-center gap-1">
+          <Input
+            type="time"
+            size="sm"
+            value={window.timeFrom ?? ""}
+            onChange={(e) =>
+              onChange({ ...window, timeFrom: e.target.value || undefined })
+            }
+          />
+          <span>~</span>
+          <Input
+            type="time"
+            size="sm"
+            value={window.timeUntil ?? ""}
+            onChange={(e) =>
+              onChange({ ...window, timeUntil: e.target.value || undefined })
+            }
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface PolicyEntryRowProps<K extends string> {
+  entryKey: K;
+  /** 목록에 있는 항목 (선택되지 않았으면 undefined) */
+  entry: UserMenuPolicyEntry<K> | undefined;
+  onToggle: () => void;
+  onWindowChange: (window: PolicyEntryWindow) => void;
+}
+
+/**
+ * 정책 항목 한 줄 (선택 체크박스 + 유효 기간 요약/편집)
+ */
+function PolicyEntryRow<K extends string>({
+  entryKey,
+  entry,
+  onToggle,
+  onWindowChange,
+}: PolicyEntryRowProps<K>) {
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
+  const window: PolicyEntryWindow =
+    entry && typeof entry !== "string" ? entry : {};
+  const isScheduled = !!entry && isScheduledPolicyEntry(entry);
+
+  const scheduleStatus = !entry
+    ? null
+    : isPolicyEntryExpired(entry)
+    ? { label: "만료", variant: "neutral" as const }
+    : isPolicyEntryActive(entry)
+    ? { label: "적용 중", variant: "success" as const }
+    : { label: "대기", variant: "warning" as const };
+
+  return (
+    <div className="p-1.5 rounded hover:bg-softone-surface-hover">
+      <div className="flex items-center gap-2">
+        <label className="flex flex-1 min-w-0 items-center gap-2 cursor-pointer">
+          <Checkbox checked={!!entry} onChange={onToggle} />
+          <span className="text-sm text-softone-text-secondary font-mono truncate">
+            {entryKey}
+          </span>
+        </label>
+        {isScheduled && scheduleStatus && (
+          <>
+            <span className="text-xs text-softone-text-muted truncate">
+              {formatEntryWindow(window)}
+            </span>
+            <Badge variant={scheduleStatus.variant} size="sm">
+              {scheduleStatus.label}
+            </Badge>
+          </>
+        )}
+        {entry && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsScheduleOpen((open) => !open)}
+            aria-label="유효 기간 설정"
+            aria-expanded={isScheduleOpen}
+          >
+            <Clock className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      {entry && isScheduleOpen && (
+        <PolicyEntryScheduleEditor window={window} onChange={onWindowChange} />
+      )}
+    </div>
+  );
+}
+
+// ========================================
+// Sub Components (Editors)
+// ========================================
+
 interface PermissionEditorProps {
   title: string;
   description: string;
-  selectedPermissions: PermissionKey[];
-  onChange: (permissions: PermissionKey[]) => void;
+  entries: UserMenuPolicyEntry<PermissionKey>[];
+  onChange: (entries: UserMenuPolicyEntry<PermissionKey>[]) => void;
   variant: "allowed" | "denied";
 }
 
 const PermissionEditor: React.FC<PermissionEditorProps> = ({
   title,
   description,
-  selectedPermissions,
+  entries,
   onChange,
   variant,
 }) => {
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(
     new Set(["menu"])
   );
+  const selectedPermissions = entries.map(getPolicyEntryKey);
 
   const toggleCategory = (categoryId: string) => {
     setExpandedCategories((prev) => {
@@ -265,15 +653,6 @@ const PermissionEditor: React.FC<PermissionEditorProps> = ({
     });
   };
 
-  const togglePermission = (permission: PermissionKey) => {
-    const isSelected = selectedPermissions.includes(permission);
-    if (isSelected) {
-      onChange(selectedPermissions.filter((p) => p !== permission));
-    } else {
-      onChange([...selectedPermissions, permission]);
-    }
-  };
-
   const toggleAllInCategory = (category: PermissionCategory) => {
     const categoryPerms = category.permissions.map((p) => p.key);
     const allSelected = categoryPerms.every((p) =>
@@ -281,11 +660,16 @@ const PermissionEditor: React.FC<PermissionEditorProps> = ({
     );
 
     if (allSelected) {
-      onChange(selectedPermissions.filter((p) => !categoryPerms.includes(p)));
+      onChange(
+        entries.filter(
+          (entry) => !categoryPerms.includes(getPolicyEntryKey(entry))
+        )
+      );
     } else {
       onChange([
-        ...new Set([...selectedPermissions, ...categoryPerms]),
-      ] as PermissionKey[]);
+        ...entries,
+        ...categoryPerms.filter((p) => !selectedPermissions.includes(p)),
+      ]);
     }
   };
 
@@ -351,20 +735,17 @@ const PermissionEditor: React.FC<PermissionEditorProps> = ({
               </button>
 
               {isExpanded && (
-                <div className="p-3 bg-softone-surface-secondary space-y-2">
+                <div className="p-3 bg-softone-surface-secondary space-y-1">
                   {category.permissions.map((perm) => (
-                    <label
+                    <PolicyEntryRow
                       key={perm.key}
-                      className="flex items-center gap-2 cursor-pointer hover:bg-softone-surface-hover p-1.5 rounded"
-                    >
-                      <Checkbox
-                        checked={selectedPermissions.includes(perm.key)}
-                        onChange={() => togglePermission(perm.key)}
-                      />
-                      <span className="text-sm text-softone-text-secondary font-mono">
-                        {perm.key}
-                      </span>
-                    </label>
+                      entryKey={perm.key}
+                      entry={findPolicyEntry(entries, perm.key)}
+                      onToggle={() => onChange(toggleEntry(entries, perm.key))}
+                      onWindowChange={(window) =>
+                        onChange(updateEntryWindow(entries, perm.key, window))
+                      }
+                    />
                   ))}
                 </div>
               )}
@@ -379,15 +760,15 @@ const PermissionEditor: React.FC<PermissionEditorProps> = ({
 interface RouteKeyEditorProps {
   title: string;
   description: string;
-  selectedRouteKeys: string[];
-  onChange: (routeKeys: string[]) => void;
+  entries: UserMenuPolicyEntry[];
+  onChange: (entries: UserMenuPolicyEntry[]) => void;
   variant: "allowed" | "denied";
 }
 
 const RouteKeyEditor: React.FC<RouteKeyEditorProps> = ({
   title,
   description,
-  selectedRouteKeys,
+  entries,
   onChange,
   variant,
 }) => {
@@ -400,15 +781,6 @@ const RouteKeyEditor: React.FC<RouteKeyEditorProps> = ({
     );
   }, [filter]);
 
-  const toggleRouteKey = (routeKey: string) => {
-    const isSelected = selectedRouteKeys.includes(routeKey);
-    if (isSelected) {
-      onChange(selectedRouteKeys.filter((k) => k !== routeKey));
-    } else {
-      onChange([...selectedRouteKeys, routeKey]);
-    }
-  };
-
   return (
     <div className="space-y-3">
       <div className="flex items-center justify-between">
@@ -424,7 +796,7 @@ const RouteKeyEditor: React.FC<RouteKeyEditorProps> = ({
           <p className="text-sm text-softone-text-muted">{description}</p>
         </div>
         <Badge variant={variant === "allowed" ? "success" : "danger"} size="sm">
-          {selectedRouteKeys.length}개 선택
+          {entries.length}개 선택
         </Badge>
       </div>
 
@@ -437,24 +809,136 @@ const RouteKeyEditor: React.FC<RouteKeyEditorProps> = ({
 
       <div className="border border-softone-border rounded-lg max-h-64 overflow-y-auto divide-y divide-softone-border">
         {filteredRouteKeys.map((routeKey) => (
-          <label
+          <PolicyEntryRow
             key={routeKey}
-            className="flex items-center gap-3 p-2.5 cursor-pointer hover:bg-softone-surface-hover transition-colors"
-          >
-            <Checkbox
-              checked={selectedRouteKeys.includes(routeKey)}
-              onChange={() => toggleRouteKey(routeKey)}
-            />
-            <span className="text-sm font-mono text-softone-text-secondary">
-              {routeKey}
-            </span>
-          </label>
+            entryKey={routeKey}
+            entry={findPolicyEntry(entries, routeKey)}
+            onToggle={() => onChange(toggleEntry(entries, routeKey))}
+            onWindowChange={(window) =>
+              onChange(updateEntryWindow(entries, routeKey, window))
+            }
+          />
         ))}
       </div>
     </div>
   );
 };
 
+interface AccessSimulationPanelProps {
+  /** 편집 중인 정책 (저장 전 상태 그대로 시뮬레이션) */
+  policy: UserMenuPolicy;
+}
+
+/**
+ * 사용자 시뮬레이션 패널
+ * 선택한 Role/Grade + 편집 중인 정책으로 대상 접근 여부와 결정 과정을 보여줍니다.
+ */
+const AccessSimulationPanel: React.FC<AccessSimulationPanelProps> = ({
+  policy,
+}) => {
+  const matrix = usePermissionMatrixStore(selectPermissionMatrix);
+  const [role, setRole] = useState<Role>("STAFF");
+  const [grade, setGrade] = useState<Grade>("JUNIOR");
+  const [target, setTarget] = useState<string>(
+    SIMULATION_TARGET_OPTIONS[0]?.value ?? ""
+  );
+
+  const explanation = useMemo(
+    () =>
+      target
+        ? explainAccess(
+            {
+              role,
+              grade,
+              userMenuPolicy: policy,
+              matrix,
+              routes: ROUTE_REGISTRY,
+              menuTree,
+            },
+            target
+          )
+        : null,
+    [role, grade, target, policy, matrix]
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <Select
+          value={role}
+          onChange={(e) => setRole(e.target.value)}
+          options={matrix.roles.map((def) => ({
+            value: def.key,
+            label: `${def.label} (${def.key})`,
+          }))}
+        />
+        <Select
+          value={grade}
+          onChange={(e) => setGrade(e.target.value as Grade)}
+          options={getGradeOptions()}
+        />
+        <Select
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          options={SIMULATION_TARGET_OPTIONS}
+        />
+      </div>
+
+      {explanation && (
+        <div className="border border-softone-border rounded-lg">
+          <div className="flex items-center gap-2 p-3 border-b border-softone-border">
+            <span className="font-mono text-sm">{explanation.target.key}</span>
+            <Badge
+              variant={explanation.granted ? "success" : "danger"}
+              size="sm"
+            >
+              {explanation.granted ? "허용" : "차단"}
+            </Badge>
+            {explanation.visibleInMenu !== undefined && (
+              <Badge
+                variant={explanation.visibleInMenu ? "info" : "neutral"}
+                size="sm"
+              >
+                {explanation.visibleInMenu ? "메뉴 표시" : "메뉴 미표시"}
+              </Badge>
+            )}
+          </div>
+          <ol className="divide-y divide-softone-border">
+            {explanation.steps.map((step, index) => (
+              <li key={index} className="flex items-start gap-3 p-3 text-sm">
+                {DECISION_EFFECT_ICONS[step.effect]}
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="neutral" size="sm">
+                      {DECISION_LAYER_LABELS[step.layer]}
+                    </Badge>
+                    {step.source && (
+                      <span className="text-xs font-mono text-softone-text-muted">
+                        {step.source}
+                      </span>
+                    )}
+                    {step.expired && (
+                      <Badge variant="warning" size="sm">
+                        만료
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="mt-1 text-softone-text">{step.message}</div>
+                  {step.missingPermissions && (
+                    <div className="mt-1 text-xs font-mono text-red-600">
+                      부족한 권한: {step.missingPermissions.join(", ")}
+                    </div>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
 // ========================================
 // Main Component
 // ========================================
@@ -584,6 +1068,16 @@ export const UserMenuPolicyDesignerPage: React.FC = () => {
     return existingPolicies.some((p) => p.userId === selectedUser.id);
   }, [selectedUser, existingPolicies]);
 
+  // 시뮬레이션용 정책 (저장 시와 동일하게 화이트리스트 모드 반영)
+  const simulatedPolicy = useMemo<UserMenuPolicy | null>(() => {
+    if (!selectedUser) return null;
+    return {
+      ...policy,
+      userId: selectedUser.id,
+      allowedRouteKeys: useWhitelist ? policy.allowedRouteKeys : undefined,
+    };
+  }, [selectedUser, policy, useWhitelist]);
+
   return (
     <div className="space-y-6 sds-animate-fade-in">
       <PageHeader
@@ -602,10 +1096,25 @@ export const UserMenuPolicyDesignerPage: React.FC = () => {
             </CardTitle>
           </CardHeader>
           <CardBody>
-            <UserSearch
-              onSelect={handleSelectUser}
-              selectedUserId={selectedUser?.id}
-            />
+            <Tabs defaultValue="search">
+              <Tabs.List className="mb-3">
+                <Tabs.Trigger value="search">검색</Tabs.Trigger>
+                <Tabs.Trigger value="org">조직도</Tabs.Trigger>
+              </Tabs.List>
+              <Tabs.Content value="search">
+                <UserSearch
+                  onSelect={handleSelectUser}
+                  selectedUserId={selectedUser?.id}
+                />
+              </Tabs.Content>
+              {/* 탭을 바꿔도 펼친 부서/로드한 사용자 유지 */}
+              <Tabs.Content value="org" forceMount>
+                <UserOrgTree
+                  onSelect={handleSelectUser}
+                  selectedUserId={selectedUser?.id}
+                />
+              </Tabs.Content>
+            </Tabs>
 
             {/* Existing policies summary */}
             <div className="mt-6 pt-6 border-t border-softone-border">
@@ -711,6 +1220,10 @@ export const UserMenuPolicyDesignerPage: React.FC = () => {
                   <Tabs.Trigger value="permissions">권한 설정</Tabs.Trigger>
                   <Tabs.Trigger value="routes">라우트 설정</Tabs.Trigger>
                   <Tabs.Trigger value="options">기타 옵션</Tabs.Trigger>
+                  <Tabs.Trigger value="simulate">
+                    <FlaskConical className="w-4 h-4 inline mr-1" />
+                    사용자 시뮬레이션
+                  </Tabs.Trigger>
                 </Tabs.List>
 
                 {/* Permissions Tab */}
@@ -718,7 +1231,7 @@ export const UserMenuPolicyDesignerPage: React.FC = () => {
                   <PermissionEditor
                     title="추가 허용 권한"
                     description="Role/Grade 기반 권한 외에 추가로 부여할 권한"
-                    selectedPermissions={policy.allowedPermissions || []}
+                    entries={policy.allowedPermissions || []}
                     onChange={(perms) =>
                       setPolicy((prev) => ({
                         ...prev,
@@ -731,7 +1244,7 @@ export const UserMenuPolicyDesignerPage: React.FC = () => {
                   <PermissionEditor
                     title="차단 권한"
                     description="Role/Grade에서 부여된 권한이라도 차단할 권한"
-                    selectedPermissions={policy.deniedPermissions || []}
+                    entries={policy.deniedPermissions || []}
                     onChange={(perms) =>
                       setPolicy((prev) => ({
                         ...prev,
@@ -774,7 +1287,7 @@ export const UserMenuPolicyDesignerPage: React.FC = () => {
                     <RouteKeyEditor
                       title="허용 라우트 (화이트리스트)"
                       description="이 목록에 포함된 routeKey만 접근 가능"
-                      selectedRouteKeys={policy.allowedRouteKeys || []}
+                      entries={policy.allowedRouteKeys || []}
                       onChange={(keys) =>
                         setPolicy((prev) => ({
                           ...prev,
@@ -788,7 +1301,7 @@ export const UserMenuPolicyDesignerPage: React.FC = () => {
                   <RouteKeyEditor
                     title="차단 라우트 (블랙리스트)"
                     description="권한이 있어도 접근 불가능한 routeKey"
-                    selectedRouteKeys={policy.deniedRouteKeys || []}
+                    entries={policy.deniedRouteKeys || []}
                     onChange={(keys) =>
                       setPolicy((prev) => ({
                         ...prev,
@@ -882,6 +1395,17 @@ export const UserMenuPolicyDesignerPage: React.FC = () => {
                     </div>
                   </div>
                 </Tabs.Content>
+
+                {/* Simulate Tab */}
+                <Tabs.Content value="simulate" className="space-y-4">
+                  <p className="text-sm text-softone-text-muted">
+                    역할/직급과 대상을 선택하면 편집 중인 정책(저장 전)을
+                    기준으로 각 계층의 허용/차단 결정 과정을 보여줍니다.
+                  </p>
+                  {simulatedPolicy && (
+                    <AccessSimulationPanel policy={simulatedPolicy} />
+                  )}
+                </Tabs.Content>
               </Tabs>
             )}
           </CardBody>
@@ -30,11 +30,8 @@ import {
 import { Badge } from "@core/components/ui/Badge";
 import { useNavigation } from "@core/router/NavigationContext";
 import { useAuth } from "@core/hooks/useAuth";
-import {
-  login as loginApi,
-  getTestAccounts,
-  type AuthError,
-} from "../api/authApi";
+import { normalizeApiError } from "@core/api/apiError";
+import { login as loginApi, getTestAccounts } from "../api/authApi";
 
 // ========================================
 // Form Schema
@@ -97,6 +94,7 @@ export const LoginForm: React.FC = () => {
       login({
         user: response.user,
         accessToken: response.accessToken,
+        refreshToken: response.refreshToken,
         role: response.role,
         grade: response.grade,
       });
@@ -104,8 +102,9 @@ export const LoginForm: React.FC = () => {
       // 원래 가려던 페이지 또는 대시보드로 이동
       navigation.push(from);
     } catch (err) {
-      const authError = err as AuthError;
-      setError(authError.message || "로그인에 실패했습니다.");
+      // 로그인 실패는 토스트 대신 폼 상단 Alert로 표시
+      const apiError = normalizeApiError(err);
+      setError(apiError.message || "로그인에 실패했습니다.");
     } finally {
       setIsLoading(false);
     }
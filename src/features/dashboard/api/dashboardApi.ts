@@ -7,9 +7,11 @@
  * Dashboard API
  * - useDashboardStatsQuery: 대시보드 통계 조회
  * - useDashboardChartQuery: 차트 데이터 조회
+ * - dashboardRouteLoader: 화면 진입 전 통계/차트 프리페치
  */
 
 import { useQuery } from "@tanstack/react-query";
+import type { RouteLoader } from "@core/router/routeLoader";
 
 // ========================================
 // Types
@@ -143,3 +145,22 @@ export const useDashboardChartQuery = () => {
   });
 };
 
+// ========================================
+// Route Loader
+// ========================================
+
+/**
+ * 대시보드 라우트 로더 (통계 + 차트, 위 훅과 같은 queryKey)
+ */
+export const dashboardRouteLoader: RouteLoader = () => [
+  {
+    queryKey: DASHBOARD_QUERY_KEYS.stats(),
+    queryFn: getDashboardStats,
+    staleTime: 1000 * 60 * 5,
+  },
+  {
+    queryKey: DASHBOARD_QUERY_KEYS.chart(),
+    queryFn: getDashboardChartData,
+    staleTime: 1000 * 60 * 5,
+  },
+];
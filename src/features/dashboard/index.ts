@@ -7,6 +7,7 @@ export { DashboardPage } from "./pages/DashboardPage";
 export {
   useDashboardStatsQuery,
   useDashboardChartQuery,
+  dashboardRouteLoader,
   DASHBOARD_QUERY_KEYS,
   type DashboardStats,
   type DashboardChartData,
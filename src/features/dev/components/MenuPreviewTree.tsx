@@ -34,7 +34,7 @@ import {
   isExternalNode,
   hasChildren,
 } from "@core/router/menu.types";
-import { getPathByRouteKey } from "@core/router/menuConfig";
+import { getPathByRouteKey } from "@core/router/routeRegistry";
 import type { PermissionKey } from "@core/auth/role.types";
 
 // ========================================
@@ -39,18 +39,23 @@ import { cn } from "@core/utils/classUtils";
 
 // Role/Permission 타입 및 매핑
 import {
-  ROLES,
   GRADES,
   PERMISSION_KEYS,
-  ROLE_PERMISSION_MAP,
-  GRADE_PERMISSION_BOOST,
+  computePermissions,
   type Role,
   type Grade,
   type PermissionKey,
+  type PermissionMatrix,
 } from "@core/auth/role.types";
+import { getRoleLabel } from "@core/auth/roleRegistry";
+import {
+  usePermissionMatrixStore,
+  selectPermissionMatrix,
+} from "@core/store/permissionMatrixStore";
 
 // 메뉴 트리
-import { menuTree, getPathByRouteKey } from "@core/router/menuConfig";
+import { menuTree } from "@core/router/menuConfig";
+import { getPathByRouteKey } from "@core/router/routeRegistry";
 import type {
   MenuNode,
   CategoryMenuNode,
@@ -69,14 +74,6 @@ import { MenuPreviewTree } from "../components/MenuPreviewTree";
 // Constants
 // ========================================
 
-const ROLE_LABELS: Record<Role, string> = {
-  SYSTEM_ADMIN: "시스템 관리자",
-  ORG_ADMIN: "조직 관리자",
-  MANAGER: "매니저",
-  STAFF: "일반 직원",
-  GUEST: "게스트",
-};
-
 const GRADE_LABELS: Record<Grade, string> = {
   EXECUTIVE: "임원",
   TEAM_LEAD: "팀장",
@@ -108,16 +105,18 @@ const EXTRA_PERMISSION_OPTIONS: { key: PermissionKey; label: string }[] = [
 // ========================================
 
 /**
- * Role과 Grade로 Permission 목록 계산
+ * Role과 Grade로 Permission 목록 계산 (현재 적용 중인 권한 매트릭스 기준)
  */
 function computeSimulatedPermissions(
   role: Role,
   grade: Grade,
-  extraPermissions: PermissionKey[]
+  extraPermissions: PermissionKey[],
+  matrix: PermissionMatrix
 ): PermissionKey[] {
-  const rolePerms = ROLE_PERMISSION_MAP[role] || [];
-  const gradeBoost = GRADE_PERMISSION_BOOST[grade] || [];
-  const combined = new Set([...rolePerms, ...gradeBoost, ...extraPermissions]);
+  const combined = new Set([
+    ...computePermissions(role, grade, matrix),
+    ...extraPermissions,
+  ]);
   return Array.from(combined);
 }
 
@@ -162,6 +161,7 @@ function getAccessibleRouteKeys(
 
 export const MenuPlaygroundPage: React.FC = () => {
   const toast = useToast();
+  const matrix = usePermissionMatrixStore(selectPermissionMatrix);
 
   // Control 상태
   const [selectedRole, setSelectedRole] = useState<Role>("STAFF");
@@ -178,7 +178,7 @@ export const MenuPlaygroundPage: React.FC = () => {
   // 시뮬레이션된 권한 목록
   const [simulatedPermissions, setSimulatedPermissions] = useState<
     PermissionKey[]
-  >(() => computeSimulatedPermissions(selectedRole, selectedGrade, []));
+  >(() => computeSimulatedPermissions(selectedRole, selectedGrade, [], matrix));
 
   // 접근 가능한 routeKey 목록
   const accessibleRouteKeys = useMemo(
@@ -204,23 +204,28 @@ export const MenuPlaygroundPage: React.FC = () => {
     const permissions = computeSimulatedPermissions(
       selectedRole,
       selectedGrade,
-      Array.from(extraPermissions)
+      Array.from(extraPermissions),
+      matrix
     );
     setSimulatedPermissions(permissions);
     toast.success(
-      `시뮬레이션 완료: ${ROLE_LABELS[selectedRole]} / ${GRADE_LABELS[selectedGrade]} (${permissions.length}개 권한)`
+      `시뮬레이션 완료: ${getRoleLabel(matrix.roles, selectedRole)} / ${
+        GRADE_LABELS[selectedGrade]
+      } (${permissions.length}개 권한)`
     );
-  }, [selectedRole, selectedGrade, extraPermissions, toast]);
+  }, [selectedRole, selectedGrade, extraPermissions, matrix, toast]);
 
   // 초기화
   const handleReset = useCallback(() => {
     setSelectedRole("STAFF");
     setSelectedGrade("JUNIOR");
     setExtraPermissions(new Set());
-    setSimulatedPermissions(computeSimulatedPermissions("STAFF", "JUNIOR", []));
+    setSimulatedPermissions(
+      computeSimulatedPermissions("STAFF", "JUNIOR", [], matrix)
+    );
     setSelectedRouteKey(undefined);
     toast.info("설정이 초기화되었습니다.");
-  }, [toast]);
+  }, [matrix, toast]);
 
   // JSON 복사
   const handleCopyJson = useCallback(async () => {
@@ -295,13 +300,13 @@ export const MenuPlaygroundPage: React.FC = () => {
               <Select
                 value={selectedRole}
                 onChange={(e) => setSelectedRole(e.target.value as Role)}
-                options={ROLES.map((role) => ({
-                  value: role,
-                  label: `${ROLE_LABELS[role]} (${role})`,
+                options={matrix.roles.map((def) => ({
+                  value: def.key,
+                  label: `${def.label} (${def.key})`,
                 }))}
               />
               <p className="text-xs text-softone-text-muted mt-2">
-                {ROLE_PERMISSION_MAP[selectedRole]?.length || 0}개 기본 권한
+                {matrix.rolePermissions[selectedRole]?.length || 0}개 기본 권한
               </p>
             </CardBody>
           </Card>
@@ -321,7 +326,8 @@ export const MenuPlaygroundPage: React.FC = () => {
                 }))}
               />
               <p className="text-xs text-softone-text-muted mt-2">
-                {GRADE_PERMISSION_BOOST[selectedGrade]?.length || 0}개 추가 권한
+                {matrix.gradePermissionBoost[selectedGrade]?.length || 0}개 추가
+                권한
               </p>
             </CardBody>
           </Card>
@@ -386,7 +392,7 @@ export const MenuPlaygroundPage: React.FC = () => {
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-3">
                   <Badge variant="primary" size="md">
-                    {ROLE_LABELS[selectedRole]}
+                    {getRoleLabel(matrix.roles, selectedRole)}
                   </Badge>
                   <Badge variant="info" size="md">
                     {GRADE_LABELS[selectedGrade]}
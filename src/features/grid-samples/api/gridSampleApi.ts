@@ -15,7 +15,16 @@
 
 import { useQuery, useInfiniteQuery } from "@tanstack/react-query";
 import { httpClient } from "@core/api/httpClient";
-import type { GridDataResponse, PaginationState } from "@core/model/grid.types";
+import { isApiError } from "@core/api/apiError";
+import { buildQueryParamsFromGridState } from "@core/utils/gridUtils";
+import type {
+  FilterState,
+  GridBatchRequest,
+  GridBatchResponse,
+  GridDataResponse,
+  PaginationState,
+  SortState,
+} from "@core/model/grid.types";
 
 // ========================================
 // Configuration
@@ -257,6 +266,14 @@ export async function fetchInventoryData(
  * 상품 데이터 조회 (편집용)
  */
 export async function fetchProductData(): Promise<ProductData[]> {
+  if (USE_MOCK_SERVER) {
+    const response = await httpClient.get<GridDataResponse<SalesData>>(
+      "/api/grid/sales",
+      { params: { page: 1, pageSize: 50, sortField: "id" } }
+    );
+    return response.data.data.map(toProductData);
+  }
+
   return new Promise((resolve) => {
     setTimeout(() => {
       resolve(generateProductData(50));
@@ -290,6 +307,61 @@ export async function fetchLargeDataset(
   });
 }
 
+/**
+ * 대용량 데이터 블록 조회 (커서/keyset 페이지네이션)
+ * Mock 서버 사용 시: GET /api/grid/sales?paginationMode=cursor
+ *
+ * cursor가 없으면 startRow 위치를 offset으로 조회하고, 응답의 nextCursor로
+ * 이후 블록을 keyset 방식으로 이어서 조회합니다.
+ */
+export async function fetchLargeDatasetBlock(params: {
+  startRow: number;
+  pageSize: number;
+  cursor?: string | null;
+  sorts?: SortState[];
+}): Promise<GridDataResponse<SalesData>> {
+  const { startRow, pageSize, cursor, sorts } = params;
+
+  if (USE_MOCK_SERVER) {
+    const response = await httpClient.get<GridDataResponse<SalesData>>(
+      "/api/grid/sales",
+      {
+        params: {
+          ...buildQueryParamsFromGridState(
+            { page: Math.floor(startRow / pageSize) + 1, pageSize },
+            sorts
+          ),
+          paginationMode: "cursor",
+          cursor: cursor ?? undefined,
+        },
+      }
+    );
+    return response.data;
+  }
+
+  // 클라이언트 Mock - 커서에 다음 시작 인덱스를 담아 keyset 흉내
+  return new Promise((resolve) => {
+    setTimeout(() => {
+      const total = 10000;
+      const startIndex = cursor ? Number(atob(cursor)) : startRow;
+      const endIndex = Math.min(startIndex + pageSize, total);
+
+      resolve({
+        data: generateSalesData(endIndex - startIndex, startIndex),
+        total,
+        page: Math.floor(startIndex / pageSize) + 1,
+        pageSize,
+        totalPages: Math.ceil(total / pageSize),
+        nextCursor: endIndex < total ? btoa(String(endIndex)) : null,
+        prevCursor:
+          startIndex > 0
+            ? btoa(String(Math.max(startIndex - pageSize, 0)))
+            : null,
+      });
+    }, 300);
+  });
+}
+
 /**
  * 집계 데이터 조회 (그룹핑/피벗용)
  */
@@ -341,14 +413,15 @@ export function useProductDataQuery() {
 }
 
 /**
- * 무한 스크롤 데이터 쿼리 훅
+ * 무한 스크롤 데이터 쿼리 훅 (커서 페이지네이션)
  */
 export function useInfiniteScrollDataQuery(pageSize: number = 100) {
   return useInfiniteQuery({
     queryKey: ["infinite-scroll-data", pageSize],
-    queryFn: ({ pageParam = 0 }) => fetchLargeDataset(pageParam, pageSize),
-    getNextPageParam: (lastPage) => lastPage.nextPage,
-    initialPageParam: 0,
+    queryFn: ({ pageParam }) =>
+      fetchLargeDatasetBlock({ startRow: 0, pageSize, cursor: pageParam }),
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? null,
+    initialPageParam: null as string | null,
     staleTime: 60000,
   });
 }
@@ -371,6 +444,28 @@ export function useAggregationDataQuery() {
 import type { UserGridData } from "../store/userGridStore";
 import type { OrderGridData } from "../store/orderGridStore";
 
+/**
+ * 그리드 조회 파라미터 → Mock 서버 쿼리 파라미터
+ * 정렬/필터는 gridUtils 프로토콜(sortField/sortDirection, filter[i][...])로 직렬화합니다.
+ */
+function toServerQueryParams({
+  page,
+  pageSize,
+  sorts,
+  filters,
+  ...rest
+}: {
+  page: number;
+  pageSize: number;
+  sorts?: SortState[];
+  filters?: FilterState[];
+}): Record<string, unknown> {
+  return {
+    ...rest,
+    ...buildQueryParamsFromGridState({ page, pageSize }, sorts, filters),
+  };
+}
+
 /**
  * 사용자 그리드 데이터 조회
  * Mock 서버 사용 시: GET /api/grid/users
@@ -379,11 +474,13 @@ export async function fetchUserGridData(params: {
   page: number;
   pageSize: number;
   keyword?: string;
+  sorts?: SortState[];
+  filters?: FilterState[];
 }): Promise<GridDataResponse<UserGridData>> {
   if (USE_MOCK_SERVER) {
     const response = await httpClient.get<GridDataResponse<UserGridData>>(
       "/api/grid/users",
-      { params }
+      { params: toServerQueryParams(params) }
     );
     return response.data;
   }
@@ -447,11 +544,13 @@ export async function fetchOrderGridData(params: {
   page: number;
   pageSize: number;
   status?: string;
+  sorts?: SortState[];
+  filters?: FilterState[];
 }): Promise<GridDataResponse<OrderGridData>> {
   if (USE_MOCK_SERVER) {
     const response = await httpClient.get<GridDataResponse<OrderGridData>>(
       "/api/grid/orders",
-      { params }
+      { params: toServerQueryParams(params) }
     );
     return response.data;
   }
@@ -531,3 +630,162 @@ export function useOrderGridDataQuery(params: {
     staleTime: 30000,
   });
 }
+
+// ========================================
+// Batch Save (추가/수정/삭제 일괄 저장)
+// ========================================
+
+/** 쓰기 API를 지원하는 Mock 서버 리소스 */
+export type GridResource = "users" | "orders" | "sales";
+
+/**
+ * 그리드 변경사항 일괄 저장
+ * Mock 서버 사용 시: POST /api/grid/:resource/batch (단일 트랜잭션)
+ *
+ * 검증 실패(422) 시에도 행 단위 결과를 담은 응답을 그대로 반환하므로,
+ * 호출 측에서 results[].errors를 셀에 표시할 수 있습니다.
+ */
+export async function saveGridBatch<T = Record<string, unknown>>(
+  resource: GridResource,
+  payload: GridBatchRequest<T>
+): Promise<GridBatchResponse<T>> {
+  if (USE_MOCK_SERVER) {
+    try {
+      const response = await httpClient.post<GridBatchResponse<T>>(
+        `/api/grid/${resource}/batch`,
+        payload
+      );
+      return response.data;
+    } catch (error) {
+      // 422: 전체 롤백 + 행 단위 결과
+      if (isApiError(error) && error.status === 422) {
+        return error.data as GridBatchResponse<T>;
+      }
+      throw error;
+    }
+  }
+
+  // 클라이언트 Mock - 모든 행 성공 처리
+  return new Promise((resolve) => {
+    setTimeout(() => {
+      const added = payload.added ?? [];
+      const updated = payload.updated ?? [];
+      const deleted = payload.deleted ?? [];
+
+      resolve({
+        success: true,
+        results: [
+          ...added.map((row) => ({
+            rowId: row.rowId,
+            operation: "add" as const,
+            status: "success" as const,
+            id: row.rowId,
+          })),
+          ...updated.map((row) => ({
+            rowId: row.rowId,
+            operation: "update" as const,
+            status: "success" as const,
+            id: row.rowId,
+          })),
+          ...deleted.map((rowId) => ({
+            rowId,
+            operation: "delete" as const,
+            status: "success" as const,
+            id: rowId,
+          })),
+        ],
+        summary: {
+          added: added.length,
+          updated: updated.length,
+          deleted: deleted.length,
+          failed: 0,
+        },
+      });
+    }, 300);
+  });
+}
+
+// ========================================
+// Product Batch Save (편집 그리드 → sales 리소스)
+// ========================================
+
+/**
+ * 상품 편집 필드 → Mock 서버 sales 필드
+ * code / discount / description은 sales 리소스에 없으므로 저장하지 않습니다.
+ */
+const PRODUCT_TO_SALES_FIELDS: Partial<Record<keyof ProductData, string>> = {
+  name: "productName",
+  category: "category",
+  price: "unitPrice",
+  quantity: "quantity",
+};
+
+const SALES_TO_PRODUCT_FIELDS: Record<string, string> = Object.fromEntries(
+  Object.entries(PRODUCT_TO_SALES_FIELDS).map(([product, sales]) => [
+    sales,
+    product,
+  ])
+);
+
+function toProductData(row: SalesData): ProductData {
+  return {
+    id: row.id,
+    code: row.id,
+    name: row.productName,
+    category: row.category,
+    price: row.unitPrice,
+    quantity: row.quantity,
+    discount: 0,
+    status: row.status === "CANCELLED" ? "INACTIVE" : "ACTIVE",
+    description: row.region ?? "",
+  };
+}
+
+function toSalesRecord(product: Partial<ProductData>): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  Object.entries(PRODUCT_TO_SALES_FIELDS).forEach(([field, salesField]) => {
+    const value = product[field as keyof ProductData];
+    if (value !== undefined && salesField) {
+      record[salesField] = value;
+    }
+  });
+  return record;
+}
+
+/**
+ * 상품 편집 그리드 일괄 저장
+ * Mock 서버 사용 시: POST /api/grid/sales/batch (상품 필드를 sales 필드로 변환)
+ *
+ * 응답의 오류 필드명은 다시 상품 필드명(name, price 등)으로 바꿔서 반환하므로
+ * getBatchRowErrors로 그리드 행/셀에 바로 표시할 수 있습니다.
+ */
+export async function saveProductBatch(
+  payload: GridBatchRequest<ProductData>
+): Promise<GridBatchResponse<ProductData>> {
+  const response = await saveGridBatch<SalesData>("sales", {
+    added: payload.added?.map(({ rowId, data }) => ({
+      rowId,
+      data: toSalesRecord(data) as Partial<SalesData>,
+    })),
+    updated: payload.updated?.map(({ rowId, changes, original }) => ({
+      rowId,
+      changes: toSalesRecord(changes) as Partial<SalesData>,
+      original: toSalesRecord(original) as unknown as SalesData,
+    })),
+    deleted: payload.deleted,
+  });
+
+  return {
+    ...response,
+    results: response.results.map(({ data, errors, ...result }) => ({
+      ...result,
+      data: data ? toProductData(data) : undefined,
+      errors: errors?.map((error) => ({
+        ...error,
+        field: error.field
+          ? SALES_TO_PRODUCT_FIELDS[error.field] ?? error.field
+          : undefined,
+      })),
+    })),
+  };
+}
@@ -7,7 +7,8 @@
  *   - 셀 더블클릭으로 편집 모드 진입
  *   - 값 범위 검증 (수량 0~1000, 가격 0~10,000,000)
  *   - 유효성 오류 시 스타일 변경 (빨간 배경)
- *   - 변경된 행 추적 및 일괄 저장
+ *   - 변경된 행 추적 및 일괄 저장 (POST /api/grid/sales/batch)
+ *   - 서버 검증 실패(422) 시 행 단위 오류를 해당 셀에 표시
  */
 
 import React, { useState, useCallback, useMemo, useRef } from "react";
@@ -44,8 +45,17 @@ import {
   Info,
 } from "lucide-react";
 
-import { useProductDataQuery, type ProductData } from "../api/gridSampleApi";
-import { formatCellNumber, formatCellCurrency } from "@core/utils/gridUtils";
+import {
+  saveProductBatch,
+  useProductDataQuery,
+  type ProductData,
+} from "../api/gridSampleApi";
+import {
+  BATCH_ROW_ERROR_KEY,
+  formatCellNumber,
+  formatCellCurrency,
+  getBatchRowErrors,
+} from "@core/utils/gridUtils";
 
 // ========================================
 // Types
@@ -210,6 +220,8 @@ export const AgEditingValidationPage: React.FC = () => {
           if (row.id !== data.id) return row;
 
           const newErrors = { ...row._errors };
+          // 서버 행 단위 오류는 다시 편집하면 해제
+          delete newErrors[BATCH_ROW_ERROR_KEY];
           if (!validation.valid && validation.message) {
             newErrors[field] = validation.message;
           } else {
@@ -469,8 +481,11 @@ export const AgEditingValidationPage: React.FC = () => {
     []
   );
 
+  // 저장 상태
+  const [isSaving, setIsSaving] = useState(false);
+
   // 저장 핸들러
-  const handleSave = useCallback(() => {
+  const handleSave = useCallback(async () => {
     if (errorCount > 0) {
       toast.error(
         `${errorCount}개의 행에 유효성 오류가 있습니다. 수정 후 저장해주세요.`
@@ -483,36 +498,66 @@ export const AgEditingValidationPage: React.FC = () => {
       return;
     }
 
-    // 변경된 행만 추출
+    // 변경된 행의 변경 필드만 추출
     const modifiedRows = rowData.filter((row) => row._isModified);
-    console.log("저장할 데이터:", modifiedRows);
-    console.log("변경 내역:", changes);
-
-    // 저장 성공 시뮬레이션
-    toast.success(`${modifiedRows.length}건의 데이터가 저장되었습니다.`);
-
-    // 상태 초기화 - 원본 데이터 업데이트
-    setRowData((prev) =>
-      prev.map((row) => ({
-        ...row,
-        _isModified: false,
-        _originalData: {
-          id: row.id,
-          code: row.code,
-          name: row.name,
-          category: row.category,
-          price: row.price,
-          quantity: row.quantity,
-          discount: row.discount,
-          status: row.status,
-          description: row.description,
-        },
-      }))
-    );
-    setChanges([]);
+    const updated = modifiedRows.map((row) => ({
+      rowId: row.id,
+      changes: Object.fromEntries(
+        changes
+          .filter((change) => change.rowId === row.id)
+          .map((change) => [change.field, change.newValue])
+      ) as Partial<ProductData>,
+      original: row._originalData,
+    }));
+
+    setIsSaving(true);
+    try {
+      const result = await saveProductBatch({ updated });
+
+      if (!result.success) {
+        // 422: 전체 롤백 → 서버 오류를 행/셀에 표시
+        const rowErrors = getBatchRowErrors(result);
+        setRowData((prev) =>
+          prev.map((row) =>
+            rowErrors[row.id]
+              ? { ...row, _errors: { ...row._errors, ...rowErrors[row.id] } }
+              : row
+          )
+        );
+        toast.error(
+          `${result.summary.failed}건의 행에서 서버 검증 오류가 발생하여 저장이 취소되었습니다.`
+        );
+        return;
+      }
 
-    // 그리드 새로고침
-    gridApiRef.current?.refreshCells({ force: true });
+      toast.success(`${modifiedRows.length}건의 데이터가 저장되었습니다.`);
+
+      // 상태 초기화 - 원본 데이터 업데이트
+      setRowData((prev) =>
+        prev.map((row) => ({
+          ...row,
+          _isModified: false,
+          _originalData: {
+            id: row.id,
+            code: row.code,
+            name: row.name,
+            category: row.category,
+            price: row.price,
+            quantity: row.quantity,
+            discount: row.discount,
+            status: row.status,
+            description: row.description,
+          },
+        }))
+      );
+      setChanges([]);
+    } catch {
+      toast.error("저장 중 오류가 발생했습니다.");
+    } finally {
+      setIsSaving(false);
+      // 그리드 새로고침 (오류/수정 스타일 갱신)
+      setTimeout(() => gridApiRef.current?.refreshCells({ force: true }), 0);
+    }
   }, [errorCount, modifiedCount, rowData, changes, toast]);
 
   // 초기화 핸들러
@@ -601,6 +646,7 @@ export const AgEditingValidationPage: React.FC = () => {
               variant="primary"
               onClick={handleSave}
               disabled={modifiedCount === 0 || errorCount > 0}
+              loading={isSaving}
               leftIcon={<Save className="w-4 h-4" />}
             >
               저장 ({modifiedCount}건)
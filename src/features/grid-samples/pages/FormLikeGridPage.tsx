@@ -9,10 +9,17 @@
  *   - 행 추가/삭제
  *   - Dirty Checking (변경 감지)
  *   - 변경된 셀/행 하이라이트
- *   - 일괄 저장 (Batch Save)
+ *   - 일괄 저장 (Batch Save, POST /api/grid/sales/batch 단일 트랜잭션)
+ *   - 서버 검증 실패(422) 시 행 단위 오류 표시
  */
 
-import React, { useState, useCallback, useMemo, useRef } from "react";
+import React, {
+  useState,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+} from "react";
 import { AgGridReact } from "ag-grid-react";
 import type {
   ColDef,
@@ -20,6 +27,7 @@ import type {
   ValueFormatterParams,
   GridReadyEvent,
   RowClassParams,
+  CellClassParams,
 } from "ag-grid-community";
 import "ag-grid-community/styles/ag-grid.css";
 import "ag-grid-community/styles/ag-theme-alpine.css";
@@ -34,9 +42,21 @@ import {
 import { Button } from "@core/components/ui/Button";
 import { Badge } from "@core/components/ui/Badge";
 import { useToast } from "@core/hooks/useToast";
+import { useUnsavedChangesGuard } from "@core/hooks/useUnsavedChangesGuard";
 import { Table2, Plus, Trash2, Save, RotateCcw } from "lucide-react";
 
-import { formatCellNumber, formatCellCurrency } from "@core/utils/gridUtils";
+import {
+  BATCH_ROW_ERROR_KEY,
+  formatCellNumber,
+  formatCellCurrency,
+  getBatchRowErrors,
+} from "@core/utils/gridUtils";
+
+import {
+  saveProductBatch,
+  useProductDataQuery,
+  type ProductData,
+} from "../api/gridSampleApi";
 
 // ========================================
 // Types
@@ -54,27 +74,45 @@ interface ProductRow {
   _isModified?: boolean;
   _isDeleted?: boolean;
   _originalData?: ProductRow;
+  /** 서버 검증 오류 (필드 → 메시지, 행 단위 오류는 BATCH_ROW_ERROR_KEY) */
+  _errors?: Record<string, string>;
 }
 
+/** 저장 대상 필드 (Dirty Checking 비교 대상) */
+const EDITABLE_FIELDS = [
+  "code",
+  "name",
+  "category",
+  "price",
+  "quantity",
+] as const;
+
 // ========================================
-// Mock Initial Data
+// Row Mapping
 // ========================================
 
-const createInitialData = (): ProductRow[] => {
-  return Array.from({ length: 10 }, (_, i) => ({
-    id: `PRD-${String(i + 1).padStart(4, "0")}`,
-    code: `CODE-${String(i + 1).padStart(3, "0")}`,
-    name: `상품 ${i + 1}`,
-    category: ["전자제품", "의류", "식품", "가구"][i % 4],
-    price: Math.floor(Math.random() * 100000) + 10000,
-    quantity: Math.floor(Math.random() * 100) + 1,
-    total: 0,
-  })).map((row) => ({
-    ...row,
-    total: row.price * row.quantity,
-    _originalData: { ...row, total: row.price * row.quantity },
-  }));
-};
+const toProductRows = (products: ProductData[]): ProductRow[] =>
+  products.map((product) => {
+    const row = {
+      id: product.id,
+      code: product.code,
+      name: product.name,
+      category: product.category,
+      price: product.price,
+      quantity: product.quantity,
+      total: product.price * product.quantity,
+    };
+    return { ...row, _originalData: { ...row } };
+  });
+
+/** 그리드 행 → 저장용 상품 데이터 (내부 상태 필드 제외) */
+const toProductData = (row: ProductRow): Partial<ProductData> => ({
+  code: row.code,
+  name: row.name,
+  category: row.category,
+  price: row.price,
+  quantity: row.quantity,
+});
 
 // ========================================
 // FormLikeGridPage Component
@@ -84,9 +122,20 @@ export const FormLikeGridPage: React.FC = () => {
   const toast = useToast();
   const gridRef = useRef<AgGridReact<ProductRow>>(null);
 
+  // 데이터 로딩
+  const { data: products, isLoading } = useProductDataQuery();
+
   // 상태
-  const [rowData, setRowData] = useState<ProductRow[]>(createInitialData);
+  const [rowData, setRowData] = useState<ProductRow[]>([]);
   const [deletedRows, setDeletedRows] = useState<ProductRow[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (products) {
+      setRowData(toProductRows(products));
+      setDeletedRows([]);
+    }
+  }, [products]);
 
   // 변경 사항 계산
   const changesSummary = useMemo(() => {
@@ -103,6 +152,11 @@ export const FormLikeGridPage: React.FC = () => {
     };
   }, [rowData, deletedRows]);
 
+  // 저장하지 않은 행(신규/수정/삭제)이 있으면 화면 이동/탭 닫기 시 확인
+  useUnsavedChangesGuard(changesSummary.hasChanges, {
+    message: "저장하지 않은 행 변경 사항이 있습니다. 버리고 계속하시겠습니까?",
+  });
+
   // 컬럼 정의
   const columnDefs: ColDef<ProductRow>[] = useMemo(
     () => [
@@ -117,6 +171,16 @@ export const FormLikeGridPage: React.FC = () => {
         headerName: "상태",
         width: 80,
         cellRenderer: (params: { data: ProductRow }) => {
+          const errors = params.data._errors;
+          if (errors && Object.keys(errors).length > 0) {
+            return (
+              <span title={Object.values(errors).join("\n")}>
+                <Badge variant="danger" size="sm">
+                  오류
+                </Badge>
+              </span>
+            );
+          }
           if (params.data._isNew) {
             return (
               <Badge variant="success" size="sm">
@@ -196,6 +260,7 @@ export const FormLikeGridPage: React.FC = () => {
 
   // 행 클래스 규칙
   const getRowClass = useCallback((params: RowClassParams<ProductRow>) => {
+    if (params.data?._errors) return "bg-red-50";
     if (params.data?._isNew) return "bg-green-50";
     if (params.data?._isModified) return "bg-yellow-50";
     return "";
@@ -211,22 +276,25 @@ export const FormLikeGridPage: React.FC = () => {
         return prev.map((row) => {
           if (row.id !== data.id) return row;
 
-          // 합계 재계산
+          // 합계 재계산, 편집한 필드(및 행 단위)의 서버 오류 해제
+          const field = event.colDef.field;
+          const errors = { ...row._errors };
+          delete errors[BATCH_ROW_ERROR_KEY];
+          if (field) delete errors[field];
+
           const updatedRow = {
             ...row,
             ...data,
             total: data.price * data.quantity,
+            _errors: Object.keys(errors).length > 0 ? errors : undefined,
           };
 
           // 변경 여부 확인 (신규가 아닌 경우만)
           if (!row._isNew && row._originalData) {
             const original = row._originalData;
-            const isModified =
-              updatedRow.code !== original.code ||
-              updatedRow.name !== original.name ||
-              updatedRow.category !== original.category ||
-              updatedRow.price !== original.price ||
-              updatedRow.quantity !== original.quantity;
+            const isModified = EDITABLE_FIELDS.some(
+              (key) => updatedRow[key] !== original[key]
+            );
 
             return {
               ...updatedRow,
@@ -285,51 +353,86 @@ export const FormLikeGridPage: React.FC = () => {
   }, [toast]);
 
   // 일괄 저장
-  const handleBatchSave = useCallback(() => {
+  const handleBatchSave = useCallback(async () => {
     const newRows = rowData.filter((row) => row._isNew);
     const modifiedRows = rowData.filter(
       (row) => row._isModified && !row._isNew
     );
 
-    const payload = {
-      created: newRows.map(
-        ({ _isNew, _isModified, _originalData, ...rest }) => rest
-      ),
-      updated: modifiedRows.map(
-        ({ _isNew, _isModified, _originalData, ...rest }) => rest
-      ),
-      deleted: deletedRows.map(
-        ({ _isNew, _isModified, _originalData, ...rest }) => rest
-      ),
-    };
-
-    console.log("Batch Save Payload:", payload);
-
-    // 실제로는 API 호출
-    // await httpClient.post('/api/products/batch', payload);
+    setIsSaving(true);
+    try {
+      const result = await saveProductBatch({
+        added: newRows.map((row) => ({
+          rowId: row.id,
+          data: toProductData(row),
+        })),
+        updated: modifiedRows.map((row) => {
+          const original = row._originalData!;
+          const changedFields = EDITABLE_FIELDS.filter(
+            (key) => row[key] !== original[key]
+          );
+          return {
+            rowId: row.id,
+            changes: Object.fromEntries(
+              changedFields.map((key) => [key, row[key]])
+            ) as Partial<ProductData>,
+            original: toProductData(original) as ProductData,
+          };
+        }),
+        deleted: deletedRows.map((row) => row.id),
+      });
 
-    // 성공 후 상태 초기화
-    setRowData((prev) =>
-      prev.map((row) => ({
-        ...row,
-        _isNew: false,
-        _isModified: false,
-        _originalData: { ...row, _isNew: false, _isModified: false },
-      }))
-    );
-    setDeletedRows([]);
+      if (!result.success) {
+        // 422: 전체 롤백 → 오류 행 표시 (삭제 행 오류는 토스트로만 안내)
+        const rowErrors = getBatchRowErrors(result);
+        setRowData((prev) =>
+          prev.map((row) => ({ ...row, _errors: rowErrors[row.id] }))
+        );
+        toast.error(
+          `${result.summary.failed}건의 행에서 오류가 발생하여 저장이 취소되었습니다.`
+        );
+        return;
+      }
 
-    toast.success(
-      `저장 완료: 신규 ${newRows.length}건, 수정 ${modifiedRows.length}건, 삭제 ${deletedRows.length}건`
-    );
+      // 신규 행의 임시 ID → 서버에서 확정된 ID
+      const savedIds = new Map(
+        result.results
+          .filter((row) => row.operation === "add" && row.id)
+          .map((row) => [row.rowId, row.id!])
+      );
+
+      // 성공 후 상태 초기화
+      setRowData((prev) =>
+        prev.map((row) => {
+          const saved = {
+            ...row,
+            id: savedIds.get(row.id) ?? row.id,
+            _isNew: false,
+            _isModified: false,
+            _errors: undefined,
+            _originalData: undefined,
+          };
+          return { ...saved, _originalData: { ...saved } };
+        })
+      );
+      setDeletedRows([]);
+
+      toast.success(
+        `저장 완료: 신규 ${result.summary.added}건, 수정 ${result.summary.updated}건, 삭제 ${result.summary.deleted}건`
+      );
+    } catch {
+      toast.error("저장 중 오류가 발생했습니다.");
+    } finally {
+      setIsSaving(false);
+    }
   }, [rowData, deletedRows, toast]);
 
   // 초기화
   const handleReset = useCallback(() => {
-    setRowData(createInitialData());
+    setRowData(toProductRows(products ?? []));
     setDeletedRows([]);
     toast.info("데이터가 초기화되었습니다.");
-  }, [toast]);
+  }, [products, toast]);
 
   // 그리드 준비
   const onGridReady = useCallback((params: GridReadyEvent) => {
@@ -404,6 +507,7 @@ export const FormLikeGridPage: React.FC = () => {
               variant="primary"
               onClick={handleBatchSave}
               disabled={!changesSummary.hasChanges}
+              loading={isSaving}
               leftIcon={<Save className="w-4 h-4" />}
             >
               일괄 저장
@@ -431,7 +535,13 @@ export const FormLikeGridPage: React.FC = () => {
               defaultColDef={{
                 sortable: true,
                 resizable: true,
+                cellClassRules: {
+                  "bg-red-100": (params: CellClassParams<ProductRow>) =>
+                    !!params.colDef.field &&
+                    !!params.data?._errors?.[params.colDef.field],
+                },
               }}
+              loading={isLoading}
               onGridReady={onGridReady}
               onCellValueChanged={onCellValueChanged}
               getRowClass={getRowClass}
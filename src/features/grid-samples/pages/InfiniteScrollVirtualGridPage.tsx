@@ -6,7 +6,7 @@
  *   ag-Grid의 Infinite Row Model을 사용하여 대용량 데이터(1만 건 이상)를
  *   가상 스크롤링으로 효율적으로 표시합니다.
  *
- *   - 서버 사이드 페이징 시뮬레이션
+ *   - 서버 사이드 페이징 시뮬레이션 (커서/keyset 페이지네이션)
  *   - 스크롤 시 자동 데이터 로딩
  *   - 로딩 중 인디케이터 표시
  */
@@ -17,7 +17,6 @@ import type {
   ColDef,
   GridReadyEvent,
   IDatasource,
-  IGetRowsParams,
   ValueFormatterParams,
 } from "ag-grid-community";
 import "ag-grid-community/styles/ag-grid.css";
@@ -36,7 +35,8 @@ import { FormFieldWrapper } from "@core/components/ui/FormFieldWrapper";
 import { Select } from "@core/components/ui/Select";
 import { Loader2, Database, RefreshCw, Infinity } from "lucide-react";
 
-import { fetchLargeDataset, type SalesData } from "../api/gridSampleApi";
+import { createInfiniteDatasource } from "@core/lib/agGridDatasource";
+import { fetchLargeDatasetBlock, type SalesData } from "../api/gridSampleApi";
 import {
   formatCellNumber,
   formatCellCurrency,
@@ -61,6 +61,7 @@ export const InfiniteScrollVirtualGridPage: React.FC = () => {
   // 상태
   const [cacheBlockSize, setCacheBlockSize] = useState(100);
   const [loadedRows, setLoadedRows] = useState(0);
+  const [totalRows, setTotalRows] = useState(TOTAL_ROWS);
   const [isLoadingChunk, setIsLoadingChunk] = useState(false);
   const [loadCount, setLoadCount] = useState(0);
 
@@ -166,38 +167,40 @@ export const InfiniteScrollVirtualGridPage: React.FC = () => {
     []
   );
 
-  // 데이터소스 생성
-  const createDatasource = useCallback((): IDatasource => {
-    return {
-      getRows: async (params: IGetRowsParams) => {
-        setIsLoadingChunk(true);
-
-        const pageNumber = Math.floor(params.startRow / cacheBlockSize);
-        console.log(
-          `[Infinite Scroll] Loading page ${pageNumber}, rows ${params.startRow}-${params.endRow}`
-        );
-
-        try {
-          const result = await fetchLargeDataset(pageNumber, cacheBlockSize);
-
+  // 데이터소스 생성 (블록 경계별 커서를 기억하여 다음 블록을 keyset으로 조회)
+  const createDatasource = useCallback(
+    (): IDatasource =>
+      createInfiniteDatasource<SalesData>({
+        fetchBlock: ({ startRow, blockSize, cursor, sorts }) => {
+          console.log(
+            `[Infinite Scroll] Loading rows ${startRow}-${startRow + blockSize} (${cursor ? "cursor" : "offset"})`
+          );
+          return fetchLargeDatasetBlock({
+            startRow,
+            pageSize: blockSize,
+            cursor,
+            sorts,
+          });
+        },
+        onBlockLoading: () => setIsLoadingChunk(true),
+        onBlockLoaded: (request, result) => {
           // 로드된 행 수 업데이트
-          const newLoadedRows = Math.min(params.endRow, TOTAL_ROWS);
-          setLoadedRows(newLoadedRows);
+          if (result.total !== undefined) {
+            setTotalRows(result.total);
+          }
+          setLoadedRows((prev) =>
+            Math.max(prev, request.startRow + result.data.length)
+          );
           setLoadCount((prev) => prev + 1);
-
-          // 마지막 행 계산
-          const lastRow = result.nextPage === null ? result.total : -1;
-
-          params.successCallback(result.data, lastRow);
-        } catch (error) {
+          setIsLoadingChunk(false);
+        },
+        onBlockError: (_request, error) => {
           console.error("Failed to load data:", error);
-          params.failCallback();
-        } finally {
           setIsLoadingChunk(false);
-        }
-      },
-    };
-  }, [cacheBlockSize]);
+        },
+      }),
+    []
+  );
 
   // 그리드 준비 완료
   const onGridReady = useCallback(
@@ -208,37 +211,20 @@ export const InfiniteScrollVirtualGridPage: React.FC = () => {
   );
 
   // 캐시 블록 사이즈 변경
-  const handleCacheBlockSizeChange = useCallback((newSize: number) => {
-    setCacheBlockSize(newSize);
-    setLoadedRows(0);
-    setLoadCount(0);
-
-    // 그리드 새로고침
-    if (gridRef.current?.api) {
-      gridRef.current.api.setGridOption("cacheBlockSize", newSize);
-      gridRef.current.api.setGridOption("datasource", {
-        getRows: async (params: IGetRowsParams) => {
-          setIsLoadingChunk(true);
-
-          const pageNumber = Math.floor(params.startRow / newSize);
-
-          try {
-            const result = await fetchLargeDataset(pageNumber, newSize);
-            const newLoadedRows = Math.min(params.endRow, TOTAL_ROWS);
-            setLoadedRows(newLoadedRows);
-            setLoadCount((prev) => prev + 1);
-
-            const lastRow = result.nextPage === null ? result.total : -1;
-            params.successCallback(result.data, lastRow);
-          } catch (error) {
-            params.failCallback();
-          } finally {
-            setIsLoadingChunk(false);
-          }
-        },
-      });
-    }
-  }, []);
+  const handleCacheBlockSizeChange = useCallback(
+    (newSize: number) => {
+      setCacheBlockSize(newSize);
+      setLoadedRows(0);
+      setLoadCount(0);
+
+      // 그리드 새로고침 (블록 경계가 바뀌므로 새 데이터소스로 교체)
+      if (gridRef.current?.api) {
+        gridRef.current.api.setGridOption("cacheBlockSize", newSize);
+        gridRef.current.api.setGridOption("datasource", createDatasource());
+      }
+    },
+    [createDatasource]
+  );
 
   // 새로고침
   const handleRefresh = useCallback(() => {
@@ -251,7 +237,8 @@ export const InfiniteScrollVirtualGridPage: React.FC = () => {
   }, []);
 
   // 진행률 계산
-  const progressPercent = Math.round((loadedRows / TOTAL_ROWS) * 100);
+  const progressPercent =
+    totalRows > 0 ? Math.round((loadedRows / totalRows) * 100) : 0;
 
   return (
     <div className="space-y-6 sds-animate-fade-in">
@@ -269,6 +256,11 @@ export const InfiniteScrollVirtualGridPage: React.FC = () => {
             페이징을 시뮬레이션합니다. 스크롤하면 자동으로 다음 데이터 청크를
             로드합니다.
           </p>
+          <p className="mt-2">
+            다음 블록은 직전 응답의 <code>nextCursor</code>로 조회하는{" "}
+            <strong>커서(keyset) 페이지네이션</strong>을 사용하여, 깊이
+            스크롤해도 OFFSET 스캔 비용이 늘어나지 않습니다.
+          </p>
         </CardBody>
       </Card>
 
@@ -325,7 +317,7 @@ export const InfiniteScrollVirtualGridPage: React.FC = () => {
           <div className="flex items-center justify-between mb-2">
             <span className="text-sm font-medium">
               로드된 데이터: {formatCellNumber(loadedRows)} /{" "}
-              {formatCellNumber(TOTAL_ROWS)}
+              {formatCellNumber(totalRows)}
             </span>
             <Badge variant={progressPercent === 100 ? "success" : "primary"}>
               {progressPercent}%
@@ -346,7 +338,7 @@ export const InfiniteScrollVirtualGridPage: React.FC = () => {
           <CardTitle className="text-sm flex items-center gap-2">
             대용량 매출 데이터
             <span className="text-xs font-normal text-softone-text-muted">
-              (총 {formatCellNumber(TOTAL_ROWS)}건)
+              (총 {formatCellNumber(totalRows)}건)
             </span>
           </CardTitle>
         </CardHeader>
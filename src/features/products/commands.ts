@@ -0,0 +1,35 @@
+/**
+ * SoftOne Design System - Products Commands
+ * 명령 팔레트(Ctrl + K)에 상품 관련 명령 등록
+ *
+ * Shell 시작 시 registerProductCommands()를 호출합니다.
+ * 권한(ACTION_PRODUCTS_CREATE)이 없는 사용자에게는 명령이 표시되지 않습니다.
+ */
+
+import { PackagePlus } from "lucide-react";
+import { registerCommands } from "@core/store/commandStore";
+import { PERMISSION_KEYS } from "@core/auth/role.types";
+import { getPathByRouteKey } from "@core/router/routeRegistry";
+import { useProductStore } from "./store/productStore";
+
+/**
+ * 상품 명령 등록
+ * @returns 등록한 명령을 해제하는 함수
+ */
+export function registerProductCommands(): () => void {
+  return registerCommands([
+    {
+      id: "products.create",
+      label: "상품 등록",
+      group: "상품",
+      keywords: ["new product", "상품 추가"],
+      icon: PackagePlus,
+      requiredPermissions: [PERMISSION_KEYS.ACTION_PRODUCTS_CREATE],
+      run: ({ navigation }) => {
+        // 상품 화면의 등록 모달은 store 상태이므로 이동 전에 열어도 유지됨
+        useProductStore.getState().openCreateModal();
+        navigation.push(getPathByRouteKey("products.crud") ?? "/products");
+      },
+    },
+  ]);
+}
@@ -8,9 +8,11 @@ export * from "./model/product.types";
 // Store
 export { useProductStore, generateMockProducts } from "./store/productStore";
 
+// Commands (명령 팔레트)
+export { registerProductCommands } from "./commands";
+
 // Components
 export { ProductForm } from "./ui/ProductForm";
 
 // Pages
 export { ProductCrudPage } from "./pages/ProductCrudPage";
-
@@ -7,7 +7,7 @@
  *   - 상품 등록 (Modal + Form)
  *   - 상품 수정 (Modal + Form)
  *   - 상품 삭제 (ConfirmDialog)
- *   - 상품 상세 보기 (Drawer)
+ *   - 상품 상세 보기 (Drawer, URL 딥 링크 ?dialog=productDetail:상품ID)
  *   - 필터 및 검색
  */
 
@@ -24,11 +24,16 @@ import { Badge } from "@core/components/ui/Badge";
 import { Input } from "@core/components/ui/Input";
 import { Select } from "@core/components/ui/Select";
 import { DataTable } from "@core/components/ui/DataTable";
-import { Pagination } from "@core/components/ui/Pagination";
 import { BaseModal } from "@core/components/ui/BaseModal";
 import { ConfirmDialog } from "@core/components/ui/ConfirmDialog";
-import { Drawer } from "@core/components/ui/Drawer";
 import { useToast } from "@core/hooks/useToast";
+import { useDialogDeepLink } from "@core/hooks/useDialogDeepLink";
+import { useDialogStore } from "@core/store/dialogStore";
+import {
+  useUnsavedChangesStore,
+  inGuardScope,
+} from "@core/store/unsavedChangesStore";
+import { ApiError } from "@core/api/apiError";
 import { formatCellCurrency, formatCellDate } from "@core/utils/gridUtils";
 import {
   Package,
@@ -56,6 +61,205 @@ import {
 import { useProductStore, generateMockProducts } from "../store/productStore";
 import { ProductForm } from "../ui/ProductForm";
 
+/** 상세 보기 다이얼로그 키 (URL ?dialog=productDetail:상품ID) */
+const PRODUCT_DETAIL_DIALOG_KEY = "productDetail";
+
+/** 등록/수정 폼의 저장하지 않은 변경 사항 가드 범위 */
+const PRODUCT_FORM_GUARD_SCOPE = "products.form";
+
+// ========================================
+// 상태 아이콘/배지
+// ========================================
+
+const getStatusBadge = (status: Product["status"]) => {
+  const config: Record<
+    Product["status"],
+    {
+      variant: "success" | "warning" | "danger" | "neutral";
+      icon: React.ReactNode;
+    }
+  > = {
+    ACTIVE: {
+      variant: "success",
+      icon: <CheckCircle className="w-3 h-3" />,
+    },
+    INACTIVE: {
+      variant: "neutral",
+      icon: <Clock className="w-3 h-3" />,
+    },
+    OUT_OF_STOCK: {
+      variant: "warning",
+      icon: <AlertTriangle className="w-3 h-3" />,
+    },
+    DISCONTINUED: {
+      variant: "danger",
+      icon: <XCircle className="w-3 h-3" />,
+    },
+  };
+  const { variant, icon } = config[status];
+  return (
+    <Badge variant={variant} size="sm" className="flex items-center gap-1">
+      {icon}
+      {PRODUCT_STATUS_LABELS[status]}
+    </Badge>
+  );
+};
+
+// ========================================
+// 상품 상세 (Drawer 내용)
+// ========================================
+
+interface ProductDetailContentProps {
+  product: Product;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+const ProductDetailContent: React.FC<ProductDetailContentProps> = ({
+  product,
+  onEdit,
+  onDelete,
+}) => (
+  <div className="space-y-6">
+    {/* 기본 정보 */}
+    <div className="space-y-4">
+      <h3 className="text-sm font-semibold border-b pb-2">기본 정보</h3>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <div className="text-xs text-softone-text-muted">상품코드</div>
+          <div className="font-mono">{product.code}</div>
+        </div>
+        <div>
+          <div className="text-xs text-softone-text-muted">상태</div>
+          <div>{getStatusBadge(product.status)}</div>
+        </div>
+        <div className="col-span-2">
+          <div className="text-xs text-softone-text-muted">상품명</div>
+          <div className="font-medium text-lg">{product.name}</div>
+        </div>
+        <div>
+          <div className="text-xs text-softone-text-muted">카테고리</div>
+          <div>{PRODUCT_CATEGORY_LABELS[product.category]}</div>
+        </div>
+        <div>
+          <div className="text-xs text-softone-text-muted">단위</div>
+          <div>{product.unit}</div>
+        </div>
+      </div>
+    </div>
+
+    {/* 가격 정보 */}
+    <div className="space-y-4">
+      <h3 className="text-sm font-semibold border-b pb-2">가격 정보</h3>
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <div className="text-xs text-softone-text-muted">판매가</div>
+          <div className="font-bold text-lg text-softone-primary">
+            {formatCellCurrency(product.price)}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-softone-text-muted">원가</div>
+          <div>{formatCellCurrency(product.costPrice)}</div>
+        </div>
+        <div>
+          <div className="text-xs text-softone-text-muted">마진</div>
+          <div className="text-green-600">
+            {formatCellCurrency(product.price - product.costPrice)}
+          </div>
+        </div>
+      </div>
+    </div>
+
+    {/* 재고 정보 */}
+    <div className="space-y-4">
+      <h3 className="text-sm font-semibold border-b pb-2">재고 정보</h3>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <div className="text-xs text-softone-text-muted">현재 재고</div>
+          <div
+            className={`font-bold text-lg ${
+              product.stock <= product.minStock ? "text-red-600" : ""
+            }`}
+          >
+            {product.stock.toLocaleString()} {product.unit}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-softone-text-muted">최소 재고</div>
+          <div>
+            {product.minStock.toLocaleString()} {product.unit}
+          </div>
+        </div>
+      </div>
+      {product.stock <= product.minStock && (
+        <div className="flex items-center gap-2 p-3 bg-red-50 text-red-700 rounded-lg">
+          <AlertTriangle className="w-5 h-5" />
+          <span className="text-sm">
+            재고가 최소 수량 이하입니다. 발주가 필요합니다.
+          </span>
+        </div>
+      )}
+    </div>
+
+    {/* 설명 */}
+    <div className="space-y-4">
+      <h3 className="text-sm font-semibold border-b pb-2">상품 설명</h3>
+      <p className="text-sm text-softone-text-secondary">
+        {product.description || "설명이 없습니다."}
+      </p>
+    </div>
+
+    {/* 태그 */}
+    {product.tags.length > 0 && (
+      <div className="space-y-4">
+        <h3 className="text-sm font-semibold border-b pb-2">태그</h3>
+        <div className="flex flex-wrap gap-2">
+          {product.tags.map((tag) => (
+            <Badge key={tag} variant="info" size="sm">
+              {tag}
+            </Badge>
+          ))}
+        </div>
+      </div>
+    )}
+
+    {/* 날짜 정보 */}
+    <div className="space-y-4">
+      <h3 className="text-sm font-semibold border-b pb-2">등록/수정 정보</h3>
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <div>
+          <div className="text-xs text-softone-text-muted">등록일</div>
+          <div>{formatCellDate(product.createdAt)}</div>
+        </div>
+        <div>
+          <div className="text-xs text-softone-text-muted">수정일</div>
+          <div>{formatCellDate(product.updatedAt)}</div>
+        </div>
+      </div>
+    </div>
+
+    {/* 액션 버튼 */}
+    <div className="flex gap-3 pt-4 border-t">
+      <Button
+        variant="primary"
+        onClick={onEdit}
+        leftIcon={<Edit className="w-4 h-4" />}
+        className="flex-1"
+      >
+        수정
+      </Button>
+      <Button
+        variant="danger"
+        onClick={onDelete}
+        leftIcon={<Trash2 className="w-4 h-4" />}
+      >
+        삭제
+      </Button>
+    </div>
+  </div>
+);
+
 // ========================================
 // ProductCrudPage Component
 // ========================================
@@ -71,7 +275,6 @@ export const ProductCrudPage: React.FC = () => {
     selectedProduct,
     isFormModalOpen,
     isDeleteModalOpen,
-    isDetailModalOpen,
     formMode,
     pagination,
     setProducts,
@@ -84,13 +287,15 @@ export const ProductCrudPage: React.FC = () => {
     openCreateModal,
     openEditModal,
     openDeleteModal,
-    openDetailModal,
     closeModal,
     setPage,
     setPageSize,
     getFilteredProducts,
   } = useProductStore();
 
+  const openDialog = useDialogStore((state) => state.openDialog);
+  const closeDialog = useDialogStore((state) => state.closeDialog);
+
   // StrictMode 중복 방지용 ref
   const isDataLoadedRef = useRef(false);
   const loadingRef = useRef(false);
@@ -125,22 +330,36 @@ export const ProductCrudPage: React.FC = () => {
     [getFilteredProducts, products, filter]
   );
 
-  // 페이지네이션된 상품 목록
-  const paginatedProducts = useMemo(() => {
-    const start = (pagination.page - 1) * pagination.pageSize;
-    const end = start + pagination.pageSize;
-    return filteredProducts.slice(start, end);
-  }, [filteredProducts, pagination.page, pagination.pageSize]);
-
-  // 총 페이지 수
-  const totalPages = Math.ceil(filteredProducts.length / pagination.pageSize);
-
   // ========================================
   // CRUD 핸들러
   // ========================================
 
+  /**
+   * 상품코드 중복 검사
+   * 서버 409 응답과 동일한 ApiError를 던져 ProductForm의 필드 오류로 표시합니다.
+   */
+  const assertUniqueCode = useCallback(
+    (code: string, excludeId?: string) => {
+      const duplicated = products.some(
+        (product) => product.code === code && product.id !== excludeId
+      );
+      if (!duplicated) return;
+
+      throw new ApiError({
+        status: 409,
+        code: "DUPLICATE_CODE",
+        message: "이미 사용 중인 상품코드입니다.",
+        fieldErrors: [
+          { field: "code", message: "이미 사용 중인 상품코드입니다." },
+        ],
+      });
+    },
+    [products]
+  );
+
   const handleCreateProduct = useCallback(
     (data: ProductFormData) => {
+      assertUniqueCode(data.code);
       const newProduct: Product = {
         ...data,
         id: `PRD-${Date.now()}`,
@@ -151,17 +370,18 @@ export const ProductCrudPage: React.FC = () => {
       closeModal();
       toast.success("상품이 등록되었습니다.");
     },
-    [addProduct, closeModal, toast]
+    [assertUniqueCode, addProduct, closeModal, toast]
   );
 
   const handleUpdateProduct = useCallback(
     (data: ProductFormData) => {
       if (!selectedProduct) return;
+      assertUniqueCode(data.code, selectedProduct.id);
       updateProduct(selectedProduct.id, data);
       closeModal();
       toast.success("상품이 수정되었습니다.");
     },
-    [selectedProduct, updateProduct, closeModal, toast]
+    [selectedProduct, assertUniqueCode, updateProduct, closeModal, toast]
   );
 
   const handleDeleteProduct = useCallback(() => {
@@ -171,6 +391,14 @@ export const ProductCrudPage: React.FC = () => {
     toast.success("상품이 삭제되었습니다.");
   }, [selectedProduct, deleteProduct, closeModal, toast]);
 
+  // 입력 중이면 변경 내용 버리기 확인 후 닫기 (저장 성공 시에는 바로 닫음)
+  const handleCloseFormModal = useCallback(async () => {
+    const confirmed = await useUnsavedChangesStore
+      .getState()
+      .confirmDiscardChanges(inGuardScope(PRODUCT_FORM_GUARD_SCOPE));
+    if (confirmed) closeModal();
+  }, [closeModal]);
+
   const handleFormSubmit = useCallback(
     (data: ProductFormData) => {
       if (formMode === "create") {
@@ -183,42 +411,49 @@ export const ProductCrudPage: React.FC = () => {
   );
 
   // ========================================
-  // 상태 아이콘/배지
+  // 상세 보기 (URL 딥 링크 Drawer)
   // ========================================
 
-  const getStatusBadge = (status: Product["status"]) => {
-    const config: Record<
-      Product["status"],
-      {
-        variant: "success" | "warning" | "danger" | "neutral";
-        icon: React.ReactNode;
-      }
-    > = {
-      ACTIVE: {
-        variant: "success",
-        icon: <CheckCircle className="w-3 h-3" />,
-      },
-      INACTIVE: {
-        variant: "neutral",
-        icon: <Clock className="w-3 h-3" />,
-      },
-      OUT_OF_STOCK: {
-        variant: "warning",
-        icon: <AlertTriangle className="w-3 h-3" />,
-      },
-      DISCONTINUED: {
-        variant: "danger",
-        icon: <XCircle className="w-3 h-3" />,
-      },
-    };
-    const { variant, icon } = config[status];
-    return (
-      <Badge variant={variant} size="sm" className="flex items-center gap-1">
-        {icon}
-        {PRODUCT_STATUS_LABELS[status]}
-      </Badge>
-    );
-  };
+  /** ?dialog=productDetail:상품ID 로 공유/북마크하고, 뒤로 가기로 닫습니다. */
+  const openProductDetail = useCallback(
+    (product: Product) => {
+      const dialogId = `${PRODUCT_DETAIL_DIALOG_KEY}-${product.id}`;
+      openDialog({
+        id: dialogId,
+        type: "drawer",
+        title: "상품 상세",
+        width: "480px",
+        formKey: PRODUCT_DETAIL_DIALOG_KEY,
+        payload: product,
+        deepLink: true,
+        content: (
+          <ProductDetailContent
+            product={product}
+            onEdit={() => {
+              closeDialog(dialogId);
+              openEditModal(product);
+            }}
+            onDelete={() => {
+              closeDialog(dialogId);
+              openDeleteModal(product);
+            }}
+          />
+        ),
+      });
+    },
+    [openDialog, closeDialog, openEditModal, openDeleteModal]
+  );
+
+  // 상세 보기 URL로 들어오면 상품 로딩 후 다시 열기
+  useDialogDeepLink(
+    PRODUCT_DETAIL_DIALOG_KEY,
+    (id) => {
+      const product = products.find((item) => item.id === id);
+      if (!product) return false;
+      openProductDetail(product);
+    },
+    { enabled: !isLoading && products.length > 0 }
+  );
 
   // ========================================
   // 테이블 컬럼
@@ -229,6 +464,7 @@ export const ProductCrudPage: React.FC = () => {
       {
         key: "code",
         header: "상품코드",
+        sortable: true,
         width: "120px",
         render: (product: Product) => (
           <span className="font-mono text-xs">{product.code}</span>
@@ -237,6 +473,7 @@ export const ProductCrudPage: React.FC = () => {
       {
         key: "name",
         header: "상품명",
+        sortable: true,
         render: (product: Product) => (
           <div>
             <div className="font-medium">{product.name}</div>
@@ -249,6 +486,7 @@ export const ProductCrudPage: React.FC = () => {
       {
         key: "category",
         header: "카테고리",
+        sortable: true,
         width: "100px",
         render: (product: Product) => (
           <Badge variant="neutral" size="sm">
@@ -259,6 +497,7 @@ export const ProductCrudPage: React.FC = () => {
       {
         key: "price",
         header: "판매가",
+        sortable: true,
         width: "120px",
         align: "right" as const,
         render: (product: Product) => (
@@ -270,6 +509,7 @@ export const ProductCrudPage: React.FC = () => {
       {
         key: "stock",
         header: "재고",
+        sortable: true,
         width: "80px",
         align: "right" as const,
         render: (product: Product) => (
@@ -293,6 +533,7 @@ export const ProductCrudPage: React.FC = () => {
       {
         key: "createdAt",
         header: "등록일",
+        sortable: true,
         width: "100px",
         render: (product: Product) => (
           <span className="text-sm text-softone-text-muted">
@@ -309,7 +550,7 @@ export const ProductCrudPage: React.FC = () => {
             <Button
               variant="ghost"
               size="sm"
-              onClick={() => openDetailModal(product)}
+              onClick={() => openProductDetail(product)}
               className="p-1"
             >
               <Eye className="w-4 h-4" />
@@ -334,7 +575,7 @@ export const ProductCrudPage: React.FC = () => {
         ),
       },
     ],
-    [openDetailModal, openEditModal, openDeleteModal]
+    [openProductDetail, openEditModal, openDeleteModal]
   );
 
   return (
@@ -436,7 +677,24 @@ export const ProductCrudPage: React.FC = () => {
 
       {/* 상품 목록 */}
       <Card>
-        <CardHeader>
+        <CardHeader
+          actions={
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-softone-text-muted">페이지당</span>
+              <Select
+                value={String(pagination.pageSize)}
+                onChange={(e) => setPageSize(Number(e.target.value))}
+                className="w-20"
+                options={[
+                  { value: "10", label: "10" },
+                  { value: "20", label: "20" },
+                  { value: "50", label: "50" },
+                  { value: "100", label: "100" },
+                ]}
+              />
+            </div>
+          }
+        >
           <CardTitle className="text-sm flex items-center gap-2">
             상품 목록
             <Badge variant="neutral" size="sm">
@@ -446,51 +704,34 @@ export const ProductCrudPage: React.FC = () => {
         </CardHeader>
         <CardBody className="p-0">
           <DataTable
-            data={paginatedProducts}
+            data={filteredProducts}
             columns={columns}
             loading={isLoading}
             emptyMessage="등록된 상품이 없습니다."
             striped
             hoverable
+            bordered={false}
+            pagination={{
+              page: pagination.page,
+              pageSize: pagination.pageSize,
+            }}
+            onPaginationChange={({ page }) => setPage(page)}
           />
         </CardBody>
-        {totalPages > 1 && (
-          <div className="p-4 border-t flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <span className="text-sm text-softone-text-muted">페이지당</span>
-              <Select
-                value={String(pagination.pageSize)}
-                onChange={(e) => setPageSize(Number(e.target.value))}
-                className="w-20"
-                options={[
-                  { value: "10", label: "10" },
-                  { value: "20", label: "20" },
-                  { value: "50", label: "50" },
-                  { value: "100", label: "100" },
-                ]}
-              />
-            </div>
-            <Pagination
-              page={pagination.page}
-              total={totalPages}
-              pageSize={pagination.pageSize}
-              onChange={setPage}
-            />
-          </div>
-        )}
       </Card>
 
       {/* 등록/수정 모달 */}
       <BaseModal
         isOpen={isFormModalOpen}
-        onClose={closeModal}
+        onClose={handleCloseFormModal}
         title={formMode === "create" ? "상품 등록" : "상품 수정"}
         size="lg"
       >
         <ProductForm
           product={selectedProduct}
           onSubmit={handleFormSubmit}
-          onCancel={closeModal}
+          onCancel={handleCloseFormModal}
+          guardScope={PRODUCT_FORM_GUARD_SCOPE}
         />
       </BaseModal>
 
@@ -508,179 +749,6 @@ export const ProductCrudPage: React.FC = () => {
         confirmText="삭제"
         confirmVariant="danger"
       />
-
-      {/* 상세 보기 Drawer */}
-      <Drawer
-        isOpen={isDetailModalOpen}
-        onClose={closeModal}
-        title="상품 상세"
-        size="md"
-      >
-        {selectedProduct && (
-          <div className="space-y-6">
-            {/* 기본 정보 */}
-            <div className="space-y-4">
-              <h3 className="text-sm font-semibold border-b pb-2">기본 정보</h3>
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <div className="text-xs text-softone-text-muted">
-                    상품코드
-                  </div>
-                  <div className="font-mono">{selectedProduct.code}</div>
-                </div>
-                <div>
-                  <div className="text-xs text-softone-text-muted">상태</div>
-                  <div>{getStatusBadge(selectedProduct.status)}</div>
-                </div>
-                <div className="col-span-2">
-                  <div className="text-xs text-softone-text-muted">상품명</div>
-                  <div className="font-medium text-lg">
-                    {selectedProduct.name}
-                  </div>
-                </div>
-                <div>
-                  <div className="text-xs text-softone-text-muted">
-                    카테고리
-                  </div>
-                  <div>{PRODUCT_CATEGORY_LABELS[selectedProduct.category]}</div>
-                </div>
-                <div>
-                  <div className="text-xs text-softone-text-muted">단위</div>
-                  <div>{selectedProduct.unit}</div>
-                </div>
-              </div>
-            </div>
-
-            {/* 가격 정보 */}
-            <div className="space-y-4">
-              <h3 className="text-sm font-semibold border-b pb-2">가격 정보</h3>
-              <div className="grid grid-cols-3 gap-4">
-                <div>
-                  <div className="text-xs text-softone-text-muted">판매가</div>
-                  <div className="font-bold text-lg text-softone-primary">
-                    {formatCellCurrency(selectedProduct.price)}
-                  </div>
-                </div>
-                <div>
-                  <div className="text-xs text-softone-text-muted">원가</div>
-                  <div>{formatCellCurrency(selectedProduct.costPrice)}</div>
-                </div>
-                <div>
-                  <div className="text-xs text-softone-text-muted">마진</div>
-                  <div className="text-green-600">
-                    {formatCellCurrency(
-                      selectedProduct.price - selectedProduct.costPrice
-                    )}
-                  </div>
-                </div>
-              </div>
-            </div>
-
-            {/* 재고 정보 */}
-            <div className="space-y-4">
-              <h3 className="text-sm font-semibold border-b pb-2">재고 정보</h3>
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <div className="text-xs text-softone-text-muted">
-                    현재 재고
-                  </div>
-                  <div
-                    className={`font-bold text-lg ${
-                      selectedProduct.stock <= selectedProduct.minStock
-                        ? "text-red-600"
-                        : ""
-                    }`}
-                  >
-                    {selectedProduct.stock.toLocaleString()}{" "}
-                    {selectedProduct.unit}
-                  </div>
-                </div>
-                <div>
-                  <div className="text-xs text-softone-text-muted">
-                    최소 재고
-                  </div>
-                  <div>
-                    {selectedProduct.minStock.toLocaleString()}{" "}
-                    {selectedProduct.unit}
-                  </div>
-                </div>
-              </div>
-              {selectedProduct.stock <= selectedProduct.minStock && (
-                <div className="flex items-center gap-2 p-3 bg-red-50 text-red-700 rounded-lg">
-                  <AlertTriangle className="w-5 h-5" />
-                  <span className="text-sm">
-                    재고가 최소 수량 이하입니다. 발주가 필요합니다.
-                  </span>
-                </div>
-              )}
-            </div>
-
-            {/* 설명 */}
-            <div className="space-y-4">
-              <h3 className="text-sm font-semibold border-b pb-2">상품 설명</h3>
-              <p className="text-sm text-softone-text-secondary">
-                {selectedProduct.description || "설명이 없습니다."}
-              </p>
-            </div>
-
-            {/* 태그 */}
-            {selectedProduct.tags.length > 0 && (
-              <div className="space-y-4">
-                <h3 className="text-sm font-semibold border-b pb-2">태그</h3>
-                <div className="flex flex-wrap gap-2">
-                  {selectedProduct.tags.map((tag) => (
-                    <Badge key={tag} variant="info" size="sm">
-                      {tag}
-                    </Badge>
-                  ))}
-                </div>
-              </div>
-            )}
-
-            {/* 날짜 정보 */}
-            <div className="space-y-4">
-              <h3 className="text-sm font-semibold border-b pb-2">
-                등록/수정 정보
-              </h3>
-              <div className="grid grid-cols-2 gap-4 text-sm">
-                <div>
-                  <div className="text-xs text-softone-text-muted">등록일</div>
-                  <div>{formatCellDate(selectedProduct.createdAt)}</div>
-                </div>
-                <div>
-                  <div className="text-xs text-softone-text-muted">수정일</div>
-                  <div>{formatCellDate(selectedProduct.updatedAt)}</div>
-                </div>
-              </div>
-            </div>
-
-            {/* 액션 버튼 */}
-            <div className="flex gap-3 pt-4 border-t">
-              <Button
-                variant="primary"
-                onClick={() => {
-                  closeModal();
-                  openEditModal(selectedProduct);
-                }}
-                leftIcon={<Edit className="w-4 h-4" />}
-                className="flex-1"
-              >
-                수정
-              </Button>
-              <Button
-                variant="danger"
-                onClick={() => {
-                  closeModal();
-                  openDeleteModal(selectedProduct);
-                }}
-                leftIcon={<Trash2 className="w-4 h-4" />}
-              >
-                삭제
-              </Button>
-            </div>
-          </div>
-        )}
-      </Drawer>
     </div>
   );
 };
@@ -7,6 +7,8 @@
  *   - 실시간 에러 표시
  *   - 자동완성/포맷팅
  *   - 수정 모드 지원
+ *   - 제출 실패 시 서버 필드 오류(ApiError) 표시
+ *   - 저장하지 않은 변경 사항 가드 (guardScope로 모달 닫기 확인)
  */
 
 import React, { useEffect } from "react";
@@ -20,6 +22,8 @@ import { Select } from "@core/components/ui/Select";
 import { Button } from "@core/components/ui/Button";
 import { Badge } from "@core/components/ui/Badge";
 import { Save, X, Plus, Trash2 } from "lucide-react";
+import { handleApiError } from "@core/api/apiErrorHandler";
+import { useUnsavedChangesGuard } from "@core/hooks/useUnsavedChangesGuard";
 
 import type {
   Product,
@@ -97,12 +101,14 @@ const productSchema = z.object({
 interface ProductFormProps {
   /** 수정할 상품 (없으면 등록 모드) */
   product?: Product | null;
-  /** 폼 제출 핸들러 */
-  onSubmit: (data: ProductFormData) => void;
+  /** 폼 제출 핸들러 (throw 하면 필드 오류/토스트로 표시) */
+  onSubmit: (data: ProductFormData) => void | Promise<void>;
   /** 취소 핸들러 */
   onCancel: () => void;
   /** 로딩 상태 */
   isLoading?: boolean;
+  /** 저장하지 않은 변경 사항 가드 범위 (모달 닫기 전 inGuardScope로 확인) */
+  guardScope?: string;
 }
 
 // ========================================
@@ -114,6 +120,7 @@ export const ProductForm: React.FC<ProductFormProps> = ({
   onSubmit,
   onCancel,
   isLoading = false,
+  guardScope,
 }) => {
   const isEditMode = !!product;
 
@@ -124,6 +131,7 @@ export const ProductForm: React.FC<ProductFormProps> = ({
     reset,
     watch,
     setValue,
+    setError,
     formState: { errors, isDirty },
   } = useForm<ProductFormData>({
     resolver: zodResolver(productSchema),
@@ -145,6 +153,9 @@ export const ProductForm: React.FC<ProductFormProps> = ({
       : DEFAULT_PRODUCT_FORM,
   });
 
+  // 입력 중 화면 이동/탭 닫기/모달 닫기 시 확인
+  useUnsavedChangesGuard(isDirty, { scope: guardScope });
+
   // 수정 모드일 때 폼 초기화
   useEffect(() => {
     if (product) {
@@ -192,8 +203,12 @@ export const ProductForm: React.FC<ProductFormProps> = ({
   const margin = price - costPrice;
   const marginRate = price > 0 ? ((margin / price) * 100).toFixed(1) : "0";
 
-  const handleFormSubmit = (data: ProductFormData) => {
-    onSubmit(data);
+  const handleFormSubmit = async (data: ProductFormData) => {
+    try {
+      await onSubmit(data);
+    } catch (error) {
+      handleApiError(error, { setError });
+    }
   };
 
   return (
@@ -6,9 +6,11 @@
  *
  * Schedule API
  * - useScheduleEventsQuery: 일정 목록 조회
+ * - scheduleRouteLoader: 화면 진입 전 일정 목록 프리페치
  */
 
 import { useQuery } from "@tanstack/react-query";
+import type { RouteLoader } from "@core/router/routeLoader";
 import type {
   ScheduleEvent,
   ScheduleListParams,
@@ -222,3 +224,17 @@ export const useScheduleEventDetailQuery = (id: string, enabled = true) => {
   });
 };
 
+// ========================================
+// Route Loader
+// ========================================
+
+/**
+ * 일정 라우트 로더 (SchedulePage의 전체 일정 조회)
+ */
+export const scheduleRouteLoader: RouteLoader = () => [
+  {
+    queryKey: SCHEDULE_QUERY_KEYS.list(),
+    queryFn: () => getScheduleEvents(),
+    staleTime: 1000 * 60 * 5,
+  },
+];
@@ -7,6 +7,7 @@ export { SchedulePage } from "./pages/SchedulePage";
 export {
   useScheduleEventsQuery,
   useScheduleEventDetailQuery,
+  scheduleRouteLoader,
   SCHEDULE_QUERY_KEYS,
 } from "./api/scheduleApi";
 export type {
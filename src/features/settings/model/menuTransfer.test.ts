@@ -0,0 +1,203 @@
+/**
+ * SoftOne Design System(SDS) - menuTransfer 테스트
+ * 작성: SoftOne Frontend Team
+ * 설명: 메뉴 내보내기/가져오기의 검증, id 충돌 해결, 변경 내역 비교 테스트.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  createMenuExport,
+  diffMenuImport,
+  findMenuIdConflicts,
+  parseMenuExport,
+  resolveMenuImport,
+  validateMenuImport,
+  MenuImportParseError,
+  type MenuExportFile,
+} from "./menuTransfer";
+import { buildMenuItemTree, type MenuItem } from "@core/store/menuStore";
+
+const menu = (item: Partial<MenuItem> & { id: string }): MenuItem => ({
+  parentId: null,
+  label: item.id,
+  path: `/${item.id}`,
+  roles: [],
+  order: 0,
+  isActive: true,
+  version: 1,
+  ...item,
+});
+
+const groups = [{ id: "main", label: "", order: 0 }];
+
+const current: MenuItem[] = [
+  menu({ id: "work", label: "업무", path: "/work" }),
+  menu({
+    id: "users",
+    parentId: "work",
+    label: "사용자",
+    routeKey: "users.list",
+    path: "/users",
+  }),
+  menu({ id: "help", label: "도움말", path: "/help", order: 1, version: 3 }),
+];
+
+const context = {
+  routeKeys: ["users.list", "dashboard.main"],
+  isKnownIcon: (name: string) => name === "Users",
+  maxDepth: 3,
+};
+
+const exportOf = (menus: MenuItem[]): MenuExportFile =>
+  createMenuExport(buildMenuItemTree(menus), groups, new Date(0));
+
+describe("menuTransfer", () => {
+  // ========================================
+  // createMenuExport / parseMenuExport
+  // ========================================
+  describe("parseMenuExport", () => {
+    it("내보낸 파일을 그대로 다시 읽습니다", () => {
+      const file = exportOf(current);
+      expect(file.menus).toHaveLength(3);
+      expect(file.menus[0]).not.toHaveProperty("version");
+      expect(parseMenuExport(JSON.stringify(file))).toEqual(file);
+    });
+
+    it("형식이 다르면 MenuImportParseError를 던집니다", () => {
+      expect(() => parseMenuExport("{")).toThrow(MenuImportParseError);
+      expect(() => parseMenuExport('{"format":"other"}')).toThrow(
+        "메뉴 내보내기 파일이 아닙니다."
+      );
+    });
+  });
+
+  // ========================================
+  // validateMenuImport
+  // ========================================
+  describe("validateMenuImport", () => {
+    it("알 수 없는 routeKey/부모는 오류, 알 수 없는 아이콘은 경고입니다", () => {
+      const file = exportOf([
+        menu({ id: "a", routeKey: "unknown.page", icon: "Rocket" }),
+        menu({ id: "b", parentId: "missing" }),
+      ]);
+
+      const issues = validateMenuImport(file, context);
+      expect(issues.map((issue) => [issue.level, issue.menuId])).toEqual([
+        ["error", "a"],
+        ["warning", "a"],
+        ["error", "b"],
+      ]);
+    });
+
+    it("최대 깊이를 넘으면 오류입니다", () => {
+      const file = exportOf([
+        menu({ id: "d1" }),
+        menu({ id: "d2", parentId: "d1" }),
+        menu({ id: "d3", parentId: "d2" }),
+        menu({ id: "d4", parentId: "d3" }),
+      ]);
+      expect(validateMenuImport(file, context)).toEqual([
+        expect.objectContaining({ level: "error", menuId: "d4" }),
+      ]);
+    });
+
+    it("하위 메뉴를 가질 수 없는 부모(외부 링크) 아래의 메뉴는 오류입니다", () => {
+      const file = exportOf([
+        menu({ id: "docs", path: "https://docs.softone.com" }),
+        menu({ id: "guide", parentId: "docs" }),
+        // 화면에 연결된 메뉴도 하위 메뉴가 있으면 메뉴 그룹 (getMenuItemNodeType)
+        menu({ id: "users", routeKey: "users.list", path: "/users" }),
+        menu({ id: "users-child", parentId: "users" }),
+      ]);
+
+      expect(validateMenuImport(file, context)).toEqual([
+        expect.objectContaining({ level: "error", menuId: "guide" }),
+      ]);
+    });
+  });
+
+  // ========================================
+  // resolveMenuImport / diffMenuImport
+  // ========================================
+  describe("resolveMenuImport", () => {
+    it("다른 id라도 같은 routeKey면 현재 메뉴로 매칭합니다", () => {
+      const file = exportOf([
+        menu({ id: "work", label: "업무", path: "/work" }),
+        menu({
+          id: "user-list",
+          label: "사용자 목록",
+          routeKey: "users.list",
+          path: "/users",
+        }),
+      ]);
+
+      const resolved = resolveMenuImport(
+        current,
+        file,
+        {},
+        context.isKnownIcon
+      );
+      expect(resolved.map((item) => [item.id, item.version])).toEqual([
+        ["work", 1],
+        ["users", 1],
+      ]);
+
+      const diff = diffMenuImport(current, resolved, groups, groups);
+      expect(diff.map((entry) => [entry.kind, entry.id])).toEqual([
+        ["moved", "users"],
+        ["relabelled", "users"],
+        ["removed", "help"],
+      ]);
+    });
+
+    it("id 충돌은 선택한 방식으로 해결합니다", () => {
+      const file = exportOf([
+        menu({ id: "help", label: "공지", path: "/notice" }),
+        menu({ id: "faq", parentId: "help", path: "/faq" }),
+      ]);
+      expect(findMenuIdConflicts(current, file).map((c) => c.id)).toEqual([
+        "help",
+      ]);
+
+      const keepBoth = resolveMenuImport(
+        current,
+        file,
+        { help: "keep-both" },
+        context.isKnownIcon
+      );
+      expect(keepBoth.map((item) => [item.id, item.parentId])).toEqual([
+        ["help-import", null],
+        ["faq", "help-import"],
+        ["help", null],
+      ]);
+      // 현재 메뉴는 id/version/내용 그대로 유지 (서버에서 삭제되지 않음)
+      expect(keepBoth[2]).toMatchObject({
+        label: "도움말",
+        path: "/help",
+        order: 1,
+        version: 3,
+      });
+      expect(
+        diffMenuImport(current, keepBoth, groups, groups).filter(
+          (entry) => entry.kind === "removed"
+        )
+      ).toEqual([
+        expect.objectContaining({ id: "work" }),
+        expect.objectContaining({ id: "users" }),
+      ]);
+
+      const skip = resolveMenuImport(
+        current,
+        file,
+        { help: "skip" },
+        context.isKnownIcon
+      );
+      expect(skip[0]).toMatchObject({
+        id: "help",
+        label: "도움말",
+        path: "/help",
+        version: 3,
+      });
+    });
+  });
+});
@@ -0,0 +1,612 @@
+/**
+ * SoftOne Design System - Menu Transfer
+ * 메뉴 내보내기/가져오기 (환경 간 메뉴 이전)
+ *
+ * 흐름:
+ *   1. createMenuExport: 현재 메뉴/그룹을 JSON 파일 형식으로 변환
+ *   2. parseMenuExport: 파일 형식 확인 (형식이 다르면 MenuImportParseError)
+ *   3. validateMenuImport: routeKey/아이콘/부모/노드 타입/깊이 검증 (error가 있으면 적용 불가)
+ *   4. findMenuIdConflicts: 같은 id가 다른 화면을 가리키는 충돌 검출
+ *   5. resolveMenuImport: 충돌 해결 방식을 반영해 서버에 보낼 전체 메뉴 목록 생성
+ *   6. diffMenuImport: 현재 메뉴와 비교 (추가/삭제/이동/이름 변경/수정)
+ *
+ * 메뉴 매칭:
+ *   - id가 같고 같은 화면(routeKey, 없으면 path)을 가리키면 같은 메뉴
+ *   - id가 다르더라도 routeKey가 같은 메뉴가 하나뿐이면 같은 메뉴 (환경마다 서버 id가 다름)
+ */
+
+import {
+  flattenMenuItems,
+  MENU_ITEM_MOVE_RULES,
+  type MenuGroup,
+  type MenuItem,
+} from "@core/store/menuStore";
+import { getPathByRouteKey } from "@core/router/routeRegistry";
+
+// ========================================
+// Types
+// ========================================
+
+export const MENU_EXPORT_FORMAT = "sds-menu-export";
+export const MENU_EXPORT_VERSION = 1;
+
+/** 내보내는 메뉴 (평면 목록, version/children 제외) */
+export type MenuExportItem = Omit<MenuItem, "version" | "children">;
+
+export interface MenuExportFile {
+  format: typeof MENU_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  groups: MenuGroup[];
+  menus: MenuExportItem[];
+}
+
+export type MenuImportIssueLevel = "error" | "warning";
+
+export interface MenuImportIssue {
+  level: MenuImportIssueLevel;
+  menuId?: string;
+  message: string;
+}
+
+export interface MenuImportContext {
+  /** 라우트 레지스트리의 routeKey 목록 */
+  routeKeys: string[];
+  /** 등록된 아이콘 이름인지 */
+  isKnownIcon: (name: string) => boolean;
+  /** 메뉴 아이템 최대 깊이 */
+  maxDepth: number;
+}
+
+/**
+ * id 충돌 해결 방식
+ *   - overwrite: 가져온 메뉴로 덮어쓰기
+ *   - keep-both: 가져온 메뉴를 새 id로 추가하고, 현재 메뉴(와 하위 메뉴)도 id/version/위치 그대로 유지
+ *   - skip: 현재 메뉴 내용을 유지하고 위치만 가져온 구조를 따름
+ */
+export type MenuConflictResolution = "overwrite" | "keep-both" | "skip";
+
+export interface MenuIdConflict {
+  id: string;
+  current: MenuItem;
+  incoming: MenuExportItem;
+}
+
+export type MenuDiffKind =
+  | "added"
+  | "removed"
+  | "moved"
+  | "relabelled"
+  | "updated";
+
+export interface MenuDiffEntry {
+  kind: MenuDiffKind;
+  target: "menu" | "group";
+  id: string;
+  label: string;
+  detail?: string;
+}
+
+/** 파일 형식이 올바르지 않을 때 throw 되는 에러 */
+export class MenuImportParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MenuImportParseError";
+  }
+}
+
+// ========================================
+// Export / Parse
+// ========================================
+
+/**
+ * 메뉴 트리를 내보내기 파일로 변환
+ */
+export function createMenuExport(
+  menus: MenuItem[],
+  groups: MenuGroup[],
+  now: Date = new Date()
+): MenuExportFile {
+  return {
+    format: MENU_EXPORT_FORMAT,
+    version: MENU_EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    groups,
+    menus: flattenMenuItems(menus).map((menu) => {
+      const item: Partial<MenuItem> = { ...menu };
+      delete item.version;
+      return item as MenuExportItem;
+    }),
+  };
+}
+
+/**
+ * 내보내기 파일 파싱
+ *
+ * @throws MenuImportParseError JSON이 아니거나 형식/버전이 다른 경우
+ */
+export function parseMenuExport(text: string): MenuExportFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new MenuImportParseError("JSON 형식이 아닙니다.");
+  }
+
+  const file = data as Partial<MenuExportFile> | null;
+  if (!file || file.format !== MENU_EXPORT_FORMAT) {
+    throw new MenuImportParseError("메뉴 내보내기 파일이 아닙니다.");
+  }
+  if (file.version !== MENU_EXPORT_VERSION) {
+    throw new MenuImportParseError(
+      `지원하지 않는 파일 버전입니다. (${file.version})`
+    );
+  }
+  if (!Array.isArray(file.menus) || !Array.isArray(file.groups)) {
+    throw new MenuImportParseError("menus/groups 목록이 없습니다.");
+  }
+  const malformed = file.menus.find(
+    (menu) =>
+      !menu ||
+      typeof menu.id !== "string" ||
+      typeof menu.label !== "string" ||
+      !Array.isArray(menu.roles)
+  );
+  if (malformed !== undefined) {
+    throw new MenuImportParseError("id/label/roles가 없는 메뉴가 있습니다.");
+  }
+
+  return file as MenuExportFile;
+}
+
+// ========================================
+// Validation
+// ========================================
+
+/**
+ * 가져올 메뉴 검증
+ *   - error: 중복 id, 부모 누락/순환, 하위 메뉴를 가질 수 없는 부모(외부 링크 등),
+ *            이름 누락, 알 수 없는 routeKey, 경로 누락, 최대 깊이 초과
+ *   - warning: 알 수 없는 아이콘(아이콘 없이 가져옴), 없는 메뉴 그룹
+ */
+export function validateMenuImport(
+  file: MenuExportFile,
+  context: MenuImportContext
+): MenuImportIssue[] {
+  const issues: MenuImportIssue[] = [];
+  const error = (message: string, menuId?: string) =>
+    issues.push({ level: "error", menuId, message });
+  const warning = (message: string, menuId?: string) =>
+    issues.push({ level: "warning", menuId, message });
+
+  const byId = new Map<string, MenuExportItem>();
+  file.menus.forEach((menu) => {
+    if (byId.has(menu.id)) error(`id "${menu.id}"가 중복됩니다.`, menu.id);
+    byId.set(menu.id, menu);
+  });
+
+  const routeKeys = new Set(context.routeKeys);
+  const groupIds = new Set(file.groups.map((group) => group.id));
+
+  // 노드 타입 규칙은 메뉴 관리 화면의 이동 규칙과 같음 (getMenuItemNodeType)
+  const childrenOf = new Map<string, MenuExportItem[]>();
+  file.menus.forEach((menu) => {
+    if (!menu.parentId) return;
+    childrenOf.set(menu.parentId, [
+      ...(childrenOf.get(menu.parentId) ?? []),
+      menu,
+    ]);
+  });
+  const canHaveChildren = (menu: MenuExportItem) =>
+    MENU_ITEM_MOVE_RULES.canHaveChildren!({
+      ...menu,
+      version: 0,
+      children: (childrenOf.get(menu.id) ?? []).map((child) => ({
+        ...child,
+        version: 0,
+      })),
+    });
+
+  file.menus.forEach((menu) => {
+    const name = menu.label || menu.id;
+
+    if (!menu.label.trim())
+      error(`"${menu.id}" 메뉴 이름이 없습니다.`, menu.id);
+    if (menu.routeKey && !routeKeys.has(menu.routeKey)) {
+      error(`"${name}"의 화면(${menu.routeKey})을 찾을 수 없습니다.`, menu.id);
+    }
+    if (!menu.routeKey && !menu.path) {
+      error(`"${name}"에 연결된 화면이나 경로가 없습니다.`, menu.id);
+    }
+    if (menu.icon && !context.isKnownIcon(menu.icon)) {
+      warning(
+        `"${name}"의 아이콘(${menu.icon})을 알 수 없어 아이콘 없이 가져옵니다.`,
+        menu.id
+      );
+    }
+    if (!menu.parentId && menu.group && !groupIds.has(menu.group)) {
+      warning(
+        `"${name}"의 메뉴 그룹(${menu.group})이 파일에 없습니다.`,
+        menu.id
+      );
+    }
+
+    // 부모를 따라 올라가며 누락/순환/깊이 확인
+    let depth = 1;
+    let parentId = menu.parentId;
+    const visited = new Set([menu.id]);
+    while (parentId) {
+      const parent = byId.get(parentId);
+      if (!parent) {
+        error(`"${name}"의 부모 메뉴(${parentId})가 파일에 없습니다.`, menu.id);
+        return;
+      }
+      if (visited.has(parentId)) {
+        error(`"${name}"의 부모 관계가 순환합니다.`, menu.id);
+        return;
+      }
+      if (parentId === menu.parentId && !canHaveChildren(parent)) {
+        error(
+          `"${name}"의 부모 메뉴(${parentId})는 하위 메뉴를 가질 수 없습니다.`,
+          menu.id
+        );
+      }
+      visited.add(parentId);
+      depth += 1;
+      parentId = parent.parentId;
+    }
+    if (depth > context.maxDepth) {
+      error(
+        `"${name}"이(가) 최대 깊이(${context.maxDepth}단계)를 넘습니다.`,
+        menu.id
+      );
+    }
+  });
+
+  return issues;
+}
+
+// ========================================
+// Matching / Conflicts
+// ========================================
+
+const targetOf = (menu: MenuExportItem) =>
+  menu.routeKey ? `route:${menu.routeKey}` : `path:${menu.path}`;
+
+/**
+ * 가져온 메뉴 id → 현재 메뉴 (같은 메뉴로 판단되는 경우)
+ * id 충돌(같은 id, 다른 화면)은 매칭하지 않습니다.
+ */
+function matchMenus(
+  current: MenuItem[],
+  file: MenuExportFile
+): Map<string, MenuItem> {
+  const currentById = new Map(current.map((menu) => [menu.id, menu]));
+  const incomingIds = new Set(file.menus.map((menu) => menu.id));
+  const matched = new Map<string, MenuItem>();
+  const used = new Set<string>();
+
+  // 1) 같은 id + 같은 화면
+  file.menus.forEach((menu) => {
+    const same = currentById.get(menu.id);
+    if (same && targetOf(same) === targetOf(menu)) {
+      matched.set(menu.id, same);
+      used.add(same.id);
+    }
+  });
+
+  // 2) 다른 id + 같은 routeKey (현재/가져온 쪽 모두 하나뿐인 경우)
+  const countRouteKeys = (menus: MenuExportItem[]) =>
+    menus.reduce<Record<string, number>>((counts, menu) => {
+      if (menu.routeKey)
+        counts[menu.routeKey] = (counts[menu.routeKey] ?? 0) + 1;
+      return counts;
+    }, {});
+  const currentCounts = countRouteKeys(current);
+  const incomingCounts = countRouteKeys(file.menus);
+
+  file.menus.forEach((menu) => {
+    if (matched.has(menu.id) || currentById.has(menu.id) || !menu.routeKey) {
+      return;
+    }
+    if (currentCounts[menu.routeKey] !== 1) return;
+    if (incomingCounts[menu.routeKey] !== 1) return;
+
+    // 현재 id가 가져온 다른 메뉴의 id이면 매칭하지 않음 (id 중복 방지)
+    const same = current.find((item) => item.routeKey === menu.routeKey);
+    if (same && !used.has(same.id) && !incomingIds.has(same.id)) {
+      matched.set(menu.id, same);
+      used.add(same.id);
+    }
+  });
+
+  return matched;
+}
+
+/**
+ * id 충돌 검출 (같은 id가 현재 환경에서는 다른 화면을 가리킴)
+ */
+export function findMenuIdConflicts(
+  current: MenuItem[],
+  file: MenuExportFile
+): MenuIdConflict[] {
+  const currentById = new Map(current.map((menu) => [menu.id, menu]));
+
+  return file.menus.flatMap((incoming) => {
+    const same = currentById.get(incoming.id);
+    return same && targetOf(same) !== targetOf(incoming)
+      ? [{ id: incoming.id, current: same, incoming }]
+      : [];
+  });
+}
+
+// ========================================
+// Resolve
+// ========================================
+
+/**
+ * 충돌 해결 방식을 반영해 서버에 보낼 전체 메뉴(평면 목록)를 만듭니다.
+ *   - 같은 메뉴로 매칭되면 현재 id/version을 사용
+ *   - 알 수 없는 아이콘은 제거, routeKey가 있으면 경로는 레지스트리에서 조회
+ *   - keep-both 충돌의 현재 메뉴와 그 하위 메뉴(가져온 목록에 없는 것)는 그대로 포함
+ *     (서버 importMenus는 목록에 없는 메뉴를 삭제하므로)
+ *
+ * @param current 현재 메뉴 (평면 목록)
+ * @param resolutions 충돌 id별 해결 방식 (기본: overwrite)
+ */
+export function resolveMenuImport(
+  current: MenuItem[],
+  file: MenuExportFile,
+  resolutions: Record<string, MenuConflictResolution>,
+  isKnownIcon: (name: string) => boolean
+): MenuItem[] {
+  const matched = matchMenus(current, file);
+  const conflicts = new Map(
+    findMenuIdConflicts(current, file).map((conflict) => [
+      conflict.id,
+      conflict,
+    ])
+  );
+
+  const usedIds = new Set([
+    ...file.menus.map((menu) => menu.id),
+    ...current.map((menu) => menu.id),
+  ]);
+  const createId = (id: string) => {
+    let candidate = `${id}-import`;
+    for (let n = 2; usedIds.has(candidate); n++) {
+      candidate = `${id}-import-${n}`;
+    }
+    usedIds.add(candidate);
+    return candidate;
+  };
+
+  const finalIds = new Map<string, string>();
+  file.menus.forEach((menu) => {
+    const conflict = conflicts.get(menu.id);
+    const resolution = conflict ? resolutions[menu.id] ?? "overwrite" : null;
+    finalIds.set(
+      menu.id,
+      resolution === "keep-both"
+        ? createId(menu.id)
+        : matched.get(menu.id)?.id ?? menu.id
+    );
+  });
+
+  const imported = file.menus.map((menu): MenuItem => {
+    const conflict = conflicts.get(menu.id);
+    const keepCurrent = conflict && resolutions[menu.id] === "skip";
+    const base = matched.get(menu.id) ?? conflict?.current;
+    const content: MenuExportItem = keepCurrent ? conflict.current : menu;
+    const routePath = content.routeKey
+      ? getPathByRouteKey(content.routeKey)
+      : null;
+
+    return {
+      ...content,
+      id: finalIds.get(menu.id)!,
+      parentId: menu.parentId ? finalIds.get(menu.parentId) ?? null : null,
+      order: menu.order,
+      group: menu.group,
+      path: routePath ?? content.path,
+      icon:
+        content.icon && isKnownIcon(content.icon) ? content.icon : undefined,
+      children: undefined,
+      version: resolutions[menu.id] === "keep-both" ? 0 : base?.version ?? 0,
+    };
+  });
+
+  return [
+    ...imported,
+    ...keepCurrentMenus(current, conflicts, resolutions, imported),
+  ];
+}
+
+/**
+ * keep-both로 해결한 충돌의 현재 메뉴와 하위 메뉴를 현재 상태(id/version/위치) 그대로 반환
+ * 가져온 목록에 이미 있는 id는 제외하고, 부모가 결과에 없으면 최상위로 둡니다.
+ */
+function keepCurrentMenus(
+  current: MenuItem[],
+  conflicts: Map<string, MenuIdConflict>,
+  resolutions: Record<string, MenuConflictResolution>,
+  imported: MenuItem[]
+): MenuItem[] {
+  const importedIds = new Set(imported.map((menu) => menu.id));
+  const kept = new Map<string, MenuItem>();
+
+  const keep = (menu: MenuItem) => {
+    if (kept.has(menu.id) || importedIds.has(menu.id)) return;
+    kept.set(menu.id, menu);
+    current.filter((child) => child.parentId === menu.id).forEach(keep);
+  };
+  conflicts.forEach((conflict) => {
+    if (resolutions[conflict.id] === "keep-both") keep(conflict.current);
+  });
+
+  return Array.from(kept.values()).map((menu) => ({
+    ...menu,
+    parentId:
+      menu.parentId &&
+      (importedIds.has(menu.parentId) || kept.has(menu.parentId))
+        ? menu.parentId
+        : null,
+    children: undefined,
+  }));
+}
+
+// ========================================
+// Diff
+// ========================================
+
+const UPDATED_FIELDS: (keyof MenuExportItem)[] = [
+  "routeKey",
+  "path",
+  "icon",
+  "roles",
+  "isActive",
+  "hideInMenu",
+  "badge",
+  "badgeColor",
+];
+
+const UPDATED_FIELD_LABELS: Record<string, string> = {
+  routeKey: "화면",
+  path: "경로",
+  icon: "아이콘",
+  roles: "역할",
+  isActive: "활성",
+  hideInMenu: "숨김",
+  badge: "배지",
+  badgeColor: "배지 색상",
+};
+
+const isSameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * 현재 메뉴와 가져올 메뉴(resolveMenuImport 결과)의 구조 비교
+ *
+ * @param current 현재 메뉴 (평면 목록)
+ * @param next 가져올 메뉴 (평면 목록)
+ */
+export function diffMenuImport(
+  current: MenuItem[],
+  next: MenuItem[],
+  currentGroups: MenuGroup[],
+  nextGroups: MenuGroup[]
+): MenuDiffEntry[] {
+  const entries: MenuDiffEntry[] = [];
+  const currentById = new Map(current.map((menu) => [menu.id, menu]));
+  const nextById = new Map(next.map((menu) => [menu.id, menu]));
+  const labelOf = (id: string | null, menus: Map<string, MenuItem>) =>
+    id ? menus.get(id)?.label ?? id : "(최상위)";
+
+  // 메뉴 그룹
+  const currentGroupById = new Map(currentGroups.map((g) => [g.id, g]));
+  const nextGroupIds = new Set(nextGroups.map((g) => g.id));
+  nextGroups.forEach((group) => {
+    const before = currentGroupById.get(group.id);
+    if (!before) {
+      entries.push({
+        kind: "added",
+        target: "group",
+        id: group.id,
+        label: group.label || group.id,
+      });
+    } else if (before.label !== group.label) {
+      entries.push({
+        kind: "relabelled",
+        target: "group",
+        id: group.id,
+        label: group.label || group.id,
+        detail: `${before.label} → ${group.label}`,
+      });
+    }
+  });
+  currentGroups
+    .filter((group) => !nextGroupIds.has(group.id))
+    .forEach((group) =>
+      entries.push({
+        kind: "removed",
+        target: "group",
+        id: group.id,
+        label: group.label || group.id,
+      })
+    );
+
+  // 메뉴
+  next.forEach((menu) => {
+    const before = currentById.get(menu.id);
+    if (!before) {
+      entries.push({
+        kind: "added",
+        target: "menu",
+        id: menu.id,
+        label: menu.label,
+        detail: `${labelOf(menu.parentId, nextById)} 아래`,
+      });
+      return;
+    }
+
+    if (before.parentId !== menu.parentId) {
+      entries.push({
+        kind: "moved",
+        target: "menu",
+        id: menu.id,
+        label: menu.label,
+        detail: `${labelOf(before.parentId, currentById)} → ${labelOf(
+          menu.parentId,
+          nextById
+        )}`,
+      });
+    } else if (before.order !== menu.order || before.group !== menu.group) {
+      entries.push({
+        kind: "moved",
+        target: "menu",
+        id: menu.id,
+        label: menu.label,
+        detail:
+          before.group !== menu.group
+            ? `그룹 ${before.group ?? "-"} → ${menu.group ?? "-"}`
+            : `순서 ${before.order} → ${menu.order}`,
+      });
+    }
+
+    if (before.label !== menu.label) {
+      entries.push({
+        kind: "relabelled",
+        target: "menu",
+        id: menu.id,
+        label: menu.label,
+        detail: `${before.label} → ${menu.label}`,
+      });
+    }
+
+    const updated = UPDATED_FIELDS.filter(
+      (field) => !isSameValue(before[field], menu[field])
+    );
+    if (updated.length > 0) {
+      entries.push({
+        kind: "updated",
+        target: "menu",
+        id: menu.id,
+        label: menu.label,
+        detail: updated.map((field) => UPDATED_FIELD_LABELS[field]).join(", "),
+      });
+    }
+  });
+
+  current
+    .filter((menu) => !nextById.has(menu.id))
+    .forEach((menu) =>
+      entries.push({
+        kind: "removed",
+        target: "menu",
+        id: menu.id,
+        label: menu.label,
+      })
+    );
+
+  return entries;
+}
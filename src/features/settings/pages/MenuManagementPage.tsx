@@ -4,9 +4,14 @@
  *
  * 기능:
  *   - 메뉴 트리 구조 표시
- *   - 메뉴 추가/수정/삭제
+ *   - 메뉴 추가/수정/삭제 (서버 /api/menus에 저장, 실패 시 롤백)
+ *   - 메뉴를 라우트 레지스트리의 화면(routeKey)에 연결
  *   - 역할 기반 권한 설정
- *   - 메뉴 순서 변경
+ *   - 메뉴 순서/부모 변경 (드래그 앤 드롭, 키보드 Alt + 방향키, 실행 취소 Ctrl + Z)
+ *     메뉴 깊이 제한과 노드 타입 규칙(MENU_ITEM_MOVE_RULES)을 지킵니다.
+ *   - 다른 관리자가 먼저 변경한 경우 409(VERSION_CONFLICT) → 최신 메뉴를 다시 불러옵니다.
+ *   - 메뉴/그룹 JSON 내보내기, 가져오기 (적용 전 검증/ID 충돌 해결/변경 내역 확인)
+ *   - 사이드바를 서버 메뉴(dynamic 모드)로 표시할지 선택
  */
 
 import React, { useEffect, useCallback, useMemo, useState } from "react";
@@ -44,15 +49,44 @@ import {
   Save,
   FolderTree,
   Layers,
+  ArrowUp,
+  ArrowDown,
+  IndentIncrease,
+  IndentDecrease,
+  Undo2,
+  AlertTriangle,
+  Download,
+  Upload,
 } from "lucide-react";
 
 import {
   useMenuStore,
+  flattenMenuItems,
+  MENU_ITEM_MOVE_RULES,
   type MenuItem,
   type MenuFormData,
   type MenuGroup,
 } from "@core/store/menuStore";
+import { useUIStore } from "@core/store/uiStore";
+import { MENU_ICON_OPTIONS } from "@core/layout/menuIcons";
+import { handleApiError } from "@core/api/apiErrorHandler";
+import { ROUTE_REGISTRY, getPathByRouteKey } from "@core/router/routeRegistry";
 import { cn } from "@core/utils/classUtils";
+import { downloadFile } from "@core/utils/fileUtils";
+import {
+  getTreeDropIndicatorClass,
+  useTreeDragDrop,
+  type TreeRowDragProps,
+} from "@core/hooks/useTreeDragDrop";
+import {
+  resolveKeyboardTreeMove,
+  type TreeDropPosition,
+  type TreeKeyboardMoveAction,
+  type TreeMove,
+} from "@core/utils/treeMoveUtils";
+
+import { createMenuExport } from "../model/menuTransfer";
+import { MenuImportDialog } from "../ui/MenuImportDialog";
 
 // ========================================
 // Constants
@@ -60,20 +94,10 @@ import { cn } from "@core/utils/classUtils";
 
 const AVAILABLE_ICONS = [
   { value: "", label: "아이콘 없음" },
-  { value: "LayoutDashboard", label: "대시보드" },
-  { value: "Users", label: "사용자" },
-  { value: "Calendar", label: "캘린더" },
-  { value: "Table", label: "테이블" },
-  { value: "FileText", label: "문서" },
-  { value: "Settings", label: "설정" },
-  { value: "HelpCircle", label: "도움말" },
-  { value: "Code2", label: "코드" },
-  { value: "Globe", label: "글로브" },
-  { value: "Package", label: "패키지" },
-  { value: "ShoppingCart", label: "장바구니" },
-  { value: "BarChart", label: "차트" },
-  { value: "Database", label: "데이터베이스" },
-  { value: "Lock", label: "보안" },
+  ...MENU_ICON_OPTIONS.map((option) => ({
+    value: option.name,
+    label: option.label,
+  })),
 ];
 
 const AVAILABLE_ROLES = [
@@ -83,36 +107,51 @@ const AVAILABLE_ROLES = [
   { value: "DEV", label: "개발자" },
 ];
 
+/** 메뉴에 연결할 수 있는 화면 (인증이 필요한 라우트) */
+const ROUTE_OPTIONS = [
+  { value: "", label: "연결 안 함 (경로 직접 입력)" },
+  ...ROUTE_REGISTRY.filter((route) => route.requiresAuth !== false).map(
+    (route) => ({
+      value: route.routeKey,
+      label: `${route.label} (${route.path})`,
+    })
+  ),
+];
+
 const BADGE_COLORS = [
   { value: "", label: "없음" },
   { value: "primary", label: "Primary (파란색)" },
   { value: "success", label: "Success (초록색)" },
   { value: "warning", label: "Warning (노란색)" },
   { value: "danger", label: "Danger (빨간색)" },
+  { value: "info", label: "Info (하늘색)" },
 ];
 
 // ========================================
 // Validation Schema
 // ========================================
 
-const menuSchema = z.object({
-  label: z.string().min(1, "메뉴 이름을 입력하세요"),
-  path: z
-    .string()
-    .min(1, "경로를 입력하세요")
-    .startsWith("/", "경로는 /로 시작해야 합니다"),
-  parentId: z.string().nullable(),
-  icon: z.string().optional(),
-  roles: z.array(z.string()),
-  order: z.number().min(0, "순서는 0 이상이어야 합니다"),
-  group: z.string().optional(),
-  hideInMenu: z.boolean(),
-  badge: z.string().optional(),
-  badgeColor: z
-    .enum(["primary", "success", "warning", "danger", ""])
-    .optional(),
-  isActive: z.boolean(),
-});
+const menuSchema = z
+  .object({
+    label: z.string().min(1, "메뉴 이름을 입력하세요"),
+    routeKey: z.string().optional(),
+    path: z.string(),
+    parentId: z.string().nullable(),
+    icon: z.string().optional(),
+    roles: z.array(z.string()),
+    order: z.number().min(0, "순서는 0 이상이어야 합니다"),
+    group: z.string().optional(),
+    hideInMenu: z.boolean(),
+    badge: z.string().optional(),
+    badgeColor: z
+      .enum(["primary", "success", "warning", "danger", "info", ""])
+      .optional(),
+    isActive: z.boolean(),
+  })
+  .refine((data) => Boolean(data.routeKey) || data.path.startsWith("/"), {
+    message: "화면을 선택하거나 /로 시작하는 경로를 입력하세요",
+    path: ["path"],
+  });
 
 type MenuFormValues = z.infer<typeof menuSchema>;
 
@@ -120,12 +159,30 @@ type MenuFormValues = z.infer<typeof menuSchema>;
 // Menu Tree Item Component
 // ========================================
 
+const MOVE_BUTTONS: {
+  action: TreeKeyboardMoveAction;
+  title: string;
+  icon: React.ElementType;
+}[] = [
+  { action: "up", title: "위로 이동 (Alt + ↑)", icon: ArrowUp },
+  { action: "down", title: "아래로 이동 (Alt + ↓)", icon: ArrowDown },
+  { action: "indent", title: "들여쓰기 (Alt + →)", icon: IndentIncrease },
+  { action: "outdent", title: "내어쓰기 (Alt + ←)", icon: IndentDecrease },
+];
+
 interface MenuTreeItemProps {
   menu: MenuItem;
   depth?: number;
   onEdit: (menu: MenuItem) => void;
   onDelete: (menu: MenuItem) => void;
   onToggle: (menu: MenuItem) => void;
+  /** 버튼 이동 (키보드 이동과 같은 규칙) */
+  onMove: (menu: MenuItem, action: TreeKeyboardMoveAction) => void;
+  canMove: (menu: MenuItem, action: TreeKeyboardMoveAction) => boolean;
+  /** 드래그 앤 드롭 */
+  getDragProps: (menu: MenuItem) => TreeRowDragProps;
+  getDropPosition: (id: string) => TreeDropPosition | null;
+  draggingId: string | null;
 }
 
 const MenuTreeItem: React.FC<MenuTreeItemProps> = ({
@@ -134,6 +191,11 @@ const MenuTreeItem: React.FC<MenuTreeItemProps> = ({
   onEdit,
   onDelete,
   onToggle,
+  onMove,
+  canMove,
+  getDragProps,
+  getDropPosition,
+  draggingId,
 }) => {
   const [isExpanded, setIsExpanded] = useState(true);
   const hasChildren = menu.children && menu.children.length > 0;
@@ -143,9 +205,15 @@ const MenuTreeItem: React.FC<MenuTreeItemProps> = ({
       <div
         className={cn(
           "flex items-center gap-2 py-2 px-3 rounded-lg hover:bg-gray-50 group",
-          !menu.isActive && "opacity-50"
+          "focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400",
+          !menu.isActive && "opacity-50",
+          draggingId === menu.id && "opacity-40",
+          getTreeDropIndicatorClass(getDropPosition(menu.id))
         )}
         style={{ paddingLeft: `${depth * 24 + 12}px` }}
+        tabIndex={0}
+        aria-label={`${menu.label} (Alt + 방향키로 이동)`}
+        {...getDragProps(menu)}
       >
         {/* Expand/Collapse */}
         {hasChildren ? (
@@ -184,6 +252,9 @@ const MenuTreeItem: React.FC<MenuTreeItemProps> = ({
           </div>
           <div className="text-xs text-gray-500 truncate">
             {menu.path}
+            {menu.routeKey && (
+              <span className="ml-2 text-gray-400">({menu.routeKey})</span>
+            )}
             {menu.roles.length > 0 && (
               <span className="ml-2 text-blue-500">
                 [{menu.roles.join(", ")}]
@@ -193,7 +264,20 @@ const MenuTreeItem: React.FC<MenuTreeItemProps> = ({
         </div>
 
         {/* Actions */}
-        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+          {MOVE_BUTTONS.map(({ action, title, icon: Icon }) => (
+            <Button
+              key={action}
+              variant="ghost"
+              size="sm"
+              onClick={() => onMove(menu, action)}
+              className="p-1"
+              title={title}
+              disabled={!canMove(menu, action)}
+            >
+              <Icon className="w-4 h-4 text-gray-500" />
+            </Button>
+          ))}
           <Button
             variant="ghost"
             size="sm"
@@ -237,6 +321,11 @@ const MenuTreeItem: React.FC<MenuTreeItemProps> = ({
               onEdit={onEdit}
               onDelete={onDelete}
               onToggle={onToggle}
+              onMove={onMove}
+              canMove={canMove}
+              getDragProps={getDragProps}
+              getDropPosition={getDropPosition}
+              draggingId={draggingId}
             />
           ))}
         </div>
@@ -271,12 +360,14 @@ const MenuForm: React.FC<MenuFormProps> = ({
     control,
     handleSubmit,
     watch,
+    setValue,
     formState: { errors },
   } = useForm<MenuFormValues>({
     resolver: zodResolver(menuSchema),
     defaultValues: menu
       ? {
           label: menu.label,
+          routeKey: menu.routeKey ?? "",
           path: menu.path,
           parentId: menu.parentId,
           icon: menu.icon || "",
@@ -290,6 +381,7 @@ const MenuForm: React.FC<MenuFormProps> = ({
         }
       : {
           label: "",
+          routeKey: "",
           path: "/",
           parentId: null,
           icon: "",
@@ -304,10 +396,12 @@ const MenuForm: React.FC<MenuFormProps> = ({
   });
 
   const selectedRoles = watch("roles");
+  const selectedRouteKey = watch("routeKey");
 
   const handleFormSubmit = (data: MenuFormValues) => {
     onSubmit({
       ...data,
+      routeKey: data.routeKey || undefined,
       icon: data.icon || undefined,
       group: data.group || undefined,
       badge: data.badge || undefined,
@@ -321,21 +415,46 @@ const MenuForm: React.FC<MenuFormProps> = ({
       <div className="space-y-4">
         <h3 className="text-sm font-semibold border-b pb-2">기본 정보</h3>
 
+        <FormFieldWrapper
+          label="메뉴 이름"
+          required
+          errorMessage={errors.label?.message}
+        >
+          <Input {...register("label")} placeholder="메뉴 이름" />
+        </FormFieldWrapper>
+
         <div className="grid grid-cols-2 gap-4">
           <FormFieldWrapper
-            label="메뉴 이름"
-            required
-            errorMessage={errors.label?.message}
+            label="연결 화면"
+            description="화면을 선택하면 라우트 레지스트리의 경로와 접근 권한을 사용합니다."
           >
-            <Input {...register("label")} placeholder="메뉴 이름" />
+            <Controller
+              name="routeKey"
+              control={control}
+              render={({ field }) => (
+                <Select
+                  value={field.value || ""}
+                  onChange={(e) => {
+                    field.onChange(e.target.value);
+                    const path = getPathByRouteKey(e.target.value);
+                    if (path) setValue("path", path);
+                  }}
+                  options={ROUTE_OPTIONS}
+                />
+              )}
+            />
           </FormFieldWrapper>
 
           <FormFieldWrapper
             label="경로"
-            required
+            required={!selectedRouteKey}
             errorMessage={errors.path?.message}
           >
-            <Input {...register("path")} placeholder="/path" />
+            <Input
+              {...register("path")}
+              placeholder="/path"
+              disabled={Boolean(selectedRouteKey)}
+            />
           </FormFieldWrapper>
         </div>
 
@@ -524,15 +643,22 @@ export const MenuManagementPage: React.FC = () => {
     isLoading,
     isLoaded,
     loadMenus,
+    error,
     addMenu,
     updateMenu,
     deleteMenu,
+    moveMenuNode,
+    undoMenuMove,
+    moveHistory,
+    importMenus,
     getParentMenus,
   } = useMenuStore();
+  const { sidebarMenuMode, setSidebarMenuMode } = useUIStore();
 
   // Local State
   const [isFormModalOpen, setIsFormModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [selectedMenu, setSelectedMenu] = useState<MenuItem | null>(null);
   const [formMode, setFormMode] = useState<"create" | "edit">("create");
 
@@ -567,47 +693,162 @@ export const MenuManagementPage: React.FC = () => {
     setIsDeleteModalOpen(true);
   }, []);
 
+  // 저장 실패 처리 (store에서 이미 롤백됨)
+  // 409: 다른 관리자가 먼저 변경함 → 최신 메뉴를 다시 불러옴
+  const handleSaveError = useCallback(
+    (error: unknown, title: string) => {
+      const apiError = handleApiError(error, { toastTitle: title });
+      if (apiError.code === "VERSION_CONFLICT") {
+        loadMenus();
+      }
+    },
+    [loadMenus]
+  );
+
   const handleToggleMenu = useCallback(
-    (menu: MenuItem) => {
-      updateMenu(menu.id, { isActive: !menu.isActive });
-      toast.info(
-        `메뉴 "${menu.label}"이(가) ${
-          !menu.isActive ? "활성화" : "비활성화"
-        }되었습니다.`
+    async (menu: MenuItem) => {
+      try {
+        await updateMenu(menu.id, { isActive: !menu.isActive });
+        toast.info(
+          `메뉴 "${menu.label}"이(가) ${
+            !menu.isActive ? "활성화" : "비활성화"
+          }되었습니다.`
+        );
+      } catch (error) {
+        handleSaveError(error, "메뉴 변경 실패");
+      }
+    },
+    [updateMenu, toast, handleSaveError]
+  );
+
+  // 드래그 앤 드롭/키보드/버튼 이동 (규칙 검증 후 서버 저장)
+  const handleMoveNode = useCallback(
+    async (move: TreeMove) => {
+      try {
+        await moveMenuNode(move);
+      } catch (error) {
+        handleSaveError(error, "메뉴 이동 실패");
+      }
+    },
+    [moveMenuNode, handleSaveError]
+  );
+
+  const dnd = useTreeDragDrop({
+    nodes: allMenus,
+    rules: MENU_ITEM_MOVE_RULES,
+    onMove: handleMoveNode,
+  });
+
+  const canMoveMenu = useCallback(
+    (menu: MenuItem, action: TreeKeyboardMoveAction) =>
+      resolveKeyboardTreeMove(allMenus, menu.id, action, MENU_ITEM_MOVE_RULES)
+        .valid,
+    [allMenus]
+  );
+
+  const handleMoveMenu = useCallback(
+    (menu: MenuItem, action: TreeKeyboardMoveAction) => {
+      const result = resolveKeyboardTreeMove(
+        allMenus,
+        menu.id,
+        action,
+        MENU_ITEM_MOVE_RULES
       );
+      if (result.valid) {
+        handleMoveNode(result.move);
+      } else {
+        toast.warning(result.reason);
+      }
+    },
+    [allMenus, handleMoveNode, toast]
+  );
+
+  const handleUndoMove = useCallback(async () => {
+    try {
+      await undoMenuMove();
+      toast.info("메뉴 이동을 취소했습니다.");
+    } catch (error) {
+      handleSaveError(error, "메뉴 이동 취소 실패");
+    }
+  }, [undoMenuMove, toast, handleSaveError]);
+
+  // 메뉴 트리에서 Ctrl + Z (Mac: Cmd + Z)로 실행 취소
+  const handleTreeKeyDown = useCallback(
+    (event: React.KeyboardEvent) => {
+      if (
+        (event.ctrlKey || event.metaKey) &&
+        event.key.toLowerCase() === "z" &&
+        moveHistory.length > 0
+      ) {
+        event.preventDefault();
+        handleUndoMove();
+      }
     },
-    [updateMenu, toast]
+    [moveHistory.length, handleUndoMove]
   );
 
   const handleFormSubmit = useCallback(
-    (data: MenuFormData) => {
-      if (formMode === "create") {
-        addMenu(data);
-        toast.success("메뉴가 추가되었습니다.");
-      } else if (selectedMenu) {
-        updateMenu(selectedMenu.id, data);
-        toast.success("메뉴가 수정되었습니다.");
+    async (data: MenuFormData) => {
+      try {
+        if (formMode === "create") {
+          await addMenu(data);
+          toast.success("메뉴가 추가되었습니다.");
+        } else if (selectedMenu) {
+          await updateMenu(selectedMenu.id, data);
+          toast.success("메뉴가 수정되었습니다.");
+        }
+        setIsFormModalOpen(false);
+        setSelectedMenu(null);
+      } catch (error) {
+        handleSaveError(error, "메뉴 저장 실패");
       }
-      setIsFormModalOpen(false);
-      setSelectedMenu(null);
     },
-    [formMode, selectedMenu, addMenu, updateMenu, toast]
+    [formMode, selectedMenu, addMenu, updateMenu, toast, handleSaveError]
   );
 
-  const handleDeleteConfirm = useCallback(() => {
-    if (selectedMenu) {
-      deleteMenu(selectedMenu.id);
+  const handleDeleteConfirm = useCallback(async () => {
+    setIsDeleteModalOpen(false);
+    if (!selectedMenu) return;
+
+    try {
+      await deleteMenu(selectedMenu.id);
       toast.success("메뉴가 삭제되었습니다.");
+    } catch (error) {
+      handleSaveError(error, "메뉴 삭제 실패");
     }
-    setIsDeleteModalOpen(false);
     setSelectedMenu(null);
-  }, [selectedMenu, deleteMenu, toast]);
+  }, [selectedMenu, deleteMenu, toast, handleSaveError]);
 
   const handleRefresh = useCallback(() => {
     loadMenus();
     toast.info("메뉴가 새로고침되었습니다.");
   }, [loadMenus, toast]);
 
+  const handleExport = useCallback(() => {
+    const file = createMenuExport(allMenus, menuGroups);
+    downloadFile(
+      JSON.stringify(file, null, 2),
+      `menus-${file.exportedAt.slice(0, 10)}.json`
+    );
+  }, [allMenus, menuGroups]);
+
+  const flatMenus = useMemo(() => flattenMenuItems(allMenus), [allMenus]);
+
+  const handleImportApply = useCallback(
+    async (menus: MenuItem[], groups: MenuGroup[]) => {
+      try {
+        await importMenus(menus, groups);
+        setIsImportModalOpen(false);
+        toast.success("메뉴를 가져왔습니다.");
+        return true;
+      } catch (error) {
+        handleSaveError(error, "메뉴 가져오기 실패");
+        return false;
+      }
+    },
+    [importMenus, toast, handleSaveError]
+  );
+
   // 통계
   const stats = useMemo(() => {
     let totalMenus = 0;
@@ -642,6 +883,20 @@ export const MenuManagementPage: React.FC = () => {
             >
               새로고침
             </Button>
+            <Button
+              variant="outline"
+              onClick={handleExport}
+              leftIcon={<Download className="w-4 h-4" />}
+            >
+              내보내기
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setIsImportModalOpen(true)}
+              leftIcon={<Upload className="w-4 h-4" />}
+            >
+              가져오기
+            </Button>
             <Button
               variant="primary"
               onClick={handleAddMenu}
@@ -653,6 +908,36 @@ export const MenuManagementPage: React.FC = () => {
         }
       />
 
+      {/* 서버 연결 실패/저장 실패 안내 */}
+      {error && (
+        <div className="flex items-center gap-2 p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {/* 사이드바 메뉴 모드 */}
+      <Card>
+        <CardBody className="flex items-center justify-between gap-4">
+          <div>
+            <div className="font-medium">사이드바에 서버 메뉴 표시</div>
+            <div className="text-sm text-gray-500">
+              켜면 이 화면에서 관리하는 메뉴로 사이드바를 구성합니다. 접근
+              권한이 없는 화면에 연결된 메뉴는 표시되지 않습니다.
+            </div>
+          </div>
+          <label className="flex items-center gap-2 cursor-pointer shrink-0">
+            <Checkbox
+              checked={sidebarMenuMode === "dynamic"}
+              onChange={(e) =>
+                setSidebarMenuMode(e.target.checked ? "dynamic" : "filtered")
+              }
+            />
+            <span className="text-sm">사용</span>
+          </label>
+        </CardBody>
+      </Card>
+
       {/* 통계 */}
       <div className="grid grid-cols-3 gap-4">
         <Card>
@@ -695,10 +980,28 @@ export const MenuManagementPage: React.FC = () => {
       {/* 메뉴 트리 */}
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <FolderTree className="w-5 h-5" />
-            메뉴 구조
-          </CardTitle>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <FolderTree className="w-5 h-5" />
+                메뉴 구조
+              </CardTitle>
+              <p className="text-xs text-gray-500 mt-1">
+                메뉴를 끌어서 순서를 바꾸거나 다른 메뉴 안으로 옮길 수 있습니다.
+                키보드로는 메뉴에 포커스한 뒤 Alt + 방향키를 사용하세요.
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleUndoMove}
+              disabled={moveHistory.length === 0}
+              leftIcon={<Undo2 className="w-4 h-4" />}
+              title="실행 취소 (Ctrl + Z)"
+            >
+              이동 취소
+            </Button>
+          </div>
         </CardHeader>
         <CardBody>
           {isLoading ? (
@@ -719,7 +1022,7 @@ export const MenuManagementPage: React.FC = () => {
               </Button>
             </div>
           ) : (
-            <div className="space-y-1">
+            <div className="space-y-1" onKeyDown={handleTreeKeyDown}>
               {allMenus.map((menu) => (
                 <MenuTreeItem
                   key={menu.id}
@@ -727,8 +1030,16 @@ export const MenuManagementPage: React.FC = () => {
                   onEdit={handleEditMenu}
                   onDelete={handleDeleteMenuClick}
                   onToggle={handleToggleMenu}
+                  onMove={handleMoveMenu}
+                  canMove={canMoveMenu}
+                  getDragProps={dnd.getRowProps}
+                  getDropPosition={dnd.getDropPosition}
+                  draggingId={dnd.draggingId}
                 />
               ))}
+              <div className="sr-only" aria-live="polite">
+                {dnd.announcement}
+              </div>
             </div>
           )}
         </CardBody>
@@ -774,6 +1085,15 @@ export const MenuManagementPage: React.FC = () => {
         />
       </BaseModal>
 
+      {/* 가져오기 */}
+      <MenuImportDialog
+        isOpen={isImportModalOpen}
+        onClose={() => setIsImportModalOpen(false)}
+        currentMenus={flatMenus}
+        currentGroups={menuGroups}
+        onApply={handleImportApply}
+      />
+
       {/* 삭제 확인 */}
       <ConfirmDialog
         isOpen={isDeleteModalOpen}
@@ -0,0 +1,359 @@
+/**
+ * SoftOne Design System - Menu Import Dialog
+ * 작성: SoftOne Frontend Team
+ *
+ * 설명: 다른 환경에서 내보낸 메뉴 JSON을 가져오기 전에 검증/충돌 해결/변경 내역을 보여주는 대화상자.
+ *
+ * 흐름:
+ *   1. 파일 선택 또는 JSON 붙여넣기 → parseMenuExport
+ *   2. 검증 결과 표시 (오류가 있으면 적용 불가, 경고는 적용 가능)
+ *   3. id 충돌마다 해결 방식 선택 (덮어쓰기/둘 다 유지/건너뛰기)
+ *   4. 현재 메뉴와의 구조 비교(추가/삭제/이동/이름 변경/수정)를 확인 후 적용
+ */
+
+import React, { useCallback, useMemo, useState } from "react";
+import { AlertTriangle, CheckCircle2, FileJson, Upload } from "lucide-react";
+
+import { BaseModal } from "@core/components/ui/BaseModal";
+import { Badge, type BadgeVariant } from "@core/components/ui/Badge";
+import { Button } from "@core/components/ui/Button";
+import { Select } from "@core/components/ui/Select";
+import { ROUTE_REGISTRY } from "@core/router/routeRegistry";
+import { MAX_MENU_DEPTH } from "@core/router/menu.types";
+import { isMenuIconName } from "@core/layout/menuIcons";
+import { cn } from "@core/utils/classUtils";
+import type { MenuGroup, MenuItem } from "@core/store/menuStore";
+
+import {
+  diffMenuImport,
+  findMenuIdConflicts,
+  parseMenuExport,
+  resolveMenuImport,
+  validateMenuImport,
+  MenuImportParseError,
+  type MenuConflictResolution,
+  type MenuDiffKind,
+  type MenuExportFile,
+} from "../model/menuTransfer";
+
+// ========================================
+// Constants
+// ========================================
+
+const IMPORT_CONTEXT = {
+  routeKeys: ROUTE_REGISTRY.map((route) => route.routeKey),
+  isKnownIcon: isMenuIconName,
+  // 메뉴 아이템은 카테고리(그룹) 아래에 놓이므로 한 단계 적음
+  maxDepth: MAX_MENU_DEPTH - 1,
+};
+
+const RESOLUTION_OPTIONS: { value: MenuConflictResolution; label: string }[] = [
+  { value: "overwrite", label: "덮어쓰기" },
+  { value: "keep-both", label: "둘 다 유지 (새 ID)" },
+  { value: "skip", label: "건너뛰기 (현재 내용 유지)" },
+];
+
+const DIFF_KINDS: {
+  kind: MenuDiffKind;
+  label: string;
+  variant: BadgeVariant;
+}[] = [
+  { kind: "added", label: "추가", variant: "success" },
+  { kind: "removed", label: "삭제", variant: "danger" },
+  { kind: "moved", label: "이동", variant: "info" },
+  { kind: "relabelled", label: "이름 변경", variant: "warning" },
+  { kind: "updated", label: "수정", variant: "neutral" },
+];
+
+// ========================================
+// Types
+// ========================================
+
+export interface MenuImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** 현재 메뉴 (평면 목록) */
+  currentMenus: MenuItem[];
+  currentGroups: MenuGroup[];
+  /** 적용 (가져온 전체 메뉴 평면 목록, 그룹). 성공하면 true → 입력 초기화 */
+  onApply: (menus: MenuItem[], groups: MenuGroup[]) => Promise<boolean>;
+}
+
+// ========================================
+// MenuImportDialog Component
+// ========================================
+
+export const MenuImportDialog: React.FC<MenuImportDialogProps> = ({
+  isOpen,
+  onClose,
+  currentMenus,
+  currentGroups,
+  onApply,
+}) => {
+  const [text, setText] = useState("");
+  const [resolutions, setResolutions] = useState<
+    Record<string, MenuConflictResolution>
+  >({});
+  const [isApplying, setIsApplying] = useState(false);
+
+  const parsed = useMemo((): {
+    file: MenuExportFile | null;
+    error: string | null;
+  } => {
+    if (!text.trim()) return { file: null, error: null };
+    try {
+      return { file: parseMenuExport(text), error: null };
+    } catch (error) {
+      if (error instanceof MenuImportParseError) {
+        return { file: null, error: error.message };
+      }
+      throw error;
+    }
+  }, [text]);
+
+  const issues = useMemo(
+    () => (parsed.file ? validateMenuImport(parsed.file, IMPORT_CONTEXT) : []),
+    [parsed.file]
+  );
+  const hasErrors = issues.some((issue) => issue.level === "error");
+
+  const conflicts = useMemo(
+    () => (parsed.file ? findMenuIdConflicts(currentMenus, parsed.file) : []),
+    [currentMenus, parsed.file]
+  );
+
+  const resolved = useMemo(
+    () =>
+      parsed.file && !hasErrors
+        ? resolveMenuImport(
+            currentMenus,
+            parsed.file,
+            resolutions,
+            isMenuIconName
+          )
+        : [],
+    [currentMenus, parsed.file, hasErrors, resolutions]
+  );
+
+  const diff = useMemo(
+    () =>
+      parsed.file && !hasErrors
+        ? diffMenuImport(
+            currentMenus,
+            resolved,
+            currentGroups,
+            parsed.file.groups
+          )
+        : [],
+    [currentMenus, currentGroups, parsed.file, hasErrors, resolved]
+  );
+
+  const reset = useCallback(() => {
+    setText("");
+    setResolutions({});
+  }, []);
+
+  const handleClose = useCallback(() => {
+    reset();
+    onClose();
+  }, [reset, onClose]);
+
+  const handleFileChange = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file) return;
+      setResolutions({});
+      setText(await file.text());
+    },
+    []
+  );
+
+  const handleApply = useCallback(async () => {
+    if (!parsed.file) return;
+    setIsApplying(true);
+    try {
+      if (await onApply(resolved, parsed.file.groups)) reset();
+    } finally {
+      setIsApplying(false);
+    }
+  }, [parsed.file, resolved, onApply, reset]);
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="메뉴 가져오기"
+      description="다른 환경에서 내보낸 메뉴 JSON을 확인하고 현재 메뉴를 교체합니다."
+      size="xl"
+      footer={
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={handleClose}>
+            취소
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleApply}
+            disabled={!parsed.file || hasErrors || diff.length === 0}
+            isLoading={isApplying}
+            leftIcon={<Upload className="w-4 h-4" />}
+          >
+            적용
+          </Button>
+        </div>
+      }
+    >
+      <div className="space-y-5">
+        {/* 파일 선택 / 붙여넣기 */}
+        <div className="space-y-2">
+          <label className="inline-flex items-center gap-2 px-3 py-2 text-sm border border-softone-border rounded-md cursor-pointer hover:bg-gray-50">
+            <FileJson className="w-4 h-4" />
+            JSON 파일 선택
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="sr-only"
+              onChange={handleFileChange}
+            />
+          </label>
+          <textarea
+            value={text}
+            onChange={(event) => {
+              setResolutions({});
+              setText(event.target.value);
+            }}
+            rows={5}
+            aria-label="메뉴 JSON"
+            placeholder="또는 내보낸 JSON을 붙여넣으세요"
+            className="w-full p-3 font-mono text-xs bg-softone-surface border border-softone-border rounded-md focus:outline-none focus:ring-2 focus:ring-softone-primary/20 focus:border-softone-primary resize-y"
+          />
+          {parsed.error && (
+            <p className="text-sm text-softone-danger" role="alert">
+              {parsed.error}
+            </p>
+          )}
+        </div>
+
+        {/* 검증 결과 */}
+        {parsed.file && (
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold">
+              검증 ({parsed.file.menus.length}개 메뉴,{" "}
+              {parsed.file.groups.length}개 그룹)
+            </h3>
+            {issues.length === 0 ? (
+              <p className="flex items-center gap-2 text-sm text-softone-success">
+                <CheckCircle2 className="w-4 h-4" />
+                문제가 없습니다.
+              </p>
+            ) : (
+              <ul className="space-y-1 max-h-40 overflow-auto text-sm">
+                {issues.map((issue, index) => (
+                  <li
+                    key={index}
+                    className={cn(
+                      "flex items-start gap-2",
+                      issue.level === "error"
+                        ? "text-softone-danger"
+                        : "text-yellow-700"
+                    )}
+                  >
+                    <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        )}
+
+        {/* id 충돌 */}
+        {!hasErrors && conflicts.length > 0 && (
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold">
+              ID 충돌 ({conflicts.length})
+            </h3>
+            <ul className="space-y-2">
+              {conflicts.map((conflict) => (
+                <li
+                  key={conflict.id}
+                  className="flex items-center justify-between gap-3 p-2 text-sm border rounded-md"
+                >
+                  <div className="min-w-0">
+                    <div className="font-mono text-xs text-gray-500">
+                      {conflict.id}
+                    </div>
+                    <div className="truncate">
+                      현재 "{conflict.current.label}" ↔ 가져온 "
+                      {conflict.incoming.label}"
+                    </div>
+                  </div>
+                  <Select
+                    size="sm"
+                    className="w-52 shrink-0"
+                    aria-label={`${conflict.id} 충돌 해결 방식`}
+                    options={RESOLUTION_OPTIONS}
+                    value={resolutions[conflict.id] ?? "overwrite"}
+                    onChange={(event) =>
+                      setResolutions((current) => ({
+                        ...current,
+                        [conflict.id]: event.target
+                          .value as MenuConflictResolution,
+                      }))
+                    }
+                  />
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {/* 변경 내역 */}
+        {parsed.file && !hasErrors && (
+          <section className="space-y-2">
+            <div className="flex items-center gap-2">
+              <h3 className="text-sm font-semibold">변경 내역</h3>
+              {DIFF_KINDS.map(({ kind, label, variant }) => (
+                <Badge key={kind} variant={variant} size="sm">
+                  {label} {diff.filter((entry) => entry.kind === kind).length}
+                </Badge>
+              ))}
+            </div>
+            {diff.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                현재 메뉴와 같습니다. 적용할 변경이 없습니다.
+              </p>
+            ) : (
+              <ul className="max-h-60 overflow-auto divide-y border rounded-md text-sm">
+                {diff.map((entry) => {
+                  const kind = DIFF_KINDS.find((k) => k.kind === entry.kind)!;
+                  return (
+                    <li
+                      key={`${entry.target}-${entry.kind}-${entry.id}`}
+                      className="flex items-center gap-2 px-3 py-1.5"
+                    >
+                      <Badge variant={kind.variant} size="sm">
+                        {kind.label}
+                      </Badge>
+                      <span className="font-medium">
+                        {entry.target === "group" ? "[그룹] " : ""}
+                        {entry.label}
+                      </span>
+                      {entry.detail && (
+                        <span className="text-gray-500 truncate">
+                          {entry.detail}
+                        </span>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </section>
+        )}
+      </div>
+    </BaseModal>
+  );
+};
+
+MenuImportDialog.displayName = "MenuImportDialog";
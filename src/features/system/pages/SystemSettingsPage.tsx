@@ -37,6 +37,7 @@ import { Checkbox } from "@core/components/ui/Checkbox";
 import { FormFieldWrapper } from "@core/components/ui/FormFieldWrapper";
 import { Tabs } from "@core/components/ui/Tabs";
 import { useToast } from "@core/hooks/useToast";
+import { useUnsavedChangesGuard } from "@core/hooks/useUnsavedChangesGuard";
 import { PERMISSION_KEYS } from "@core/auth/role.types";
 
 // ========================================
@@ -116,12 +117,17 @@ export const SystemSettingsPage: React.FC = () => {
     defaultValues: defaultSettings,
   });
 
+  // 저장하지 않은 설정이 있으면 화면 이동/탭 닫기 시 확인
+  useUnsavedChangesGuard(isDirty);
+
   const onSubmit = async (data: SettingsFormData) => {
     setIsSaving(true);
     try {
       // Mock API 호출
       await new Promise((resolve) => setTimeout(resolve, 1000));
       console.log("Settings saved:", data);
+      // 저장한 값을 기준값으로 (isDirty 해제)
+      reset(data);
       toast.success("시스템 설정이 저장되었습니다.");
     } catch {
       toast.error("설정 저장에 실패했습니다.");
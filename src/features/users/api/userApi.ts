@@ -7,14 +7,17 @@
  * User API
  * - Mock Data + setTimeout으로 실제 API 동작 시뮬레이션
  * - useUserListQuery: TanStack Query 훅
+ * - userListRouteLoader: 화면 진입 전 첫 페이지 프리페치
  */
 
 import { useQuery } from "@tanstack/react-query";
-import type {
-  User,
-  UserListParams,
-  UserListResponse,
-  UserStatus,
+import type { RouteLoader } from "@core/router/routeLoader";
+import {
+  DEFAULT_USER_LIST_PARAMS,
+  type User,
+  type UserListParams,
+  type UserListResponse,
+  type UserStatus,
 } from "../model/user.types";
 
 // ========================================
@@ -327,3 +330,18 @@ export const useUserDetailQuery = (id: string, enabled = true) => {
     staleTime: 1000 * 60 * 5, // 5분
   });
 };
+
+// ========================================
+// Route Loader
+// ========================================
+
+/**
+ * 사용자 목록 라우트 로더 (UserListPage 첫 조회와 같은 파라미터)
+ */
+export const userListRouteLoader: RouteLoader = () => [
+  {
+    queryKey: USER_QUERY_KEYS.list(DEFAULT_USER_LIST_PARAMS),
+    queryFn: () => getUsers(DEFAULT_USER_LIST_PARAMS),
+    staleTime: 1000 * 60 * 5,
+  },
+];
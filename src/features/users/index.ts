@@ -25,6 +25,7 @@ export {
   updateUserStatus,
   useUserListQuery,
   useUserDetailQuery,
+  userListRouteLoader,
   USER_QUERY_KEYS,
 } from "./api/userApi";
 
@@ -42,5 +43,6 @@ export {
   USER_STATUS_META,
   DEFAULT_USER_FILTER,
   DEFAULT_USER_PAGINATION,
+  DEFAULT_USER_LIST_PARAMS,
 } from "./model/user.types";
 
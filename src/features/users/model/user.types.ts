@@ -142,3 +142,11 @@ export const DEFAULT_USER_PAGINATION = {
   page: 1,
   pageSize: 10,
 };
+
+/**
+ * 목록 화면 첫 조회 파라미터 (라우트 로더와 같은 queryKey 사용)
+ */
+export const DEFAULT_USER_LIST_PARAMS: UserListParams = {
+  ...DEFAULT_USER_PAGINATION,
+  ...DEFAULT_USER_FILTER,
+};
@@ -26,6 +26,7 @@ import type {
 } from "../model/user.types";
 import {
   DEFAULT_USER_FILTER,
+  DEFAULT_USER_LIST_PARAMS,
   DEFAULT_USER_PAGINATION,
 } from "../model/user.types";
 
@@ -80,10 +81,9 @@ export const UserListPage: React.FC = () => {
   const [pagination, setPagination] = useState(DEFAULT_USER_PAGINATION);
 
   // 검색용 파라미터 (검색 버튼 클릭 시에만 업데이트)
-  const [searchParams, setSearchParams] = useState<UserListParams>({
-    ...DEFAULT_USER_PAGINATION,
-    ...DEFAULT_USER_FILTER,
-  });
+  const [searchParams, setSearchParams] = useState<UserListParams>(
+    DEFAULT_USER_LIST_PARAMS
+  );
 
   // 데이터 조회
   const { data, isLoading, isFetching } = useUserListQuery(searchParams);
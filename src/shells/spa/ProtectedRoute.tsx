@@ -20,11 +20,10 @@ import { useAuth } from "@core/hooks/useAuth";
 import { usePermission } from "@core/hooks/usePermission";
 import { useAuthStore } from "@core/store/authStore";
 import type { PermissionKey } from "@core/auth/role.types";
-import { routeConfig } from "@core/router/routeConfig";
 import {
   getPathByRouteKey,
   getRouteKeyByPath,
-} from "@core/router/menuAccessUtils";
+} from "@core/router/routeRegistry";
 import { ForbiddenPage } from "./ForbiddenPage";
 
 // ========================================
@@ -182,7 +181,7 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   // ========================================
 
   // 현재 경로에서 routeKey 추출
-  const currentRouteKey = getRouteKeyByPath(routeConfig, location.pathname);
+  const currentRouteKey = getRouteKeyByPath(location.pathname);
 
   // routeKey가 있고, accessibleRouteKeys에 없으면 접근 차단
   if (
@@ -266,7 +265,7 @@ export const InitialLandingHandler: React.FC<InitialLandingHandlerProps> = ({
       const fromState = (location.state as { from?: string })?.from;
       if (useFromState && fromState && fromState !== "/auth/login") {
         // 해당 경로가 접근 가능한지 확인
-        const fromRouteKey = getRouteKeyByPath(routeConfig, fromState);
+        const fromRouteKey = getRouteKeyByPath(fromState);
         if (!fromRouteKey || accessibleRouteKeys.includes(fromRouteKey)) {
           navigate(fromState, { replace: true });
           return;
@@ -278,7 +277,7 @@ export const InitialLandingHandler: React.FC<InitialLandingHandlerProps> = ({
         defaultLandingRouteKey &&
         accessibleRouteKeys.includes(defaultLandingRouteKey)
       ) {
-        const path = getPathByRouteKey(routeConfig, defaultLandingRouteKey);
+        const path = getPathByRouteKey(defaultLandingRouteKey);
         if (path) {
           navigate(path, { replace: true });
           return;
@@ -288,7 +287,7 @@ export const InitialLandingHandler: React.FC<InitialLandingHandlerProps> = ({
       // 3. 첫 번째 접근 가능한 페이지로 이동
       if (accessibleRouteKeys.length > 0) {
         const firstRouteKey = accessibleRouteKeys[0];
-        const path = getPathByRouteKey(routeConfig, firstRouteKey);
+        const path = getPathByRouteKey(firstRouteKey);
         if (path) {
           navigate(path, { replace: true });
           return;
@@ -10,13 +10,20 @@ import { useLocation } from "react-router-dom";
 import { GlobalErrorBoundary } from "@core/components/error/GlobalErrorBoundary";
 import { MainLayout } from "@core/layout/MainLayout";
 import { useAuth } from "@core/hooks/useAuth";
+import { useSessionRestore } from "@features/auth/api/authApi";
+import { usePermissionMatrixSync } from "@features/auth/api/permissionMatrixApi";
 import { AppRouter } from "./AppRouter";
+import { WorkspaceOutlet } from "./WorkspaceOutlet";
 
 // ========================================
 // Public Routes (No Layout)
 // ========================================
 
-const PUBLIC_ROUTES = ["/auth/login", "/auth/register", "/auth/forgot-password"];
+const PUBLIC_ROUTES = [
+  "/auth/login",
+  "/auth/register",
+  "/auth/forgot-password",
+];
 
 // ========================================
 // SPA App Shell
@@ -29,11 +36,20 @@ const PUBLIC_ROUTES = ["/auth/login", "/auth/register", "/auth/forgot-password"]
  * 1. GlobalErrorBoundary - 런타임 에러 캐치
  * 2. Conditional Layout - 인증 상태에 따라 레이아웃 결정
  * 3. AppRouter - 라우팅
+ * 4. Session Restore - 새로고침 시 서버 세션 복원
+ * 5. Permission Matrix Sync - 서버 권한 매트릭스 변경 즉시 반영
+ * 6. Workspace Tabs - 인증 후 화면은 탭으로 열리고 전환해도 상태 유지
  */
 export const SpaAppShell: React.FC = () => {
   const location = useLocation();
   const { isAuthenticated, roles, user } = useAuth();
 
+  // 새로고침 시 저장된 토큰으로 서버 세션 복원
+  useSessionRestore();
+
+  // 관리자가 변경한 권한 매트릭스를 재배포 없이 반영
+  usePermissionMatrixSync();
+
   // 퍼블릭 라우트인지 확인
   const isPublicRoute = PUBLIC_ROUTES.some((route) =>
     location.pathname.startsWith(route)
@@ -48,15 +64,16 @@ export const SpaAppShell: React.FC = () => {
     );
   }
 
-  // 인증된 사용자는 MainLayout 적용
+  // 인증된 사용자는 MainLayout + 멀티 탭 작업 공간 적용
   return (
     <GlobalErrorBoundary>
       <MainLayout
         userRoles={roles}
         userName={user?.name}
         userEmail={user?.email}
+        showWorkspaceTabs
       >
-        <AppRouter />
+        <WorkspaceOutlet />
       </MainLayout>
     </GlobalErrorBoundary>
   );
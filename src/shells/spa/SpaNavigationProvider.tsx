@@ -1,11 +1,76 @@
 /**
  * SoftOne Design System - SPA Navigation Provider
  * React Router를 NavigationApi로 래핑
+ *
+ * 라우트 로더(routeLoaders.ts)를 이동 직전과 SDSLink hover(prefetch) 시 실행해
+ * queryClient를 미리 채우고, 이동이 끝나면 필요 없어진 프리페치를 취소합니다.
+ *
+ * 이동하면 사라지는 화면에 저장하지 않은 변경 사항(useUnsavedChangesGuard)이 있으면
+ * 확인 후 이동합니다. (브라우저 뒤로 가기 버튼은 BrowserRouter에서 막을 수 없음)
  */
 
-import React, { useMemo } from "react";
+import React, { useEffect, useMemo } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { NavigationProvider, type NavigationApi } from "@core/router/NavigationContext";
+import { createRouteLoaderRunner } from "@core/router/routeLoader";
+import { getRouteKeyByPath } from "@core/router/routeRegistry";
+import { useAuthStore } from "@core/store/authStore";
+import { useWorkspaceStore } from "@core/store/workspaceStore";
+import {
+  useUnsavedChangesStore,
+  type UnsavedChangesGuardFilter,
+} from "@core/store/unsavedChangesStore";
+import { ROUTE_LOADERS } from "./routeLoaders";
+
+// ========================================
+// Unsaved Changes
+// ========================================
+
+const toPathname = (href: string): string => href.split(/[?#]/)[0];
+
+/**
+ * 이동하면 사라지는 화면의 가드 선택
+ *   - 작업 공간 탭 밖의 화면: 다른 경로로 이동하면 언마운트
+ *   - 작업 공간 탭의 화면: 다른 탭으로 이동해도 유지되므로, 같은 탭의 다른 경로로 이동할 때만
+ */
+function createLeaveFilter(
+  currentPathname: string,
+  targetHref: string
+): UnsavedChangesGuardFilter {
+  const targetPathname = toPathname(targetHref);
+  const targetRouteKey = getRouteKeyByPath(targetPathname);
+
+  return (guard) => {
+    if (guard.tabKey === null) return targetPathname !== currentPathname;
+    if (guard.tabKey !== targetRouteKey) return false;
+
+    const tab = useWorkspaceStore
+      .getState()
+      .tabs.find((t) => t.routeKey === guard.tabKey);
+    return toPathname(tab?.path ?? currentPathname) !== targetPathname;
+  };
+}
+
+/** 변경 사항이 없으면 바로, 있으면 확인 후 이동 */
+function navigateWithGuard(
+  filter: UnsavedChangesGuardFilter,
+  go: () => void
+): void {
+  const { hasUnsavedChanges, confirmDiscardChanges } =
+    useUnsavedChangesStore.getState();
+  if (!hasUnsavedChanges(filter)) {
+    go();
+    return;
+  }
+  void confirmDiscardChanges(filter).then((confirmed) => {
+    if (confirmed) go();
+  });
+}
+
+/** 뒤로/앞으로 가기는 대상을 알 수 없으므로 작업 공간 탭 밖의 화면만 확인 */
+const isOutsideWorkspace: UnsavedChangesGuardFilter = (guard) =>
+  guard.tabKey === null;
 
 // ========================================
 // SPA Navigation Provider
@@ -26,26 +91,53 @@ export const SpaNavigationProvider: React.FC<SpaNavigationProviderProps> = ({
 }) => {
   const navigate = useNavigate();
   const location = useLocation();
+  const queryClient = useQueryClient();
+
+  const loaderRunner = useMemo(
+    () =>
+      createRouteLoaderRunner({
+        queryClient,
+        loaders: ROUTE_LOADERS,
+        // 호출 시점의 권한으로 확인 (로그인/정책 변경 반영)
+        canAccessRoute: (routeKey) =>
+          useAuthStore.getState().canAccessRoute(routeKey),
+      }),
+    [queryClient]
+  );
+
+  // 이동 완료: 직접 입력/뒤로 가기도 로더 실행, 이전 화면용 프리페치 취소
+  const href = location.pathname + location.search;
+  useEffect(() => {
+    loaderRunner.cancelStale(href);
+    void loaderRunner.load(href);
+  }, [href, loaderRunner]);
 
   const navigationApi: NavigationApi = useMemo(
     () => ({
-      push: (path) => {
-        navigate(path);
-        // 스크롤 맨 위로
-        window.scrollTo(0, 0);
+      push: (path, options) => {
+        navigateWithGuard(createLeaveFilter(location.pathname, path), () => {
+          // 화면(lazy) 로딩과 데이터 요청을 동시에 시작
+          void loaderRunner.load(path);
+          navigate(path);
+          // 스크롤 맨 위로
+          if (options?.scroll !== false) window.scrollTo(0, 0);
+        });
       },
 
-      replace: (path) => {
-        navigate(path, { replace: true });
-        window.scrollTo(0, 0);
+      replace: (path, options) => {
+        navigateWithGuard(createLeaveFilter(location.pathname, path), () => {
+          void loaderRunner.load(path);
+          navigate(path, { replace: true });
+          if (options?.scroll !== false) window.scrollTo(0, 0);
+        });
       },
 
       back: () => {
-        navigate(-1);
+        navigateWithGuard(isOutsideWorkspace, () => navigate(-1));
       },
 
       forward: () => {
-        navigate(1);
+        navigateWithGuard(isOutsideWorkspace, () => navigate(1));
       },
 
       getCurrentPath: () => {
@@ -56,12 +148,12 @@ export const SpaNavigationProvider: React.FC<SpaNavigationProviderProps> = ({
         return new URLSearchParams(location.search);
       },
 
-      // SPA에서는 prefetch 불필요 (no-op)
-      prefetch: () => {
-        // No-op for SPA
+      // 라우트 로더 실행 (로더가 없거나 접근할 수 없는 화면은 무시)
+      prefetch: (path) => {
+        void loaderRunner.load(path);
       },
     }),
-    [navigate, location]
+    [navigate, location, loaderRunner]
   );
 
   return (
@@ -0,0 +1,191 @@
+/**
+ * SoftOne Design System(SDS) - Workspace Outlet
+ * 작성: SoftOne Frontend Team
+ *
+ * 멀티 탭 작업 공간(MDI)의 화면 영역.
+ * 열린 탭마다 탭 패널을 하나씩 렌더링하고, 비활성 탭은 언마운트하지 않고 숨겨서
+ * 탭을 전환해도 화면 상태(입력값, 필터, 스크롤 등)가 유지됩니다.
+ *
+ * 동작:
+ *   - 인증이 필요하고 접근 가능한 라우트로 이동하면 해당 routeKey의 탭을 열거나 활성화
+ *   - 활성 탭은 현재 location, 비활성 탭은 탭에 저장된 마지막 경로로 라우팅
+ *   - 그 외 경로(루트 리다이렉트, 알 수 없는 경로, 접근 불가)는 AppRouter가 처리
+ *     (이때도 열린 탭 패널은 숨긴 채 유지)
+ *   - 탭 개수 제한으로 탭을 닫을 때 저장하지 않은 변경 사항이 있는 탭은 제외
+ */
+
+import React, { Suspense, memo, useEffect } from "react";
+import { Routes, Route, useLocation, type Location } from "react-router-dom";
+import {
+  findRouteDefinition,
+  findRouteDefinitionByPath,
+  type RouteDefinition,
+} from "@core/router/routeRegistry";
+import { useAuthStore } from "@core/store/authStore";
+import { useToastStore } from "@core/store/toastStore";
+import {
+  useWorkspaceStore,
+  MAX_WORKSPACE_TABS,
+  getWorkspaceTabId,
+  getWorkspacePanelId,
+} from "@core/store/workspaceStore";
+import {
+  inWorkspaceTab,
+  useUnsavedChangesStore,
+} from "@core/store/unsavedChangesStore";
+import {
+  WorkspaceTabActiveContext,
+  WorkspaceTabKeyContext,
+} from "@core/hooks/useWorkspaceTabActive";
+import { AppRouter, PageLoading, RouteElement } from "./AppRouter";
+import { ProtectedRoute } from "./ProtectedRoute";
+
+// ========================================
+// Helpers
+// ========================================
+
+/** 탭 제목 (메뉴 라벨 우선) */
+const getTabTitle = (route: RouteDefinition): string =>
+  route.menu?.label ?? route.label;
+
+// ========================================
+// Workspace Panel
+// ========================================
+
+interface WorkspacePanelProps {
+  route: RouteDefinition;
+  /** 활성 탭은 현재 location, 비활성 탭은 마지막 경로 */
+  location: Location | string;
+  isActive: boolean;
+}
+
+/**
+ * 탭 하나의 화면
+ * 비활성 탭은 props가 바뀌지 않으므로 다른 탭으로 이동해도 다시 렌더링되지 않습니다.
+ */
+const WorkspacePanel: React.FC<WorkspacePanelProps> = memo(
+  ({ route, location, isActive }) => (
+    <WorkspaceTabKeyContext.Provider value={route.routeKey}>
+      <WorkspaceTabActiveContext.Provider value={isActive}>
+        <div
+          id={getWorkspacePanelId(route.routeKey)}
+          role="tabpanel"
+          aria-labelledby={getWorkspaceTabId(route.routeKey)}
+          hidden={!isActive}
+        >
+          <Suspense fallback={<PageLoading />}>
+            <Routes location={location}>
+              <Route
+                path={route.path}
+                element={
+                  <ProtectedRoute requiredRouteKey={route.routeKey}>
+                    <RouteElement route={route} />
+                  </ProtectedRoute>
+                }
+              />
+            </Routes>
+          </Suspense>
+        </div>
+      </WorkspaceTabActiveContext.Provider>
+    </WorkspaceTabKeyContext.Provider>
+  )
+);
+
+WorkspacePanel.displayName = "WorkspacePanel";
+
+// ========================================
+// Workspace Outlet
+// ========================================
+
+export const WorkspaceOutlet: React.FC = () => {
+  const location = useLocation();
+  const showToast = useToastStore((state) => state.showToast);
+
+  const userId = useAuthStore((state) => state.user?.id);
+  const accessibleRouteKeys = useAuthStore(
+    (state) => state.accessibleRouteKeys
+  );
+
+  const tabs = useWorkspaceStore((state) => state.tabs);
+  const workspaceUserId = useWorkspaceStore((state) => state.userId);
+  const openTab = useWorkspaceStore((state) => state.openTab);
+
+  // 현재 경로가 탭으로 열 수 있는 화면인지
+  const currentRoute = findRouteDefinitionByPath(location.pathname);
+  const activeRoute =
+    currentRoute &&
+    currentRoute.requiresAuth !== false &&
+    accessibleRouteKeys.includes(currentRoute.routeKey)
+      ? currentRoute
+      : undefined;
+
+  const activeRouteKey = activeRoute?.routeKey;
+  const activeTitle = activeRoute ? getTabTitle(activeRoute) : "";
+  const currentPath = location.pathname + location.search;
+
+  // 저장된 탭 복원(WorkspaceTabs)이 끝난 뒤에만 탭 열기
+  const isRestored = !!userId && workspaceUserId === userId;
+
+  useEffect(() => {
+    if (!isRestored || !activeRouteKey) return;
+
+    const { hasUnsavedChanges } = useUnsavedChangesStore.getState();
+    const evicted = openTab(
+      {
+        routeKey: activeRouteKey,
+        path: currentPath,
+        title: activeTitle,
+      },
+      (tab) => !hasUnsavedChanges(inWorkspaceTab(tab.routeKey))
+    );
+    if (evicted) {
+      showToast(
+        "info",
+        `탭은 최대 ${MAX_WORKSPACE_TABS}개까지 열 수 있어 '${evicted.title}' 탭을 닫았습니다.`
+      );
+    }
+  }, [
+    isRestored,
+    activeRouteKey,
+    activeTitle,
+    currentPath,
+    openTab,
+    showToast,
+  ]);
+
+  // 열린 탭 + 아직 탭으로 등록되지 않은 현재 화면
+  const panelTabs = isRestored ? tabs : [];
+  const panels = panelTabs.flatMap((tab) => {
+    const route = findRouteDefinition(tab.routeKey);
+    return route ? [{ route, path: tab.path }] : [];
+  });
+  if (
+    activeRoute &&
+    !panels.some((panel) => panel.route.routeKey === activeRouteKey)
+  ) {
+    panels.push({ route: activeRoute, path: currentPath });
+  }
+
+  return (
+    <>
+      {panels.map(({ route, path }) => {
+        const isActive = route.routeKey === activeRouteKey;
+        return (
+          <WorkspacePanel
+            key={route.routeKey}
+            route={route}
+            location={isActive ? location : path}
+            isActive={isActive}
+          />
+        );
+      })}
+
+      {/* 탭으로 열 수 없는 경로 (리다이렉트/접근 불가) */}
+      {!activeRoute && <AppRouter />}
+    </>
+  );
+};
+
+WorkspaceOutlet.displayName = "WorkspaceOutlet";
+
+export default WorkspaceOutlet;
@@ -6,5 +6,6 @@
 export { SpaAppShell } from "./SpaAppShell";
 export { SpaNavigationProvider } from "./SpaNavigationProvider";
 export { AppRouter } from "./AppRouter";
+export { WorkspaceOutlet } from "./WorkspaceOutlet";
 export { ProtectedRoute, type ProtectedRouteProps } from "./ProtectedRoute";
 export { RoleBasedRoute, type RoleBasedRouteProps } from "./RoleBasedRoute";
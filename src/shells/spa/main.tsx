@@ -16,12 +16,28 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { ReactQueryDevtools } from "@tanstack/react-query-devtools";
 
 import { queryClient } from "@core/api/queryClient";
+import { startTokenRefreshScheduler } from "@core/api/httpClient";
+import { registerProductCommands } from "@features/products/commands";
 import { SpaAppShell } from "./SpaAppShell";
 import { SpaNavigationProvider } from "./SpaNavigationProvider";
 
 // Global Styles
 import "@core/styles/globals.css";
 
+// ========================================
+// Token Refresh
+// ========================================
+
+// JWT 만료 직전 선제적 토큰 갱신
+startTokenRefreshScheduler();
+
+// ========================================
+// Command Palette
+// ========================================
+
+// Feature 명령 등록 (Ctrl + K)
+registerProductCommands();
+
 // ========================================
 // App Root
 // ========================================
@@ -0,0 +1,38 @@
+/**
+ * SoftOne Design System - Route Components Tests
+ * 페이지 컴포넌트/데이터 로더 연결과 라우트 레지스트리 일관성 테스트
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  ROUTE_REGISTRY,
+  validateRouteRegistry,
+} from "@core/router/routeRegistry";
+import { menuTree } from "@core/router/menuConfig";
+import { ROUTE_COMPONENTS } from "./routeComponents";
+import { ROUTE_LOADERS } from "./routeLoaders";
+
+describe("ROUTE_COMPONENTS", () => {
+  it("컴포넌트가 연결된 routeKey는 모두 레지스트리에 있음", () => {
+    expect(
+      validateRouteRegistry(
+        ROUTE_REGISTRY,
+        menuTree,
+        Object.keys(ROUTE_COMPONENTS)
+      )
+    ).toEqual([]);
+  });
+});
+
+describe("ROUTE_LOADERS", () => {
+  it("로더가 연결된 routeKey는 모두 레지스트리에 있음", () => {
+    expect(
+      validateRouteRegistry(
+        ROUTE_REGISTRY,
+        menuTree,
+        [],
+        Object.keys(ROUTE_LOADERS)
+      )
+    ).toEqual([]);
+  });
+});
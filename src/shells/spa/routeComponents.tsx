@@ -0,0 +1,153 @@
+/**
+ * SoftOne Design System(SDS) - Route Components
+ * 작성: SoftOne Frontend Team
+ *
+ * 라우트 레지스트리(ROUTE_REGISTRY)의 routeKey와 페이지 컴포넌트를 연결합니다.
+ * Core는 Feature에 의존하지 않으므로 페이지 컴포넌트 연결은 Shell에서 담당합니다.
+ *
+ * 컴포넌트가 없는 routeKey는 AppRouter에서 PlaceholderPage로 렌더링됩니다.
+ * 레지스트리에 없는 routeKey를 등록하면 validateRouteRegistry가 orphan-component로 검출합니다.
+ */
+
+import React, { lazy } from "react";
+
+type RouteComponent = React.LazyExoticComponent<React.ComponentType>;
+
+/**
+ * named export 페이지 컴포넌트를 lazy 로드
+ */
+function lazyPage<TModule>(
+  load: () => Promise<TModule>,
+  pick: (module: TModule) => React.ComponentType
+): RouteComponent {
+  return lazy(() => load().then((module) => ({ default: pick(module) })));
+}
+
+// ========================================
+// Route Components
+// ========================================
+
+export const ROUTE_COMPONENTS: Partial<Record<string, RouteComponent>> = {
+  // Auth
+  "auth.login": lazy(() => import("@features/auth/pages/LoginPage")),
+  "auth.role.designer": lazyPage(
+    () => import("@features/auth/pages/RolePermissionDesignerPage"),
+    (module) => module.RolePermissionDesignerPage
+  ),
+  "auth.user.menu.policy": lazyPage(
+    () => import("@features/auth/pages/UserMenuPolicyDesignerPage"),
+    (module) => module.UserMenuPolicyDesignerPage
+  ),
+
+  // Dashboard
+  "dashboard.main": lazyPage(
+    () => import("@features/dashboard/pages/DashboardPage"),
+    (module) => module.DashboardPage
+  ),
+
+  // Users
+  "users.list": lazyPage(
+    () => import("@features/users/pages/UserListPage"),
+    (module) => module.UserListPage
+  ),
+  "users.dialog": lazyPage(
+    () => import("@features/users/pages/UserListWithDialogPage"),
+    (module) => module.UserListWithDialogPage
+  ),
+
+  // Products / Articles / Schedules
+  "products.crud": lazyPage(
+    () => import("@features/products/pages/ProductCrudPage"),
+    (module) => module.ProductCrudPage
+  ),
+  "articles.create": lazyPage(
+    () => import("@features/articles/pages/ArticleCreatePage"),
+    (module) => module.ArticleCreatePage
+  ),
+  "schedules.main": lazyPage(
+    () => import("@features/schedules/pages/SchedulePage"),
+    (module) => module.SchedulePage
+  ),
+
+  // Grid Samples
+  "grid.samples.ag.basic": lazyPage(
+    () => import("@features/grid-samples/pages/AgBasicGridPage"),
+    (module) => module.AgBasicGridPage
+  ),
+  "grid.samples.tanstack.basic": lazyPage(
+    () => import("@features/grid-samples/pages/TanStackTableBasicPage"),
+    (module) => module.TanStackTableBasicPage
+  ),
+  "grid.samples.ag.aggregation": lazyPage(
+    () => import("@features/grid-samples/pages/AgAggregationGroupingPage"),
+    (module) => module.AgAggregationGroupingPage
+  ),
+  "grid.samples.tanstack.role": lazyPage(
+    () => import("@features/grid-samples/pages/TanStackRoleBasedGridPage"),
+    (module) => module.TanStackRoleBasedGridPage
+  ),
+  "grid.samples.ag.editing": lazyPage(
+    () => import("@features/grid-samples/pages/AgEditingValidationPage"),
+    (module) => module.AgEditingValidationPage
+  ),
+  "grid.samples.form.like": lazyPage(
+    () => import("@features/grid-samples/pages/FormLikeGridPage"),
+    (module) => module.FormLikeGridPage
+  ),
+  "grid.samples.infinite": lazyPage(
+    () => import("@features/grid-samples/pages/InfiniteScrollVirtualGridPage"),
+    (module) => module.InfiniteScrollVirtualGridPage
+  ),
+  "grid.samples.pivot.chart": lazyPage(
+    () => import("@features/grid-samples/pages/AgPivotChartPlaygroundPage"),
+    (module) => module.AgPivotChartPlaygroundPage
+  ),
+  "grid.samples.tree": lazyPage(
+    () => import("@features/grid-samples/pages/TreeDataGridPage"),
+    (module) => module.TreeDataGridPage
+  ),
+  "grid.samples.multi.tabs": lazyPage(
+    () => import("@features/grid-samples/pages/MultiGridTabsPage"),
+    (module) => module.MultiGridTabsPage
+  ),
+  "grid.samples.master.detail": lazyPage(
+    () => import("@features/grid-samples/pages/MultiGridMasterDetailPage"),
+    (module) => module.MultiGridMasterDetailPage
+  ),
+  "grid.samples.row.detail": lazyPage(
+    () => import("@features/grid-samples/pages/GridWithRowDetailModalPage"),
+    (module) => module.GridWithRowDetailModalPage
+  ),
+  "grid.samples.filter.playground": lazyPage(
+    () => import("@features/grid-samples/pages/TanStackFilterPlaygroundPage"),
+    (module) => module.TanStackFilterPlaygroundPage
+  ),
+  "grid.samples.global.state": lazyPage(
+    () => import("@features/grid-samples/pages/GlobalStateDemoPage"),
+    (module) => module.GlobalStateDemoPage
+  ),
+
+  // Notifications / Settings / Tools
+  "notifications.templates": lazyPage(
+    () => import("@features/notifications/pages/NotificationTemplatePage"),
+    (module) => module.NotificationTemplatePage
+  ),
+  "system.menu.management": lazyPage(
+    () => import("@features/settings/pages/MenuManagementPage"),
+    (module) => module.MenuManagementPage
+  ),
+  "system.settings": lazyPage(
+    () => import("@features/system/pages/SystemSettingsPage"),
+    (module) => module.SystemSettingsPage
+  ),
+  "tools.swagger": lazyPage(
+    () => import("@features/api-playground/pages/SwaggerPlaygroundPage"),
+    (module) => module.SwaggerPlaygroundPage
+  ),
+
+  // Dev / Playground
+  "dev.menu.playground": lazyPage(
+    () => import("@features/dev/pages/MenuPlaygroundPage"),
+    (module) => module.MenuPlaygroundPage
+  ),
+};
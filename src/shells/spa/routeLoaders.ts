@@ -0,0 +1,27 @@
+/**
+ * SoftOne Design System(SDS) - Route Loaders
+ * 작성: SoftOne Frontend Team
+ *
+ * 라우트 레지스트리(ROUTE_REGISTRY)의 routeKey와 Feature의 데이터 로더를 연결합니다.
+ * SpaNavigationProvider가 이동/링크 hover 시 로더를 실행해 queryClient를 미리 채웁니다.
+ *
+ * 로더가 없는 화면은 기존처럼 마운트 후 데이터를 불러옵니다.
+ * 레지스트리에 없는 routeKey를 등록하면 validateRouteRegistry가 orphan-loader로 검출합니다.
+ *
+ * 로더 모듈은 페이지와 달리 즉시 로드되므로, 페이지 컴포넌트를 import하지 않는 api 모듈만 연결합니다.
+ */
+
+import type { RouteLoader } from "@core/router/routeLoader";
+import { dashboardRouteLoader } from "@features/dashboard/api/dashboardApi";
+import { userListRouteLoader } from "@features/users/api/userApi";
+import { scheduleRouteLoader } from "@features/schedules/api/scheduleApi";
+
+// ========================================
+// Route Loaders
+// ========================================
+
+export const ROUTE_LOADERS: Partial<Record<string, RouteLoader>> = {
+  "dashboard.main": dashboardRouteLoader,
+  "users.list": userListRouteLoader,
+  "schedules.main": scheduleRouteLoader,
+};
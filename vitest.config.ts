@@ -19,7 +19,12 @@ export default defineConfig({
     setupFiles: ["./src/test/setup.ts"],
 
     // 테스트 파일 패턴
-    include: ["src/**/*.{test,spec}.{ts,tsx}"],
+    include: [
+      "src/**/*.{test,spec}.{ts,tsx}",
+      // backend-mock Repository 테스트 (인메모리 SQLite)
+      "backend-mock/**/*.test.ts",
+    ],
+    exclude: ["**/node_modules/**"],
 
     // 커버리지 설정
     coverage: {